@@ -9,6 +9,7 @@
 import { useState } from "react";
 import { StatCard } from "../../../components/ui/stat-card";
 import { ConfirmDialog } from "../../../components/ui/confirm-dialog";
+import { SmoothingBufferPanel } from "../../../components/defi/smoothing-buffer-panel";
 import {
   useDefiStats,
   useDefiConfig,
@@ -203,6 +204,9 @@ export default function DefiPage() {
         </div>
       )}
 
+      {/* Smoothing Buffer */}
+      <SmoothingBufferPanel />
+
       {/* Configuration Forms */}
       {configLoading ? (
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -0,0 +1,365 @@
+/**
+ * Admin Properties Page
+ *
+ * Verification queue and suspension handling for the on-chain PropertyRegistry.
+ */
+
+"use client";
+
+import { useState, useMemo } from "react";
+import { DataTable, type Column } from "../../../components/ui/data-table";
+import { FilterBar } from "../../../components/ui/filter-bar";
+import { StatusBadge } from "../../../components/ui/status-badge";
+import { Pagination } from "../../../components/ui/pagination";
+import { ConfirmDialog } from "../../../components/ui/confirm-dialog";
+import { useProperties, usePropertyRegistryAction } from "../../../hooks/use-properties";
+import type {
+  AdminProperty,
+  PropertyRegistryAction,
+  PropertyRegistryStatus,
+} from "../../../lib/properties-client";
+
+const PAGE_SIZE = 20;
+
+const filterConfig = [
+  {
+    key: "queue",
+    label: "Queue",
+    type: "select" as const,
+    options: [
+      { value: "", label: "All Properties" },
+      { value: "PENDING", label: "Awaiting Verification" },
+      { value: "VERIFIED", label: "Verified" },
+      { value: "SUSPENDED", label: "Suspended" },
+      { value: "REVOKED", label: "Revoked" },
+      { value: "suspensionPending", label: "Suspension Pending" },
+      { value: "unregistered", label: "Not Registered" },
+    ],
+  },
+];
+
+const STATUS_VARIANTS: Record<PropertyRegistryStatus, "warning" | "success" | "error" | "default"> = {
+  PENDING: "warning",
+  VERIFIED: "success",
+  SUSPENDED: "error",
+  REVOKED: "default",
+};
+
+type DialogType = "verify" | "requestSuspension" | "executeSuspension" | "cancelSuspension" | "resolveDispute" | "unsuspend" | "revoke";
+
+interface DialogState {
+  type: DialogType;
+  property: AdminProperty;
+}
+
+const DIALOG_COPY: Record<DialogType, { title: string; confirmLabel: string; variant: "danger" | "warning" | "info"; needsReason: boolean }> = {
+  verify: { title: "Verify Property", confirmLabel: "Verify", variant: "info", needsReason: false },
+  requestSuspension: { title: "Request Suspension", confirmLabel: "Request Suspension", variant: "warning", needsReason: true },
+  executeSuspension: { title: "Execute Suspension", confirmLabel: "Suspend", variant: "danger", needsReason: false },
+  cancelSuspension: { title: "Cancel Suspension", confirmLabel: "Cancel Suspension", variant: "info", needsReason: false },
+  resolveDispute: { title: "Resolve Dispute", confirmLabel: "Resolve", variant: "warning", needsReason: true },
+  unsuspend: { title: "Unsuspend Property", confirmLabel: "Unsuspend", variant: "info", needsReason: false },
+  revoke: { title: "Revoke Property", confirmLabel: "Revoke", variant: "danger", needsReason: true },
+};
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleString() : "-";
+}
+
+/**
+ * Actions the registry allows from the property's current state
+ */
+function getAvailableActions(property: AdminProperty): DialogType[] {
+  if (property.suspensionRequestedAt) {
+    const windowEnded = property.suspensionExecuteAfter !== null && new Date(property.suspensionExecuteAfter) <= new Date();
+    if (property.suspensionDisputedAt) {
+      return ["resolveDispute", "cancelSuspension"];
+    }
+    return windowEnded ? ["executeSuspension", "cancelSuspension"] : ["cancelSuspension"];
+  }
+
+  switch (property.registryStatus) {
+    case "PENDING":
+      return ["verify", "revoke"];
+    case "VERIFIED":
+      return ["requestSuspension", "revoke"];
+    case "SUSPENDED":
+      return ["unsuspend", "revoke"];
+    default:
+      return [];
+  }
+}
+
+export default function PropertiesPage() {
+  const [page, setPage] = useState(1);
+  const [search, setSearch] = useState("");
+  const [filters, setFilters] = useState<Record<string, string>>({ queue: "PENDING" });
+  const [dialog, setDialog] = useState<DialogState | null>(null);
+  const [reason, setReason] = useState("");
+  const [upholdSuspension, setUpholdSuspension] = useState(true);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const queue = filters.queue || "";
+  const { data, isLoading, error } = useProperties({
+    page,
+    pageSize: PAGE_SIZE,
+    search: search || undefined,
+    registryStatus: ["PENDING", "VERIFIED", "SUSPENDED", "REVOKED"].includes(queue)
+      ? (queue as PropertyRegistryStatus)
+      : undefined,
+    suspensionPending: queue === "suspensionPending",
+    unregistered: queue === "unregistered",
+  });
+
+  const registryAction = usePropertyRegistryAction();
+
+  const openDialog = (type: DialogType, property: AdminProperty) => {
+    setDialog({ type, property });
+    setReason("");
+    setUpholdSuspension(true);
+    setActionError(null);
+  };
+
+  const runAction = (id: string, action: PropertyRegistryAction) => {
+    setActionError(null);
+    registryAction.mutate(
+      { id, action },
+      {
+        onSuccess: () => setDialog(null),
+        onError: (err) => setActionError(err instanceof Error ? err.message : "Registry action failed"),
+      }
+    );
+  };
+
+  const handleConfirm = () => {
+    if (!dialog) return;
+    const { type, property } = dialog;
+
+    switch (type) {
+      case "requestSuspension":
+        runAction(property.id, { type, reason });
+        break;
+      case "resolveDispute":
+        runAction(property.id, { type, upholdSuspension, resolution: reason });
+        break;
+      case "revoke":
+        runAction(property.id, { type, reason });
+        break;
+      default:
+        runAction(property.id, { type });
+    }
+  };
+
+  const columns: Column<AdminProperty>[] = useMemo(
+    () => [
+      {
+        key: "name",
+        header: "Property",
+        render: (property) => (
+          <div>
+            <p className="text-sm font-medium text-gray-900">{property.name}</p>
+            <p className="text-xs text-gray-500">
+              {property.city} · {property._count.chairs} chairs
+            </p>
+          </div>
+        ),
+      },
+      {
+        key: "owner",
+        header: "Owner",
+        render: (property) => (
+          <div>
+            <p className="text-sm text-gray-700">{property.owner?.displayName || "-"}</p>
+            <p className="text-xs text-gray-500 font-mono">
+              {property.registryOwner ? `${property.registryOwner.slice(0, 6)}...${property.registryOwner.slice(-4)}` : ""}
+            </p>
+          </div>
+        ),
+      },
+      {
+        key: "registryStatus",
+        header: "Registry",
+        render: (property) =>
+          property.registryStatus ? (
+            <StatusBadge label={property.registryStatus} variant={STATUS_VARIANTS[property.registryStatus]} />
+          ) : (
+            <div>
+              <StatusBadge label="NOT REGISTERED" variant="default" />
+              {property.registryError && (
+                <p className="text-xs text-red-600 mt-1 max-w-[200px] truncate" title={property.registryError}>
+                  {property.registryError}
+                </p>
+              )}
+            </div>
+          ),
+      },
+      {
+        key: "suspension",
+        header: "Suspension",
+        render: (property) =>
+          property.suspensionRequestedAt ? (
+            <div className="max-w-[220px]">
+              <p className="text-xs text-gray-700 line-clamp-2" title={property.suspensionReason || undefined}>
+                {property.suspensionReason}
+              </p>
+              <p className="text-xs text-gray-500">Executes after {formatDate(property.suspensionExecuteAfter)}</p>
+              {property.suspensionDisputedAt && <StatusBadge label="DISPUTED" variant="error" />}
+            </div>
+          ) : (
+            <span className="text-sm text-gray-400">-</span>
+          ),
+      },
+      {
+        key: "registrySyncedAt",
+        header: "Last Synced",
+        render: (property) => <span className="text-sm text-gray-500">{formatDate(property.registrySyncedAt)}</span>,
+      },
+      {
+        key: "actions",
+        header: "",
+        render: (property) => (
+          <div className="flex flex-wrap gap-2 justify-end">
+            {property.registryId === null ? (
+              <button
+                onClick={() => runAction(property.id, { type: "register" })}
+                className="px-2 py-1 text-xs rounded bg-purple-50 text-purple-700 hover:bg-purple-100"
+              >
+                Retry Registration
+              </button>
+            ) : (
+              <>
+                {getAvailableActions(property).map((type) => (
+                  <button
+                    key={type}
+                    onClick={() => openDialog(type, property)}
+                    className="px-2 py-1 text-xs rounded bg-gray-50 text-gray-700 hover:bg-gray-100"
+                  >
+                    {DIALOG_COPY[type].confirmLabel}
+                  </button>
+                ))}
+                <button
+                  onClick={() => runAction(property.id, { type: "sync" })}
+                  className="px-2 py-1 text-xs rounded bg-gray-50 text-gray-500 hover:bg-gray-100"
+                >
+                  Sync
+                </button>
+              </>
+            )}
+          </div>
+        ),
+      },
+    ],
+    []
+  );
+
+  const dialogCopy = dialog ? DIALOG_COPY[dialog.type] : null;
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Properties</h1>
+        <p className="text-gray-500 mt-1">
+          Verify properties on-chain and handle suspensions and owner disputes.
+        </p>
+      </div>
+
+      {/* Filter Bar */}
+      <FilterBar
+        searchPlaceholder="Search by name or city..."
+        filters={filterConfig}
+        values={{ search, ...filters }}
+        onSearchChange={(value) => {
+          setSearch(value);
+          setPage(1);
+        }}
+        onFilterChange={(key, value) => {
+          setFilters((prev) => ({ ...prev, [key]: value }));
+          setPage(1);
+        }}
+        onReset={() => {
+          setSearch("");
+          setFilters({ queue: "PENDING" });
+          setPage(1);
+        }}
+      />
+
+      {/* Error State */}
+      {(error || (actionError && !dialog)) && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-600">
+          {actionError || "Failed to load properties. Please try again."}
+        </div>
+      )}
+
+      {/* Data Table */}
+      <div className="bg-white rounded-lg border border-gray-200">
+        <DataTable
+          columns={columns}
+          data={data?.properties || []}
+          isLoading={isLoading}
+          emptyMessage="No properties in this queue"
+          getRowKey={(property) => property.id}
+        />
+
+        {/* Pagination */}
+        {data && data.pagination.totalPages > 1 && (
+          <div className="border-t border-gray-200 px-6 py-4">
+            <Pagination
+              page={data.pagination.page}
+              totalPages={data.pagination.totalPages}
+              total={data.pagination.total}
+              limit={data.pagination.pageSize}
+              onPageChange={setPage}
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Action Dialog */}
+      {dialog && dialogCopy && (
+        <ConfirmDialog
+          isOpen
+          title={dialogCopy.title}
+          confirmLabel={dialogCopy.confirmLabel}
+          variant={dialogCopy.variant}
+          isLoading={registryAction.isPending}
+          onCancel={() => setDialog(null)}
+          onConfirm={handleConfirm}
+          message={
+            <div className="space-y-3">
+              <p>
+                {dialog.type === "requestSuspension"
+                  ? `The owner of ${dialog.property.name} will have 24 hours to dispute before the suspension can be executed.`
+                  : dialog.type === "revoke"
+                    ? `Revoking ${dialog.property.name} is permanent and cannot be undone.`
+                    : dialog.type === "resolveDispute"
+                      ? `The owner disputed the suspension requested for: "${dialog.property.suspensionReason}".`
+                      : `${dialogCopy.title} for ${dialog.property.name}? This sends an on-chain transaction.`}
+              </p>
+              {dialog.type === "resolveDispute" && (
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={upholdSuspension}
+                    onChange={(e) => setUpholdSuspension(e.target.checked)}
+                  />
+                  Uphold the suspension
+                </label>
+              )}
+              {dialogCopy.needsReason && (
+                <textarea
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder={dialog.type === "resolveDispute" ? "Resolution notes (min 10 characters)" : "Reason (min 10 characters)"}
+                  rows={3}
+                  className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+                />
+              )}
+              {actionError && <p className="text-sm text-red-600">{actionError}</p>}
+            </div>
+          }
+        />
+      )}
+    </div>
+  );
+}
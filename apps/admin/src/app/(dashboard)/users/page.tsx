@@ -29,7 +29,8 @@ const statusFilterOptions = [
   { value: "", label: "All Statuses" },
   { value: "VERIFIED", label: "Verified" },
   { value: "PENDING", label: "Pending" },
-  { value: "REJECTED", label: "Rejected" },
+  { value: "UNVERIFIED", label: "Unverified" },
+  { value: "SUSPENDED", label: "Suspended" },
 ];
 
 const getStatusVariant = (status: string) => {
@@ -38,7 +39,7 @@ const getStatusVariant = (status: string) => {
       return "success";
     case "PENDING":
       return "warning";
-    case "REJECTED":
+    case "SUSPENDED":
       return "error";
     default:
       return "neutral";
@@ -0,0 +1,265 @@
+/**
+ * Admin Verifications Page
+ *
+ * Review queue for stylist identity and credential verification.
+ */
+
+"use client";
+
+import { useState, useMemo, useCallback } from "react";
+import { DataTable, type Column } from "../../../components/ui/data-table";
+import { FilterBar } from "../../../components/ui/filter-bar";
+import { StatusBadge } from "../../../components/ui/status-badge";
+import { Pagination } from "../../../components/ui/pagination";
+import { ConfirmDialog } from "../../../components/ui/confirm-dialog";
+import {
+  DOCUMENT_LABELS,
+  VerificationReviewPanel,
+  type ReviewAction,
+} from "../../../components/verifications/verification-review-panel";
+import { useReviewVerification, useVerifications } from "../../../hooks/use-verifications";
+import type { VerificationPacketStatus, VerificationQueueItem } from "../../../lib/verifications-client";
+
+const PAGE_SIZE = 20;
+
+const filterConfig = [
+  {
+    key: "status",
+    label: "Status",
+    type: "select" as const,
+    options: [
+      { value: "SUBMITTED", label: "Awaiting Review" },
+      { value: "MORE_INFO_REQUESTED", label: "More Info Requested" },
+      { value: "APPROVED", label: "Approved" },
+      { value: "REJECTED", label: "Rejected" },
+      { value: "DRAFT", label: "Drafts" },
+    ],
+  },
+];
+
+const STATUS_VARIANTS: Record<VerificationPacketStatus, "warning" | "success" | "error" | "default" | "info"> = {
+  DRAFT: "default",
+  SUBMITTED: "warning",
+  MORE_INFO_REQUESTED: "info",
+  APPROVED: "success",
+  REJECTED: "error",
+};
+
+const DIALOG_COPY: Record<ReviewAction, { title: string; confirmLabel: string; variant: "danger" | "warning" | "info"; needsReason: boolean }> = {
+  approve: { title: "Approve Verification", confirmLabel: "Approve", variant: "info", needsReason: false },
+  "request-info": { title: "Request More Info", confirmLabel: "Send Request", variant: "warning", needsReason: true },
+  reject: { title: "Reject Verification", confirmLabel: "Reject", variant: "danger", needsReason: true },
+};
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleString() : "-";
+}
+
+export default function VerificationsPage() {
+  const [page, setPage] = useState(1);
+  const [search, setSearch] = useState("");
+  const [filters, setFilters] = useState<Record<string, string>>({ status: "SUBMITTED" });
+  const [selectedPacketId, setSelectedPacketId] = useState<string | null>(null);
+  const [dialog, setDialog] = useState<ReviewAction | null>(null);
+  const [reason, setReason] = useState("");
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const { data, isLoading, error } = useVerifications({
+    page,
+    pageSize: PAGE_SIZE,
+    search: search || undefined,
+    status: (filters.status || "SUBMITTED") as VerificationPacketStatus,
+  });
+
+  const reviewVerification = useReviewVerification();
+
+  const openDialog = useCallback((action: ReviewAction) => {
+    setDialog(action);
+    setReason("");
+    setActionError(null);
+  }, []);
+
+  const closePanel = useCallback(() => setSelectedPacketId(null), []);
+
+  const handleConfirm = () => {
+    if (!dialog || !selectedPacketId) return;
+
+    setActionError(null);
+    reviewVerification.mutate(
+      {
+        id: selectedPacketId,
+        decision:
+          dialog === "approve"
+            ? { type: "approve", note: reason || undefined }
+            : { type: dialog, reason },
+      },
+      {
+        onSuccess: () => {
+          setDialog(null);
+          setSelectedPacketId(null);
+        },
+        onError: (err) => setActionError(err instanceof Error ? err.message : "Review failed"),
+      }
+    );
+  };
+
+  const columns: Column<VerificationQueueItem>[] = useMemo(
+    () => [
+      {
+        key: "stylist",
+        header: "Stylist",
+        render: (packet) => (
+          <div>
+            <p className="text-sm font-medium text-gray-900">{packet.stylist.displayName}</p>
+            <p className="text-xs text-gray-500">{packet.stylist.email || "-"}</p>
+          </div>
+        ),
+      },
+      {
+        key: "documents",
+        header: "Documents",
+        render: (packet) => (
+          <div className="flex flex-wrap gap-1 max-w-[280px]">
+            {packet.documentTypes.map((type) => (
+              <StatusBadge key={type} label={DOCUMENT_LABELS[type]} variant="purple" />
+            ))}
+          </div>
+        ),
+      },
+      {
+        key: "status",
+        header: "Status",
+        render: (packet) => (
+          <StatusBadge label={packet.status.replace(/_/g, " ")} variant={STATUS_VARIANTS[packet.status]} />
+        ),
+      },
+      {
+        key: "submittedAt",
+        header: "Submitted",
+        render: (packet) => <span className="text-sm text-gray-500">{formatDate(packet.submittedAt)}</span>,
+      },
+      {
+        key: "actions",
+        header: "",
+        render: (packet) => (
+          <div className="flex justify-end">
+            <button
+              onClick={() => setSelectedPacketId(packet.id)}
+              className="px-2 py-1 text-xs rounded bg-purple-50 text-purple-700 hover:bg-purple-100"
+            >
+              {packet.status === "SUBMITTED" ? "Review" : "View"}
+            </button>
+          </div>
+        ),
+      },
+    ],
+    []
+  );
+
+  const dialogCopy = dialog ? DIALOG_COPY[dialog] : null;
+  const reasonTooShort = Boolean(dialogCopy?.needsReason) && reason.trim().length < 10;
+
+  return (
+    <div className="space-y-6">
+      {/* Page Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Verifications</h1>
+        <p className="text-gray-500 mt-1">
+          Review stylist identity documents and credentials.
+        </p>
+      </div>
+
+      {/* Filter Bar */}
+      <FilterBar
+        searchPlaceholder="Search by name or email..."
+        filters={filterConfig}
+        values={{ search, ...filters }}
+        onSearchChange={(value) => {
+          setSearch(value);
+          setPage(1);
+        }}
+        onFilterChange={(key, value) => {
+          setFilters((prev) => ({ ...prev, [key]: value }));
+          setPage(1);
+        }}
+        onReset={() => {
+          setSearch("");
+          setFilters({ status: "SUBMITTED" });
+          setPage(1);
+        }}
+      />
+
+      {/* Error State */}
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-600">
+          Failed to load verifications. Please try again.
+        </div>
+      )}
+
+      {/* Data Table */}
+      <div className="bg-white rounded-lg border border-gray-200">
+        <DataTable
+          columns={columns}
+          data={data?.packets || []}
+          isLoading={isLoading}
+          emptyMessage="No verification packets in this queue"
+          getRowKey={(packet) => packet.id}
+        />
+
+        {/* Pagination */}
+        {data && data.pagination.totalPages > 1 && (
+          <div className="border-t border-gray-200 px-6 py-4">
+            <Pagination
+              page={data.pagination.page}
+              totalPages={data.pagination.totalPages}
+              total={data.pagination.total}
+              limit={data.pagination.pageSize}
+              onPageChange={setPage}
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Review Panel */}
+      <VerificationReviewPanel packetId={selectedPacketId} onClose={closePanel} onAction={openDialog} />
+
+      {/* Decision Dialog */}
+      {dialog && dialogCopy && (
+        <ConfirmDialog
+          isOpen
+          title={dialogCopy.title}
+          confirmLabel={dialogCopy.confirmLabel}
+          variant={dialogCopy.variant}
+          isLoading={reviewVerification.isPending}
+          onCancel={() => setDialog(null)}
+          onConfirm={() => {
+            if (!reasonTooShort) handleConfirm();
+          }}
+          message={
+            <div className="space-y-3">
+              <p>
+                {dialog === "approve"
+                  ? "The stylist will be marked verified and receive the Verified Stylist badge."
+                  : dialog === "reject"
+                    ? "The stylist will be told why and can submit a new packet."
+                    : "The packet goes back to the stylist to add or replace documents."}
+              </p>
+              <textarea
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder={
+                  dialogCopy.needsReason
+                    ? "Reason shown to the stylist (min 10 characters)"
+                    : "Optional note for the stylist"
+                }
+                rows={3}
+                className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm"
+              />
+              {actionError && <p className="text-sm text-red-600">{actionError}</p>}
+            </div>
+          }
+        />
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 /**
  * Admin Login Page (V7.0.0)
  *
- * Login page for admin users. Requires ADMIN role.
+ * Login page for admin users. Requires ADMIN role and a second factor.
  */
 
 "use client";
@@ -9,13 +9,25 @@
 import { useState, FormEvent, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { useAdminAuth } from "../../hooks/use-admin-auth";
+import { TwoFactorEnrollment } from "../../components/auth/two-factor-enrollment";
 
 export default function AdminLoginPage() {
   const router = useRouter();
-  const { login, isAuthenticated, isLoading, error: authError } = useAdminAuth();
+  const {
+    login,
+    verifyTwoFactor,
+    logout,
+    isAuthenticated,
+    isLoading,
+    error: authError,
+    twoFactorChallenge,
+    twoFactorEnrollmentRequired,
+  } = useAdminAuth();
 
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -43,6 +55,23 @@ export default function AdminLoginPage() {
     }
   };
 
+  const handleVerify = async (e: FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+
+    try {
+      const success = await verifyTwoFactor(
+        useRecoveryCode ? { recoveryCode: code.trim() } : { code: code.trim() }
+      );
+      if (success) {
+        router.push("/");
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   if (isLoading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gray-100">
@@ -72,54 +101,98 @@ export default function AdminLoginPage() {
             </div>
           )}
 
-          {/* Login Form */}
-          <form onSubmit={handleSubmit} className="space-y-6">
-            <div>
-              <label
-                htmlFor="email"
-                className="block text-sm font-medium text-gray-700 mb-1"
-              >
-                Email
-              </label>
-              <input
-                id="email"
-                type="email"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                required
-                autoComplete="email"
-                className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500 outline-none transition-colors"
-                placeholder="admin@vlossom.com"
-              />
-            </div>
+          {twoFactorEnrollmentRequired ? (
+            <TwoFactorEnrollment onDone={logout} />
+          ) : twoFactorChallenge ? (
+            <form onSubmit={handleVerify} className="space-y-6">
+              <div>
+                <label
+                  htmlFor="code"
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  {useRecoveryCode ? "Recovery code" : "Verification code"}
+                </label>
+                <input
+                  id="code"
+                  type="text"
+                  inputMode={useRecoveryCode ? undefined : "numeric"}
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  required
+                  autoComplete="one-time-code"
+                  className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500 outline-none transition-colors"
+                  placeholder={useRecoveryCode ? "xxxx-xxxx-xxxx" : "123456"}
+                />
+                <button
+                  type="button"
+                  onClick={() => {
+                    setUseRecoveryCode(!useRecoveryCode);
+                    setCode("");
+                  }}
+                  className="mt-2 text-sm text-purple-600 hover:text-purple-700"
+                >
+                  {useRecoveryCode ? "Use a verification code instead" : "Use a recovery code"}
+                </button>
+              </div>
 
-            <div>
-              <label
-                htmlFor="password"
-                className="block text-sm font-medium text-gray-700 mb-1"
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="w-full py-2.5 px-4 bg-purple-600 text-white font-medium rounded-lg hover:bg-purple-700 focus:ring-2 focus:ring-purple-500 focus:ring-offset-2 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
               >
-                Password
-              </label>
-              <input
-                id="password"
-                type="password"
-                value={password}
-                onChange={(e) => setPassword(e.target.value)}
-                required
-                autoComplete="current-password"
-                className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500 outline-none transition-colors"
-                placeholder="Enter your password"
-              />
-            </div>
+                {isSubmitting ? "Verifying..." : "Verify"}
+              </button>
+            </form>
+          ) : (
+            /* Login Form */
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div>
+                <label
+                  htmlFor="email"
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  Email
+                </label>
+                <input
+                  id="email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                  autoComplete="email"
+                  className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500 outline-none transition-colors"
+                  placeholder="admin@vlossom.com"
+                />
+              </div>
+
+              <div>
+                <label
+                  htmlFor="password"
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  Password
+                </label>
+                <input
+                  id="password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                  autoComplete="current-password"
+                  className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500 outline-none transition-colors"
+                  placeholder="Enter your password"
+                />
+              </div>
 
-            <button
-              type="submit"
-              disabled={isSubmitting}
-              className="w-full py-2.5 px-4 bg-purple-600 text-white font-medium rounded-lg hover:bg-purple-700 focus:ring-2 focus:ring-purple-500 focus:ring-offset-2 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              {isSubmitting ? "Signing in..." : "Sign in"}
-            </button>
-          </form>
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="w-full py-2.5 px-4 bg-purple-600 text-white font-medium rounded-lg hover:bg-purple-700 focus:ring-2 focus:ring-purple-500 focus:ring-offset-2 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSubmitting ? "Signing in..." : "Sign in"}
+              </button>
+            </form>
+          )}
 
           {/* Footer */}
           <p className="mt-8 text-center text-sm text-gray-500">
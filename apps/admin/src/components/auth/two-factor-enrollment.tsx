@@ -0,0 +1,112 @@
+/**
+ * Admin Two-Factor Enrollment
+ *
+ * Admins must use 2FA. Shown after a password sign-in without it: set up an
+ * authenticator app, save the recovery codes, then sign in again with a code.
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import { startAdminTotpEnrollment, confirmAdminTwoFactor } from "../../lib/admin-client";
+
+interface TwoFactorEnrollmentProps {
+  /** Called once the codes are saved - sign out so the admin signs in with 2FA */
+  onDone: () => void;
+}
+
+export function TwoFactorEnrollment({ onDone }: TwoFactorEnrollmentProps) {
+  const [enrollment, setEnrollment] = useState<{ secret: string; otpauthUrl: string } | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    startAdminTotpEnrollment()
+      .then(setEnrollment)
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to start setup"));
+  }, []);
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setIsSubmitting(true);
+
+    try {
+      const result = await confirmAdminTwoFactor(code.trim());
+      setRecoveryCodes(result.recoveryCodes);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Invalid code");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-4">
+        <h2 className="text-lg font-semibold text-gray-900">Save your recovery codes</h2>
+        <p className="text-sm text-gray-500">
+          Each code signs you in once if you lose your authenticator. They won&apos;t be shown again.
+        </p>
+        <div className="grid grid-cols-2 gap-2 p-4 bg-gray-50 rounded-lg font-mono text-sm">
+          {recoveryCodes.map((recoveryCode) => (
+            <span key={recoveryCode}>{recoveryCode}</span>
+          ))}
+        </div>
+        <button
+          type="button"
+          onClick={onDone}
+          className="w-full py-2.5 px-4 bg-purple-600 text-white font-medium rounded-lg hover:bg-purple-700 transition-colors"
+        >
+          I&apos;ve saved them - sign in again
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleConfirm} className="space-y-4">
+      <h2 className="text-lg font-semibold text-gray-900">Set up two-factor authentication</h2>
+      <p className="text-sm text-gray-500">
+        Admin accounts need an authenticator app. Add this key to your app, then enter the 6-digit code it shows.
+      </p>
+
+      {enrollment && (
+        <div className="p-4 bg-gray-50 rounded-lg space-y-2">
+          <code className="block text-sm break-all">{enrollment.secret}</code>
+          <a href={enrollment.otpauthUrl} className="text-sm text-purple-600 underline">
+            Open in authenticator app
+          </a>
+        </div>
+      )}
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      <input
+        type="text"
+        inputMode="numeric"
+        autoComplete="one-time-code"
+        maxLength={6}
+        value={code}
+        onChange={(e) => setCode(e.target.value)}
+        aria-label="Verification code"
+        className="w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500 outline-none transition-colors"
+        placeholder="123456"
+      />
+
+      <button
+        type="submit"
+        disabled={isSubmitting || !enrollment || !/^\d{6}$/.test(code.trim())}
+        className="w-full py-2.5 px-4 bg-purple-600 text-white font-medium rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        {isSubmitting ? "Verifying..." : "Turn on 2FA"}
+      </button>
+    </form>
+  );
+}
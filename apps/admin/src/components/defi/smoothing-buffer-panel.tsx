@@ -0,0 +1,144 @@
+/**
+ * Smoothing Buffer Panel
+ *
+ * Buffer health, instant payouts awaiting repayment and replenishment alerts.
+ */
+
+"use client";
+
+import { useBufferOverview, useReconcileBufferPayout } from "../../hooks/use-defi";
+import type { BufferAlert } from "../../lib/defi-client";
+
+// USDC has 6 decimals
+function formatUsdc(units: string): string {
+  return `$${(Number(units) / 1_000_000).toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+}
+
+function formatCents(cents: string): string {
+  return `$${(Number(cents) / 100).toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  PENDING: "Sending",
+  PAID: "Awaiting escrow",
+  RELEASED: "Awaiting replenish",
+  RECONCILED: "Reconciled",
+  FAILED: "Failed",
+};
+
+function AlertRow({ alert, onRetry, retrying }: { alert: BufferAlert; onRetry: (id: string) => void; retrying: boolean }) {
+  const critical = alert.level === "CRITICAL";
+
+  return (
+    <div
+      className={`p-3 rounded-lg border ${
+        critical ? "bg-red-50 border-red-200 text-red-800" : "bg-yellow-50 border-yellow-200 text-yellow-800"
+      }`}
+    >
+      <p className="text-sm font-medium">{alert.message}</p>
+      {alert.bookingIds && alert.bookingIds.length > 0 && (
+        <div className="mt-2 flex flex-wrap gap-2">
+          {alert.bookingIds.map((id) => (
+            <span key={id} className="inline-flex items-center gap-2 px-2 py-1 text-xs bg-white rounded border">
+              <span className="font-mono">{id.slice(0, 8)}</span>
+              {alert.type === "REPLENISH_FAILED" && (
+                <button
+                  onClick={() => onRetry(id)}
+                  disabled={retrying}
+                  className="text-purple-600 hover:underline disabled:opacity-50"
+                >
+                  Retry
+                </button>
+              )}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function SmoothingBufferPanel() {
+  const { data, isLoading, isError } = useBufferOverview();
+  const reconcile = useReconcileBufferPayout();
+
+  if (isLoading) {
+    return <div className="h-48 bg-gray-100 rounded-lg animate-pulse" />;
+  }
+
+  if (isError || !data) {
+    return (
+      <div className="bg-white rounded-lg border border-gray-200 p-6">
+        <h3 className="text-sm font-medium text-gray-900 mb-2">Smoothing Buffer</h3>
+        <p className="text-sm text-gray-500">Buffer is not configured or could not be read.</p>
+      </div>
+    );
+  }
+
+  const { health, alerts, payouts } = data;
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-gray-900">Smoothing Buffer</h3>
+        <span
+          className={`px-2 py-1 text-xs font-medium rounded ${
+            health.healthy ? "bg-green-100 text-green-700" : "bg-red-100 text-red-700"
+          }`}
+        >
+          {health.healthy ? "Healthy" : "Needs replenishment"}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div>
+          <p className="text-xs text-gray-500">Balance</p>
+          <p className="text-lg font-semibold text-gray-900">{formatUsdc(health.balance)}</p>
+        </div>
+        <div>
+          <p className="text-xs text-gray-500">Threshold</p>
+          <p className="text-lg font-semibold text-gray-900">{formatUsdc(health.threshold)}</p>
+        </div>
+        <div>
+          <p className="text-xs text-gray-500">Pending replenishment</p>
+          <p className="text-lg font-semibold text-gray-900">{formatUsdc(health.pending)}</p>
+        </div>
+        <div>
+          <p className="text-xs text-gray-500">Outstanding payouts</p>
+          <p className="text-lg font-semibold text-gray-900">{formatCents(payouts.outstandingCents)}</p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {Object.entries(payouts.byStatus).map(([status, count]) => (
+          <span key={status} className="px-2 py-1 text-xs font-medium bg-gray-100 text-gray-700 rounded">
+            {STATUS_LABELS[status] ?? status}: {count}
+          </span>
+        ))}
+      </div>
+
+      {payouts.shortfallCents !== "0" && (
+        <p className="text-sm text-gray-600">
+          Refunds left {formatCents(payouts.shortfallCents)} of instant payouts unrecovered from escrow.
+        </p>
+      )}
+
+      {alerts.length > 0 && (
+        <div className="space-y-2">
+          {alerts.map((alert) => (
+            <AlertRow
+              key={alert.type}
+              alert={alert}
+              onRetry={(id) => reconcile.mutate(id)}
+              retrying={reconcile.isPending}
+            />
+          ))}
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500">
+        Lifetime: {formatUsdc(health.totalPayouts)} paid out, {formatUsdc(health.totalReplenishments)} replenished
+      </p>
+    </div>
+  );
+}
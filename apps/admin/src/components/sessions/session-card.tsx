@@ -80,6 +80,16 @@ export function SessionCard({ session, onClick }: SessionCardProps) {
         />
       </div>
 
+      {/* Live progress from the stylist */}
+      {(session.currentStep || !!session.viewerCount) && (
+        <div className="flex items-center justify-between text-xs text-gray-500 mb-3">
+          <span className="truncate">{session.currentStep}</span>
+          {session.viewerCount ? (
+            <span className="text-green-600">{session.viewerCount} watching</span>
+          ) : null}
+        </div>
+      )}
+
       {/* Customer and Stylist */}
       <div className="flex items-center justify-between mb-3">
         <div className="flex items-center gap-2">
@@ -22,7 +22,7 @@ export function UserActionsDropdown({ user, onViewDetails }: UserActionsDropdown
 
   const updateUser = useUpdateUser();
 
-  const isFrozen = user.verificationStatus === "REJECTED";
+  const isFrozen = user.verificationStatus === "SUSPENDED";
   const isVerified = user.verificationStatus === "VERIFIED";
 
   const handleAction = async () => {
@@ -32,12 +32,13 @@ export function UserActionsDropdown({ user, onViewDetails }: UserActionsDropdown
       if (confirmAction === "freeze") {
         await updateUser.mutateAsync({
           id: user.id,
-          data: { verificationStatus: "REJECTED" },
+          data: { verificationStatus: "SUSPENDED" },
         });
       } else if (confirmAction === "unfreeze") {
         await updateUser.mutateAsync({
           id: user.id,
-          data: { verificationStatus: "PENDING" },
+          // Reinstated stylists go back through verification
+          data: { verificationStatus: "UNVERIFIED" },
         });
       } else if (confirmAction === "verify") {
         await updateUser.mutateAsync({
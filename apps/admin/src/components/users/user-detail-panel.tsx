@@ -56,7 +56,7 @@ export function UserDetailPanel({ userId, onClose }: UserDetailPanelProps) {
         return "success";
       case "PENDING":
         return "warning";
-      case "REJECTED":
+      case "SUSPENDED":
         return "error";
       default:
         return "neutral";
@@ -0,0 +1,222 @@
+/**
+ * Verification Review Panel
+ *
+ * Slide-over panel with a stylist's verification documents and past decisions.
+ */
+
+"use client";
+
+import { useEffect } from "react";
+import { useVerification } from "../../hooks/use-verifications";
+import { StatusBadge } from "../ui/status-badge";
+import type { VerificationDocumentType } from "../../lib/verifications-client";
+
+export type ReviewAction = "approve" | "reject" | "request-info";
+
+interface VerificationReviewPanelProps {
+  packetId: string | null;
+  onClose: () => void;
+  onAction: (action: ReviewAction) => void;
+}
+
+export const DOCUMENT_LABELS: Record<VerificationDocumentType, string> = {
+  GOVERNMENT_ID: "Government ID",
+  SELFIE: "Selfie",
+  CERTIFICATION: "Certification",
+  BUSINESS_REGISTRATION: "Business Registration",
+  PORTFOLIO_PROOF: "Portfolio Proof",
+};
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleString() : "-");
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+
+export function VerificationReviewPanel({ packetId, onClose, onAction }: VerificationReviewPanelProps) {
+  const { data, isLoading, error } = useVerification(packetId);
+  const packet = data?.packet;
+
+  // Handle escape key
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === "Escape") {
+        onClose();
+      }
+    };
+
+    if (packetId) {
+      document.addEventListener("keydown", handleEscape);
+      document.body.style.overflow = "hidden";
+    }
+
+    return () => {
+      document.removeEventListener("keydown", handleEscape);
+      document.body.style.overflow = "";
+    };
+  }, [packetId, onClose]);
+
+  if (!packetId) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex">
+      {/* Backdrop */}
+      <div className="absolute inset-0 bg-black/30" onClick={onClose} />
+
+      {/* Panel */}
+      <div className="absolute right-0 top-0 h-full w-full max-w-lg bg-white shadow-xl">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900">Verification Review</h2>
+          <button onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg transition-colors">
+            <svg className="w-5 h-5 text-gray-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 overflow-y-auto h-[calc(100%-73px)]">
+          {isLoading && (
+            <div className="space-y-4">
+              <div className="h-20 bg-gray-100 rounded-lg animate-pulse" />
+              <div className="h-40 bg-gray-100 rounded-lg animate-pulse" />
+            </div>
+          )}
+
+          {error && (
+            <div className="text-center py-8">
+              <p className="text-red-600">Failed to load verification packet</p>
+              <button onClick={onClose} className="mt-4 text-sm text-purple-600 hover:text-purple-700">
+                Close
+              </button>
+            </div>
+          )}
+
+          {packet && (
+            <div className="space-y-6">
+              {/* Stylist */}
+              <div className="flex items-center gap-4">
+                <div className="h-16 w-16 rounded-full bg-purple-100 flex items-center justify-center text-purple-600 font-semibold text-xl">
+                  {packet.stylist.displayName[0]?.toUpperCase()}
+                </div>
+                <div>
+                  <h3 className="font-semibold text-gray-900 text-lg">{packet.stylist.displayName}</h3>
+                  <p className="text-gray-500">{packet.stylist.email || "No email"}</p>
+                  <p className="text-xs text-gray-400">Joined {formatDate(packet.stylist.createdAt)}</p>
+                </div>
+              </div>
+
+              {/* Status */}
+              <div className="bg-gray-50 rounded-lg p-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-gray-500">Packet</span>
+                  <StatusBadge label={packet.status.replace(/_/g, " ")} variant="purple" />
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-gray-500">Stylist status</span>
+                  <StatusBadge
+                    label={packet.stylist.verificationStatus}
+                    variant={packet.stylist.verificationStatus === "SUSPENDED" ? "error" : "default"}
+                  />
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-gray-500">Submitted</span>
+                  <span className="text-sm text-gray-900">{formatDate(packet.submittedAt)}</span>
+                </div>
+                {packet.reviewNote && (
+                  <div>
+                    <span className="text-sm text-gray-500">Review note</span>
+                    <p className="text-sm text-gray-900 mt-1">{packet.reviewNote}</p>
+                  </div>
+                )}
+              </div>
+
+              {/* Documents */}
+              <div className="space-y-3">
+                <h4 className="text-sm font-medium text-gray-900">Documents</h4>
+                {!packet.completeness.complete && (
+                  <p className="text-xs text-amber-600">
+                    Incomplete:{" "}
+                    {[
+                      ...packet.completeness.missingTypes.map((type) => DOCUMENT_LABELS[type]),
+                      ...(packet.completeness.needsCredential ? ["a credential"] : []),
+                    ].join(", ")}{" "}
+                    missing
+                  </p>
+                )}
+                <div className="bg-gray-50 rounded-lg divide-y divide-gray-200">
+                  {packet.documents.map((document) => (
+                    <div key={document.id} className="flex items-center justify-between p-4">
+                      <div>
+                        <p className="text-sm text-gray-900">{DOCUMENT_LABELS[document.type]}</p>
+                        <p className="text-xs text-gray-500">
+                          {document.format.toUpperCase()} · {formatSize(document.bytes)}
+                        </p>
+                      </div>
+                      {document.url && (
+                        <a
+                          href={document.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-sm text-purple-600 hover:text-purple-700"
+                        >
+                          View
+                        </a>
+                      )}
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-400">Document links expire after 10 minutes. Reopen the packet for new ones.</p>
+              </div>
+
+              {/* History */}
+              {packet.history.length > 0 && (
+                <div className="space-y-3">
+                  <h4 className="text-sm font-medium text-gray-900">Earlier Decisions</h4>
+                  <div className="bg-gray-50 rounded-lg divide-y divide-gray-200">
+                    {packet.history.map((entry) => (
+                      <div key={entry.id} className="p-4">
+                        <div className="flex items-center justify-between">
+                          <StatusBadge
+                            label={entry.status}
+                            variant={entry.status === "APPROVED" ? "success" : "error"}
+                          />
+                          <span className="text-xs text-gray-500">{formatDate(entry.reviewedAt)}</span>
+                        </div>
+                        {entry.reviewNote && <p className="text-sm text-gray-700 mt-2">{entry.reviewNote}</p>}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Actions */}
+              {packet.status === "SUBMITTED" && (
+                <div className="flex gap-2 pt-2">
+                  <button
+                    onClick={() => onAction("approve")}
+                    className="flex-1 px-4 py-2 text-sm font-medium rounded-lg bg-purple-600 text-white hover:bg-purple-700"
+                  >
+                    Approve
+                  </button>
+                  <button
+                    onClick={() => onAction("request-info")}
+                    className="flex-1 px-4 py-2 text-sm font-medium rounded-lg bg-amber-50 text-amber-700 hover:bg-amber-100"
+                  >
+                    Request Info
+                  </button>
+                  <button
+                    onClick={() => onAction("reject")}
+                    className="flex-1 px-4 py-2 text-sm font-medium rounded-lg bg-red-50 text-red-700 hover:bg-red-100"
+                  >
+                    Reject
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -2,7 +2,8 @@
  * Admin Authentication Hook (V7.0.0)
  *
  * React hook for admin authentication state with role verification.
- * Only allows users with ADMIN role to access the admin panel.
+ * Only allows users with ADMIN role to access the admin panel, signed in
+ * with a second factor. Admins without 2FA are asked to enroll first.
  */
 
 "use client";
@@ -13,6 +14,8 @@ import {
   getCurrentAdmin,
   adminLogin,
   adminLogout,
+  adminVerifyTwoFactor,
+  AdminTwoFactorChallenge,
   AdminUser,
   ApiError,
 } from "../lib/admin-client";
@@ -22,10 +25,15 @@ export interface AdminAuthState {
   isLoading: boolean;
   isAuthenticated: boolean;
   error: string | null;
+  /** Password accepted - waiting for the 2FA code */
+  twoFactorChallenge?: AdminTwoFactorChallenge;
+  /** Password accepted but the admin must set up 2FA before signing in */
+  twoFactorEnrollmentRequired?: boolean;
 }
 
 export interface AdminAuthActions {
   login: (email: string, password: string) => Promise<boolean>;
+  verifyTwoFactor: (input: { code?: string; recoveryCode?: string }) => Promise<boolean>;
   logout: () => Promise<void>;
   refreshUser: () => Promise<void>;
 }
@@ -80,6 +88,29 @@ export function AdminAuthProvider({ children }: { children: ReactNode }) {
 
       try {
         const result = await adminLogin(email, password);
+
+        if ("twoFactorRequired" in result) {
+          setState({
+            user: null,
+            isLoading: false,
+            isAuthenticated: false,
+            error: null,
+            twoFactorChallenge: result,
+          });
+          return false;
+        }
+
+        if (result.twoFactorEnrollmentRequired) {
+          setState({
+            user: null,
+            isLoading: false,
+            isAuthenticated: false,
+            error: null,
+            twoFactorEnrollmentRequired: true,
+          });
+          return false;
+        }
+
         const user = result.user as AdminUser;
 
         // Verify admin role
@@ -124,6 +155,47 @@ export function AdminAuthProvider({ children }: { children: ReactNode }) {
     []
   );
 
+  const verifyTwoFactor = useCallback(
+    async (input: { code?: string; recoveryCode?: string }): Promise<boolean> => {
+      const challenge = state.twoFactorChallenge;
+      if (!challenge) return false;
+
+      setState((prev) => ({ ...prev, isLoading: true, error: null }));
+
+      try {
+        await adminVerifyTwoFactor(challenge.challengeToken, input);
+        const user = await getCurrentAdmin();
+
+        if (!user) {
+          setState({
+            user: null,
+            isLoading: false,
+            isAuthenticated: false,
+            error: "Access denied. Admin privileges required.",
+          });
+          return false;
+        }
+
+        setState({
+          user,
+          isLoading: false,
+          isAuthenticated: true,
+          error: null,
+        });
+        return true;
+      } catch (err) {
+        // Keep the challenge so the admin can try another code
+        setState((prev) => ({
+          ...prev,
+          isLoading: false,
+          error: err instanceof Error ? err.message : "Verification failed",
+        }));
+        return false;
+      }
+    },
+    [state.twoFactorChallenge]
+  );
+
   const logout = useCallback(async () => {
     setState((prev) => ({ ...prev, isLoading: true }));
 
@@ -151,6 +223,7 @@ export function AdminAuthProvider({ children }: { children: ReactNode }) {
   const value: AdminAuthContextValue = {
     ...state,
     login,
+    verifyTwoFactor,
     logout,
     refreshUser,
   };
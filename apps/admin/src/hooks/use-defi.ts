@@ -16,6 +16,8 @@ import {
   unpausePool,
   emergencyPauseAll,
   emergencyUnpauseAll,
+  fetchBufferOverview,
+  reconcileBufferPayout,
   type APYParams,
   type FeeSplit,
 } from "../lib/defi-client";
@@ -27,6 +29,7 @@ export const defiKeys = {
   all: ["defi"] as const,
   stats: () => [...defiKeys.all, "stats"] as const,
   config: () => [...defiKeys.all, "config"] as const,
+  buffer: () => [...defiKeys.all, "buffer"] as const,
 };
 
 /**
@@ -135,3 +138,28 @@ export function useEmergencyUnpauseAll() {
     },
   });
 }
+
+/**
+ * Fetch smoothing buffer health and alerts
+ */
+export function useBufferOverview() {
+  return useQuery({
+    queryKey: defiKeys.buffer(),
+    queryFn: fetchBufferOverview,
+    staleTime: 30_000,
+  });
+}
+
+/**
+ * Retry reconciling an instant payout mutation
+ */
+export function useReconcileBufferPayout() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (bookingId: string) => reconcileBufferPayout(bookingId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: defiKeys.buffer() });
+    },
+  });
+}
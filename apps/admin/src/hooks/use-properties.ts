@@ -0,0 +1,64 @@
+/**
+ * Properties React Query Hooks
+ *
+ * Data fetching hooks for property verification and suspension.
+ */
+
+"use client";
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  fetchProperties,
+  fetchPropertyRegistry,
+  runPropertyRegistryAction,
+  type PropertiesListParams,
+  type PropertyRegistryAction,
+} from "../lib/properties-client";
+
+/**
+ * Query keys for properties
+ */
+export const propertyKeys = {
+  all: ["properties"] as const,
+  lists: () => [...propertyKeys.all, "list"] as const,
+  list: (params: PropertiesListParams) => [...propertyKeys.lists(), params] as const,
+  registry: (id: string) => [...propertyKeys.all, "registry", id] as const,
+};
+
+/**
+ * Fetch paginated properties list
+ */
+export function useProperties(params: PropertiesListParams = {}) {
+  return useQuery({
+    queryKey: propertyKeys.list(params),
+    queryFn: () => fetchProperties(params),
+    staleTime: 30_000, // 30 seconds
+  });
+}
+
+/**
+ * Fetch a property's on-chain registry state
+ */
+export function usePropertyRegistry(id: string | null) {
+  return useQuery({
+    queryKey: propertyKeys.registry(id || ""),
+    queryFn: () => fetchPropertyRegistry(id!),
+    enabled: Boolean(id),
+  });
+}
+
+/**
+ * Run a registry action (verify, suspend, resolve dispute, ...)
+ */
+export function usePropertyRegistryAction() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, action }: { id: string; action: PropertyRegistryAction }) =>
+      runPropertyRegistryAction(id, action),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: propertyKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: propertyKeys.registry(variables.id) });
+    },
+  });
+}
@@ -0,0 +1,68 @@
+/**
+ * Verifications React Query Hooks
+ *
+ * Data fetching hooks for the stylist verification review queue.
+ */
+
+"use client";
+
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  fetchVerification,
+  fetchVerifications,
+  reviewVerification,
+  type VerificationDecision,
+  type VerificationsListParams,
+} from "../lib/verifications-client";
+import { userKeys } from "./use-users";
+
+/**
+ * Query keys for verifications
+ */
+export const verificationKeys = {
+  all: ["verifications"] as const,
+  lists: () => [...verificationKeys.all, "list"] as const,
+  list: (params: VerificationsListParams) => [...verificationKeys.lists(), params] as const,
+  detail: (id: string) => [...verificationKeys.all, "detail", id] as const,
+};
+
+/**
+ * Fetch paginated verification queue
+ */
+export function useVerifications(params: VerificationsListParams = {}) {
+  return useQuery({
+    queryKey: verificationKeys.list(params),
+    queryFn: () => fetchVerifications(params),
+    staleTime: 30_000, // 30 seconds
+  });
+}
+
+/**
+ * Fetch a packet for review. Document links expire, so this is never cached
+ * for long.
+ */
+export function useVerification(id: string | null) {
+  return useQuery({
+    queryKey: verificationKeys.detail(id || ""),
+    queryFn: () => fetchVerification(id!),
+    enabled: Boolean(id),
+    staleTime: 60_000, // 1 minute
+  });
+}
+
+/**
+ * Approve, reject or request more info
+ */
+export function useReviewVerification() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, decision }: { id: string; decision: VerificationDecision }) =>
+      reviewVerification(id, decision),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: verificationKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: verificationKeys.detail(variables.id) });
+      queryClient.invalidateQueries({ queryKey: userKeys.all });
+    },
+  });
+}
@@ -192,11 +192,13 @@ export function isAuthenticated(): boolean {
 
 /**
  * Login for admin
+ * Admins with 2FA get a challenge to finish with adminVerifyTwoFactor;
+ * admins without it get a session that can only enroll.
  */
 export async function adminLogin(
   email: string,
   password: string
-): Promise<{ user: AdminUser }> {
+): Promise<{ user: AdminUser; twoFactorEnrollmentRequired?: boolean } | AdminTwoFactorChallenge> {
   const response = await fetch(`${API_BASE_URL}/auth/login`, {
     method: "POST",
     credentials: "include",
@@ -212,6 +214,42 @@ export async function adminLogin(
   return response.json();
 }
 
+/**
+ * Finish a 2FA sign-in with an authenticator / SMS code or a recovery code
+ */
+export async function adminVerifyTwoFactor(
+  challengeToken: string,
+  input: { code?: string; recoveryCode?: string }
+): Promise<{ user: AdminUser }> {
+  const response = await fetch(`${API_BASE_URL}/auth/2fa/login`, {
+    method: "POST",
+    credentials: "include",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ challengeToken, ...input }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new ApiError(error.error?.message || "Verification failed", response.status, error.error?.code);
+  }
+
+  return response.json();
+}
+
+/**
+ * Start authenticator app enrollment for an admin who hasn't set up 2FA
+ */
+export function startAdminTotpEnrollment(): Promise<{ secret: string; otpauthUrl: string }> {
+  return adminPost("/auth/2fa/totp");
+}
+
+/**
+ * Turn 2FA on - the recovery codes are only shown this once
+ */
+export function confirmAdminTwoFactor(code: string): Promise<{ method: "TOTP" | "SMS"; recoveryCodes: string[] }> {
+  return adminPost("/auth/2fa/confirm", { code });
+}
+
 /**
  * Logout admin
  */
@@ -239,6 +277,11 @@ export async function getCurrentAdmin(): Promise<AdminUser | null> {
       return null;
     }
 
+    // Admin routes only accept sessions signed in with a second factor
+    if (!result.twoFactorVerified) {
+      return null;
+    }
+
     return user;
   } catch {
     return null;
@@ -246,6 +289,13 @@ export async function getCurrentAdmin(): Promise<AdminUser | null> {
 }
 
 // Types
+export interface AdminTwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+  method: "TOTP" | "SMS";
+  expiresAt: string;
+}
+
 export interface AdminUser {
   id: string;
   email: string | null;
@@ -40,6 +40,36 @@ export interface DefiConfig {
   feeSplit: FeeSplit;
 }
 
+export interface BufferHealth {
+  address: string;
+  balance: string;
+  threshold: string;
+  pending: string;
+  healthy: boolean;
+  totalPayouts: string;
+  totalReplenishments: string;
+}
+
+export interface BufferAlert {
+  type: "BELOW_THRESHOLD" | "PENDING_EXCEEDS_BALANCE" | "STALE_PAYOUTS" | "UNRECOVERABLE_PAYOUTS" | "REPLENISH_FAILED";
+  level: "WARNING" | "CRITICAL";
+  message: string;
+  bookingIds?: string[];
+}
+
+export interface BufferOverview {
+  /** On-chain amounts, in USDC units (6 decimals) */
+  health: BufferHealth;
+  needsReplenishment: boolean;
+  alerts: BufferAlert[];
+  payouts: {
+    outstandingCents: string;
+    byStatus: Record<string, number>;
+    /** Paid out beyond what refunded bookings released */
+    shortfallCents: string;
+  };
+}
+
 /**
  * Fetch DeFi statistics
  */
@@ -155,3 +185,33 @@ export async function emergencyUnpauseAll(): Promise<{ poolsUnpaused: number }>
   const data = await response.json();
   return data.data;
 }
+
+/**
+ * Fetch smoothing buffer health and alerts
+ */
+export async function fetchBufferOverview(): Promise<BufferOverview> {
+  const response = await adminFetch("/api/v1/admin/defi/buffer");
+
+  if (!response.ok) {
+    throw new Error("Failed to fetch smoothing buffer");
+  }
+
+  const data = await response.json();
+  return data.data;
+}
+
+/**
+ * Retry returning an instant payout to the smoothing buffer
+ */
+export async function reconcileBufferPayout(bookingId: string): Promise<{ status: string }> {
+  const response = await adminFetch(`/api/v1/admin/defi/buffer/payouts/${bookingId}/reconcile`, {
+    method: "POST",
+  });
+
+  if (!response.ok) {
+    throw new Error("Failed to reconcile instant payout");
+  }
+
+  const data = await response.json();
+  return data.data;
+}
@@ -0,0 +1,157 @@
+/**
+ * Properties API Client
+ *
+ * Admin verification and suspension of properties in the on-chain PropertyRegistry.
+ */
+
+import { adminFetch } from "./admin-client";
+
+export type PropertyRegistryStatus = "PENDING" | "VERIFIED" | "SUSPENDED" | "REVOKED";
+
+export interface AdminProperty {
+  id: string;
+  name: string;
+  city: string;
+  category: string;
+  isActive: boolean;
+  isVerified: boolean;
+  registryId: string | null;
+  registryStatus: PropertyRegistryStatus | null;
+  registryOwner: string | null;
+  registryError: string | null;
+  registeredAt: string | null;
+  registrySyncedAt: string | null;
+  suspensionRequestedAt: string | null;
+  suspensionReason: string | null;
+  suspensionExecuteAfter: string | null;
+  suspensionDisputedAt: string | null;
+  createdAt: string;
+  owner: { id: string; displayName: string | null; email: string | null } | null;
+  _count: { chairs: number };
+}
+
+export interface PropertiesListParams {
+  page?: number;
+  pageSize?: number;
+  search?: string;
+  registryStatus?: PropertyRegistryStatus;
+  unregistered?: boolean;
+  suspensionPending?: boolean;
+}
+
+export interface PropertiesListResponse {
+  properties: AdminProperty[];
+  pagination: {
+    page: number;
+    pageSize: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+export interface PropertyRegistryView {
+  propertyId: string;
+  registryAddress: string | null;
+  registryId: string | null;
+  database: {
+    registryStatus: PropertyRegistryStatus;
+    registryOwner: string;
+    isVerified: boolean;
+    isActive: boolean;
+    suspensionRequestedAt: string | null;
+    suspensionReason: string | null;
+    suspensionExecuteAfter: string | null;
+    suspensionDisputedAt: string | null;
+  };
+  onChain: {
+    owner: string;
+    status: PropertyRegistryStatus;
+    registeredAt: string;
+    updatedAt: string;
+    suspension: {
+      requestedAt: string;
+      reason: string;
+      disputed: boolean;
+      executeAfter: string;
+    } | null;
+  } | null;
+  drift: string[];
+}
+
+export type PropertyRegistryAction =
+  | { type: "register" }
+  | { type: "verify" }
+  | { type: "requestSuspension"; reason: string }
+  | { type: "executeSuspension" }
+  | { type: "cancelSuspension" }
+  | { type: "resolveDispute"; upholdSuspension: boolean; resolution: string }
+  | { type: "unsuspend" }
+  | { type: "revoke"; reason: string }
+  | { type: "sync" };
+
+/**
+ * Fetch paginated list of properties with registry state
+ */
+export async function fetchProperties(params: PropertiesListParams = {}): Promise<PropertiesListResponse> {
+  const searchParams = new URLSearchParams();
+
+  if (params.page) searchParams.set("page", String(params.page));
+  if (params.pageSize) searchParams.set("pageSize", String(params.pageSize));
+  if (params.search) searchParams.set("search", params.search);
+  if (params.registryStatus) searchParams.set("registryStatus", params.registryStatus);
+  if (params.unregistered) searchParams.set("unregistered", "true");
+  if (params.suspensionPending) searchParams.set("suspensionPending", "true");
+
+  const queryString = searchParams.toString();
+  const url = `/api/v1/admin/properties${queryString ? `?${queryString}` : ""}`;
+
+  const response = await adminFetch(url);
+
+  if (!response.ok) {
+    throw new Error("Failed to fetch properties");
+  }
+
+  return response.json();
+}
+
+/**
+ * Fetch a property's database and on-chain registry state
+ */
+export async function fetchPropertyRegistry(id: string): Promise<{ registry: PropertyRegistryView }> {
+  const response = await adminFetch(`/api/v1/admin/properties/${id}/registry`);
+
+  if (!response.ok) {
+    throw new Error("Failed to fetch registry state");
+  }
+
+  return response.json();
+}
+
+const ACTION_PATHS: Record<PropertyRegistryAction["type"], string> = {
+  register: "register",
+  verify: "verify",
+  requestSuspension: "suspension",
+  executeSuspension: "suspension/execute",
+  cancelSuspension: "suspension/cancel",
+  resolveDispute: "dispute/resolve",
+  unsuspend: "unsuspend",
+  revoke: "revoke",
+  sync: "sync",
+};
+
+/**
+ * Run a registry action on a property
+ */
+export async function runPropertyRegistryAction(id: string, action: PropertyRegistryAction): Promise<void> {
+  const { type, ...body } = action;
+
+  const response = await adminFetch(`/api/v1/admin/properties/${id}/${ACTION_PATHS[type]}`, {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error?.details?.reason || error.error?.message || "Registry action failed");
+  }
+}
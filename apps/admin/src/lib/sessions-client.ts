@@ -2,6 +2,8 @@
  * Sessions API Client (V7.0.0)
  *
  * Active sessions (in-progress bookings) monitoring.
+ * Live progress posted by stylists comes from the API's cross-instance
+ * session store; bookings without it fall back to time-based progress.
  */
 
 import { adminFetch } from "./admin-client";
@@ -15,6 +17,25 @@ export interface ActiveSession extends Booking {
     longitude: number;
     updatedAt: string;
   } | null;
+  currentStep?: string | null;
+  etaMinutes?: number | null;
+  /** Open live streams on the booking, across all API instances */
+  viewerCount?: number;
+}
+
+interface LiveSessionProgress {
+  lat?: number;
+  lng?: number;
+  etaMinutes?: number;
+  progressPercent: number;
+  currentStep?: string;
+  lastUpdate: string;
+}
+
+interface LiveSession {
+  booking: { id: string };
+  progress: LiveSessionProgress;
+  viewerCount: number;
 }
 
 export interface ActiveSessionsResponse {
@@ -27,7 +48,10 @@ export interface ActiveSessionsResponse {
  */
 export async function fetchActiveSessions(): Promise<ActiveSessionsResponse> {
   // Fetch bookings with IN_PROGRESS status
-  const response = await adminFetch("/api/v1/admin/bookings?status=IN_PROGRESS&pageSize=50");
+  const [response, live] = await Promise.all([
+    adminFetch("/api/v1/admin/bookings?status=IN_PROGRESS&pageSize=50"),
+    fetchLiveSessions(),
+  ]);
 
   if (!response.ok) {
     throw new Error("Failed to fetch active sessions");
@@ -50,10 +74,27 @@ export async function fetchActiveSessions(): Promise<ActiveSessionsResponse> {
     const remainingMs = Math.max(0, endTime - now);
     const estimatedEndTime = new Date(Date.now() + remainingMs).toISOString();
 
+    const liveSession = live.get(booking.id);
+    if (!liveSession) {
+      return {
+        ...booking,
+        progress: Math.round(progress),
+        estimatedEndTime,
+      };
+    }
+
+    const { progress: liveProgress, viewerCount } = liveSession;
     return {
       ...booking,
-      progress: Math.round(progress),
+      progress: Math.round(liveProgress.progressPercent),
       estimatedEndTime,
+      currentStep: liveProgress.currentStep ?? null,
+      etaMinutes: liveProgress.etaMinutes ?? null,
+      stylistLocation:
+        liveProgress.lat !== undefined && liveProgress.lng !== undefined
+          ? { latitude: liveProgress.lat, longitude: liveProgress.lng, updatedAt: liveProgress.lastUpdate }
+          : null,
+      viewerCount,
     };
   });
 
@@ -63,6 +104,24 @@ export async function fetchActiveSessions(): Promise<ActiveSessionsResponse> {
   };
 }
 
+/**
+ * Live progress for every session, keyed by booking ID. Empty if the live
+ * store can't be reached - sessions still show with estimated progress.
+ */
+async function fetchLiveSessions(): Promise<Map<string, LiveSession>> {
+  try {
+    const response = await adminFetch("/api/v1/bookings/active-sessions?scope=all");
+    if (!response.ok) {
+      return new Map();
+    }
+
+    const data: { sessions: LiveSession[] } = await response.json();
+    return new Map(data.sessions.map((session) => [session.booking.id, session]));
+  } catch {
+    return new Map();
+  }
+}
+
 /**
  * Fetch confirmed bookings about to start (within 1 hour)
  */
@@ -0,0 +1,149 @@
+/**
+ * Verifications API Client
+ *
+ * Review queue for stylist identity and credential verification packets.
+ */
+
+import { adminFetch } from "./admin-client";
+
+export type VerificationPacketStatus =
+  | "DRAFT"
+  | "SUBMITTED"
+  | "MORE_INFO_REQUESTED"
+  | "APPROVED"
+  | "REJECTED";
+
+export type VerificationDocumentType =
+  | "GOVERNMENT_ID"
+  | "SELFIE"
+  | "CERTIFICATION"
+  | "BUSINESS_REGISTRATION"
+  | "PORTFOLIO_PROOF";
+
+export type VerificationStatus = "UNVERIFIED" | "PENDING" | "VERIFIED" | "SUSPENDED";
+
+export interface VerificationQueueItem {
+  id: string;
+  status: VerificationPacketStatus;
+  submittedAt: string | null;
+  reviewedAt: string | null;
+  documentTypes: VerificationDocumentType[];
+  stylist: { id: string; displayName: string; email: string | null; avatarUrl: string | null };
+}
+
+export interface VerificationDocument {
+  id: string;
+  type: VerificationDocumentType;
+  format: string;
+  bytes: number;
+  createdAt: string;
+  /** Signed link that expires after a few minutes */
+  url?: string;
+}
+
+export interface VerificationPacketDetail {
+  id: string;
+  status: VerificationPacketStatus;
+  submittedAt: string | null;
+  reviewedAt: string | null;
+  reviewNote: string | null;
+  documents: VerificationDocument[];
+  completeness: {
+    complete: boolean;
+    missingTypes: VerificationDocumentType[];
+    needsCredential: boolean;
+  };
+  createdAt: string;
+  stylist: {
+    id: string;
+    displayName: string;
+    email: string | null;
+    avatarUrl: string | null;
+    verificationStatus: VerificationStatus;
+    createdAt: string;
+  };
+  history: Array<{
+    id: string;
+    status: VerificationPacketStatus;
+    reviewNote: string | null;
+    reviewedAt: string | null;
+  }>;
+}
+
+export interface VerificationsListParams {
+  page?: number;
+  pageSize?: number;
+  search?: string;
+  status?: VerificationPacketStatus;
+}
+
+export interface VerificationsListResponse {
+  packets: VerificationQueueItem[];
+  pagination: {
+    page: number;
+    pageSize: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+export type VerificationDecision =
+  | { type: "approve"; note?: string }
+  | { type: "reject"; reason: string }
+  | { type: "request-info"; reason: string };
+
+/**
+ * Fetch the verification review queue (submitted packets by default)
+ */
+export async function fetchVerifications(params: VerificationsListParams = {}): Promise<VerificationsListResponse> {
+  const searchParams = new URLSearchParams();
+
+  if (params.page) searchParams.set("page", String(params.page));
+  if (params.pageSize) searchParams.set("pageSize", String(params.pageSize));
+  if (params.search) searchParams.set("search", params.search);
+  if (params.status) searchParams.set("status", params.status);
+
+  const queryString = searchParams.toString();
+  const url = `/api/v1/admin/users/verifications${queryString ? `?${queryString}` : ""}`;
+
+  const response = await adminFetch(url);
+
+  if (!response.ok) {
+    throw new Error("Failed to fetch verifications");
+  }
+
+  return response.json();
+}
+
+/**
+ * Fetch a packet with document links and the stylist's earlier decisions
+ */
+export async function fetchVerification(id: string): Promise<{ packet: VerificationPacketDetail }> {
+  const response = await adminFetch(`/api/v1/admin/users/verifications/${id}`);
+
+  if (!response.ok) {
+    if (response.status === 404) {
+      throw new Error("Verification packet not found");
+    }
+    throw new Error("Failed to fetch verification packet");
+  }
+
+  return response.json();
+}
+
+/**
+ * Approve, reject or request more info on a submitted packet
+ */
+export async function reviewVerification(id: string, decision: VerificationDecision): Promise<void> {
+  const { type, ...body } = decision;
+
+  const response = await adminFetch(`/api/v1/admin/users/verifications/${id}/${type}`, {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error?.message || "Review failed");
+  }
+}
@@ -5,6 +5,7 @@
  * Uses Vlossom design tokens and botanical iconography.
  *
  * V7.0.0 (M-4): Added input length limits for security
+ * Two-factor: second step for accounts with 2FA enabled
  */
 
 import React, { useState } from 'react';
@@ -28,11 +29,21 @@ import { VlossomWordmark } from '../../src/components/branding';
 
 export default function LoginScreen() {
   const router = useRouter();
-  const { login, loginLoading, loginError, clearErrors } = useAuthStore();
+  const {
+    login,
+    verifyTwoFactor,
+    cancelTwoFactor,
+    twoFactorChallenge,
+    loginLoading,
+    loginError,
+    clearErrors,
+  } = useAuthStore();
 
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
 
   const handleLogin = async () => {
     if (!email.trim() || !password.trim()) return;
@@ -47,8 +58,128 @@ export default function LoginScreen() {
     }
   };
 
+  const handleVerify = async () => {
+    if (!code.trim()) return;
+
+    const success = await verifyTwoFactor(
+      useRecoveryCode ? { recoveryCode: code.trim() } : { code: code.trim() }
+    );
+
+    if (success) {
+      router.replace('/(tabs)');
+    }
+  };
+
   const isFormValid = email.trim().length > 0 && password.length >= 8;
 
+  if (twoFactorChallenge) {
+    return (
+      <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
+        <KeyboardAvoidingView
+          style={styles.keyboardView}
+          behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        >
+          <ScrollView
+            contentContainerStyle={styles.scrollContent}
+            keyboardShouldPersistTaps="handled"
+            showsVerticalScrollIndicator={false}
+          >
+            <View style={styles.header} accessible accessibilityRole="header">
+              <VlossomWordmark height={32} variant="purple" style={styles.logo} />
+              <Text style={styles.title} accessibilityRole="header">Verify it's you</Text>
+              <Text style={styles.subtitle}>
+                {useRecoveryCode
+                  ? 'Enter one of your recovery codes. Each code works once.'
+                  : twoFactorChallenge.method === 'SMS'
+                    ? 'We texted a 6-digit code to your phone.'
+                    : 'Enter the 6-digit code from your authenticator app.'}
+              </Text>
+            </View>
+
+            <View style={styles.form}>
+              <View style={styles.inputContainer}>
+                <Text style={styles.label} nativeID="codeLabel">
+                  {useRecoveryCode ? 'Recovery code' : 'Verification code'}
+                </Text>
+                <TextInput
+                  style={styles.input}
+                  value={code}
+                  onChangeText={(text) => {
+                    setCode(text);
+                    if (loginError) clearErrors();
+                  }}
+                  placeholder={useRecoveryCode ? 'xxxx-xxxx-xxxx' : '123456'}
+                  placeholderTextColor={colors.text.muted}
+                  keyboardType={useRecoveryCode ? 'default' : 'number-pad'}
+                  autoCapitalize="none"
+                  autoComplete="one-time-code"
+                  autoCorrect={false}
+                  returnKeyType="done"
+                  onSubmitEditing={handleVerify}
+                  editable={!loginLoading}
+                  maxLength={useRecoveryCode ? 20 : 6}
+                  accessibilityLabel={useRecoveryCode ? 'Recovery code' : 'Verification code'}
+                  accessibilityLabelledBy="codeLabel"
+                />
+              </View>
+
+              {loginError && (
+                <View
+                  style={styles.errorContainer}
+                  accessible
+                  accessibilityRole="alert"
+                  accessibilityLiveRegion="polite"
+                >
+                  <Text style={styles.errorText}>{loginError}</Text>
+                </View>
+              )}
+
+              <TouchableOpacity
+                style={[styles.button, (!code.trim() || loginLoading) && styles.buttonDisabled]}
+                onPress={handleVerify}
+                disabled={!code.trim() || loginLoading}
+                accessibilityRole="button"
+                accessibilityLabel={loginLoading ? 'Verifying' : 'Verify'}
+                accessibilityState={{ disabled: !code.trim() || loginLoading }}
+              >
+                {loginLoading ? (
+                  <ActivityIndicator color="#FFFFFF" accessibilityLabel="Loading" />
+                ) : (
+                  <Text style={styles.buttonText}>Verify</Text>
+                )}
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={styles.forgotPassword}
+                onPress={() => {
+                  setUseRecoveryCode(!useRecoveryCode);
+                  setCode('');
+                }}
+                accessibilityRole="button"
+              >
+                <Text style={styles.forgotPasswordText}>
+                  {useRecoveryCode ? 'Use a verification code instead' : 'Use a recovery code'}
+                </Text>
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={styles.forgotPassword}
+                onPress={() => {
+                  cancelTwoFactor();
+                  setCode('');
+                }}
+                accessibilityRole="button"
+                accessibilityLabel="Back to sign in"
+              >
+                <Text style={styles.forgotPasswordText}>Back</Text>
+              </TouchableOpacity>
+            </View>
+          </ScrollView>
+        </KeyboardAvoidingView>
+      </SafeAreaView>
+    );
+  }
+
   return (
     <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
       <KeyboardAvoidingView
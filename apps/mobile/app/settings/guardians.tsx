@@ -0,0 +1,347 @@
+/**
+ * Recovery Guardians Screen
+ *
+ * Manage the people who can help recover the user's wallet:
+ * - Guardian list with remove
+ * - Add a guardian by wallet address
+ * - Cancel recoveries started against this wallet
+ * - Approve recoveries the user guards
+ *
+ * Accessibility: Full screen reader support with semantic roles
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  Pressable,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { useTheme, textStyles } from '../../src/styles/theme';
+import { VlossomBackIcon } from '../../src/components/icons/VlossomIcons';
+import { TextInput, Button, Badge } from '../../src/components/ui';
+import {
+  getGuardians,
+  getRecoveries,
+  addGuardian,
+  removeGuardian,
+  approveRecovery,
+  cancelRecovery,
+  type WalletGuardians,
+  type WalletRecovery,
+} from '../../src/api';
+
+function formatAddress(address: string): string {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+export default function GuardiansScreen() {
+  const router = useRouter();
+  const insets = useSafeAreaInsets();
+  const { colors, spacing, borderRadius } = useTheme();
+
+  const [data, setData] = useState<WalletGuardians | null>(null);
+  const [recoveries, setRecoveries] = useState<WalletRecovery[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [form, setForm] = useState({ address: '', label: '' });
+  const [addressError, setAddressError] = useState<string | undefined>();
+  const [isAdding, setIsAdding] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const [guardians, all] = await Promise.all([getGuardians(), getRecoveries()]);
+      setData(guardians);
+      setRecoveries(all.filter((r) => r.status === 'REQUESTED' || r.status === 'PENDING'));
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to load guardians.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleAdd = async () => {
+    if (!/^0x[a-fA-F0-9]{40}$/.test(form.address.trim())) {
+      setAddressError("Enter the guardian's wallet address (0x...)");
+      return;
+    }
+    setAddressError(undefined);
+
+    setIsAdding(true);
+    try {
+      await addGuardian(form.address.trim(), form.label.trim());
+      setForm({ address: '', label: '' });
+      await load();
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to add guardian.');
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const runAction = async (id: string, action: () => Promise<unknown>) => {
+    setBusyId(id);
+    try {
+      await action();
+      await load();
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Something went wrong.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const confirmApprove = (recovery: WalletRecovery) => {
+    Alert.alert(
+      'Approve Recovery',
+      `Only approve after confirming with the owner of ${formatAddress(recovery.walletAddress)} in person or by phone.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        // Guardians can turn down a request nobody has started
+        ...(recovery.status === 'REQUESTED'
+          ? [
+              {
+                text: 'Decline',
+                style: 'destructive' as const,
+                onPress: () => runAction(recovery.id, () => cancelRecovery(recovery.id)),
+              },
+            ]
+          : []),
+        { text: 'Approve', onPress: () => runAction(recovery.id, () => approveRecovery(recovery.id)) },
+      ]
+    );
+  };
+
+  const guardians = data?.guardians ?? [];
+  const againstMe = recoveries.filter((r) => r.role === 'OWNER');
+  const toApprove = recoveries.filter((r) => r.canApprove);
+
+  return (
+    <View style={[styles.container, { backgroundColor: colors.background.primary }]}>
+      {/* Header */}
+      <View
+        style={[
+          styles.header,
+          {
+            paddingTop: insets.top + spacing.sm,
+            paddingHorizontal: spacing.lg,
+            borderBottomColor: colors.border.default,
+          },
+        ]}
+      >
+        <Pressable
+          onPress={() => router.back()}
+          style={styles.backButton}
+          accessibilityRole="button"
+          accessibilityLabel="Go back"
+          accessibilityHint="Returns to settings"
+        >
+          <VlossomBackIcon size={24} color={colors.text.primary} />
+        </Pressable>
+        <Text style={[textStyles.h3, { color: colors.text.primary }]} accessibilityRole="header">
+          Recovery Guardians
+        </Text>
+        <View style={styles.headerSpacer} />
+      </View>
+
+      {isLoading ? (
+        <View style={styles.loading}>
+          <ActivityIndicator color={colors.primary} />
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={{
+            paddingHorizontal: spacing.lg,
+            paddingBottom: insets.bottom + 100,
+          }}
+          showsVerticalScrollIndicator={false}
+          keyboardShouldPersistTaps="handled"
+        >
+          {/* Recoveries started against this wallet */}
+          {againstMe.map((recovery) => (
+            <View
+              key={recovery.id}
+              style={{
+                backgroundColor: colors.status.error + '10',
+                borderRadius: borderRadius.md,
+                padding: spacing.md,
+                marginTop: spacing.lg,
+              }}
+            >
+              <Text style={[textStyles.body, { color: colors.status.error, marginBottom: spacing.xs }]}>
+                Someone asked to recover your wallet
+              </Text>
+              <Text style={[textStyles.bodySmall, { color: colors.text.secondary, marginBottom: spacing.md }]}>
+                {recovery.approvalCount} of {recovery.minApprovals} guardians have approved. If this wasn't
+                you, cancel it now.
+              </Text>
+              <Button
+                title="Cancel Recovery"
+                variant="danger"
+                size="sm"
+                loading={busyId === recovery.id}
+                onPress={() => runAction(recovery.id, () => cancelRecovery(recovery.id))}
+              />
+            </View>
+          ))}
+
+          {/* Recoveries waiting on this user as a guardian */}
+          {toApprove.map((recovery) => (
+            <View
+              key={recovery.id}
+              style={{
+                backgroundColor: colors.primary + '10',
+                borderRadius: borderRadius.md,
+                padding: spacing.md,
+                marginTop: spacing.lg,
+              }}
+            >
+              <Text style={[textStyles.body, { color: colors.text.primary, marginBottom: spacing.xs }]}>
+                Recovery approval needed
+              </Text>
+              <Text style={[textStyles.bodySmall, { color: colors.text.secondary, marginBottom: spacing.md }]}>
+                Wallet {formatAddress(recovery.walletAddress)} would move to {formatAddress(recovery.newOwner)}.
+              </Text>
+              <Button
+                title="Approve"
+                variant="primary"
+                size="sm"
+                loading={busyId === recovery.id}
+                onPress={() => confirmApprove(recovery)}
+              />
+            </View>
+          ))}
+
+          {/* Info */}
+          <View
+            style={{
+              backgroundColor: colors.primary + '10',
+              borderRadius: borderRadius.md,
+              padding: spacing.md,
+              marginTop: spacing.lg,
+            }}
+          >
+            <Text style={[textStyles.bodySmall, { color: colors.text.secondary }]}>
+              {data?.minApprovals ?? 2} guardians must approve a recovery, and it only completes{' '}
+              {data?.recoveryDelayHours ?? 48} hours later so you can cancel it.
+            </Text>
+          </View>
+
+          {/* Guardian list */}
+          <View style={{ marginTop: spacing.lg }}>
+            {guardians.length === 0 && (
+              <Text style={[textStyles.bodySmall, { color: colors.text.secondary }]}>
+                You have no guardians yet. Add at least {data?.minApprovals ?? 2} people you trust.
+              </Text>
+            )}
+            {guardians.map((guardian) => (
+              <View
+                key={guardian.id}
+                style={[styles.guardianRow, { borderBottomColor: colors.border.default, paddingVertical: spacing.md }]}
+                accessible
+                accessibilityLabel={`Guardian ${guardian.label || guardian.guardian?.displayName || guardian.address}`}
+              >
+                <View style={styles.guardianInfo}>
+                  <Text style={[textStyles.body, { color: colors.text.primary }]}>
+                    {guardian.label || guardian.guardian?.displayName || 'External wallet'}
+                  </Text>
+                  <Text style={[textStyles.caption, { color: colors.text.secondary }]}>
+                    {formatAddress(guardian.address)}
+                  </Text>
+                  {guardian.guardian && (
+                    <Badge label="Vlossom member" variant="primary" size="sm" style={{ marginTop: spacing.xs }} />
+                  )}
+                </View>
+                <Button
+                  title="Remove"
+                  variant="ghost"
+                  size="sm"
+                  loading={busyId === guardian.id}
+                  onPress={() => runAction(guardian.id, () => removeGuardian(guardian.id))}
+                />
+              </View>
+            ))}
+          </View>
+
+          {/* Add guardian */}
+          {data && guardians.length < data.maxGuardians && (
+            <View style={{ marginTop: spacing.xl }}>
+              <TextInput
+                label="Guardian Wallet Address"
+                placeholder="0x..."
+                value={form.address}
+                onChangeText={(text) => setForm((prev) => ({ ...prev, address: text }))}
+                error={addressError}
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+              <TextInput
+                label="Name (optional)"
+                placeholder="e.g. My sister"
+                value={form.label}
+                onChangeText={(text) => setForm((prev) => ({ ...prev, label: text }))}
+                maxLength={50}
+              />
+              <Button
+                title="Add Guardian"
+                variant="outline"
+                fullWidth
+                onPress={handleAdd}
+                loading={isAdding}
+              />
+            </View>
+          )}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingBottom: 12,
+    borderBottomWidth: 1,
+  },
+  backButton: {
+    width: 40,
+    height: 40,
+    justifyContent: 'center',
+    alignItems: 'flex-start',
+  },
+  headerSpacer: {
+    width: 40,
+  },
+  loading: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  guardianRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    borderBottomWidth: 1,
+  },
+  guardianInfo: {
+    flex: 1,
+  },
+});
@@ -6,7 +6,7 @@
  * - Partner Programs: Become a Stylist, List a Property (V7.1)
  * - Preferences: Currency, Theme, Demo Mode
  * - Notifications: Toggle by type
- * - Security: Biometric Login
+ * - Security: Biometric Login, Recovery Guardians
  * - Support: Help Center, Contact Us
  * - About: Version, Terms, Privacy
  *
@@ -85,6 +85,10 @@ export default function SettingsScreen() {
     router.push('/settings/change-password');
   };
 
+  const handleGuardians = () => {
+    router.push('/settings/guardians');
+  };
+
   const handleBecomeStylist = async () => {
     Alert.alert(
       'Become a Stylist',
@@ -518,6 +522,14 @@ export default function SettingsScreen() {
               colors={colors}
               spacing={spacing}
             />
+            <View style={[styles.rowDivider, { backgroundColor: colors.border.default }]} />
+            <SettingsRow
+              title="Recovery Guardians"
+              subtitle="People who can help recover your wallet"
+              onPress={handleGuardians}
+              colors={colors}
+              spacing={spacing}
+            />
           </View>
         </View>
 
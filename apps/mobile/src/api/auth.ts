@@ -7,6 +7,8 @@
  *
  * V7.0.0: Added validateResetToken for H-6 security fix
  * V7.1.0: Added multi-role support with addRole/removeRole endpoints
+ * Two-factor: login returns a challenge for accounts with 2FA, finished by
+ * completeTwoFactorLogin
  */
 
 import { apiRequest, setAuthToken, clearTokens, APIError } from './client';
@@ -36,6 +38,20 @@ export interface AuthResponse {
   token: string;
 }
 
+/**
+ * Returned by login instead of a session when the account has 2FA enabled
+ */
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+  method: 'TOTP' | 'SMS';
+  expiresAt: string;
+}
+
+export function isTwoFactorChallenge(response: object): response is TwoFactorChallenge {
+  return 'twoFactorRequired' in response && response.twoFactorRequired === true;
+}
+
 export interface LoginRequest {
   email: string;
   password: string;
@@ -61,22 +77,47 @@ export interface UpdateProfileRequest {
 
 /**
  * Login with email and password
+ * Accounts with 2FA get a TwoFactorChallenge and no token yet
  *
  * @throws {APIError} On invalid credentials, account locked, or rate limit
  */
-export async function login(request: LoginRequest): Promise<AuthResponse> {
-  const response = await apiRequest<AuthResponse>('/api/v1/auth/login', {
+export async function login(request: LoginRequest): Promise<AuthResponse | TwoFactorChallenge> {
+  const response = await apiRequest<AuthResponse | TwoFactorChallenge>('/api/v1/auth/login', {
     method: 'POST',
     body: request,
     requireAuth: false,
   });
 
+  if (isTwoFactorChallenge(response)) {
+    return response;
+  }
+
   // Store the token on successful login
   await setAuthToken(response.token);
 
   return response;
 }
 
+/**
+ * Finish a 2FA login with an authenticator / SMS code or a recovery code
+ *
+ * @throws {APIError} On a wrong code, expired challenge, or too many attempts
+ */
+export async function completeTwoFactorLogin(
+  challengeToken: string,
+  input: { code?: string; recoveryCode?: string }
+): Promise<AuthResponse> {
+  const response = await apiRequest<AuthResponse>('/api/v1/auth/2fa/login', {
+    method: 'POST',
+    body: { challengeToken, ...input },
+    requireAuth: false,
+  });
+
+  await setAuthToken(response.token);
+
+  return response;
+}
+
 /**
  * Create a new user account
  *
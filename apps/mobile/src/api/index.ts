@@ -230,3 +230,20 @@ export {
   getTierColor as getReputationTierColor,
   getVerificationProgress,
 } from './reputation';
+
+// Wallet Recovery API
+export {
+  type RecoveryStatus,
+  type WalletGuardian,
+  type WalletGuardians,
+  type WalletRecovery,
+  type RecoveryActionResult,
+  getGuardians,
+  addGuardian,
+  removeGuardian,
+  getRecoveries,
+  requestRecovery,
+  approveRecovery,
+  executeRecovery,
+  cancelRecovery,
+} from './recovery';
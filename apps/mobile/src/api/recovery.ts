@@ -0,0 +1,149 @@
+/**
+ * Wallet Recovery API Client
+ *
+ * Handles guardian social recovery via /api/v1/wallet backend routes:
+ * - List, add and remove wallet guardians
+ * - Request recovery of a lost wallet
+ * - Approve, execute and cancel recoveries
+ *
+ * Backend Reference: services/api/src/routes/wallet-recovery.ts
+ */
+
+import { apiRequest } from './client';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RecoveryStatus = 'REQUESTED' | 'PENDING' | 'EXECUTED' | 'CANCELLED' | 'EXPIRED';
+
+export interface WalletGuardian {
+  id: string;
+  address: string;
+  label: string | null;
+  status: 'ACTIVE' | 'REMOVED';
+  guardian: { id: string; displayName: string } | null;
+  addedTxHash: string | null;
+  createdAt: string;
+}
+
+export interface WalletGuardians {
+  walletAddress: string;
+  guardians: WalletGuardian[];
+  maxGuardians: number;
+  minApprovals: number;
+  recoveryDelayHours: number;
+  recoverable: boolean;
+}
+
+export interface WalletRecovery {
+  id: string;
+  walletAddress: string;
+  requesterId: string;
+  newOwner: string;
+  status: RecoveryStatus;
+  approvalCount: number;
+  minApprovals: number;
+  executeAfter: string | null;
+  guardians: Array<{
+    id: string;
+    address: string;
+    label: string | null;
+    displayName: string | null;
+    approved: boolean;
+  }>;
+  guardianCallData: string | null;
+  role: 'REQUESTER' | 'OWNER' | 'GUARDIAN';
+  canApprove: boolean;
+  initiatedTxHash: string | null;
+  executedTxHash: string | null;
+  createdAt: string;
+  executedAt: string | null;
+  cancelledAt: string | null;
+}
+
+export interface RecoveryActionResult {
+  txHash: string | null;
+  recovery: WalletRecovery;
+}
+
+// ============================================================================
+// Guardians
+// ============================================================================
+
+/**
+ * Get the current user's wallet guardians
+ */
+export async function getGuardians(): Promise<WalletGuardians> {
+  return apiRequest<WalletGuardians>('/api/v1/wallet/guardians');
+}
+
+/**
+ * Nominate a guardian by wallet address
+ */
+export async function addGuardian(address: string, label?: string): Promise<WalletGuardian> {
+  const result = await apiRequest<{ guardian: WalletGuardian }>('/api/v1/wallet/guardians', {
+    method: 'POST',
+    body: { address, label: label || undefined },
+  });
+  return result.guardian;
+}
+
+/**
+ * Remove a guardian
+ */
+export async function removeGuardian(guardianId: string): Promise<void> {
+  await apiRequest<{ success: boolean }>(`/api/v1/wallet/guardians/${guardianId}`, {
+    method: 'DELETE',
+  });
+}
+
+// ============================================================================
+// Recovery
+// ============================================================================
+
+/**
+ * Recoveries the user requested, that target their wallet, or that they guard
+ */
+export async function getRecoveries(): Promise<WalletRecovery[]> {
+  const result = await apiRequest<{ recoveries: WalletRecovery[] }>('/api/v1/wallet/recovery');
+  return result.recoveries;
+}
+
+/**
+ * Ask a lost wallet's guardians to move it to the user's current wallet
+ */
+export async function requestRecovery(walletAddress: string): Promise<WalletRecovery> {
+  const result = await apiRequest<{ recovery: WalletRecovery }>('/api/v1/wallet/recovery', {
+    method: 'POST',
+    body: { walletAddress },
+  });
+  return result.recovery;
+}
+
+/**
+ * Approve a recovery as one of the wallet's guardians
+ */
+export async function approveRecovery(recoveryId: string): Promise<RecoveryActionResult> {
+  return apiRequest<RecoveryActionResult>(`/api/v1/wallet/recovery/${recoveryId}/approve`, {
+    method: 'POST',
+  });
+}
+
+/**
+ * Rotate the wallet owner once the time-lock has ended
+ */
+export async function executeRecovery(recoveryId: string): Promise<RecoveryActionResult> {
+  return apiRequest<RecoveryActionResult>(`/api/v1/wallet/recovery/${recoveryId}/execute`, {
+    method: 'POST',
+  });
+}
+
+/**
+ * Cancel a recovery on your wallet, or withdraw your own request
+ */
+export async function cancelRecovery(recoveryId: string): Promise<RecoveryActionResult> {
+  return apiRequest<RecoveryActionResult>(`/api/v1/wallet/recovery/${recoveryId}/cancel`, {
+    method: 'POST',
+  });
+}
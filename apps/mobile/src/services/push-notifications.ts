@@ -40,7 +40,17 @@ export type NotificationType =
   | 'SPECIAL_EVENT_QUOTE_ACCEPTED'
   | 'SPECIAL_EVENT_CONFIRMED'
   | 'SPECIAL_EVENT_REMINDER'
-  | 'SPECIAL_EVENT_CANCELLED';
+  | 'SPECIAL_EVENT_CANCELLED'
+  | 'DISPUTE_OPENED'
+  | 'DISPUTE_STATUS_CHANGED'
+  | 'DISPUTE_MESSAGE_RECEIVED'
+  | 'BALANCE_DUE'
+  | 'OCCURRENCE_PAYMENT_DUE'
+  | 'BOOKING_ADJUSTED'
+  | 'WAITLIST_OFFER'
+  | 'RESCHEDULE_PROPOSED'
+  | 'RESCHEDULE_ACCEPTED'
+  | 'RESCHEDULE_REJECTED';
 
 export interface NotificationData {
   notificationType?: NotificationType;
@@ -248,6 +258,16 @@ export function handleNotificationResponse(
     case 'SERVICE_COMPLETED':
     case 'BOOKING_CANCELLED':
     case 'BOOKING_REMINDER':
+    case 'DISPUTE_OPENED':
+    case 'DISPUTE_STATUS_CHANGED':
+    case 'DISPUTE_MESSAGE_RECEIVED':
+    case 'BALANCE_DUE':
+    case 'OCCURRENCE_PAYMENT_DUE':
+    case 'BOOKING_ADJUSTED':
+    case 'WAITLIST_OFFER':
+    case 'RESCHEDULE_PROPOSED':
+    case 'RESCHEDULE_ACCEPTED':
+    case 'RESCHEDULE_REJECTED':
       if (data.bookingId) {
         router.push(`/bookings/${data.bookingId}` as never);
       } else {
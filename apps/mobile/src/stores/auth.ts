@@ -4,11 +4,14 @@
  * Zustand store for managing authentication state.
  * Handles login, signup, logout, and user session management.
  * V7.1: Added multi-role support with addRole action
+ * Two-factor: login pauses on a challenge until verifyTwoFactor
  */
 
 import { create } from 'zustand';
 import {
   login as loginAPI,
+  completeTwoFactorLogin,
+  isTwoFactorChallenge,
   signup as signupAPI,
   logout as logoutAPI,
   getMe,
@@ -16,6 +19,7 @@ import {
   addRole as addRoleAPI,
   changePassword as changePasswordAPI,
   type User,
+  type TwoFactorChallenge,
   type LoginRequest,
   type SignupRequest,
   type UpdateProfileRequest,
@@ -42,6 +46,7 @@ interface AuthState {
   // Auth operation states
   loginLoading: boolean;
   loginError: string | null;
+  twoFactorChallenge: TwoFactorChallenge | null; // Password accepted, waiting for the 2FA code
   signupLoading: boolean;
   signupError: string | null;
   logoutLoading: boolean;
@@ -61,6 +66,8 @@ interface AuthState {
   // Actions
   initialize: () => Promise<void>;
   login: (request: LoginRequest) => Promise<boolean>;
+  verifyTwoFactor: (input: { code?: string; recoveryCode?: string }) => Promise<boolean>;
+  cancelTwoFactor: () => void;
   signup: (request: SignupRequest) => Promise<boolean>;
   logout: () => Promise<void>;
   updateProfile: (request: UpdateProfileRequest) => Promise<boolean>;
@@ -83,6 +90,7 @@ const initialState = {
 
   loginLoading: false,
   loginError: null,
+  twoFactorChallenge: null,
   signupLoading: false,
   signupError: null,
   logoutLoading: false,
@@ -193,6 +201,11 @@ export const useAuthStore = create<AuthState>((set, get) => ({
     try {
       const response = await loginAPI(request);
 
+      if (isTwoFactorChallenge(response)) {
+        set({ loginLoading: false, twoFactorChallenge: response });
+        return false;
+      }
+
       set({
         user: response.user,
         isAuthenticated: true,
@@ -455,6 +468,45 @@ export const useAuthStore = create<AuthState>((set, get) => ({
     });
   },
 
+  /**
+   * Finish a 2FA login with an authenticator / SMS code or a recovery code
+   * Returns true on success, false on failure
+   */
+  verifyTwoFactor: async (input) => {
+    const challenge = get().twoFactorChallenge;
+    if (!challenge) return false;
+
+    set({ loginLoading: true, loginError: null });
+
+    try {
+      const response = await completeTwoFactorLogin(challenge.challengeToken, input);
+
+      set({
+        user: response.user,
+        isAuthenticated: true,
+        loginLoading: false,
+        loginError: null,
+        twoFactorChallenge: null,
+      });
+
+      return true;
+    } catch (error) {
+      set({
+        loginLoading: false,
+        loginError: error instanceof Error ? error.message : 'Verification failed. Please try again.',
+      });
+
+      return false;
+    }
+  },
+
+  /**
+   * Go back from the 2FA step to email and password
+   */
+  cancelTwoFactor: () => {
+    set({ twoFactorChallenge: null, loginError: null });
+  },
+
   /**
    * Reset store to initial state
    */
@@ -10,6 +10,8 @@ import { Button } from "../../../components/ui/button";
 import { Input } from "../../../components/ui/input";
 import { Label } from "../../../components/ui/label";
 import { SiweButton, SiweDivider } from "../../../components/auth/siwe-button";
+import { TwoFactorLoginForm } from "../../../components/auth/two-factor-login-form";
+import { isTwoFactorChallenge, type TwoFactorChallenge } from "../../../lib/auth-client";
 import { VlossomLogo } from "../../../components/ui/vlossom-logo";
 import Link from "next/link";
 import { validationSchemas, INPUT_LIMITS } from "../../../lib/input-validation";
@@ -24,9 +26,11 @@ type LoginForm = z.infer<typeof loginSchema>;
 
 export default function LoginPage() {
   const router = useRouter();
-  const { login, refetch } = useAuth();
+  const { login, completeTwoFactorLogin, refetch } = useAuth();
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Set when the account needs a second factor to finish signing in
+  const [challenge, setChallenge] = useState<TwoFactorChallenge | null>(null);
 
   // Handle successful SIWE authentication
   const handleSiweSuccess = async (isNewUser: boolean) => {
@@ -56,11 +60,14 @@ export default function LoginPage() {
     setError(null);
 
     try {
-      await login({
+      const result = await login({
         email: data.email,
         password: data.password,
       });
-      // Redirect handled by useAuth hook
+      if (isTwoFactorChallenge(result)) {
+        setChallenge(result);
+      }
+      // Otherwise redirect handled by useAuth hook
     } catch (err) {
       setError(err instanceof Error ? err.message : "Login failed. Please try again.");
     } finally {
@@ -84,84 +91,95 @@ export default function LoginPage() {
 
         {/* Login Form */}
         <div className="bg-background-primary rounded-card shadow-vlossom p-8 space-y-6">
-          {/* SIWE Button - V3.2 */}
-          <div className="space-y-4">
-            <SiweButton
-              onSuccess={handleSiweSuccess}
-              onError={handleSiweError}
-              variant="outline"
-              className="w-full"
-              disabled={isLoading}
+          {challenge ? (
+            <TwoFactorLoginForm
+              challenge={challenge}
+              onVerify={(input) => completeTwoFactorLogin(challenge.challengeToken, input)}
+              onCancel={() => setChallenge(null)}
             />
-          </div>
+          ) : (
+            <>
+              {/* SIWE Button - V3.2 */}
+              <div className="space-y-4">
+                <SiweButton
+                  onSuccess={handleSiweSuccess}
+                  onTwoFactorRequired={setChallenge}
+                  onError={handleSiweError}
+                  variant="outline"
+                  className="w-full"
+                  disabled={isLoading}
+                />
+              </div>
 
-          <SiweDivider />
-
-          <form onSubmit={handleSubmit(onSubmit)} className="space-y-5">
-            {/* Email */}
-            <div className="space-y-2">
-              <Label htmlFor="email">Email address</Label>
-              <Input
-                id="email"
-                type="email"
-                placeholder="you@example.com"
-                autoComplete="email"
-                maxLength={INPUT_LIMITS.EMAIL}
-                aria-describedby={errors.email ? "login-email-error" : undefined}
-                {...register("email")}
-                disabled={isLoading}
-              />
-              {errors.email && (
-                <p id="login-email-error" className="text-sm text-status-error" role="alert">
-                  {errors.email.message}
-                </p>
-              )}
-            </div>
-
-            {/* Password */}
-            <div className="space-y-2">
-              <div className="flex items-center justify-between">
-                <Label htmlFor="password">Password</Label>
-                <Link
-                  href="/forgot-password"
-                  className="text-sm text-brand-rose hover:text-brand-clay transition-gentle"
+              <SiweDivider />
+
+              <form onSubmit={handleSubmit(onSubmit)} className="space-y-5">
+                {/* Email */}
+                <div className="space-y-2">
+                  <Label htmlFor="email">Email address</Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    placeholder="you@example.com"
+                    autoComplete="email"
+                    maxLength={INPUT_LIMITS.EMAIL}
+                    aria-describedby={errors.email ? "login-email-error" : undefined}
+                    {...register("email")}
+                    disabled={isLoading}
+                  />
+                  {errors.email && (
+                    <p id="login-email-error" className="text-sm text-status-error" role="alert">
+                      {errors.email.message}
+                    </p>
+                  )}
+                </div>
+
+                {/* Password */}
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="password">Password</Label>
+                    <Link
+                      href="/forgot-password"
+                      className="text-sm text-brand-rose hover:text-brand-clay transition-gentle"
+                    >
+                      Forgot password?
+                    </Link>
+                  </div>
+                  <Input
+                    id="password"
+                    type="password"
+                    placeholder="Enter your password"
+                    autoComplete="current-password"
+                    maxLength={INPUT_LIMITS.PASSWORD}
+                    aria-describedby={errors.password ? "login-password-error" : undefined}
+                    {...register("password")}
+                    disabled={isLoading}
+                  />
+                  {errors.password && (
+                    <p id="login-password-error" className="text-sm text-status-error" role="alert">
+                      {errors.password.message}
+                    </p>
+                  )}
+                </div>
+
+                {/* Error Message */}
+                {error && (
+                  <div className="p-4 rounded-input bg-status-error/10 border border-status-error">
+                    <p className="text-sm text-status-error">{error}</p>
+                  </div>
+                )}
+
+                {/* Submit Button */}
+                <Button
+                  type="submit"
+                  className="w-full"
+                  disabled={isLoading}
                 >
-                  Forgot password?
-                </Link>
-              </div>
-              <Input
-                id="password"
-                type="password"
-                placeholder="Enter your password"
-                autoComplete="current-password"
-                maxLength={INPUT_LIMITS.PASSWORD}
-                aria-describedby={errors.password ? "login-password-error" : undefined}
-                {...register("password")}
-                disabled={isLoading}
-              />
-              {errors.password && (
-                <p id="login-password-error" className="text-sm text-status-error" role="alert">
-                  {errors.password.message}
-                </p>
-              )}
-            </div>
-
-            {/* Error Message */}
-            {error && (
-              <div className="p-4 rounded-input bg-status-error/10 border border-status-error">
-                <p className="text-sm text-status-error">{error}</p>
-              </div>
-            )}
-
-            {/* Submit Button */}
-            <Button
-              type="submit"
-              className="w-full"
-              disabled={isLoading}
-            >
-              {isLoading ? "Logging in..." : "Log In"}
-            </Button>
-          </form>
+                  {isLoading ? "Logging in..." : "Log In"}
+                </Button>
+              </form>
+            </>
+          )}
 
           {/* Signup Link */}
           <div className="text-center pt-4 border-t border-border-subtle">
@@ -5,6 +5,7 @@ import { useParams, useRouter } from "next/navigation";
 import { useBooking } from "@/hooks/use-bookings";
 import { BookingDetails } from "@/components/bookings/booking-details";
 import { CancelBookingDialog } from "@/components/bookings/cancel-dialog";
+import { BalancePaymentDialog } from "@/components/bookings/balance-payment-dialog";
 import { Button } from "@/components/ui/button";
 
 export default function BookingDetailsPage() {
@@ -14,6 +15,7 @@ export default function BookingDetailsPage() {
 
   const { data: booking, isLoading, error } = useBooking(bookingId);
   const [cancelDialogOpen, setCancelDialogOpen] = useState(false);
+  const [balanceDialogOpen, setBalanceDialogOpen] = useState(false);
 
   const handleBack = () => {
     router.push("/bookings");
@@ -74,6 +76,7 @@ export default function BookingDetailsPage() {
           booking={booking}
           onCancel={handleCancel}
           onBack={handleBack}
+          onPayBalance={() => setBalanceDialogOpen(true)}
         />
       </main>
 
@@ -84,6 +87,14 @@ export default function BookingDetailsPage() {
         booking={booking}
         onSuccess={handleCancelSuccess}
       />
+
+      {/* Balance Payment Dialog */}
+      <BalancePaymentDialog
+        open={balanceDialogOpen}
+        onOpenChange={setBalanceDialogOpen}
+        booking={booking}
+        onSuccess={() => setBalanceDialogOpen(false)}
+      />
     </div>
   );
 }
@@ -1,18 +1,29 @@
 /**
  * Conversation Thread Page (V6.7.0)
  *
- * View and send messages in a conversation.
+ * View and send messages in a conversation - text, photos, voice notes,
+ * and (for stylists) booking proposals.
  */
 
 "use client";
 
 import { useState, useEffect, useRef } from "react";
 import { useParams, useRouter } from "next/navigation";
-import { useConversation, useSendMessage, useMarkAsRead } from "@/hooks/use-messages";
+import {
+  useConversation,
+  useConversationStream,
+  useSendMessage,
+  useSendAttachment,
+  useRespondToProposal,
+  useMarkAsRead,
+  useTypingIndicator,
+} from "@/hooks/use-messages";
 import { useAuth } from "@/hooks/use-auth";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Icon } from "@/components/icons";
+import { MessageContent } from "@/components/messages/message-content";
+import { ProposeBookingDialog } from "@/components/messages/propose-booking-dialog";
 import { cn } from "@/lib/utils";
 import { format, isToday, isYesterday } from "date-fns";
 
@@ -20,15 +31,26 @@ export default function ConversationPage() {
   const params = useParams();
   const router = useRouter();
   const conversationId = params.id as string;
-  const { user: _user } = useAuth();
+  const { user } = useAuth();
 
   const [newMessage, setNewMessage] = useState("");
+  const [attachmentError, setAttachmentError] = useState<string | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const [showProposal, setShowProposal] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLTextAreaElement>(null);
+  const photoInputRef = useRef<HTMLInputElement>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
 
   const { data, isLoading, error } = useConversation(conversationId);
   const sendMessage = useSendMessage(conversationId);
+  const sendAttachment = useSendAttachment(conversationId);
+  const respondToProposal = useRespondToProposal(conversationId);
   const markAsRead = useMarkAsRead(conversationId);
+  const { isOtherTyping, onTyping, stopTyping } = useTypingIndicator(conversationId);
+
+  // Live messages, typing and read receipts
+  useConversationStream();
 
   // Mark as read on mount
   useEffect(() => {
@@ -50,6 +72,7 @@ export default function ConversationPage() {
     if (!content || sendMessage.isPending) return;
 
     setNewMessage("");
+    stopTyping();
     try {
       await sendMessage.mutateAsync(content);
     } catch (error) {
@@ -58,6 +81,74 @@ export default function ConversationPage() {
     }
   };
 
+  // Send a photo picked from the device
+  const handlePhotoSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setAttachmentError(null);
+    try {
+      await sendAttachment.mutateAsync({ kind: "image", file });
+    } catch (err) {
+      setAttachmentError(err instanceof Error ? err.message : "Failed to send photo");
+    }
+  };
+
+  // Record a voice note - tap to start, tap again to send
+  const handleToggleRecording = async () => {
+    if (isRecording) {
+      recorderRef.current?.stop();
+      return;
+    }
+
+    setAttachmentError(null);
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const recorder = new MediaRecorder(stream);
+      const chunks: Blob[] = [];
+
+      recorder.ondataavailable = (event) => chunks.push(event.data);
+      recorder.onstop = async () => {
+        stream.getTracks().forEach((track) => track.stop());
+        recorderRef.current = null;
+        setIsRecording(false);
+
+        const mimeType = recorder.mimeType.split(";")[0] || "audio/webm";
+        try {
+          await sendAttachment.mutateAsync({
+            kind: "voice",
+            file: new Blob(chunks, { type: mimeType }),
+          });
+        } catch (err) {
+          setAttachmentError(err instanceof Error ? err.message : "Failed to send voice note");
+        }
+      };
+
+      recorderRef.current = recorder;
+      recorder.start();
+      setIsRecording(true);
+    } catch (_err) {
+      setAttachmentError("Microphone access is needed to record a voice note");
+    }
+  };
+
+  // Stop recording when leaving the conversation
+  useEffect(() => () => recorderRef.current?.stop(), []);
+
+  const handleRespondToProposal = (messageId: string, accept: boolean) => {
+    respondToProposal.mutate(
+      { messageId, accept },
+      {
+        onSuccess: (result) => {
+          if (accept && "bookingId" in result) {
+            router.push(`/bookings/${result.bookingId}`);
+          }
+        },
+      }
+    );
+  };
+
   // Handle Enter key
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === "Enter" && !e.shiftKey) {
@@ -264,9 +355,11 @@ export default function ConversationPage() {
                             : "bg-background-tertiary text-text-primary rounded-bl-md"
                         )}
                       >
-                        <p className="text-sm whitespace-pre-wrap break-words">
-                          {message.content}
-                        </p>
+                        <MessageContent
+                          message={message}
+                          onRespondToProposal={handleRespondToProposal}
+                          isResponding={respondToProposal.isPending}
+                        />
                         <div
                           className={cn(
                             "flex items-center gap-1 mt-1",
@@ -297,17 +390,69 @@ export default function ConversationPage() {
             </div>
           ))}
 
+        {/* Typing Indicator */}
+        {isOtherTyping && (
+          <p className="text-xs text-text-muted px-10 pb-2">
+            {data?.conversation.participant?.displayName || "They"} is typing...
+          </p>
+        )}
+
         <div ref={messagesEndRef} />
       </div>
 
       {/* Input Area */}
       <div className="flex-shrink-0 bg-background-primary border-t border-border-default p-4 safe-bottom">
+        {(attachmentError || respondToProposal.error) && (
+          <p className="text-xs text-status-error mb-2">
+            {attachmentError || respondToProposal.error?.message}
+          </p>
+        )}
+        <div className="flex items-center gap-2 mb-2">
+          <input
+            ref={photoInputRef}
+            type="file"
+            accept="image/jpeg,image/png,image/webp,image/gif"
+            className="hidden"
+            onChange={handlePhotoSelected}
+          />
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => photoInputRef.current?.click()}
+            disabled={sendAttachment.isPending || isRecording}
+          >
+            <Icon name="camera" size="sm" className="mr-1" />
+            Photo
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleToggleRecording}
+            disabled={sendAttachment.isPending && !isRecording}
+            className={cn(isRecording && "text-status-error")}
+          >
+            <Icon name={isRecording ? "timer" : "chat"} size="sm" className="mr-1" />
+            {isRecording ? "Stop & send" : "Voice note"}
+          </Button>
+          {user?.role === "STYLIST" && (
+            <Button variant="ghost" size="sm" onClick={() => setShowProposal(true)}>
+              <Icon name="calendar" size="sm" className="mr-1" />
+              Propose booking
+            </Button>
+          )}
+          {sendAttachment.isPending && (
+            <span className="text-xs text-text-muted">Sending...</span>
+          )}
+        </div>
         <div className="flex items-end gap-3">
           <div className="flex-1 relative">
             <textarea
               ref={inputRef}
               value={newMessage}
-              onChange={(e) => setNewMessage(e.target.value)}
+              onChange={(e) => {
+                setNewMessage(e.target.value);
+                onTyping();
+              }}
               onKeyDown={handleKeyDown}
               placeholder="Type a message..."
               rows={1}
@@ -344,6 +489,17 @@ export default function ConversationPage() {
           </Button>
         </div>
       </div>
+
+      {user?.role === "STYLIST" && (
+        <ProposeBookingDialog
+          open={showProposal}
+          onOpenChange={setShowProposal}
+          isLoading={sendMessage.isPending}
+          onSubmit={async (input) => {
+            await sendMessage.mutateAsync(input);
+          }}
+        />
+      )}
     </div>
   );
 }
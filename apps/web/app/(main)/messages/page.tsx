@@ -8,7 +8,7 @@
 
 import { useState } from "react";
 import { useRouter } from "next/navigation";
-import { useConversations } from "@/hooks/use-messages";
+import { useConversations, useConversationStream } from "@/hooks/use-messages";
 import { AppHeader } from "@/components/layout/app-header";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -25,6 +25,9 @@ export default function MessagesPage() {
 
   const { data, isLoading, error } = useConversations();
 
+  // Live previews and unread counts
+  useConversationStream();
+
   // Filter conversations based on tab
   const filteredConversations = data?.conversations.filter((conv) => {
     if (activeTab === "unread") {
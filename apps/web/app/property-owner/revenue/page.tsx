@@ -8,7 +8,15 @@
 import * as React from "react";
 import { useQuery } from "@tanstack/react-query";
 import { getAuthToken } from "../../../lib/auth-client";
-import { useMyProperties } from "../../../hooks/use-properties";
+import {
+  useMyProperties,
+  usePropertyUtilisation,
+  type DateRange,
+} from "../../../hooks/use-properties";
+import {
+  ChairAvailabilityCalendar,
+  ChairUtilisationTable,
+} from "../../../components/property-owner";
 import { Button } from "../../../components/ui/button";
 import { Icon } from "../../../components/icons";
 import { cn } from "../../../lib/utils";
@@ -237,6 +245,61 @@ function TransactionRowSkeleton() {
   );
 }
 
+// Range covered by a period toggle, ending now
+function getPeriodRange(period: "week" | "month" | "year"): DateRange {
+  const to = new Date();
+  const from = new Date(to);
+  if (period === "week") from.setUTCDate(from.getUTCDate() - 7);
+  if (period === "month") from.setUTCMonth(from.getUTCMonth() - 1);
+  if (period === "year") from.setUTCFullYear(from.getUTCFullYear() - 1);
+  // Whole minutes keep the query key stable between renders
+  from.setUTCSeconds(0, 0);
+  to.setUTCSeconds(0, 0);
+  return { from: from.toISOString(), to: to.toISOString() };
+}
+
+// Next two weeks, for the availability calendar
+function getUpcomingRange(): DateRange {
+  const from = new Date();
+  from.setUTCHours(0, 0, 0, 0);
+  const to = new Date(from);
+  to.setUTCDate(to.getUTCDate() + 14);
+  return { from: from.toISOString(), to: to.toISOString() };
+}
+
+// Utilisation and upcoming availability for one property
+interface PropertyUtilisationSectionProps {
+  propertyId: string;
+  propertyName: string;
+  range: DateRange;
+  upcoming: DateRange;
+}
+
+function PropertyUtilisationSection({
+  propertyId,
+  propertyName,
+  range,
+  upcoming,
+}: PropertyUtilisationSectionProps) {
+  const { data, isLoading } = usePropertyUtilisation(propertyId, range);
+
+  return (
+    <div className="bg-background-primary rounded-card shadow-vlossom">
+      <div className="p-4 border-b border-border-default">
+        <h2 className="text-h3 text-text-primary">{propertyName}</h2>
+        <p className="text-caption text-text-secondary">Chair utilisation and revenue</p>
+      </div>
+      <div className="p-4 space-y-6">
+        <ChairUtilisationTable utilisation={data?.utilisation} isLoading={isLoading} />
+        <div>
+          <h3 className="text-body font-medium text-text-primary mb-3">Next two weeks</h3>
+          <ChairAvailabilityCalendar propertyId={propertyId} range={upcoming} />
+        </div>
+      </div>
+    </div>
+  );
+}
+
 export default function PropertyOwnerRevenuePage() {
   const [period, setPeriod] = React.useState<"week" | "month" | "year">("month");
 
@@ -252,6 +315,8 @@ export default function PropertyOwnerRevenuePage() {
   });
 
   const hasProperties = (properties?.properties?.length || 0) > 0;
+  const periodRange = React.useMemo(() => getPeriodRange(period), [period]);
+  const upcomingRange = React.useMemo(() => getUpcomingRange(), []);
   const transactions = transactionsData?.transactions || [];
 
   // Calculate month-over-month change
@@ -353,6 +418,18 @@ export default function PropertyOwnerRevenuePage() {
         </div>
       )}
 
+      {/* Chair Utilisation */}
+      {hasProperties &&
+        properties?.properties.map((property) => (
+          <PropertyUtilisationSection
+            key={property.id}
+            propertyId={property.id}
+            propertyName={property.name}
+            range={periodRange}
+            upcoming={upcomingRange}
+          />
+        ))}
+
       {/* Transactions */}
       {hasProperties && (
         <div className="bg-background-primary rounded-card shadow-vlossom">
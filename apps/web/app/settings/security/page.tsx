@@ -2,6 +2,7 @@
  * Settings - Security Page
  * V3.4: Authentication methods and security settings
  * V8.0.0: Added input length limits for security
+ * Two-factor enrollment and step-up limits
  */
 
 "use client";
@@ -19,6 +20,8 @@ import { Button } from "../../../components/ui/button";
 import { Input } from "../../../components/ui/input";
 import { Label } from "../../../components/ui/label";
 import { LinkedAccounts } from "../../../components/settings/linked-accounts";
+import { WalletGuardians } from "../../../components/settings/wallet-guardians";
+import { TwoFactorSettings } from "../../../components/settings/two-factor-settings";
 import { Skeleton } from "../../../components/ui/skeleton";
 import { toast } from "../../../hooks/use-toast";
 import { Icon } from "@/components/icons";
@@ -242,32 +245,35 @@ export default function SecuritySettingsPage() {
         </Card>
       )}
 
+      {/* Wallet Recovery Guardians */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Icon name="wallet" />
+            Recovery Guardians
+          </CardTitle>
+          <CardDescription>
+            People you trust to help recover your wallet if you lose access
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <WalletGuardians />
+        </CardContent>
+      </Card>
+
       {/* Two-Factor Authentication */}
-      <Card className="opacity-60">
+      <Card>
         <CardHeader>
           <CardTitle className="text-lg flex items-center gap-2">
             <Icon name="phone" />
             Two-Factor Authentication
-            <span className="px-2 py-0.5 text-xs bg-brand-rose/10 text-brand-rose rounded-full">
-              Coming Soon
-            </span>
           </CardTitle>
           <CardDescription>
             Add an extra layer of security to your account
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <div className="flex items-center justify-between p-4 rounded-lg bg-background-secondary">
-            <div>
-              <p className="font-medium">2FA Status</p>
-              <p className="text-sm text-text-secondary">
-                Not enabled
-              </p>
-            </div>
-            <Button variant="outline" disabled>
-              Enable 2FA
-            </Button>
-          </div>
+          <TwoFactorSettings />
         </CardContent>
       </Card>
 
@@ -71,6 +71,7 @@ export default function EarningsPage() {
             pendingEarnings: 0,
             pendingBookingsCount: 0,
             completedBookingsCount: 0,
+            customerRewardDiscounts: 0,
           }
         }
         isLoading={earningsLoading}
@@ -9,6 +9,7 @@ import { useState } from "react";
 import { Button } from "../../../../components/ui/button";
 import { ProfileForm } from "../../../../components/dashboard/profile-form";
 import { PortfolioUpload } from "../../../../components/dashboard/portfolio-upload";
+import { VerificationPacket } from "../../../../components/dashboard/verification-packet";
 import { ProfilePreview } from "../../../../components/dashboard/profile-preview";
 import { useStylistProfile, useUpdateProfile } from "../../../../hooks/use-dashboard";
 import type { StylistProfile } from "../../../../lib/dashboard-client";
@@ -98,13 +99,14 @@ export default function ProfilePage() {
           />
         </div>
 
-        {/* Portfolio Section */}
-        <div className="lg:col-span-1">
+        {/* Portfolio and Verification */}
+        <div className="lg:col-span-1 space-y-6">
           <PortfolioUpload
             images={profile?.portfolioImages || []}
             onImagesChange={handlePortfolioChange}
             isLoading={updateMutation.isPending}
           />
+          <VerificationPacket />
         </div>
       </div>
 
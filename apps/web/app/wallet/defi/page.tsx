@@ -52,6 +52,17 @@ interface TierInfo {
   poolCreationFee: string;
 }
 
+type OperationStatus = "PENDING" | "CONFIRMED" | "FAILED";
+
+interface LiquidityOperation {
+  id: string;
+  type: "CREATE_POOL" | "DEPOSIT" | "WITHDRAW" | "CLAIM_YIELD";
+  status: OperationStatus;
+  poolName: string | null;
+  amount: string | null;
+  createdAt: string;
+}
+
 interface GlobalStats {
   totalTVL: string;
   totalPools: number;
@@ -73,6 +84,16 @@ async function fetchAPI<T>(path: string, options?: RequestInit): Promise<T> {
   return data.data;
 }
 
+const OPERATION_LABELS: Record<LiquidityOperation["type"], string> = {
+  CREATE_POOL: "Creating pool",
+  DEPOSIT: "Deposit",
+  WITHDRAW: "Withdrawal",
+  CLAIM_YIELD: "Yield claim",
+};
+
+// How often pending on-chain operations are re-checked
+const PENDING_POLL_MS = 5000;
+
 // ============================================================================
 // Skeleton Components
 // ============================================================================
@@ -384,15 +405,16 @@ function DepositDialog({
 
     setLoading(true);
     try {
-      await fetchAPI("/liquidity/deposit", {
+      const result = await fetchAPI<{ status: OperationStatus }>("/liquidity/deposit", {
         method: "POST",
         body: JSON.stringify({ poolId, amount }),
       });
 
-      toast({
-        title: "Deposit Successful",
-        description: `Deposited $${amount} USDC`,
-      });
+      toast(
+        result.status === "PENDING"
+          ? { title: "Deposit Submitted", description: `Depositing $${amount} USDC - waiting for confirmation` }
+          : { title: "Deposit Successful", description: `Deposited $${amount} USDC` }
+      );
       onSuccess();
       onClose();
       setAmount("");
@@ -437,7 +459,7 @@ function DepositDialog({
             Cancel
           </Button>
           <Button onClick={handleDeposit} disabled={loading || !amount}>
-            {loading && <Icon name="timer" size="sm" className="mr-2 animate-spin" />}
+            {loading && <Icon name="timer" size="sm" className="mr-2 animate-pulse" />}
             Deposit
           </Button>
         </div>
@@ -468,15 +490,16 @@ function WithdrawDialog({
 
     setLoading(true);
     try {
-      const result = await fetchAPI<{ amount: string }>("/liquidity/withdraw", {
+      const result = await fetchAPI<{ amount: string; status: OperationStatus }>("/liquidity/withdraw", {
         method: "POST",
         body: JSON.stringify({ poolId, shares }),
       });
 
-      toast({
-        title: "Withdrawal Successful",
-        description: `Withdrew $${result.amount} USDC`,
-      });
+      toast(
+        result.status === "PENDING"
+          ? { title: "Withdrawal Submitted", description: `Withdrawing ~$${result.amount} USDC - waiting for confirmation` }
+          : { title: "Withdrawal Successful", description: `Withdrew $${result.amount} USDC` }
+      );
       onSuccess();
       onClose();
       setShares("");
@@ -529,7 +552,7 @@ function WithdrawDialog({
             Cancel
           </Button>
           <Button onClick={handleWithdraw} disabled={loading || !shares}>
-            {loading && <Icon name="timer" size="sm" className="mr-2 animate-spin" />}
+            {loading && <Icon name="timer" size="sm" className="mr-2 animate-pulse" />}
             Withdraw
           </Button>
         </div>
@@ -547,6 +570,7 @@ export default function WalletDeFiPage() {
   const [deposits, setDeposits] = useState<UserDeposit[]>([]);
   const [tierInfo, setTierInfo] = useState<TierInfo | null>(null);
   const [stats, setStats] = useState<GlobalStats | null>(null);
+  const [pendingOperations, setPendingOperations] = useState<LiquidityOperation[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
 
@@ -562,19 +586,23 @@ export default function WalletDeFiPage() {
     else setRefreshing(true);
 
     try {
-      const [poolsRes, depositsRes, tierRes, statsRes] = await Promise.all([
+      const [poolsRes, depositsRes, tierRes, statsRes, operationsRes] = await Promise.all([
         fetchAPI<{ pools: PoolInfo[] }>("/liquidity/pools"),
         fetchAPI<{ deposits: UserDeposit[] }>("/liquidity/deposits").catch(() => ({
           deposits: [],
         })),
         fetchAPI<TierInfo>("/liquidity/tier").catch(() => null),
         fetchAPI<{ stats: GlobalStats }>("/liquidity/stats"),
+        fetchAPI<{ operations: LiquidityOperation[] }>("/liquidity/operations?status=PENDING").catch(() => ({
+          operations: [],
+        })),
       ]);
 
       setPools(poolsRes.pools || []);
       setDeposits(depositsRes.deposits || []);
       setTierInfo(tierRes);
       setStats(statsRes.stats || null);
+      setPendingOperations(operationsRes.operations || []);
     } catch (error) {
       toast({
         title: "Failed to load DeFi data",
@@ -591,6 +619,25 @@ export default function WalletDeFiPage() {
     loadData();
   }, [loadData]);
 
+  // Positions only change once the chain confirms - poll until nothing is pending
+  useEffect(() => {
+    if (pendingOperations.length === 0) return;
+
+    const timer = setInterval(async () => {
+      const { operations } = await fetchAPI<{ operations: LiquidityOperation[] }>(
+        "/liquidity/operations?status=PENDING"
+      ).catch(() => ({ operations: pendingOperations }));
+
+      if (operations.length < pendingOperations.length) {
+        loadData(false);
+      } else {
+        setPendingOperations(operations);
+      }
+    }, PENDING_POLL_MS);
+
+    return () => clearInterval(timer);
+  }, [pendingOperations, loadData]);
+
   const handleDeposit = (poolId: string) => {
     setSelectedPoolId(poolId);
     setDepositDialogOpen(true);
@@ -603,15 +650,16 @@ export default function WalletDeFiPage() {
 
   const handleClaimAll = async () => {
     try {
-      const result = await fetchAPI<{ totalClaimed: string }>(
+      const result = await fetchAPI<{ totalClaimed: string; claims: { status: OperationStatus }[] }>(
         "/liquidity/yield/claim-all",
         { method: "POST" }
       );
 
-      toast({
-        title: "Yield Claimed",
-        description: `Claimed $${result.totalClaimed} USDC`,
-      });
+      toast(
+        result.claims.some((claim) => claim.status === "PENDING")
+          ? { title: "Claim Submitted", description: "Waiting for confirmation" }
+          : { title: "Yield Claimed", description: `Claimed $${result.totalClaimed} USDC` }
+      );
       loadData(false);
     } catch (error) {
       toast({
@@ -746,6 +794,31 @@ export default function WalletDeFiPage() {
         </div>
       </div>
 
+      {/* Pending on-chain operations */}
+      {pendingOperations.length > 0 && (
+        <div className="bg-background-primary rounded-card shadow-vlossom p-4">
+          <h3 className="text-body font-semibold text-text-primary mb-3">
+            Waiting for Confirmation
+          </h3>
+          <ul className="space-y-2">
+            {pendingOperations.map((operation) => (
+              <li key={operation.id} className="flex items-center justify-between">
+                <span className="flex items-center text-caption text-text-secondary">
+                  <Icon name="timer" size="sm" className="mr-2 animate-pulse" />
+                  {OPERATION_LABELS[operation.type]}
+                  {operation.poolName && ` · ${operation.poolName}`}
+                </span>
+                {operation.amount && (
+                  <span className="text-caption font-semibold text-text-primary">
+                    ${parseFloat(operation.amount).toFixed(2)}
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Global Stats */}
       {stats && (
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
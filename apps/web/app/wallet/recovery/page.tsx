@@ -0,0 +1,233 @@
+/**
+ * Wallet Recovery Page - ask a lost wallet's guardians to move it to this account
+ */
+
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Icon } from "@/components/icons";
+import { Button } from "../../../components/ui/button";
+import { Input } from "../../../components/ui/input";
+import { Label } from "../../../components/ui/label";
+import { Badge } from "../../../components/ui/badge";
+import { CopyButton } from "../../../components/ui/copy-button";
+import { toast } from "../../../hooks/use-toast";
+import { truncateAddress } from "../../../lib/wallet-client";
+import {
+  getRecoveries,
+  requestRecovery,
+  executeRecovery,
+  cancelRecovery,
+  type WalletRecovery,
+  type RecoveryStatus,
+} from "../../../lib/recovery-client";
+
+const STATUS_BADGES: Record<RecoveryStatus, { label: string; variant: "info" | "warning" | "success" | "secondary" | "error" }> = {
+  REQUESTED: { label: "Waiting for guardians", variant: "info" },
+  PENDING: { label: "Approving", variant: "warning" },
+  EXECUTED: { label: "Recovered", variant: "success" },
+  CANCELLED: { label: "Cancelled", variant: "secondary" },
+  EXPIRED: { label: "Expired", variant: "error" },
+};
+
+function isReady(recovery: WalletRecovery): boolean {
+  return (
+    recovery.status === "PENDING" &&
+    recovery.approvalCount >= recovery.minApprovals &&
+    !!recovery.executeAfter &&
+    new Date(recovery.executeAfter).getTime() <= Date.now()
+  );
+}
+
+export default function WalletRecoveryPage() {
+  const [recoveries, setRecoveries] = useState<WalletRecovery[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [walletAddress, setWalletAddress] = useState("");
+  const [isRequesting, setIsRequesting] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const all = await getRecoveries();
+      setRecoveries(all.filter((recovery) => recovery.role === "REQUESTER"));
+    } catch (err) {
+      toast.error("Failed to load recoveries", err instanceof Error ? err.message : "Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleRequest = async () => {
+    if (!/^0x[a-fA-F0-9]{40}$/.test(walletAddress.trim())) {
+      toast.error("Invalid address", "Enter the address of the wallet you lost access to.");
+      return;
+    }
+
+    setIsRequesting(true);
+    try {
+      await requestRecovery(walletAddress.trim());
+      toast.success("Recovery requested", "We've asked the wallet's guardians to approve.");
+      setWalletAddress("");
+      await load();
+    } catch (err) {
+      toast.error("Failed to request recovery", err instanceof Error ? err.message : "Please try again.");
+    } finally {
+      setIsRequesting(false);
+    }
+  };
+
+  const runAction = async (id: string, action: () => Promise<unknown>, success: string) => {
+    setBusyId(id);
+    try {
+      await action();
+      toast.success(success);
+      await load();
+    } catch (err) {
+      toast.error("Something went wrong", err instanceof Error ? err.message : "Please try again.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Request */}
+      <div className="bg-background-primary rounded-card shadow-vlossom p-6 space-y-4">
+        <div className="flex items-center gap-2">
+          <Icon name="locked" size="sm" className="text-brand-rose" />
+          <h2 className="text-h2 text-text-primary">Recover a Wallet</h2>
+        </div>
+        <p className="text-body text-text-secondary">
+          Lost access to your old account? If you added guardians to its wallet, they can approve moving it
+          and its balance to the wallet on this account.
+        </p>
+        <div className="space-y-2">
+          <Label htmlFor="lost-wallet">Lost wallet address</Label>
+          <Input
+            id="lost-wallet"
+            placeholder="0x..."
+            value={walletAddress}
+            maxLength={42}
+            onChange={(e) => setWalletAddress(e.target.value)}
+          />
+        </div>
+        <Button onClick={handleRequest} loading={isRequesting}>
+          Request recovery
+        </Button>
+      </div>
+
+      {/* Requests */}
+      {isLoading ? (
+        <div className="animate-pulse h-32 bg-background-primary rounded-card" />
+      ) : (
+        recoveries.map((recovery) => {
+          const badge = STATUS_BADGES[recovery.status];
+          const isOpen = recovery.status === "REQUESTED" || recovery.status === "PENDING";
+
+          return (
+            <div key={recovery.id} className="bg-background-primary rounded-card shadow-vlossom p-6 space-y-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="text-caption text-text-tertiary">Wallet</p>
+                  <p className="text-body text-text-primary font-mono">{truncateAddress(recovery.walletAddress)}</p>
+                </div>
+                <Badge variant={badge.variant}>{badge.label}</Badge>
+              </div>
+
+              {isOpen && (
+                <>
+                  <div>
+                    <div className="flex justify-between text-caption text-text-secondary mb-1">
+                      <span>Guardian approvals</span>
+                      <span>
+                        {recovery.approvalCount} of {recovery.minApprovals}
+                      </span>
+                    </div>
+                    <div className="h-2 bg-background-tertiary rounded-full overflow-hidden">
+                      <div
+                        className="h-full bg-brand-rose transition-all"
+                        style={{
+                          width: `${Math.min(100, (recovery.approvalCount / recovery.minApprovals) * 100)}%`,
+                        }}
+                      />
+                    </div>
+                  </div>
+
+                  <ul className="space-y-2">
+                    {recovery.guardians.map((guardian) => (
+                      <li key={guardian.id} className="flex items-center justify-between text-body">
+                        <span className="text-text-primary">
+                          {guardian.label || guardian.displayName || truncateAddress(guardian.address)}
+                        </span>
+                        {guardian.approved ? (
+                          <Icon name="check" size="sm" className="text-status-success" />
+                        ) : (
+                          <Icon name="clock" size="sm" className="text-text-tertiary" />
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+
+                  {recovery.guardianCallData && (
+                    <div className="p-4 bg-background-secondary rounded-lg space-y-2">
+                      <p className="text-caption text-text-secondary">
+                        Guardians outside Vlossom approve by sending this call to {truncateAddress(recovery.walletAddress)}{" "}
+                        from their own wallet.
+                      </p>
+                      <CopyButton
+                        textToCopy={recovery.guardianCallData}
+                        successMessage="Approval call copied"
+                        variant="outline"
+                        size="sm"
+                      />
+                    </div>
+                  )}
+
+                  {recovery.executeAfter && !isReady(recovery) && (
+                    <p className="text-caption text-text-secondary">
+                      The owner has until {new Date(recovery.executeAfter).toLocaleString("en-ZA")} to cancel.
+                    </p>
+                  )}
+
+                  <div className="flex gap-3">
+                    {isReady(recovery) && (
+                      <Button
+                        loading={busyId === recovery.id}
+                        onClick={() =>
+                          runAction(recovery.id, () => executeRecovery(recovery.id), "Wallet recovered")
+                        }
+                      >
+                        Complete recovery
+                      </Button>
+                    )}
+                    {recovery.status === "REQUESTED" && (
+                      <Button
+                        variant="ghost"
+                        loading={busyId === recovery.id}
+                        onClick={() =>
+                          runAction(recovery.id, () => cancelRecovery(recovery.id), "Recovery request withdrawn")
+                        }
+                      >
+                        Withdraw request
+                      </Button>
+                    )}
+                  </div>
+                </>
+              )}
+
+              {recovery.status === "EXECUTED" && (
+                <p className="text-body text-text-secondary">
+                  The wallet now belongs to this account and its balance has been moved to your wallet.
+                </p>
+              )}
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+}
@@ -9,6 +9,7 @@ import { useState, useEffect, useRef } from "react";
 import { useAccount, useDisconnect } from "wagmi";
 import { Button } from "@/components/ui/button";
 import { useSiwe, getSiweStatusMessage } from "@/hooks/use-siwe";
+import { isTwoFactorChallenge, type TwoFactorChallenge } from "@/lib/auth-client";
 import { ConnectWalletDialog } from "@/components/wallet/connect-wallet-dialog";
 
 interface SiweButtonProps {
@@ -16,6 +17,8 @@ interface SiweButtonProps {
   role?: "CUSTOMER" | "STYLIST";
   /** Callback when authentication succeeds */
   onSuccess?: (isNewUser: boolean) => void;
+  /** Callback when the account needs a second factor to finish signing in */
+  onTwoFactorRequired?: (challenge: TwoFactorChallenge) => void;
   /** Callback when authentication fails */
   onError?: (error: string) => void;
   /** Button variant */
@@ -35,6 +38,7 @@ interface SiweButtonProps {
 export function SiweButton({
   role = "CUSTOMER",
   onSuccess,
+  onTwoFactorRequired,
   onError,
   variant = "outline",
   size = "default",
@@ -64,7 +68,9 @@ export function SiweButton({
       // Small delay to ensure wallet state is fully updated
       const timer = setTimeout(async () => {
         const result = await signIn(role);
-        if (result) {
+        if (result && isTwoFactorChallenge(result)) {
+          onTwoFactorRequired?.(result);
+        } else if (result) {
           onSuccess?.(result.isNewUser);
         } else if (error) {
           onError?.(error);
@@ -73,7 +79,7 @@ export function SiweButton({
 
       return () => clearTimeout(timer);
     }
-  }, [isConnected, pendingSignIn, role, signIn, onSuccess, onError, error]);
+  }, [isConnected, pendingSignIn, role, signIn, onSuccess, onTwoFactorRequired, onError, error]);
 
   const handleClick = async () => {
     if (!isConnected) {
@@ -84,7 +90,9 @@ export function SiweButton({
 
     // Already connected, proceed with SIWE
     const result = await signIn(role);
-    if (result) {
+    if (result && isTwoFactorChallenge(result)) {
+      onTwoFactorRequired?.(result);
+    } else if (result) {
       onSuccess?.(result.isNewUser);
     } else if (error) {
       onError?.(error);
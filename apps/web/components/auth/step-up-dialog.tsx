@@ -0,0 +1,147 @@
+/**
+ * Step-Up Dialog
+ * Re-verify with the account's 2FA method (or password without 2FA) before
+ * a sensitive action. Driven by the useStepUp hook.
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "../ui/dialog";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import {
+  startStepUp,
+  verifyStepUp,
+  type StepUpAction,
+  type StepUpMethod,
+} from "../../lib/two-factor-client";
+
+const ACTION_LABELS: Record<StepUpAction, string> = {
+  TRANSFER: "Confirm this transfer",
+  WITHDRAWAL: "Confirm this withdrawal",
+  LINKED_ACCOUNT: "Confirm sign-in method change",
+  GUARDIAN: "Confirm guardian change",
+  PASSWORD_CHANGE: "Confirm password change",
+};
+
+const METHOD_HINTS: Record<StepUpMethod, string> = {
+  TOTP: "Enter the 6-digit code from your authenticator app.",
+  SMS: "We sent a 6-digit code to your phone.",
+  PASSWORD: "Enter your password to continue.",
+};
+
+interface StepUpDialogProps {
+  action: StepUpAction | null;
+  onVerified: (stepUpToken: string) => void;
+  onCancel: () => void;
+}
+
+export function StepUpDialog({ action, onVerified, onCancel }: StepUpDialogProps) {
+  const [method, setMethod] = useState<StepUpMethod | null>(null);
+  const [value, setValue] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!action) return;
+
+    setMethod(null);
+    setValue("");
+    setUseRecoveryCode(false);
+    setError(null);
+
+    startStepUp(action)
+      .then((challenge) => setMethod(challenge.method))
+      .catch((err) => setError(err instanceof Error ? err.message : "Failed to start verification"));
+  }, [action]);
+
+  const handleVerify = async () => {
+    if (!action || !method || !value.trim()) return;
+
+    setIsVerifying(true);
+    setError(null);
+    try {
+      const input =
+        method === "PASSWORD"
+          ? { password: value }
+          : useRecoveryCode
+            ? { recoveryCode: value.trim() }
+            : { code: value.trim() };
+      const result = await verifyStepUp(action, input);
+      onVerified(result.stepUpToken);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Verification failed");
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  return (
+    <Dialog open={action !== null} onOpenChange={(open) => !open && onCancel()} preventClose={isVerifying}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{action ? ACTION_LABELS[action] : "Verify it's you"}</DialogTitle>
+          <DialogDescription>
+            {method
+              ? useRecoveryCode
+                ? "Enter one of your recovery codes. Each code works once."
+                : METHOD_HINTS[method]
+              : "Getting things ready..."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {method && (
+          <div className="space-y-2">
+            <Label htmlFor="step-up-value">
+              {method === "PASSWORD" ? "Password" : useRecoveryCode ? "Recovery code" : "Verification code"}
+            </Label>
+            <Input
+              id="step-up-value"
+              type={method === "PASSWORD" ? "password" : "text"}
+              inputMode={method !== "PASSWORD" && !useRecoveryCode ? "numeric" : undefined}
+              autoComplete={method === "PASSWORD" ? "current-password" : "one-time-code"}
+              value={value}
+              maxLength={method === "PASSWORD" ? 128 : useRecoveryCode ? 20 : 6}
+              onChange={(e) => setValue(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleVerify()}
+              autoFocus
+            />
+            {method !== "PASSWORD" && (
+              <button
+                type="button"
+                className="text-sm text-brand-rose hover:underline"
+                onClick={() => {
+                  setUseRecoveryCode(!useRecoveryCode);
+                  setValue("");
+                }}
+              >
+                {useRecoveryCode ? "Use a verification code instead" : "Use a recovery code"}
+              </button>
+            )}
+          </div>
+        )}
+
+        {error && <p className="text-sm text-status-error">{error}</p>}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} disabled={isVerifying} className="flex-1">
+            Cancel
+          </Button>
+          <Button onClick={handleVerify} loading={isVerifying} disabled={!method || !value.trim()} className="flex-1">
+            Verify
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,95 @@
+/**
+ * Two-Factor Login Form
+ * Second step of sign-in for accounts with 2FA - an authenticator / SMS
+ * code or a recovery code
+ */
+
+"use client";
+
+import { useState } from "react";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import type { TwoFactorChallenge } from "../../lib/auth-client";
+
+interface TwoFactorLoginFormProps {
+  challenge: TwoFactorChallenge;
+  onVerify: (input: { code?: string; recoveryCode?: string }) => Promise<unknown>;
+  onCancel: () => void;
+}
+
+export function TwoFactorLoginForm({ challenge, onVerify, onCancel }: TwoFactorLoginFormProps) {
+  const [value, setValue] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsVerifying(true);
+    setError(null);
+
+    try {
+      await onVerify(useRecoveryCode ? { recoveryCode: value.trim() } : { code: value.trim() });
+      // Redirect handled by useAuth hook
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Verification failed. Please try again.");
+    } finally {
+      setIsVerifying(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-5">
+      <div className="space-y-2">
+        <h2 className="text-h3 text-text-primary">Verify it&apos;s you</h2>
+        <p className="text-sm text-text-secondary">
+          {useRecoveryCode
+            ? "Enter one of your recovery codes. Each code works once."
+            : challenge.method === "SMS"
+              ? "We texted a 6-digit code to your phone."
+              : "Enter the 6-digit code from your authenticator app."}
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="two-factor-login-code">{useRecoveryCode ? "Recovery code" : "Verification code"}</Label>
+        <Input
+          id="two-factor-login-code"
+          inputMode={useRecoveryCode ? undefined : "numeric"}
+          autoComplete="one-time-code"
+          maxLength={useRecoveryCode ? 20 : 6}
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          disabled={isVerifying}
+          autoFocus
+        />
+        <button
+          type="button"
+          className="text-sm text-brand-rose hover:text-brand-clay transition-gentle"
+          onClick={() => {
+            setUseRecoveryCode(!useRecoveryCode);
+            setValue("");
+          }}
+        >
+          {useRecoveryCode ? "Use a verification code instead" : "Use a recovery code"}
+        </button>
+      </div>
+
+      {error && (
+        <div className="p-4 rounded-input bg-status-error/10 border border-status-error">
+          <p className="text-sm text-status-error">{error}</p>
+        </div>
+      )}
+
+      <div className="flex gap-3">
+        <Button type="button" variant="ghost" onClick={onCancel} disabled={isVerifying}>
+          Back
+        </Button>
+        <Button type="submit" className="flex-1" disabled={isVerifying || !value.trim()}>
+          {isVerifying ? "Verifying..." : "Verify"}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -507,7 +507,6 @@ export function BookingDialog({
         {step === "payment" && bookingId && priceBreakdown && (
           <PaymentStep
             bookingId={bookingId}
-            amount={priceBreakdown.totalAmount}
             stylistAddress={stylist.id} // Will need actual wallet address
             onSuccess={handlePaymentSuccess}
           />
@@ -4,7 +4,11 @@ import { useState, useEffect, useCallback } from "react";
 import { formatPrice } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { useWallet } from "@/hooks/use-wallet";
-import { useConfirmPayment } from "@/hooks/use-bookings";
+import {
+  useConfirmBalancePayment,
+  useConfirmPayment,
+  usePaymentInstructions,
+} from "@/hooks/use-bookings";
 import { toast } from "sonner";
 import { getErrorMessage } from "@/lib/error-utils";
 import {
@@ -14,12 +18,7 @@ import {
   useWaitForTransactionReceipt,
 } from "wagmi";
 import { CONTRACTS, getExplorerTxUrl, isTestnet } from "@/lib/wagmi-config";
-import {
-  ESCROW_ABI,
-  USDC_ABI,
-  centsToUsdcUnits,
-  bookingIdToBytes32,
-} from "@/lib/contracts";
+import { ESCROW_ABI, USDC_ABI, centsToUsdcUnits } from "@/lib/contracts";
 import type { Address, Hash } from "viem";
 
 type PaymentState =
@@ -38,7 +37,6 @@ type PaymentState =
 
 interface PaymentStepProps {
   bookingId: string;
-  amount: number; // Total amount in cents
   stylistAddress: string;
   onSuccess: () => void;
   /**
@@ -50,13 +48,13 @@ interface PaymentStepProps {
 
 export function PaymentStep({
   bookingId,
-  amount,
   stylistAddress: _stylistAddress, // Reserved for escrow contract integration
   onSuccess,
   onPreventCloseChange,
 }: PaymentStepProps) {
   const { data: wallet, isLoading: walletLoading } = useWallet();
   const confirmPayment = useConfirmPayment();
+  const confirmBalancePayment = useConfirmBalancePayment();
   const { address: userAddress, isConnected } = useAccount();
 
   const [state, setState] = useState<PaymentState>("idle");
@@ -64,8 +62,21 @@ export function PaymentStep({
   const [txHash, setTxHash] = useState<Hash | undefined>();
   const [approvalTxHash, setApprovalTxHash] = useState<Hash | undefined>();
 
-  // Convert booking ID to bytes32 for contract calls
-  const bookingIdBytes32 = bookingIdToBytes32(bookingId);
+  // The API decides what is being paid: the deposit or full quote, or a due
+  // balance, each locked under its own escrow key. Fetched once so the amount
+  // doesn't change under a payment in progress.
+  const { data: instructions, isLoading: instructionsLoading, error: instructionsError } =
+    usePaymentInstructions(bookingId, state === "idle");
+  const [payment, setPayment] = useState<typeof instructions>();
+  useEffect(() => {
+    if (instructions && !payment) {
+      setPayment(instructions);
+    }
+  }, [instructions, payment]);
+
+  const escrowId = payment?.escrowId;
+  const amount = payment ? parseInt(payment.amount) : 0;
+  const isBalancePayment = payment?.leg === "BALANCE";
   // Convert cents to USDC units (6 decimals)
   const amountInUsdcUnits = centsToUsdcUnits(amount);
 
@@ -126,19 +137,20 @@ export function PaymentStep({
 
   // Lock funds in escrow contract
   const lockFunds = useCallback(() => {
+    if (!escrowId) return;
     setState("locking");
     try {
       writeLockFunds({
         address: CONTRACTS.Escrow as Address,
         abi: ESCROW_ABI,
         functionName: "lockFunds",
-        args: [bookingIdBytes32, amountInUsdcUnits],
+        args: [escrowId, amountInUsdcUnits],
       });
     } catch (err) {
       setState("error");
       setError(getErrorMessage(err));
     }
-  }, [writeLockFunds, bookingIdBytes32, amountInUsdcUnits]);
+  }, [writeLockFunds, escrowId, amountInUsdcUnits]);
 
   // Submit confirmed transaction to backend with on-chain verification
   const submitToBackend = useCallback(async (confirmedTxHash: Hash) => {
@@ -146,7 +158,8 @@ export function PaymentStep({
       setState("processing");
 
       // Confirm payment with on-chain escrow verification
-      await confirmPayment.mutateAsync({
+      const confirm = isBalancePayment ? confirmBalancePayment : confirmPayment;
+      await confirm.mutateAsync({
         bookingId,
         escrowTxHash: confirmedTxHash,
       });
@@ -166,7 +179,7 @@ export function PaymentStep({
       setState("error");
       setError(getErrorMessage(err));
     }
-  }, [bookingId, confirmPayment, onSuccess]);
+  }, [bookingId, isBalancePayment, confirmBalancePayment, confirmPayment, onSuccess]);
 
   // Handle approval confirmation - proceed to lock funds
   useEffect(() => {
@@ -251,13 +264,25 @@ export function PaymentStep({
   };
 
   // Loading state
-  if (walletLoading) {
+  if (walletLoading || (instructionsLoading && !payment)) {
     return (
       <div className="space-y-4 py-8">
         <div className="flex justify-center">
           <div className="w-12 h-12 rounded-full bg-surface animate-pulse" />
         </div>
-        <p className="text-center text-text-secondary">Loading wallet...</p>
+        <p className="text-center text-text-secondary">
+          {walletLoading ? "Loading wallet..." : "Loading payment details..."}
+        </p>
+      </div>
+    );
+  }
+
+  if (!payment) {
+    return (
+      <div className="space-y-4 py-4 text-center">
+        <p className="text-text-secondary">
+          {instructionsError ? getErrorMessage(instructionsError) : "Payment details are unavailable."}
+        </p>
       </div>
     );
   }
@@ -500,7 +525,13 @@ export function PaymentStep({
   return (
     <div className="space-y-4">
       <div className="text-center py-4">
-        <p className="text-text-secondary mb-2">Total to Pay</p>
+        <p className="text-text-secondary mb-2">
+          {payment.leg === "BALANCE"
+            ? "Balance Due"
+            : payment.leg === "DEPOSIT"
+            ? "Deposit to Pay"
+            : "Total to Pay"}
+        </p>
         <p className="text-3xl font-bold text-primary">{formatPrice(amount)}</p>
       </div>
 
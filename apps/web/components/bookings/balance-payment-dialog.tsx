@@ -0,0 +1,52 @@
+"use client";
+
+import { useState } from "react";
+import { Dialog } from "@/components/ui/dialog";
+import { PaymentStep } from "@/components/booking/payment-step";
+import { formatDate } from "@/lib/utils";
+import type { Booking } from "@/lib/booking-client";
+
+interface BalancePaymentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  booking: Booking;
+  onSuccess: () => void;
+}
+
+/**
+ * Locks the balance of a deposit booking into its own escrow leg
+ */
+export function BalancePaymentDialog({
+  open,
+  onOpenChange,
+  booking,
+  onSuccess,
+}: BalancePaymentDialogProps) {
+  const [preventClose, setPreventClose] = useState(false);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange} preventClose={preventClose}>
+      <div className="space-y-4">
+        <div>
+          <h2 className="text-xl font-display font-semibold text-text-primary">
+            Pay Balance
+          </h2>
+          {booking.balanceDueAt && (
+            <p className="text-sm text-text-secondary mt-1">
+              Due {formatDate(booking.balanceDueAt)}. Unpaid balances forfeit the deposit.
+            </p>
+          )}
+        </div>
+
+        {open && (
+          <PaymentStep
+            bookingId={booking.id}
+            stylistAddress={booking.stylist.id}
+            onSuccess={onSuccess}
+            onPreventCloseChange={setPreventClose}
+          />
+        )}
+      </div>
+    </Dialog>
+  );
+}
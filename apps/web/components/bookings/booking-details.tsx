@@ -13,9 +13,10 @@ interface BookingDetailsProps {
   booking: Booking;
   onCancel: () => void;
   onBack: () => void;
+  onPayBalance?: () => void;
 }
 
-export function BookingDetails({ booking, onCancel, onBack }: BookingDetailsProps) {
+export function BookingDetails({ booking, onCancel, onBack, onPayBalance }: BookingDetailsProps) {
   const router = useRouter();
   const canCancel = canCancelBooking(booking);
   const startConversation = useStartConversation();
@@ -188,6 +189,30 @@ export function BookingDetails({ booking, onCancel, onBack }: BookingDetailsProp
               </span>
             </div>
           </div>
+          {booking.depositAmountCents && booking.balanceAmountCents && (
+            <div className="space-y-1 text-sm text-text-secondary">
+              <div className="flex justify-between">
+                <span>Deposit</span>
+                <span>{formatPrice(booking.depositAmountCents)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span>Balance{booking.balanceStatus === "PAID" ? " (paid)" : ""}</span>
+                <span>{formatPrice(booking.balanceAmountCents)}</span>
+              </div>
+            </div>
+          )}
+          {booking.balanceStatus === "DUE" && onPayBalance && (
+            <div className="pt-2">
+              <Button onClick={onPayBalance} className="w-full">
+                Pay Balance of {formatPrice(booking.balanceAmountCents!)}
+              </Button>
+              {booking.balanceDueAt && (
+                <p className="text-xs text-text-tertiary text-center mt-1">
+                  Due {formatDate(booking.balanceDueAt)}
+                </p>
+              )}
+            </div>
+          )}
           {booking.status === "CONFIRMED" && (
             <div className="flex items-center gap-2 mt-2 text-sm text-tertiary">
               <svg
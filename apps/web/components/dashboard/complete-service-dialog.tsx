@@ -16,14 +16,32 @@ import { Button } from "../ui/button";
 import { formatPrice, formatDuration } from "../../lib/utils";
 import type { ActiveBooking } from "./active-booking-card";
 
+export interface InstantPayoutEligibility {
+  eligible: boolean;
+  reason: string | null;
+  amountCents: string;
+  score: number;
+  minScore: number;
+}
+
 interface CompleteServiceDialogProps {
   booking: ActiveBooking | null;
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onConfirm: () => void;
   isLoading?: boolean;
+  instantPayoutEligibility?: InstantPayoutEligibility | null;
+  instantPayout?: boolean;
+  onInstantPayoutChange?: (instantPayout: boolean) => void;
 }
 
+const INELIGIBLE_MESSAGES: Record<string, string> = {
+  REPUTATION_TOO_LOW: "Available once your reputation score reaches",
+  BALANCE_UNPAID: "Available once the customer has paid the balance.",
+  INSUFFICIENT_BUFFER: "Instant payouts are temporarily unavailable.",
+  NO_STYLIST_WALLET: "Set up your wallet to receive instant payouts.",
+};
+
 function calculateActualDuration(startTime: string | undefined): number {
   if (!startTime) return 0;
   const start = new Date(startTime).getTime();
@@ -37,6 +55,9 @@ export function CompleteServiceDialog({
   onOpenChange,
   onConfirm,
   isLoading,
+  instantPayoutEligibility,
+  instantPayout = false,
+  onInstantPayoutChange,
 }: CompleteServiceDialogProps) {
   const [actualDuration, setActualDuration] = useState(0);
 
@@ -107,10 +128,43 @@ export function CompleteServiceDialog({
             </div>
           </div>
 
+          {/* Instant Payout */}
+          {instantPayoutEligibility && onInstantPayoutChange && (
+            <label
+              className={`flex items-start gap-3 p-4 border rounded-lg ${
+                instantPayoutEligibility.eligible
+                  ? "border-border-default cursor-pointer"
+                  : "border-border-default opacity-60"
+              }`}
+            >
+              <input
+                type="checkbox"
+                className="mt-1"
+                checked={instantPayout && instantPayoutEligibility.eligible}
+                disabled={!instantPayoutEligibility.eligible || isLoading}
+                onChange={(e) => onInstantPayoutChange(e.target.checked)}
+              />
+              <span className="space-y-1">
+                <span className="block text-body font-semibold text-text-primary">
+                  Get paid now ({formatPrice(Number(instantPayoutEligibility.amountCents))})
+                </span>
+                <span className="block text-body-small text-text-secondary">
+                  {instantPayoutEligibility.eligible
+                    ? "Receive your payout instantly instead of waiting for the customer to confirm."
+                    : instantPayoutEligibility.reason === "REPUTATION_TOO_LOW"
+                      ? `${INELIGIBLE_MESSAGES.REPUTATION_TOO_LOW} ${instantPayoutEligibility.minScore / 100}.`
+                      : INELIGIBLE_MESSAGES[instantPayoutEligibility.reason ?? ""] ??
+                        "Not available for this booking."}
+                </span>
+              </span>
+            </label>
+          )}
+
           <div className="p-3 bg-brand-rose/5 border border-brand-rose/20 rounded-lg">
             <p className="text-body-small text-text-secondary">
-              ℹ️ The customer will be asked to confirm completion. Funds will be
-              released within 24 hours if they don&apos;t respond.
+              {instantPayout && instantPayoutEligibility?.eligible
+                ? "ℹ️ The customer will still be asked to confirm completion."
+                : "ℹ️ The customer will be asked to confirm completion. Funds will be released within 24 hours if they don't respond."}
             </p>
           </div>
 
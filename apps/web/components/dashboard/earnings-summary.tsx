@@ -87,7 +87,11 @@ export function EarningsSummaryCards({ earnings, isLoading }: EarningsSummaryPro
       <SummaryCard
         label="Total Earnings"
         value={formatPrice(earnings.totalEarnings)}
-        subtext={`${earnings.completedBookingsCount} completed bookings`}
+        subtext={`${earnings.completedBookingsCount} completed bookings${
+          earnings.customerRewardDiscounts > 0
+            ? ` · ${formatPrice(earnings.customerRewardDiscounts)} in client rewards`
+            : ""
+        }`}
         variant="primary"
       />
       <SummaryCard
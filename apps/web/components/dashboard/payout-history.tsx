@@ -30,6 +30,11 @@ function PayoutItem({ payout }: { payout: PayoutHistoryItem }) {
         <p className="text-body text-text-primary truncate">
           {payout.serviceName} - {payout.customerName}
         </p>
+        {payout.rewardDiscount > 0 && (
+          <p className="text-caption text-text-tertiary">
+            Client paid {formatPrice(payout.customerPaid)} ({formatPrice(payout.rewardDiscount)} reward discount)
+          </p>
+        )}
       </div>
       <span className="text-body font-semibold text-status-success ml-4">
         + {formatPrice(payout.amount)}
@@ -15,7 +15,7 @@ import {
   type ActiveBooking,
 } from "./active-booking-card";
 import { StartServiceDialog } from "./start-service-dialog";
-import { CompleteServiceDialog } from "./complete-service-dialog";
+import { CompleteServiceDialog, type InstantPayoutEligibility } from "./complete-service-dialog";
 import { CompletionSuccess } from "./completion-success";
 import { authFetch } from "../../lib/auth-client";
 
@@ -30,6 +30,7 @@ export function TodaysBookings() {
   const [successDialogOpen, setSuccessDialogOpen] = useState(false);
   const [completedPayoutAmount, setCompletedPayoutAmount] = useState(0);
   const [completedCustomerName, setCompletedCustomerName] = useState("");
+  const [instantPayout, setInstantPayout] = useState(false);
 
   // Fetch today's active bookings (CONFIRMED or IN_PROGRESS)
   const { data, isLoading, error } = useQuery({
@@ -45,6 +46,19 @@ export function TodaysBookings() {
     refetchInterval: 60000, // Refresh every minute
   });
 
+  // Instant payout eligibility for the booking being completed
+  const { data: instantPayoutEligibility } = useQuery({
+    queryKey: ["instant-payout", selectedBooking?.id],
+    queryFn: async () => {
+      const response = await authFetch(
+        `${API_BASE}/api/v1/bookings/${selectedBooking!.id}/instant-payout`
+      );
+      if (!response.ok) return null; // Not configured - offer the standard payout only
+      return response.json() as Promise<InstantPayoutEligibility>;
+    },
+    enabled: completeDialogOpen && !!selectedBooking,
+  });
+
   // Start service mutation
   const startMutation = useMutation({
     mutationFn: async (bookingId: string) => {
@@ -64,9 +78,10 @@ export function TodaysBookings() {
 
   // Complete service mutation
   const completeMutation = useMutation({
-    mutationFn: async (bookingId: string) => {
+    mutationFn: async ({ bookingId, instantPayout }: { bookingId: string; instantPayout: boolean }) => {
       const response = await authFetch(`${API_BASE}/api/v1/bookings/${bookingId}/complete`, {
         method: "POST",
+        body: JSON.stringify({ instantPayout }),
       });
       if (!response.ok) throw new Error("Failed to complete service");
       return response.json();
@@ -93,6 +108,7 @@ export function TodaysBookings() {
 
   const handleCompleteClick = (booking: ActiveBooking) => {
     setSelectedBooking(booking);
+    setInstantPayout(false);
     setCompleteDialogOpen(true);
   };
 
@@ -104,7 +120,10 @@ export function TodaysBookings() {
 
   const handleCompleteConfirm = () => {
     if (selectedBooking) {
-      completeMutation.mutate(selectedBooking.id);
+      completeMutation.mutate({
+        bookingId: selectedBooking.id,
+        instantPayout: instantPayout && !!instantPayoutEligibility?.eligible,
+      });
     }
   };
 
@@ -163,6 +182,9 @@ export function TodaysBookings() {
         onOpenChange={setCompleteDialogOpen}
         onConfirm={handleCompleteConfirm}
         isLoading={completeMutation.isPending}
+        instantPayoutEligibility={instantPayoutEligibility ?? null}
+        instantPayout={instantPayout}
+        onInstantPayoutChange={setInstantPayout}
       />
 
       {/* Completion Success */}
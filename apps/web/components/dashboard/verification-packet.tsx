@@ -0,0 +1,197 @@
+/**
+ * Verification Packet Component
+ * Stylists upload ID, a selfie and credentials, then submit them for review
+ */
+
+"use client";
+
+import { useRef, useState } from "react";
+import { Button } from "../ui/button";
+import {
+  useRemoveVerificationDocument,
+  useStylistVerification,
+  useSubmitVerification,
+  useUploadVerificationDocument,
+} from "../../hooks/use-dashboard";
+import type { VerificationDocumentType } from "../../lib/dashboard-client";
+
+const DOCUMENT_LABELS: Record<VerificationDocumentType, string> = {
+  GOVERNMENT_ID: "Government ID",
+  SELFIE: "Selfie",
+  CERTIFICATION: "Certification",
+  BUSINESS_REGISTRATION: "Business registration",
+  PORTFOLIO_PROOF: "Portfolio proof",
+};
+
+const STATUS_COPY: Record<string, { label: string; className: string }> = {
+  UNVERIFIED: { label: "Not verified", className: "bg-background-tertiary text-text-secondary" },
+  PENDING: { label: "In review", className: "bg-status-warning/10 text-status-warning" },
+  VERIFIED: { label: "Verified", className: "bg-status-success/10 text-status-success" },
+  SUSPENDED: { label: "Suspended", className: "bg-status-error/10 text-status-error" },
+};
+
+export function VerificationPacket() {
+  const { data, isLoading } = useStylistVerification();
+  const uploadMutation = useUploadVerificationDocument();
+  const removeMutation = useRemoveVerificationDocument();
+  const submitMutation = useSubmitVerification();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pendingType, setPendingType] = useState<VerificationDocumentType | null>(null);
+
+  if (isLoading || !data) {
+    return (
+      <div className="bg-background-primary rounded-card shadow-vlossom p-6">
+        <div className="animate-pulse space-y-3">
+          <div className="h-6 bg-background-secondary rounded w-1/2"></div>
+          <div className="h-20 bg-background-secondary rounded"></div>
+        </div>
+      </div>
+    );
+  }
+
+  const { verificationStatus, packet } = data;
+  const status = STATUS_COPY[verificationStatus];
+  // A rejected packet is closed - the first upload starts a new one
+  const editable =
+    (verificationStatus === "UNVERIFIED" || verificationStatus === "PENDING") && packet?.status !== "SUBMITTED";
+  const documents = packet?.editable ? packet.documents : [];
+  const canAddMore = documents.length < data.maxDocuments;
+  const error = uploadMutation.error || removeMutation.error || submitMutation.error;
+
+  const pickFile = (type: VerificationDocumentType) => {
+    setPendingType(type);
+    fileInputRef.current?.click();
+  };
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file && pendingType) {
+      uploadMutation.mutate({ type: pendingType, file });
+    }
+    // Reset input
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
+  };
+
+  const documentTypes = [...data.requiredDocumentTypes, ...data.credentialDocumentTypes];
+  const missing = packet?.editable
+    ? [
+        ...packet.completeness.missingTypes.map((type) => DOCUMENT_LABELS[type]),
+        ...(packet.completeness.needsCredential ? ["one credential"] : []),
+      ]
+    : [];
+  const canSubmit = Boolean(packet?.editable && packet.completeness.complete);
+
+  return (
+    <div className="bg-background-primary rounded-card shadow-vlossom p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-h4 text-text-primary">Verification</h3>
+        <span className={`px-2 py-1 rounded text-caption ${status.className}`}>{status.label}</span>
+      </div>
+
+      {verificationStatus === "VERIFIED" && (
+        <p className="text-body-small text-text-secondary">
+          Your identity is verified. Verified stylists rank higher in search and can book chairs at
+          properties that only accept verified stylists.
+        </p>
+      )}
+
+      {verificationStatus === "SUSPENDED" && (
+        <p className="text-body-small text-text-secondary">
+          Your account is suspended. Contact support to resolve it.
+        </p>
+      )}
+
+      {packet?.status === "SUBMITTED" && (
+        <p className="text-body-small text-text-secondary">
+          Your documents are with our team. We&apos;ll let you know once they&apos;ve been reviewed.
+        </p>
+      )}
+
+      {packet?.reviewNote && (packet.status === "MORE_INFO_REQUESTED" || packet.status === "REJECTED") && (
+        <div className="p-3 mb-4 bg-status-warning/10 border border-status-warning rounded-lg">
+          <p className="text-body-small text-text-primary">
+            {packet.status === "REJECTED" ? "Your last submission was rejected: " : "We need more information: "}
+            {packet.reviewNote}
+          </p>
+        </div>
+      )}
+
+      {editable && (
+        <div className="space-y-4">
+          <p className="text-body-small text-text-secondary">
+            Upload a government ID, a selfie and at least one certification, business registration or
+            portfolio proof. Only our review team can see these.
+          </p>
+
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/jpeg,image/png,image/webp,application/pdf"
+            onChange={handleFileSelect}
+            className="hidden"
+          />
+
+          <ul className="space-y-2">
+            {documentTypes.map((type) => {
+              const uploaded = documents.filter((document) => document.type === type);
+              return (
+                <li key={type} className="border border-border-default rounded-lg p-3">
+                  <div className="flex items-center justify-between">
+                    <span className="text-body-small text-text-primary">
+                      {DOCUMENT_LABELS[type]}
+                      {data.requiredDocumentTypes.includes(type) && <span className="text-status-error"> *</span>}
+                    </span>
+                    {canAddMore && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => pickFile(type)}
+                        disabled={uploadMutation.isPending}
+                      >
+                        {uploadMutation.isPending && pendingType === type ? "Uploading..." : "+ Add"}
+                      </Button>
+                    )}
+                  </div>
+                  {uploaded.map((document) => (
+                    <div key={document.id} className="flex items-center justify-between mt-2">
+                      <span className="text-caption text-text-tertiary">
+                        {document.format.toUpperCase()} · {Math.ceil(document.bytes / 1024)} KB
+                      </span>
+                      <button
+                        onClick={() => removeMutation.mutate(document.id)}
+                        disabled={removeMutation.isPending}
+                        className="text-caption text-status-error hover:underline"
+                      >
+                        Remove
+                      </button>
+                    </div>
+                  ))}
+                </li>
+              );
+            })}
+          </ul>
+
+          {missing.length > 0 && documents.length > 0 && (
+            <p className="text-caption text-text-tertiary">Still needed: {missing.join(", ")}</p>
+          )}
+
+          <Button
+            className="w-full"
+            onClick={() => submitMutation.mutate()}
+            disabled={!canSubmit || submitMutation.isPending}
+          >
+            {submitMutation.isPending ? "Submitting..." : "Submit for review"}
+          </Button>
+
+          <p className="text-caption text-text-tertiary">
+            JPEG, PNG, WebP or PDF · Max 10MB each
+          </p>
+        </div>
+      )}
+
+      {error && <p className="text-caption text-status-error mt-3">{error.message}</p>}
+    </div>
+  );
+}
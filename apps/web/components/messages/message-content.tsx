@@ -0,0 +1,230 @@
+"use client";
+
+/**
+ * Message Content
+ *
+ * Renders the body of a message bubble by type: text, photos, voice notes,
+ * service and availability cards, booking links, and booking proposals the
+ * customer can accept or decline in place.
+ */
+
+import Link from "next/link";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Icon } from "@/components/icons";
+import { cn, formatDuration, formatPrice } from "@/lib/utils";
+import type {
+  AvailabilityCardPayload,
+  BookingLinkPayload,
+  BookingProposalPayload,
+  ImagePayload,
+  Message,
+  ServiceCardPayload,
+  VoiceNotePayload,
+} from "@/lib/messages-client";
+
+interface MessageContentProps {
+  message: Message;
+  onRespondToProposal?: (messageId: string, accept: boolean) => void;
+  isResponding?: boolean;
+}
+
+const PROPOSAL_STATUS_LABELS = {
+  PENDING: "Awaiting reply",
+  ACCEPTED: "Accepted",
+  DECLINED: "Declined",
+  EXPIRED: "Expired",
+} as const;
+
+function Caption({ message, fallback }: { message: Message; fallback: string }) {
+  // The server stores a generated summary when there's no caption - don't repeat it
+  if (!message.content || message.content === fallback) return null;
+  return <p className="text-sm whitespace-pre-wrap break-words mt-2">{message.content}</p>;
+}
+
+function CardShell({ isOwn, children }: { isOwn: boolean; children: React.ReactNode }) {
+  return (
+    <div
+      className={cn(
+        "rounded-xl p-3 min-w-[220px]",
+        isOwn ? "bg-white/15" : "bg-background-primary border border-border-default"
+      )}
+    >
+      {children}
+    </div>
+  );
+}
+
+export function MessageContent({ message, onRespondToProposal, isResponding }: MessageContentProps) {
+  const { isOwn } = message;
+  const muted = isOwn ? "text-white/70" : "text-text-muted";
+
+  switch (message.type) {
+    case "IMAGE": {
+      const image = message.payload as ImagePayload;
+      return (
+        <div>
+          <a href={image.url} target="_blank" rel="noopener noreferrer">
+            <img
+              src={image.url}
+              alt="Shared photo"
+              width={image.width}
+              height={image.height}
+              className="rounded-xl max-h-72 w-auto object-cover"
+            />
+          </a>
+          <Caption message={message} fallback="Sent a photo" />
+        </div>
+      );
+    }
+
+    case "VOICE_NOTE": {
+      const voice = message.payload as VoiceNotePayload;
+      return (
+        <div>
+          <audio controls preload="metadata" src={voice.url} className="max-w-[240px]" />
+          {voice.durationSeconds !== undefined && (
+            <p className={cn("text-xs mt-1", muted)}>
+              {Math.floor(voice.durationSeconds / 60)}:
+              {String(Math.round(voice.durationSeconds % 60)).padStart(2, "0")}
+            </p>
+          )}
+          <Caption message={message} fallback="Sent a voice note" />
+        </div>
+      );
+    }
+
+    case "SERVICE_CARD": {
+      const service = message.payload as ServiceCardPayload;
+      return (
+        <div>
+          <CardShell isOwn={isOwn}>
+            <div className="flex items-center gap-2 mb-1">
+              <Icon name="scissors" size="sm" />
+              <span className="font-semibold text-sm">{service.name}</span>
+            </div>
+            <p className={cn("text-xs", muted)}>
+              {service.category} · {formatDuration(service.estimatedDurationMin)}
+            </p>
+            <p className="text-sm font-medium mt-2">{formatPrice(service.priceAmountCents)}</p>
+            <Link
+              href={`/stylists/${service.stylistId}`}
+              className="text-xs underline mt-2 inline-block"
+            >
+              View stylist
+            </Link>
+          </CardShell>
+          <Caption message={message} fallback={`Shared a service: ${service.name}`} />
+        </div>
+      );
+    }
+
+    case "AVAILABILITY_CARD": {
+      const availability = message.payload as AvailabilityCardPayload;
+      return (
+        <div>
+          <CardShell isOwn={isOwn}>
+            <div className="flex items-center gap-2 mb-2">
+              <Icon name="calendar" size="sm" />
+              <span className="font-semibold text-sm">
+                {availability.serviceName ? `Open times for ${availability.serviceName}` : "Open times"}
+              </span>
+            </div>
+            <ul className="space-y-1">
+              {availability.slots.map((slot) => (
+                <li key={slot.startTime} className="text-sm">
+                  {format(new Date(slot.startTime), "EEE d MMM, h:mm a")} –{" "}
+                  {format(new Date(slot.endTime), "h:mm a")}
+                </li>
+              ))}
+            </ul>
+          </CardShell>
+          <Caption message={message} fallback="Shared available times" />
+        </div>
+      );
+    }
+
+    case "BOOKING_LINK": {
+      const booking = message.payload as BookingLinkPayload;
+      return (
+        <div>
+          <Link href={`/bookings/${booking.bookingId}`}>
+            <CardShell isOwn={isOwn}>
+              <div className="flex items-center gap-2 mb-1">
+                <Icon name="receipt" size="sm" />
+                <span className="font-semibold text-sm">{booking.serviceType}</span>
+              </div>
+              <p className={cn("text-xs", muted)}>
+                {format(new Date(booking.scheduledStartTime), "EEE d MMM, h:mm a")}
+              </p>
+            </CardShell>
+          </Link>
+          <Caption message={message} fallback={`Shared a booking: ${booking.serviceType}`} />
+        </div>
+      );
+    }
+
+    case "BOOKING_PROPOSAL": {
+      const proposal = message.payload as BookingProposalPayload;
+      const status = message.proposalStatus ?? "PENDING";
+      const canRespond = !isOwn && status === "PENDING" && onRespondToProposal;
+
+      return (
+        <div>
+          <CardShell isOwn={isOwn}>
+            <div className="flex items-center justify-between gap-2 mb-1">
+              <div className="flex items-center gap-2">
+                <Icon name="calendar" size="sm" />
+                <span className="font-semibold text-sm">{proposal.serviceName}</span>
+              </div>
+              <span className={cn("text-xs", muted)}>{PROPOSAL_STATUS_LABELS[status]}</span>
+            </div>
+            <p className="text-sm">
+              {format(new Date(proposal.scheduledStartTime), "EEE d MMM, h:mm a")} ·{" "}
+              {formatDuration(proposal.estimatedDurationMin)}
+            </p>
+            <p className={cn("text-xs mt-1", muted)}>
+              {proposal.locationType === "CUSTOMER_HOME" ? "At your place" : "At the stylist's"} ·{" "}
+              {proposal.locationAddress}
+            </p>
+            <p className="text-sm font-medium mt-2">{formatPrice(proposal.quoteAmountCents)}</p>
+
+            {canRespond && (
+              <div className="flex gap-2 mt-3">
+                <Button
+                  size="sm"
+                  variant="primary"
+                  disabled={isResponding}
+                  onClick={() => onRespondToProposal(message.id, true)}
+                >
+                  Accept
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  disabled={isResponding}
+                  onClick={() => onRespondToProposal(message.id, false)}
+                >
+                  Decline
+                </Button>
+              </div>
+            )}
+
+            {status === "ACCEPTED" && message.proposalBookingId && (
+              <Link
+                href={`/bookings/${message.proposalBookingId}`}
+                className="text-xs underline mt-2 inline-block"
+              >
+                View booking
+              </Link>
+            )}
+          </CardShell>
+          <Caption message={message} fallback={`Proposed a booking: ${proposal.serviceName}`} />
+        </div>
+      );
+    }
+
+    default:
+      return <p className="text-sm whitespace-pre-wrap break-words">{message.content}</p>;
+  }
+}
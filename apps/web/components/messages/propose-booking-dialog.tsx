@@ -0,0 +1,167 @@
+/**
+ * Propose Booking Dialog
+ * Stylist offers the customer one of their services at a set time, from the
+ * conversation. The customer accepts it into a booking from the message.
+ */
+
+"use client";
+
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { useStylistServices } from "@/hooks/use-dashboard";
+import { formatDuration, formatPrice } from "@/lib/utils";
+import type { SendMessageInput } from "@/lib/messages-client";
+
+type LocationType = "STYLIST_BASE" | "CUSTOMER_HOME";
+
+interface ProposeBookingDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (input: Extract<SendMessageInput, { type: "BOOKING_PROPOSAL" }>) => Promise<void>;
+  isLoading?: boolean;
+}
+
+const inputClassName =
+  "w-full px-3 py-2 border border-border-default rounded-lg focus:outline-none focus:ring-2 focus:ring-brand-rose";
+
+export function ProposeBookingDialog({
+  open,
+  onOpenChange,
+  onSubmit,
+  isLoading,
+}: ProposeBookingDialogProps) {
+  const { data } = useStylistServices();
+  const services = data?.services.filter((s) => s.isActive) ?? [];
+
+  const [serviceId, setServiceId] = useState("");
+  const [startTime, setStartTime] = useState("");
+  const [locationType, setLocationType] = useState<LocationType>("STYLIST_BASE");
+  const [locationAddress, setLocationAddress] = useState("");
+  const [note, setNote] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const selectedService = services.find((s) => s.id === serviceId);
+  const canSubmit = !!serviceId && !!startTime && locationAddress.trim() !== "" && !isLoading;
+
+  const handleSubmit = async () => {
+    setError(null);
+    try {
+      await onSubmit({
+        type: "BOOKING_PROPOSAL",
+        serviceId,
+        // datetime-local is in the user's timezone
+        scheduledStartTime: new Date(startTime).toISOString(),
+        locationType,
+        locationAddress: locationAddress.trim(),
+        content: note.trim() || undefined,
+      });
+      setServiceId("");
+      setStartTime("");
+      setNote("");
+      onOpenChange(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to send proposal");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Propose a Booking</DialogTitle>
+          <DialogDescription>
+            They can accept it straight from the chat - it&apos;s booked once they pay.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-text-secondary mb-1">Service</label>
+            <select
+              value={serviceId}
+              onChange={(e) => setServiceId(e.target.value)}
+              className={inputClassName}
+            >
+              <option value="">Choose a service</option>
+              {services.map((service) => (
+                <option key={service.id} value={service.id}>
+                  {service.name} · {formatPrice(service.priceAmountCents)} ·{" "}
+                  {formatDuration(service.estimatedDurationMin)}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-text-secondary mb-1">Date & time</label>
+            <input
+              type="datetime-local"
+              value={startTime}
+              onChange={(e) => setStartTime(e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-text-secondary mb-1">Where</label>
+            <select
+              value={locationType}
+              onChange={(e) => setLocationType(e.target.value as LocationType)}
+              className={inputClassName}
+            >
+              <option value="STYLIST_BASE">At my place</option>
+              <option value="CUSTOMER_HOME">At the customer&apos;s</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-text-secondary mb-1">Address</label>
+            <input
+              type="text"
+              value={locationAddress}
+              onChange={(e) => setLocationAddress(e.target.value)}
+              placeholder="Street address"
+              className={inputClassName}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-text-secondary mb-1">Note (optional)</label>
+            <input
+              type="text"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              maxLength={500}
+              className={inputClassName}
+            />
+          </div>
+
+          {selectedService && (
+            <p className="text-sm text-text-secondary">
+              Quote: {formatPrice(selectedService.priceAmountCents)}
+            </p>
+          )}
+
+          {error && <p className="text-sm text-status-error">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button variant="primary" onClick={handleSubmit} disabled={!canSubmit}>
+            {isLoading ? "Sending..." : "Send Proposal"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
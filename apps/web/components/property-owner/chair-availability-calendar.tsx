@@ -0,0 +1,168 @@
+/**
+ * Chair Availability Calendar
+ *
+ * Free / busy grid for every chair at a property, one row per chair.
+ * Shown to property owners on their dashboard and to stylists choosing a
+ * chair. Periods follow the rental mode: hourly slots within opening hours,
+ * or whole days, weeks (7 days) and months (30 days). Times are UTC.
+ */
+
+"use client";
+
+import * as React from "react";
+import { Icon } from "@/components/icons";
+import { cn } from "@/lib/utils";
+import {
+  usePropertyAvailability,
+  type AvailabilityBlock,
+  type AvailabilityMode,
+  type DateRange,
+} from "@/hooks/use-properties";
+
+const MODE_LABELS: Record<AvailabilityMode, string> = {
+  PER_HOUR: "Hourly",
+  PER_DAY: "Daily",
+  PER_WEEK: "Weekly",
+  PER_MONTH: "Monthly",
+};
+
+const STATUS_STYLES: Record<AvailabilityBlock["status"], string> = {
+  FREE: "bg-status-success/20 border-status-success/40",
+  BUSY: "bg-brand-rose/70 border-brand-rose",
+  CLOSED: "bg-background-tertiary border-border-default",
+};
+
+function formatBlockLabel(block: AvailabilityBlock, mode: AvailabilityMode): string {
+  const start = new Date(block.start);
+  const date = start.toLocaleDateString("en-ZA", { day: "numeric", month: "short", timeZone: "UTC" });
+  if (mode !== "PER_HOUR") {
+    return date;
+  }
+  const time = start.toLocaleTimeString("en-ZA", { hour: "2-digit", minute: "2-digit", timeZone: "UTC" });
+  return `${date} ${time}`;
+}
+
+function describeBlock(block: AvailabilityBlock, mode: AvailabilityMode): string {
+  const label = formatBlockLabel(block, mode);
+  if (block.status !== "BUSY") {
+    return `${label}: ${block.status.toLowerCase()}`;
+  }
+  const reasons = block.busy.map((b) =>
+    b.source === "EXCEPTION" ? b.note || "Blocked" : b.source === "RENTAL" ? "Rented" : "Booked"
+  );
+  return `${label}: ${[...new Set(reasons)].join(", ")}`;
+}
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+interface ChairAvailabilityCalendarProps {
+  propertyId: string;
+  range: DateRange;
+  initialMode?: AvailabilityMode;
+  /** Called with the chair and period when a free block is picked */
+  onSelectBlock?: (chairId: string, block: AvailabilityBlock) => void;
+  className?: string;
+}
+
+export function ChairAvailabilityCalendar({
+  propertyId,
+  range,
+  initialMode = "PER_DAY",
+  onSelectBlock,
+  className,
+}: ChairAvailabilityCalendarProps) {
+  const [mode, setMode] = React.useState<AvailabilityMode>(initialMode);
+  const { data, isLoading, error } = usePropertyAvailability(propertyId, range, mode);
+  const chairs = data?.availability.chairs ?? [];
+
+  return (
+    <div className={cn("space-y-4", className)}>
+      {/* Mode Toggle */}
+      <div className="flex flex-wrap items-center gap-2" role="tablist" aria-label="Rental mode">
+        {(Object.keys(MODE_LABELS) as AvailabilityMode[]).map((m) => (
+          <button
+            key={m}
+            role="tab"
+            aria-selected={mode === m}
+            onClick={() => setMode(m)}
+            className={cn(
+              "px-3 py-1.5 text-caption font-medium rounded-full transition-colors",
+              mode === m
+                ? "bg-brand-rose text-white"
+                : "bg-background-tertiary text-text-secondary hover:bg-background-primary"
+            )}
+          >
+            {MODE_LABELS[m]}
+          </button>
+        ))}
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-2">
+          {[0, 1, 2].map((i) => (
+            <div key={i} className="h-10 skeleton-shimmer rounded" />
+          ))}
+        </div>
+      ) : error ? (
+        <p className="text-caption text-status-error">
+          {error instanceof Error ? error.message : "Failed to load availability"}
+        </p>
+      ) : chairs.length === 0 ? (
+        <div className="py-8 text-center">
+          <Icon name="calendar" size="2xl" className="text-text-muted mx-auto mb-2" />
+          <p className="text-body text-text-secondary">No chairs to show</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {chairs.map((chair) => (
+            <div key={chair.chairId}>
+              <div className="flex items-center justify-between mb-1">
+                <p className="text-body text-text-primary">{chair.name}</p>
+                {(!chair.bookable || !chair.modeEnabled) && (
+                  <span className="text-caption text-text-tertiary">
+                    {!chair.bookable ? "Unavailable" : `${MODE_LABELS[mode]} rental not offered`}
+                  </span>
+                )}
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {chair.blocks.map((block) => {
+                  const selectable =
+                    !!onSelectBlock && chair.bookable && chair.modeEnabled && block.status === "FREE";
+                  return (
+                    <button
+                      key={block.start}
+                      type="button"
+                      title={describeBlock(block, mode)}
+                      aria-label={describeBlock(block, mode)}
+                      disabled={!selectable}
+                      onClick={() => onSelectBlock?.(chair.chairId, block)}
+                      className={cn(
+                        "h-6 min-w-[1.5rem] px-1 rounded border text-[10px] text-text-secondary",
+                        STATUS_STYLES[block.status],
+                        selectable ? "cursor-pointer hover:ring-2 hover:ring-brand-rose" : "cursor-default"
+                      )}
+                    >
+                      {mode === "PER_HOUR" ? new Date(block.start).getUTCHours() : ""}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+
+          {/* Legend */}
+          <div className="flex items-center gap-4 pt-2 text-caption text-text-secondary">
+            {(["FREE", "BUSY", "CLOSED"] as const).map((status) => (
+              <span key={status} className="flex items-center gap-1.5">
+                <span className={cn("inline-block h-3 w-3 rounded border", STATUS_STYLES[status])} />
+                {status.charAt(0) + status.slice(1).toLowerCase()}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+/**
+ * Chair Utilisation Table
+ *
+ * Owner's view of how busy each chair was and what it earned over a range.
+ * Revenue is what the owner is paid after the platform fee, from rentals and
+ * per-booking chair fees, whether settled yet or still in escrow.
+ */
+
+"use client";
+
+import * as React from "react";
+import { Icon } from "@/components/icons";
+import { cn } from "@/lib/utils";
+import type { PropertyUtilisation } from "@/hooks/use-properties";
+
+// Format cents to ZAR
+function formatPrice(cents: number): string {
+  return `R ${(cents / 100).toLocaleString("en-ZA", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+}
+
+function formatPercent(ratio: number): string {
+  return `${Math.round(ratio * 100)}%`;
+}
+
+// =============================================================================
+// COMPONENT
+// =============================================================================
+
+interface ChairUtilisationTableProps {
+  utilisation?: PropertyUtilisation;
+  isLoading?: boolean;
+  className?: string;
+}
+
+export function ChairUtilisationTable({
+  utilisation,
+  isLoading,
+  className,
+}: ChairUtilisationTableProps) {
+  if (isLoading) {
+    return (
+      <div className={cn("space-y-2", className)}>
+        {[0, 1, 2].map((i) => (
+          <div key={i} className="h-12 skeleton-shimmer rounded" />
+        ))}
+      </div>
+    );
+  }
+
+  if (!utilisation || utilisation.chairs.length === 0) {
+    return (
+      <div className={cn("py-8 text-center", className)}>
+        <Icon name="empty" size="2xl" className="text-text-muted mx-auto mb-2" />
+        <p className="text-body text-text-secondary">No chairs yet</p>
+      </div>
+    );
+  }
+
+  const rows = [
+    ...utilisation.chairs.map((chair) => ({ key: chair.chairId, label: chair.name, ...chair })),
+    { key: "totals", label: "All chairs", ...utilisation.totals },
+  ];
+
+  return (
+    <div className={cn("overflow-x-auto", className)}>
+      <table className="w-full text-left">
+        <thead>
+          <tr className="text-caption text-text-secondary border-b border-border-default">
+            <th className="py-2 pr-4 font-medium">Chair</th>
+            <th className="py-2 pr-4 font-medium">Utilisation</th>
+            <th className="py-2 pr-4 font-medium text-right">Booked hours</th>
+            <th className="py-2 pr-4 font-medium text-right">Rentals</th>
+            <th className="py-2 pr-4 font-medium text-right">Bookings</th>
+            <th className="py-2 font-medium text-right">Revenue</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr
+              key={row.key}
+              className={cn(
+                "border-b border-border-default last:border-0",
+                row.key === "totals" && "font-medium"
+              )}
+            >
+              <td className="py-3 pr-4 text-body text-text-primary">{row.label}</td>
+              <td className="py-3 pr-4">
+                <div className="flex items-center gap-2">
+                  <div className="h-2 w-24 rounded-full bg-background-tertiary overflow-hidden">
+                    <div
+                      className="h-full bg-brand-rose"
+                      style={{ width: formatPercent(row.utilisation) }}
+                    />
+                  </div>
+                  <span className="text-caption text-text-secondary">
+                    {formatPercent(row.utilisation)}
+                  </span>
+                </div>
+              </td>
+              <td className="py-3 pr-4 text-body text-text-primary text-right">
+                {row.busyHours.toFixed(1)} / {row.openHours.toFixed(0)}
+              </td>
+              <td className="py-3 pr-4 text-body text-text-primary text-right">
+                {row.rentalCount}
+              </td>
+              <td className="py-3 pr-4 text-body text-text-primary text-right">
+                {row.reservationCount}
+              </td>
+              <td className="py-3 text-body text-status-success text-right">
+                {formatPrice(row.totalRevenueCents)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
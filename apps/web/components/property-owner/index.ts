@@ -6,4 +6,6 @@
 export { PropertyImageUpload } from "./property-image-upload";
 export { AmenityPicker, CHAIR_AMENITIES } from "./amenity-picker";
 export { ChairFormDialog } from "./chair-form-dialog";
+export { ChairAvailabilityCalendar } from "./chair-availability-calendar";
+export { ChairUtilisationTable } from "./chair-utilisation-table";
 export type { AmenityId } from "./amenity-picker";
@@ -9,6 +9,8 @@ import { useState, useEffect, useCallback } from "react";
 import { useAccount } from "wagmi";
 import { Button } from "../ui/button";
 import { useSiwe } from "../../hooks/use-siwe";
+import { useStepUp } from "../../hooks/use-step-up";
+import { StepUpDialog } from "../auth/step-up-dialog";
 import {
   getLinkedAccounts,
   unlinkAccount,
@@ -49,6 +51,7 @@ export function LinkedAccounts({ className = "" }: LinkedAccountsProps) {
 
   const { address: connectedAddress, isConnected } = useAccount();
   const { linkCurrentWallet, status: siweStatus, error: siweError, reset: resetSiwe } = useSiwe();
+  const { requestStepUp, stepUpDialogProps } = useStepUp();
 
   // Fetch linked accounts
   const fetchAccounts = useCallback(async () => {
@@ -76,10 +79,14 @@ export function LinkedAccounts({ className = "" }: LinkedAccountsProps) {
       return;
     }
 
+    // Sign-in method changes need a fresh step-up
+    const stepUpToken = await requestStepUp("LINKED_ACCOUNT");
+    if (!stepUpToken) return;
+
     try {
       setUnlinkingId(accountId);
       setError(null);
-      await unlinkAccount(accountId);
+      await unlinkAccount(accountId, stepUpToken);
       await fetchAccounts();
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to unlink account");
@@ -91,7 +98,10 @@ export function LinkedAccounts({ className = "" }: LinkedAccountsProps) {
   // Handle linking a new wallet
   const handleLinkWallet = async () => {
     resetSiwe();
-    const result = await linkCurrentWallet();
+    const stepUpToken = await requestStepUp("LINKED_ACCOUNT");
+    if (!stepUpToken) return;
+
+    const result = await linkCurrentWallet(stepUpToken);
     if (result) {
       await fetchAccounts();
     }
@@ -220,6 +230,8 @@ export function LinkedAccounts({ className = "" }: LinkedAccountsProps) {
           </p>
         </div>
       )}
+
+      <StepUpDialog {...stepUpDialogProps} />
     </div>
   );
 }
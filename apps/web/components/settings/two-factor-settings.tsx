@@ -0,0 +1,352 @@
+/**
+ * Two-Factor Settings Component
+ * Enroll an authenticator app or SMS, manage recovery codes, and set the
+ * transfer amount that needs step-up
+ */
+
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { Badge } from "../ui/badge";
+import { CopyButton } from "../ui/copy-button";
+import { toast } from "../../hooks/use-toast";
+import { useStepUp } from "../../hooks/use-step-up";
+import { StepUpDialog } from "../auth/step-up-dialog";
+import {
+  getTwoFactorStatus,
+  startTotpEnrollment,
+  startSmsEnrollment,
+  confirmTwoFactor,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+  updateTransferThreshold,
+  startStepUp,
+  StepUpRequiredError,
+  type TwoFactorStatus,
+  type TotpEnrollment,
+} from "../../lib/two-factor-client";
+
+type Enrollment = { method: "TOTP"; totp: TotpEnrollment } | { method: "SMS"; phone: string };
+
+type Manage = "disable" | "regenerate";
+
+const USDC_DECIMALS = 1_000_000;
+
+export function TwoFactorSettings() {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isBusy, setIsBusy] = useState(false);
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [phone, setPhone] = useState("");
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [manage, setManage] = useState<Manage | null>(null);
+  const [threshold, setThreshold] = useState("");
+  const { requestStepUp, stepUpDialogProps } = useStepUp();
+
+  const load = useCallback(async () => {
+    try {
+      const result = await getTwoFactorStatus();
+      setStatus(result);
+      setThreshold(String(Number(result.transferStepUpThreshold) / USDC_DECIMALS));
+    } catch (err) {
+      toast.error("Failed to load two-factor settings", err instanceof Error ? err.message : "Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const run = async (action: () => Promise<void>, failure: string) => {
+    setIsBusy(true);
+    try {
+      await action();
+    } catch (err) {
+      toast.error(failure, err instanceof Error ? err.message : "Please try again.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleStartTotp = () =>
+    run(async () => {
+      const totp = await startTotpEnrollment();
+      setEnrollment({ method: "TOTP", totp });
+      setCode("");
+    }, "Failed to start setup");
+
+  const handleStartSms = () =>
+    run(async () => {
+      const result = await startSmsEnrollment(phone.trim());
+      setEnrollment({ method: "SMS", phone: result.phone });
+      setCode("");
+      toast.success("Code sent", `We texted a code to ${result.phone}.`);
+    }, "Failed to send code");
+
+  const handleConfirm = () =>
+    run(async () => {
+      const result = await confirmTwoFactor(code.trim());
+      setRecoveryCodes(result.recoveryCodes);
+      setEnrollment(null);
+      setCode("");
+      toast.success("Two-factor is on", "You'll be asked for a code when you sign in.");
+      await load();
+    }, "Failed to confirm setup");
+
+  const handleStartManage = (next: Manage) =>
+    run(async () => {
+      // SMS users need a fresh code texted to them
+      if (status?.method === "SMS") {
+        await startStepUp();
+      }
+      setManage(next);
+      setCode("");
+    }, "Failed to send code");
+
+  const handleManage = () =>
+    run(async () => {
+      const value = code.trim();
+      const input = /^\d{6}$/.test(value) ? { code: value } : { recoveryCode: value };
+
+      if (manage === "disable") {
+        await disableTwoFactor(input);
+        toast.success("Two-factor is off");
+      } else {
+        setRecoveryCodes(await regenerateRecoveryCodes(input));
+        toast.success("New recovery codes ready", "Your old codes no longer work.");
+      }
+
+      setManage(null);
+      setCode("");
+      await load();
+    }, manage === "disable" ? "Failed to turn off two-factor" : "Failed to replace recovery codes");
+
+  const handleSaveThreshold = () =>
+    run(async () => {
+      const units = Math.round(parseFloat(threshold) * USDC_DECIMALS).toString();
+
+      try {
+        await updateTransferThreshold(units);
+      } catch (err) {
+        // Raising the limit is itself a step-up action
+        if (!(err instanceof StepUpRequiredError)) throw err;
+        const stepUpToken = await requestStepUp("TRANSFER");
+        if (!stepUpToken) return;
+        await updateTransferThreshold(units, stepUpToken);
+      }
+
+      toast.success("Limit updated");
+      await load();
+    }, "Failed to update limit");
+
+  if (isLoading) {
+    return (
+      <div className="animate-pulse space-y-4">
+        <div className="h-16 bg-background-secondary rounded" />
+      </div>
+    );
+  }
+
+  const codeIsValid = /^\d{6}$/.test(code.trim());
+
+  return (
+    <div className="space-y-4">
+      {/* Recovery codes - shown once after enrolling or replacing them */}
+      {recoveryCodes && (
+        <div className="p-4 rounded-lg border-2 border-brand-rose bg-brand-rose/5 space-y-3">
+          <p className="font-medium">Save your recovery codes</p>
+          <p className="text-sm text-text-secondary">
+            Each code signs you in once if you lose your phone. We won&apos;t show them again.
+          </p>
+          <div className="grid grid-cols-2 gap-2 font-mono text-sm">
+            {recoveryCodes.map((recoveryCode) => (
+              <span key={recoveryCode}>{recoveryCode}</span>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <CopyButton
+              textToCopy={recoveryCodes.join("\n")}
+              successMessage="Recovery codes copied"
+              variant="outline"
+              size="sm"
+            />
+            <Button size="sm" onClick={() => setRecoveryCodes(null)}>
+              I&apos;ve saved them
+            </Button>
+          </div>
+          {status?.required && (
+            <p className="text-sm text-text-secondary">
+              Sign out and back in with your code to use admin tools.
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Status */}
+      <div className="flex items-center justify-between p-4 rounded-lg bg-background-secondary">
+        <div>
+          <p className="font-medium flex items-center gap-2">
+            2FA Status
+            {status?.enabled ? <Badge variant="success">On</Badge> : <Badge variant="secondary">Off</Badge>}
+            {status?.required && <Badge variant="warning">Required</Badge>}
+          </p>
+          <p className="text-sm text-text-secondary">
+            {status?.enabled
+              ? status.method === "SMS"
+                ? `Codes texted to ${status.phone}`
+                : "Codes from your authenticator app"
+              : "Add a code from your phone when you sign in"}
+          </p>
+          {status?.enabled && (
+            <p className="text-xs text-text-muted">{status.recoveryCodesRemaining} recovery codes left</p>
+          )}
+        </div>
+      </div>
+
+      {/* Enroll */}
+      {!status?.enabled && !enrollment && (
+        <div className="space-y-3">
+          <Button variant="outline" className="w-full" onClick={handleStartTotp} loading={isBusy}>
+            Use an authenticator app
+          </Button>
+          <div className="flex gap-2">
+            <Input
+              type="tel"
+              placeholder="+27821234567"
+              value={phone}
+              onChange={(e) => setPhone(e.target.value)}
+              aria-label="Phone number for SMS codes"
+            />
+            <Button
+              variant="outline"
+              onClick={handleStartSms}
+              loading={isBusy}
+              disabled={!/^\+[1-9]\d{7,14}$/.test(phone.trim())}
+            >
+              Use SMS
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {enrollment && (
+        <div className="space-y-3 p-4 rounded-lg border border-border-subtle">
+          {enrollment.method === "TOTP" ? (
+            <>
+              <p className="text-sm text-text-secondary">
+                Add Vlossom to your authenticator app with this key, then enter the 6-digit code it shows.
+              </p>
+              <div className="flex items-center gap-2">
+                <code className="text-sm break-all">{enrollment.totp.secret}</code>
+                <CopyButton textToCopy={enrollment.totp.secret} successMessage="Key copied" variant="ghost" size="sm" />
+              </div>
+              <a href={enrollment.totp.otpauthUrl} className="text-sm text-brand-rose underline">
+                Open in authenticator app
+              </a>
+            </>
+          ) : (
+            <p className="text-sm text-text-secondary">Enter the 6-digit code we texted to {enrollment.phone}.</p>
+          )}
+          <Label htmlFor="two-factor-code">Verification code</Label>
+          <Input
+            id="two-factor-code"
+            inputMode="numeric"
+            autoComplete="one-time-code"
+            maxLength={6}
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+          />
+          <div className="flex gap-2">
+            <Button variant="ghost" onClick={() => setEnrollment(null)} disabled={isBusy}>
+              Cancel
+            </Button>
+            <Button onClick={handleConfirm} loading={isBusy} disabled={!codeIsValid}>
+              Turn on 2FA
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Manage */}
+      {status?.enabled && !manage && (
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => handleStartManage("regenerate")} loading={isBusy}>
+            Replace recovery codes
+          </Button>
+          {!status.required && (
+            <Button
+              variant="destructive-outline"
+              size="sm"
+              onClick={() => handleStartManage("disable")}
+              loading={isBusy}
+            >
+              Turn off
+            </Button>
+          )}
+        </div>
+      )}
+
+      {manage && (
+        <div className="space-y-3 p-4 rounded-lg border border-border-subtle">
+          <Label htmlFor="two-factor-manage-code">
+            {status?.method === "SMS" ? "Code we texted you" : "Code from your authenticator app"}, or a recovery code
+          </Label>
+          <Input
+            id="two-factor-manage-code"
+            autoComplete="one-time-code"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+          />
+          <div className="flex gap-2">
+            <Button variant="ghost" onClick={() => setManage(null)} disabled={isBusy}>
+              Cancel
+            </Button>
+            <Button
+              variant={manage === "disable" ? "destructive" : "primary"}
+              onClick={handleManage}
+              loading={isBusy}
+              disabled={!code.trim()}
+            >
+              {manage === "disable" ? "Turn off 2FA" : "Replace codes"}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Step-up limit for transfers */}
+      <div className="p-4 rounded-lg bg-background-secondary space-y-2">
+        <Label htmlFor="step-up-threshold">Verify transfers from (USDC)</Label>
+        <p className="text-xs text-text-secondary">
+          Transfers of this amount or more ask you to verify it&apos;s you. Withdrawals always do.
+        </p>
+        <div className="flex gap-2">
+          <Input
+            id="step-up-threshold"
+            type="number"
+            min="0"
+            step="any"
+            inputMode="decimal"
+            value={threshold}
+            onChange={(e) => setThreshold(e.target.value)}
+          />
+          <Button
+            variant="outline"
+            onClick={handleSaveThreshold}
+            loading={isBusy}
+            disabled={!threshold || parseFloat(threshold) < 0}
+          >
+            Save
+          </Button>
+        </div>
+      </div>
+
+      <StepUpDialog {...stepUpDialogProps} />
+    </div>
+  );
+}
@@ -0,0 +1,258 @@
+/**
+ * Wallet Guardians Component
+ * Manage recovery guardians, and act on recoveries you own or guard
+ */
+
+"use client";
+
+import { useState, useEffect, useCallback } from "react";
+import Link from "next/link";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import { Badge } from "../ui/badge";
+import { toast } from "../../hooks/use-toast";
+import { useStepUp } from "../../hooks/use-step-up";
+import { StepUpDialog } from "../auth/step-up-dialog";
+import {
+  getGuardians,
+  getRecoveries,
+  addGuardian,
+  removeGuardian,
+  approveRecovery,
+  cancelRecovery,
+  type WalletGuardians as WalletGuardiansData,
+  type WalletRecovery,
+} from "../../lib/recovery-client";
+
+function formatAddress(address: string): string {
+  if (address.length < 10) return address;
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleString("en-ZA", {
+    day: "numeric",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+export function WalletGuardians() {
+  const [data, setData] = useState<WalletGuardiansData | null>(null);
+  const [recoveries, setRecoveries] = useState<WalletRecovery[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [form, setForm] = useState({ address: "", label: "" });
+  const [isAdding, setIsAdding] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const { requestStepUp, stepUpDialogProps } = useStepUp();
+
+  const load = useCallback(async () => {
+    try {
+      const [guardians, all] = await Promise.all([getGuardians(), getRecoveries()]);
+      setData(guardians);
+      setRecoveries(all);
+    } catch (err) {
+      toast.error("Failed to load guardians", err instanceof Error ? err.message : "Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleAdd = async () => {
+    if (!/^0x[a-fA-F0-9]{40}$/.test(form.address.trim())) {
+      toast.error("Invalid address", "Enter the guardian's wallet address (0x...).");
+      return;
+    }
+
+    // Guardian changes need a fresh step-up
+    const stepUpToken = await requestStepUp("GUARDIAN");
+    if (!stepUpToken) return;
+
+    setIsAdding(true);
+    try {
+      await addGuardian(form.address.trim(), form.label.trim(), stepUpToken);
+      toast.success("Guardian added", "They can now help you recover your wallet.");
+      setForm({ address: "", label: "" });
+      await load();
+    } catch (err) {
+      toast.error("Failed to add guardian", err instanceof Error ? err.message : "Please try again.");
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const handleRemove = async (guardianId: string) => {
+    const stepUpToken = await requestStepUp("GUARDIAN");
+    if (!stepUpToken) return;
+
+    await runAction(guardianId, () => removeGuardian(guardianId, stepUpToken), "Guardian removed");
+  };
+
+  const runAction = async (id: string, action: () => Promise<unknown>, success: string) => {
+    setBusyId(id);
+    try {
+      await action();
+      toast.success(success);
+      await load();
+    } catch (err) {
+      toast.error("Something went wrong", err instanceof Error ? err.message : "Please try again.");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="animate-pulse space-y-4">
+        <div className="h-16 bg-background-secondary rounded" />
+        <div className="h-16 bg-background-secondary rounded" />
+      </div>
+    );
+  }
+
+  const openRecoveries = recoveries.filter((r) => r.status === "REQUESTED" || r.status === "PENDING");
+  const againstMe = openRecoveries.filter((r) => r.role === "OWNER");
+  const toApprove = openRecoveries.filter((r) => r.canApprove);
+  const guardians = data?.guardians ?? [];
+  const isFull = data ? guardians.length >= data.maxGuardians : true;
+
+  return (
+    <div className="space-y-4">
+      {/* Someone is trying to recover this user's wallet */}
+      {againstMe.map((recovery) => (
+        <div key={recovery.id} className="p-4 rounded-lg border-2 border-status-error bg-status-error/5 space-y-2">
+          <p className="font-medium text-status-error">Someone asked to recover your wallet</p>
+          <p className="text-sm text-text-secondary">
+            {recovery.approvalCount} of {recovery.minApprovals} guardians have approved.
+            {recovery.executeAfter && ` It can complete after ${formatDate(recovery.executeAfter)}.`} If this
+            wasn&apos;t you, cancel it now.
+          </p>
+          <Button
+            variant="destructive"
+            size="sm"
+            loading={busyId === recovery.id}
+            onClick={() => runAction(recovery.id, () => cancelRecovery(recovery.id), "Recovery cancelled")}
+          >
+            Cancel recovery
+          </Button>
+        </div>
+      ))}
+
+      {/* Recoveries waiting on this user as a guardian */}
+      {toApprove.map((recovery) => (
+        <div key={recovery.id} className="p-4 rounded-lg bg-brand-rose/5 space-y-2">
+          <p className="font-medium">Recovery approval needed</p>
+          <p className="text-sm text-text-secondary">
+            Wallet {formatAddress(recovery.walletAddress)} would move to {formatAddress(recovery.newOwner)}. Only
+            approve after confirming with its owner in person or by phone.
+          </p>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              loading={busyId === recovery.id}
+              onClick={() => runAction(recovery.id, () => approveRecovery(recovery.id), "Recovery approved")}
+            >
+              Approve recovery
+            </Button>
+            {/* Guardians can turn down a request nobody has started */}
+            {recovery.status === "REQUESTED" && (
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={busyId === recovery.id}
+                onClick={() => runAction(recovery.id, () => cancelRecovery(recovery.id), "Recovery declined")}
+              >
+                Decline
+              </Button>
+            )}
+          </div>
+        </div>
+      ))}
+
+      {/* Guardian list */}
+      <div className="space-y-2">
+        {guardians.length === 0 && (
+          <p className="text-sm text-text-secondary">
+            You have no guardians yet. Add at least {data?.minApprovals ?? 2} people you trust.
+          </p>
+        )}
+        {guardians.map((guardian) => (
+          <div key={guardian.id} className="flex items-center justify-between p-4 rounded-lg bg-background-secondary">
+            <div>
+              <p className="font-medium">
+                {guardian.label || guardian.guardian?.displayName || "External wallet"}
+                {guardian.guardian && (
+                  <Badge variant="primary" className="ml-2">
+                    Vlossom member
+                  </Badge>
+                )}
+              </p>
+              <p className="text-sm text-text-secondary font-mono">{formatAddress(guardian.address)}</p>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              loading={busyId === guardian.id}
+              onClick={() => handleRemove(guardian.id)}
+            >
+              Remove
+            </Button>
+          </div>
+        ))}
+        {data && !data.recoverable && guardians.length > 0 && (
+          <p className="text-sm text-status-warning">
+            Add {data.minApprovals - guardians.length} more guardian(s) so your wallet can be recovered.
+          </p>
+        )}
+      </div>
+
+      {/* Add guardian */}
+      {!isFull && (
+        <div className="space-y-3 pt-2">
+          <div className="space-y-2">
+            <Label htmlFor="guardian-address">Guardian wallet address</Label>
+            <Input
+              id="guardian-address"
+              placeholder="0x..."
+              value={form.address}
+              maxLength={42}
+              onChange={(e) => setForm({ ...form, address: e.target.value })}
+            />
+            <p className="text-xs text-text-secondary">
+              Use a Vlossom member&apos;s wallet address to let them approve in the app.
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="guardian-label">Name (optional)</Label>
+            <Input
+              id="guardian-label"
+              placeholder="e.g. My sister"
+              value={form.label}
+              maxLength={50}
+              onChange={(e) => setForm({ ...form, label: e.target.value })}
+            />
+          </div>
+          <Button variant="outline" onClick={handleAdd} loading={isAdding}>
+            Add guardian
+          </Button>
+        </div>
+      )}
+
+      <p className="text-xs text-text-secondary">
+        {data?.minApprovals ?? 2} guardians must approve a recovery, and it only completes{" "}
+        {data?.recoveryDelayHours ?? 48} hours later so you can cancel it. Lost access to an old account?{" "}
+        <Link href="/wallet/recovery" className="text-brand-rose underline">
+          Recover its wallet
+        </Link>
+      </p>
+
+      <StepUpDialog {...stepUpDialogProps} />
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useCallback } from "react";
 import { useWallet } from "../../hooks/use-wallet";
+import { useStepUp } from "../../hooks/use-step-up";
 import {
   sendP2P,
   toUsdcUnits,
@@ -21,6 +22,7 @@ import { Button } from "../ui/button";
 import { Input } from "../ui/input";
 import { Label } from "../ui/label";
 import { CheckCircleIcon } from "../ui/icons";
+import { StepUpDialog } from "../auth/step-up-dialog";
 
 interface SendDialogProps {
   open: boolean;
@@ -31,6 +33,7 @@ type Step = "input" | "preview" | "success";
 
 export function SendDialog({ open, onOpenChange }: SendDialogProps) {
   const { data: wallet, refetch } = useWallet();
+  const { requestStepUp, stepUpDialogProps } = useStepUp();
   const [step, setStep] = useState<Step>("input");
   const [toAddress, setToAddress] = useState("");
   const [amount, setAmount] = useState("");
@@ -87,7 +90,14 @@ export function SendDialog({ open, onOpenChange }: SendDialogProps) {
 
     try {
       const usdcAmount = toUsdcUnits(parseFloat(amount), currency);
-      const result = await sendP2P(toAddress, usdcAmount.toString(), memo || undefined);
+      let result = await sendP2P(toAddress, usdcAmount.toString(), memo || undefined);
+
+      // Larger transfers need a step-up - verify and send again
+      if (result.stepUpRequired) {
+        const stepUpToken = await requestStepUp("TRANSFER");
+        if (!stepUpToken) return;
+        result = await sendP2P(toAddress, usdcAmount.toString(), memo || undefined, stepUpToken);
+      }
 
       if (result.success) {
         setTxHash(result.txHash || null);
@@ -118,210 +128,213 @@ export function SendDialog({ open, onOpenChange }: SendDialogProps) {
   if (!wallet) return null;
 
   return (
-    <Dialog open={open} onOpenChange={handleClose}>
-      <DialogContent>
-        {/* Input Step */}
-        {step === "input" && (
-          <>
-            <DialogHeader>
-              <DialogTitle>Send USDC</DialogTitle>
-            </DialogHeader>
-
-            <div className="space-y-4">
-              {/* Recipient Address */}
-              <div>
-                <Label htmlFor="recipient">Recipient Address</Label>
-                <Input
-                  id="recipient"
-                  type="text"
-                  placeholder="0x..."
-                  value={toAddress}
-                  onChange={(e) => setToAddress(e.target.value)}
-                  className={error && !isValidAddress(toAddress) && toAddress ? "border-red-500" : ""}
-                />
-              </div>
-
-              {/* Amount Input */}
-              <div>
-                <Label htmlFor="amount">Amount</Label>
-                <div className="flex gap-2">
+    <>
+      <Dialog open={open} onOpenChange={handleClose}>
+        <DialogContent>
+          {/* Input Step */}
+          {step === "input" && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Send USDC</DialogTitle>
+              </DialogHeader>
+
+              <div className="space-y-4">
+                {/* Recipient Address */}
+                <div>
+                  <Label htmlFor="recipient">Recipient Address</Label>
                   <Input
-                    id="amount"
-                    type="number"
-                    placeholder="0.00"
-                    value={amount}
-                    onChange={(e) => {
-                      // Prevent negative values
-                      const value = e.target.value;
-                      if (value === "" || parseFloat(value) >= 0) {
-                        setAmount(value);
-                      }
-                    }}
-                    onKeyDown={(e) => {
-                      // Block minus key
-                      if (e.key === "-" || e.key === "e") {
-                        e.preventDefault();
-                      }
-                    }}
-                    min="0"
-                    step="any"
-                    inputMode="decimal"
-                    aria-describedby="amount-available"
+                    id="recipient"
+                    type="text"
+                    placeholder="0x..."
+                    value={toAddress}
+                    onChange={(e) => setToAddress(e.target.value)}
+                    className={error && !isValidAddress(toAddress) && toAddress ? "border-red-500" : ""}
                   />
-                  <div className="flex gap-1">
-                    {(["ZAR", "USD", "USDC"] as const).map((curr) => (
-                      <Button
-                        key={curr}
-                        type="button"
-                        variant={currency === curr ? "primary" : "outline"}
-                        size="sm"
-                        onClick={() => setCurrency(curr)}
-                        className={currency === curr ? "bg-primary text-text-inverse" : ""}
-                      >
-                        {curr}
-                      </Button>
-                    ))}
-                  </div>
-                </div>
-                <div className="flex items-center justify-between mt-1">
-                  <p id="amount-available" className="text-caption text-text-tertiary">
-                    Available: {formatCurrency(wallet.balance.usdcFormatted, currency)}
-                  </p>
-                  <button
-                    type="button"
-                    onClick={() => setAmount(wallet.balance.usdcFormatted.toString())}
-                    className="text-caption text-brand-rose hover:underline focus:outline-none focus:ring-2 focus:ring-brand-rose focus:ring-offset-1 rounded"
-                  >
-                    Use max
-                  </button>
                 </div>
-              </div>
 
-              {/* Memo (Optional) */}
-              <div>
-                <Label htmlFor="memo">Memo (Optional)</Label>
-                <Input
-                  id="memo"
-                  type="text"
-                  placeholder="Add a note..."
-                  value={memo}
-                  onChange={(e) => setMemo(e.target.value.slice(0, 100))}
-                  maxLength={100}
-                />
-                <p className="text-caption text-text-tertiary mt-1">{memo.length}/100</p>
-              </div>
-
-              {/* Error Message */}
-              {error && (
-                <div className="p-3 bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-lg">
-                  <p className="text-caption text-red-800 dark:text-red-200">{error}</p>
-                </div>
-              )}
-            </div>
-
-            <DialogFooter>
-              <Button variant="outline" onClick={handleClose} className="flex-1">
-                Cancel
-              </Button>
-              <Button onClick={handlePreview} className="flex-1 bg-brand-rose text-background-primary">
-                Preview
-              </Button>
-            </DialogFooter>
-          </>
-        )}
-
-        {/* Preview Step */}
-        {step === "preview" && (
-          <>
-            <DialogHeader>
-              <DialogTitle>Confirm Transfer</DialogTitle>
-            </DialogHeader>
-
-            <div className="space-y-4">
-              <div className="bg-background-secondary rounded-lg p-4 space-y-3">
+                {/* Amount Input */}
                 <div>
-                  <p className="text-caption text-text-secondary">To</p>
-                  <p className="text-body text-text-primary font-mono">{truncateAddress(toAddress)}</p>
+                  <Label htmlFor="amount">Amount</Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id="amount"
+                      type="number"
+                      placeholder="0.00"
+                      value={amount}
+                      onChange={(e) => {
+                        // Prevent negative values
+                        const value = e.target.value;
+                        if (value === "" || parseFloat(value) >= 0) {
+                          setAmount(value);
+                        }
+                      }}
+                      onKeyDown={(e) => {
+                        // Block minus key
+                        if (e.key === "-" || e.key === "e") {
+                          e.preventDefault();
+                        }
+                      }}
+                      min="0"
+                      step="any"
+                      inputMode="decimal"
+                      aria-describedby="amount-available"
+                    />
+                    <div className="flex gap-1">
+                      {(["ZAR", "USD", "USDC"] as const).map((curr) => (
+                        <Button
+                          key={curr}
+                          type="button"
+                          variant={currency === curr ? "primary" : "outline"}
+                          size="sm"
+                          onClick={() => setCurrency(curr)}
+                          className={currency === curr ? "bg-primary text-text-inverse" : ""}
+                        >
+                          {curr}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="flex items-center justify-between mt-1">
+                    <p id="amount-available" className="text-caption text-text-tertiary">
+                      Available: {formatCurrency(wallet.balance.usdcFormatted, currency)}
+                    </p>
+                    <button
+                      type="button"
+                      onClick={() => setAmount(wallet.balance.usdcFormatted.toString())}
+                      className="text-caption text-brand-rose hover:underline focus:outline-none focus:ring-2 focus:ring-brand-rose focus:ring-offset-1 rounded"
+                    >
+                      Use max
+                    </button>
+                  </div>
                 </div>
 
+                {/* Memo (Optional) */}
                 <div>
-                  <p className="text-caption text-text-secondary">Amount</p>
-                  <div className="space-y-1">
-                    <p className="text-h3 text-text-primary">{formatCurrency(parseFloat(amount), currency)}</p>
-                    <p className="text-caption text-text-tertiary">
-                      ≈ {formatCurrency(parseFloat(amount), "USD")} = {formatCurrency(parseFloat(amount), "USDC")}
-                    </p>
-                  </div>
+                  <Label htmlFor="memo">Memo (Optional)</Label>
+                  <Input
+                    id="memo"
+                    type="text"
+                    placeholder="Add a note..."
+                    value={memo}
+                    onChange={(e) => setMemo(e.target.value.slice(0, 100))}
+                    maxLength={100}
+                  />
+                  <p className="text-caption text-text-tertiary mt-1">{memo.length}/100</p>
                 </div>
 
-                {memo && (
-                  <div>
-                    <p className="text-caption text-text-secondary">Memo</p>
-                    <p className="text-body text-text-primary">{memo}</p>
+                {/* Error Message */}
+                {error && (
+                  <div className="p-3 bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-lg">
+                    <p className="text-caption text-red-800 dark:text-red-200">{error}</p>
                   </div>
                 )}
+              </div>
 
-                <div>
-                  <p className="text-caption text-text-secondary">Fee</p>
-                  <p className="text-body text-status-success">Free (gasless)</p>
+              <DialogFooter>
+                <Button variant="outline" onClick={handleClose} className="flex-1">
+                  Cancel
+                </Button>
+                <Button onClick={handlePreview} className="flex-1 bg-brand-rose text-background-primary">
+                  Preview
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+
+          {/* Preview Step */}
+          {step === "preview" && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Confirm Transfer</DialogTitle>
+              </DialogHeader>
+
+              <div className="space-y-4">
+                <div className="bg-background-secondary rounded-lg p-4 space-y-3">
+                  <div>
+                    <p className="text-caption text-text-secondary">To</p>
+                    <p className="text-body text-text-primary font-mono">{truncateAddress(toAddress)}</p>
+                  </div>
+
+                  <div>
+                    <p className="text-caption text-text-secondary">Amount</p>
+                    <div className="space-y-1">
+                      <p className="text-h3 text-text-primary">{formatCurrency(parseFloat(amount), currency)}</p>
+                      <p className="text-caption text-text-tertiary">
+                        ≈ {formatCurrency(parseFloat(amount), "USD")} = {formatCurrency(parseFloat(amount), "USDC")}
+                      </p>
+                    </div>
+                  </div>
+
+                  {memo && (
+                    <div>
+                      <p className="text-caption text-text-secondary">Memo</p>
+                      <p className="text-body text-text-primary">{memo}</p>
+                    </div>
+                  )}
+
+                  <div>
+                    <p className="text-caption text-text-secondary">Fee</p>
+                    <p className="text-body text-status-success">Free (gasless)</p>
+                  </div>
                 </div>
               </div>
-            </div>
-
-            <DialogFooter>
-              <Button variant="outline" onClick={() => setStep("input")} disabled={sending} className="flex-1">
-                Back
-              </Button>
-              <Button
-                onClick={handleSend}
-                disabled={sending}
-                className="flex-1 bg-brand-rose text-background-primary"
-              >
-                {sending ? "Sending..." : "Confirm"}
-              </Button>
-            </DialogFooter>
-          </>
-        )}
-
-        {/* Success Step */}
-        {step === "success" && (
-          <>
-            <DialogHeader>
-              <DialogTitle>Transfer Successful!</DialogTitle>
-            </DialogHeader>
-
-            <div className="space-y-4">
-              <div className="text-center py-6" role="status" aria-live="polite">
-                <CheckCircleIcon className="h-16 w-16 mx-auto mb-4 text-status-success animate-success" />
-                <p className="text-body text-text-primary mb-2">
-                  Sent {formatCurrency(parseFloat(amount), currency)}
-                </p>
-                <p className="text-caption text-text-secondary">to {truncateAddress(toAddress)}</p>
-              </div>
 
-              {txHash && (
-                <div className="bg-background-secondary rounded-lg p-3">
-                  <p className="text-caption text-text-secondary mb-1">Transaction Hash</p>
-                  <a
-                    href={`https://sepolia.basescan.org/tx/${txHash}`}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="text-caption text-brand-rose hover:underline break-all"
-                  >
-                    {txHash}
-                  </a>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setStep("input")} disabled={sending} className="flex-1">
+                  Back
+                </Button>
+                <Button
+                  onClick={handleSend}
+                  disabled={sending}
+                  className="flex-1 bg-brand-rose text-background-primary"
+                >
+                  {sending ? "Sending..." : "Confirm"}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+
+          {/* Success Step */}
+          {step === "success" && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Transfer Successful!</DialogTitle>
+              </DialogHeader>
+
+              <div className="space-y-4">
+                <div className="text-center py-6" role="status" aria-live="polite">
+                  <CheckCircleIcon className="h-16 w-16 mx-auto mb-4 text-status-success animate-success" />
+                  <p className="text-body text-text-primary mb-2">
+                    Sent {formatCurrency(parseFloat(amount), currency)}
+                  </p>
+                  <p className="text-caption text-text-secondary">to {truncateAddress(toAddress)}</p>
                 </div>
-              )}
-            </div>
-
-            <DialogFooter>
-              <Button onClick={handleClose} className="w-full bg-brand-rose text-background-primary">
-                Done
-              </Button>
-            </DialogFooter>
-          </>
-        )}
-      </DialogContent>
-    </Dialog>
+
+                {txHash && (
+                  <div className="bg-background-secondary rounded-lg p-3">
+                    <p className="text-caption text-text-secondary mb-1">Transaction Hash</p>
+                    <a
+                      href={`https://sepolia.basescan.org/tx/${txHash}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-caption text-brand-rose hover:underline break-all"
+                    >
+                      {txHash}
+                    </a>
+                  </div>
+                )}
+              </div>
+
+              <DialogFooter>
+                <Button onClick={handleClose} className="w-full bg-brand-rose text-background-primary">
+                  Done
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+      <StepUpDialog {...stepUpDialogProps} />
+    </>
   );
 }
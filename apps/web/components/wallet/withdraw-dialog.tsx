@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useCallback } from "react";
 import { useWallet } from "../../hooks/use-wallet";
+import { useStepUp } from "../../hooks/use-step-up";
 import {
   createWithdrawalSession,
   simulateMockWithdrawal,
@@ -17,6 +18,7 @@ import { Button } from "../ui/button";
 import { Input } from "../ui/input";
 import { Label } from "../ui/label";
 import { CheckCircleIcon } from "../ui/icons";
+import { StepUpDialog } from "../auth/step-up-dialog";
 
 interface WithdrawDialogProps {
   open: boolean;
@@ -27,6 +29,7 @@ type Step = "amount" | "processing" | "success";
 
 export function WithdrawDialog({ open, onOpenChange }: WithdrawDialogProps) {
   const { data: wallet, refetch } = useWallet();
+  const { requestStepUp, stepUpDialogProps } = useStepUp();
   const [step, setStep] = useState<Step>("amount");
   const [amount, setAmount] = useState("");
   const [currency, setCurrency] = useState<"ZAR" | "USD">("ZAR");
@@ -52,10 +55,20 @@ export function WithdrawDialog({ open, onOpenChange }: WithdrawDialogProps) {
       return;
     }
 
-    const result = await createWithdrawalSession({
-      amount: usdcAmount,
-      fiatCurrency: currency,
-    });
+    // Withdrawals always need a fresh step-up
+    const stepUpToken = await requestStepUp("WITHDRAWAL");
+    if (!stepUpToken) {
+      setLoading(false);
+      return;
+    }
+
+    const result = await createWithdrawalSession(
+      {
+        amount: usdcAmount,
+        fiatCurrency: currency,
+      },
+      stepUpToken
+    );
 
     if (!result.success) {
       setError(result.error || "Failed to create session");
@@ -103,123 +116,126 @@ export function WithdrawDialog({ open, onOpenChange }: WithdrawDialogProps) {
   }, [step, handleClose]);
 
   return (
-    <Dialog open={open} onOpenChange={handleClose}>
-      <DialogContent>
-        <DialogHeader>
-          <DialogTitle>Withdraw</DialogTitle>
-        </DialogHeader>
-
-        {step === "amount" && (
-          <div className="space-y-4">
-            <div>
-              <Label htmlFor="amount">Amount</Label>
-              <Input
-                id="amount"
-                type="number"
-                placeholder="100"
-                value={amount}
-                onChange={(e) => {
-                  const value = e.target.value;
-                  if (value === "" || parseFloat(value) >= 0) {
-                    setAmount(value);
-                  }
-                }}
-                onKeyDown={(e) => {
-                  if (e.key === "-" || e.key === "e") {
-                    e.preventDefault();
-                  }
-                }}
-                min="0"
-                step="any"
-                inputMode="decimal"
-                aria-describedby="withdraw-available"
-              />
-              <div className="flex items-center justify-between mt-1">
-                <p id="withdraw-available" className="text-caption text-text-tertiary">
-                  Available: {maxUSDC.toFixed(2)} USDC
-                </p>
-                <button
-                  type="button"
-                  onClick={() => setAmount(currency === "ZAR" ? (maxUSDC * 18.5).toFixed(2) : maxUSDC.toFixed(2))}
-                  className="text-caption text-brand-rose hover:underline focus:outline-none focus:ring-2 focus:ring-brand-rose focus:ring-offset-1 rounded"
+    <>
+      <Dialog open={open} onOpenChange={handleClose}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Withdraw</DialogTitle>
+          </DialogHeader>
+
+          {step === "amount" && (
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="amount">Amount</Label>
+                <Input
+                  id="amount"
+                  type="number"
+                  placeholder="100"
+                  value={amount}
+                  onChange={(e) => {
+                    const value = e.target.value;
+                    if (value === "" || parseFloat(value) >= 0) {
+                      setAmount(value);
+                    }
+                  }}
+                  onKeyDown={(e) => {
+                    if (e.key === "-" || e.key === "e") {
+                      e.preventDefault();
+                    }
+                  }}
+                  min="0"
+                  step="any"
+                  inputMode="decimal"
+                  aria-describedby="withdraw-available"
+                />
+                <div className="flex items-center justify-between mt-1">
+                  <p id="withdraw-available" className="text-caption text-text-tertiary">
+                    Available: {maxUSDC.toFixed(2)} USDC
+                  </p>
+                  <button
+                    type="button"
+                    onClick={() => setAmount(currency === "ZAR" ? (maxUSDC * 18.5).toFixed(2) : maxUSDC.toFixed(2))}
+                    className="text-caption text-brand-rose hover:underline focus:outline-none focus:ring-2 focus:ring-brand-rose focus:ring-offset-1 rounded"
+                  >
+                    Use max
+                  </button>
+                </div>
+              </div>
+
+              <div className="flex gap-2">
+                <Button
+                  variant={currency === "ZAR" ? "primary" : "outline"}
+                  onClick={() => setCurrency("ZAR")}
+                  className="flex-1"
+                >
+                  ZAR
+                </Button>
+                <Button
+                  variant={currency === "USD" ? "primary" : "outline"}
+                  onClick={() => setCurrency("USD")}
+                  className="flex-1"
                 >
-                  Use max
-                </button>
+                  USD
+                </Button>
               </div>
+
+              <p className="text-caption text-text-tertiary">
+                You&apos;ll receive approximately{" "}
+                {currency === "ZAR"
+                  ? ((parseFloat(amount || "0") / 18.5) * 18.5).toFixed(2)
+                  : parseFloat(amount || "0").toFixed(2)}{" "}
+                {currency}
+              </p>
+
+              {error && (
+                <div className="p-3 bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-lg">
+                  <p className="text-caption text-red-800 dark:text-red-200">{error}</p>
+                </div>
+              )}
+            </div>
+          )}
+
+          {step === "processing" && (
+            <div className="text-center py-8">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-brand-rose mx-auto mb-4"></div>
+              <p className="text-body text-text-primary">
+                Processing withdrawal...
+              </p>
+              <p className="text-caption text-text-tertiary mt-2">
+                {mode === "mock" ? "(Mock mode - simulating 3s delay)" : ""}
+              </p>
+            </div>
+          )}
+
+          {step === "success" && (
+            <div className="text-center py-8" role="status" aria-live="polite">
+              <CheckCircleIcon className="h-16 w-16 mx-auto mb-4 text-status-success animate-success" />
+              <p className="text-h2 text-text-primary mb-2">Success!</p>
+              <p className="text-body text-text-secondary">
+                Withdrawal initiated
+              </p>
             </div>
+          )}
 
-            <div className="flex gap-2">
+          <DialogFooter>
+            {step === "amount" && (
               <Button
-                variant={currency === "ZAR" ? "primary" : "outline"}
-                onClick={() => setCurrency("ZAR")}
-                className="flex-1"
+                onClick={handleSubmit}
+                disabled={!amount || parseFloat(amount) <= 0 || loading}
+                className="w-full bg-brand-rose text-background-primary"
               >
-                ZAR
+                {loading ? "Processing..." : "Continue"}
               </Button>
-              <Button
-                variant={currency === "USD" ? "primary" : "outline"}
-                onClick={() => setCurrency("USD")}
-                className="flex-1"
-              >
-                USD
+            )}
+            {step === "success" && (
+              <Button onClick={handleClose} className="w-full">
+                Done
               </Button>
-            </div>
-
-            <p className="text-caption text-text-tertiary">
-              You&apos;ll receive approximately{" "}
-              {currency === "ZAR"
-                ? ((parseFloat(amount || "0") / 18.5) * 18.5).toFixed(2)
-                : parseFloat(amount || "0").toFixed(2)}{" "}
-              {currency}
-            </p>
-
-            {error && (
-              <div className="p-3 bg-red-50 dark:bg-red-900/30 border border-red-200 dark:border-red-800 rounded-lg">
-                <p className="text-caption text-red-800 dark:text-red-200">{error}</p>
-              </div>
             )}
-          </div>
-        )}
-
-        {step === "processing" && (
-          <div className="text-center py-8">
-            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-brand-rose mx-auto mb-4"></div>
-            <p className="text-body text-text-primary">
-              Processing withdrawal...
-            </p>
-            <p className="text-caption text-text-tertiary mt-2">
-              {mode === "mock" ? "(Mock mode - simulating 3s delay)" : ""}
-            </p>
-          </div>
-        )}
-
-        {step === "success" && (
-          <div className="text-center py-8" role="status" aria-live="polite">
-            <CheckCircleIcon className="h-16 w-16 mx-auto mb-4 text-status-success animate-success" />
-            <p className="text-h2 text-text-primary mb-2">Success!</p>
-            <p className="text-body text-text-secondary">
-              Withdrawal initiated
-            </p>
-          </div>
-        )}
-
-        <DialogFooter>
-          {step === "amount" && (
-            <Button
-              onClick={handleSubmit}
-              disabled={!amount || parseFloat(amount) <= 0 || loading}
-              className="w-full bg-brand-rose text-background-primary"
-            >
-              {loading ? "Processing..." : "Continue"}
-            </Button>
-          )}
-          {step === "success" && (
-            <Button onClick={handleClose} className="w-full">
-              Done
-            </Button>
-          )}
-        </DialogFooter>
-      </DialogContent>
-    </Dialog>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+      <StepUpDialog {...stepUpDialogProps} />
+    </>
   );
 }
@@ -7,7 +7,17 @@
 
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useRouter } from "next/navigation";
-import { getCurrentUser, login as loginApi, signup as signupApi, logout as logoutApi, type SignupRequest, type LoginRequest } from "../lib/auth-client";
+import {
+  getCurrentUser,
+  login as loginApi,
+  signup as signupApi,
+  logout as logoutApi,
+  completeTwoFactorLogin as completeTwoFactorLoginApi,
+  isTwoFactorChallenge,
+  type AuthResponse,
+  type SignupRequest,
+  type LoginRequest,
+} from "../lib/auth-client";
 
 export function useAuth() {
   const queryClient = useQueryClient();
@@ -43,20 +53,32 @@ export function useAuth() {
     return result;
   };
 
-  // Login function
-  const login = async (data: LoginRequest) => {
-    const result = await loginApi(data);
-
-    // Update query cache with user
+  // Update query cache and redirect based on role (V5.0: Home is default landing)
+  const startSession = (result: AuthResponse) => {
     queryClient.setQueryData(["auth", "currentUser"], result.user);
 
-    // Redirect based on role (V5.0: Home is default landing)
     if (result.user.role === "STYLIST") {
       router.push("/stylist/dashboard");
     } else {
       router.push("/home");
     }
+  };
+
+  // Login function - accounts with 2FA return the challenge and stay put
+  const login = async (data: LoginRequest) => {
+    const result = await loginApi(data);
+
+    if (!isTwoFactorChallenge(result)) {
+      startSession(result);
+    }
+
+    return result;
+  };
 
+  // Finish a 2FA login with an authenticator / SMS code or a recovery code
+  const completeTwoFactorLogin = async (challengeToken: string, input: { code?: string; recoveryCode?: string }) => {
+    const result = await completeTwoFactorLoginApi(challengeToken, input);
+    startSession(result);
     return result;
   };
 
@@ -79,6 +101,7 @@ export function useAuth() {
     error,
     signup,
     login,
+    completeTwoFactorLogin,
     logout,
     refetch,
   };
@@ -12,6 +12,8 @@ import {
   createBooking,
   updateBookingStatus,
   confirmPayment,
+  confirmBalancePayment,
+  getPaymentInstructions,
   cancelBooking,
   getBookingStats,
   type BookingStatus,
@@ -107,6 +109,42 @@ export function useConfirmPayment() {
   });
 }
 
+/**
+ * Hook to fetch the escrow key and amount for a booking's next payment
+ */
+export function usePaymentInstructions(bookingId: string, enabled = true) {
+  return useQuery({
+    queryKey: ["booking", bookingId, "payment-instructions"],
+    queryFn: () => getPaymentInstructions(bookingId),
+    enabled: !!bookingId && enabled,
+    staleTime: 0, // Amount and leg change as the booking is paid
+  });
+}
+
+/**
+ * Hook to confirm a deposit booking's balance was locked in escrow
+ */
+export function useConfirmBalancePayment() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      bookingId,
+      escrowTxHash,
+      skipOnChainVerification,
+    }: {
+      bookingId: string;
+      escrowTxHash: string;
+      skipOnChainVerification?: boolean;
+    }) => confirmBalancePayment(bookingId, escrowTxHash, { skipOnChainVerification }),
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["bookings"] });
+      queryClient.invalidateQueries({ queryKey: ["booking", variables.bookingId] });
+      queryClient.invalidateQueries({ queryKey: ["wallet"] });
+    },
+  });
+}
+
 /**
  * Hook to cancel a booking
  */
@@ -17,6 +17,10 @@ import {
   fetchEarnings,
   fetchEarningsTrend,
   fetchPayoutHistory,
+  fetchVerification,
+  uploadVerificationDocument,
+  removeVerificationDocument,
+  submitVerification,
   type DashboardData,
   type StylistService,
   type CreateServiceInput,
@@ -25,6 +29,8 @@ import {
   type DateException,
   type StylistProfile,
   type EarningsSummary,
+  type StylistVerification,
+  type VerificationDocumentType,
 } from "@/lib/dashboard-client";
 
 // ============================================================================
@@ -182,3 +188,49 @@ export function usePayoutHistory(page: number = 1, limit: number = 10) {
     staleTime: 60 * 1000,
   });
 }
+
+// ============================================================================
+// VERIFICATION
+// ============================================================================
+
+export function useStylistVerification() {
+  return useQuery<StylistVerification>({
+    queryKey: ["stylist-verification"],
+    queryFn: fetchVerification,
+    staleTime: 60 * 1000,
+  });
+}
+
+export function useUploadVerificationDocument() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ type, file }: { type: VerificationDocumentType; file: File }) =>
+      uploadVerificationDocument(type, file),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["stylist-verification"] });
+    },
+  });
+}
+
+export function useRemoveVerificationDocument() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (documentId: string) => removeVerificationDocument(documentId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["stylist-verification"] });
+    },
+  });
+}
+
+export function useSubmitVerification() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: submitVerification,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["stylist-verification"] });
+    },
+  });
+}
@@ -4,7 +4,8 @@
  *
  * Features:
  * - SSE connection management
- * - Automatic reconnection with exponential backoff
+ * - Automatic reconnection with exponential backoff, resuming from the last
+ *   event received so nothing sent while disconnected is missed
  * - Event-based updates for session progress
  * - Connection state management
  */
@@ -16,6 +17,7 @@ type LiveUpdateEventType =
   | "connected"
   | "progress"
   | "arrived"
+  | "customer_arrived"
   | "session_ended"
   | "status_changed"
   | "error";
@@ -109,12 +111,23 @@ export function useLiveUpdates(options: LiveUpdatesOptions): LiveUpdatesReturn {
 
   const eventSourceRef = useRef<EventSource | null>(null);
   const reconnectTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Id of the last event received - the server replays anything after it
+  const lastEventIdRef = useRef<string | null>(null);
+
+  // A different booking's stream starts from scratch
+  useEffect(() => {
+    lastEventIdRef.current = null;
+  }, [bookingId]);
 
   /**
    * Parse incoming SSE event
    */
   const parseEvent = useCallback(
-    (eventType: string, data: string): void => {
+    (eventType: string, data: string, lastEventId?: string): void => {
+      if (lastEventId) {
+        lastEventIdRef.current = lastEventId;
+      }
+
       try {
         const parsedData = JSON.parse(data);
 
@@ -181,7 +194,11 @@ export function useLiveUpdates(options: LiveUpdatesOptions): LiveUpdatesReturn {
     try {
       // Note: EventSource doesn't support custom headers natively
       // We use query param for auth (server should validate)
-      const url = `${API_URL}/api/v1/bookings/${bookingId}/live?token=${encodeURIComponent(token)}`;
+      // A new EventSource doesn't send Last-Event-ID, so resume via query param
+      const resumeFrom = lastEventIdRef.current
+        ? `&lastEventId=${encodeURIComponent(lastEventIdRef.current)}`
+        : "";
+      const url = `${API_URL}/api/v1/bookings/${bookingId}/live?token=${encodeURIComponent(token)}${resumeFrom}`;
 
       const eventSource = new EventSource(url);
       eventSourceRef.current = eventSource;
@@ -237,19 +254,23 @@ export function useLiveUpdates(options: LiveUpdatesOptions): LiveUpdatesReturn {
       });
 
       eventSource.addEventListener("progress", (e) => {
-        parseEvent("progress", e.data);
+        parseEvent("progress", e.data, e.lastEventId);
       });
 
       eventSource.addEventListener("arrived", (e) => {
-        parseEvent("arrived", e.data);
+        parseEvent("arrived", e.data, e.lastEventId);
+      });
+
+      eventSource.addEventListener("customer_arrived", (e) => {
+        parseEvent("customer_arrived", e.data, e.lastEventId);
       });
 
       eventSource.addEventListener("session_ended", (e) => {
-        parseEvent("session_ended", e.data);
+        parseEvent("session_ended", e.data, e.lastEventId);
       });
 
       eventSource.addEventListener("status_changed", (e) => {
-        parseEvent("status_changed", e.data);
+        parseEvent("status_changed", e.data, e.lastEventId);
       });
     } catch (error) {
       console.error("Error connecting to SSE:", error);
@@ -2,12 +2,30 @@
  * Messages Hooks (V6.7.0)
  *
  * React Query hooks for direct messaging.
+ * Kept current by the conversation stream rather than polling.
  */
 
 "use client";
 
-import { useQuery, useMutation, useQueryClient, useInfiniteQuery } from "@tanstack/react-query";
+import { useCallback, useEffect, useRef } from "react";
 import {
+  useQuery,
+  useMutation,
+  useQueryClient,
+  useInfiniteQuery,
+  type QueryClient,
+} from "@tanstack/react-query";
+import {
+  openConversationStream,
+  uploadMessageAttachment,
+  acceptBookingProposal,
+  declineBookingProposal,
+  type SendMessageInput,
+  sendTypingIndicator,
+  CONVERSATION_STREAM_EVENTS,
+  type ConversationStreamEvent,
+  type ConversationWithMessagesResponse,
+  type UnreadCountResponse,
   getConversations,
   getConversation,
   startConversation,
@@ -32,8 +50,38 @@ export const messageKeys = {
     [...messageKeys.conversations(), params] as const,
   conversation: (id: string) => [...messageKeys.all, "conversation", id] as const,
   unreadCount: () => [...messageKeys.all, "unread-count"] as const,
+  typing: (conversationId: string) => [...messageKeys.all, "typing", conversationId] as const,
 };
 
+// Send "typing" at most this often while the user keeps typing
+const TYPING_THROTTLE_MS = 3 * 1000;
+
+// Send "stopped typing" after this long without a keystroke
+const TYPING_IDLE_MS = 4 * 1000;
+
+/**
+ * Add a message to a loaded conversation, or replace it if it's already there
+ * (the stream and the sending device can both deliver the same message)
+ */
+function upsertCachedMessage(queryClient: QueryClient, conversationId: string, message: Message) {
+  queryClient.setQueryData(
+    messageKeys.conversation(conversationId),
+    (oldData: ConversationWithMessagesResponse | undefined) => {
+      if (!oldData) return oldData;
+      if (oldData.messages.some((m) => m.id === message.id)) {
+        return {
+          ...oldData,
+          messages: oldData.messages.map((m) => (m.id === message.id ? message : m)),
+        };
+      }
+      return {
+        ...oldData,
+        messages: [message, ...oldData.messages],
+      };
+    }
+  );
+}
+
 // ============================================================================
 // Hooks
 // ============================================================================
@@ -62,7 +110,6 @@ export function useConversation(conversationId: string, enabled = true) {
     queryFn: () => getConversation(conversationId),
     enabled: !!conversationId && enabled,
     staleTime: 5 * 1000, // 5 seconds
-    refetchInterval: 10 * 1000, // Polling for new messages every 10 seconds
   });
 }
 
@@ -92,7 +139,6 @@ export function useUnreadCount() {
     queryKey: messageKeys.unreadCount(),
     queryFn: () => getUnreadCount(),
     staleTime: 30 * 1000, // 30 seconds
-    refetchInterval: 60 * 1000, // Refetch every minute
   });
 }
 
@@ -127,19 +173,10 @@ export function useSendMessage(conversationId: string) {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: (content: string) => sendMessage(conversationId, content),
+    mutationFn: (input: string | SendMessageInput) => sendMessage(conversationId, input),
     onSuccess: (data) => {
-      // Optimistically add message to the conversation
-      queryClient.setQueryData(
-        messageKeys.conversation(conversationId),
-        (oldData: Awaited<ReturnType<typeof getConversation>> | undefined) => {
-          if (!oldData) return oldData;
-          return {
-            ...oldData,
-            messages: [data.message, ...oldData.messages],
-          };
-        }
-      );
+      // Add message to the conversation - the stream may have delivered it already
+      upsertCachedMessage(queryClient, conversationId, data.message);
 
       // Invalidate conversations list to update last message preview
       queryClient.invalidateQueries({ queryKey: messageKeys.conversations() });
@@ -153,6 +190,50 @@ export function useSendMessage(conversationId: string) {
   });
 }
 
+/**
+ * Hook to send a photo or voice note
+ */
+export function useSendAttachment(conversationId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (params: { kind: "image" | "voice"; file: Blob; caption?: string }) =>
+      uploadMessageAttachment(conversationId, params.kind, params.file, params.caption),
+    onSuccess: (data) => {
+      upsertCachedMessage(queryClient, conversationId, data.message);
+      queryClient.invalidateQueries({ queryKey: messageKeys.conversations() });
+    },
+  });
+}
+
+/**
+ * Hook to accept or decline a booking proposal
+ */
+export function useRespondToProposal(conversationId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (params: { messageId: string; accept: boolean }) =>
+      params.accept
+        ? acceptBookingProposal(conversationId, params.messageId)
+        : declineBookingProposal(conversationId, params.messageId),
+    onSuccess: (data, params) => {
+      upsertCachedMessage(queryClient, conversationId, data.message);
+
+      // Accepting creates a booking
+      if (params.accept) {
+        queryClient.invalidateQueries({ queryKey: ["bookings"] });
+      }
+    },
+    onError: () => {
+      // The proposal may have expired or been answered elsewhere
+      queryClient.invalidateQueries({
+        queryKey: messageKeys.conversation(conversationId),
+      });
+    },
+  });
+}
+
 /**
  * Hook to mark conversation as read
  */
@@ -229,5 +310,195 @@ export function useUnarchiveConversation() {
   });
 }
 
+/**
+ * Hook to keep messaging queries current from the conversation stream
+ *
+ * Mount once per screen that shows conversations. The browser reconnects the
+ * stream on its own; each (re)connect refetches in case events were missed.
+ */
+export function useConversationStream(enabled = true) {
+  const queryClient = useQueryClient();
+  const userIdRef = useRef<string | null>(null);
+  const typingTimeoutsRef = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+
+  const handleEvent = useCallback(
+    (event: ConversationStreamEvent) => {
+      switch (event.type) {
+        case "connected":
+          userIdRef.current = event.userId;
+          queryClient.setQueryData<UnreadCountResponse>(messageKeys.unreadCount(), {
+            unreadCount: event.unreadCount,
+          });
+          queryClient.invalidateQueries({ queryKey: messageKeys.conversations() });
+          queryClient.invalidateQueries({ queryKey: [...messageKeys.all, "conversation"] });
+          break;
+
+        case "message": {
+          const { conversationId: _conversationId, ...message } = event.message;
+          const isOwn = message.senderId === userIdRef.current;
+
+          queryClient.setQueryData(
+            messageKeys.conversation(event.conversationId),
+            (oldData: ConversationWithMessagesResponse | undefined) => {
+              // Skip if already added (e.g. by useSendMessage on this device)
+              if (!oldData || oldData.messages.some((m) => m.id === message.id)) return oldData;
+              return {
+                ...oldData,
+                messages: [{ ...message, isOwn }, ...oldData.messages],
+              };
+            }
+          );
+
+          // A new message ends the sender's typing indicator
+          if (!isOwn) {
+            queryClient.setQueryData(messageKeys.typing(event.conversationId), false);
+          }
+
+          queryClient.invalidateQueries({ queryKey: messageKeys.conversations() });
+          break;
+        }
+
+        case "message_updated": {
+          const { conversationId: _conversationId, ...message } = event.message;
+          queryClient.setQueryData(
+            messageKeys.conversation(event.conversationId),
+            (oldData: ConversationWithMessagesResponse | undefined) => {
+              if (!oldData) return oldData;
+              return {
+                ...oldData,
+                messages: oldData.messages.map((m) =>
+                  m.id === message.id ? { ...message, isOwn: m.isOwn } : m
+                ),
+              };
+            }
+          );
+          break;
+        }
+
+        case "typing": {
+          const timeouts = typingTimeoutsRef.current;
+          clearTimeout(timeouts.get(event.conversationId));
+          queryClient.setQueryData(messageKeys.typing(event.conversationId), event.isTyping);
+
+          // Drop the indicator if the "stopped typing" update never arrives
+          if (event.isTyping) {
+            timeouts.set(
+              event.conversationId,
+              setTimeout(() => {
+                queryClient.setQueryData(messageKeys.typing(event.conversationId), false);
+              }, event.expiresInMs)
+            );
+          }
+          break;
+        }
+
+        case "read":
+          queryClient.setQueryData(
+            messageKeys.conversation(event.conversationId),
+            (oldData: ConversationWithMessagesResponse | undefined) => {
+              if (!oldData) return oldData;
+              return {
+                ...oldData,
+                messages: oldData.messages.map((m) =>
+                  m.isOwn && !m.readAt ? { ...m, readAt: event.readAt } : m
+                ),
+              };
+            }
+          );
+          break;
+
+        case "unread":
+          queryClient.setQueryData<UnreadCountResponse>(messageKeys.unreadCount(), {
+            unreadCount: event.totalUnreadCount,
+          });
+          queryClient.setQueriesData(
+            { queryKey: messageKeys.conversations() },
+            (oldData: ConversationsListResponse | undefined) => {
+              if (!oldData) return oldData;
+              return {
+                ...oldData,
+                conversations: oldData.conversations.map((conv) =>
+                  conv.id === event.conversationId
+                    ? { ...conv, unreadCount: event.conversationUnreadCount }
+                    : conv
+                ),
+              };
+            }
+          );
+          break;
+      }
+    },
+    [queryClient]
+  );
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const eventSource = openConversationStream();
+    const typingTimeouts = typingTimeoutsRef.current;
+
+    CONVERSATION_STREAM_EVENTS.forEach((type) => {
+      eventSource.addEventListener(type, (e) => {
+        try {
+          handleEvent({ type, ...JSON.parse((e as MessageEvent).data) } as ConversationStreamEvent);
+        } catch (error) {
+          console.error("Error parsing conversation event:", error);
+        }
+      });
+    });
+
+    return () => {
+      eventSource.close();
+      typingTimeouts.forEach((timeout) => clearTimeout(timeout));
+      typingTimeouts.clear();
+    };
+  }, [enabled, handleEvent]);
+}
+
+/**
+ * Hook for typing indicators in a conversation
+ *
+ * `isOtherTyping` is fed by useConversationStream; call `onTyping` on each
+ * keystroke and `stopTyping` once the message is sent.
+ */
+export function useTypingIndicator(conversationId: string) {
+  const { data: isOtherTyping = false } = useQuery({
+    queryKey: messageKeys.typing(conversationId),
+    queryFn: () => false,
+    enabled: false,
+    initialData: false,
+  });
+
+  const lastSentRef = useRef(0);
+  const idleTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const stopTyping = useCallback(() => {
+    if (idleTimeoutRef.current) {
+      clearTimeout(idleTimeoutRef.current);
+      idleTimeoutRef.current = null;
+    }
+    if (lastSentRef.current > 0) {
+      lastSentRef.current = 0;
+      sendTypingIndicator(conversationId, false).catch(() => {});
+    }
+  }, [conversationId]);
+
+  const onTyping = useCallback(() => {
+    const now = Date.now();
+    if (now - lastSentRef.current > TYPING_THROTTLE_MS) {
+      lastSentRef.current = now;
+      sendTypingIndicator(conversationId, true).catch(() => {});
+    }
+
+    if (idleTimeoutRef.current) clearTimeout(idleTimeoutRef.current);
+    idleTimeoutRef.current = setTimeout(stopTyping, TYPING_IDLE_MS);
+  }, [conversationId, stopTyping]);
+
+  // Stop typing when leaving the conversation
+  useEffect(() => stopTyping, [stopTyping]);
+
+  return { isOtherTyping, onTyping, stopTyping };
+}
+
 // Re-export types
 export type { ConversationSummary, ConversationsListResponse, Message };
@@ -40,6 +40,7 @@ export interface Property {
   coverImage: string | null;
   minStylistRating: number | null;
   minTpsScore: number | null;
+  requireVerifiedStylists: boolean;
   isActive: boolean;
   verificationStatus: string;
   verifiedAt: string | null;
@@ -91,6 +92,7 @@ export interface CreatePropertyRequest {
   coverImage?: string;
   minStylistRating?: number;
   minTpsScore?: number;
+  requireVerifiedStylists?: boolean;
 }
 
 export interface UpdatePropertyRequest {
@@ -108,6 +110,7 @@ export interface UpdatePropertyRequest {
   coverImage?: string;
   minStylistRating?: number;
   minTpsScore?: number;
+  requireVerifiedStylists?: boolean;
 }
 
 export interface CreateChairRequest {
@@ -139,6 +142,67 @@ export interface UploadImageRequest {
   file: File;
 }
 
+// Availability calendars and the owner's utilisation view.
+// Times are UTC, like the property's operating hours.
+export type AvailabilityMode = "PER_HOUR" | "PER_DAY" | "PER_WEEK" | "PER_MONTH";
+
+export interface AvailabilityBlock {
+  start: string;
+  end: string;
+  status: "FREE" | "BUSY" | "CLOSED";
+  busy: {
+    start: string;
+    end: string;
+    source: "RENTAL" | "RESERVATION" | "EXCEPTION";
+    note?: string;
+  }[];
+}
+
+export interface ChairAvailability {
+  chairId: string;
+  name: string;
+  type: ChairType;
+  bookable: boolean;
+  modeEnabled: boolean;
+  rateCents: number | null;
+  blocks: AvailabilityBlock[];
+}
+
+export interface PropertyAvailability {
+  propertyId: string;
+  mode: AvailabilityMode;
+  from: string;
+  to: string;
+  operatingHours: Record<string, { open: string; close: string }>;
+  chairs: ChairAvailability[];
+}
+
+export interface ChairUtilisation {
+  chairId: string;
+  name: string;
+  openHours: number;
+  busyHours: number;
+  utilisation: number;
+  rentalCount: number;
+  reservationCount: number;
+  rentalRevenueCents: number;
+  bookingFeeRevenueCents: number;
+  totalRevenueCents: number;
+}
+
+export interface PropertyUtilisation {
+  propertyId: string;
+  from: string;
+  to: string;
+  chairs: ChairUtilisation[];
+  totals: Omit<ChairUtilisation, "chairId" | "name">;
+}
+
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
 // ============================================================================
 // Query Keys
 // ============================================================================
@@ -147,6 +211,10 @@ export const propertyKeys = {
   all: ["properties"] as const,
   my: () => [...propertyKeys.all, "my"] as const,
   detail: (propertyId: string) => [...propertyKeys.all, propertyId] as const,
+  availability: (propertyId: string, range: DateRange, mode: AvailabilityMode) =>
+    [...propertyKeys.detail(propertyId), "availability", mode, range.from, range.to] as const,
+  utilisation: (propertyId: string, range: DateRange) =>
+    [...propertyKeys.detail(propertyId), "utilisation", range.from, range.to] as const,
 };
 
 // ============================================================================
@@ -192,6 +260,51 @@ async function fetchProperty(propertyId: string): Promise<{ property: Property }
   return response.json();
 }
 
+async function fetchPropertyAvailability(
+  propertyId: string,
+  range: DateRange,
+  mode: AvailabilityMode
+): Promise<{ availability: PropertyAvailability }> {
+  const params = new URLSearchParams({ from: range.from, to: range.to, mode });
+  const response = await fetch(`${API_URL}/api/v1/properties/${propertyId}/availability?${params}`, {
+    headers: {
+      "Content-Type": "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to fetch availability");
+  }
+
+  return response.json();
+}
+
+async function fetchPropertyUtilisation(
+  propertyId: string,
+  range: DateRange
+): Promise<{ utilisation: PropertyUtilisation }> {
+  const token = getAuthToken();
+  if (!token) {
+    throw new Error("Not authenticated");
+  }
+
+  const params = new URLSearchParams({ from: range.from, to: range.to });
+  const response = await fetch(`${API_URL}/api/v1/properties/${propertyId}/utilisation?${params}`, {
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to fetch utilisation");
+  }
+
+  return response.json();
+}
+
 async function createProperty(data: CreatePropertyRequest): Promise<{ property: Property }> {
   const token = getAuthToken();
   if (!token) {
@@ -433,6 +546,34 @@ export function useProperty(propertyId: string) {
   });
 }
 
+/**
+ * Hook to fetch free / busy calendars for a property's chairs
+ */
+export function usePropertyAvailability(
+  propertyId: string,
+  range: DateRange,
+  mode: AvailabilityMode = "PER_HOUR"
+) {
+  return useQuery({
+    queryKey: propertyKeys.availability(propertyId, range, mode),
+    queryFn: () => fetchPropertyAvailability(propertyId, range, mode),
+    enabled: !!propertyId,
+    ...queryConfigs.dynamic,
+  });
+}
+
+/**
+ * Hook to fetch utilisation and revenue per chair (owner only)
+ */
+export function usePropertyUtilisation(propertyId: string, range: DateRange) {
+  return useQuery({
+    queryKey: propertyKeys.utilisation(propertyId, range),
+    queryFn: () => fetchPropertyUtilisation(propertyId, range),
+    enabled: !!propertyId,
+    ...queryConfigs.standard,
+  });
+}
+
 // ============================================================================
 // Mutation Hooks - Property
 // ============================================================================
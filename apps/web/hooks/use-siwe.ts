@@ -12,6 +12,7 @@ import {
   authenticateWithSiwe,
   linkWallet,
   type SiweAuthResponse,
+  type TwoFactorChallenge,
   type LinkedAccount,
 } from "@/lib/auth-client";
 
@@ -26,8 +27,8 @@ export interface UseSiweReturn {
   chainId: number;
 
   // Actions
-  signIn: (role?: "CUSTOMER" | "STYLIST") => Promise<SiweAuthResponse | null>;
-  linkCurrentWallet: () => Promise<LinkedAccount | null>;
+  signIn: (role?: "CUSTOMER" | "STYLIST") => Promise<SiweAuthResponse | TwoFactorChallenge | null>;
+  linkCurrentWallet: (stepUpToken?: string) => Promise<LinkedAccount | null>;
   reset: () => void;
 }
 
@@ -45,10 +46,10 @@ export function useSiwe(): UseSiweReturn {
 
   /**
    * Sign in with connected wallet
-   * Creates account if new user
+   * Creates account if new user. Accounts with 2FA get a challenge instead.
    */
   const signIn = useCallback(
-    async (role: "CUSTOMER" | "STYLIST" = "CUSTOMER"): Promise<SiweAuthResponse | null> => {
+    async (role: "CUSTOMER" | "STYLIST" = "CUSTOMER"): Promise<SiweAuthResponse | TwoFactorChallenge | null> => {
       if (!address || !isConnected) {
         setError("Please connect your wallet first");
         setStatus("error");
@@ -92,9 +93,9 @@ export function useSiwe(): UseSiweReturn {
 
   /**
    * Link currently connected wallet to existing account
-   * Requires user to already be logged in
+   * Requires user to already be logged in, plus a LINKED_ACCOUNT step-up token
    */
-  const linkCurrentWallet = useCallback(async (): Promise<LinkedAccount | null> => {
+  const linkCurrentWallet = useCallback(async (stepUpToken?: string): Promise<LinkedAccount | null> => {
     if (!address || !isConnected) {
       setError("Please connect your wallet first");
       setStatus("error");
@@ -118,7 +119,7 @@ export function useSiwe(): UseSiweReturn {
       setStatus("verifying");
 
       // Step 3: Link wallet to account
-      const linkedAccount = await linkWallet(challenge.message, signature);
+      const linkedAccount = await linkWallet(challenge.message, signature, stepUpToken);
 
       setStatus("success");
       return linkedAccount;
@@ -0,0 +1,42 @@
+/**
+ * Step-Up Hook
+ * Ask the user to re-verify before a sensitive action and get a single-use
+ * step-up token for it. Render <StepUpDialog {...stepUpDialogProps} /> once
+ * in the component that uses the hook.
+ */
+
+"use client";
+
+import { useCallback, useRef, useState } from "react";
+import type { StepUpAction } from "../lib/two-factor-client";
+
+export function useStepUp() {
+  const [action, setAction] = useState<StepUpAction | null>(null);
+  const resolveRef = useRef<((token: string | null) => void) | null>(null);
+
+  const settle = useCallback((token: string | null) => {
+    resolveRef.current?.(token);
+    resolveRef.current = null;
+    setAction(null);
+  }, []);
+
+  /**
+   * Resolves with the step-up token, or null if the user cancelled
+   */
+  const requestStepUp = useCallback((nextAction: StepUpAction): Promise<string | null> => {
+    resolveRef.current?.(null);
+    return new Promise((resolve) => {
+      resolveRef.current = resolve;
+      setAction(nextAction);
+    });
+  }, []);
+
+  return {
+    requestStepUp,
+    stepUpDialogProps: {
+      action,
+      onVerified: (token: string) => settle(token),
+      onCancel: () => settle(null),
+    },
+  };
+}
@@ -40,6 +40,22 @@ export interface LoginRequest {
 export interface AuthResponse {
   user: AuthUser;
   token?: string; // Still returned for mobile clients
+  twoFactorEnrollmentRequired?: boolean; // Admins without 2FA
+}
+
+/**
+ * Returned instead of a session when the account has 2FA enabled.
+ * Finish with completeTwoFactorLogin.
+ */
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+  method: "TOTP" | "SMS";
+  expiresAt: string;
+}
+
+export function isTwoFactorChallenge(result: object): result is TwoFactorChallenge {
+  return "twoFactorRequired" in result && result.twoFactorRequired === true;
 }
 
 /**
@@ -78,6 +94,13 @@ export function createHeaders(includeContent = true): HeadersInit {
   return headers;
 }
 
+/**
+ * Header carrying a step-up token from POST /auth/step-up/verify
+ */
+export function stepUpHeaders(stepUpToken?: string): Record<string, string> {
+  return stepUpToken ? { "X-Step-Up-Token": stepUpToken } : {};
+}
+
 /**
  * V7.0.0: Authenticated fetch with cookie credentials
  * Automatically handles CSRF tokens and 401 refresh
@@ -158,8 +181,9 @@ export async function signup(data: SignupRequest): Promise<AuthResponse> {
 /**
  * Log in an existing user
  * V7.0.0: Token is set via httpOnly cookie automatically
+ * Accounts with 2FA get a TwoFactorChallenge instead of a session
  */
-export async function login(data: LoginRequest): Promise<AuthResponse> {
+export async function login(data: LoginRequest): Promise<AuthResponse | TwoFactorChallenge> {
   const response = await fetch(`${API_BASE_URL}/auth/login`, {
     method: "POST",
     credentials: "include",
@@ -175,6 +199,28 @@ export async function login(data: LoginRequest): Promise<AuthResponse> {
   return response.json();
 }
 
+/**
+ * Finish a 2FA sign-in with an authenticator / SMS code or a recovery code
+ */
+export async function completeTwoFactorLogin(
+  challengeToken: string,
+  input: { code?: string; recoveryCode?: string }
+): Promise<AuthResponse> {
+  const response = await fetch(`${API_BASE_URL}/auth/2fa/login`, {
+    method: "POST",
+    credentials: "include",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ challengeToken, ...input }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error?.message || "Verification failed");
+  }
+
+  return response.json();
+}
+
 /**
  * Log out the current user
  * V7.0.0: Clears httpOnly cookies on server
@@ -287,7 +333,7 @@ export async function requestSiweChallenge(
  */
 export async function authenticateWithSiwe(
   data: SiweAuthRequest
-): Promise<SiweAuthResponse> {
+): Promise<SiweAuthResponse | TwoFactorChallenge> {
   const response = await fetch(`${API_BASE_URL}/auth/siwe`, {
     method: "POST",
     credentials: "include",
@@ -322,13 +368,16 @@ export async function getLinkedAccounts(): Promise<LinkedAccount[]> {
 /**
  * Link an external wallet to the current account
  * V7.0.0: Uses cookies for authentication, CSRF token in header
+ * Needs a LINKED_ACCOUNT step-up token
  */
 export async function linkWallet(
   message: string,
-  signature: string
+  signature: string,
+  stepUpToken?: string
 ): Promise<LinkedAccount> {
   const response = await authFetch(`${API_BASE_URL}/auth/link-wallet`, {
     method: "POST",
+    headers: stepUpHeaders(stepUpToken),
     body: JSON.stringify({ message, signature }),
   });
 
@@ -344,11 +393,12 @@ export async function linkWallet(
 /**
  * Unlink an authentication method from the current account
  * V7.0.0: Uses cookies for authentication, CSRF token in header
+ * Needs a LINKED_ACCOUNT step-up token
  */
-export async function unlinkAccount(accountId: string): Promise<void> {
+export async function unlinkAccount(accountId: string, stepUpToken?: string): Promise<void> {
   const response = await authFetch(
     `${API_BASE_URL}/auth/unlink-account/${accountId}`,
-    { method: "DELETE" }
+    { method: "DELETE", headers: stepUpHeaders(stepUpToken) }
   );
 
   if (!response.ok) {
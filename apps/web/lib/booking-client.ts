@@ -34,6 +34,19 @@ export interface BookingService {
   estimatedDurationMin: number;
 }
 
+export interface BookingLineItem {
+  id: string;
+  serviceId: string | null;
+  serviceName: string;
+  participantName: string | null;
+  durationMin: number;
+  priceAmountCents: string;
+  sortOrder: number;
+  // Set when the stylist changed the item before payment
+  originalDurationMin: number | null;
+  originalPriceAmountCents: string | null;
+}
+
 export interface Booking {
   id: string;
   status: BookingStatus;
@@ -48,11 +61,33 @@ export interface Booking {
   totalAmountCents: string;
   platformFeeCents: string;
   escrowTxHash: string | null;
+  // Deposit mode - null when paid in full at confirmation
+  depositAmountCents: string | null;
+  balanceAmountCents: string | null;
+  balanceStatus: "NOT_DUE" | "DUE" | "PAID" | "FORFEITED" | null;
+  balanceDueAt: string | null;
+  // One entry per service / person - empty for bookings made before line items
+  lineItems?: BookingLineItem[];
   createdAt: string;
   cancelledAt: string | null;
   completedAt: string | null;
 }
 
+export interface RescheduleProposal {
+  id: string;
+  bookingId: string;
+  proposedBy: string;
+  proposedByRole: "CUSTOMER" | "STYLIST";
+  proposedTimes: string[];
+  reason: string | null;
+  status: "PENDING" | "ACCEPTED" | "REJECTED" | "WITHDRAWN" | "SUPERSEDED";
+  respondedAt: string | null;
+  responseNote: string | null;
+  acceptedStartTime: string | null;
+  previousStartTime: string | null;
+  createdAt: string;
+}
+
 export interface BookingPage {
   bookings: Booking[];
   total: number;
@@ -63,12 +98,16 @@ export interface BookingPage {
 
 export interface CreateBookingRequest {
   stylistId: string;
-  serviceId: string;
+  // Single service, or lineItems for several services / people
+  serviceId?: string;
+  lineItems?: { serviceId: string; participantName?: string }[];
   scheduledStartTime: string;
   locationType: LocationType;
   locationAddress: string;
   locationLat?: number;
   locationLng?: number;
+  // Salon chair for FIXED / HYBRID stylists - location comes from its property
+  chairId?: string;
   notes?: string;
 }
 
@@ -197,6 +236,155 @@ export async function confirmPayment(
   return response.json();
 }
 
+/**
+ * Confirm the balance of a deposit booking was locked in escrow
+ * V8.0.0: Uses httpOnly cookie auth via authFetch
+ */
+export async function confirmBalancePayment(
+  bookingId: string,
+  escrowTxHash: string,
+  options?: { skipOnChainVerification?: boolean }
+): Promise<{
+  booking: Booking;
+  message: string;
+  escrow?: {
+    customer: string;
+    amount: string;
+    status: number;
+  };
+}> {
+  const response = await authFetch(`${API_URL}/api/v1/bookings/${bookingId}/confirm-balance-payment`, {
+    method: "POST",
+    body: JSON.stringify({
+      escrowTxHash,
+      skipOnChainVerification: options?.skipOnChainVerification ?? false,
+    }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error?.message || error.error || "Failed to confirm balance payment");
+  }
+
+  return response.json();
+}
+
+/**
+ * What the customer locks next: the deposit or full quote, or a due balance
+ */
+export interface PaymentInstructions {
+  bookingId: string;
+  leg: "FULL" | "DEPOSIT" | "BALANCE";
+  amount: string; // cents
+  escrowId: `0x${string}`; // key to pass to lockFunds
+  depositAmount: string | null;
+  balanceAmount: string | null;
+  balanceDeadline: string | null;
+  escrowAddress: string;
+  usdcAddress: string;
+}
+
+/**
+ * Get the escrow key and amount for the booking's next payment
+ * V8.0.0: Uses httpOnly cookie auth via authFetch
+ */
+export async function getPaymentInstructions(bookingId: string): Promise<PaymentInstructions> {
+  const response = await authFetch(`${API_URL}/api/v1/bookings/${bookingId}/payment-instructions`);
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error?.message || error.error || "Failed to load payment details");
+  }
+
+  return response.json();
+}
+
+/**
+ * Stylist adjusts line items before the customer pays
+ * V8.0.0: Uses httpOnly cookie auth via authFetch
+ */
+export async function adjustLineItems(
+  bookingId: string,
+  lineItems: { id: string; durationMin?: number; priceAmountCents?: number; remove?: boolean }[],
+  notes?: string
+): Promise<Booking> {
+  const response = await authFetch(`${API_URL}/api/v1/bookings/${bookingId}/line-items`, {
+    method: "PUT",
+    body: JSON.stringify({ lineItems, notes }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error?.message || error.error || "Failed to adjust booking");
+  }
+
+  return response.json();
+}
+
+/**
+ * Reschedule proposals on a booking, newest first
+ */
+export async function getRescheduleProposals(bookingId: string): Promise<RescheduleProposal[]> {
+  const response = await authFetch(`${API_URL}/api/v1/bookings/${bookingId}/reschedule-proposals`);
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error?.message || error.error || "Failed to fetch reschedule proposals");
+  }
+
+  const data = await response.json();
+  return data.proposals;
+}
+
+/**
+ * Propose one or more new times for a booking (customer or stylist)
+ */
+export async function proposeReschedule(
+  bookingId: string,
+  startTimes: string[],
+  reason?: string
+): Promise<RescheduleProposal> {
+  const response = await authFetch(`${API_URL}/api/v1/bookings/${bookingId}/reschedule-proposals`, {
+    method: "POST",
+    body: JSON.stringify({ startTimes, reason }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error?.message || error.error || "Failed to propose new time");
+  }
+
+  const data = await response.json();
+  return data.proposal;
+}
+
+/**
+ * Respond to the other party's reschedule proposal.
+ * Accepting needs the chosen startTime; the booking moves to it.
+ */
+export async function respondToReschedule(
+  bookingId: string,
+  proposalId: string,
+  response: { action: "accept"; startTime: string; note?: string } | { action: "reject"; note?: string }
+): Promise<RescheduleProposal> {
+  const { action, ...body } = response;
+  const res = await authFetch(
+    `${API_URL}/api/v1/bookings/${bookingId}/reschedule-proposals/${proposalId}/${action}`,
+    {
+      method: "POST",
+      body: JSON.stringify(body),
+    }
+  );
+
+  if (!res.ok) {
+    const error = await res.json();
+    throw new Error(error.error?.message || error.error || "Failed to respond to reschedule");
+  }
+
+  const data = await res.json();
+  return data.proposal;
+}
+
 /**
  * Cancel a booking
  * V8.0.0: Uses httpOnly cookie auth via authFetch
@@ -111,6 +111,7 @@ export interface EarningsSummary {
   pendingEarnings: number;
   pendingBookingsCount: number;
   completedBookingsCount: number;
+  customerRewardDiscounts: number;
 }
 
 export interface EarningsTrendData {
@@ -124,9 +125,57 @@ export interface PayoutHistoryItem {
   serviceName: string;
   customerName: string;
   amount: number;
+  customerPaid: number;
+  rewardDiscount: number;
   status: string;
 }
 
+export type VerificationDocumentType =
+  | "GOVERNMENT_ID"
+  | "SELFIE"
+  | "CERTIFICATION"
+  | "BUSINESS_REGISTRATION"
+  | "PORTFOLIO_PROOF";
+
+export type VerificationPacketStatus =
+  | "DRAFT"
+  | "SUBMITTED"
+  | "MORE_INFO_REQUESTED"
+  | "APPROVED"
+  | "REJECTED";
+
+export interface VerificationDocument {
+  id: string;
+  type: VerificationDocumentType;
+  format: string;
+  bytes: number;
+  createdAt: string;
+}
+
+export interface VerificationPacket {
+  id: string;
+  status: VerificationPacketStatus;
+  submittedAt: string | null;
+  reviewedAt: string | null;
+  reviewNote: string | null;
+  documents: VerificationDocument[];
+  completeness: {
+    complete: boolean;
+    missingTypes: VerificationDocumentType[];
+    needsCredential: boolean;
+  };
+  editable: boolean;
+  createdAt: string;
+}
+
+export interface StylistVerification {
+  verificationStatus: "UNVERIFIED" | "PENDING" | "VERIFIED" | "SUSPENDED";
+  packet: VerificationPacket | null;
+  requiredDocumentTypes: VerificationDocumentType[];
+  credentialDocumentTypes: VerificationDocumentType[];
+  maxDocuments: number;
+}
+
 // ============================================================================
 // HELPER
 // ============================================================================
@@ -308,3 +357,50 @@ export async function fetchPayoutHistory(
   );
   return handleResponse(response);
 }
+
+// ============================================================================
+// VERIFICATION API
+// ============================================================================
+
+/**
+ * V8.0.0: Uses httpOnly cookie auth via authFetch
+ */
+export async function fetchVerification(): Promise<StylistVerification> {
+  const response = await authFetch(`${API_BASE}/api/v1/stylists/verification`);
+  return handleResponse<StylistVerification>(response);
+}
+
+/**
+ * Upload an ID, selfie or credential (image or PDF) into the open packet
+ */
+export async function uploadVerificationDocument(
+  type: VerificationDocumentType,
+  file: File
+): Promise<{ packet: VerificationPacket }> {
+  const response = await authFetch(`${API_BASE}/api/v1/stylists/verification/documents/${type}`, {
+    method: "POST",
+    body: file,
+    headers: { "Content-Type": file.type || "application/octet-stream" },
+  });
+  return handleResponse(response);
+}
+
+/**
+ * V8.0.0: Uses httpOnly cookie auth via authFetch
+ */
+export async function removeVerificationDocument(documentId: string): Promise<{ packet: VerificationPacket }> {
+  const response = await authFetch(`${API_BASE}/api/v1/stylists/verification/documents/${documentId}`, {
+    method: "DELETE",
+  });
+  return handleResponse(response);
+}
+
+/**
+ * Send the packet for admin review
+ */
+export async function submitVerification(): Promise<{ packet: VerificationPacket }> {
+  const response = await authFetch(`${API_BASE}/api/v1/stylists/verification/submit`, {
+    method: "POST",
+  });
+  return handleResponse(response);
+}
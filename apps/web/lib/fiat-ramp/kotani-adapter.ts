@@ -266,6 +266,7 @@ export const kotaniAdapter: FiatRampAdapter = {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          ...(request.stepUpToken && { "X-Step-Up-Token": request.stepUpToken }),
         },
         credentials: "include",
         body: JSON.stringify({
@@ -81,6 +81,8 @@ export interface OffRampRequest {
   };
   userData?: FiatRampUserData;
   redirectUrl?: string;
+  /** WITHDRAWAL step-up token - the Vlossom offramp endpoint requires one */
+  stepUpToken?: string;
 }
 
 /**
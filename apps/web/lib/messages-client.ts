@@ -38,15 +38,114 @@ export interface ConversationsListResponse {
   hasMore: boolean;
 }
 
+export type MessageType =
+  | "TEXT"
+  | "IMAGE"
+  | "VOICE_NOTE"
+  | "SERVICE_CARD"
+  | "AVAILABILITY_CARD"
+  | "BOOKING_LINK"
+  | "BOOKING_PROPOSAL";
+
+export type ProposalStatus = "PENDING" | "ACCEPTED" | "DECLINED" | "EXPIRED";
+
+export interface ImagePayload {
+  url: string;
+  publicId: string;
+  width?: number;
+  height?: number;
+}
+
+export interface VoiceNotePayload {
+  url: string;
+  publicId: string;
+  durationSeconds?: number;
+}
+
+export interface ServiceCardPayload {
+  serviceId: string;
+  stylistId: string;
+  name: string;
+  category: string;
+  priceAmountCents: string;
+  estimatedDurationMin: number;
+}
+
+export interface AvailabilitySlot {
+  startTime: string;
+  endTime: string;
+}
+
+export interface AvailabilityCardPayload {
+  serviceId?: string;
+  serviceName?: string;
+  slots: AvailabilitySlot[];
+}
+
+export interface BookingLinkPayload {
+  bookingId: string;
+  serviceType: string;
+  scheduledStartTime: string;
+  status: string;
+}
+
+export interface BookingProposalPayload {
+  serviceId: string;
+  serviceName: string;
+  scheduledStartTime: string;
+  estimatedDurationMin: number;
+  locationType: "STYLIST_BASE" | "CUSTOMER_HOME";
+  locationAddress: string;
+  locationLat?: number;
+  locationLng?: number;
+  quoteAmountCents: string;
+}
+
+/**
+ * `content` is the text, or a caption/summary for other types, so it can
+ * always be shown when a type isn't rendered specially
+ */
 export interface Message {
   id: string;
   content: string;
   senderId: string;
   isOwn: boolean;
+  type: MessageType;
+  payload:
+    | ImagePayload
+    | VoiceNotePayload
+    | ServiceCardPayload
+    | AvailabilityCardPayload
+    | BookingLinkPayload
+    | BookingProposalPayload
+    | null;
+  proposalStatus: ProposalStatus | null;
+  proposalExpiresAt: string | null;
+  proposalBookingId: string | null;
   readAt: string | null;
   createdAt: string;
 }
 
+/**
+ * Message bodies for POST /conversations/:id/messages - attachments go
+ * through uploadMessageAttachment instead
+ */
+export type SendMessageInput =
+  | { type: "TEXT"; content: string }
+  | { type: "SERVICE_CARD"; serviceId: string; content?: string }
+  | { type: "AVAILABILITY_CARD"; slots: AvailabilitySlot[]; serviceId?: string; content?: string }
+  | { type: "BOOKING_LINK"; bookingId: string; content?: string }
+  | {
+      type: "BOOKING_PROPOSAL";
+      serviceId: string;
+      scheduledStartTime: string;
+      locationType: "STYLIST_BASE" | "CUSTOMER_HOME";
+      locationAddress: string;
+      locationLat?: number;
+      locationLng?: number;
+      content?: string;
+    };
+
 export interface ConversationDetail {
   id: string;
   bookingId: string | null;
@@ -83,10 +182,44 @@ export interface SendMessageResponse {
   message: Message;
 }
 
+export interface AcceptProposalResponse {
+  bookingId: string;
+  message: Message;
+}
+
 export interface UnreadCountResponse {
   unreadCount: number;
 }
 
+/**
+ * Events from GET /conversations/stream. `message` arrives for messages the
+ * user sent too (from other devices); compare senderId to tell them apart.
+ */
+export type ConversationStreamEvent =
+  | { type: "connected"; userId: string; unreadCount: number; timestamp: string }
+  | {
+      type: "message";
+      conversationId: string;
+      message: Omit<Message, "isOwn"> & { conversationId: string };
+    }
+  | {
+      type: "message_updated";
+      conversationId: string;
+      message: Omit<Message, "isOwn"> & { conversationId: string };
+    }
+  | { type: "typing"; conversationId: string; userId: string; isTyping: boolean; expiresInMs: number }
+  | { type: "read"; conversationId: string; readerId: string; readAt: string; markedCount: number }
+  | { type: "unread"; conversationId: string; conversationUnreadCount: number; totalUnreadCount: number };
+
+export const CONVERSATION_STREAM_EVENTS: ConversationStreamEvent["type"][] = [
+  "connected",
+  "message",
+  "message_updated",
+  "typing",
+  "read",
+  "unread",
+];
+
 // ============================================================================
 // API Functions
 // ============================================================================
@@ -167,18 +300,20 @@ export async function getConversation(
 }
 
 /**
- * Send a message in a conversation
+ * Send a message in a conversation - plain text, or a card or proposal
  * V8.0.0: Uses httpOnly cookie auth via authFetch
  */
 export async function sendMessage(
   conversationId: string,
-  content: string
+  input: string | SendMessageInput
 ): Promise<SendMessageResponse> {
+  const body = typeof input === "string" ? { type: "TEXT", content: input } : input;
+
   const response = await authFetch(
     `${API_URL}/api/v1/conversations/${conversationId}/messages`,
     {
       method: "POST",
-      body: JSON.stringify({ content }),
+      body: JSON.stringify(body),
     }
   );
 
@@ -190,6 +325,79 @@ export async function sendMessage(
   return response.json();
 }
 
+/**
+ * Send a photo or voice note. The file is moderated before it is delivered.
+ */
+export async function uploadMessageAttachment(
+  conversationId: string,
+  kind: "image" | "voice",
+  file: Blob,
+  caption?: string
+): Promise<SendMessageResponse> {
+  const searchParams = new URLSearchParams();
+  if (caption) searchParams.set("caption", caption);
+
+  const response = await authFetch(
+    `${API_URL}/api/v1/conversations/${conversationId}/attachments/${kind}?${searchParams.toString()}`,
+    {
+      method: "POST",
+      body: file,
+      headers: { "Content-Type": file.type || "application/octet-stream" },
+    }
+  );
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error?.message || "Failed to send attachment");
+  }
+
+  return response.json();
+}
+
+/**
+ * Accept a stylist's booking proposal - creates the booking
+ */
+export async function acceptBookingProposal(
+  conversationId: string,
+  messageId: string
+): Promise<AcceptProposalResponse> {
+  const response = await authFetch(
+    `${API_URL}/api/v1/conversations/${conversationId}/messages/${messageId}/accept`,
+    {
+      method: "POST",
+    }
+  );
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error?.message || "Failed to accept proposal");
+  }
+
+  return response.json();
+}
+
+/**
+ * Decline a stylist's booking proposal
+ */
+export async function declineBookingProposal(
+  conversationId: string,
+  messageId: string
+): Promise<SendMessageResponse> {
+  const response = await authFetch(
+    `${API_URL}/api/v1/conversations/${conversationId}/messages/${messageId}/decline`,
+    {
+      method: "POST",
+    }
+  );
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error?.message || "Failed to decline proposal");
+  }
+
+  return response.json();
+}
+
 /**
  * Mark all messages in a conversation as read
  * V8.0.0: Uses httpOnly cookie auth via authFetch
@@ -270,3 +478,34 @@ export async function getUnreadCount(): Promise<UnreadCountResponse> {
 
   return response.json();
 }
+
+/**
+ * Open the realtime stream for all of the user's conversations
+ * Auth rides on the httpOnly cookie, so credentials must be sent
+ */
+export function openConversationStream(): EventSource {
+  return new EventSource(`${API_URL}/api/v1/conversations/stream`, {
+    withCredentials: true,
+  });
+}
+
+/**
+ * Tell the other participant the user started or stopped typing
+ */
+export async function sendTypingIndicator(
+  conversationId: string,
+  isTyping: boolean
+): Promise<void> {
+  const response = await authFetch(
+    `${API_URL}/api/v1/conversations/${conversationId}/typing`,
+    {
+      method: "POST",
+      body: JSON.stringify({ isTyping }),
+    }
+  );
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error?.message || "Failed to send typing indicator");
+  }
+}
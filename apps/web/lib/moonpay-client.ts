@@ -5,7 +5,7 @@
  * V8.0.0 Security Update: Migrated from Bearer tokens to httpOnly cookies
  */
 
-import { authFetch } from "./auth-client";
+import { authFetch, stepUpHeaders } from "./auth-client";
 
 const API_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3002";
 
@@ -48,14 +48,19 @@ export async function createDepositSession(params: {
  * Create a withdrawal session (offramp)
  * Converts USDC to fiat
  * V8.0.0: Uses httpOnly cookie auth via authFetch
+ * Needs a WITHDRAWAL step-up token
  */
-export async function createWithdrawalSession(params: {
-  amount: number; // USDC amount
-  fiatCurrency: "ZAR" | "USD" | "EUR";
-}): Promise<DepositSessionResult> {
+export async function createWithdrawalSession(
+  params: {
+    amount: number; // USDC amount
+    fiatCurrency: "ZAR" | "USD" | "EUR";
+  },
+  stepUpToken?: string
+): Promise<DepositSessionResult> {
   try {
     const response = await authFetch(`${API_URL}/api/v1/wallet/moonpay/withdraw`, {
       method: "POST",
+      headers: stepUpHeaders(stepUpToken),
       body: JSON.stringify(params),
     });
 
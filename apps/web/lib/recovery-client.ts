@@ -0,0 +1,155 @@
+/**
+ * Wallet Recovery API Client
+ * Guardians and guardian-approved social recovery of smart wallets
+ */
+
+import { authFetch, stepUpHeaders } from "./auth-client";
+
+const API_BASE_URL = `${process.env.NEXT_PUBLIC_API_URL || "http://localhost:3002"}/api/v1`;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RecoveryStatus = "REQUESTED" | "PENDING" | "EXECUTED" | "CANCELLED" | "EXPIRED";
+
+export interface WalletGuardian {
+  id: string;
+  address: string;
+  label: string | null;
+  status: "ACTIVE" | "REMOVED";
+  guardian: { id: string; displayName: string } | null;
+  addedTxHash: string | null;
+  createdAt: string;
+}
+
+export interface WalletGuardians {
+  walletAddress: string;
+  guardians: WalletGuardian[];
+  maxGuardians: number;
+  minApprovals: number;
+  recoveryDelayHours: number;
+  recoverable: boolean;
+}
+
+export interface WalletRecovery {
+  id: string;
+  walletAddress: string;
+  requesterId: string;
+  newOwner: string;
+  status: RecoveryStatus;
+  approvalCount: number;
+  minApprovals: number;
+  executeAfter: string | null;
+  guardians: Array<{
+    id: string;
+    address: string;
+    label: string | null;
+    displayName: string | null;
+    approved: boolean;
+  }>;
+  guardianCallData: string | null;
+  role: "REQUESTER" | "OWNER" | "GUARDIAN";
+  canApprove: boolean;
+  initiatedTxHash: string | null;
+  executedTxHash: string | null;
+  createdAt: string;
+  executedAt: string | null;
+  cancelledAt: string | null;
+}
+
+export interface RecoveryActionResult {
+  txHash: string | null;
+  recovery: WalletRecovery;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+async function handleResponse<T>(response: Response, fallback: string): Promise<T> {
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error?.details?.reason || error.error?.message || fallback);
+  }
+
+  return response.json();
+}
+
+// ============================================================================
+// Guardians
+// ============================================================================
+
+export async function getGuardians(): Promise<WalletGuardians> {
+  const response = await authFetch(`${API_BASE_URL}/wallet/guardians`);
+  return handleResponse<WalletGuardians>(response, "Failed to load guardians");
+}
+
+/**
+ * Nominate a guardian by wallet address - a Vlossom member's wallet address
+ * makes them an in-app guardian. Adding and removing need a GUARDIAN
+ * step-up token.
+ */
+export async function addGuardian(address: string, label?: string, stepUpToken?: string): Promise<WalletGuardian> {
+  const response = await authFetch(`${API_BASE_URL}/wallet/guardians`, {
+    method: "POST",
+    headers: stepUpHeaders(stepUpToken),
+    body: JSON.stringify({ address, label: label || undefined }),
+  });
+  const result = await handleResponse<{ guardian: WalletGuardian }>(response, "Failed to add guardian");
+  return result.guardian;
+}
+
+export async function removeGuardian(guardianId: string, stepUpToken?: string): Promise<void> {
+  const response = await authFetch(`${API_BASE_URL}/wallet/guardians/${guardianId}`, {
+    method: "DELETE",
+    headers: stepUpHeaders(stepUpToken),
+  });
+  await handleResponse<{ success: boolean }>(response, "Failed to remove guardian");
+}
+
+// ============================================================================
+// Recovery
+// ============================================================================
+
+/**
+ * Recoveries you requested, that target your wallet, or that you guard
+ */
+export async function getRecoveries(): Promise<WalletRecovery[]> {
+  const response = await authFetch(`${API_BASE_URL}/wallet/recovery`);
+  const result = await handleResponse<{ recoveries: WalletRecovery[] }>(response, "Failed to load recoveries");
+  return result.recoveries;
+}
+
+/**
+ * Ask a lost wallet's guardians to move it to your current wallet
+ */
+export async function requestRecovery(walletAddress: string, newOwner?: string): Promise<WalletRecovery> {
+  const response = await authFetch(`${API_BASE_URL}/wallet/recovery`, {
+    method: "POST",
+    body: JSON.stringify({ walletAddress, newOwner: newOwner || undefined }),
+  });
+  const result = await handleResponse<{ recovery: WalletRecovery }>(response, "Failed to request recovery");
+  return result.recovery;
+}
+
+export async function approveRecovery(recoveryId: string): Promise<RecoveryActionResult> {
+  const response = await authFetch(`${API_BASE_URL}/wallet/recovery/${recoveryId}/approve`, {
+    method: "POST",
+  });
+  return handleResponse<RecoveryActionResult>(response, "Failed to approve recovery");
+}
+
+export async function executeRecovery(recoveryId: string): Promise<RecoveryActionResult> {
+  const response = await authFetch(`${API_BASE_URL}/wallet/recovery/${recoveryId}/execute`, {
+    method: "POST",
+  });
+  return handleResponse<RecoveryActionResult>(response, "Failed to complete recovery");
+}
+
+export async function cancelRecovery(recoveryId: string): Promise<RecoveryActionResult> {
+  const response = await authFetch(`${API_BASE_URL}/wallet/recovery/${recoveryId}/cancel`, {
+    method: "POST",
+  });
+  return handleResponse<RecoveryActionResult>(response, "Failed to cancel recovery");
+}
@@ -0,0 +1,179 @@
+/**
+ * Two-Factor & Step-Up API Client
+ * Optional TOTP / SMS two-factor and step-up re-verification for money
+ * movement, linked accounts, guardians and password changes
+ */
+
+import { authFetch, stepUpHeaders } from "./auth-client";
+
+const API_BASE_URL = `${process.env.NEXT_PUBLIC_API_URL || "http://localhost:3002"}/api/v1`;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type TwoFactorMethod = "TOTP" | "SMS";
+
+export type StepUpMethod = TwoFactorMethod | "PASSWORD";
+
+export type StepUpAction = "TRANSFER" | "WITHDRAWAL" | "LINKED_ACCOUNT" | "GUARDIAN" | "PASSWORD_CHANGE";
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  method: TwoFactorMethod | null;
+  phone: string | null; // Masked
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+  transferStepUpThreshold: string; // USDC units (6 decimals)
+  required: boolean; // Admins can't turn 2FA off
+}
+
+export interface TotpEnrollment {
+  secret: string;
+  otpauthUrl: string;
+}
+
+export interface SmsEnrollment {
+  phone: string;
+  expiresAt: string;
+}
+
+export interface StepUpChallenge {
+  action: StepUpAction | null;
+  method: StepUpMethod;
+  expiresAt: string | null;
+}
+
+export interface StepUpToken {
+  stepUpToken: string;
+  action: StepUpAction;
+  expiresAt: string;
+}
+
+export interface TwoFactorCodeInput {
+  code?: string;
+  recoveryCode?: string;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Thrown when the API wants a step-up token for the request
+ */
+export class StepUpRequiredError extends Error {
+  constructor(message = "Please verify it's you to continue") {
+    super(message);
+    this.name = "StepUpRequiredError";
+  }
+}
+
+export function isStepUpRequiredError(body: { error?: { code?: string } }): boolean {
+  return body.error?.code === "STEP_UP_REQUIRED";
+}
+
+async function handleResponse<T>(response: Response, fallback: string): Promise<T> {
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    if (isStepUpRequiredError(error)) {
+      throw new StepUpRequiredError();
+    }
+    throw new Error(error.error?.message || fallback);
+  }
+
+  return response.json();
+}
+
+// ============================================================================
+// Enrollment
+// ============================================================================
+
+export async function getTwoFactorStatus(): Promise<TwoFactorStatus> {
+  const response = await authFetch(`${API_BASE_URL}/auth/2fa`);
+  return handleResponse<TwoFactorStatus>(response, "Failed to load two-factor settings");
+}
+
+export async function startTotpEnrollment(): Promise<TotpEnrollment> {
+  const response = await authFetch(`${API_BASE_URL}/auth/2fa/totp`, { method: "POST" });
+  return handleResponse<TotpEnrollment>(response, "Failed to start authenticator setup");
+}
+
+/**
+ * Texts a code to the phone (E.164, e.g. +27821234567)
+ */
+export async function startSmsEnrollment(phone: string): Promise<SmsEnrollment> {
+  const response = await authFetch(`${API_BASE_URL}/auth/2fa/sms`, {
+    method: "POST",
+    body: JSON.stringify({ phone }),
+  });
+  return handleResponse<SmsEnrollment>(response, "Failed to send verification code");
+}
+
+/**
+ * Turns 2FA on. The recovery codes are only shown this once.
+ */
+export async function confirmTwoFactor(code: string): Promise<{ method: TwoFactorMethod; recoveryCodes: string[] }> {
+  const response = await authFetch(`${API_BASE_URL}/auth/2fa/confirm`, {
+    method: "POST",
+    body: JSON.stringify({ code }),
+  });
+  return handleResponse(response, "Failed to confirm two-factor setup");
+}
+
+export async function disableTwoFactor(input: TwoFactorCodeInput): Promise<void> {
+  const response = await authFetch(`${API_BASE_URL}/auth/2fa/disable`, {
+    method: "POST",
+    body: JSON.stringify(input),
+  });
+  await handleResponse<{ success: boolean }>(response, "Failed to turn off two-factor");
+}
+
+export async function regenerateRecoveryCodes(input: TwoFactorCodeInput): Promise<string[]> {
+  const response = await authFetch(`${API_BASE_URL}/auth/2fa/recovery-codes`, {
+    method: "POST",
+    body: JSON.stringify(input),
+  });
+  const result = await handleResponse<{ recoveryCodes: string[] }>(response, "Failed to replace recovery codes");
+  return result.recoveryCodes;
+}
+
+/**
+ * Raising the threshold needs a TRANSFER step-up token
+ */
+export async function updateTransferThreshold(threshold: string, stepUpToken?: string): Promise<string> {
+  const response = await authFetch(`${API_BASE_URL}/auth/2fa/threshold`, {
+    method: "PATCH",
+    headers: stepUpHeaders(stepUpToken),
+    body: JSON.stringify({ transferStepUpThreshold: threshold }),
+  });
+  const result = await handleResponse<{ transferStepUpThreshold: string }>(response, "Failed to update limit");
+  return result.transferStepUpThreshold;
+}
+
+// ============================================================================
+// Step-Up
+// ============================================================================
+
+/**
+ * Begin re-verification - texts a code to SMS users. Without an action it
+ * is for turning 2FA off or replacing recovery codes.
+ */
+export async function startStepUp(action?: StepUpAction): Promise<StepUpChallenge> {
+  const response = await authFetch(`${API_BASE_URL}/auth/step-up/start`, {
+    method: "POST",
+    body: JSON.stringify({ action }),
+  });
+  return handleResponse<StepUpChallenge>(response, "Failed to start verification");
+}
+
+export async function verifyStepUp(
+  action: StepUpAction,
+  input: TwoFactorCodeInput & { password?: string }
+): Promise<StepUpToken> {
+  const response = await authFetch(`${API_BASE_URL}/auth/step-up/verify`, {
+    method: "POST",
+    body: JSON.stringify({ action, ...input }),
+  });
+  return handleResponse<StepUpToken>(response, "Verification failed");
+}
@@ -7,7 +7,7 @@
  * - EIP-55 address validation with viem
  */
 
-import { authFetch } from "./auth-client";
+import { authFetch, stepUpHeaders } from "./auth-client";
 import {
   isValidEthereumAddress,
   toChecksumAddress,
@@ -154,17 +154,21 @@ export async function claimFaucet(): Promise<{
  * Send USDC to another wallet address (P2P transfer)
  * V8.0.0: Uses httpOnly cookie auth via authFetch
  * V8.0.0: Validates and checksums address before sending
+ * Transfers at or above the user's step-up threshold come back with
+ * stepUpRequired - retry with a TRANSFER step-up token
  */
 export async function sendP2P(
   toAddress: string,
   amount: string, // Raw USDC units (6 decimals)
-  memo?: string
+  memo?: string,
+  stepUpToken?: string
 ): Promise<{
   success: boolean;
   transactionId?: string;
   userOpHash?: string;
   txHash?: string;
   error?: string;
+  stepUpRequired?: boolean;
 }> {
   // V8.0.0: Validate address before sending
   const validatedAddress = sanitizeAddress(toAddress);
@@ -177,6 +181,7 @@ export async function sendP2P(
 
   const response = await authFetch(`${API_URL}/api/v1/wallet/transfer`, {
     method: "POST",
+    headers: stepUpHeaders(stepUpToken),
     body: JSON.stringify({ toAddress: validatedAddress, amount, memo }),
   });
 
@@ -186,6 +191,7 @@ export async function sendP2P(
     return {
       success: false,
       error: data.error?.message || "Failed to send transfer",
+      stepUpRequired: data.error?.code === "STEP_UP_REQUIRED",
     };
   }
 
@@ -25,8 +25,9 @@ import {IEscrow} from "../interfaces/IEscrow.sol";
  *
  * Invariants:
  * - Each bookingId can only have one escrow record
- * - Escrow can only move from Locked -> Released or Locked -> Refunded
- * - Total released must equal total locked (no partial refunds in v1)
+ * - Escrow can only move from Locked -> Released, Locked -> Refunded or Locked -> Settled
+ * - Total released must equal total locked (refund() is full-amount only)
+ * - Settlement parts (refund + stylist + property + treasury) must equal total locked
  * - Only addresses with RELAYER_ROLE can trigger settlements/refunds
  */
 contract Escrow is IEscrow, AccessControl, ReentrancyGuard, Pausable {
@@ -233,6 +234,74 @@ contract Escrow is IEscrow, AccessControl, ReentrancyGuard, Pausable {
         emit FundsRefunded(bookingId, recipient, amount);
     }
 
+    /**
+     * @notice Settle escrowed funds across customer, stylist, property owner and treasury
+     * @param bookingId Unique identifier for the booking
+     * @param settlement Amounts and recipients for each party
+     *
+     * @dev Used for partial refunds (cancellation policy bands, dispute refund
+     * percentages) and bookings with a property owner payout. The customer
+     * portion always goes back to the wallet that locked the funds.
+     *
+     * Requirements:
+     * - caller must be authorized relayer
+     * - escrow must exist and be in Locked status
+     * - any party receiving a non-zero amount must have a valid address
+     * - customerRefund + stylistAmount + propertyAmount + treasuryFee must equal locked amount
+     *
+     * Effects:
+     * - Updates escrow status to Settled
+     * - Transfers each non-zero portion to its recipient
+     * - Emits FundsSettled event
+     */
+    function settle(
+        bytes32 bookingId,
+        Settlement calldata settlement
+    ) external onlyRelayer nonReentrant whenNotPaused {
+        // Input validation
+        if (settlement.stylistAmount > 0 && settlement.stylist == address(0)) revert InvalidAddress();
+        if (settlement.propertyAmount > 0 && settlement.propertyOwner == address(0)) revert InvalidAddress();
+        if (settlement.treasuryFee > 0 && settlement.treasury == address(0)) revert InvalidAddress();
+
+        EscrowRecord storage record = escrows[bookingId];
+        if (record.status != EscrowStatus.Locked) revert InvalidEscrowStatus();
+
+        uint256 totalAmount = settlement.customerRefund +
+            settlement.stylistAmount +
+            settlement.propertyAmount +
+            settlement.treasuryFee;
+        if (totalAmount != record.amount) revert AmountMismatch();
+
+        address customer = record.customer;
+
+        // Effects: Update state before external calls
+        record.status = EscrowStatus.Settled;
+
+        // Interactions: External calls come last
+        if (settlement.customerRefund > 0) {
+            usdc.safeTransfer(customer, settlement.customerRefund);
+        }
+        if (settlement.stylistAmount > 0) {
+            usdc.safeTransfer(settlement.stylist, settlement.stylistAmount);
+        }
+        if (settlement.propertyAmount > 0) {
+            usdc.safeTransfer(settlement.propertyOwner, settlement.propertyAmount);
+        }
+        if (settlement.treasuryFee > 0) {
+            usdc.safeTransfer(settlement.treasury, settlement.treasuryFee);
+        }
+
+        emit FundsSettled(
+            bookingId,
+            customer,
+            settlement.stylist,
+            settlement.customerRefund,
+            settlement.stylistAmount,
+            settlement.propertyAmount,
+            settlement.treasuryFee
+        );
+    }
+
     /**
      * @notice Get the locked balance for a booking
      * @param bookingId Unique identifier for the booking
@@ -301,7 +370,7 @@ contract Escrow is IEscrow, AccessControl, ReentrancyGuard, Pausable {
     /**
      * @notice Pause the contract - emergency stop mechanism
      * @dev Only callable by admin
-     * When paused, lockFunds, releaseFunds, and refund will revert
+     * When paused, lockFunds, releaseFunds, refund, and settle will revert
      */
     function pause() external onlyAdmin {
         _pause();
@@ -12,7 +12,8 @@ interface IEscrow {
         None,      // No escrow exists
         Locked,    // Funds are locked in escrow
         Released,  // Funds have been released to stylist
-        Refunded   // Funds have been refunded to customer
+        Refunded,  // Funds have been refunded to customer
+        Settled    // Funds have been split across customer, stylist, property and treasury
     }
 
     /// @notice Escrow record structure
@@ -22,6 +23,19 @@ interface IEscrow {
         EscrowStatus status;
     }
 
+    /// @notice Split of a locked amount across all settlement parties
+    /// @dev customerRefund is always paid to the escrow record's customer.
+    ///      The parts must add up to exactly the locked amount.
+    struct Settlement {
+        uint256 customerRefund;
+        address stylist;
+        uint256 stylistAmount;
+        address propertyOwner;
+        uint256 propertyAmount;
+        address treasury;
+        uint256 treasuryFee;
+    }
+
     /// @notice Emitted when funds are locked in escrow
     /// @param bookingId Unique identifier for the booking
     /// @param customer Address of the customer
@@ -54,6 +68,24 @@ interface IEscrow {
         uint256 amount
     );
 
+    /// @notice Emitted when funds are settled across multiple parties
+    /// @param bookingId Unique identifier for the booking
+    /// @param customer Address of the customer receiving the refund portion
+    /// @param stylist Address of the stylist receiving payment
+    /// @param customerRefund Amount refunded to customer
+    /// @param stylistAmount Amount sent to stylist
+    /// @param propertyAmount Amount sent to property owner
+    /// @param treasuryFee Amount sent to treasury as platform fee
+    event FundsSettled(
+        bytes32 indexed bookingId,
+        address indexed customer,
+        address indexed stylist,
+        uint256 customerRefund,
+        uint256 stylistAmount,
+        uint256 propertyAmount,
+        uint256 treasuryFee
+    );
+
     /// @notice Emitted when the relayer address is updated (deprecated)
     /// @param oldRelayer Previous relayer address
     /// @param newRelayer New relayer address
@@ -129,6 +161,12 @@ interface IEscrow {
         address recipient
     ) external;
 
+    /// @notice Settle funds across customer refund, stylist, property owner and treasury
+    /// @param bookingId Unique identifier for the booking
+    /// @param settlement Amounts and recipients for each party
+    /// @dev Only callable by authorized relayer. Parts must sum to the locked amount.
+    function settle(bytes32 bookingId, Settlement calldata settlement) external;
+
     /// @notice Get the locked balance for a booking
     /// @param bookingId Unique identifier for the booking
     /// @return amount The amount locked in escrow
@@ -466,6 +466,228 @@ describe("Escrow", function () {
     });
   });
 
+  describe("settle", function () {
+    // 50% cancellation band: half back to customer, rest split per pricing
+    const CUSTOMER_REFUND = ethers.parseUnits("50", USDC_DECIMALS);
+    const SETTLE_STYLIST_AMOUNT = ethers.parseUnits("40", USDC_DECIMALS);
+    const PROPERTY_AMOUNT = ethers.parseUnits("5", USDC_DECIMALS);
+    const TREASURY_FEE = ethers.parseUnits("5", USDC_DECIMALS);
+
+    function buildSettlement(overrides: Partial<{
+      customerRefund: bigint;
+      stylist: string;
+      stylistAmount: bigint;
+      propertyOwner: string;
+      propertyAmount: bigint;
+      treasury: string;
+      treasuryFee: bigint;
+    }> = {}) {
+      return {
+        customerRefund: CUSTOMER_REFUND,
+        stylist: stylist.address,
+        stylistAmount: SETTLE_STYLIST_AMOUNT,
+        propertyOwner: otherUser.address,
+        propertyAmount: PROPERTY_AMOUNT,
+        treasury: treasury.address,
+        treasuryFee: TREASURY_FEE,
+        ...overrides,
+      };
+    }
+
+    it("Should split funds across all parties", async function () {
+      const { escrow, usdc, relayer, customer, stylist, treasury, otherUser } = await loadFixture(
+        deployEscrowFixture
+      );
+
+      // Setup
+      await usdc.connect(customer).approve(await escrow.getAddress(), BOOKING_AMOUNT);
+      await escrow.connect(customer).lockFunds(BOOKING_ID, BOOKING_AMOUNT);
+
+      const customerBalanceBefore = await usdc.balanceOf(customer.address);
+
+      await expect(escrow.connect(relayer).settle(BOOKING_ID, buildSettlement()))
+        .to.emit(escrow, "FundsSettled")
+        .withArgs(
+          BOOKING_ID,
+          customer.address,
+          stylist.address,
+          CUSTOMER_REFUND,
+          SETTLE_STYLIST_AMOUNT,
+          PROPERTY_AMOUNT,
+          TREASURY_FEE
+        );
+
+      // Verify status updated
+      const record = await escrow.getEscrowRecord(BOOKING_ID);
+      expect(record.status).to.equal(4); // EscrowStatus.Settled
+      expect(await escrow.getEscrowBalance(BOOKING_ID)).to.equal(0);
+
+      // Verify USDC transfers
+      expect(await usdc.balanceOf(customer.address)).to.equal(customerBalanceBefore + CUSTOMER_REFUND);
+      expect(await usdc.balanceOf(stylist.address)).to.equal(SETTLE_STYLIST_AMOUNT);
+      expect(await usdc.balanceOf(otherUser.address)).to.equal(PROPERTY_AMOUNT);
+      expect(await usdc.balanceOf(treasury.address)).to.equal(TREASURY_FEE);
+      expect(await usdc.balanceOf(await escrow.getAddress())).to.equal(0);
+    });
+
+    it("Should allow full refund via settle with zero-address payees", async function () {
+      const { escrow, usdc, relayer, customer } = await loadFixture(deployEscrowFixture);
+
+      // Setup
+      await usdc.connect(customer).approve(await escrow.getAddress(), BOOKING_AMOUNT);
+      await escrow.connect(customer).lockFunds(BOOKING_ID, BOOKING_AMOUNT);
+
+      await escrow.connect(relayer).settle(
+        BOOKING_ID,
+        buildSettlement({
+          customerRefund: BOOKING_AMOUNT,
+          stylist: ethers.ZeroAddress,
+          stylistAmount: 0n,
+          propertyOwner: ethers.ZeroAddress,
+          propertyAmount: 0n,
+          treasury: ethers.ZeroAddress,
+          treasuryFee: 0n,
+        })
+      );
+
+      expect(await usdc.balanceOf(customer.address)).to.equal(INITIAL_USDC_BALANCE);
+    });
+
+    it("Should handle settlement without property payout", async function () {
+      const { escrow, usdc, relayer, customer, stylist, treasury } = await loadFixture(deployEscrowFixture);
+
+      // Setup
+      await usdc.connect(customer).approve(await escrow.getAddress(), BOOKING_AMOUNT);
+      await escrow.connect(customer).lockFunds(BOOKING_ID, BOOKING_AMOUNT);
+
+      await escrow.connect(relayer).settle(
+        BOOKING_ID,
+        buildSettlement({
+          customerRefund: 0n,
+          stylistAmount: STYLIST_AMOUNT,
+          propertyOwner: ethers.ZeroAddress,
+          propertyAmount: 0n,
+          treasuryFee: PLATFORM_FEE,
+        })
+      );
+
+      expect(await usdc.balanceOf(stylist.address)).to.equal(STYLIST_AMOUNT);
+      expect(await usdc.balanceOf(treasury.address)).to.equal(PLATFORM_FEE);
+    });
+
+    it("Should settle an odd-unit amount without leaving dust", async function () {
+      const { escrow, usdc, relayer, customer, stylist, treasury } = await loadFixture(deployEscrowFixture);
+      const lockedAmount = ethers.parseUnits("33.333333", USDC_DECIMALS);
+
+      // Setup
+      await usdc.connect(customer).approve(await escrow.getAddress(), lockedAmount);
+      await escrow.connect(customer).lockFunds(BOOKING_ID, lockedAmount);
+
+      // Split the way the API does: refund and fee round down, the stylist takes the remainder
+      const customerRefund = lockedAmount / 2n;
+      const treasuryFee = ((lockedAmount - customerRefund) * 10n) / 100n;
+      const stylistAmount = lockedAmount - customerRefund - treasuryFee;
+      expect(customerRefund + treasuryFee + stylistAmount).to.equal(lockedAmount);
+
+      const customerBalanceBefore = await usdc.balanceOf(customer.address);
+
+      await escrow.connect(relayer).settle(
+        BOOKING_ID,
+        buildSettlement({
+          customerRefund,
+          stylistAmount,
+          propertyOwner: ethers.ZeroAddress,
+          propertyAmount: 0n,
+          treasuryFee,
+        })
+      );
+
+      expect(await usdc.balanceOf(customer.address)).to.equal(customerBalanceBefore + customerRefund);
+      expect(await usdc.balanceOf(stylist.address)).to.equal(stylistAmount);
+      expect(await usdc.balanceOf(treasury.address)).to.equal(treasuryFee);
+      expect(await usdc.balanceOf(await escrow.getAddress())).to.equal(0);
+    });
+
+    it("Should revert if parts do not add up to locked amount", async function () {
+      const { escrow, relayer, customer } = await loadFixture(deployEscrowFixture);
+
+      // Setup
+      await usdc.connect(customer).approve(await escrow.getAddress(), BOOKING_AMOUNT);
+      await escrow.connect(customer).lockFunds(BOOKING_ID, BOOKING_AMOUNT);
+
+      // Under-allocated
+      await expect(
+        escrow
+          .connect(relayer)
+          .settle(BOOKING_ID, buildSettlement({ treasuryFee: TREASURY_FEE - 1n }))
+      ).to.be.revertedWithCustomError(escrow, "AmountMismatch");
+
+      // Over-allocated
+      await expect(
+        escrow
+          .connect(relayer)
+          .settle(BOOKING_ID, buildSettlement({ customerRefund: CUSTOMER_REFUND + 1n }))
+      ).to.be.revertedWithCustomError(escrow, "AmountMismatch");
+
+      // Escrow remains locked
+      expect(await escrow.getEscrowBalance(BOOKING_ID)).to.equal(BOOKING_AMOUNT);
+    });
+
+    it("Should revert if a paid party has zero address", async function () {
+      const { escrow, relayer, customer } = await loadFixture(deployEscrowFixture);
+
+      // Setup
+      await usdc.connect(customer).approve(await escrow.getAddress(), BOOKING_AMOUNT);
+      await escrow.connect(customer).lockFunds(BOOKING_ID, BOOKING_AMOUNT);
+
+      await expect(
+        escrow.connect(relayer).settle(BOOKING_ID, buildSettlement({ stylist: ethers.ZeroAddress }))
+      ).to.be.revertedWithCustomError(escrow, "InvalidAddress");
+
+      await expect(
+        escrow.connect(relayer).settle(BOOKING_ID, buildSettlement({ propertyOwner: ethers.ZeroAddress }))
+      ).to.be.revertedWithCustomError(escrow, "InvalidAddress");
+
+      await expect(
+        escrow.connect(relayer).settle(BOOKING_ID, buildSettlement({ treasury: ethers.ZeroAddress }))
+      ).to.be.revertedWithCustomError(escrow, "InvalidAddress");
+    });
+
+    it("Should revert if caller is not relayer", async function () {
+      const { escrow, customer } = await loadFixture(deployEscrowFixture);
+
+      // Setup
+      await usdc.connect(customer).approve(await escrow.getAddress(), BOOKING_AMOUNT);
+      await escrow.connect(customer).lockFunds(BOOKING_ID, BOOKING_AMOUNT);
+
+      await expect(escrow.connect(customer).settle(BOOKING_ID, buildSettlement()))
+        .to.be.revertedWithCustomError(escrow, "UnauthorizedCaller");
+    });
+
+    it("Should revert if escrow not in Locked status", async function () {
+      const { escrow, relayer } = await loadFixture(deployEscrowFixture);
+
+      // Non-existent booking
+      await expect(escrow.connect(relayer).settle(BOOKING_ID, buildSettlement()))
+        .to.be.revertedWithCustomError(escrow, "InvalidEscrowStatus");
+    });
+
+    it("Should not allow settling twice", async function () {
+      const { escrow, relayer, customer } = await loadFixture(deployEscrowFixture);
+
+      // Setup
+      await usdc.connect(customer).approve(await escrow.getAddress(), BOOKING_AMOUNT);
+      await escrow.connect(customer).lockFunds(BOOKING_ID, BOOKING_AMOUNT);
+
+      await escrow.connect(relayer).settle(BOOKING_ID, buildSettlement());
+
+      await expect(escrow.connect(relayer).settle(BOOKING_ID, buildSettlement()))
+        .to.be.revertedWithCustomError(escrow, "InvalidEscrowStatus");
+      await expect(escrow.connect(relayer).refund(BOOKING_ID, BOOKING_AMOUNT, customer.address))
+        .to.be.revertedWithCustomError(escrow, "InvalidEscrowStatus");
+    });
+  });
+
   describe("getEscrowBalance", function () {
     it("Should return zero for non-existent booking", async function () {
       const { escrow } = await loadFixture(deployEscrowFixture);
@@ -647,6 +869,32 @@ describe("Escrow", function () {
         .to.be.revertedWithCustomError(escrow, "EnforcedPause");
     });
 
+    it("Should block settle when paused", async function () {
+      const { escrow, usdc, owner, relayer, customer, stylist, treasury } = await loadFixture(
+        deployEscrowFixture
+      );
+
+      // Setup: Lock funds first
+      await usdc.connect(customer).approve(await escrow.getAddress(), BOOKING_AMOUNT);
+      await escrow.connect(customer).lockFunds(BOOKING_ID, BOOKING_AMOUNT);
+
+      // Pause
+      await escrow.connect(owner).pause();
+
+      // Try to settle - should fail
+      await expect(
+        escrow.connect(relayer).settle(BOOKING_ID, {
+          customerRefund: 0n,
+          stylist: stylist.address,
+          stylistAmount: STYLIST_AMOUNT,
+          propertyOwner: ethers.ZeroAddress,
+          propertyAmount: 0n,
+          treasury: treasury.address,
+          treasuryFee: PLATFORM_FEE,
+        })
+      ).to.be.revertedWithCustomError(escrow, "EnforcedPause");
+    });
+
     it("Should allow operations after unpause", async function () {
       const { escrow, usdc, owner, relayer, customer, stylist, treasury } = await loadFixture(
         deployEscrowFixture
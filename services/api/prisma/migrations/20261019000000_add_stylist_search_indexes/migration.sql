@@ -0,0 +1,23 @@
+-- Stylist search (lib/stylist-search): trigram text matching and geo radius
+-- queries run against these indexes instead of filtering in the API.
+-- Trigram and earthdistance indexes can't be declared in schema.prisma.
+
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS "pg_trgm";
+CREATE EXTENSION IF NOT EXISTS "cube";
+CREATE EXTENSION IF NOT EXISTS "earthdistance";
+
+-- CreateIndex: name/bio/specialties ILIKE and word_similarity
+CREATE INDEX "users_displayName_trgm_idx" ON "users" USING GIN ("displayName" gin_trgm_ops);
+CREATE INDEX "stylist_profiles_bio_trgm_idx" ON "stylist_profiles" USING GIN ("bio" gin_trgm_ops);
+CREATE INDEX "stylist_profiles_specialties_trgm_idx" ON "stylist_profiles" USING GIN (("specialties"::text) gin_trgm_ops);
+
+-- CreateIndex: earth_box lookups around a search point
+CREATE INDEX "stylist_profiles_baseLocation_earth_idx" ON "stylist_profiles" USING GIST (ll_to_earth("baseLocationLat", "baseLocationLng"))
+    WHERE "baseLocationLat" IS NOT NULL AND "baseLocationLng" IS NOT NULL;
+
+-- CreateIndex: matching active services by price
+CREATE INDEX "stylist_services_stylistId_isActive_priceAmountCents_idx" ON "stylist_services"("stylistId", "isActive", "priceAmountCents");
+
+-- CreateIndex: bookings taking a stylist's time in a window
+CREATE INDEX "bookings_stylistId_scheduledStartTime_idx" ON "bookings"("stylistId", "scheduledStartTime");
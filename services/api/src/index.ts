@@ -49,10 +49,13 @@ function validateProductionSecrets(): void {
 // Validate secrets before anything else
 validateProductionSecrets();
 import authRouter from "./routes/auth";
+import twoFactorRouter from "./routes/two-factor";
 import bookingsRouter from "./routes/bookings";
 import bookingsRealtimeRouter from "./routes/bookings-realtime";
 import stylistsRouter from "./routes/stylists";
+import stylistVerificationRouter from "./routes/stylist-verification";
 import walletRouter from "./routes/wallet";
+import walletRecoveryRouter from "./routes/wallet-recovery";
 import notificationsRouter from "./routes/notifications";
 import uploadRouter from "./routes/upload";
 import internalRouter from "./routes/internal";
@@ -67,17 +70,24 @@ import favoritesRouter from "./routes/favorites";
 import ritualsRouter from "./routes/rituals";
 import conversationsRouter from "./routes/conversations";
 import specialEventsRouter from "./routes/special-events";
+import bookingSeriesRouter from "./routes/booking-series";
+import waitlistRouter from "./routes/waitlist";
+import disputesRouter from "./routes/disputes";
 import adminPaymasterRouter from "./routes/admin/paymaster";
 import adminUsersRouter from "./routes/admin/users";
 import adminBookingsRouter from "./routes/admin/bookings";
 import adminDisputesRouter from "./routes/admin/disputes";
 import adminLogsRouter from "./routes/admin/logs";
 import adminDefiRouter from "./routes/admin/defi";
+import adminRentalsRouter from "./routes/admin/rentals";
+import adminPropertiesRouter from "./routes/admin/properties";
 import { errorHandler, notFoundHandler } from "./middleware/error-handler";
 import { logger, logRequest, logResponse } from "./lib/logger";
 import { apiSecurityHeaders, corsHeaders } from "./middleware/security-headers";
 import { rateLimiters } from "./middleware/rate-limiter";
 import { correlationIdMiddleware } from "./middleware/correlation-id";
+import { authenticate } from "./middleware/auth";
+import { requireTwoFactorSession } from "./middleware/step-up";
 import { setupSwagger } from "./lib/swagger";
 
 const app: ReturnType<typeof express> = express();
@@ -146,10 +156,14 @@ setupSwagger(app);
 
 // API v1 routes
 app.use("/api/v1/auth", authRouter);
+app.use("/api/v1/auth", twoFactorRouter);
 app.use("/api/v1/bookings", bookingsRouter);
 app.use("/api/v1/bookings", bookingsRealtimeRouter);
+// Before the stylist routes so /verification isn't taken as a stylist id
+app.use("/api/v1/stylists/verification", stylistVerificationRouter);
 app.use("/api/v1/stylists", stylistsRouter);
 app.use("/api/v1/wallet", walletRouter);
+app.use("/api/v1/wallet", walletRecoveryRouter);
 app.use("/api/v1/notifications", notificationsRouter);
 app.use("/api/v1/upload", uploadRouter);
 app.use("/api/v1/internal", internalRouter);
@@ -164,12 +178,19 @@ app.use("/api/v1/favorites", favoritesRouter);
 app.use("/api/v1/rituals", ritualsRouter);
 app.use("/api/v1/conversations", conversationsRouter);
 app.use("/api/v1/special-events", specialEventsRouter);
+app.use("/api/v1/booking-series", bookingSeriesRouter);
+app.use("/api/v1/waitlist", waitlistRouter);
+app.use("/api/v1/disputes", disputesRouter);
+// Admin sessions must be verified with a second factor
+app.use("/api/v1/admin", authenticate, requireTwoFactorSession);
 app.use("/api/v1/admin/paymaster", adminPaymasterRouter);
 app.use("/api/v1/admin/users", adminUsersRouter);
 app.use("/api/v1/admin/bookings", adminBookingsRouter);
 app.use("/api/v1/admin/disputes", adminDisputesRouter);
 app.use("/api/v1/admin/logs", adminLogsRouter);
 app.use("/api/v1/admin/defi", adminDefiRouter);
+app.use("/api/v1/admin/rentals", adminRentalsRouter);
+app.use("/api/v1/admin/properties", adminPropertiesRouter);
 
 // 404 handler - must come after all routes
 app.use(notFoundHandler);
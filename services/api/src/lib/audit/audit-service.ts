@@ -33,12 +33,42 @@ export const AuditActions = {
   VERIFY_PROPERTY: "VERIFY_PROPERTY",
   REJECT_PROPERTY: "REJECT_PROPERTY",
   SUSPEND_PROPERTY: "SUSPEND_PROPERTY",
+  REQUEST_PROPERTY_SUSPENSION: "REQUEST_PROPERTY_SUSPENSION",
+  CANCEL_PROPERTY_SUSPENSION: "CANCEL_PROPERTY_SUSPENSION",
+  RESOLVE_PROPERTY_DISPUTE: "RESOLVE_PROPERTY_DISPUTE",
+  UNSUSPEND_PROPERTY: "UNSUSPEND_PROPERTY",
+  REVOKE_PROPERTY: "REVOKE_PROPERTY",
+  REGISTER_PROPERTY: "REGISTER_PROPERTY",
+  SYNC_PROPERTY: "SYNC_PROPERTY",
+  DISPUTE_RENTAL_PAYMENT: "DISPUTE_RENTAL_PAYMENT",
+  RESOLVE_RENTAL_DISPUTE: "RESOLVE_RENTAL_DISPUTE",
 
   // Financial actions
   PROCESS_REFUND: "PROCESS_REFUND",
   MANUAL_SETTLEMENT: "MANUAL_SETTLEMENT",
   ADJUST_BALANCE: "ADJUST_BALANCE",
 
+  // Wallet recovery actions (actor is the user, or "system" for the sync job)
+  ADD_WALLET_GUARDIAN: "ADD_WALLET_GUARDIAN",
+  REMOVE_WALLET_GUARDIAN: "REMOVE_WALLET_GUARDIAN",
+  REQUEST_WALLET_RECOVERY: "REQUEST_WALLET_RECOVERY",
+  APPROVE_WALLET_RECOVERY: "APPROVE_WALLET_RECOVERY",
+  EXECUTE_WALLET_RECOVERY: "EXECUTE_WALLET_RECOVERY",
+  CANCEL_WALLET_RECOVERY: "CANCEL_WALLET_RECOVERY",
+  EXPIRE_WALLET_RECOVERY: "EXPIRE_WALLET_RECOVERY",
+
+  // Account security actions (actor is the user)
+  ENABLE_TWO_FACTOR: "ENABLE_TWO_FACTOR",
+  DISABLE_TWO_FACTOR: "DISABLE_TWO_FACTOR",
+  REGENERATE_RECOVERY_CODES: "REGENERATE_RECOVERY_CODES",
+
+  // Stylist verification (actor is the stylist for submissions, the admin for decisions)
+  SUBMIT_STYLIST_VERIFICATION: "SUBMIT_STYLIST_VERIFICATION",
+  APPROVE_STYLIST_VERIFICATION: "APPROVE_STYLIST_VERIFICATION",
+  REJECT_STYLIST_VERIFICATION: "REJECT_STYLIST_VERIFICATION",
+  REQUEST_VERIFICATION_INFO: "REQUEST_VERIFICATION_INFO",
+  UPDATE_VERIFICATION_STATUS: "UPDATE_VERIFICATION_STATUS",
+
   // System actions
   UPDATE_CONFIG: "UPDATE_CONFIG",
   CLEAR_CACHE: "CLEAR_CACHE",
@@ -53,7 +83,9 @@ export const TargetTypes = {
   BOOKING: "BOOKING",
   DISPUTE: "DISPUTE",
   PROPERTY: "PROPERTY",
+  CHAIR_RENTAL: "CHAIR_RENTAL",
   TRANSACTION: "TRANSACTION",
+  WALLET: "WALLET",
   SYSTEM: "SYSTEM",
 } as const;
 
@@ -0,0 +1,225 @@
+/**
+ * Booking Cancellation Tests
+ *
+ * Runs cancellations through the real escrow client with the chain mocked, so
+ * the amounts checked are the ones the Escrow contract would receive.
+ */
+
+// Mock clients - MUST be defined before jest.mock() calls reference them
+const mockPublicClient = {
+  readContract: jest.fn(),
+  waitForTransactionReceipt: jest.fn(),
+};
+
+const mockWalletClient = {
+  writeContract: jest.fn(),
+};
+
+jest.mock('viem', () => ({
+  createPublicClient: jest.fn(() => mockPublicClient),
+  createWalletClient: jest.fn(() => mockWalletClient),
+  http: jest.fn(),
+  fallback: jest.fn(() => 'mock-transport'),
+  keccak256: jest.fn((bytes) => `0x${Buffer.from(bytes).toString('hex').padStart(64, '0')}`),
+  toBytes: jest.fn((str) => Buffer.from(str)),
+}));
+
+jest.mock('viem/accounts', () => ({
+  privateKeyToAccount: jest.fn(() => ({ address: '0xRelayerAddress' })),
+}));
+
+jest.mock('./wallet/chain-client', () => ({
+  CHAIN: { id: 1337, name: 'hardhat' },
+  RPC_URL: 'http://localhost:8545',
+  publicClient: mockPublicClient,
+  getRelayerWalletClient: jest.fn(() => mockWalletClient),
+}));
+
+jest.mock('./escrow-rate-limiter', () => ({
+  escrowRateLimiter: {
+    canProceed: jest.fn(() => ({ canProceed: true })),
+    recordOperation: jest.fn(),
+  },
+}));
+
+jest.mock('@sentry/node', () => ({
+  captureException: jest.fn(),
+}));
+
+jest.mock('./prisma', () => ({
+  __esModule: true,
+  default: {
+    booking: { update: jest.fn() },
+    bookingStatusHistory: { create: jest.fn() },
+    escrowFailure: { create: jest.fn() },
+    chairReservation: { findUnique: jest.fn() },
+    user: { findUnique: jest.fn() },
+  },
+}));
+
+jest.mock('./notifications', () => ({
+  notifyBookingEvent: jest.fn(() => Promise.resolve()),
+}));
+
+jest.mock('./waitlist', () => ({
+  releaseSlotToWaitlist: jest.fn(() => Promise.resolve()),
+}));
+
+import { BookingStatus } from '@prisma/client';
+import prisma from './prisma';
+import { cancelBooking, type BookingWithParties } from './booking-cancellation';
+import { EscrowStatus } from './escrow-client';
+
+const HOUR = 60 * 60 * 1000;
+
+function makeBooking(overrides: Partial<BookingWithParties> = {}): BookingWithParties {
+  return {
+    id: 'booking-cancel-1',
+    status: BookingStatus.CONFIRMED,
+    customerId: 'customer-1',
+    stylistId: 'stylist-1',
+    quoteAmountCents: 10_000n, // $100
+    platformFeeCents: 1_000n,
+    propertyPayoutCents: null,
+    depositAmountCents: null,
+    balanceAmountCents: null,
+    balanceStatus: null,
+    scheduledStartTime: new Date(Date.now() + 10 * HOUR),
+    cancellationPolicy: null,
+    customer: { id: 'customer-1', walletAddress: '0xCustomerAddress', displayName: 'Customer' },
+    stylist: { id: 'stylist-1', walletAddress: '0xStylistAddress', displayName: 'Stylist' },
+    ...overrides,
+  } as unknown as BookingWithParties;
+}
+
+describe('cancelBooking', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.booking.update as jest.Mock).mockImplementation(({ where }) =>
+      Promise.resolve(makeBooking({ id: where.id, status: BookingStatus.CANCELLED }))
+    );
+    mockWalletClient.writeContract.mockResolvedValue('0xSettleTxHash');
+    mockPublicClient.waitForTransactionReceipt.mockResolvedValue({});
+  });
+
+  it('should settle a partial refund in USDC units, not cents', async () => {
+    // $100 locked = 10_000 cents = 100_000_000 USDC units
+    mockPublicClient.readContract.mockResolvedValue(['0xCustomerAddress', 100_000_000n, EscrowStatus.Locked]);
+
+    const result = await cancelBooking(makeBooking(), { cancelledBy: 'customer-1', reason: 'Change of plans' });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.refundAmountCents).toBe(5_000n);
+    }
+
+    // 50% refund - $50 back to the customer, the rest split 90/10
+    expect(mockWalletClient.writeContract).toHaveBeenCalledWith(
+      expect.objectContaining({
+        functionName: 'settle',
+        args: [
+          expect.any(String),
+          expect.objectContaining({
+            customerRefund: 50_000_000n,
+            stylistAmount: 45_000_000n,
+            treasuryFee: 5_000_000n,
+          }),
+        ],
+      })
+    );
+    expect(prisma.escrowFailure.create).not.toHaveBeenCalled();
+  });
+
+  it('should pay the property owner their chair fee from the retained part', async () => {
+    mockPublicClient.readContract.mockResolvedValue(['0xCustomerAddress', 100_000_000n, EscrowStatus.Locked]);
+    (prisma.chairReservation.findUnique as jest.Mock).mockResolvedValue({
+      chair: { property: { ownerId: 'owner-1' } },
+    });
+    (prisma.user.findUnique as jest.Mock).mockResolvedValue({ walletAddress: '0xOwnerAddress' });
+
+    const result = await cancelBooking(makeBooking({ propertyPayoutCents: 1_500n }), {
+      cancelledBy: 'customer-1',
+      reason: 'Change of plans',
+    });
+
+    expect(result.success).toBe(true);
+
+    // $50 retained: $5 fee, $15 chair fee, $30 to the stylist
+    expect(mockWalletClient.writeContract).toHaveBeenCalledWith(
+      expect.objectContaining({
+        functionName: 'settle',
+        args: [
+          expect.any(String),
+          expect.objectContaining({
+            customerRefund: 50_000_000n,
+            stylistAmount: 30_000_000n,
+            propertyOwner: '0xOwnerAddress',
+            propertyAmount: 15_000_000n,
+            treasuryFee: 5_000_000n,
+          }),
+        ],
+      })
+    );
+  });
+
+  it('should record a failure rather than pay the stylist the chair fee when the owner has no wallet', async () => {
+    mockPublicClient.readContract.mockResolvedValue(['0xCustomerAddress', 100_000_000n, EscrowStatus.Locked]);
+    (prisma.chairReservation.findUnique as jest.Mock).mockResolvedValue({
+      chair: { property: { ownerId: 'owner-1' } },
+    });
+    (prisma.user.findUnique as jest.Mock).mockResolvedValue({ walletAddress: null });
+
+    const result = await cancelBooking(makeBooking({ propertyPayoutCents: 1_500n }), {
+      cancelledBy: 'customer-1',
+      reason: 'Change of plans',
+    });
+
+    expect(result.success).toBe(true);
+    expect(mockWalletClient.writeContract).not.toHaveBeenCalled();
+    expect(prisma.escrowFailure.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({ operation: 'SETTLE', errorMessage: 'Property owner wallet not configured' }),
+      })
+    );
+  });
+
+  it('should take the stored discounted fee on the retained part, not the flat percentage', async () => {
+    // $100 service with a 25% tier discount on the 10% fee: quote $97.50, fee $7.50
+    mockPublicClient.readContract.mockResolvedValue(['0xCustomerAddress', 97_500_000n, EscrowStatus.Locked]);
+
+    const result = await cancelBooking(
+      makeBooking({ quoteAmountCents: 9_750n, platformFeeCents: 750n }),
+      { cancelledBy: 'customer-1', reason: 'Change of plans' }
+    );
+
+    expect(result.success).toBe(true);
+
+    // Half retained ($48.75) carries half the stored fee ($3.75)
+    expect(mockWalletClient.writeContract).toHaveBeenCalledWith(
+      expect.objectContaining({
+        functionName: 'settle',
+        args: [
+          expect.any(String),
+          expect.objectContaining({
+            customerRefund: 48_750_000n,
+            stylistAmount: 45_000_000n,
+            treasuryFee: 3_750_000n,
+          }),
+        ],
+      })
+    );
+  });
+
+  it('should report no refund for a booking that was never paid', async () => {
+    const result = await cancelBooking(makeBooking({ status: BookingStatus.PENDING_CUSTOMER_PAYMENT }), {
+      cancelledBy: 'stylist-1',
+      reason: 'Unavailable',
+    });
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.refundAmountCents).toBe(0n);
+    }
+    expect(mockWalletClient.writeContract).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,335 @@
+// Booking Cancellation
+// Reference: docs/vlossom/07-booking-and-approval-flow.md
+//
+// Shared by POST /bookings/:id/cancel and recurring series cancellation
+// ("this and following"), so every cancelled occurrence gets the same
+// refund treatment as a one-off booking.
+
+import { BalanceStatus, BookingStatus, Prisma } from "@prisma/client";
+import type { Address } from "viem";
+import prisma from "./prisma";
+import { logger } from "./logger";
+import { validateTransition } from "./booking-state-machine";
+import { getBalanceEscrowKey, getUpfrontAmountCents, isDepositBooking } from "./booking-deposit";
+import {
+  calculateCustomerRefund,
+  calculateStylistCancellationRefund,
+  canCancelBooking,
+  parseCancellationPolicySnapshot,
+} from "./cancellation-policy";
+import { refundFromEscrow } from "./escrow-client";
+import { allocateRetainedPayout, getPropertyPayeeAddress, settleEscrowLeg } from "./chair-reservations";
+import { completeInstantPayoutRelease, getStylistShareCents, resolveStylistPayee } from "./smoothing-buffer";
+import { notifyBookingEvent } from "./notifications";
+import { releaseSlotToWaitlist } from "./waitlist";
+
+export type BookingWithParties = Prisma.BookingGetPayload<{
+  include: { customer: true; stylist: true };
+}>;
+
+export interface CancelBookingOptions {
+  cancelledBy: string; // userId of the customer or stylist
+  reason: string;
+  /** Send the usual BOOKING_CANCELLED notifications (default true) */
+  notify?: boolean;
+}
+
+export type CancelBookingResult =
+  | {
+      success: true;
+      booking: BookingWithParties;
+      refundAmountCents: bigint;
+      details: string;
+    }
+  | {
+      success: false;
+      error: "CANNOT_CANCEL" | "INVALID_STATUS_TRANSITION";
+      message: string;
+    };
+
+/**
+ * Cancel a booking and return any locked funds according to who cancelled.
+ * Authorization is the caller's job. Escrow failures are recorded for
+ * manual review and never block the cancellation.
+ */
+export async function cancelBooking(
+  booking: BookingWithParties,
+  options: CancelBookingOptions
+): Promise<CancelBookingResult> {
+  const { cancelledBy, reason, notify = true } = options;
+  const id = booking.id;
+
+  // Check if cancellation is allowed
+  if (!canCancelBooking(booking.status)) {
+    return {
+      success: false,
+      error: "CANNOT_CANCEL",
+      message: `Booking cannot be cancelled in ${booking.status} status`,
+    };
+  }
+
+  const isStylist = booking.stylistId === cancelledBy;
+
+  // Only bookings that were paid have funds locked in escrow
+  const wasFunded =
+    booking.status === BookingStatus.CONFIRMED || booking.status === BookingStatus.IN_PROGRESS;
+
+  // Calculate refund based on who is cancelling.
+  // Deposit bookings only have the deposit locked up front.
+  const lockedAmountCents = getUpfrontAmountCents(booking);
+  let refundAmountCents: bigint;
+  let cancellationDetails: string;
+
+  if (!wasFunded) {
+    refundAmountCents = 0n;
+    cancellationDetails = "Cancelled before payment - nothing to refund";
+  } else if (isStylist) {
+    // Stylist cancellation = full refund
+    refundAmountCents = calculateStylistCancellationRefund(lockedAmountCents);
+    cancellationDetails = "Stylist cancelled - full refund";
+  } else if (isDepositBooking(booking)) {
+    // Deposits are non-refundable when the customer cancels
+    refundAmountCents = 0n;
+    cancellationDetails = "Customer cancelled - deposit is non-refundable";
+  } else {
+    // Customer cancellation = timing-based refund under the booking's policy snapshot
+    const policy = parseCancellationPolicySnapshot(booking.cancellationPolicy);
+    const refund = calculateCustomerRefund(
+      booking.quoteAmountCents,
+      booking.scheduledStartTime,
+      policy
+    );
+    refundAmountCents = refund.refundAmountCents;
+    cancellationDetails = `Customer cancelled ${refund.hoursUntilStart.toFixed(1)}h before - ${refund.refundPercentage}% refund (${policy.preset} policy)`;
+  }
+
+  // Validate state transition
+  try {
+    validateTransition(booking.status, BookingStatus.CANCELLED);
+  } catch (transitionError) {
+    return {
+      success: false,
+      error: "INVALID_STATUS_TRANSITION",
+      message: transitionError instanceof Error ? transitionError.message : "Invalid transition",
+    };
+  }
+
+  // Update booking status
+  const updatedBooking = await prisma.booking.update({
+    where: { id },
+    data: {
+      status: BookingStatus.CANCELLED,
+      cancelledAt: new Date(),
+      cancelledBy,
+      cancellationReason: reason,
+    },
+    include: {
+      customer: true,
+      stylist: true,
+    },
+  });
+
+  // Log status change
+  await prisma.bookingStatusHistory.create({
+    data: {
+      bookingId: id,
+      fromStatus: booking.status,
+      toStatus: BookingStatus.CANCELLED,
+      changedBy: cancelledBy,
+      reason: `${reason} - ${cancellationDetails}`,
+    },
+  });
+
+  // Process refund via escrow contract
+  try {
+    // Get customer wallet address for refund
+    if (!booking.customer.walletAddress) {
+      logger.error("Customer wallet address not found", { customerId: booking.customerId });
+      throw new Error("Customer wallet not configured");
+    }
+
+    if (!wasFunded) {
+      logger.info("No escrow to refund - booking was not paid", { bookingId: id });
+    } else if (refundAmountCents >= lockedAmountCents) {
+      // Full refund
+      const result = await refundFromEscrow({
+        bookingId: id,
+        recipientAddress: booking.customer.walletAddress as Address,
+      });
+
+      if (!result.success) {
+        logger.error("Failed to refund from escrow", { error: result.error });
+
+        // M-1: Record escrow failure for manual review
+        await prisma.escrowFailure.create({
+          data: {
+            bookingId: id,
+            operation: "REFUND",
+            errorMessage: result.error || "Unknown error",
+            txHash: result.txHash,
+            amount: refundAmountCents,
+            metadata: {
+              customerAddress: booking.customer.walletAddress,
+              originalAmount: lockedAmountCents.toString(),
+            },
+          },
+        });
+
+        // Log the error but don't fail the cancellation
+        // Support team can manually process refund if needed
+      } else {
+        logger.info("Refund processed successfully", { txHash: result.txHash });
+      }
+    } else {
+      // Partial or no refund - settle the retained portion to the stylist
+      if (!booking.stylist.walletAddress) {
+        logger.error("Stylist wallet address not found", { stylistId: booking.stylistId });
+        throw new Error("Stylist wallet not configured");
+      }
+
+      // The treasury keeps the booking's stored fee on the retained part, and
+      // a salon chair booking still pays the property owner's chair fee from it
+      const propertyOwnerAddress =
+        (booking.propertyPayoutCents ?? 0n) > 0n ? await getPropertyPayeeAddress(id) : null;
+      const [leg] = allocateRetainedPayout(
+        [{ amountCents: lockedAmountCents, refundCents: refundAmountCents }],
+        booking
+      );
+
+      // Stylists already paid from the smoothing buffer have their share
+      // settled to the relayer, which repays the buffer
+      const stylistPayee = await resolveStylistPayee(booking, booking.stylist.walletAddress as Address);
+
+      const result = await settleEscrowLeg({
+        escrowKey: id,
+        refundCents: refundAmountCents,
+        platformFeeCents: leg.platformFeeCents,
+        propertyAmountCents: leg.propertyAmountCents,
+        stylistAddress: stylistPayee.address,
+        propertyOwnerAddress,
+      });
+
+      if (!result.success) {
+        logger.error("Failed to settle escrow", { error: result.error });
+
+        // M-1: Record escrow failure for manual review
+        await prisma.escrowFailure.create({
+          data: {
+            bookingId: id,
+            operation: "SETTLE",
+            errorMessage: result.error || "Unknown error",
+            txHash: result.txHash,
+            amount: lockedAmountCents,
+            metadata: {
+              customerAddress: booking.customer.walletAddress,
+              stylistAddress: booking.stylist.walletAddress,
+              refundAmount: refundAmountCents.toString(),
+              platformFeeCents: leg.platformFeeCents.toString(),
+              propertyOwnerAddress,
+              propertyAmount: leg.propertyAmountCents.toString(),
+            },
+          },
+        });
+      } else {
+        logger.info("Partial refund settled successfully", { txHash: result.txHash });
+
+        if (stylistPayee.instantPaid) {
+          // Anything the refund took from the stylist's share is recorded as a shortfall
+          const releasedCents = getStylistShareCents([{ ...leg, amountCents: leg.amountCents - leg.refundCents }]);
+          const reconciled = await completeInstantPayoutRelease(id, releasedCents);
+          if (!reconciled.success) {
+            logger.error("Instant payout left for the scheduler to reconcile", { bookingId: id, error: reconciled.error });
+          }
+        }
+      }
+    }
+  } catch (refundError) {
+    logger.error("Error processing refund", { error: refundError });
+
+    // M-1: Record escrow failure for manual review
+    try {
+      await prisma.escrowFailure.create({
+        data: {
+          bookingId: id,
+          operation: refundAmountCents >= lockedAmountCents ? "REFUND" : "SETTLE",
+          errorMessage: refundError instanceof Error ? refundError.message : String(refundError),
+          amount: refundAmountCents,
+          metadata: {
+            errorStack: refundError instanceof Error ? refundError.stack : undefined,
+          },
+        },
+      });
+    } catch (dbError) {
+      logger.error("Failed to record escrow failure", { error: dbError });
+    }
+
+    // Continue - don't block cancellation on escrow failure
+  }
+
+  // A paid balance is always returned - the service wasn't delivered
+  const balanceRefundCents =
+    wasFunded && booking.balanceStatus === BalanceStatus.PAID ? booking.balanceAmountCents ?? 0n : 0n;
+
+  if (balanceRefundCents > 0n) {
+    const result = await refundFromEscrow({
+      bookingId: getBalanceEscrowKey(id),
+      recipientAddress: booking.customer.walletAddress as Address,
+    });
+
+    if (!result.success) {
+      logger.error("Failed to refund balance from escrow", { error: result.error });
+
+      // M-1: Record escrow failure for manual review
+      await prisma.escrowFailure.create({
+        data: {
+          bookingId: id,
+          operation: "REFUND",
+          errorMessage: result.error || "Unknown error",
+          txHash: result.txHash,
+          amount: balanceRefundCents,
+          metadata: {
+            leg: "BALANCE",
+            customerAddress: booking.customer.walletAddress,
+          },
+        },
+      }).catch((dbError) => logger.error("Failed to record escrow failure", { error: dbError }));
+    } else {
+      logger.info("Balance refund processed successfully", { txHash: result.txHash });
+    }
+  }
+
+  const totalRefundCents = refundAmountCents + balanceRefundCents;
+
+  if (notify) {
+    // F4.3: Send notifications to both parties about cancellation
+    const cancelledByCustomer = booking.customerId === cancelledBy;
+
+    // Notify the customer
+    notifyBookingEvent(updatedBooking.customerId, "BOOKING_CANCELLED", {
+      bookingId: id,
+      cancelledBy: cancelledByCustomer ? "you" : updatedBooking.stylist.displayName,
+      reason,
+      refundAmount: Number(totalRefundCents),
+    }).catch((err) => logger.error("Failed to send cancellation notification to customer", { error: err }));
+
+    // Notify the stylist
+    notifyBookingEvent(updatedBooking.stylistId, "BOOKING_CANCELLED", {
+      bookingId: id,
+      cancelledBy: cancelledByCustomer ? updatedBooking.customer.displayName : "you",
+      reason,
+      customerName: updatedBooking.customer.displayName,
+    }).catch((err) => logger.error("Failed to send cancellation notification to stylist", { error: err }));
+  }
+
+  // Offer the freed time to the stylist's waitlist
+  releaseSlotToWaitlist(updatedBooking).catch((err) =>
+    logger.error("Failed to release cancelled slot to waitlist", { error: err })
+  );
+
+  return {
+    success: true,
+    booking: updatedBooking,
+    refundAmountCents: totalRefundCents,
+    details: cancellationDetails,
+  };
+}
@@ -0,0 +1,102 @@
+import { BalanceStatus } from '@prisma/client';
+import {
+  calculateDepositSplit,
+  getBalanceEscrowKey,
+  getBalanceDeadline,
+  getDepositPercentage,
+  getLockedEscrowLegs,
+  getUpfrontAmountCents,
+  isDepositBooking,
+  BALANCE_PAYMENT_GRACE_HOURS,
+} from './booking-deposit';
+
+describe('Booking Deposit Module', () => {
+  const bookingId = 'booking-123';
+
+  describe('calculateDepositSplit', () => {
+    it('should split a quote 30/70', () => {
+      const split = calculateDepositSplit(10000n, 30);
+      expect(split).toEqual({ depositAmountCents: 3000n, balanceAmountCents: 7000n });
+    });
+
+    it('should round the deposit down and keep the total intact', () => {
+      const split = calculateDepositSplit(9999n, 33)!;
+      expect(split.depositAmountCents).toBe(3299n);
+      expect(split.depositAmountCents + split.balanceAmountCents).toBe(9999n);
+    });
+
+    it('should return null for full-payment services', () => {
+      expect(calculateDepositSplit(10000n, null)).toBeNull();
+      expect(calculateDepositSplit(10000n, undefined)).toBeNull();
+    });
+  });
+
+  describe('getDepositPercentage', () => {
+    it('should recover the percentage from a rounded split', () => {
+      const split = calculateDepositSplit(9999n, 33)!;
+      expect(getDepositPercentage({ quoteAmountCents: 9999n, depositAmountCents: split.depositAmountCents })).toBe(33);
+      expect(getDepositPercentage({ quoteAmountCents: 10000n, depositAmountCents: 3000n })).toBe(30);
+    });
+
+    it('should return null for full-payment bookings', () => {
+      expect(getDepositPercentage({ quoteAmountCents: 10000n, depositAmountCents: null })).toBeNull();
+    });
+  });
+
+  describe('escrow legs', () => {
+    const fullPayment = {
+      id: bookingId,
+      quoteAmountCents: 10000n,
+      depositAmountCents: null,
+      balanceAmountCents: null,
+      balanceStatus: null,
+    };
+    const deposit = {
+      id: bookingId,
+      quoteAmountCents: 10000n,
+      depositAmountCents: 3000n,
+      balanceAmountCents: 7000n,
+      balanceStatus: BalanceStatus.NOT_DUE,
+    };
+
+    it('should use a separate escrow key for the balance', () => {
+      expect(getBalanceEscrowKey(bookingId)).toBe('booking-123:balance');
+      expect(getBalanceEscrowKey(bookingId)).not.toBe(bookingId);
+    });
+
+    it('should lock the full quote up front without a deposit', () => {
+      expect(isDepositBooking(fullPayment)).toBe(false);
+      expect(getUpfrontAmountCents(fullPayment)).toBe(10000n);
+      expect(getLockedEscrowLegs(fullPayment)).toEqual([
+        { leg: 'FULL', escrowKey: bookingId, amountCents: 10000n },
+      ]);
+    });
+
+    it('should only report the deposit leg until the balance is paid', () => {
+      expect(isDepositBooking(deposit)).toBe(true);
+      expect(getUpfrontAmountCents(deposit)).toBe(3000n);
+      expect(getLockedEscrowLegs(deposit)).toEqual([
+        { leg: 'DEPOSIT', escrowKey: bookingId, amountCents: 3000n },
+      ]);
+      expect(getLockedEscrowLegs({ ...deposit, balanceStatus: BalanceStatus.DUE })).toHaveLength(1);
+    });
+
+    it('should report both legs once the balance is paid', () => {
+      const legs = getLockedEscrowLegs({ ...deposit, balanceStatus: BalanceStatus.PAID });
+      expect(legs).toEqual([
+        { leg: 'DEPOSIT', escrowKey: bookingId, amountCents: 3000n },
+        { leg: 'BALANCE', escrowKey: 'booking-123:balance', amountCents: 7000n },
+      ]);
+      expect(legs.reduce((sum, leg) => sum + leg.amountCents, 0n)).toBe(10000n);
+    });
+  });
+
+  describe('getBalanceDeadline', () => {
+    it('should add the grace period to the due time', () => {
+      const dueAt = new Date('2026-01-01T10:00:00Z');
+      expect(getBalanceDeadline(dueAt).getTime() - dueAt.getTime()).toBe(
+        BALANCE_PAYMENT_GRACE_HOURS * 60 * 60 * 1000
+      );
+    });
+  });
+});
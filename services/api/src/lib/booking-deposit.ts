@@ -0,0 +1,131 @@
+// Booking Deposits & Balance-Due Payments
+// Reference: docs/vlossom/07-booking-and-approval-flow.md
+//
+// A deposit booking is paid in two escrow legs:
+// 1. Deposit - locked at PENDING_CUSTOMER_PAYMENT under the booking ID (non-refundable)
+// 2. Balance - locked once it falls due (stylist calls /start or /complete)
+//    under a separate escrow key derived from the booking ID
+
+import { BalanceStatus } from "@prisma/client";
+
+/**
+ * Allowed deposit percentages. Below 10% isn't worth a second payment,
+ * above 90% the balance leg costs more in gas than it's worth.
+ */
+export const DEPOSIT_LIMITS = {
+  MIN_PERCENTAGE: 10,
+  MAX_PERCENTAGE: 90,
+} as const;
+
+/**
+ * Hours the customer has to lock the balance once it is due.
+ * After this the scheduler cancels the booking and the deposit is forfeited.
+ */
+export const BALANCE_PAYMENT_GRACE_HOURS = 24;
+
+export type EscrowLeg = "FULL" | "DEPOSIT" | "BALANCE";
+
+/**
+ * Escrow leg that holds funds for a booking
+ */
+export interface EscrowLegInfo {
+  leg: EscrowLeg;
+  escrowKey: string; // Passed to escrow-client as the bookingId
+  amountCents: bigint;
+}
+
+interface DepositBooking {
+  id: string;
+  quoteAmountCents: bigint;
+  depositAmountCents: bigint | null;
+  balanceAmountCents: bigint | null;
+  balanceStatus: BalanceStatus | null;
+}
+
+/**
+ * Split a quote into deposit and balance.
+ * Returns null when the service takes full payment up front.
+ */
+export function calculateDepositSplit(
+  quoteAmountCents: bigint,
+  depositPercentage: number | null | undefined
+): { depositAmountCents: bigint; balanceAmountCents: bigint } | null {
+  if (!depositPercentage) return null;
+
+  const depositAmountCents = (quoteAmountCents * BigInt(depositPercentage)) / BigInt(100);
+
+  return {
+    depositAmountCents,
+    balanceAmountCents: quoteAmountCents - depositAmountCents,
+  };
+}
+
+/**
+ * Escrow key for the balance leg. The deposit leg keeps the booking ID so
+ * full-payment bookings and the indexer mapping are unchanged.
+ */
+export function getBalanceEscrowKey(bookingId: string): string {
+  return `${bookingId}:balance`;
+}
+
+/**
+ * Deposit percentage a booking was created with, recovered from its amounts.
+ * Used to re-split the quote when the stylist adjusts line items before payment.
+ */
+export function getDepositPercentage(
+  booking: Pick<DepositBooking, "quoteAmountCents" | "depositAmountCents">
+): number | null {
+  if (booking.depositAmountCents === null || booking.quoteAmountCents <= 0n) return null;
+
+  // The deposit was rounded down, so round the percentage back up
+  return Number(
+    (booking.depositAmountCents * BigInt(100) + booking.quoteAmountCents - BigInt(1)) /
+      booking.quoteAmountCents
+  );
+}
+
+/**
+ * Whether the booking is paid in two legs
+ */
+export function isDepositBooking(booking: Pick<DepositBooking, "depositAmountCents">): boolean {
+  return booking.depositAmountCents !== null;
+}
+
+/**
+ * Amount locked at confirmation (the deposit, or the full quote)
+ */
+export function getUpfrontAmountCents(
+  booking: Pick<DepositBooking, "quoteAmountCents" | "depositAmountCents">
+): bigint {
+  return booking.depositAmountCents ?? booking.quoteAmountCents;
+}
+
+/**
+ * Escrow legs currently holding funds for a funded booking
+ */
+export function getLockedEscrowLegs(booking: DepositBooking): EscrowLegInfo[] {
+  const legs: EscrowLegInfo[] = [
+    {
+      leg: isDepositBooking(booking) ? "DEPOSIT" : "FULL",
+      escrowKey: booking.id,
+      amountCents: getUpfrontAmountCents(booking),
+    },
+  ];
+
+  if (booking.balanceStatus === BalanceStatus.PAID && booking.balanceAmountCents !== null) {
+    legs.push({
+      leg: "BALANCE",
+      escrowKey: getBalanceEscrowKey(booking.id),
+      amountCents: booking.balanceAmountCents,
+    });
+  }
+
+  return legs;
+}
+
+/**
+ * Deadline for locking a due balance
+ */
+export function getBalanceDeadline(balanceDueAt: Date): Date {
+  return new Date(balanceDueAt.getTime() + BALANCE_PAYMENT_GRACE_HOURS * 60 * 60 * 1000);
+}
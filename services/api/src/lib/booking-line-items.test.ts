@@ -0,0 +1,122 @@
+import {
+  applyLineItemAdjustments,
+  buildLineItems,
+  describeLineItems,
+  summarizeLineItems,
+  LINE_ITEM_LIMITS,
+} from './booking-line-items';
+
+describe('Booking Line Items Module', () => {
+  const wash = {
+    id: 'svc-wash',
+    name: 'Wash',
+    category: 'Treatment',
+    estimatedDurationMin: 30,
+    priceAmountCents: 2000n,
+  };
+  const braids = {
+    id: 'svc-braids',
+    name: 'Braids',
+    category: 'Braids',
+    estimatedDurationMin: 180,
+    priceAmountCents: 15000n,
+  };
+  const menu = [wash, braids];
+
+  describe('buildLineItems', () => {
+    it('should price each item from the menu in order', () => {
+      const items = buildLineItems([{ serviceId: 'svc-wash' }, { serviceId: 'svc-braids' }], menu);
+      expect(items).toEqual([
+        expect.objectContaining({ serviceId: 'svc-wash', durationMin: 30, priceAmountCents: 2000n, sortOrder: 0 }),
+        expect.objectContaining({ serviceId: 'svc-braids', durationMin: 180, priceAmountCents: 15000n, sortOrder: 1 }),
+      ]);
+    });
+
+    it('should allow the same service for several people', () => {
+      const items = buildLineItems(
+        [
+          { serviceId: 'svc-braids', participantName: 'Ama' },
+          { serviceId: 'svc-braids', participantName: ' Kofi ' },
+        ],
+        menu
+      );
+      expect(Array.isArray(items)).toBe(true);
+      expect((items as { participantName: string | null }[]).map((i) => i.participantName)).toEqual(['Ama', 'Kofi']);
+    });
+
+    it('should reject services the stylist does not offer', () => {
+      expect(buildLineItems([{ serviceId: 'svc-other' }], menu)).toMatch(/not offered/);
+    });
+
+    it('should reject empty or oversized checkouts', () => {
+      expect(buildLineItems([], menu)).toMatch(/between 1 and/);
+      const tooMany = Array.from({ length: LINE_ITEM_LIMITS.MAX_ITEMS + 1 }, () => ({ serviceId: 'svc-wash' }));
+      expect(buildLineItems(tooMany, menu)).toMatch(/between 1 and/);
+    });
+  });
+
+  describe('summarizeLineItems', () => {
+    it('should add up duration and price', () => {
+      const summary = summarizeLineItems([
+        { serviceName: 'Wash', participantName: null, durationMin: 30, priceAmountCents: 2000n },
+        { serviceName: 'Braids', participantName: null, durationMin: 180, priceAmountCents: 15000n },
+      ]);
+      expect(summary).toEqual({ totalDurationMin: 210, subtotalCents: 17000n, serviceType: 'Wash + Braids' });
+    });
+
+    it('should name participants in the label', () => {
+      expect(
+        describeLineItems([
+          { serviceName: 'Braids', participantName: 'Ama' },
+          { serviceName: 'Braids', participantName: 'Kofi' },
+        ])
+      ).toBe('Braids (Ama) + Braids (Kofi)');
+    });
+  });
+
+  describe('applyLineItemAdjustments', () => {
+    const saved = [
+      { id: 'item-1', durationMin: 30, priceAmountCents: 2000n, originalDurationMin: null, originalPriceAmountCents: null },
+      { id: 'item-2', durationMin: 180, priceAmountCents: 15000n, originalDurationMin: null, originalPriceAmountCents: null },
+    ];
+
+    it('should change price and duration and keep the menu values', () => {
+      const result = applyLineItemAdjustments(saved, [{ id: 'item-2', durationMin: 240, priceAmountCents: 18000n }]);
+      expect(result).toEqual({
+        items: [
+          saved[0],
+          { id: 'item-2', durationMin: 240, priceAmountCents: 18000n, originalDurationMin: 180, originalPriceAmountCents: 15000n },
+        ],
+        removedIds: [],
+      });
+    });
+
+    it('should keep the first original value across repeated adjustments', () => {
+      const first = applyLineItemAdjustments(saved, [{ id: 'item-1', priceAmountCents: 2500n }]);
+      if (typeof first === 'string') throw new Error(first);
+      const second = applyLineItemAdjustments(first.items, [{ id: 'item-1', priceAmountCents: 3000n }]);
+      if (typeof second === 'string') throw new Error(second);
+      expect(second.items[0]).toMatchObject({ priceAmountCents: 3000n, originalPriceAmountCents: 2000n });
+    });
+
+    it('should remove items', () => {
+      const result = applyLineItemAdjustments(saved, [{ id: 'item-1', remove: true }]);
+      expect(result).toEqual({ items: [saved[1]], removedIds: ['item-1'] });
+    });
+
+    it('should not remove every item', () => {
+      expect(
+        applyLineItemAdjustments(saved, [
+          { id: 'item-1', remove: true },
+          { id: 'item-2', remove: true },
+        ])
+      ).toMatch(/At least one/);
+    });
+
+    it('should reject unknown items and invalid values', () => {
+      expect(applyLineItemAdjustments(saved, [{ id: 'item-9', remove: true }])).toMatch(/not part of this booking/);
+      expect(applyLineItemAdjustments(saved, [{ id: 'item-1', priceAmountCents: 0n }])).toMatch(/greater than zero/);
+      expect(applyLineItemAdjustments(saved, [{ id: 'item-1', durationMin: 5 }])).toMatch(/durationMin/);
+    });
+  });
+});
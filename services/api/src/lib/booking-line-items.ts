@@ -0,0 +1,181 @@
+// Booking Line Items (multi-service / multi-person checkout)
+// Reference: docs/vlossom/07-booking-and-approval-flow.md
+//
+// A booking is made of one or more line items performed back to back.
+// The booking's duration and quote are the sums of its items, so
+// availability, pricing and escrow all work on a single booking.
+
+/**
+ * Limits on a single checkout
+ */
+export const LINE_ITEM_LIMITS = {
+  MAX_ITEMS: 10,
+  MAX_PARTICIPANT_NAME_LENGTH: 80,
+  MIN_DURATION_MIN: 15,
+  MAX_DURATION_MIN: 12 * 60,
+} as const;
+
+/**
+ * A line item before it is saved
+ */
+export interface LineItemDraft {
+  serviceId: string | null;
+  serviceName: string;
+  serviceCategory: string;
+  participantName: string | null;
+  durationMin: number;
+  priceAmountCents: bigint;
+  sortOrder: number;
+}
+
+/**
+ * Stylist change to a saved line item before payment
+ */
+export interface LineItemAdjustment {
+  id: string;
+  durationMin?: number;
+  priceAmountCents?: bigint;
+  remove?: boolean;
+}
+
+interface ServiceMenuEntry {
+  id: string;
+  name: string;
+  category: string;
+  estimatedDurationMin: number;
+  priceAmountCents: bigint;
+}
+
+interface PricedItem {
+  serviceName: string;
+  participantName: string | null;
+  durationMin: number;
+  priceAmountCents: bigint;
+}
+
+interface SavedItem {
+  id: string;
+  durationMin: number;
+  priceAmountCents: bigint;
+  originalDurationMin: number | null;
+  originalPriceAmountCents: bigint | null;
+}
+
+/**
+ * Build line items from the requested services, priced from the stylist's menu.
+ * Returns an error message if a service is missing.
+ */
+export function buildLineItems(
+  requested: { serviceId: string; participantName?: string | null }[],
+  services: ServiceMenuEntry[]
+): LineItemDraft[] | string {
+  if (requested.length === 0 || requested.length > LINE_ITEM_LIMITS.MAX_ITEMS) {
+    return `A booking needs between 1 and ${LINE_ITEM_LIMITS.MAX_ITEMS} line items`;
+  }
+
+  const drafts: LineItemDraft[] = [];
+
+  for (const [sortOrder, item] of requested.entries()) {
+    const service = services.find((s) => s.id === item.serviceId);
+    if (!service) {
+      return `Service ${item.serviceId} is not offered by this stylist`;
+    }
+
+    drafts.push({
+      serviceId: service.id,
+      serviceName: service.name,
+      serviceCategory: service.category,
+      participantName: item.participantName?.trim() || null,
+      durationMin: service.estimatedDurationMin,
+      priceAmountCents: service.priceAmountCents,
+      sortOrder,
+    });
+  }
+
+  return drafts;
+}
+
+/**
+ * Label stored in Booking.serviceType, e.g. "Wash + Treatment" or
+ * "Braids (Ama) + Braids (Kofi)"
+ */
+export function describeLineItems(items: Pick<PricedItem, "serviceName" | "participantName">[]): string {
+  return items
+    .map((item) => (item.participantName ? `${item.serviceName} (${item.participantName})` : item.serviceName))
+    .join(" + ");
+}
+
+/**
+ * Totals for the whole booking
+ */
+export function summarizeLineItems(items: PricedItem[]): {
+  totalDurationMin: number;
+  subtotalCents: bigint;
+  serviceType: string;
+} {
+  return {
+    totalDurationMin: items.reduce((sum, item) => sum + item.durationMin, 0),
+    subtotalCents: items.reduce((sum, item) => sum + item.priceAmountCents, 0n),
+    serviceType: describeLineItems(items),
+  };
+}
+
+/**
+ * Apply stylist adjustments to saved items. Returns the items that remain
+ * (with their new values and the menu values they replaced) and the removed IDs,
+ * or an error message.
+ */
+export function applyLineItemAdjustments<T extends SavedItem>(
+  items: T[],
+  adjustments: LineItemAdjustment[]
+): { items: T[]; removedIds: string[] } | string {
+  const byId = new Map(items.map((item) => [item.id, item]));
+  const removedIds: string[] = [];
+  const updated = new Map<string, T>();
+
+  for (const adjustment of adjustments) {
+    const item = byId.get(adjustment.id);
+    if (!item) {
+      return `Line item ${adjustment.id} is not part of this booking`;
+    }
+
+    if (adjustment.remove) {
+      removedIds.push(item.id);
+      continue;
+    }
+
+    const next = { ...item };
+
+    if (adjustment.durationMin !== undefined && adjustment.durationMin !== item.durationMin) {
+      if (
+        !Number.isInteger(adjustment.durationMin) ||
+        adjustment.durationMin < LINE_ITEM_LIMITS.MIN_DURATION_MIN ||
+        adjustment.durationMin > LINE_ITEM_LIMITS.MAX_DURATION_MIN
+      ) {
+        return `durationMin must be between ${LINE_ITEM_LIMITS.MIN_DURATION_MIN} and ${LINE_ITEM_LIMITS.MAX_DURATION_MIN}`;
+      }
+      next.originalDurationMin = item.originalDurationMin ?? item.durationMin;
+      next.durationMin = adjustment.durationMin;
+    }
+
+    if (adjustment.priceAmountCents !== undefined && adjustment.priceAmountCents !== item.priceAmountCents) {
+      if (adjustment.priceAmountCents <= 0n) {
+        return "priceAmountCents must be greater than zero";
+      }
+      next.originalPriceAmountCents = item.originalPriceAmountCents ?? item.priceAmountCents;
+      next.priceAmountCents = adjustment.priceAmountCents;
+    }
+
+    updated.set(item.id, next);
+  }
+
+  const remaining = items
+    .filter((item) => !removedIds.includes(item.id))
+    .map((item) => updated.get(item.id) ?? item);
+
+  if (remaining.length === 0) {
+    return "At least one line item must remain - decline the booking instead";
+  }
+
+  return { items: remaining, removedIds };
+}
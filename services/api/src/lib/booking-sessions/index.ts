@@ -0,0 +1,17 @@
+/**
+ * Booking Sessions Module
+ * Unified exports for live session progress and the booking event stream
+ */
+
+export * from "./types";
+export { formatSessionFrame, parseLastEventId, planReplay, toCustomerProgress } from "./stream-events";
+export {
+  getSessionProgress,
+  saveSessionProgress,
+  clearSessionProgress,
+  listActiveSessionProgress,
+  publishSessionEvent,
+  openSessionStream,
+  refreshSessionViewers,
+  getSessionViewerCount,
+} from "./session-gateway";
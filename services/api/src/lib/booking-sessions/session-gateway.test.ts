@@ -0,0 +1,192 @@
+/**
+ * Booking Session Gateway Tests
+ *
+ * Numbered fan-out, Last-Event-ID replay, and the cross-instance session index
+ */
+
+jest.mock("../logger", () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const mockRedis = {
+  incr: jest.fn().mockResolvedValue(1),
+  decr: jest.fn().mockResolvedValue(0),
+  expire: jest.fn().mockResolvedValue(1),
+  del: jest.fn().mockResolvedValue(1),
+  get: jest.fn().mockResolvedValue(null),
+  set: jest.fn().mockResolvedValue("OK"),
+  rpush: jest.fn().mockResolvedValue(1),
+  ltrim: jest.fn().mockResolvedValue("OK"),
+  lrange: jest.fn().mockResolvedValue([]),
+  sadd: jest.fn().mockResolvedValue(1),
+  srem: jest.fn().mockResolvedValue(1),
+  smembers: jest.fn().mockResolvedValue([]),
+};
+
+const mockRedisClient = {
+  getRedis: jest.fn(),
+  publishMessage: jest.fn(),
+  subscribeChannel: jest.fn(),
+};
+
+jest.mock("../redis-client", () => mockRedisClient);
+
+import type { SessionProgress } from "./types";
+
+type Gateway = typeof import("./session-gateway");
+
+// A fresh module each time, so local streams and replay buffers don't leak between tests
+async function loadGateway(): Promise<Gateway> {
+  jest.resetModules();
+  return import("./session-gateway");
+}
+
+function createClient() {
+  return { write: jest.fn() };
+}
+
+function progress(bookingId: string, progressPercent = 0): SessionProgress {
+  return {
+    bookingId,
+    stylistId: "stylist-1",
+    progressPercent,
+    lastUpdate: "2026-03-10T12:00:00.000Z",
+  };
+}
+
+describe("without Redis", () => {
+  let gateway: Gateway;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockRedisClient.getRedis.mockResolvedValue(null);
+    mockRedisClient.publishMessage.mockResolvedValue(false);
+    mockRedisClient.subscribeChannel.mockResolvedValue(false);
+    gateway = await loadGateway();
+  });
+
+  it("numbers events per booking and delivers them to that booking's streams", async () => {
+    const watching = createClient();
+    const other = createClient();
+    await gateway.openSessionStream("booking-1", watching, null);
+    await gateway.openSessionStream("booking-2", other, null);
+
+    const first = await gateway.publishSessionEvent("booking-1", "progress", { progressPercent: 10 });
+    const second = await gateway.publishSessionEvent("booking-1", "arrived", {});
+
+    expect([first.id, second.id]).toEqual([1, 2]);
+    expect(watching.write).toHaveBeenCalledWith('id: 2\nevent: arrived\ndata: {}\n\n');
+    expect(other.write).not.toHaveBeenCalled();
+  });
+
+  it("replays only what a resuming client missed", async () => {
+    await gateway.publishSessionEvent("booking-1", "progress", { progressPercent: 10 });
+    await gateway.publishSessionEvent("booking-1", "progress", { progressPercent: 20 });
+    await gateway.publishSessionEvent("booking-1", "arrived", {});
+
+    const client = createClient();
+    await gateway.openSessionStream("booking-1", client, 1);
+
+    expect(client.write.mock.calls.map(([frame]) => frame)).toEqual([
+      'id: 2\nevent: progress\ndata: {"progressPercent":20}\n\n',
+      'id: 3\nevent: arrived\ndata: {}\n\n',
+    ]);
+  });
+
+  it("sends a new client the current progress with the latest id", async () => {
+    await gateway.saveSessionProgress(progress("booking-1", 40));
+    await gateway.publishSessionEvent("booking-1", "progress", { progressPercent: 40 });
+
+    const client = createClient();
+    await gateway.openSessionStream("booking-1", client, null);
+
+    expect(client.write).toHaveBeenCalledTimes(1);
+    expect(client.write.mock.calls[0][0]).toMatch(/^id: 1\nevent: progress\n/);
+  });
+
+  it("stops delivering once the stream is closed", async () => {
+    const client = createClient();
+    const close = await gateway.openSessionStream("booking-1", client, null);
+
+    close();
+    await gateway.publishSessionEvent("booking-1", "progress", {});
+
+    expect(client.write).not.toHaveBeenCalled();
+    expect(await gateway.getSessionViewerCount("booking-1")).toBe(0);
+  });
+});
+
+describe("with Redis", () => {
+  let gateway: Gateway;
+  let channelHandler: ((message: string) => void) | undefined;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    channelHandler = undefined;
+    mockRedisClient.getRedis.mockResolvedValue(mockRedis);
+    mockRedisClient.publishMessage.mockResolvedValue(true);
+    mockRedisClient.subscribeChannel.mockImplementation(async (_channel: string, handler: (message: string) => void) => {
+      channelHandler = handler;
+      return true;
+    });
+    gateway = await loadGateway();
+  });
+
+  it("buffers the event and delivers only what comes back on the channel", async () => {
+    mockRedis.incr.mockResolvedValueOnce(1).mockResolvedValueOnce(7);
+    const client = createClient();
+    await gateway.openSessionStream("booking-1", client, null);
+
+    const event = await gateway.publishSessionEvent("booking-1", "progress", { progressPercent: 50 });
+
+    expect(event.id).toBe(7);
+    expect(mockRedis.rpush).toHaveBeenCalledWith("bookings:session:events:booking-1", JSON.stringify(event));
+    expect(mockRedis.ltrim).toHaveBeenCalledWith("bookings:session:events:booking-1", -50, -1);
+    expect(client.write).not.toHaveBeenCalled();
+
+    channelHandler!(mockRedisClient.publishMessage.mock.calls[0][1]);
+
+    expect(client.write).toHaveBeenCalledWith('id: 7\nevent: progress\ndata: {"progressPercent":50}\n\n');
+  });
+
+  it("replays from the shared buffer without repeating events that arrive live", async () => {
+    const buffered = { id: 5, bookingId: "booking-1", type: "arrived", data: {} };
+    mockRedis.lrange.mockResolvedValueOnce([JSON.stringify(buffered)]);
+    mockRedis.get.mockResolvedValueOnce("5");
+    const client = createClient();
+
+    await gateway.openSessionStream("booking-1", client, 4);
+    channelHandler!(JSON.stringify(buffered));
+
+    expect(client.write).toHaveBeenCalledTimes(1);
+  });
+
+  it("lists sessions across instances and prunes expired ones", async () => {
+    mockRedis.smembers.mockResolvedValueOnce(["booking-1", "booking-2"]);
+    mockRedis.get.mockResolvedValueOnce(JSON.stringify(progress("booking-1", 30))).mockResolvedValueOnce(null);
+
+    const sessions = await gateway.listActiveSessionProgress();
+
+    expect(sessions.map((session) => session.bookingId)).toEqual(["booking-1"]);
+    expect(mockRedis.srem).toHaveBeenCalledWith("bookings:session:active", "booking-2");
+  });
+
+  it("indexes progress when saved and drops it when cleared", async () => {
+    await gateway.saveSessionProgress(progress("booking-1"));
+    await gateway.clearSessionProgress("booking-1");
+
+    expect(mockRedis.set).toHaveBeenCalledWith(
+      "bookings:session:progress:booking-1",
+      JSON.stringify(progress("booking-1")),
+      "EX",
+      String(12 * 60 * 60)
+    );
+    expect(mockRedis.sadd).toHaveBeenCalledWith("bookings:session:active", "booking-1");
+    expect(mockRedis.srem).toHaveBeenCalledWith("bookings:session:active", "booking-1");
+  });
+});
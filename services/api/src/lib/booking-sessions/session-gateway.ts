@@ -0,0 +1,315 @@
+/**
+ * Booking Session Gateway
+ * Stores live session progress and delivers session events to connected streams
+ *
+ * Progress, the per-booking event sequence and a short replay buffer are kept
+ * in Redis. Events are published on a Redis channel that every instance
+ * subscribes to, and each instance writes them to the streams it holds.
+ * Viewers are a per-booking connection count kept alive by stream heartbeats.
+ * Without Redis everything falls back to this process.
+ */
+
+import { logger } from "../logger";
+import { getRedis, publishMessage, subscribeChannel } from "../redis-client";
+import { formatSessionFrame, planReplay } from "./stream-events";
+import {
+  SESSION_PROGRESS_TTL_SECONDS,
+  SESSION_REPLAY_BUFFER_SIZE,
+  SESSION_VIEWER_TTL_SECONDS,
+  type SessionEvent,
+  type SessionEventType,
+  type SessionProgress,
+  type SessionStreamClient,
+} from "./types";
+
+const EVENTS_CHANNEL = "bookings:session-events";
+const ACTIVE_SESSIONS_KEY = "bookings:session:active";
+
+/**
+ * A stream held by this instance. While `queue` is set the stream is still
+ * being replayed to, and live events wait there.
+ */
+interface LocalStream {
+  client: SessionStreamClient;
+  queue: SessionEvent[] | null;
+  lastSentId: number;
+}
+
+const localStreams = new Map<string, Set<LocalStream>>();
+
+// Fallbacks when Redis is not configured
+const localProgress = new Map<string, SessionProgress>();
+const localSequence = new Map<string, number>();
+const localBuffer = new Map<string, SessionEvent[]>();
+
+let subscription: Promise<boolean> | null = null;
+
+const progressKey = (bookingId: string) => `bookings:session:progress:${bookingId}`;
+const sequenceKey = (bookingId: string) => `bookings:session:seq:${bookingId}`;
+const bufferKey = (bookingId: string) => `bookings:session:events:${bookingId}`;
+const viewersKey = (bookingId: string) => `bookings:session:viewers:${bookingId}`;
+
+function writeToStream(stream: LocalStream, event: SessionEvent, bookingId: string): void {
+  if (event.id <= stream.lastSentId) return;
+
+  try {
+    stream.client.write(formatSessionFrame(event));
+    stream.lastSentId = event.id;
+  } catch (error) {
+    logger.error("Error sending SSE to client", { error, bookingId });
+  }
+}
+
+function deliverLocally(event: SessionEvent): void {
+  localStreams.get(event.bookingId)?.forEach((stream) => {
+    if (stream.queue) {
+      stream.queue.push(event);
+    } else {
+      writeToStream(stream, event, event.bookingId);
+    }
+  });
+}
+
+/**
+ * Subscribe this instance to the events channel once. A failed subscription
+ * is retried on the next call rather than cached.
+ */
+function ensureSubscribed(): Promise<boolean> {
+  if (!subscription) {
+    subscription = subscribeChannel(EVENTS_CHANNEL, (raw) => {
+      try {
+        deliverLocally(JSON.parse(raw) as SessionEvent);
+      } catch (error) {
+        logger.error("Malformed session event on channel", { error });
+      }
+    }).then((subscribed) => {
+      if (!subscribed) {
+        subscription = null;
+      }
+      return subscribed;
+    });
+  }
+  return subscription;
+}
+
+// ============================================================================
+// Progress
+// ============================================================================
+
+export async function getSessionProgress(bookingId: string): Promise<SessionProgress | null> {
+  const redis = await getRedis();
+  if (!redis) {
+    return localProgress.get(bookingId) || null;
+  }
+
+  try {
+    const raw = await redis.get(progressKey(bookingId));
+    return raw ? (JSON.parse(raw) as SessionProgress) : null;
+  } catch (error) {
+    logger.error("Failed to read session progress", { error, bookingId });
+    return null;
+  }
+}
+
+export async function saveSessionProgress(progress: SessionProgress): Promise<void> {
+  const redis = await getRedis();
+  if (!redis) {
+    localProgress.set(progress.bookingId, progress);
+    return;
+  }
+
+  await redis.set(progressKey(progress.bookingId), JSON.stringify(progress), "EX", String(SESSION_PROGRESS_TTL_SECONDS));
+  await redis.sadd(ACTIVE_SESSIONS_KEY, progress.bookingId);
+}
+
+export async function clearSessionProgress(bookingId: string): Promise<void> {
+  const redis = await getRedis();
+  if (!redis) {
+    localProgress.delete(bookingId);
+    return;
+  }
+
+  await redis.del(progressKey(bookingId));
+  await redis.srem(ACTIVE_SESSIONS_KEY, bookingId);
+}
+
+/**
+ * Every session with progress, across all instances. Sessions whose progress
+ * expired without being ended are pruned from the index as they're found.
+ */
+export async function listActiveSessionProgress(): Promise<SessionProgress[]> {
+  const redis = await getRedis();
+  if (!redis) {
+    return Array.from(localProgress.values());
+  }
+
+  const bookingIds = await redis.smembers(ACTIVE_SESSIONS_KEY);
+  const entries = await Promise.all(
+    bookingIds.map(async (bookingId) => ({ bookingId, raw: await redis.get(progressKey(bookingId)) }))
+  );
+
+  const expired = entries.filter((entry) => !entry.raw).map((entry) => entry.bookingId);
+  if (expired.length > 0) {
+    await redis.srem(ACTIVE_SESSIONS_KEY, ...expired);
+  }
+
+  return entries.filter((entry) => entry.raw).map((entry) => JSON.parse(entry.raw!) as SessionProgress);
+}
+
+// ============================================================================
+// Events
+// ============================================================================
+
+/**
+ * Number, buffer and publish an event to every stream on the booking, on any
+ * instance
+ */
+export async function publishSessionEvent(
+  bookingId: string,
+  type: SessionEventType,
+  data: Record<string, unknown>
+): Promise<SessionEvent> {
+  const redis = await getRedis();
+  let event: SessionEvent;
+
+  if (redis) {
+    const id = await redis.incr(sequenceKey(bookingId));
+    event = { id, bookingId, type, data };
+
+    await redis.expire(sequenceKey(bookingId), SESSION_PROGRESS_TTL_SECONDS);
+    await redis.rpush(bufferKey(bookingId), JSON.stringify(event));
+    await redis.ltrim(bufferKey(bookingId), -SESSION_REPLAY_BUFFER_SIZE, -1);
+    await redis.expire(bufferKey(bookingId), SESSION_PROGRESS_TTL_SECONDS);
+  } else {
+    const id = (localSequence.get(bookingId) || 0) + 1;
+    localSequence.set(bookingId, id);
+    event = { id, bookingId, type, data };
+
+    const buffer = [...(localBuffer.get(bookingId) || []), event];
+    localBuffer.set(bookingId, buffer.slice(-SESSION_REPLAY_BUFFER_SIZE));
+  }
+
+  const subscribed = await ensureSubscribed();
+  if (!subscribed || !(await publishMessage(EVENTS_CHANNEL, JSON.stringify(event)))) {
+    deliverLocally(event);
+  }
+
+  return event;
+}
+
+async function readBufferedEvents(bookingId: string): Promise<{ events: SessionEvent[]; latestId: number }> {
+  const redis = await getRedis();
+  if (!redis) {
+    return { events: localBuffer.get(bookingId) || [], latestId: localSequence.get(bookingId) || 0 };
+  }
+
+  const [raw, latest] = await Promise.all([
+    redis.lrange(bufferKey(bookingId), 0, -1),
+    redis.get(sequenceKey(bookingId)),
+  ]);
+  return { events: raw.map((entry) => JSON.parse(entry) as SessionEvent), latestId: Number(latest) || 0 };
+}
+
+// ============================================================================
+// Streams
+// ============================================================================
+
+/**
+ * Register a stream on a booking and bring it up to date: replay what a
+ * resuming client missed, or send the current progress when it's new or has
+ * fallen too far behind, then switch it to live events.
+ *
+ * @param lastEventId - Where a reconnecting client left off, null if new
+ * @returns Cleanup to call when the stream closes
+ */
+export async function openSessionStream(
+  bookingId: string,
+  client: SessionStreamClient,
+  lastEventId: number | null
+): Promise<() => void> {
+  const stream: LocalStream = { client, queue: [], lastSentId: lastEventId ?? 0 };
+  const streams = localStreams.get(bookingId) || new Set<LocalStream>();
+  streams.add(stream);
+  localStreams.set(bookingId, streams);
+
+  ensureSubscribed().catch(() => undefined);
+  adjustViewers(bookingId, 1);
+
+  try {
+    const { events, latestId } = await readBufferedEvents(bookingId);
+    const plan = lastEventId !== null ? planReplay(events, lastEventId, latestId) : { events: [], complete: false };
+
+    plan.events.forEach((event) => writeToStream(stream, event, bookingId));
+
+    if (!plan.complete) {
+      const progress = await getSessionProgress(bookingId);
+      if (progress) {
+        // Carries the latest id so the client resumes from here next time
+        client.write(
+          `${latestId > 0 ? `id: ${latestId}\n` : ""}event: progress\ndata: ${JSON.stringify(progress)}\n\n`
+        );
+      }
+      stream.lastSentId = Math.max(stream.lastSentId, latestId);
+    }
+  } catch (error) {
+    logger.warn("Failed to replay session events", { error, bookingId, lastEventId });
+  } finally {
+    const queued = stream.queue || [];
+    stream.queue = null;
+    queued.forEach((event) => writeToStream(stream, event, bookingId));
+  }
+
+  return () => {
+    const remaining = localStreams.get(bookingId);
+    remaining?.delete(stream);
+    if (remaining && remaining.size === 0) {
+      localStreams.delete(bookingId);
+    }
+    adjustViewers(bookingId, -1);
+  };
+}
+
+function adjustViewers(bookingId: string, delta: 1 | -1): void {
+  getRedis()
+    .then(async (redis) => {
+      if (!redis) return;
+      if (delta > 0) {
+        await redis.incr(viewersKey(bookingId));
+        await redis.expire(viewersKey(bookingId), SESSION_VIEWER_TTL_SECONDS);
+      } else if ((await redis.decr(viewersKey(bookingId))) <= 0) {
+        await redis.del(viewersKey(bookingId));
+      }
+    })
+    .catch((error) => logger.warn("Failed to update session viewers", { error, bookingId }));
+}
+
+/**
+ * Keep a booking's viewer count from expiring - called on stream heartbeats
+ */
+export async function refreshSessionViewers(bookingId: string): Promise<void> {
+  const redis = await getRedis();
+  if (!redis) return;
+
+  try {
+    await redis.expire(viewersKey(bookingId), SESSION_VIEWER_TTL_SECONDS);
+  } catch (error) {
+    logger.warn("Failed to refresh session viewers", { error, bookingId });
+  }
+}
+
+/**
+ * Streams open on a booking across all instances
+ */
+export async function getSessionViewerCount(bookingId: string): Promise<number> {
+  const redis = await getRedis();
+  if (!redis) {
+    return localStreams.get(bookingId)?.size || 0;
+  }
+
+  try {
+    return Math.max(0, Number(await redis.get(viewersKey(bookingId))) || 0);
+  } catch (error) {
+    logger.warn("Failed to read session viewers", { error, bookingId });
+    return 0;
+  }
+}
@@ -0,0 +1,77 @@
+import { formatSessionFrame, parseLastEventId, planReplay, toCustomerProgress } from './stream-events';
+import type { SessionEvent } from './types';
+
+function event(id: number): SessionEvent {
+  return { id, bookingId: 'booking-1', type: 'progress', data: { progressPercent: id } };
+}
+
+describe('Session Stream Events', () => {
+  describe('formatSessionFrame', () => {
+    it('should write the id, event type and data', () => {
+      expect(formatSessionFrame(event(7))).toBe('id: 7\nevent: progress\ndata: {"progressPercent":7}\n\n');
+    });
+  });
+
+  describe('parseLastEventId', () => {
+    it('should prefer the Last-Event-ID header', () => {
+      expect(parseLastEventId('12', '4')).toBe(12);
+    });
+
+    it('should fall back to the query param', () => {
+      expect(parseLastEventId(undefined, '4')).toBe(4);
+      expect(parseLastEventId(undefined, ['9', '10'])).toBe(9);
+    });
+
+    it('should treat missing or malformed ids as a fresh connection', () => {
+      expect(parseLastEventId(undefined, undefined)).toBeNull();
+      expect(parseLastEventId('abc', '-1')).toBeNull();
+    });
+  });
+
+  describe('planReplay', () => {
+    it('should replay every missed event in order when they are all buffered', () => {
+      const plan = planReplay([event(5), event(3), event(4), event(2)], 2, 5);
+
+      expect(plan.events.map((e) => e.id)).toEqual([3, 4, 5]);
+      expect(plan.complete).toBe(true);
+    });
+
+    it('should be complete with nothing to send when the client is up to date', () => {
+      expect(planReplay([event(1), event(2)], 2, 2)).toEqual({ events: [], complete: true });
+    });
+
+    it('should be incomplete when missed events have left the buffer', () => {
+      const plan = planReplay([event(8), event(9)], 3, 9);
+
+      expect(plan.events.map((e) => e.id)).toEqual([8, 9]);
+      expect(plan.complete).toBe(false);
+    });
+
+    it('should be incomplete when the client is ahead of the sequence', () => {
+      expect(planReplay([], 40, 2).complete).toBe(false);
+    });
+  });
+
+  describe('toCustomerProgress', () => {
+    it('should drop the stylist and their location', () => {
+      expect(
+        toCustomerProgress({
+          bookingId: 'booking-1',
+          stylistId: 'stylist-1',
+          lat: -26.2,
+          lng: 28.04,
+          etaMinutes: 12,
+          progressPercent: 0,
+          currentStep: 'On the way',
+          lastUpdate: '2026-03-10T12:00:00.000Z',
+        })
+      ).toEqual({
+        bookingId: 'booking-1',
+        etaMinutes: 12,
+        progressPercent: 0,
+        currentStep: 'On the way',
+        lastUpdate: '2026-03-10T12:00:00.000Z',
+      });
+    });
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Session stream framing and replay
+ * Pure helpers - no Redis or database access
+ */
+
+import type { ReplayPlan, SessionEvent, SessionProgress } from "./types";
+
+/**
+ * Format an event as a Server-Sent Events frame, with its id
+ */
+export function formatSessionFrame(event: SessionEvent): string {
+  return `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`;
+}
+
+/**
+ * Read the position a client is resuming from - the Last-Event-ID header the
+ * browser sends on reconnect, or a query param for clients that reconnect by
+ * opening a new EventSource. Null for a fresh connection.
+ */
+export function parseLastEventId(header: unknown, query: unknown): number | null {
+  for (const value of [header, query]) {
+    const raw = Array.isArray(value) ? value[0] : value;
+    if (typeof raw === "string" && /^\d+$/.test(raw.trim())) {
+      return Number(raw.trim());
+    }
+  }
+  return null;
+}
+
+/**
+ * Work out which buffered events a client resuming after `lastEventId` missed
+ *
+ * @param buffered - Recent events in any order
+ * @param latestId - Last id assigned for the booking, 0 if none
+ */
+export function planReplay(buffered: SessionEvent[], lastEventId: number, latestId: number): ReplayPlan {
+  const events = buffered.filter((event) => event.id > lastEventId).sort((a, b) => a.id - b.id);
+
+  // Nothing happened since, or every missed event is still buffered. A client
+  // ahead of the latest id saw a sequence that has since been lost.
+  const complete =
+    latestId === lastEventId || (latestId > lastEventId && events[0]?.id === lastEventId + 1);
+
+  return { events, complete };
+}
+
+/**
+ * Progress without the stylist's exact location - what customers are shown
+ * outside the live stream
+ */
+export function toCustomerProgress(
+  progress: SessionProgress
+): Pick<SessionProgress, "bookingId" | "etaMinutes" | "progressPercent" | "currentStep" | "lastUpdate"> {
+  return {
+    bookingId: progress.bookingId,
+    etaMinutes: progress.etaMinutes,
+    progressPercent: progress.progressPercent,
+    currentStep: progress.currentStep,
+    lastUpdate: progress.lastUpdate,
+  };
+}
@@ -0,0 +1,71 @@
+/**
+ * Booking Session Types
+ * Live progress for bookings in service, pushed over GET /api/v1/bookings/:id/live
+ *
+ * Progress and recent events live in Redis so every API instance sees the
+ * same session, and events are fanned out through Redis so a stylist posting
+ * to one instance reaches a customer streaming from another. Without Redis
+ * both fall back to this process.
+ */
+
+/**
+ * Heartbeat interval for open streams - also keeps the viewer count alive
+ */
+export const SESSION_STREAM_HEARTBEAT_MS = 25_000;
+
+/**
+ * Progress outlives any realistic appointment, then is dropped if the
+ * session was never ended
+ */
+export const SESSION_PROGRESS_TTL_SECONDS = 12 * 60 * 60;
+
+/**
+ * Recent events kept per booking for clients resuming with Last-Event-ID
+ */
+export const SESSION_REPLAY_BUFFER_SIZE = 50;
+
+/**
+ * A viewer outlives a missed heartbeat or two, then stops being counted
+ */
+export const SESSION_VIEWER_TTL_SECONDS = 60;
+
+export interface SessionProgress {
+  bookingId: string;
+  stylistId: string;
+  lat?: number;
+  lng?: number;
+  etaMinutes?: number;
+  progressPercent: number;
+  currentStep?: string;
+  lastUpdate: string; // ISO timestamp
+}
+
+export type SessionEventType = "progress" | "arrived" | "customer_arrived" | "session_ended" | "status_changed";
+
+/**
+ * An event on a booking's stream. `id` increases per booking and is sent as
+ * the SSE id, so a reconnecting client can say where it left off.
+ */
+export interface SessionEvent {
+  id: number;
+  bookingId: string;
+  type: SessionEventType;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Anything an event frame can be written to - an express Response in practice
+ */
+export interface SessionStreamClient {
+  write(chunk: string): unknown;
+}
+
+/**
+ * What a reconnecting client is sent before live events. `complete` is false
+ * when events it missed have already left the buffer, so it needs a fresh
+ * snapshot instead.
+ */
+export interface ReplayPlan {
+  events: SessionEvent[];
+  complete: boolean;
+}
@@ -1,10 +1,12 @@
-import { BookingStatus } from '@prisma/client';
+import { BalanceStatus, BookingStatus } from '@prisma/client';
 import {
   VALID_TRANSITIONS,
   canTransitionTo,
   validateTransition,
   isTerminalStatus,
   getValidNextStates,
+  canTransitionWithBalance,
+  validateBalanceForTransition,
 } from './booking-state-machine';
 
 describe('Booking State Machine Module', () => {
@@ -121,6 +123,15 @@ describe('Booking State Machine Module', () => {
           )
         ).toBe(true);
       });
+
+      it('should allow AWAITING_CUSTOMER_CONFIRMATION → CANCELLED (forfeited balance)', () => {
+        expect(
+          canTransitionTo(
+            BookingStatus.AWAITING_CUSTOMER_CONFIRMATION,
+            BookingStatus.CANCELLED
+          )
+        ).toBe(true);
+      });
     });
 
     describe('Valid transitions from DISPUTED', () => {
@@ -429,9 +440,10 @@ describe('Booking State Machine Module', () => {
         const validNext = getValidNextStates(
           BookingStatus.AWAITING_CUSTOMER_CONFIRMATION
         );
-        expect(validNext).toHaveLength(2);
+        expect(validNext).toHaveLength(3);
         expect(validNext).toContain(BookingStatus.SETTLED);
         expect(validNext).toContain(BookingStatus.DISPUTED);
+        expect(validNext).toContain(BookingStatus.CANCELLED);
       });
 
       it('should return correct next states for DISPUTED', () => {
@@ -521,4 +533,29 @@ describe('Booking State Machine Module', () => {
       });
     });
   });
+
+  describe('Balance-due gating', () => {
+    it('should block completion and settlement while the balance is due', () => {
+      expect(canTransitionWithBalance(BookingStatus.COMPLETED, BalanceStatus.DUE)).toBe(false);
+      expect(canTransitionWithBalance(BookingStatus.SETTLED, BalanceStatus.DUE)).toBe(false);
+    });
+
+    it('should allow cancellation and disputes while the balance is due', () => {
+      expect(canTransitionWithBalance(BookingStatus.CANCELLED, BalanceStatus.DUE)).toBe(true);
+      expect(canTransitionWithBalance(BookingStatus.DISPUTED, BalanceStatus.DUE)).toBe(true);
+    });
+
+    it('should not gate paid, not-yet-due or full-payment bookings', () => {
+      expect(canTransitionWithBalance(BookingStatus.SETTLED, BalanceStatus.PAID)).toBe(true);
+      expect(canTransitionWithBalance(BookingStatus.COMPLETED, BalanceStatus.NOT_DUE)).toBe(true);
+      expect(canTransitionWithBalance(BookingStatus.SETTLED, null)).toBe(true);
+    });
+
+    it('should throw with a descriptive message', () => {
+      expect(() => validateBalanceForTransition(BookingStatus.SETTLED, BalanceStatus.DUE)).toThrow(
+        'Balance payment required before moving to SETTLED'
+      );
+      expect(() => validateBalanceForTransition(BookingStatus.SETTLED, null)).not.toThrow();
+    });
+  });
 });
@@ -1,7 +1,7 @@
 // Booking State Machine
 // Reference: docs/vlossom/07-booking-and-approval-flow.md
 
-import { BookingStatus } from "@prisma/client";
+import { BalanceStatus, BookingStatus } from "@prisma/client";
 
 /**
  * Valid state transitions for booking lifecycle
@@ -32,6 +32,7 @@ export const VALID_TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
   AWAITING_CUSTOMER_CONFIRMATION: [
     BookingStatus.SETTLED, // Customer confirms or auto-confirm
     BookingStatus.DISPUTED, // Customer disputes
+    BookingStatus.CANCELLED, // Balance never paid - deposit forfeited
   ],
   SETTLED: [], // Terminal state
   CANCELLED: [], // Terminal state
@@ -80,3 +81,37 @@ export function isTerminalStatus(status: BookingStatus): boolean {
 export function getValidNextStates(status: BookingStatus): BookingStatus[] {
   return VALID_TRANSITIONS[status];
 }
+
+/**
+ * Statuses a deposit booking can't reach while its balance is due.
+ * The stylist can't complete (balance due on start) and the booking can't
+ * settle (balance due on complete) until the balance is locked in escrow.
+ */
+export const BALANCE_GATED_STATUSES: BookingStatus[] = [
+  BookingStatus.COMPLETED,
+  BookingStatus.SETTLED,
+];
+
+/**
+ * Check that an unpaid balance doesn't block a transition
+ */
+export function canTransitionWithBalance(
+  targetStatus: BookingStatus,
+  balanceStatus: BalanceStatus | null
+): boolean {
+  return !(balanceStatus === BalanceStatus.DUE && BALANCE_GATED_STATUSES.includes(targetStatus));
+}
+
+/**
+ * Validate a transition against the booking's balance and throw if it is blocked
+ */
+export function validateBalanceForTransition(
+  targetStatus: BookingStatus,
+  balanceStatus: BalanceStatus | null
+): void {
+  if (!canTransitionWithBalance(targetStatus, balanceStatus)) {
+    throw new Error(
+      `Balance payment required before moving to ${targetStatus}`
+    );
+  }
+}
@@ -1,4 +1,4 @@
-import { BookingStatus } from '@prisma/client';
+import { BookingStatus, CancellationPolicyPreset } from '@prisma/client';
 import {
   calculateHoursUntilStart,
   getRefundPercentage,
@@ -8,6 +8,14 @@ import {
   calculateStylistCompensation,
   CANCELLATION_THRESHOLDS,
   REFUND_PERCENTAGES,
+  CANCELLATION_POLICY_PRESETS,
+  DEFAULT_CANCELLATION_POLICY,
+  validateCancellationTiers,
+  buildCancellationPolicy,
+  resolveCancellationPolicy,
+  parseCancellationPolicySnapshot,
+  toCancellationPolicySnapshot,
+  describeCancellationPolicy,
 } from './cancellation-policy';
 
 describe('Cancellation Policy Module', () => {
@@ -505,4 +513,139 @@ describe('Cancellation Policy Module', () => {
       expect(refund).toBe(12000n); // Full refund
     });
   });
+
+  describe('Per-stylist policies', () => {
+    const hoursFromNow = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000);
+    const customTiers = [
+      { minHoursBefore: 6, refundPercentage: 75 },
+      { minHoursBefore: 48, refundPercentage: 100 },
+    ];
+
+    describe('validateCancellationTiers', () => {
+      it('should accept valid tiers in any order', () => {
+        expect(validateCancellationTiers(customTiers)).toBeNull();
+      });
+
+      it('should reject empty or too many tiers', () => {
+        expect(validateCancellationTiers([])).not.toBeNull();
+        const tooMany = [0, 1, 2, 3, 4, 5].map((h) => ({ minHoursBefore: h, refundPercentage: 50 }));
+        expect(validateCancellationTiers(tooMany)).not.toBeNull();
+      });
+
+      it('should reject out of range values', () => {
+        expect(validateCancellationTiers([{ minHoursBefore: -1, refundPercentage: 50 }])).not.toBeNull();
+        expect(validateCancellationTiers([{ minHoursBefore: 1000, refundPercentage: 50 }])).not.toBeNull();
+        expect(validateCancellationTiers([{ minHoursBefore: 24, refundPercentage: 101 }])).not.toBeNull();
+        expect(validateCancellationTiers([{ minHoursBefore: 24, refundPercentage: 12.5 }])).not.toBeNull();
+      });
+
+      it('should reject duplicate windows and refunds that grow closer to start', () => {
+        expect(
+          validateCancellationTiers([
+            { minHoursBefore: 24, refundPercentage: 100 },
+            { minHoursBefore: 24, refundPercentage: 50 },
+          ])
+        ).not.toBeNull();
+        expect(
+          validateCancellationTiers([
+            { minHoursBefore: 48, refundPercentage: 50 },
+            { minHoursBefore: 12, refundPercentage: 100 },
+          ])
+        ).not.toBeNull();
+      });
+    });
+
+    describe('buildCancellationPolicy', () => {
+      it('should use preset tiers', () => {
+        const policy = buildCancellationPolicy(CancellationPolicyPreset.STRICT);
+        expect(policy.tiers).toEqual(CANCELLATION_POLICY_PRESETS.STRICT);
+      });
+
+      it('should sort custom tiers', () => {
+        const policy = buildCancellationPolicy(CancellationPolicyPreset.CUSTOM, customTiers);
+        expect(policy.preset).toBe(CancellationPolicyPreset.CUSTOM);
+        expect(policy.tiers.map((t) => t.minHoursBefore)).toEqual([48, 6]);
+      });
+
+      it('should fall back to the default for invalid custom tiers', () => {
+        expect(buildCancellationPolicy(CancellationPolicyPreset.CUSTOM, null)).toBe(DEFAULT_CANCELLATION_POLICY);
+        expect(buildCancellationPolicy(CancellationPolicyPreset.CUSTOM, [{ minHoursBefore: 'x' }])).toBe(
+          DEFAULT_CANCELLATION_POLICY
+        );
+      });
+
+      it('should keep MODERATE in line with the legacy thresholds', () => {
+        expect(DEFAULT_CANCELLATION_POLICY.tiers).toEqual([
+          { minHoursBefore: CANCELLATION_THRESHOLDS.FULL_REFUND, refundPercentage: REFUND_PERCENTAGES.FULL },
+          { minHoursBefore: CANCELLATION_THRESHOLDS.PARTIAL_REFUND, refundPercentage: REFUND_PERCENTAGES.PARTIAL },
+        ]);
+      });
+    });
+
+    describe('resolveCancellationPolicy', () => {
+      const profile = { cancellationPolicy: CancellationPolicyPreset.FLEXIBLE, cancellationTiers: null };
+
+      it('should prefer the service override', () => {
+        const service = { cancellationPolicy: CancellationPolicyPreset.STRICT, cancellationTiers: null };
+        expect(resolveCancellationPolicy(service, profile).preset).toBe(CancellationPolicyPreset.STRICT);
+      });
+
+      it('should inherit the profile policy when the service has none', () => {
+        const service = { cancellationPolicy: null, cancellationTiers: null };
+        expect(resolveCancellationPolicy(service, profile).preset).toBe(CancellationPolicyPreset.FLEXIBLE);
+      });
+
+      it('should default to MODERATE', () => {
+        expect(resolveCancellationPolicy(null, null)).toBe(DEFAULT_CANCELLATION_POLICY);
+      });
+    });
+
+    describe('booking snapshots', () => {
+      it('should round-trip a custom policy', () => {
+        const policy = buildCancellationPolicy(CancellationPolicyPreset.CUSTOM, customTiers);
+        const snapshot = JSON.parse(JSON.stringify(toCancellationPolicySnapshot(policy)));
+        expect(parseCancellationPolicySnapshot(snapshot)).toEqual(policy);
+      });
+
+      it('should use the default for bookings without a snapshot', () => {
+        expect(parseCancellationPolicySnapshot(null)).toBe(DEFAULT_CANCELLATION_POLICY);
+        expect(parseCancellationPolicySnapshot({ preset: 'UNKNOWN', tiers: [] })).toBe(DEFAULT_CANCELLATION_POLICY);
+      });
+    });
+
+    describe('refunds under a policy', () => {
+      it('should apply STRICT windows', () => {
+        const strict = buildCancellationPolicy(CancellationPolicyPreset.STRICT);
+        expect(calculateCustomerRefund(10000n, hoursFromNow(48), strict).refundPercentage).toBe(50);
+        expect(calculateCustomerRefund(10000n, hoursFromNow(12), strict).refundAmountCents).toBe(0n);
+      });
+
+      it('should apply custom tiers', () => {
+        const custom = buildCancellationPolicy(CancellationPolicyPreset.CUSTOM, customTiers);
+        expect(calculateCustomerRefund(10000n, hoursFromNow(72), custom).refundAmountCents).toBe(10000n);
+        expect(calculateCustomerRefund(10000n, hoursFromNow(12), custom).refundAmountCents).toBe(7500n);
+        expect(calculateCustomerRefund(10000n, hoursFromNow(3), custom).refundAmountCents).toBe(0n);
+      });
+
+      it('should give the stylist what the customer does not get back', () => {
+        const flexible = buildCancellationPolicy(CancellationPolicyPreset.FLEXIBLE);
+        const start = hoursFromNow(6);
+        const refund = calculateCustomerRefund(10000n, start, flexible);
+        const compensation = calculateStylistCompensation(10000n, start, flexible);
+        expect(refund.refundAmountCents + compensation).toBe(10000n);
+        expect(compensation).toBe(5000n);
+      });
+    });
+
+    describe('describeCancellationPolicy', () => {
+      it('should describe each tier and the no-refund window', () => {
+        const lines = describeCancellationPolicy(DEFAULT_CANCELLATION_POLICY);
+        expect(lines).toEqual([
+          'Full refund if cancelled at least 24h before the appointment',
+          '50% refund if cancelled at least 4h before the appointment',
+          'No refund if cancelled less than 4h before the appointment',
+        ]);
+      });
+    });
+  });
 });
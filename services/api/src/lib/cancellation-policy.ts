@@ -1,7 +1,7 @@
 // Cancellation Policy & Refund Calculation
 // Reference: docs/vlossom/07-booking-and-approval-flow.md
 
-import { BookingStatus } from "@prisma/client";
+import { BookingStatus, CancellationPolicyPreset, type Prisma } from "@prisma/client";
 
 /**
  * Cancellation timing thresholds (in hours before scheduled start)
@@ -21,6 +21,229 @@ export const REFUND_PERCENTAGES = {
   NONE: 0,
 } as const;
 
+/**
+ * A refund band: cancelling at least `minHoursBefore` hours before the
+ * scheduled start refunds `refundPercentage` of the quote.
+ */
+export interface CancellationTier {
+  minHoursBefore: number;
+  refundPercentage: number;
+}
+
+/**
+ * Resolved cancellation policy. Tiers are ordered by minHoursBefore,
+ * descending; cancelling inside the last tier's window refunds nothing.
+ */
+export interface CancellationPolicy {
+  preset: CancellationPolicyPreset;
+  tiers: CancellationTier[];
+}
+
+/**
+ * Named presets stylists can choose from
+ */
+export const CANCELLATION_POLICY_PRESETS: Record<
+  Exclude<CancellationPolicyPreset, "CUSTOM">,
+  CancellationTier[]
+> = {
+  // Quick services (trims, touch-ups)
+  FLEXIBLE: [
+    { minHoursBefore: 12, refundPercentage: REFUND_PERCENTAGES.FULL },
+    { minHoursBefore: 2, refundPercentage: REFUND_PERCENTAGES.PARTIAL },
+  ],
+  // Platform default - matches CANCELLATION_THRESHOLDS
+  MODERATE: [
+    { minHoursBefore: CANCELLATION_THRESHOLDS.FULL_REFUND, refundPercentage: REFUND_PERCENTAGES.FULL },
+    { minHoursBefore: CANCELLATION_THRESHOLDS.PARTIAL_REFUND, refundPercentage: REFUND_PERCENTAGES.PARTIAL },
+  ],
+  // Long sessions (braiding, locs) that block out most of a day
+  STRICT: [
+    { minHoursBefore: 72, refundPercentage: REFUND_PERCENTAGES.FULL },
+    { minHoursBefore: 24, refundPercentage: REFUND_PERCENTAGES.PARTIAL },
+  ],
+};
+
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicy = {
+  preset: CancellationPolicyPreset.MODERATE,
+  tiers: CANCELLATION_POLICY_PRESETS.MODERATE,
+};
+
+/** Limits for custom tiers */
+export const CUSTOM_TIER_LIMITS = {
+  MAX_TIERS: 5,
+  MAX_HOURS_BEFORE: 24 * 14, // Two weeks
+} as const;
+
+/**
+ * Validate custom tiers. Returns an error message, or null when valid.
+ * Refunds may not increase as the start time gets closer.
+ */
+export function validateCancellationTiers(tiers: CancellationTier[]): string | null {
+  if (tiers.length === 0 || tiers.length > CUSTOM_TIER_LIMITS.MAX_TIERS) {
+    return `Custom policies need between 1 and ${CUSTOM_TIER_LIMITS.MAX_TIERS} tiers`;
+  }
+
+  for (const tier of tiers) {
+    if (
+      !Number.isFinite(tier.minHoursBefore) ||
+      tier.minHoursBefore < 0 ||
+      tier.minHoursBefore > CUSTOM_TIER_LIMITS.MAX_HOURS_BEFORE
+    ) {
+      return `minHoursBefore must be between 0 and ${CUSTOM_TIER_LIMITS.MAX_HOURS_BEFORE}`;
+    }
+    if (
+      !Number.isInteger(tier.refundPercentage) ||
+      tier.refundPercentage < 0 ||
+      tier.refundPercentage > 100
+    ) {
+      return "refundPercentage must be a whole number between 0 and 100";
+    }
+  }
+
+  const sorted = sortTiers(tiers);
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i].minHoursBefore === sorted[i - 1].minHoursBefore) {
+      return "Each tier must have a different minHoursBefore";
+    }
+    if (sorted[i].refundPercentage > sorted[i - 1].refundPercentage) {
+      return "Refunds cannot increase closer to the start time";
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Order tiers from earliest cancellation window to latest
+ */
+function sortTiers(tiers: CancellationTier[]): CancellationTier[] {
+  return [...tiers].sort((a, b) => b.minHoursBefore - a.minHoursBefore);
+}
+
+/**
+ * Parse stored custom tiers (StylistProfile / StylistService JSON).
+ * Returns null if the value is missing or invalid.
+ */
+function parseTiers(value: Prisma.JsonValue | null | undefined): CancellationTier[] | null {
+  if (!Array.isArray(value)) return null;
+
+  const tiers: CancellationTier[] = [];
+  for (const entry of value) {
+    if (!entry || typeof entry !== "object" || Array.isArray(entry)) return null;
+    const { minHoursBefore, refundPercentage } = entry as Record<string, unknown>;
+    if (typeof minHoursBefore !== "number" || typeof refundPercentage !== "number") return null;
+    tiers.push({ minHoursBefore, refundPercentage });
+  }
+
+  return validateCancellationTiers(tiers) === null ? sortTiers(tiers) : null;
+}
+
+/**
+ * Build a policy from a preset and optional custom tiers.
+ * An invalid CUSTOM policy falls back to the platform default.
+ */
+export function buildCancellationPolicy(
+  preset: CancellationPolicyPreset,
+  customTiers?: Prisma.JsonValue | null
+): CancellationPolicy {
+  if (preset === CancellationPolicyPreset.CUSTOM) {
+    const tiers = parseTiers(customTiers);
+    return tiers ? { preset, tiers } : DEFAULT_CANCELLATION_POLICY;
+  }
+
+  return { preset, tiers: CANCELLATION_POLICY_PRESETS[preset] };
+}
+
+interface PolicySource {
+  cancellationPolicy: CancellationPolicyPreset | null;
+  cancellationTiers: Prisma.JsonValue | null;
+}
+
+/**
+ * Resolve the policy in effect for a service: the service override if set,
+ * otherwise the stylist's profile policy, otherwise the platform default.
+ */
+export function resolveCancellationPolicy(
+  service: PolicySource | null | undefined,
+  profile: PolicySource | null | undefined
+): CancellationPolicy {
+  if (service?.cancellationPolicy) {
+    return buildCancellationPolicy(service.cancellationPolicy, service.cancellationTiers);
+  }
+  if (profile?.cancellationPolicy) {
+    return buildCancellationPolicy(profile.cancellationPolicy, profile.cancellationTiers);
+  }
+  return DEFAULT_CANCELLATION_POLICY;
+}
+
+/**
+ * Read the policy snapshot stored on a booking.
+ * Bookings created before per-stylist policies have no snapshot and use the default.
+ */
+export function parseCancellationPolicySnapshot(
+  snapshot: Prisma.JsonValue | null | undefined
+): CancellationPolicy {
+  if (!snapshot || typeof snapshot !== "object" || Array.isArray(snapshot)) {
+    return DEFAULT_CANCELLATION_POLICY;
+  }
+
+  const { preset, tiers } = snapshot as Record<string, Prisma.JsonValue>;
+  const parsedTiers = parseTiers(tiers);
+
+  if (!parsedTiers || typeof preset !== "string" || !(preset in CancellationPolicyPreset)) {
+    return DEFAULT_CANCELLATION_POLICY;
+  }
+
+  return { preset: preset as CancellationPolicyPreset, tiers: parsedTiers };
+}
+
+/**
+ * Serialize a policy for the Booking.cancellationPolicy snapshot column
+ */
+export function toCancellationPolicySnapshot(policy: CancellationPolicy): Prisma.InputJsonObject {
+  return {
+    preset: policy.preset,
+    tiers: policy.tiers.map((tier) => ({ ...tier })),
+  };
+}
+
+/**
+ * Human-readable policy lines shown to customers before they pay
+ */
+export function describeCancellationPolicy(policy: CancellationPolicy): string[] {
+  const lines = policy.tiers.map((tier) => {
+    const refund =
+      tier.refundPercentage === REFUND_PERCENTAGES.FULL
+        ? "Full refund"
+        : tier.refundPercentage === REFUND_PERCENTAGES.NONE
+          ? "No refund"
+          : `${tier.refundPercentage}% refund`;
+    return `${refund} if cancelled at least ${tier.minHoursBefore}h before the appointment`;
+  });
+
+  const lastTier = policy.tiers[policy.tiers.length - 1];
+  if (lastTier && lastTier.minHoursBefore > 0 && lastTier.refundPercentage > 0) {
+    lines.push(`No refund if cancelled less than ${lastTier.minHoursBefore}h before the appointment`);
+  }
+
+  return lines;
+}
+
+/**
+ * Policy as returned by the API (tiers plus readable summary)
+ */
+export function summarizeCancellationPolicy(policy: CancellationPolicy): {
+  preset: CancellationPolicyPreset;
+  tiers: CancellationTier[];
+  summary: string[];
+} {
+  return {
+    preset: policy.preset,
+    tiers: policy.tiers,
+    summary: describeCancellationPolicy(policy),
+  };
+}
+
 /**
  * Calculate hours until booking start
  */
@@ -33,29 +256,33 @@ export function calculateHoursUntilStart(scheduledStartTime: Date): number {
 /**
  * Determine refund percentage based on cancellation timing
  */
-export function getRefundPercentage(hoursUntilStart: number): number {
-  if (hoursUntilStart >= CANCELLATION_THRESHOLDS.FULL_REFUND) {
-    return REFUND_PERCENTAGES.FULL;
-  }
-  if (hoursUntilStart >= CANCELLATION_THRESHOLDS.PARTIAL_REFUND) {
-    return REFUND_PERCENTAGES.PARTIAL;
+export function getRefundPercentage(
+  hoursUntilStart: number,
+  policy: CancellationPolicy = DEFAULT_CANCELLATION_POLICY
+): number {
+  for (const tier of sortTiers(policy.tiers)) {
+    if (hoursUntilStart >= tier.minHoursBefore) {
+      return tier.refundPercentage;
+    }
   }
   return REFUND_PERCENTAGES.NONE;
 }
 
 /**
  * Calculate refund amount for customer cancellation
+ * Uses the policy snapshotted on the booking (platform default if none)
  */
 export function calculateCustomerRefund(
   quoteAmountCents: bigint,
-  scheduledStartTime: Date
+  scheduledStartTime: Date,
+  policy: CancellationPolicy = DEFAULT_CANCELLATION_POLICY
 ): {
   refundAmountCents: bigint;
   refundPercentage: number;
   hoursUntilStart: number;
 } {
   const hoursUntilStart = calculateHoursUntilStart(scheduledStartTime);
-  const refundPercentage = getRefundPercentage(hoursUntilStart);
+  const refundPercentage = getRefundPercentage(hoursUntilStart, policy);
   const refundAmountCents =
     (quoteAmountCents * BigInt(refundPercentage)) / BigInt(100);
 
@@ -94,10 +321,11 @@ export function canCancelBooking(status: BookingStatus): boolean {
  */
 export function calculateStylistCompensation(
   quoteAmountCents: bigint,
-  scheduledStartTime: Date
+  scheduledStartTime: Date,
+  policy: CancellationPolicy = DEFAULT_CANCELLATION_POLICY
 ): bigint {
   const hoursUntilStart = calculateHoursUntilStart(scheduledStartTime);
-  const customerRefundPercentage = getRefundPercentage(hoursUntilStart);
+  const customerRefundPercentage = getRefundPercentage(hoursUntilStart, policy);
 
   // Stylist gets what customer doesn't get refunded
   const compensationPercentage = 100 - customerRefundPercentage;
@@ -0,0 +1,21 @@
+/**
+ * Chair Rentals Module
+ * Unified exports for escrow-backed chair rental payments
+ * Reference: docs/vlossom/17-property-owner-and-chair-rental-module.md
+ */
+
+export * from "./types";
+export {
+  getRentalEscrowKey,
+  toEscrowUnits,
+  calculateRentalRefund,
+  calculateDisputeRefund,
+} from "./rental-refund";
+export {
+  approveRentalWithPayment,
+  getRentalRefundQuote,
+  cancelRental,
+  releaseRentalPayment,
+  disputeRentalPayment,
+  resolveRentalDispute,
+} from "./rental-payment-service";
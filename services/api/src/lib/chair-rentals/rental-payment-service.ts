@@ -0,0 +1,514 @@
+/**
+ * Chair Rental Payment Service
+ * Escrow-backed payment for chair rentals at partner properties
+ * Reference: docs/vlossom/17-property-owner-and-chair-rental-module.md
+ *
+ * Flow:
+ * 1. Owner approves a rental (or the property auto-approves) -> the full amount
+ *    is collected from the stylist's smart wallet into Escrow as one sponsored
+ *    UserOperation (USDC approve + lockFunds). The rental is only APPROVED once
+ *    the lock is confirmed on-chain.
+ * 2. Rental period ends -> the scheduler releases the escrow to the owner, with
+ *    the platform fee going to treasury, and the rental is COMPLETED
+ * 3. Cancellation before the rental starts -> refund per the property's
+ *    cancellation window (owners cancelling always refund in full); any
+ *    retained amount is settled to the owner
+ * 4. Admins can dispute a payment, which holds the escrow until they resolve
+ *    it with a refund percentage
+ */
+
+import { ChairRentalStatus, EscrowStatus as DbEscrowStatus, type ChairRentalRequest } from "@prisma/client";
+import type { Address, Hex } from "viem";
+import prisma from "../prisma";
+import logger from "../logger";
+import {
+  encodeLockFundsCalls,
+  getEscrowRecord,
+  refundFromEscrow,
+  releaseFundsFromEscrow,
+  settleEscrow,
+  EscrowStatus,
+  PLATFORM_TREASURY_ADDRESS,
+} from "../escrow-client";
+import {
+  buildBatchExecuteCallData,
+  checkWalletDeployed,
+  executeUserOp,
+  getBalance,
+  getWallet,
+  markWalletDeployed,
+  recordTransaction,
+  updateTransactionStatus,
+} from "../wallet";
+import {
+  calculateDisputeRefund,
+  calculateRentalRefund,
+  getRentalEscrowKey,
+  toEscrowUnits,
+} from "./rental-refund";
+import {
+  RENTAL_PLATFORM_FEE_PERCENTAGE,
+  type RentalPaymentResult,
+  type RentalRefundQuote,
+  type ResolveRentalDisputeInput,
+} from "./types";
+
+// Rentals holding a payment that is still owed to someone
+const PAYABLE_STATUSES: ChairRentalStatus[] = [ChairRentalStatus.APPROVED, ChairRentalStatus.ACTIVE];
+
+function isDisputeOpen(rental: ChairRentalRequest): boolean {
+  return rental.disputedAt !== null && rental.disputeResolvedAt === null;
+}
+
+/**
+ * Pay the retained part of a rental to the owner and refund the rest
+ *
+ * The owner takes the payee (stylist) slot of the escrow split; the refund goes
+ * back to the wallet that locked the funds.
+ */
+async function payOutRental(
+  rental: ChairRentalRequest,
+  ownerId: string,
+  refundCents: bigint
+): Promise<RentalPaymentResult<{ escrowStatus: DbEscrowStatus; txHash?: string }>> {
+  const escrowKey = rental.escrowId ?? getRentalEscrowKey(rental.id);
+  const stylistWallet = await getWallet(rental.stylistId);
+
+  if (refundCents >= rental.totalAmountCents) {
+    if (!stylistWallet) {
+      return { success: false, error: "WALLET_NOT_FOUND", details: { userId: rental.stylistId } };
+    }
+
+    const result = await refundFromEscrow({
+      bookingId: escrowKey,
+      recipientAddress: stylistWallet.address as Address,
+    });
+
+    if (!result.success) {
+      logger.error("Failed to refund rental escrow", { rentalId: rental.id, error: result.error });
+      return { success: false, error: "ESCROW_ERROR", details: { reason: result.error } };
+    }
+
+    if (result.txHash) {
+      await recordTransaction(stylistWallet.id, "ESCROW_REFUND", toEscrowUnits(rental.totalAmountCents), {
+        txHash: result.txHash,
+        memo: `Chair rental refund ${rental.id}`,
+        status: "CONFIRMED",
+      });
+    }
+
+    return { success: true, data: { escrowStatus: DbEscrowStatus.REFUNDED, txHash: result.txHash } };
+  }
+
+  const ownerWallet = await getWallet(ownerId);
+  if (!ownerWallet) {
+    return { success: false, error: "WALLET_NOT_FOUND", details: { userId: ownerId } };
+  }
+
+  const result =
+    refundCents > 0n
+      ? await settleEscrow({
+          bookingId: escrowKey,
+          customerRefundAmount: toEscrowUnits(refundCents),
+          stylistAddress: ownerWallet.address as Address,
+          platformFeePercentage: RENTAL_PLATFORM_FEE_PERCENTAGE,
+          treasuryAddress: PLATFORM_TREASURY_ADDRESS,
+        })
+      : await releaseFundsFromEscrow({
+          bookingId: escrowKey,
+          stylistAddress: ownerWallet.address as Address,
+          totalAmount: toEscrowUnits(rental.totalAmountCents),
+          platformFeePercentage: RENTAL_PLATFORM_FEE_PERCENTAGE,
+          treasuryAddress: PLATFORM_TREASURY_ADDRESS,
+        });
+
+  if (!result.success) {
+    logger.error("Failed to pay out rental escrow", { rentalId: rental.id, error: result.error });
+    return { success: false, error: "ESCROW_RELEASE_FAILED", details: { reason: result.error } };
+  }
+
+  if (result.txHash) {
+    const retainedCents = rental.totalAmountCents - refundCents;
+    const ownerCents =
+      retainedCents - (retainedCents * BigInt(RENTAL_PLATFORM_FEE_PERCENTAGE)) / 100n;
+
+    await recordTransaction(ownerWallet.id, "ESCROW_RELEASE", toEscrowUnits(ownerCents), {
+      txHash: result.txHash,
+      memo: `Chair rental payout ${rental.id}`,
+      status: "CONFIRMED",
+    });
+  }
+
+  return {
+    success: true,
+    data: {
+      escrowStatus: refundCents > 0n ? DbEscrowStatus.SETTLED : DbEscrowStatus.RELEASED,
+      txHash: result.txHash,
+    },
+  };
+}
+
+/**
+ * Approve a rental, collecting payment from the stylist's smart wallet first
+ *
+ * The rental stays PENDING_APPROVAL if the payment can't be collected.
+ *
+ * @param rentalId - Rental request to approve
+ * @param approverId - Owner approving it (the owner id for auto-approval)
+ */
+export async function approveRentalWithPayment(
+  rentalId: string,
+  approverId: string
+): Promise<RentalPaymentResult<ChairRentalRequest>> {
+  const rental = await prisma.chairRentalRequest.findUnique({ where: { id: rentalId } });
+
+  if (!rental) {
+    return { success: false, error: "RENTAL_NOT_FOUND" };
+  }
+
+  if (rental.status !== ChairRentalStatus.PENDING_APPROVAL) {
+    return { success: false, error: "RENTAL_ALREADY_PROCESSED" };
+  }
+
+  const approval = {
+    status: ChairRentalStatus.APPROVED,
+    approvedAt: new Date(),
+    approvedBy: approverId,
+  };
+
+  // Free rentals (no rate configured) have nothing to collect
+  if (rental.totalAmountCents === 0n) {
+    const updated = await prisma.chairRentalRequest.update({ where: { id: rentalId }, data: approval });
+    return { success: true, data: updated };
+  }
+
+  const wallet = await getWallet(rental.stylistId);
+  if (!wallet) {
+    return { success: false, error: "WALLET_NOT_FOUND", details: { userId: rental.stylistId } };
+  }
+
+  const escrowKey = getRentalEscrowKey(rental.id);
+  const amount = toEscrowUnits(rental.totalAmountCents);
+
+  const balance = await getBalance(wallet.address);
+  if (balance.usdc < amount) {
+    return {
+      success: false,
+      error: "INSUFFICIENT_BALANCE",
+      details: { required: amount.toString(), available: balance.usdc.toString() },
+    };
+  }
+
+  // Escrow keys are single-use, so a second approval can't charge twice
+  const existing = await getEscrowRecord(escrowKey);
+  if (existing.status !== EscrowStatus.None) {
+    return { success: false, error: "RENTAL_ALREADY_PROCESSED", details: { escrowKey } };
+  }
+
+  const pendingTx = await recordTransaction(wallet.id, "ESCROW_LOCK", amount, {
+    memo: `Chair rental ${rental.id}`,
+  });
+
+  try {
+    const calls = encodeLockFundsCalls({ bookingId: escrowKey, amount });
+    const callData = buildBatchExecuteCallData(
+      calls.map((call) => call.target),
+      calls.map(() => 0n),
+      calls.map((call) => call.data as Hex)
+    );
+
+    const isDeployed = wallet.isDeployed || (await checkWalletDeployed(wallet.address));
+    const result = await executeUserOp({
+      sender: wallet.address as Address,
+      userId: wallet.userId,
+      callData,
+      isDeployed,
+    });
+
+    if (!result.success) {
+      await updateTransactionStatus(pendingTx.id, "FAILED");
+      logger.error("Failed to collect rental payment", { rentalId, error: result.error });
+      return { success: false, error: "PAYMENT_FAILED", details: { reason: result.error } };
+    }
+
+    if (!wallet.isDeployed) {
+      await markWalletDeployed(wallet.id);
+    }
+
+    // Only approve once the lock is visible on-chain
+    const record = await getEscrowRecord(escrowKey);
+    if (record.status !== EscrowStatus.Locked || record.amount < amount) {
+      await updateTransactionStatus(pendingTx.id, "FAILED", result.txHash);
+      return {
+        success: false,
+        error: "PAYMENT_VERIFICATION_FAILED",
+        details: { escrowKey, status: EscrowStatus[record.status] },
+      };
+    }
+
+    await updateTransactionStatus(pendingTx.id, "CONFIRMED", result.txHash);
+
+    const updated = await prisma.chairRentalRequest.update({
+      where: { id: rentalId },
+      data: {
+        ...approval,
+        escrowId: escrowKey,
+        escrowStatus: DbEscrowStatus.LOCKED,
+        paymentTxHash: result.txHash,
+      },
+    });
+
+    logger.info("Chair rental payment locked in escrow", { rentalId, txHash: result.txHash });
+
+    return { success: true, data: updated };
+  } catch (error) {
+    await updateTransactionStatus(pendingTx.id, "FAILED");
+    throw error;
+  }
+}
+
+/**
+ * Preview the refund a cancellation would give right now
+ */
+export async function getRentalRefundQuote(
+  rentalId: string,
+  userId: string
+): Promise<RentalPaymentResult<RentalRefundQuote>> {
+  const rental = await prisma.chairRentalRequest.findUnique({
+    where: { id: rentalId },
+    include: { property: true },
+  });
+
+  if (!rental) {
+    return { success: false, error: "RENTAL_NOT_FOUND" };
+  }
+
+  const isOwner = rental.property.ownerId === userId;
+  if (!isOwner && rental.stylistId !== userId) {
+    return { success: false, error: "FORBIDDEN" };
+  }
+
+  return {
+    success: true,
+    data: calculateRentalRefund({
+      totalAmountCents: rental.escrowStatus === DbEscrowStatus.LOCKED ? rental.totalAmountCents : 0n,
+      startTime: rental.startTime,
+      cancelledAt: new Date(),
+      windowHours: rental.property.rentalCancellationWindowHours,
+      cancelledByOwner: isOwner,
+    }),
+  };
+}
+
+/**
+ * Cancel a rental before it starts, refunding per the cancellation window
+ *
+ * @param rentalId - Rental to cancel
+ * @param userId - Stylist who requested it, or the property owner
+ */
+export async function cancelRental(
+  rentalId: string,
+  userId: string
+): Promise<RentalPaymentResult<{ rental: ChairRentalRequest; refund: RentalRefundQuote }>> {
+  const rental = await prisma.chairRentalRequest.findUnique({
+    where: { id: rentalId },
+    include: { property: true },
+  });
+
+  if (!rental) {
+    return { success: false, error: "RENTAL_NOT_FOUND" };
+  }
+
+  const isOwner = rental.property.ownerId === userId;
+  if (!isOwner && rental.stylistId !== userId) {
+    return { success: false, error: "FORBIDDEN" };
+  }
+
+  const now = new Date();
+  const cancellable =
+    rental.status === ChairRentalStatus.PENDING_APPROVAL || rental.status === ChairRentalStatus.APPROVED;
+
+  if (!cancellable || rental.startTime <= now) {
+    return { success: false, error: "RENTAL_NOT_CANCELLABLE", details: { status: rental.status } };
+  }
+
+  if (isDisputeOpen(rental)) {
+    return { success: false, error: "RENTAL_PAYMENT_DISPUTED" };
+  }
+
+  const isFunded = rental.escrowStatus === DbEscrowStatus.LOCKED;
+  const refund = calculateRentalRefund({
+    totalAmountCents: isFunded ? rental.totalAmountCents : 0n,
+    startTime: rental.startTime,
+    cancelledAt: now,
+    windowHours: rental.property.rentalCancellationWindowHours,
+    cancelledByOwner: isOwner,
+  });
+
+  let escrowUpdate = {};
+  if (isFunded) {
+    const payout = await payOutRental(rental, rental.property.ownerId, refund.refundCents);
+    if (!payout.success || !payout.data) {
+      return { success: false, error: payout.error, details: payout.details };
+    }
+
+    escrowUpdate = {
+      escrowStatus: payout.data.escrowStatus,
+      settlementTxHash: payout.data.txHash,
+      refundAmountCents: refund.refundCents,
+    };
+  }
+
+  const updated = await prisma.chairRentalRequest.update({
+    where: { id: rentalId },
+    data: {
+      status: ChairRentalStatus.CANCELLED,
+      cancelledAt: now,
+      cancelledBy: userId,
+      ...escrowUpdate,
+    },
+  });
+
+  logger.info("Chair rental cancelled", {
+    rentalId,
+    cancelledBy: userId,
+    refundCents: refund.refundCents.toString(),
+    reason: refund.reason,
+  });
+
+  return { success: true, data: { rental: updated, refund } };
+}
+
+/**
+ * Release a finished rental's payment to the owner and treasury
+ *
+ * Called by the scheduler once the rental period has ended.
+ */
+export async function releaseRentalPayment(rentalId: string): Promise<RentalPaymentResult<ChairRentalRequest>> {
+  const rental = await prisma.chairRentalRequest.findUnique({
+    where: { id: rentalId },
+    include: { property: { select: { ownerId: true } } },
+  });
+
+  if (!rental) {
+    return { success: false, error: "RENTAL_NOT_FOUND" };
+  }
+
+  if (!PAYABLE_STATUSES.includes(rental.status) || rental.escrowStatus !== DbEscrowStatus.LOCKED) {
+    return { success: false, error: "RENTAL_ALREADY_PROCESSED", details: { status: rental.status } };
+  }
+
+  if (rental.endTime > new Date()) {
+    return { success: false, error: "RENTAL_NOT_ENDED", details: { endTime: rental.endTime.toISOString() } };
+  }
+
+  if (isDisputeOpen(rental)) {
+    return { success: false, error: "RENTAL_PAYMENT_DISPUTED" };
+  }
+
+  const payout = await payOutRental(rental, rental.property.ownerId, 0n);
+  if (!payout.success || !payout.data) {
+    return { success: false, error: payout.error, details: payout.details };
+  }
+
+  const updated = await prisma.chairRentalRequest.update({
+    where: { id: rentalId },
+    data: {
+      status: ChairRentalStatus.COMPLETED,
+      escrowStatus: payout.data.escrowStatus,
+      settlementTxHash: payout.data.txHash,
+    },
+  });
+
+  return { success: true, data: updated };
+}
+
+/**
+ * Hold a rental payment for admin review
+ *
+ * The scheduler skips disputed rentals until the dispute is resolved.
+ */
+export async function disputeRentalPayment(
+  rentalId: string,
+  adminId: string,
+  reason: string
+): Promise<RentalPaymentResult<ChairRentalRequest>> {
+  const rental = await prisma.chairRentalRequest.findUnique({ where: { id: rentalId } });
+
+  if (!rental) {
+    return { success: false, error: "RENTAL_NOT_FOUND" };
+  }
+
+  if (rental.escrowStatus !== DbEscrowStatus.LOCKED) {
+    return { success: false, error: "RENTAL_NOT_FUNDED", details: { escrowStatus: rental.escrowStatus } };
+  }
+
+  if (isDisputeOpen(rental)) {
+    return { success: false, error: "RENTAL_PAYMENT_DISPUTED" };
+  }
+
+  const updated = await prisma.chairRentalRequest.update({
+    where: { id: rentalId },
+    data: {
+      disputedAt: new Date(),
+      disputedBy: adminId,
+      disputeReason: reason,
+      disputeResolvedAt: null,
+      disputeResolution: null,
+    },
+  });
+
+  return { success: true, data: updated };
+}
+
+/**
+ * Resolve a disputed rental payment
+ *
+ * Refunds the given share to the stylist and pays the rest to the owner.
+ * A full refund cancels the rental; otherwise it is completed.
+ */
+export async function resolveRentalDispute(
+  rentalId: string,
+  adminId: string,
+  input: ResolveRentalDisputeInput
+): Promise<RentalPaymentResult<ChairRentalRequest>> {
+  const rental = await prisma.chairRentalRequest.findUnique({
+    where: { id: rentalId },
+    include: { property: { select: { ownerId: true } } },
+  });
+
+  if (!rental) {
+    return { success: false, error: "RENTAL_NOT_FOUND" };
+  }
+
+  if (!isDisputeOpen(rental)) {
+    return { success: false, error: "RENTAL_NOT_DISPUTED" };
+  }
+
+  if (rental.escrowStatus !== DbEscrowStatus.LOCKED) {
+    return { success: false, error: "RENTAL_NOT_FUNDED", details: { escrowStatus: rental.escrowStatus } };
+  }
+
+  const refundCents = calculateDisputeRefund(rental.totalAmountCents, input.refundPercentage);
+  const payout = await payOutRental(rental, rental.property.ownerId, refundCents);
+  if (!payout.success || !payout.data) {
+    return { success: false, error: payout.error, details: payout.details };
+  }
+
+  const fullRefund = refundCents >= rental.totalAmountCents;
+  const updated = await prisma.chairRentalRequest.update({
+    where: { id: rentalId },
+    data: {
+      status: fullRefund ? ChairRentalStatus.CANCELLED : ChairRentalStatus.COMPLETED,
+      cancelledAt: fullRefund ? new Date() : undefined,
+      cancelledBy: fullRefund ? adminId : undefined,
+      escrowStatus: payout.data.escrowStatus,
+      settlementTxHash: payout.data.txHash,
+      refundAmountCents: refundCents,
+      disputeResolvedAt: new Date(),
+      disputeResolution: input.resolution,
+    },
+  });
+
+  return { success: true, data: updated };
+}
@@ -0,0 +1,95 @@
+import {
+  calculateDisputeRefund,
+  calculateRentalRefund,
+  getRentalEscrowKey,
+  toEscrowUnits,
+} from './rental-refund';
+
+describe('Chair Rental Refund Policy', () => {
+  const startTime = new Date('2026-05-01T09:00:00Z');
+  const hour = 60 * 60 * 1000;
+
+  describe('calculateRentalRefund', () => {
+    const base = {
+      totalAmountCents: 50000n,
+      startTime,
+      windowHours: 48,
+      cancelledByOwner: false,
+    };
+
+    it('should refund in full when the stylist cancels before the window closes', () => {
+      const quote = calculateRentalRefund({
+        ...base,
+        cancelledAt: new Date(startTime.getTime() - 72 * hour),
+      });
+
+      expect(quote.refundCents).toBe(50000n);
+      expect(quote.reason).toBe('BEFORE_WINDOW');
+      expect(quote.windowClosesAt).toEqual(new Date(startTime.getTime() - 48 * hour));
+    });
+
+    it('should refund in full exactly at the window boundary', () => {
+      const quote = calculateRentalRefund({
+        ...base,
+        cancelledAt: new Date(startTime.getTime() - 48 * hour),
+      });
+
+      expect(quote.reason).toBe('BEFORE_WINDOW');
+    });
+
+    it('should not refund a stylist cancelling inside the window', () => {
+      const quote = calculateRentalRefund({
+        ...base,
+        cancelledAt: new Date(startTime.getTime() - 47 * hour),
+      });
+
+      expect(quote.refundCents).toBe(0n);
+      expect(quote.reason).toBe('INSIDE_WINDOW');
+    });
+
+    it('should always refund in full when the owner cancels', () => {
+      const quote = calculateRentalRefund({
+        ...base,
+        cancelledByOwner: true,
+        cancelledAt: new Date(startTime.getTime() - hour),
+      });
+
+      expect(quote.refundCents).toBe(50000n);
+      expect(quote.reason).toBe('OWNER_CANCELLED');
+    });
+
+    it('should treat a zero-hour window as refundable until the start', () => {
+      const quote = calculateRentalRefund({
+        ...base,
+        windowHours: 0,
+        cancelledAt: new Date(startTime.getTime() - 1000),
+      });
+
+      expect(quote.reason).toBe('BEFORE_WINDOW');
+    });
+  });
+
+  describe('calculateDisputeRefund', () => {
+    it('should return the requested share of the rental', () => {
+      expect(calculateDisputeRefund(50000n, 0)).toBe(0n);
+      expect(calculateDisputeRefund(50000n, 30)).toBe(15000n);
+      expect(calculateDisputeRefund(50000n, 100)).toBe(50000n);
+    });
+
+    it('should reject percentages outside 0-100', () => {
+      expect(() => calculateDisputeRefund(50000n, -1)).toThrow();
+      expect(() => calculateDisputeRefund(50000n, 101)).toThrow();
+      expect(() => calculateDisputeRefund(50000n, 12.5)).toThrow();
+    });
+  });
+
+  describe('escrow helpers', () => {
+    it('should namespace rental escrow keys', () => {
+      expect(getRentalEscrowKey('abc')).toBe('rental:abc');
+    });
+
+    it('should convert cents to USDC units', () => {
+      expect(toEscrowUnits(150n)).toBe(1_500_000n);
+    });
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Chair Rental Refund Policy
+ * Pure helpers for the owner-configured cancellation window
+ */
+
+import { USDC_UNITS_PER_CENT, type RentalRefundQuote } from "./types";
+
+/**
+ * Escrow key for a rental payment - kept apart from booking ids
+ */
+export function getRentalEscrowKey(rentalId: string): string {
+  return `rental:${rentalId}`;
+}
+
+/**
+ * Convert cents to the USDC units held by escrow
+ */
+export function toEscrowUnits(cents: bigint): bigint {
+  return cents * USDC_UNITS_PER_CENT;
+}
+
+/**
+ * Work out the refund for a cancelled rental
+ *
+ * Owners cancelling always refund in full. Stylists get a full refund when they
+ * cancel at least `windowHours` before the rental starts, and nothing after.
+ *
+ * @param params - Rental amount, start, cancellation time and the property's window
+ * @returns Refund amount and the rule that applied
+ */
+export function calculateRentalRefund(params: {
+  totalAmountCents: bigint;
+  startTime: Date;
+  cancelledAt: Date;
+  windowHours: number;
+  cancelledByOwner: boolean;
+}): RentalRefundQuote {
+  const windowClosesAt = new Date(params.startTime.getTime() - params.windowHours * 60 * 60 * 1000);
+
+  if (params.cancelledByOwner) {
+    return { refundCents: params.totalAmountCents, reason: "OWNER_CANCELLED", windowClosesAt };
+  }
+
+  if (params.cancelledAt.getTime() <= windowClosesAt.getTime()) {
+    return { refundCents: params.totalAmountCents, reason: "BEFORE_WINDOW", windowClosesAt };
+  }
+
+  return { refundCents: 0n, reason: "INSIDE_WINDOW", windowClosesAt };
+}
+
+/**
+ * Refund for an admin-resolved dispute, as a share of the rental amount
+ */
+export function calculateDisputeRefund(totalAmountCents: bigint, refundPercentage: number): bigint {
+  if (!Number.isInteger(refundPercentage) || refundPercentage < 0 || refundPercentage > 100) {
+    throw new Error(`Invalid refund percentage: ${refundPercentage}`);
+  }
+
+  return (totalAmountCents * BigInt(refundPercentage)) / 100n;
+}
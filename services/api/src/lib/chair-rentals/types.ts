@@ -0,0 +1,47 @@
+/**
+ * Chair Rental Payment Types
+ * Escrow-backed payment for stylists renting chairs at partner properties
+ * Reference: docs/vlossom/17-property-owner-and-chair-rental-module.md
+ */
+
+/**
+ * Platform share of every chair rental, taken on release to the owner
+ */
+export const RENTAL_PLATFORM_FEE_PERCENTAGE = 10;
+
+/**
+ * Rentals are paid in cents; escrow holds USDC (6 decimals)
+ */
+export const USDC_UNITS_PER_CENT = 10_000n;
+
+/**
+ * Why a cancellation was (or wasn't) refunded
+ */
+export type RentalRefundReason =
+  | "OWNER_CANCELLED" // Owner backed out - always a full refund
+  | "BEFORE_WINDOW" // Stylist cancelled with enough notice
+  | "INSIDE_WINDOW"; // Stylist cancelled too late - owner keeps the payment
+
+export interface RentalRefundQuote {
+  refundCents: bigint;
+  reason: RentalRefundReason;
+  /** Last moment the stylist could cancel for a full refund */
+  windowClosesAt: Date;
+}
+
+export interface ResolveRentalDisputeInput {
+  /** Share of the payment returned to the stylist (0-100) */
+  refundPercentage: number;
+  resolution: string;
+}
+
+/**
+ * Result of a rental payment operation.
+ * `error` is an ERROR_CODES key so routes can map it directly.
+ */
+export interface RentalPaymentResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  details?: Record<string, unknown>;
+}
@@ -0,0 +1,177 @@
+import {
+  buildAvailabilityBlocks,
+  getExceptionIntervals,
+  getOpenIntervals,
+  measureUtilisation,
+  parseOperatingHours,
+} from './availability';
+import type { BusyInterval } from './types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('Chair Availability', () => {
+  describe('parseOperatingHours', () => {
+    it('should keep only well-formed days', () => {
+      const hours = parseOperatingHours({
+        mon: { open: '08:00', close: '18:00' },
+        tue: { open: '8am', close: '18:00' },
+        wed: { open: '09:00' },
+        funday: { open: '08:00', close: '18:00' },
+      });
+
+      expect(hours).toEqual({ mon: { open: '08:00', close: '18:00' } });
+    });
+
+    it('should treat non-objects as no hours', () => {
+      expect(parseOperatingHours(null)).toEqual({});
+      expect(parseOperatingHours([])).toEqual({});
+    });
+  });
+
+  describe('getOpenIntervals', () => {
+    // 2026-12-07 is a Monday
+    const from = new Date('2026-12-07T00:00:00Z');
+    const to = new Date('2026-12-09T00:00:00Z');
+
+    it('should treat a property without hours as always open', () => {
+      expect(getOpenIntervals({}, from, to)).toEqual([{ start: from, end: to }]);
+    });
+
+    it('should open only on configured days', () => {
+      const intervals = getOpenIntervals({ mon: { open: '08:00', close: '18:00' } }, from, to);
+
+      expect(intervals).toEqual([
+        { start: new Date('2026-12-07T08:00:00Z'), end: new Date('2026-12-07T18:00:00Z') },
+      ]);
+    });
+
+    it('should clip opening hours to the range', () => {
+      const intervals = getOpenIntervals(
+        { mon: { open: '08:00', close: '18:00' } },
+        new Date('2026-12-07T12:00:00Z'),
+        to
+      );
+
+      expect(intervals[0].start).toEqual(new Date('2026-12-07T12:00:00Z'));
+    });
+
+    it('should skip days that close before they open', () => {
+      expect(getOpenIntervals({ mon: { open: '18:00', close: '08:00' } }, from, to)).toEqual([]);
+    });
+  });
+
+  describe('getExceptionIntervals', () => {
+    it('should block whole UTC days in the range', () => {
+      const intervals = getExceptionIntervals(
+        [
+          { date: '2026-12-25', blocked: true, note: 'Holiday' },
+          { date: '2027-01-10', blocked: true },
+        ],
+        new Date('2026-12-20T00:00:00Z'),
+        new Date('2026-12-31T00:00:00Z')
+      );
+
+      expect(intervals).toEqual([
+        {
+          start: new Date('2026-12-25T00:00:00Z'),
+          end: new Date('2026-12-26T00:00:00Z'),
+          source: 'EXCEPTION',
+          note: 'Holiday',
+        },
+      ]);
+    });
+  });
+
+  describe('buildAvailabilityBlocks', () => {
+    const hours = { mon: { open: '08:00', close: '12:00' }, tue: { open: '08:00', close: '12:00' } };
+    const from = new Date('2026-12-07T00:00:00Z');
+    const to = new Date('2026-12-09T00:00:00Z');
+    const openIntervals = getOpenIntervals(hours, from, to);
+    const booking: BusyInterval = {
+      start: new Date('2026-12-07T09:00:00Z'),
+      end: new Date('2026-12-07T10:30:00Z'),
+      source: 'RESERVATION',
+    };
+
+    it('should build hourly slots within opening hours only', () => {
+      const blocks = buildAvailabilityBlocks({ mode: 'PER_HOUR', from, to, openIntervals, busy: [booking] });
+
+      expect(blocks).toHaveLength(8);
+      expect(blocks.map((b) => b.status)).toEqual([
+        'FREE', 'BUSY', 'BUSY', 'FREE',
+        'FREE', 'FREE', 'FREE', 'FREE',
+      ]);
+      expect(blocks[1].busy).toEqual([booking]);
+    });
+
+    it('should mark a day busy when anything overlaps its open hours', () => {
+      const blocks = buildAvailabilityBlocks({ mode: 'PER_DAY', from, to, openIntervals, busy: [booking] });
+
+      expect(blocks.map((b) => b.status)).toEqual(['BUSY', 'FREE']);
+    });
+
+    it('should ignore busy time outside opening hours', () => {
+      const evening: BusyInterval = {
+        start: new Date('2026-12-08T18:00:00Z'),
+        end: new Date('2026-12-08T20:00:00Z'),
+        source: 'RENTAL',
+      };
+
+      const blocks = buildAvailabilityBlocks({ mode: 'PER_DAY', from, to, openIntervals, busy: [evening] });
+
+      expect(blocks.map((b) => b.status)).toEqual(['FREE', 'FREE']);
+    });
+
+    it('should mark periods without opening hours closed', () => {
+      const weekend = getOpenIntervals(hours, new Date('2026-12-12T00:00:00Z'), new Date('2026-12-14T00:00:00Z'));
+
+      const blocks = buildAvailabilityBlocks({
+        mode: 'PER_DAY',
+        from: new Date('2026-12-12T00:00:00Z'),
+        to: new Date('2026-12-14T00:00:00Z'),
+        openIntervals: weekend,
+        busy: [],
+      });
+
+      expect(blocks.map((b) => b.status)).toEqual(['CLOSED', 'CLOSED']);
+    });
+
+    it('should cut the last weekly period at the end of the range', () => {
+      const rangeEnd = new Date('2026-12-17T00:00:00Z');
+      const blocks = buildAvailabilityBlocks({
+        mode: 'PER_WEEK',
+        from,
+        to: rangeEnd,
+        openIntervals: getOpenIntervals(hours, from, rangeEnd),
+        busy: [booking],
+      });
+
+      expect(blocks).toHaveLength(2);
+      expect(blocks[0].status).toBe('BUSY');
+      expect(blocks[1]).toMatchObject({ start: new Date('2026-12-14T00:00:00Z'), end: rangeEnd, status: 'FREE' });
+    });
+  });
+
+  describe('measureUtilisation', () => {
+    const open = [{ start: new Date('2026-12-07T08:00:00Z'), end: new Date('2026-12-07T12:00:00Z') }];
+
+    it('should count overlapping busy time once', () => {
+      const { openMs, busyMs } = measureUtilisation(open, [
+        { start: new Date('2026-12-07T09:00:00Z'), end: new Date('2026-12-07T11:00:00Z') },
+        { start: new Date('2026-12-07T10:00:00Z'), end: new Date('2026-12-07T10:30:00Z') },
+        { start: new Date('2026-12-07T10:30:00Z'), end: new Date('2026-12-07T11:30:00Z') },
+      ]);
+
+      expect(openMs).toBe(4 * HOUR_MS);
+      expect(busyMs).toBe(2.5 * HOUR_MS);
+    });
+
+    it('should only count busy time while open', () => {
+      const { busyMs } = measureUtilisation(open, [
+        { start: new Date('2026-12-07T06:00:00Z'), end: new Date('2026-12-07T09:00:00Z') },
+      ]);
+
+      expect(busyMs).toBe(HOUR_MS);
+    });
+  });
+});
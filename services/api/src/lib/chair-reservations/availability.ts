@@ -0,0 +1,210 @@
+/**
+ * Chair Availability
+ * Pure calendar building from operating hours, exceptions and bookings.
+ * All times are UTC, matching how chair exceptions are stored.
+ */
+
+import { parseChairExceptions } from "./reservation-rules";
+import type {
+  AvailabilityBlock,
+  AvailabilityMode,
+  BusyInterval,
+  OperatingDay,
+  OperatingHours,
+  TimeInterval,
+} from "./types";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Same period lengths rental pricing charges by
+const PERIOD_DAYS: Record<Exclude<AvailabilityMode, "PER_HOUR">, number> = {
+  PER_DAY: 1,
+  PER_WEEK: 7,
+  PER_MONTH: 30,
+};
+
+const DAY_NAMES: OperatingDay[] = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+function overlaps(a: TimeInterval, b: TimeInterval): boolean {
+  return a.start < b.end && a.end > b.start;
+}
+
+function startOfUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function minutesOf(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Parse Property.operatingHours, ignoring malformed days
+ */
+export function parseOperatingHours(value: unknown): OperatingHours {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return {};
+  }
+
+  const hours: OperatingHours = {};
+  for (const day of DAY_NAMES) {
+    const entry = (value as Record<string, unknown>)[day] as { open?: unknown; close?: unknown } | undefined;
+    if (
+      entry &&
+      typeof entry.open === "string" &&
+      typeof entry.close === "string" &&
+      TIME_PATTERN.test(entry.open) &&
+      TIME_PATTERN.test(entry.close)
+    ) {
+      hours[day] = { open: entry.open, close: entry.close };
+    }
+  }
+
+  return hours;
+}
+
+/**
+ * Periods the property is open within [from, to)
+ *
+ * A property that hasn't set any hours is treated as always open. Once hours
+ * are set, days without an entry are closed.
+ */
+export function getOpenIntervals(hours: OperatingHours, from: Date, to: Date): TimeInterval[] {
+  if (Object.keys(hours).length === 0) {
+    return from < to ? [{ start: from, end: to }] : [];
+  }
+
+  const intervals: TimeInterval[] = [];
+  for (let day = startOfUtcDay(from); day < to; day = new Date(day.getTime() + DAY_MS)) {
+    const entry = hours[DAY_NAMES[day.getUTCDay()]];
+    if (!entry) {
+      continue;
+    }
+
+    const openMinutes = minutesOf(entry.open);
+    const closeMinutes = minutesOf(entry.close);
+    if (closeMinutes <= openMinutes) {
+      continue;
+    }
+
+    const start = new Date(Math.max(day.getTime() + openMinutes * 60_000, from.getTime()));
+    const end = new Date(Math.min(day.getTime() + closeMinutes * 60_000, to.getTime()));
+    if (start < end) {
+      intervals.push({ start, end });
+    }
+  }
+
+  return intervals;
+}
+
+/**
+ * Blocked chair exceptions as whole-day busy intervals within [from, to)
+ */
+export function getExceptionIntervals(exceptions: unknown, from: Date, to: Date): BusyInterval[] {
+  return parseChairExceptions(exceptions)
+    .map((exception) => {
+      const start = new Date(`${exception.date.slice(0, 10)}T00:00:00.000Z`);
+      return {
+        start,
+        end: new Date(start.getTime() + DAY_MS),
+        source: "EXCEPTION" as const,
+        note: exception.note,
+      };
+    })
+    .filter((interval) => !Number.isNaN(interval.start.getTime()) && overlaps(interval, { start: from, end: to }));
+}
+
+/**
+ * Split [from, to) into the periods of a calendar mode
+ *
+ * Hourly slots only cover open hours, so a month of hours stays small.
+ * Daily, weekly and monthly periods start at midnight UTC on `from` and the
+ * last one is cut off at `to`.
+ */
+function getPeriods(mode: AvailabilityMode, from: Date, to: Date, open: TimeInterval[]): TimeInterval[] {
+  const periods: TimeInterval[] = [];
+
+  if (mode === "PER_HOUR") {
+    for (const interval of open) {
+      for (let start = interval.start.getTime(); start < interval.end.getTime(); start += HOUR_MS) {
+        periods.push({
+          start: new Date(start),
+          end: new Date(Math.min(start + HOUR_MS, interval.end.getTime())),
+        });
+      }
+    }
+    return periods;
+  }
+
+  const periodMs = PERIOD_DAYS[mode] * DAY_MS;
+  for (let start = startOfUtcDay(from).getTime(); start < to.getTime(); start += periodMs) {
+    periods.push({ start: new Date(start), end: new Date(Math.min(start + periodMs, to.getTime())) });
+  }
+
+  return periods;
+}
+
+/**
+ * Build a chair's free / busy calendar
+ *
+ * A period is busy when anything overlaps the hours the property is open in
+ * it, so a weekly block with one booked hour is busy for a weekly rental.
+ */
+export function buildAvailabilityBlocks(params: {
+  mode: AvailabilityMode;
+  from: Date;
+  to: Date;
+  openIntervals: TimeInterval[];
+  busy: BusyInterval[];
+}): AvailabilityBlock[] {
+  return getPeriods(params.mode, params.from, params.to, params.openIntervals).map((period) => {
+    const openParts = params.openIntervals.filter((interval) => overlaps(interval, period));
+    if (openParts.length === 0) {
+      return { ...period, status: "CLOSED" as const, busy: [] };
+    }
+
+    const busy = params.busy.filter((interval) =>
+      openParts.some((open) => overlaps(interval, open) && overlaps(interval, period))
+    );
+
+    return { ...period, status: busy.length > 0 ? ("BUSY" as const) : ("FREE" as const), busy };
+  });
+}
+
+/**
+ * Milliseconds the chair was open and, of those, how many were taken
+ *
+ * Overlapping busy intervals are only counted once.
+ */
+export function measureUtilisation(
+  openIntervals: TimeInterval[],
+  busy: TimeInterval[]
+): { openMs: number; busyMs: number } {
+  let openMs = 0;
+  let busyMs = 0;
+
+  for (const open of openIntervals) {
+    openMs += open.end.getTime() - open.start.getTime();
+
+    const clipped = busy
+      .filter((interval) => overlaps(interval, open))
+      .map((interval) => ({
+        start: Math.max(interval.start.getTime(), open.start.getTime()),
+        end: Math.min(interval.end.getTime(), open.end.getTime()),
+      }))
+      .sort((a, b) => a.start - b.start);
+
+    let coveredUntil = open.start.getTime();
+    for (const interval of clipped) {
+      const start = Math.max(interval.start, coveredUntil);
+      if (interval.end > start) {
+        busyMs += interval.end - start;
+        coveredUntil = interval.end;
+      }
+    }
+  }
+
+  return { openMs, busyMs };
+}
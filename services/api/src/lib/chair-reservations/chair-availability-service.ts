@@ -0,0 +1,284 @@
+/**
+ * Chair Availability Service
+ * Free / busy calendars for stylists choosing a chair, and the owner's
+ * utilisation and revenue view
+ * Reference: docs/vlossom/17-property-owner-and-chair-rental-module.md
+ *
+ * A chair is busy when a rental holds it, a booking has reserved it, or the
+ * owner has blocked the day in Chair.exceptions. Calendars only count the
+ * hours the property is open (Property.operatingHours).
+ */
+
+import { EscrowStatus, type Chair } from "@prisma/client";
+import prisma from "../prisma";
+import { RENTAL_PLATFORM_FEE_PERCENTAGE } from "../chair-rentals";
+import {
+  buildAvailabilityBlocks,
+  getExceptionIntervals,
+  getOpenIntervals,
+  measureUtilisation,
+  parseOperatingHours,
+} from "./availability";
+import {
+  CHAIR_FEE_EARNING_STATUSES,
+  CHAIR_HOLDING_STATUSES,
+  CHAIR_OCCUPYING_RENTAL_STATUSES,
+  type AvailabilityMode,
+  type BusyInterval,
+  type ChairAvailability,
+  type ChairReservationResult,
+  type ChairUtilisation,
+  type PropertyAvailability,
+  type PropertyUtilisation,
+} from "./types";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Bookings that hold their chair now or did when they happened
+const OCCUPYING_BOOKING_STATUSES = [...new Set([...CHAIR_HOLDING_STATUSES, ...CHAIR_FEE_EARNING_STATUSES])];
+
+// Rental escrows that paid, or will pay, the owner something
+const OWNER_PAYING_ESCROW_STATUSES = [EscrowStatus.LOCKED, EscrowStatus.RELEASED, EscrowStatus.SETTLED];
+
+function getRateCents(chair: Chair, mode: AvailabilityMode): bigint | null {
+  switch (mode) {
+    case "PER_HOUR":
+      return chair.hourlyRateCents;
+    case "PER_DAY":
+      return chair.dailyRateCents;
+    case "PER_WEEK":
+      return chair.weeklyRateCents;
+    case "PER_MONTH":
+      return chair.monthlyRateCents;
+  }
+}
+
+function isModeEnabled(chair: Chair, mode: AvailabilityMode): boolean {
+  const modes = chair.rentalModesEnabled;
+  if (!Array.isArray(modes)) {
+    return false;
+  }
+  // Per-booking chairs are used by the hour
+  return modes.includes(mode) || (mode === "PER_HOUR" && modes.includes("PER_BOOKING"));
+}
+
+/**
+ * Rentals and reservations occupying the chairs in [from, to), by chair
+ */
+async function loadOccupancy(
+  chairIds: string[],
+  from: Date,
+  to: Date
+): Promise<Map<string, BusyInterval[]>> {
+  const [rentals, reservations] = await Promise.all([
+    prisma.chairRentalRequest.findMany({
+      where: {
+        chairId: { in: chairIds },
+        status: { in: CHAIR_OCCUPYING_RENTAL_STATUSES },
+        startTime: { lt: to },
+        endTime: { gt: from },
+      },
+      select: { chairId: true, startTime: true, endTime: true },
+    }),
+    prisma.chairReservation.findMany({
+      where: {
+        chairId: { in: chairIds },
+        startTime: { lt: to },
+        endTime: { gt: from },
+        booking: { status: { in: OCCUPYING_BOOKING_STATUSES } },
+      },
+      select: { chairId: true, startTime: true, endTime: true },
+    }),
+  ]);
+
+  const occupancy = new Map<string, BusyInterval[]>(chairIds.map((id) => [id, []]));
+  for (const rental of rentals) {
+    occupancy.get(rental.chairId)?.push({ start: rental.startTime, end: rental.endTime, source: "RENTAL" });
+  }
+  for (const reservation of reservations) {
+    occupancy
+      .get(reservation.chairId)
+      ?.push({ start: reservation.startTime, end: reservation.endTime, source: "RESERVATION" });
+  }
+
+  return occupancy;
+}
+
+function buildChairAvailability(
+  chair: Chair,
+  params: { mode: AvailabilityMode; from: Date; to: Date },
+  openIntervals: ReturnType<typeof getOpenIntervals>,
+  occupancy: BusyInterval[]
+): ChairAvailability {
+  const busy = [...getExceptionIntervals(chair.exceptions, params.from, params.to), ...occupancy].sort(
+    (a, b) => a.start.getTime() - b.start.getTime()
+  );
+
+  return {
+    chairId: chair.id,
+    name: chair.name,
+    type: chair.type,
+    bookable: chair.isActive && chair.status !== "MAINTENANCE" && chair.status !== "BLOCKED",
+    modeEnabled: isModeEnabled(chair, params.mode),
+    rateCents: getRateCents(chair, params.mode),
+    blocks: buildAvailabilityBlocks({ ...params, openIntervals, busy }),
+  };
+}
+
+/**
+ * Free / busy calendar for every active chair at a property
+ */
+export async function getPropertyAvailability(params: {
+  propertyId: string;
+  mode: AvailabilityMode;
+  from: Date;
+  to: Date;
+}): Promise<ChairReservationResult<PropertyAvailability>> {
+  const property = await prisma.property.findUnique({
+    where: { id: params.propertyId },
+    include: { chairs: { where: { isActive: true }, orderBy: { name: "asc" } } },
+  });
+
+  if (!property || !property.isActive) {
+    return { success: false, error: "PROPERTY_NOT_FOUND" };
+  }
+
+  const operatingHours = parseOperatingHours(property.operatingHours);
+  const openIntervals = getOpenIntervals(operatingHours, params.from, params.to);
+  const occupancy = await loadOccupancy(
+    property.chairs.map((chair) => chair.id),
+    params.from,
+    params.to
+  );
+
+  return {
+    success: true,
+    data: {
+      propertyId: property.id,
+      mode: params.mode,
+      from: params.from,
+      to: params.to,
+      operatingHours,
+      chairs: property.chairs.map((chair) =>
+        buildChairAvailability(chair, params, openIntervals, occupancy.get(chair.id) ?? [])
+      ),
+    },
+  };
+}
+
+/**
+ * Free / busy calendar for one chair
+ */
+export async function getChairAvailability(params: {
+  propertyId: string;
+  chairId: string;
+  mode: AvailabilityMode;
+  from: Date;
+  to: Date;
+}): Promise<ChairReservationResult<ChairAvailability>> {
+  const chair = await prisma.chair.findUnique({
+    where: { id: params.chairId },
+    include: { property: { select: { isActive: true, operatingHours: true } } },
+  });
+
+  if (!chair || chair.propertyId !== params.propertyId || !chair.property.isActive) {
+    return { success: false, error: "CHAIR_NOT_FOUND" };
+  }
+
+  const openIntervals = getOpenIntervals(parseOperatingHours(chair.property.operatingHours), params.from, params.to);
+  const occupancy = await loadOccupancy([chair.id], params.from, params.to);
+
+  return {
+    success: true,
+    data: buildChairAvailability(chair, params, openIntervals, occupancy.get(chair.id) ?? []),
+  };
+}
+
+/**
+ * Owner's view of how much each chair was used and what it earned
+ */
+export async function getPropertyUtilisation(params: {
+  propertyId: string;
+  from: Date;
+  to: Date;
+}): Promise<ChairReservationResult<PropertyUtilisation>> {
+  const property = await prisma.property.findUnique({
+    where: { id: params.propertyId },
+    include: { chairs: { orderBy: { name: "asc" } } },
+  });
+
+  if (!property) {
+    return { success: false, error: "PROPERTY_NOT_FOUND" };
+  }
+
+  const chairIds = property.chairs.map((chair) => chair.id);
+  const openIntervals = getOpenIntervals(parseOperatingHours(property.operatingHours), params.from, params.to);
+
+  const [occupancy, paidRentals, feeReservations] = await Promise.all([
+    loadOccupancy(chairIds, params.from, params.to),
+    prisma.chairRentalRequest.findMany({
+      where: {
+        chairId: { in: chairIds },
+        startTime: { gte: params.from, lt: params.to },
+        escrowStatus: { in: OWNER_PAYING_ESCROW_STATUSES },
+      },
+      select: { chairId: true, totalAmountCents: true, refundAmountCents: true },
+    }),
+    prisma.chairReservation.findMany({
+      where: {
+        chairId: { in: chairIds },
+        startTime: { gte: params.from, lt: params.to },
+        booking: { status: { in: CHAIR_FEE_EARNING_STATUSES } },
+      },
+      select: { chairId: true, feeCents: true },
+    }),
+  ]);
+
+  const chairs = property.chairs.map((chair): ChairUtilisation => {
+    const exceptions = getExceptionIntervals(chair.exceptions, params.from, params.to);
+    const blocked = measureUtilisation(openIntervals, exceptions).busyMs;
+    const { openMs, busyMs } = measureUtilisation(openIntervals, occupancy.get(chair.id) ?? []);
+    const availableMs = openMs - blocked;
+
+    const rentals = paidRentals.filter((r) => r.chairId === chair.id);
+    const reservations = feeReservations.filter((r) => r.chairId === chair.id);
+
+    return {
+      chairId: chair.id,
+      name: chair.name,
+      openHours: availableMs / HOUR_MS,
+      busyHours: busyMs / HOUR_MS,
+      utilisation: availableMs > 0 ? Math.min(busyMs / availableMs, 1) : 0,
+      rentalCount: rentals.length,
+      reservationCount: reservations.length,
+      // The owner is paid what the stylist wasn't refunded, less the platform fee
+      rentalRevenueCents: rentals.reduce((sum, r) => {
+        const kept = r.totalAmountCents - (r.refundAmountCents ?? 0n);
+        return sum + kept - (kept * BigInt(RENTAL_PLATFORM_FEE_PERCENTAGE)) / 100n;
+      }, 0n),
+      bookingFeeRevenueCents: reservations.reduce((sum, r) => sum + r.feeCents, 0n),
+    };
+  });
+
+  const openHours = chairs.reduce((sum, c) => sum + c.openHours, 0);
+  const busyHours = chairs.reduce((sum, c) => sum + c.busyHours, 0);
+
+  return {
+    success: true,
+    data: {
+      propertyId: property.id,
+      from: params.from,
+      to: params.to,
+      chairs,
+      totals: {
+        openHours,
+        busyHours,
+        utilisation: openHours > 0 ? Math.min(busyHours / openHours, 1) : 0,
+        rentalCount: chairs.reduce((sum, c) => sum + c.rentalCount, 0),
+        reservationCount: chairs.reduce((sum, c) => sum + c.reservationCount, 0),
+        rentalRevenueCents: chairs.reduce((sum, c) => sum + c.rentalRevenueCents, 0n),
+        bookingFeeRevenueCents: chairs.reduce((sum, c) => sum + c.bookingFeeRevenueCents, 0n),
+      },
+    },
+  };
+}
@@ -0,0 +1,363 @@
+/**
+ * Chair Reservation Service Tests
+ *
+ * Escrow releases run through the real escrow client with the chain mocked, so
+ * the amounts checked are the ones the Escrow contract would receive.
+ */
+
+// Mock clients - MUST be defined before jest.mock() calls reference them
+const mockPublicClient = {
+  readContract: jest.fn(),
+  waitForTransactionReceipt: jest.fn(),
+};
+
+const mockWalletClient = {
+  writeContract: jest.fn(),
+};
+
+jest.mock('viem', () => ({
+  createPublicClient: jest.fn(() => mockPublicClient),
+  createWalletClient: jest.fn(() => mockWalletClient),
+  http: jest.fn(),
+  fallback: jest.fn(() => 'mock-transport'),
+  keccak256: jest.fn((bytes) => `0x${Buffer.from(bytes).toString('hex').padStart(64, '0')}`),
+  toBytes: jest.fn((str) => Buffer.from(str)),
+}));
+
+jest.mock('viem/accounts', () => ({
+  privateKeyToAccount: jest.fn(() => ({ address: '0xRelayerAddress' })),
+}));
+
+jest.mock('../wallet/chain-client', () => ({
+  CHAIN: { id: 1337, name: 'hardhat' },
+  RPC_URL: 'http://localhost:8545',
+  publicClient: mockPublicClient,
+  getRelayerWalletClient: jest.fn(() => mockWalletClient),
+}));
+
+jest.mock('../escrow-rate-limiter', () => ({
+  escrowRateLimiter: {
+    canProceed: jest.fn(() => ({ canProceed: true })),
+    recordOperation: jest.fn(),
+  },
+}));
+
+jest.mock('@sentry/node', () => ({
+  captureException: jest.fn(),
+}));
+
+const mockPrisma = {
+  chairReservation: { findUnique: jest.fn() },
+  user: { findUnique: jest.fn() },
+};
+
+jest.mock('../prisma', () => ({
+  __esModule: true,
+  prisma: mockPrisma,
+  default: mockPrisma,
+}));
+
+import type { Prisma } from '@prisma/client';
+import { EscrowStatus } from '../escrow-client';
+import { calculateBookingPricing } from '../pricing';
+import { allocatePropertyPayout, allocateRetainedPayout } from './reservation-rules';
+import {
+  ChairDoubleBookedError,
+  getPropertyPayeeAddress,
+  moveChairReservation,
+  releaseEscrowLeg,
+  reserveChair,
+  settleEscrowLeg,
+} from './chair-reservation-service';
+
+const STYLIST = '0x00000000000000000000000000000000000000aa' as const;
+const OWNER = '0x00000000000000000000000000000000000000bb' as const;
+
+function makeTx() {
+  const calls: string[] = [];
+  const tx = {
+    $queryRaw: jest.fn(() => {
+      calls.push('lock');
+      return Promise.resolve([{ id: 'chair-1' }]);
+    }),
+    chairReservation: {
+      findFirst: jest.fn(() => {
+        calls.push('check');
+        return Promise.resolve(null);
+      }),
+      findUnique: jest.fn(() => Promise.resolve({ id: 'reservation-1', chairId: 'chair-1' })),
+      create: jest.fn((args) => Promise.resolve({ id: 'reservation-1', ...args.data })),
+      update: jest.fn(() => Promise.resolve({})),
+    },
+    chairRentalRequest: {
+      findFirst: jest.fn(() => Promise.resolve(null)),
+    },
+  };
+  return { tx, calls };
+}
+
+const window = {
+  startTime: new Date('2026-03-02T10:00:00Z'),
+  endTime: new Date('2026-03-02T11:00:00Z'),
+};
+
+describe('Chair Reservation Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockWalletClient.writeContract.mockResolvedValue('0xReleaseTxHash');
+    mockPublicClient.waitForTransactionReceipt.mockResolvedValue({});
+  });
+
+  describe('reserveChair', () => {
+    const plan = {
+      chairId: 'chair-1',
+      propertyId: 'property-1',
+      ownerId: 'owner-1',
+      feeCents: 1500n,
+      location: { address: '1 Main St', lat: 0, lng: 0 },
+    };
+
+    it('should lock the chair row before checking for overlaps', async () => {
+      const { tx, calls } = makeTx();
+
+      await reserveChair(tx as unknown as Prisma.TransactionClient, {
+        bookingId: 'booking-1',
+        stylistId: 'stylist-1',
+        plan,
+        ...window,
+      });
+
+      expect(calls).toEqual(['lock', 'check']);
+      expect(tx.chairReservation.create).toHaveBeenCalled();
+    });
+
+    it('should throw ChairDoubleBookedError when the chair is taken', async () => {
+      const { tx } = makeTx();
+      tx.chairReservation.findFirst.mockResolvedValueOnce({ bookingId: 'booking-2' } as never);
+
+      await expect(
+        reserveChair(tx as unknown as Prisma.TransactionClient, {
+          bookingId: 'booking-1',
+          stylistId: 'stylist-1',
+          plan,
+          ...window,
+        })
+      ).rejects.toBeInstanceOf(ChairDoubleBookedError);
+      expect(tx.chairReservation.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('moveChairReservation', () => {
+    it('should lock the chair row before checking the new window', async () => {
+      const { tx, calls } = makeTx();
+
+      await moveChairReservation(tx as unknown as Prisma.TransactionClient, {
+        bookingId: 'booking-1',
+        stylistId: 'stylist-1',
+        ...window,
+      });
+
+      expect(calls).toEqual(['lock', 'check']);
+      expect(tx.chairReservation.update).toHaveBeenCalled();
+    });
+  });
+
+  describe('releaseEscrowLeg', () => {
+    it('should release a leg without a property share in USDC units', async () => {
+      // $100 locked = 10_000 cents = 100_000_000 USDC units
+      mockPublicClient.readContract.mockResolvedValue(['0xCustomerAddress', 100_000_000n, EscrowStatus.Locked]);
+
+      const result = await releaseEscrowLeg({
+        escrowKey: 'booking-1',
+        amountCents: 10_000n,
+        platformFeeCents: 1_000n,
+        propertyAmountCents: 0n,
+        stylistAddress: STYLIST,
+        propertyOwnerAddress: null,
+      });
+
+      expect(result.success).toBe(true);
+      expect(mockWalletClient.writeContract).toHaveBeenCalledWith(
+        expect.objectContaining({
+          functionName: 'releaseFunds',
+          args: [expect.any(String), STYLIST, 90_000_000n, expect.any(String), 10_000_000n],
+        })
+      );
+    });
+
+    it('should pay the property owner share in USDC units', async () => {
+      mockPublicClient.readContract.mockResolvedValue(['0xCustomerAddress', 100_000_000n, EscrowStatus.Locked]);
+
+      const result = await releaseEscrowLeg({
+        escrowKey: 'booking-1',
+        amountCents: 10_000n,
+        platformFeeCents: 1_000n,
+        propertyAmountCents: 1_500n, // $15 chair fee
+        stylistAddress: STYLIST,
+        propertyOwnerAddress: OWNER,
+      });
+
+      expect(result.success).toBe(true);
+      expect(mockWalletClient.writeContract).toHaveBeenCalledWith(
+        expect.objectContaining({
+          functionName: 'settle',
+          args: [
+            expect.any(String),
+            expect.objectContaining({
+              customerRefund: 0n,
+              stylistAmount: 75_000_000n,
+              propertyAmount: 15_000_000n,
+              treasuryFee: 10_000_000n,
+            }),
+          ],
+        })
+      );
+    });
+
+    it('should pay the stored split of a tier-discounted booking', async () => {
+      // $100 service with a 25% fee discount: customer locks $97.50, the
+      // platform takes $7.50 and the stylist's $90 share (less the $20
+      // chair fee) is untouched
+      const pricing = calculateBookingPricing(10_000n, 2_000n, 25);
+      const [leg] = allocatePropertyPayout([{ escrowKey: 'booking-1', amountCents: pricing.quoteAmountCents }], pricing);
+      mockPublicClient.readContract.mockResolvedValue(['0xCustomerAddress', 97_500_000n, EscrowStatus.Locked]);
+
+      const result = await releaseEscrowLeg({
+        escrowKey: leg.escrowKey,
+        amountCents: leg.amountCents,
+        platformFeeCents: leg.platformFeeCents,
+        propertyAmountCents: leg.propertyAmountCents,
+        stylistAddress: STYLIST,
+        propertyOwnerAddress: OWNER,
+      });
+
+      expect(result.success).toBe(true);
+      expect(mockWalletClient.writeContract).toHaveBeenCalledWith(
+        expect.objectContaining({
+          functionName: 'settle',
+          args: [
+            expect.any(String),
+            expect.objectContaining({
+              stylistAmount: 70_000_000n, // stylistPayoutCents 7000
+              propertyAmount: 20_000_000n,
+              treasuryFee: 7_500_000n,
+            }),
+          ],
+        })
+      );
+      expect(pricing.stylistPayoutCents).toBe(7_000n);
+    });
+
+    it('should pay the whole chair fee across the legs of a deposit booking', async () => {
+      // $100 booking, $20 deposit and $80 balance, $15 chair fee
+      const legs = allocatePropertyPayout(
+        [
+          { escrowKey: 'booking-1', amountCents: 2_000n },
+          { escrowKey: 'booking-1:balance', amountCents: 8_000n },
+        ],
+        { quoteAmountCents: 10_000n, platformFeeCents: 1_000n, propertyPayoutCents: 1_500n }
+      );
+      mockPublicClient.readContract
+        .mockResolvedValueOnce(['0xCustomerAddress', 20_000_000n, EscrowStatus.Locked])
+        .mockResolvedValueOnce(['0xCustomerAddress', 80_000_000n, EscrowStatus.Locked]);
+
+      for (const leg of legs) {
+        await releaseEscrowLeg({ ...leg, stylistAddress: STYLIST, propertyOwnerAddress: OWNER });
+      }
+
+      // The deposit carries the chair fee, the balance releases as usual
+      expect(mockWalletClient.writeContract).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({
+          functionName: 'settle',
+          args: [
+            expect.any(String),
+            expect.objectContaining({ stylistAmount: 3_000_000n, propertyAmount: 15_000_000n, treasuryFee: 2_000_000n }),
+          ],
+        })
+      );
+      expect(mockWalletClient.writeContract).toHaveBeenNthCalledWith(
+        2,
+        expect.objectContaining({
+          functionName: 'releaseFunds',
+          args: [expect.any(String), STYLIST, 72_000_000n, expect.any(String), 8_000_000n],
+        })
+      );
+    });
+
+    it('should not release a leg with an owner share when the owner has no wallet', async () => {
+      const result = await releaseEscrowLeg({
+        escrowKey: 'booking-1',
+        amountCents: 10_000n,
+        platformFeeCents: 1_000n,
+        propertyAmountCents: 1_500n,
+        stylistAddress: STYLIST,
+        propertyOwnerAddress: null,
+      });
+
+      expect(result).toEqual({ success: false, error: 'Property owner wallet not configured' });
+      expect(mockWalletClient.writeContract).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('settleEscrowLeg', () => {
+    it('should refund the customer and pay the owner from what the leg keeps', async () => {
+      mockPublicClient.readContract.mockResolvedValue(['0xCustomerAddress', 100_000_000n, EscrowStatus.Locked]);
+      const [leg] = allocateRetainedPayout(
+        [{ escrowKey: 'booking-1', amountCents: 10_000n, refundCents: 4_000n }],
+        { quoteAmountCents: 10_000n, platformFeeCents: 1_000n, propertyPayoutCents: 1_500n }
+      );
+
+      const result = await settleEscrowLeg({ ...leg, stylistAddress: STYLIST, propertyOwnerAddress: OWNER });
+
+      expect(result.success).toBe(true);
+      // $60 kept: $6 fee, $15 chair fee, $39 to the stylist
+      expect(mockWalletClient.writeContract).toHaveBeenCalledWith(
+        expect.objectContaining({
+          functionName: 'settle',
+          args: [
+            expect.any(String),
+            expect.objectContaining({
+              customerRefund: 40_000_000n,
+              stylistAmount: 39_000_000n,
+              propertyOwner: OWNER,
+              propertyAmount: 15_000_000n,
+              treasuryFee: 6_000_000n,
+            }),
+          ],
+        })
+      );
+    });
+
+    it('should not settle a leg with an owner share when the owner has no wallet', async () => {
+      const result = await settleEscrowLeg({
+        escrowKey: 'booking-1',
+        refundCents: 4_000n,
+        platformFeeCents: 600n,
+        propertyAmountCents: 1_500n,
+        stylistAddress: STYLIST,
+        propertyOwnerAddress: null,
+      });
+
+      expect(result.success).toBe(false);
+      expect(mockWalletClient.writeContract).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getPropertyPayeeAddress', () => {
+    it("should pay the wallet of the reserved chair's property owner", async () => {
+      mockPrisma.chairReservation.findUnique.mockResolvedValue({ chair: { property: { ownerId: 'owner-1' } } });
+      mockPrisma.user.findUnique.mockResolvedValue({ walletAddress: OWNER });
+
+      await expect(getPropertyPayeeAddress('booking-1')).resolves.toBe(OWNER);
+      expect(mockPrisma.user.findUnique).toHaveBeenCalledWith(expect.objectContaining({ where: { id: 'owner-1' } }));
+    });
+
+    it('should have no payee for a booking without a chair', async () => {
+      mockPrisma.chairReservation.findUnique.mockResolvedValue(null);
+
+      await expect(getPropertyPayeeAddress('booking-1')).resolves.toBeNull();
+      expect(mockPrisma.user.findUnique).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,375 @@
+/**
+ * Chair Reservation Service
+ * Reserves a salon chair for a booking by a FIXED or HYBRID stylist
+ * Reference: docs/vlossom/17-property-owner-and-chair-rental-module.md
+ *
+ * Flow:
+ * 1. Booking creation names a chair -> planChairReservation checks the
+ *    stylist's operating mode, the chair and its exceptions, the property
+ *    blocklist and approval rules, and existing reservations and rentals
+ * 2. The booking and its ChairReservation are written in one transaction;
+ *    reserveChair locks the chair row and re-checks for overlaps, so two
+ *    bookings can't take the chair
+ * 3. The chair's perBookingFeeCents becomes Booking.propertyPayoutCents and is
+ *    paid to the owner from the booking escrow on release
+ * 4. Stylists with an approved rental covering the booking use the chair with
+ *    no per-booking fee and without further approval
+ */
+
+import { Prisma, type ChairReservation } from "@prisma/client";
+import type { Address } from "viem";
+import prisma from "../prisma";
+import {
+  releaseFundsFromEscrow,
+  settleEscrow,
+  PLATFORM_TREASURY_ADDRESS,
+  PLATFORM_FEE_PERCENTAGE,
+  type EscrowOperationResult,
+} from "../escrow-client";
+import { toEscrowUnits } from "../chair-rentals";
+import { findBlockingExceptions, isAutoApproved } from "./reservation-rules";
+import {
+  CHAIR_HOLDING_RENTAL_STATUSES,
+  CHAIR_HOLDING_STATUSES,
+  CHAIR_RESERVING_MODES,
+  type ChairReservationPlan,
+  type ChairReservationResult,
+} from "./types";
+
+type Db = Prisma.TransactionClient;
+
+/**
+ * Raised inside the booking transaction when the chair was taken meanwhile
+ */
+export class ChairDoubleBookedError extends Error {
+  constructor(readonly conflict: { type: "BOOKING" | "RENTAL"; id: string }) {
+    super("CHAIR_DOUBLE_BOOKED");
+  }
+}
+
+/**
+ * Lock the chair row until the transaction ends
+ *
+ * Overlap checks read other rows, so under READ COMMITTED two transactions
+ * could both pass them. Taking the row lock first serialises writers per chair.
+ */
+async function lockChair(db: Db, chairId: string): Promise<void> {
+  await db.$queryRaw`SELECT id FROM chairs WHERE id = ${chairId} FOR UPDATE`;
+}
+
+/**
+ * Find a reservation or another stylist's rental overlapping the window
+ *
+ * Call with the chair locked (lockChair) when the result gates a write.
+ */
+async function findChairConflict(
+  db: Db,
+  params: { chairId: string; stylistId: string; startTime: Date; endTime: Date; excludeBookingId?: string }
+): Promise<{ type: "BOOKING" | "RENTAL"; id: string } | null> {
+  const reservation = await db.chairReservation.findFirst({
+    where: {
+      chairId: params.chairId,
+      startTime: { lt: params.endTime },
+      endTime: { gt: params.startTime },
+      booking: { status: { in: CHAIR_HOLDING_STATUSES } },
+      ...(params.excludeBookingId && { bookingId: { not: params.excludeBookingId } }),
+    },
+    select: { bookingId: true },
+  });
+
+  if (reservation) {
+    return { type: "BOOKING", id: reservation.bookingId };
+  }
+
+  const rental = await db.chairRentalRequest.findFirst({
+    where: {
+      chairId: params.chairId,
+      stylistId: { not: params.stylistId },
+      status: { in: CHAIR_HOLDING_RENTAL_STATUSES },
+      startTime: { lt: params.endTime },
+      endTime: { gt: params.startTime },
+    },
+    select: { id: true },
+  });
+
+  return rental ? { type: "RENTAL", id: rental.id } : null;
+}
+
+/**
+ * Check a stylist can use a chair for a booking window
+ *
+ * @returns The reservation to write with the booking, including the owner's fee
+ */
+export async function planChairReservation(params: {
+  chairId: string;
+  stylistId: string;
+  startTime: Date;
+  endTime: Date;
+  excludeBookingId?: string;
+}): Promise<ChairReservationResult<ChairReservationPlan>> {
+  const profile = await prisma.stylistProfile.findUnique({
+    where: { userId: params.stylistId },
+    select: { operatingMode: true },
+  });
+
+  if (!profile || !CHAIR_RESERVING_MODES.includes(profile.operatingMode)) {
+    return {
+      success: false,
+      error: "CHAIR_RESERVATION_NOT_ALLOWED",
+      details: { operatingMode: profile?.operatingMode },
+    };
+  }
+
+  const chair = await prisma.chair.findUnique({
+    where: { id: params.chairId },
+    include: {
+      property: {
+        include: {
+          blocklist: { where: { stylistId: params.stylistId } },
+        },
+      },
+    },
+  });
+
+  if (!chair || !chair.property.isActive) {
+    return { success: false, error: "CHAIR_NOT_FOUND" };
+  }
+
+  if (!chair.isActive || chair.status === "MAINTENANCE" || chair.status === "BLOCKED") {
+    return { success: false, error: "CHAIR_UNAVAILABLE", details: { status: chair.status } };
+  }
+
+  if (chair.property.blocklist.length > 0) {
+    return { success: false, error: "STYLIST_BLOCKED" };
+  }
+
+  const blockingExceptions = findBlockingExceptions(chair.exceptions, params.startTime, params.endTime);
+  if (blockingExceptions.length > 0) {
+    return { success: false, error: "CHAIR_UNAVAILABLE", details: { exceptions: blockingExceptions } };
+  }
+
+  // A stylist renting this chair for the whole window already has the owner's approval and has paid
+  const coveringRental = await prisma.chairRentalRequest.findFirst({
+    where: {
+      chairId: chair.id,
+      stylistId: params.stylistId,
+      status: { in: CHAIR_HOLDING_RENTAL_STATUSES },
+      startTime: { lte: params.startTime },
+      endTime: { gte: params.endTime },
+    },
+    select: { id: true },
+  });
+
+  if (!coveringRental) {
+    const [reputation, stylist] = await Promise.all([
+      prisma.reputationScore.findUnique({
+        where: { userId: params.stylistId },
+        select: { tpsScore: true },
+      }),
+      prisma.user.findUnique({
+        where: { id: params.stylistId },
+        select: { verificationStatus: true },
+      }),
+    ]);
+
+    const stylistVerified = stylist?.verificationStatus === "VERIFIED";
+    if (!isAutoApproved(chair.property, reputation?.tpsScore ?? null, stylistVerified)) {
+      return {
+        success: false,
+        error: "PROPERTY_APPROVAL_REQUIRED",
+        details: {
+          approvalMode: chair.property.approvalMode,
+          minTpsScore: chair.property.minTpsScore,
+          requireVerifiedStylists: chair.property.requireVerifiedStylists,
+        },
+      };
+    }
+  }
+
+  const conflict = await findChairConflict(prisma, { ...params, chairId: chair.id });
+  if (conflict) {
+    return { success: false, error: "CHAIR_DOUBLE_BOOKED", details: { conflict } };
+  }
+
+  return {
+    success: true,
+    data: {
+      chairId: chair.id,
+      propertyId: chair.propertyId,
+      ownerId: chair.property.ownerId,
+      feeCents: coveringRental ? 0n : chair.perBookingFeeCents ?? 0n,
+      location: {
+        address: chair.property.address,
+        lat: chair.property.lat,
+        lng: chair.property.lng,
+      },
+    },
+  };
+}
+
+/**
+ * Write the reservation inside the booking transaction
+ *
+ * @throws ChairDoubleBookedError if the chair was reserved since planning
+ */
+export async function reserveChair(
+  tx: Db,
+  params: { bookingId: string; stylistId: string; plan: ChairReservationPlan; startTime: Date; endTime: Date }
+): Promise<ChairReservation> {
+  await lockChair(tx, params.plan.chairId);
+
+  const conflict = await findChairConflict(tx, {
+    chairId: params.plan.chairId,
+    stylistId: params.stylistId,
+    startTime: params.startTime,
+    endTime: params.endTime,
+    excludeBookingId: params.bookingId,
+  });
+
+  if (conflict) {
+    throw new ChairDoubleBookedError(conflict);
+  }
+
+  return tx.chairReservation.create({
+    data: {
+      chairId: params.plan.chairId,
+      bookingId: params.bookingId,
+      startTime: params.startTime,
+      endTime: params.endTime,
+      feeCents: params.plan.feeCents,
+    },
+  });
+}
+
+/**
+ * Move a booking's reservation to its new time, if it has one
+ *
+ * @throws ChairDoubleBookedError if the chair is taken at the new time
+ */
+export async function moveChairReservation(
+  tx: Db,
+  params: { bookingId: string; stylistId: string; startTime: Date; endTime: Date }
+): Promise<void> {
+  const reservation = await tx.chairReservation.findUnique({
+    where: { bookingId: params.bookingId },
+    select: { id: true, chairId: true },
+  });
+
+  if (!reservation) {
+    return;
+  }
+
+  await lockChair(tx, reservation.chairId);
+
+  const conflict = await findChairConflict(tx, {
+    chairId: reservation.chairId,
+    stylistId: params.stylistId,
+    startTime: params.startTime,
+    endTime: params.endTime,
+    excludeBookingId: params.bookingId,
+  });
+
+  if (conflict) {
+    throw new ChairDoubleBookedError(conflict);
+  }
+
+  await tx.chairReservation.update({
+    where: { id: reservation.id },
+    data: { startTime: params.startTime, endTime: params.endTime },
+  });
+}
+
+/**
+ * Wallet of the property owner paid from a booking's escrow, if it used a chair
+ */
+export async function getPropertyPayeeAddress(bookingId: string): Promise<Address | null> {
+  const reservation = await prisma.chairReservation.findUnique({
+    where: { bookingId },
+    select: { chair: { select: { property: { select: { ownerId: true } } } } },
+  });
+
+  if (!reservation) {
+    return null;
+  }
+
+  const owner = await prisma.user.findUnique({
+    where: { id: reservation.chair.property.ownerId },
+    select: { walletAddress: true },
+  });
+
+  return (owner?.walletAddress as Address | null) ?? null;
+}
+
+/**
+ * Release one escrow leg to the stylist and treasury, paying the property
+ * owner's share from the same escrow when the leg carries one
+ *
+ * The treasury takes the leg's share of the booking's stored platform fee
+ * (see allocatePropertyPayout). Amounts are in cents; escrow holds USDC units.
+ */
+export async function releaseEscrowLeg(params: {
+  escrowKey: string;
+  amountCents: bigint;
+  platformFeeCents: bigint;
+  propertyAmountCents: bigint;
+  stylistAddress: Address;
+  propertyOwnerAddress: Address | null;
+}): Promise<EscrowOperationResult> {
+  if (params.propertyAmountCents === 0n) {
+    return releaseFundsFromEscrow({
+      bookingId: params.escrowKey,
+      stylistAddress: params.stylistAddress,
+      totalAmount: toEscrowUnits(params.amountCents),
+      platformFeePercentage: PLATFORM_FEE_PERCENTAGE,
+      platformFeeAmount: toEscrowUnits(params.platformFeeCents),
+      treasuryAddress: PLATFORM_TREASURY_ADDRESS,
+    });
+  }
+
+  if (!params.propertyOwnerAddress) {
+    return { success: false, error: "Property owner wallet not configured" };
+  }
+
+  return settleEscrow({
+    bookingId: params.escrowKey,
+    customerRefundAmount: 0n,
+    stylistAddress: params.stylistAddress,
+    platformFeePercentage: PLATFORM_FEE_PERCENTAGE,
+    treasuryFee: toEscrowUnits(params.platformFeeCents),
+    treasuryAddress: PLATFORM_TREASURY_ADDRESS,
+    propertyOwnerAddress: params.propertyOwnerAddress,
+    propertyAmount: toEscrowUnits(params.propertyAmountCents),
+  });
+}
+
+/**
+ * Settle one escrow leg after a partial refund: the customer gets refundCents
+ * back and the rest goes to the stylist, treasury and property owner
+ *
+ * The treasury and owner take the leg's share of the stored platform fee and
+ * property payout on what the leg keeps (see allocateRetainedPayout). Amounts
+ * are in cents; escrow holds USDC units.
+ */
+export async function settleEscrowLeg(params: {
+  escrowKey: string;
+  refundCents: bigint;
+  platformFeeCents: bigint;
+  propertyAmountCents: bigint;
+  stylistAddress: Address;
+  propertyOwnerAddress: Address | null;
+}): Promise<EscrowOperationResult> {
+  if (params.propertyAmountCents > 0n && !params.propertyOwnerAddress) {
+    return { success: false, error: "Property owner wallet not configured" };
+  }
+
+  return settleEscrow({
+    bookingId: params.escrowKey,
+    customerRefundAmount: toEscrowUnits(params.refundCents),
+    stylistAddress: params.stylistAddress,
+    platformFeePercentage: PLATFORM_FEE_PERCENTAGE,
+    treasuryFee: toEscrowUnits(params.platformFeeCents),
+    treasuryAddress: PLATFORM_TREASURY_ADDRESS,
+    propertyOwnerAddress: params.propertyOwnerAddress ?? undefined,
+    propertyAmount: toEscrowUnits(params.propertyAmountCents),
+  });
+}
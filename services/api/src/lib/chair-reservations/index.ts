@@ -0,0 +1,36 @@
+/**
+ * Chair Reservations Module
+ * Unified exports for salon chairs reserved with bookings
+ * Reference: docs/vlossom/17-property-owner-and-chair-rental-module.md
+ */
+
+export * from "./types";
+export {
+  parseChairExceptions,
+  findBlockingExceptions,
+  isAutoApproved,
+  meetsVerificationRequirement,
+  allocatePropertyPayout,
+  allocateRetainedPayout,
+} from "./reservation-rules";
+export {
+  ChairDoubleBookedError,
+  planChairReservation,
+  reserveChair,
+  moveChairReservation,
+  getPropertyPayeeAddress,
+  releaseEscrowLeg,
+  settleEscrowLeg,
+} from "./chair-reservation-service";
+export {
+  parseOperatingHours,
+  getOpenIntervals,
+  getExceptionIntervals,
+  buildAvailabilityBlocks,
+  measureUtilisation,
+} from "./availability";
+export {
+  getPropertyAvailability,
+  getChairAvailability,
+  getPropertyUtilisation,
+} from "./chair-availability-service";
@@ -0,0 +1,193 @@
+import {
+  allocatePropertyPayout,
+  allocateRetainedPayout,
+  findBlockingExceptions,
+  isAutoApproved,
+  meetsVerificationRequirement,
+  parseChairExceptions,
+} from './reservation-rules';
+
+describe('Chair Reservation Rules', () => {
+  describe('parseChairExceptions', () => {
+    it('should keep only blocked entries with a date', () => {
+      const parsed = parseChairExceptions([
+        { date: '2026-12-25', blocked: true, note: 'Holiday' },
+        { date: '2026-12-26', blocked: false },
+        { blocked: true },
+        'garbage',
+        null,
+      ]);
+
+      expect(parsed).toEqual([{ date: '2026-12-25', blocked: true, note: 'Holiday' }]);
+    });
+
+    it('should treat non-array values as no exceptions', () => {
+      expect(parseChairExceptions({})).toEqual([]);
+      expect(parseChairExceptions(null)).toEqual([]);
+    });
+  });
+
+  describe('findBlockingExceptions', () => {
+    const exceptions = [
+      { date: '2026-12-25', blocked: true, note: 'Holiday' },
+      { date: '2026-12-31', blocked: true, note: 'Maintenance' },
+    ];
+
+    it('should find an exception on the booking day', () => {
+      const blocking = findBlockingExceptions(
+        exceptions,
+        new Date('2026-12-25T09:00:00Z'),
+        new Date('2026-12-25T11:00:00Z')
+      );
+
+      expect(blocking.map((e) => e.note)).toEqual(['Holiday']);
+    });
+
+    it('should ignore exceptions on other days', () => {
+      expect(
+        findBlockingExceptions(exceptions, new Date('2026-12-24T09:00:00Z'), new Date('2026-12-24T11:00:00Z'))
+      ).toEqual([]);
+    });
+
+    it('should catch windows running past midnight into a blocked day', () => {
+      const blocking = findBlockingExceptions(
+        exceptions,
+        new Date('2026-12-24T22:00:00Z'),
+        new Date('2026-12-25T01:00:00Z')
+      );
+
+      expect(blocking).toHaveLength(1);
+    });
+
+    it('should not count a window ending exactly at midnight as the next day', () => {
+      expect(
+        findBlockingExceptions(exceptions, new Date('2026-12-24T22:00:00Z'), new Date('2026-12-25T00:00:00Z'))
+      ).toEqual([]);
+    });
+  });
+
+  describe('meetsVerificationRequirement', () => {
+    it('should let anyone through when verification is not required', () => {
+      expect(meetsVerificationRequirement({ requireVerifiedStylists: false }, false)).toBe(true);
+    });
+
+    it('should only let verified stylists through when required', () => {
+      expect(meetsVerificationRequirement({ requireVerifiedStylists: true }, true)).toBe(true);
+      expect(meetsVerificationRequirement({ requireVerifiedStylists: true }, false)).toBe(false);
+    });
+  });
+
+  describe('isAutoApproved', () => {
+    it('should always approve NO_APPROVAL properties', () => {
+      expect(
+        isAutoApproved({ approvalMode: 'NO_APPROVAL', minTpsScore: 90, requireVerifiedStylists: false }, null, false)
+      ).toBe(true);
+    });
+
+    it('should never approve FULL_APPROVAL properties', () => {
+      expect(
+        isAutoApproved({ approvalMode: 'FULL_APPROVAL', minTpsScore: null, requireVerifiedStylists: false }, 10000, true)
+      ).toBe(false);
+    });
+
+    it('should compare TPS against the CONDITIONAL minimum', () => {
+      const property = { approvalMode: 'CONDITIONAL' as const, minTpsScore: 70, requireVerifiedStylists: false };
+
+      expect(isAutoApproved(property, 7000, false)).toBe(true);
+      expect(isAutoApproved(property, 6999, false)).toBe(false);
+      expect(isAutoApproved(property, null, false)).toBe(false);
+    });
+
+    it('should approve CONDITIONAL properties without a minimum', () => {
+      expect(
+        isAutoApproved({ approvalMode: 'CONDITIONAL', minTpsScore: null, requireVerifiedStylists: false }, null, false)
+      ).toBe(true);
+    });
+
+    it('should not auto-approve unverified stylists when the property requires verification', () => {
+      const noApproval = { approvalMode: 'NO_APPROVAL' as const, minTpsScore: null, requireVerifiedStylists: true };
+      const conditional = { approvalMode: 'CONDITIONAL' as const, minTpsScore: 70, requireVerifiedStylists: true };
+
+      expect(isAutoApproved(noApproval, 9000, false)).toBe(false);
+      expect(isAutoApproved(noApproval, null, true)).toBe(true);
+      expect(isAutoApproved(conditional, 9000, false)).toBe(false);
+      expect(isAutoApproved(conditional, 9000, true)).toBe(true);
+      expect(isAutoApproved(conditional, 6000, true)).toBe(false);
+    });
+  });
+
+  describe('allocatePropertyPayout', () => {
+    const split = { quoteAmountCents: 10000n, platformFeeCents: 1000n, propertyPayoutCents: 1500n };
+
+    it('should put the whole payout on a single leg', () => {
+      const [leg] = allocatePropertyPayout([{ amountCents: 10000n }], split);
+      expect(leg.platformFeeCents).toBe(1000n);
+      expect(leg.propertyAmountCents).toBe(1500n);
+    });
+
+    it('should spill over into the next leg when the first is too small', () => {
+      const legs = allocatePropertyPayout([{ amountCents: 2000n }, { amountCents: 8000n }], {
+        ...split,
+        propertyPayoutCents: 2500n,
+      });
+
+      // Deposit leg can pay at most 2000 - 200 fee
+      expect(legs.map((l) => l.propertyAmountCents)).toEqual([1800n, 700n]);
+      expect(legs.map((l) => l.platformFeeCents)).toEqual([200n, 800n]);
+    });
+
+    it('should allocate nothing without a payout', () => {
+      const legs = allocatePropertyPayout([{ amountCents: 2000n }, { amountCents: 8000n }], {
+        ...split,
+        propertyPayoutCents: null,
+      });
+      expect(legs.map((l) => l.propertyAmountCents)).toEqual([0n, 0n]);
+    });
+
+    it('should spread a discounted fee so the legs add up to the stored fee', () => {
+      // $100 service, 10% fee with a 25% tier discount: quote 9750, fee 750
+      const legs = allocatePropertyPayout([{ amountCents: 3333n }, { amountCents: 6417n }], {
+        quoteAmountCents: 9750n,
+        platformFeeCents: 750n,
+        propertyPayoutCents: 0n,
+      });
+
+      expect(legs.map((l) => l.platformFeeCents)).toEqual([256n, 494n]);
+      expect(legs.reduce((sum, l) => sum + l.amountCents - l.platformFeeCents, 0n)).toBe(9000n);
+    });
+  });
+
+  describe('allocateRetainedPayout', () => {
+    const split = { quoteAmountCents: 10000n, platformFeeCents: 1000n, propertyPayoutCents: null };
+
+    it('should charge the fee on what each leg keeps', () => {
+      const legs = allocateRetainedPayout(
+        [
+          { amountCents: 2000n, refundCents: 1000n },
+          { amountCents: 8000n, refundCents: 4000n },
+        ],
+        split
+      );
+
+      expect(legs.map((l) => l.platformFeeCents)).toEqual([100n, 400n]);
+      expect(legs.map((l) => l.refundCents)).toEqual([1000n, 4000n]);
+    });
+
+    it('should keep a tier discount on the platform side', () => {
+      // quote 9750 with a 750 fee, half refunded
+      const [leg] = allocateRetainedPayout([{ amountCents: 9750n, refundCents: 4875n }], {
+        quoteAmountCents: 9750n,
+        platformFeeCents: 750n,
+        propertyPayoutCents: 0n,
+      });
+
+      expect(leg.platformFeeCents).toBe(375n);
+      expect(leg.amountCents - leg.refundCents - leg.platformFeeCents).toBe(4500n);
+    });
+
+    it('should charge nothing on a full refund', () => {
+      const [leg] = allocateRetainedPayout([{ amountCents: 10000n, refundCents: 10000n }], split);
+      expect(leg.platformFeeCents).toBe(0n);
+    });
+  });
+});
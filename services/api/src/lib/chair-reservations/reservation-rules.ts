@@ -0,0 +1,155 @@
+/**
+ * Chair Reservation Rules
+ * Pure checks for chair exceptions, property approval and payout allocation
+ */
+
+import type { PropertyApprovalMode } from "@prisma/client";
+import type { ChairException } from "./types";
+
+/**
+ * Parse Chair.exceptions, ignoring malformed entries
+ */
+export function parseChairExceptions(exceptions: unknown): ChairException[] {
+  if (!Array.isArray(exceptions)) {
+    return [];
+  }
+
+  return exceptions.filter(
+    (e): e is ChairException =>
+      typeof e === "object" &&
+      e !== null &&
+      typeof (e as ChairException).date === "string" &&
+      (e as ChairException).blocked === true
+  );
+}
+
+/**
+ * Blocked exceptions that fall on any day the window touches (UTC dates)
+ */
+export function findBlockingExceptions(
+  exceptions: unknown,
+  startTime: Date,
+  endTime: Date
+): ChairException[] {
+  const blocked = parseChairExceptions(exceptions);
+  if (blocked.length === 0) {
+    return [];
+  }
+
+  const days = new Set<string>();
+  const cursor = new Date(Date.UTC(startTime.getUTCFullYear(), startTime.getUTCMonth(), startTime.getUTCDate()));
+  // The end is exclusive - a booking ending at midnight doesn't touch the next day
+  const lastInstant = new Date(endTime.getTime() - 1);
+
+  while (cursor <= lastInstant) {
+    days.add(cursor.toISOString().slice(0, 10));
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+
+  return blocked.filter((e) => days.has(e.date.slice(0, 10)));
+}
+
+/**
+ * Whether the stylist clears a property's identity verification requirement
+ */
+export function meetsVerificationRequirement(
+  property: { requireVerifiedStylists: boolean },
+  stylistVerified: boolean
+): boolean {
+  return !property.requireVerifiedStylists || stylistVerified;
+}
+
+/**
+ * Whether a property lets a stylist use a chair without asking the owner
+ *
+ * - NO_APPROVAL: always (the blocklist is checked separately)
+ * - CONDITIONAL: when the stylist's TPS meets the property minimum
+ * - FULL_APPROVAL: never - the stylist needs an approved rental
+ *
+ * Properties that require verified stylists never auto-approve anyone else.
+ *
+ * @param tpsScore - Stylist's TPS on the 0-10000 reputation scale, null if unscored
+ * @param stylistVerified - Stylist's verificationStatus is VERIFIED
+ */
+export function isAutoApproved(
+  property: { approvalMode: PropertyApprovalMode; minTpsScore: number | null; requireVerifiedStylists: boolean },
+  tpsScore: number | null,
+  stylistVerified: boolean
+): boolean {
+  if (!meetsVerificationRequirement(property, stylistVerified)) {
+    return false;
+  }
+
+  switch (property.approvalMode) {
+    case "NO_APPROVAL":
+      return true;
+    case "CONDITIONAL":
+      if (property.minTpsScore === null) {
+        return true;
+      }
+      // Property minimums are 0-100, reputation scores 0-10000
+      return tpsScore !== null && tpsScore / 100 >= property.minTpsScore;
+    case "FULL_APPROVAL":
+    default:
+      return false;
+  }
+}
+
+/**
+ * Spread a booking's platform fee and property payout across its escrow legs
+ *
+ * The fee is the booking's stored platformFeeCents (reward-tier discounts
+ * lower it), shared across legs in proportion to what each holds. Each leg can
+ * pay the owner at most what is left after its fee, so the payout goes on the
+ * first leg and spills over into later ones.
+ *
+ * @returns The legs with the platform fee and the owner's share of each
+ */
+export function allocatePropertyPayout<T extends { amountCents: bigint }>(
+  legs: T[],
+  split: { quoteAmountCents: bigint; platformFeeCents: bigint; propertyPayoutCents: bigint | null }
+): (T & { platformFeeCents: bigint; propertyAmountCents: bigint })[] {
+  let remaining = split.propertyPayoutCents ?? 0n;
+  let lockedCents = 0n;
+  let allocatedFee = 0n;
+
+  return legs.map((leg) => {
+    // Fee owed on everything locked so far, less what earlier legs paid, so
+    // the legs add up to the stored fee once the whole quote is locked
+    lockedCents += leg.amountCents;
+    const feeSoFar =
+      split.quoteAmountCents > 0n ? (lockedCents * split.platformFeeCents) / split.quoteAmountCents : 0n;
+    const platformFeeCents = feeSoFar - allocatedFee;
+    allocatedFee = feeSoFar;
+
+    const capacity = leg.amountCents - platformFeeCents;
+    const propertyAmountCents = remaining < capacity ? remaining : capacity;
+    remaining -= propertyAmountCents;
+    return { ...leg, platformFeeCents, propertyAmountCents };
+  });
+}
+
+/**
+ * Split what each escrow leg keeps after a partial refund
+ *
+ * The retained amounts carry the stored platform fee and property payout
+ * exactly as allocatePropertyPayout spreads them over a release, so the fee
+ * shrinks with the refund and a tier discount still comes out of it.
+ *
+ * @returns The legs with the platform fee and the owner's share of what each keeps
+ */
+export function allocateRetainedPayout<T extends { amountCents: bigint; refundCents: bigint }>(
+  legs: T[],
+  split: { quoteAmountCents: bigint; platformFeeCents: bigint; propertyPayoutCents: bigint | null }
+): (T & { platformFeeCents: bigint; propertyAmountCents: bigint })[] {
+  const retained = allocatePropertyPayout(
+    legs.map((leg) => ({ amountCents: leg.amountCents - leg.refundCents })),
+    split
+  );
+
+  return legs.map((leg, i) => ({
+    ...leg,
+    platformFeeCents: retained[i].platformFeeCents,
+    propertyAmountCents: retained[i].propertyAmountCents,
+  }));
+}
@@ -0,0 +1,195 @@
+/**
+ * Chair Reservation Types
+ * Salon chairs reserved for bookings by FIXED and HYBRID stylists
+ * Reference: docs/vlossom/17-property-owner-and-chair-rental-module.md
+ */
+
+import { BookingStatus, ChairRentalMode, ChairRentalStatus, OperatingMode, type ChairType } from "@prisma/client";
+
+/**
+ * Stylists who work from a base can book chairs; mobile stylists can't
+ */
+export const CHAIR_RESERVING_MODES: OperatingMode[] = [OperatingMode.FIXED, OperatingMode.HYBRID];
+
+/**
+ * Bookings in these statuses hold their chair. Once a booking is cancelled,
+ * declined or finished the chair is free again.
+ */
+export const CHAIR_HOLDING_STATUSES: BookingStatus[] = [
+  BookingStatus.PENDING_STYLIST_APPROVAL,
+  BookingStatus.PENDING_CUSTOMER_PAYMENT,
+  BookingStatus.CONFIRMED,
+  BookingStatus.IN_PROGRESS,
+];
+
+/**
+ * Rentals that give a stylist the chair for their whole period
+ */
+export const CHAIR_HOLDING_RENTAL_STATUSES: ChairRentalStatus[] = [
+  ChairRentalStatus.APPROVED,
+  ChairRentalStatus.ACTIVE,
+];
+
+/**
+ * Entry in Chair.exceptions
+ */
+export interface ChairException {
+  date: string; // YYYY-MM-DD
+  blocked: boolean;
+  note?: string;
+}
+
+/**
+ * Day of Property.operatingHours, e.g. {mon: {open: "08:00", close: "18:00"}}.
+ * Times are UTC, like chair exceptions.
+ */
+export type OperatingDay = "sun" | "mon" | "tue" | "wed" | "thu" | "fri" | "sat";
+
+export type OperatingHours = Partial<Record<OperatingDay, { open: string; close: string }>>;
+
+/**
+ * Rental modes an availability calendar can be shown in. Per-booking use
+ * follows the hourly calendar.
+ */
+export const AVAILABILITY_MODES = [
+  ChairRentalMode.PER_HOUR,
+  ChairRentalMode.PER_DAY,
+  ChairRentalMode.PER_WEEK,
+  ChairRentalMode.PER_MONTH,
+] as const;
+
+export type AvailabilityMode = (typeof AVAILABILITY_MODES)[number];
+
+/**
+ * Longest range each calendar mode can be asked for, in days
+ */
+export const MAX_AVAILABILITY_RANGE_DAYS: Record<AvailabilityMode, number> = {
+  PER_HOUR: 31,
+  PER_DAY: 92,
+  PER_WEEK: 366,
+  PER_MONTH: 366,
+};
+
+/**
+ * Bookings that earn the owner their chair fee
+ */
+export const CHAIR_FEE_EARNING_STATUSES: BookingStatus[] = [
+  BookingStatus.CONFIRMED,
+  BookingStatus.IN_PROGRESS,
+  BookingStatus.COMPLETED,
+  BookingStatus.AWAITING_CUSTOMER_CONFIRMATION,
+  BookingStatus.SETTLED,
+];
+
+/**
+ * Rentals that occupy their chair on the calendar, including finished ones
+ */
+export const CHAIR_OCCUPYING_RENTAL_STATUSES: ChairRentalStatus[] = [
+  ChairRentalStatus.APPROVED,
+  ChairRentalStatus.ACTIVE,
+  ChairRentalStatus.COMPLETED,
+];
+
+export interface TimeInterval {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Something occupying a chair for a period
+ */
+export interface BusyInterval extends TimeInterval {
+  source: "RENTAL" | "RESERVATION" | "EXCEPTION";
+  /** Owner's note on an exception. Rentals and bookings stay anonymous. */
+  note?: string;
+}
+
+/**
+ * One period of a chair calendar.
+ * FREE: open and nothing booked. BUSY: something overlaps the open hours.
+ * CLOSED: the property isn't open at all in the period.
+ */
+export interface AvailabilityBlock {
+  start: Date;
+  end: Date;
+  status: "FREE" | "BUSY" | "CLOSED";
+  busy: BusyInterval[];
+}
+
+/**
+ * Calendar for one chair in one rental mode
+ */
+export interface ChairAvailability {
+  chairId: string;
+  name: string;
+  type: ChairType;
+  /** False when the chair is inactive, in maintenance or blocked by the owner */
+  bookable: boolean;
+  modeEnabled: boolean;
+  rateCents: bigint | null;
+  blocks: AvailabilityBlock[];
+}
+
+export interface PropertyAvailability {
+  propertyId: string;
+  mode: AvailabilityMode;
+  from: Date;
+  to: Date;
+  operatingHours: OperatingHours;
+  chairs: ChairAvailability[];
+}
+
+/**
+ * Owner's utilisation and revenue for one chair over a range
+ *
+ * Hours exclude the days the chair is blocked by an exception. Revenue is
+ * what the owner is paid (after the platform fee) for rentals and bookings
+ * starting in the range, whether settled yet or still in escrow.
+ */
+export interface ChairUtilisation {
+  chairId: string;
+  name: string;
+  openHours: number;
+  busyHours: number;
+  /** busyHours / openHours, 0-1 */
+  utilisation: number;
+  rentalCount: number;
+  reservationCount: number;
+  rentalRevenueCents: bigint;
+  bookingFeeRevenueCents: bigint;
+}
+
+export interface PropertyUtilisation {
+  propertyId: string;
+  from: Date;
+  to: Date;
+  chairs: ChairUtilisation[];
+  totals: Omit<ChairUtilisation, "chairId" | "name">;
+}
+
+/**
+ * A validated chair reservation, ready to be written with the booking
+ */
+export interface ChairReservationPlan {
+  chairId: string;
+  propertyId: string;
+  ownerId: string;
+  /** Paid to the owner from the booking escrow. 0 when the stylist already rents the chair. */
+  feeCents: bigint;
+  location: {
+    address: string;
+    lat: number;
+    lng: number;
+  };
+}
+
+/**
+ * Result of a chair reservation operation.
+ * `error` is an ERROR_CODES key so routes can map it directly.
+ */
+export interface ChairReservationResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  details?: Record<string, unknown>;
+}
@@ -1,6 +1,7 @@
 /**
  * Cloudinary Image Upload Service (F4.5)
  * Handles portfolio image uploads with CDN delivery
+ * Also voice notes for conversations - Cloudinary stores audio as "video"
  */
 
 import { v2 as cloudinary, UploadApiResponse, UploadApiErrorResponse } from "cloudinary";
@@ -15,6 +16,19 @@ const MAX_FILE_SIZE_MB = 5;
 const MAX_FILE_SIZE_BYTES = MAX_FILE_SIZE_MB * 1024 * 1024;
 const ALLOWED_FORMATS = ["jpg", "jpeg", "png", "webp", "gif"];
 
+// Audio constraints
+const MAX_AUDIO_SIZE_MB = 10;
+const MAX_AUDIO_SIZE_BYTES = MAX_AUDIO_SIZE_MB * 1024 * 1024;
+const ALLOWED_AUDIO_FORMATS = ["webm", "ogg", "mpeg", "mp4", "aac", "wav", "x-m4a"];
+
+// Verification document constraints - photos and scanned PDFs
+const MAX_DOCUMENT_SIZE_MB = 10;
+const MAX_DOCUMENT_SIZE_BYTES = MAX_DOCUMENT_SIZE_MB * 1024 * 1024;
+const ALLOWED_DOCUMENT_FORMATS = ["jpg", "jpeg", "png", "webp", "pdf"];
+
+// Signed document URLs stop working after this long
+const DOCUMENT_URL_TTL_SECONDS = 10 * 60;
+
 // Transformation presets
 const TRANSFORMATIONS = {
   main: {
@@ -63,6 +77,10 @@ export interface UploadResult {
   height?: number;
   format?: string;
   bytes?: number;
+  /** Seconds - audio only */
+  duration?: number;
+  /** Result of the moderation add-on, when one was requested */
+  moderationStatus?: "approved" | "rejected" | "pending";
   error?: string;
 }
 
@@ -98,6 +116,61 @@ export function validateImageFile(
   return { valid: true };
 }
 
+/**
+ * Validate audio file before upload
+ */
+export function validateAudioFile(
+  buffer: Buffer,
+  mimetype: string
+): { valid: boolean; error?: string } {
+  if (buffer.length > MAX_AUDIO_SIZE_BYTES) {
+    return {
+      valid: false,
+      error: `File size exceeds ${MAX_AUDIO_SIZE_MB}MB limit`,
+    };
+  }
+
+  const [kind, format] = mimetype.toLowerCase().split("/");
+  if (kind !== "audio" || !format || !ALLOWED_AUDIO_FORMATS.includes(format)) {
+    return {
+      valid: false,
+      error: `Invalid audio format. Allowed: ${ALLOWED_AUDIO_FORMATS.map((f) => `audio/${f}`).join(", ")}`,
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validate a verification document (image or PDF) before upload
+ */
+export function validateDocumentFile(
+  buffer: Buffer,
+  mimetype: string
+): { valid: boolean; error?: string } {
+  if (buffer.length > MAX_DOCUMENT_SIZE_BYTES) {
+    return {
+      valid: false,
+      error: `File size exceeds ${MAX_DOCUMENT_SIZE_MB}MB limit`,
+    };
+  }
+
+  const format = mimetype.split("/")[1]?.toLowerCase();
+  if (!format || !ALLOWED_DOCUMENT_FORMATS.includes(format)) {
+    return {
+      valid: false,
+      error: `Invalid file format. Allowed: ${ALLOWED_DOCUMENT_FORMATS.join(", ")}`,
+    };
+  }
+
+  return { valid: true };
+}
+
+function getModerationStatus(result: UploadApiResponse): UploadResult["moderationStatus"] {
+  const moderation = (result.moderation as Array<{ status?: string }> | undefined)?.[0];
+  return moderation?.status as UploadResult["moderationStatus"];
+}
+
 /**
  * Upload image to Cloudinary
  */
@@ -107,6 +180,8 @@ export async function uploadImage(
     userId: string;
     folder?: string;
     publicId?: string;
+    /** Moderation add-on to run, e.g. "aws_rek" */
+    moderation?: string;
   }
 ): Promise<UploadResult> {
   ensureConfigured();
@@ -127,6 +202,7 @@ export async function uploadImage(
         folder,
         public_id: options.publicId,
         resource_type: "image",
+        moderation: options.moderation,
         transformation: TRANSFORMATIONS.main,
         eager: [TRANSFORMATIONS.thumbnail],
         eager_async: true,
@@ -155,6 +231,108 @@ export async function uploadImage(
           height: result.height,
           format: result.format,
           bytes: result.bytes,
+          moderationStatus: getModerationStatus(result),
+        });
+      }
+    );
+
+    uploadStream.end(buffer);
+  });
+}
+
+/**
+ * Upload audio (voice notes) to Cloudinary
+ */
+export async function uploadAudio(
+  buffer: Buffer,
+  options: {
+    userId: string;
+    folder: string;
+  }
+): Promise<UploadResult> {
+  ensureConfigured();
+
+  if (!CLOUDINARY_API_KEY || !CLOUDINARY_API_SECRET) {
+    return {
+      success: false,
+      error: "Cloudinary is not configured. Please set CLOUDINARY_API_KEY and CLOUDINARY_API_SECRET.",
+    };
+  }
+
+  return new Promise((resolve) => {
+    const uploadStream = cloudinary.uploader.upload_stream(
+      {
+        folder: options.folder,
+        resource_type: "video",
+      },
+      (error: UploadApiErrorResponse | undefined, result: UploadApiResponse | undefined) => {
+        if (error || !result) {
+          console.error("Cloudinary audio upload error:", error);
+          resolve({
+            success: false,
+            error: error?.message || "Upload failed",
+          });
+          return;
+        }
+
+        resolve({
+          success: true,
+          publicId: result.public_id,
+          url: result.secure_url,
+          format: result.format,
+          bytes: result.bytes,
+          duration: typeof result.duration === "number" ? result.duration : undefined,
+        });
+      }
+    );
+
+    uploadStream.end(buffer);
+  });
+}
+
+/**
+ * Upload a private document (ID, certificate, ...) to Cloudinary
+ *
+ * Stored as an "authenticated" asset, so it has no public URL - use
+ * getPrivateDocumentUrl to view it. PDFs are image resources in Cloudinary.
+ */
+export async function uploadPrivateDocument(
+  buffer: Buffer,
+  options: {
+    folder: string;
+  }
+): Promise<UploadResult> {
+  ensureConfigured();
+
+  if (!CLOUDINARY_API_KEY || !CLOUDINARY_API_SECRET) {
+    return {
+      success: false,
+      error: "Cloudinary is not configured. Please set CLOUDINARY_API_KEY and CLOUDINARY_API_SECRET.",
+    };
+  }
+
+  return new Promise((resolve) => {
+    const uploadStream = cloudinary.uploader.upload_stream(
+      {
+        folder: options.folder,
+        resource_type: "image",
+        type: "authenticated",
+      },
+      (error: UploadApiErrorResponse | undefined, result: UploadApiResponse | undefined) => {
+        if (error || !result) {
+          console.error("Cloudinary document upload error:", error);
+          resolve({
+            success: false,
+            error: error?.message || "Upload failed",
+          });
+          return;
+        }
+
+        resolve({
+          success: true,
+          publicId: result.public_id,
+          format: result.format,
+          bytes: result.bytes,
         });
       }
     );
@@ -163,6 +341,52 @@ export async function uploadImage(
   });
 }
 
+/**
+ * Short-lived signed URL for a private document
+ */
+export function getPrivateDocumentUrl(publicId: string, format: string): string {
+  ensureConfigured();
+
+  return cloudinary.utils.private_download_url(publicId, format, {
+    resource_type: "image",
+    type: "authenticated",
+    expires_at: Math.round(Date.now() / 1000) + DOCUMENT_URL_TTL_SECONDS,
+  });
+}
+
+/**
+ * Delete a private document from Cloudinary
+ */
+export async function deletePrivateDocument(publicId: string): Promise<DeleteResult> {
+  ensureConfigured();
+
+  if (!CLOUDINARY_API_KEY || !CLOUDINARY_API_SECRET) {
+    return {
+      success: false,
+      error: "Cloudinary is not configured",
+    };
+  }
+
+  try {
+    const result = await cloudinary.uploader.destroy(publicId, { resource_type: "image", type: "authenticated" });
+
+    if (result.result === "ok" || result.result === "not found") {
+      return { success: true };
+    }
+
+    return {
+      success: false,
+      error: `Delete failed: ${result.result}`,
+    };
+  } catch (error) {
+    console.error("Cloudinary document delete error:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Delete failed",
+    };
+  }
+}
+
 /**
  * Upload multiple images
  */
@@ -194,7 +418,10 @@ export async function uploadMultipleImages(
 /**
  * Delete image from Cloudinary
  */
-export async function deleteImage(publicId: string): Promise<DeleteResult> {
+export async function deleteImage(
+  publicId: string,
+  resourceType: "image" | "video" = "image"
+): Promise<DeleteResult> {
   ensureConfigured();
 
   if (!CLOUDINARY_API_KEY || !CLOUDINARY_API_SECRET) {
@@ -205,7 +432,7 @@ export async function deleteImage(publicId: string): Promise<DeleteResult> {
   }
 
   try {
-    const result = await cloudinary.uploader.destroy(publicId);
+    const result = await cloudinary.uploader.destroy(publicId, { resource_type: resourceType });
 
     if (result.result === "ok" || result.result === "not found") {
       return { success: true };
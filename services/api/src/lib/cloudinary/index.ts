@@ -6,9 +6,15 @@
 export {
   uploadImage,
   uploadMultipleImages,
+  uploadAudio,
+  uploadPrivateDocument,
+  getPrivateDocumentUrl,
   deleteImage,
   deleteMultipleImages,
+  deletePrivateDocument,
   validateImageFile,
+  validateAudioFile,
+  validateDocumentFile,
   generateUploadSignature,
   getOptimizedUrl,
   type UploadResult,
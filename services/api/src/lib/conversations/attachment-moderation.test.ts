@@ -0,0 +1,71 @@
+/**
+ * Attachment Moderation Tests
+ *
+ * Provider status mapping, registered moderators, and failing moderators
+ */
+
+jest.mock("../logger", () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+import { moderateAttachment, registerAttachmentModerator } from "./attachment-moderation";
+import type { AttachmentModerationInput } from "./types";
+
+const image: AttachmentModerationInput = {
+  kind: "IMAGE",
+  conversationId: "conv-1",
+  senderId: "user-a",
+  url: "https://res.cloudinary.com/demo/image/upload/photo.jpg",
+  publicId: "vlossom/messages/conv-1/photo",
+};
+
+describe("moderateAttachment", () => {
+  const cleanups: Array<() => void> = [];
+
+  afterEach(() => {
+    cleanups.splice(0).forEach((cleanup) => cleanup());
+  });
+
+  it("approves when the provider did not object and nothing else is registered", async () => {
+    expect(await moderateAttachment(image)).toEqual({ verdict: "APPROVED" });
+    expect(await moderateAttachment({ ...image, providerStatus: "approved" })).toEqual({ verdict: "APPROVED" });
+  });
+
+  it("maps the provider's rejected and pending statuses", async () => {
+    expect((await moderateAttachment({ ...image, providerStatus: "rejected" })).verdict).toBe("REJECTED");
+    expect((await moderateAttachment({ ...image, providerStatus: "pending" })).verdict).toBe("FLAGGED");
+  });
+
+  it("applies registered moderators until they are removed", async () => {
+    const moderator = jest.fn().mockResolvedValue({ verdict: "FLAGGED", reason: "keyword match" });
+    const remove = registerAttachmentModerator(moderator);
+
+    expect(await moderateAttachment(image)).toEqual({ verdict: "FLAGGED", reason: "keyword match" });
+    expect(moderator).toHaveBeenCalledWith(image);
+
+    remove();
+
+    expect(await moderateAttachment(image)).toEqual({ verdict: "APPROVED" });
+  });
+
+  it("flags rather than rejects when a moderator throws", async () => {
+    cleanups.push(
+      registerAttachmentModerator(() => {
+        throw new Error("classifier unavailable");
+      })
+    );
+
+    expect(await moderateAttachment(image)).toEqual({ verdict: "FLAGGED", reason: "Moderation check failed" });
+  });
+
+  it("still rejects when another moderator only flags", async () => {
+    cleanups.push(registerAttachmentModerator(() => ({ verdict: "FLAGGED" })));
+
+    expect((await moderateAttachment({ ...image, providerStatus: "rejected" })).verdict).toBe("REJECTED");
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Attachment Moderation
+ * Every image and voice note is run past the registered moderators before it
+ * is sent
+ *
+ * The upload provider's moderation add-on (when MESSAGE_IMAGE_MODERATION is
+ * set) is always consulted. Other checks - keyword scanning of transcripts,
+ * an external classifier - plug in with registerAttachmentModerator. A
+ * moderator that fails flags the attachment for review rather than blocking
+ * the message.
+ */
+
+import { logger } from "../logger";
+import { combineModerationVerdicts } from "./message-payloads";
+import type { AttachmentModerationInput, AttachmentModerator, ModerationResult } from "./types";
+
+const moderators: AttachmentModerator[] = [];
+
+/**
+ * Map the upload provider's moderation status to a verdict
+ */
+export function providerModerator(input: AttachmentModerationInput): ModerationResult {
+  switch (input.providerStatus) {
+    case "rejected":
+      return { verdict: "REJECTED", reason: "Rejected by automated image moderation" };
+    case "pending":
+      return { verdict: "FLAGGED", reason: "Awaiting automated image moderation" };
+    default:
+      return { verdict: "APPROVED" };
+  }
+}
+
+/**
+ * Add a moderator that runs on every attachment
+ *
+ * @returns Cleanup that removes it again
+ */
+export function registerAttachmentModerator(moderator: AttachmentModerator): () => void {
+  moderators.push(moderator);
+
+  return () => {
+    const index = moderators.indexOf(moderator);
+    if (index !== -1) {
+      moderators.splice(index, 1);
+    }
+  };
+}
+
+/**
+ * Run an attachment past every moderator and combine their verdicts
+ */
+export async function moderateAttachment(input: AttachmentModerationInput): Promise<ModerationResult> {
+  const results = await Promise.all(
+    [providerModerator, ...moderators].map(async (moderator) => {
+      try {
+        return await moderator(input);
+      } catch (error) {
+        logger.warn("Attachment moderator failed", {
+          error,
+          kind: input.kind,
+          conversationId: input.conversationId,
+        });
+        return { verdict: "FLAGGED", reason: "Moderation check failed" } as ModerationResult;
+      }
+    })
+  );
+
+  return combineModerationVerdicts(results);
+}
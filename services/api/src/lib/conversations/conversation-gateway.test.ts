@@ -0,0 +1,181 @@
+/**
+ * Conversation Gateway Tests
+ *
+ * Fan-out through the Redis channel, the in-process fallback, and presence
+ */
+
+jest.mock("../logger", () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  },
+}));
+
+const mockRedis = {
+  incr: jest.fn().mockResolvedValue(1),
+  decr: jest.fn().mockResolvedValue(0),
+  expire: jest.fn().mockResolvedValue(1),
+  del: jest.fn().mockResolvedValue(1),
+  get: jest.fn().mockResolvedValue(null),
+};
+
+const mockRedisClient = {
+  getRedis: jest.fn(),
+  publishMessage: jest.fn(),
+  subscribeChannel: jest.fn(),
+};
+
+jest.mock("../redis-client", () => mockRedisClient);
+
+import type { ConversationEvent } from "./types";
+
+type Gateway = typeof import("./conversation-gateway");
+
+// A fresh module each time, so local streams and subscriptions don't leak between tests
+async function loadGateway(): Promise<Gateway> {
+  jest.resetModules();
+  return import("./conversation-gateway");
+}
+
+function createClient() {
+  return { write: jest.fn() };
+}
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+const typingEvent: ConversationEvent = {
+  type: "typing",
+  conversationId: "conv-1",
+  userId: "user-a",
+  isTyping: true,
+  expiresInMs: 6000,
+};
+
+describe("formatStreamFrame", () => {
+  it("writes the event type and the rest as data", async () => {
+    const { formatStreamFrame } = await loadGateway();
+
+    expect(formatStreamFrame(typingEvent)).toBe(
+      'event: typing\ndata: {"conversationId":"conv-1","userId":"user-a","isTyping":true,"expiresInMs":6000}\n\n'
+    );
+  });
+});
+
+describe("without Redis", () => {
+  let gateway: Gateway;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    mockRedisClient.getRedis.mockResolvedValue(null);
+    mockRedisClient.publishMessage.mockResolvedValue(false);
+    mockRedisClient.subscribeChannel.mockResolvedValue(false);
+    gateway = await loadGateway();
+  });
+
+  it("delivers to every stream the listed users hold on this instance", async () => {
+    const phone = createClient();
+    const laptop = createClient();
+    const other = createClient();
+    gateway.addConversationClient("user-b", phone);
+    gateway.addConversationClient("user-b", laptop);
+    gateway.addConversationClient("user-c", other);
+
+    await gateway.publishConversationEvent(["user-b"], typingEvent);
+
+    expect(phone.write).toHaveBeenCalledWith(gateway.formatStreamFrame(typingEvent));
+    expect(laptop.write).toHaveBeenCalledTimes(1);
+    expect(other.write).not.toHaveBeenCalled();
+  });
+
+  it("keeps delivering when one stream throws", async () => {
+    const broken = { write: jest.fn(() => { throw new Error("socket closed"); }) };
+    const healthy = createClient();
+    gateway.addConversationClient("user-b", broken);
+    gateway.addConversationClient("user-b", healthy);
+
+    await gateway.publishConversationEvent(["user-b"], typingEvent);
+
+    expect(healthy.write).toHaveBeenCalledTimes(1);
+  });
+
+  it("stops delivering and reports offline once the stream is removed", async () => {
+    const client = createClient();
+    const remove = gateway.addConversationClient("user-b", client);
+
+    expect(await gateway.isUserOnline("user-b")).toBe(true);
+
+    remove();
+    await gateway.publishConversationEvent(["user-b"], typingEvent);
+
+    expect(client.write).not.toHaveBeenCalled();
+    expect(await gateway.isUserOnline("user-b")).toBe(false);
+  });
+});
+
+describe("with Redis", () => {
+  let gateway: Gateway;
+  let channelHandler: ((message: string) => void) | undefined;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    channelHandler = undefined;
+    mockRedisClient.getRedis.mockResolvedValue(mockRedis);
+    mockRedisClient.publishMessage.mockResolvedValue(true);
+    mockRedisClient.subscribeChannel.mockImplementation(async (_channel: string, handler: (message: string) => void) => {
+      channelHandler = handler;
+      return true;
+    });
+    gateway = await loadGateway();
+  });
+
+  it("publishes to the channel and delivers only what comes back on it", async () => {
+    const client = createClient();
+    gateway.addConversationClient("user-b", client);
+
+    await gateway.publishConversationEvent(["user-b"], typingEvent);
+
+    expect(mockRedisClient.subscribeChannel).toHaveBeenCalledTimes(1);
+    expect(mockRedisClient.publishMessage).toHaveBeenCalledWith(
+      "conversations:events",
+      JSON.stringify({ userIds: ["user-b"], event: typingEvent })
+    );
+    expect(client.write).not.toHaveBeenCalled();
+
+    channelHandler!(mockRedisClient.publishMessage.mock.calls[0][1]);
+
+    expect(client.write).toHaveBeenCalledWith(gateway.formatStreamFrame(typingEvent));
+  });
+
+  it("falls back to local delivery when publishing fails", async () => {
+    mockRedisClient.publishMessage.mockResolvedValue(false);
+    const client = createClient();
+    gateway.addConversationClient("user-b", client);
+
+    await gateway.publishConversationEvent(["user-b"], typingEvent);
+
+    expect(client.write).toHaveBeenCalledTimes(1);
+  });
+
+  it("counts presence across instances", async () => {
+    const remove = gateway.addConversationClient("user-b", createClient());
+    await flush();
+
+    expect(mockRedis.incr).toHaveBeenCalledWith("conversations:presence:user-b");
+    expect(mockRedis.expire).toHaveBeenCalledWith("conversations:presence:user-b", 60);
+
+    remove();
+    await flush();
+
+    expect(mockRedis.decr).toHaveBeenCalledWith("conversations:presence:user-b");
+    expect(mockRedis.del).toHaveBeenCalledWith("conversations:presence:user-b");
+  });
+
+  it("reports users connected to another instance as online", async () => {
+    mockRedis.get.mockResolvedValueOnce("2");
+
+    expect(await gateway.isUserOnline("user-d")).toBe(true);
+    expect(await gateway.isUserOnline("user-e")).toBe(false);
+  });
+});
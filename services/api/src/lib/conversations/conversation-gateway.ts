@@ -0,0 +1,157 @@
+/**
+ * Conversation Gateway
+ * Delivers conversation events to connected streams and tracks presence
+ *
+ * Events are published on a Redis channel that every instance subscribes to,
+ * and each instance writes them to the streams it holds. Presence is a
+ * per-user connection count in Redis, kept alive by stream heartbeats, so the
+ * sender's instance can tell whether the recipient is connected anywhere.
+ * Without Redis both fall back to this process.
+ */
+
+import { logger } from "../logger";
+import { getRedis, publishMessage, subscribeChannel } from "../redis-client";
+import { PRESENCE_TTL_SECONDS, type ConversationEvent, type ConversationStreamClient } from "./types";
+
+const EVENTS_CHANNEL = "conversations:events";
+
+// Streams held by this instance, by user
+const localClients = new Map<string, Set<ConversationStreamClient>>();
+
+let subscription: Promise<boolean> | null = null;
+
+function presenceKey(userId: string): string {
+  return `conversations:presence:${userId}`;
+}
+
+/**
+ * Format an event as a Server-Sent Events frame
+ */
+export function formatStreamFrame(event: ConversationEvent): string {
+  const { type, ...data } = event;
+  return `event: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+function deliverLocally(userIds: string[], event: ConversationEvent): void {
+  const frame = formatStreamFrame(event);
+
+  for (const userId of userIds) {
+    localClients.get(userId)?.forEach((client) => {
+      try {
+        client.write(frame);
+      } catch (error) {
+        logger.error("Error writing conversation event to stream", { error, userId, type: event.type });
+      }
+    });
+  }
+}
+
+/**
+ * Subscribe this instance to the events channel once. A failed subscription
+ * is retried on the next call rather than cached.
+ */
+function ensureSubscribed(): Promise<boolean> {
+  if (!subscription) {
+    subscription = subscribeChannel(EVENTS_CHANNEL, (raw) => {
+      try {
+        const { userIds, event } = JSON.parse(raw) as { userIds: string[]; event: ConversationEvent };
+        deliverLocally(userIds, event);
+      } catch (error) {
+        logger.error("Malformed conversation event on channel", { error });
+      }
+    }).then((subscribed) => {
+      if (!subscribed) {
+        subscription = null;
+      }
+      return subscribed;
+    });
+  }
+  return subscription;
+}
+
+/**
+ * Push an event to every stream the given users hold, on any instance
+ */
+export async function publishConversationEvent(userIds: string[], event: ConversationEvent): Promise<void> {
+  const subscribed = await ensureSubscribed();
+  if (subscribed && (await publishMessage(EVENTS_CHANNEL, JSON.stringify({ userIds, event })))) {
+    return;
+  }
+
+  deliverLocally(userIds, event);
+}
+
+/**
+ * Register a user's stream and mark them online
+ *
+ * @returns Cleanup to call when the stream closes
+ */
+export function addConversationClient(userId: string, client: ConversationStreamClient): () => void {
+  const clients = localClients.get(userId) || new Set<ConversationStreamClient>();
+  clients.add(client);
+  localClients.set(userId, clients);
+
+  ensureSubscribed().catch(() => undefined);
+
+  getRedis()
+    .then(async (redis) => {
+      if (!redis) return;
+      await redis.incr(presenceKey(userId));
+      await redis.expire(presenceKey(userId), PRESENCE_TTL_SECONDS);
+    })
+    .catch((error) => logger.warn("Failed to record conversation presence", { error, userId }));
+
+  return () => {
+    const remaining = localClients.get(userId);
+    remaining?.delete(client);
+    if (remaining && remaining.size === 0) {
+      localClients.delete(userId);
+    }
+
+    getRedis()
+      .then(async (redis) => {
+        if (!redis) return;
+        const count = await redis.decr(presenceKey(userId));
+        if (count <= 0) {
+          await redis.del(presenceKey(userId));
+        }
+      })
+      .catch((error) => logger.warn("Failed to clear conversation presence", { error, userId }));
+  };
+}
+
+/**
+ * Keep a connected user's presence from expiring - called on stream heartbeats
+ */
+export async function refreshConversationPresence(userId: string): Promise<void> {
+  const redis = await getRedis();
+  if (!redis) return;
+
+  try {
+    await redis.expire(presenceKey(userId), PRESENCE_TTL_SECONDS);
+  } catch (error) {
+    logger.warn("Failed to refresh conversation presence", { error, userId });
+  }
+}
+
+/**
+ * Whether the user has a stream open on any instance. Errs towards offline,
+ * which only costs an extra push notification.
+ */
+export async function isUserOnline(userId: string): Promise<boolean> {
+  if (localClients.has(userId)) {
+    return true;
+  }
+
+  const redis = await getRedis();
+  if (!redis) {
+    return false;
+  }
+
+  try {
+    return Number(await redis.get(presenceKey(userId))) > 0;
+  } catch (error) {
+    logger.warn("Failed to read conversation presence", { error, userId });
+    return false;
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Conversations Module
+ * Unified exports for rich messages, attachment moderation, realtime events
+ * and presence
+ */
+
+export * from "./types";
+export {
+  getMessagePreview,
+  combineModerationVerdicts,
+  validateAvailabilitySlots,
+  getProposalExpiry,
+  checkProposalResponse,
+} from "./message-payloads";
+export { registerAttachmentModerator, moderateAttachment } from "./attachment-moderation";
+export {
+  toRealtimeMessage,
+  buildMessageDraft,
+  buildAttachmentDraft,
+  acceptBookingProposal,
+  declineBookingProposal,
+  type MessageDraft,
+  type RichMessageInput,
+} from "./rich-message-service";
+export {
+  formatStreamFrame,
+  publishConversationEvent,
+  addConversationClient,
+  refreshConversationPresence,
+  isUserOnline,
+} from "./conversation-gateway";
@@ -0,0 +1,147 @@
+import {
+  checkProposalResponse,
+  combineModerationVerdicts,
+  getMessagePreview,
+  getProposalExpiry,
+  validateAvailabilitySlots,
+} from './message-payloads';
+import { MAX_AVAILABILITY_SLOTS, PROPOSAL_EXPIRY_HOURS } from './types';
+
+describe('Message Payloads', () => {
+  const now = new Date('2026-03-10T12:00:00Z');
+  const hour = 60 * 60 * 1000;
+
+  describe('getMessagePreview', () => {
+    it('should use the text of a text message', () => {
+      expect(getMessagePreview('TEXT', '  Hello there  ')).toBe('Hello there');
+    });
+
+    it('should prefer a caption over the generic summary', () => {
+      expect(getMessagePreview('IMAGE', 'The look I want')).toBe('The look I want');
+    });
+
+    it('should summarise attachments and cards without a caption', () => {
+      expect(getMessagePreview('IMAGE', '')).toBe('Sent a photo');
+      expect(getMessagePreview('VOICE_NOTE', undefined)).toBe('Sent a voice note');
+      expect(getMessagePreview('AVAILABILITY_CARD', null, { slots: [] })).toBe('Shared available times');
+    });
+
+    it('should name the service on service cards and proposals', () => {
+      expect(
+        getMessagePreview('SERVICE_CARD', '', {
+          serviceId: 's1',
+          stylistId: 'u1',
+          name: 'Knotless braids',
+          category: 'Braids',
+          priceAmountCents: '45000',
+          estimatedDurationMin: 240,
+        })
+      ).toBe('Shared a service: Knotless braids');
+
+      expect(
+        getMessagePreview('BOOKING_PROPOSAL', '', {
+          serviceId: 's1',
+          serviceName: 'Silk press',
+          scheduledStartTime: '2026-03-12T09:00:00Z',
+          estimatedDurationMin: 90,
+          locationType: 'STYLIST_BASE',
+          locationAddress: '1 Main Rd',
+          quoteAmountCents: '30000',
+        })
+      ).toBe('Proposed a booking: Silk press');
+    });
+
+    it('should cap the preview length', () => {
+      expect(getMessagePreview('TEXT', 'a'.repeat(300))).toHaveLength(100);
+    });
+  });
+
+  describe('combineModerationVerdicts', () => {
+    it('should approve when nothing objects', () => {
+      expect(combineModerationVerdicts([])).toEqual({ verdict: 'APPROVED' });
+      expect(combineModerationVerdicts([{ verdict: 'APPROVED' }])).toEqual({ verdict: 'APPROVED' });
+    });
+
+    it('should keep the strictest verdict and its reason', () => {
+      expect(
+        combineModerationVerdicts([
+          { verdict: 'FLAGGED', reason: 'pending review' },
+          { verdict: 'REJECTED', reason: 'explicit' },
+          { verdict: 'APPROVED' },
+        ])
+      ).toEqual({ verdict: 'REJECTED', reason: 'explicit' });
+
+      expect(
+        combineModerationVerdicts([{ verdict: 'APPROVED' }, { verdict: 'FLAGGED', reason: 'pending review' }])
+      ).toEqual({ verdict: 'FLAGGED', reason: 'pending review' });
+    });
+  });
+
+  describe('validateAvailabilitySlots', () => {
+    const slot = (startOffsetHours: number, lengthHours = 1) => ({
+      startTime: new Date(now.getTime() + startOffsetHours * hour).toISOString(),
+      endTime: new Date(now.getTime() + (startOffsetHours + lengthHours) * hour).toISOString(),
+    });
+
+    it('should accept future slots within the limit', () => {
+      expect(validateAvailabilitySlots([slot(24), slot(48)], now)).toBeNull();
+    });
+
+    it('should reject an empty card or too many slots', () => {
+      expect(validateAvailabilitySlots([], now)).toMatch(/between 1 and/);
+      const tooMany = Array.from({ length: MAX_AVAILABILITY_SLOTS + 1 }, (_, i) => slot(24 + i * 2));
+      expect(validateAvailabilitySlots(tooMany, now)).toMatch(/between 1 and/);
+    });
+
+    it('should reject inverted and past slots', () => {
+      expect(validateAvailabilitySlots([slot(24, -1)], now)).toMatch(/end after/);
+      expect(validateAvailabilitySlots([slot(-2)], now)).toMatch(/in the future/);
+    });
+  });
+
+  describe('getProposalExpiry', () => {
+    it('should give the full window when the start is far away', () => {
+      const start = new Date(now.getTime() + 7 * 24 * hour);
+      expect(getProposalExpiry(start, now)?.getTime()).toBe(now.getTime() + PROPOSAL_EXPIRY_HOURS * hour);
+    });
+
+    it('should expire at the start when it comes sooner', () => {
+      const start = new Date(now.getTime() + 3 * hour);
+      expect(getProposalExpiry(start, now)).toEqual(start);
+    });
+
+    it('should return null once the start has passed', () => {
+      expect(getProposalExpiry(now, now)).toBeNull();
+    });
+  });
+
+  describe('checkProposalResponse', () => {
+    const proposal = {
+      type: 'BOOKING_PROPOSAL' as const,
+      senderId: 'stylist-1',
+      proposalStatus: 'PENDING' as const,
+      proposalExpiresAt: new Date(now.getTime() + hour),
+    };
+
+    it('should let the recipient answer a pending proposal', () => {
+      expect(checkProposalResponse(proposal, 'customer-1', now)).toBeNull();
+    });
+
+    it('should only apply to proposals', () => {
+      expect(checkProposalResponse({ ...proposal, type: 'TEXT' }, 'customer-1', now)).toBe('MESSAGE_NOT_FOUND');
+    });
+
+    it('should not let the sender answer their own proposal', () => {
+      expect(checkProposalResponse(proposal, 'stylist-1', now)).toBe('FORBIDDEN');
+    });
+
+    it('should reject answered and expired proposals', () => {
+      expect(checkProposalResponse({ ...proposal, proposalStatus: 'ACCEPTED' }, 'customer-1', now)).toBe(
+        'PROPOSAL_NOT_PENDING'
+      );
+      expect(checkProposalResponse({ ...proposal, proposalExpiresAt: now }, 'customer-1', now)).toBe(
+        'PROPOSAL_EXPIRED'
+      );
+    });
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Message payload rules
+ * Pure helpers - no database access
+ */
+
+import {
+  MAX_AVAILABILITY_SLOTS,
+  PROPOSAL_EXPIRY_HOURS,
+  type AvailabilitySlot,
+  type MessagePayload,
+  type MessageType,
+  type ModerationResult,
+  type ProposalStatus,
+} from "./types";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const PREVIEW_LENGTH = 100;
+
+const VERDICT_RANK = { APPROVED: 0, FLAGGED: 1, REJECTED: 2 } as const;
+
+/**
+ * Plain-text stand-in for a message - used for the stored content of
+ * attachments and cards without a caption, conversation previews and push
+ * notifications
+ */
+export function getMessagePreview(
+  type: MessageType,
+  content: string | null | undefined,
+  payload?: MessagePayload | null
+): string {
+  const caption = content?.trim();
+  if (type === "TEXT" || caption) {
+    return (caption || "").slice(0, PREVIEW_LENGTH);
+  }
+
+  switch (type) {
+    case "IMAGE":
+      return "Sent a photo";
+    case "VOICE_NOTE":
+      return "Sent a voice note";
+    case "SERVICE_CARD":
+      return payload && "name" in payload ? `Shared a service: ${payload.name}` : "Shared a service";
+    case "AVAILABILITY_CARD":
+      return "Shared available times";
+    case "BOOKING_LINK":
+      return payload && "serviceType" in payload ? `Shared a booking: ${payload.serviceType}` : "Shared a booking";
+    case "BOOKING_PROPOSAL":
+      return payload && "serviceName" in payload
+        ? `Proposed a booking: ${payload.serviceName}`
+        : "Proposed a booking";
+  }
+}
+
+/**
+ * Merge the verdicts of every moderator that looked at an attachment - the
+ * strictest wins, and its reason is kept
+ */
+export function combineModerationVerdicts(results: ModerationResult[]): ModerationResult {
+  return results.reduce<ModerationResult>(
+    (worst, result) => (VERDICT_RANK[result.verdict] > VERDICT_RANK[worst.verdict] ? result : worst),
+    { verdict: "APPROVED" }
+  );
+}
+
+/**
+ * Check the slots on an availability card. Returns an error message or null.
+ */
+export function validateAvailabilitySlots(slots: AvailabilitySlot[], now: Date = new Date()): string | null {
+  if (slots.length === 0 || slots.length > MAX_AVAILABILITY_SLOTS) {
+    return `An availability card needs between 1 and ${MAX_AVAILABILITY_SLOTS} slots`;
+  }
+
+  for (const slot of slots) {
+    const start = new Date(slot.startTime);
+    const end = new Date(slot.endTime);
+
+    if (end <= start) {
+      return "Each slot must end after it starts";
+    }
+
+    if (start <= now) {
+      return "Slots must be in the future";
+    }
+  }
+
+  return null;
+}
+
+/**
+ * When a proposal sent now should expire: after PROPOSAL_EXPIRY_HOURS, but
+ * never later than the proposed start. Null when the start has passed.
+ */
+export function getProposalExpiry(scheduledStartTime: Date, now: Date = new Date()): Date | null {
+  if (scheduledStartTime <= now) {
+    return null;
+  }
+
+  return new Date(Math.min(now.getTime() + PROPOSAL_EXPIRY_HOURS * HOUR_MS, scheduledStartTime.getTime()));
+}
+
+/**
+ * Whether the user can answer this proposal now. Returns an ERROR_CODES key
+ * or null.
+ */
+export function checkProposalResponse(
+  message: {
+    type: MessageType;
+    senderId: string;
+    proposalStatus: ProposalStatus | null;
+    proposalExpiresAt: Date | null;
+  },
+  userId: string,
+  now: Date = new Date()
+): string | null {
+  if (message.type !== "BOOKING_PROPOSAL") {
+    return "MESSAGE_NOT_FOUND";
+  }
+
+  // Only the recipient answers - the stylist withdraws by sending a new one
+  if (message.senderId === userId) {
+    return "FORBIDDEN";
+  }
+
+  if (message.proposalStatus !== "PENDING") {
+    return "PROPOSAL_NOT_PENDING";
+  }
+
+  if (!message.proposalExpiresAt || message.proposalExpiresAt <= now) {
+    return "PROPOSAL_EXPIRED";
+  }
+
+  return null;
+}
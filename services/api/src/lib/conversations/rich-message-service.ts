@@ -0,0 +1,566 @@
+/**
+ * Rich Message Service
+ * Attachments, cards and booking proposals sent in conversations
+ *
+ * Cards carry a snapshot of what was shared (price, time, status) so old
+ * messages read the same after the service or booking changes. A booking
+ * proposal is a stylist offering the customer a specific service and time;
+ * when the customer accepts, it becomes a booking that is already approved
+ * and waiting for payment.
+ */
+
+import { BookingStatus, Prisma } from "@prisma/client";
+import prisma from "../prisma";
+import { logger } from "../logger";
+import { calculateBookingPricing } from "../pricing";
+import { calculateDepositSplit } from "../booking-deposit";
+import { buildLineItems } from "../booking-line-items";
+import { validateTransition } from "../booking-state-machine";
+import { resolveCancellationPolicy, toCancellationPolicySnapshot } from "../cancellation-policy";
+import { checkAvailability, type Coordinates } from "../scheduling";
+import { notifyBookingEvent } from "../notifications";
+import { getFeeDiscountPercentage } from "../rewards";
+import { deleteImage, uploadAudio, uploadImage, validateAudioFile, validateImageFile } from "../cloudinary";
+import { moderateAttachment } from "./attachment-moderation";
+import {
+  checkProposalResponse,
+  getMessagePreview,
+  getProposalExpiry,
+  validateAvailabilitySlots,
+} from "./message-payloads";
+import type {
+  AvailabilitySlot,
+  BookingProposalPayload,
+  ConversationResult,
+  MessagePayload,
+  MessageType,
+  ProposalStatus,
+  RealtimeMessage,
+} from "./types";
+
+type MessageRecord = Prisma.MessageGetPayload<Record<string, never>>;
+
+/**
+ * Everything needed to create a message, resolved from what the sender asked for
+ */
+export interface MessageDraft {
+  type: MessageType;
+  content: string;
+  payload: MessagePayload | null;
+  moderationStatus?: "APPROVED" | "FLAGGED";
+  moderationReason?: string;
+  proposalStatus?: ProposalStatus;
+  proposalExpiresAt?: Date;
+}
+
+export type RichMessageInput =
+  | { type: "TEXT"; content: string }
+  | { type: "SERVICE_CARD"; serviceId: string; content?: string }
+  | { type: "AVAILABILITY_CARD"; slots: AvailabilitySlot[]; serviceId?: string; content?: string }
+  | { type: "BOOKING_LINK"; bookingId: string; content?: string }
+  | {
+      type: "BOOKING_PROPOSAL";
+      serviceId: string;
+      scheduledStartTime: string;
+      locationType: "STYLIST_BASE" | "CUSTOMER_HOME";
+      locationAddress: string;
+      locationLat?: number;
+      locationLng?: number;
+      content?: string;
+    };
+
+/**
+ * Raised inside the accept transaction to roll back a lost race
+ */
+class ProposalClaimError extends Error {
+  constructor(readonly code: "PROPOSAL_NOT_PENDING") {
+    super(code);
+  }
+}
+
+function toCoordinates(proposal: { locationLat?: number; locationLng?: number }): Coordinates | undefined {
+  return proposal.locationLat !== undefined && proposal.locationLng !== undefined
+    ? { lat: proposal.locationLat, lng: proposal.locationLng }
+    : undefined;
+}
+
+/**
+ * Shape a stored message for responses and stream events. A pending
+ * proposal past its expiry reads as EXPIRED without waiting for a write.
+ */
+export function toRealtimeMessage(message: MessageRecord, now: Date = new Date()): RealtimeMessage {
+  const expired =
+    message.proposalStatus === "PENDING" && message.proposalExpiresAt !== null && message.proposalExpiresAt <= now;
+
+  return {
+    id: message.id,
+    conversationId: message.conversationId,
+    senderId: message.senderId,
+    content: message.content,
+    type: message.type,
+    payload: (message.payload as MessagePayload | null) ?? null,
+    proposalStatus: expired ? "EXPIRED" : message.proposalStatus,
+    proposalExpiresAt: message.proposalExpiresAt,
+    proposalBookingId: message.proposalBookingId,
+    readAt: message.readAt,
+    createdAt: message.createdAt,
+  };
+}
+
+/**
+ * Resolve a text message or card into a draft, snapshotting the service or
+ * booking it refers to
+ */
+export async function buildMessageDraft(
+  input: RichMessageInput,
+  senderId: string,
+  recipientId: string
+): Promise<ConversationResult<MessageDraft>> {
+  switch (input.type) {
+    case "TEXT":
+      return { success: true, data: { type: "TEXT", content: input.content, payload: null } };
+
+    case "SERVICE_CARD": {
+      const service = await prisma.stylistService.findUnique({
+        where: { id: input.serviceId },
+        include: { stylist: { select: { userId: true } } },
+      });
+      if (!service) {
+        return { success: false, error: "SERVICE_NOT_FOUND" };
+      }
+      if (!service.isActive) {
+        return { success: false, error: "SERVICE_INACTIVE" };
+      }
+
+      const payload = {
+        serviceId: service.id,
+        stylistId: service.stylist.userId,
+        name: service.name,
+        category: service.category,
+        priceAmountCents: service.priceAmountCents.toString(),
+        estimatedDurationMin: service.estimatedDurationMin,
+      };
+      return {
+        success: true,
+        data: { type: input.type, content: getMessagePreview(input.type, input.content, payload), payload },
+      };
+    }
+
+    case "AVAILABILITY_CARD": {
+      const profile = await prisma.stylistProfile.findUnique({
+        where: { userId: senderId },
+        select: { id: true },
+      });
+      if (!profile) {
+        return { success: false, error: "NOT_A_STYLIST" };
+      }
+
+      const slotError = validateAvailabilitySlots(input.slots);
+      if (slotError) {
+        return { success: false, error: "VALIDATION_ERROR", details: { message: slotError } };
+      }
+
+      let serviceName: string | undefined;
+      if (input.serviceId) {
+        const service = await prisma.stylistService.findUnique({ where: { id: input.serviceId } });
+        if (!service || service.stylistId !== profile.id) {
+          return { success: false, error: "SERVICE_NOT_FOUND" };
+        }
+        serviceName = service.name;
+      }
+
+      const payload = { serviceId: input.serviceId, serviceName, slots: input.slots };
+      return {
+        success: true,
+        data: { type: input.type, content: getMessagePreview(input.type, input.content, payload), payload },
+      };
+    }
+
+    case "BOOKING_LINK": {
+      const booking = await prisma.booking.findUnique({
+        where: { id: input.bookingId },
+        select: { id: true, customerId: true, stylistId: true, serviceType: true, scheduledStartTime: true, status: true },
+      });
+      if (!booking) {
+        return { success: false, error: "BOOKING_NOT_FOUND" };
+      }
+
+      // Only share a booking between the two people on it
+      const parties = [booking.customerId, booking.stylistId];
+      if (!parties.includes(senderId) || !parties.includes(recipientId)) {
+        return { success: false, error: "FORBIDDEN", details: { message: "The booking is not between you two" } };
+      }
+
+      const payload = {
+        bookingId: booking.id,
+        serviceType: booking.serviceType,
+        scheduledStartTime: booking.scheduledStartTime.toISOString(),
+        status: booking.status,
+      };
+      return {
+        success: true,
+        data: { type: input.type, content: getMessagePreview(input.type, input.content, payload), payload },
+      };
+    }
+
+    case "BOOKING_PROPOSAL":
+      return buildProposalDraft(input, senderId);
+  }
+}
+
+async function buildProposalDraft(
+  input: Extract<RichMessageInput, { type: "BOOKING_PROPOSAL" }>,
+  senderId: string
+): Promise<ConversationResult<MessageDraft>> {
+  const service = await prisma.stylistService.findUnique({
+    where: { id: input.serviceId },
+    include: { stylist: true },
+  });
+
+  if (!service) {
+    return { success: false, error: "SERVICE_NOT_FOUND" };
+  }
+
+  // Stylists propose their own services
+  if (service.stylist.userId !== senderId) {
+    return { success: false, error: "NOT_A_STYLIST" };
+  }
+
+  if (!service.isActive) {
+    return { success: false, error: "SERVICE_INACTIVE" };
+  }
+
+  const startTime = new Date(input.scheduledStartTime);
+  const expiresAt = getProposalExpiry(startTime);
+  if (!expiresAt) {
+    return { success: false, error: "VALIDATION_ERROR", details: { message: "The proposed time has passed" } };
+  }
+
+  const availability = await checkAvailability({
+    stylistId: senderId,
+    serviceId: service.id,
+    startTime,
+    durationMinutes: service.estimatedDurationMin,
+    locationType: input.locationType,
+    customerCoords: toCoordinates(input),
+  });
+
+  if (!availability.available) {
+    return { success: false, error: "SCHEDULING_CONFLICT", details: { conflicts: availability.conflicts } };
+  }
+
+  const payload: BookingProposalPayload = {
+    serviceId: service.id,
+    serviceName: service.name,
+    scheduledStartTime: startTime.toISOString(),
+    estimatedDurationMin: service.estimatedDurationMin,
+    locationType: input.locationType,
+    locationAddress: input.locationAddress,
+    locationLat: input.locationLat,
+    locationLng: input.locationLng,
+    quoteAmountCents: calculateBookingPricing(service.priceAmountCents).quoteAmountCents.toString(),
+  };
+
+  return {
+    success: true,
+    data: {
+      type: input.type,
+      content: getMessagePreview(input.type, input.content, payload),
+      payload,
+      proposalStatus: "PENDING",
+      proposalExpiresAt: expiresAt,
+    },
+  };
+}
+
+/**
+ * Validate, upload and moderate an image or voice note. Rejected uploads are
+ * deleted again and never become a message.
+ */
+export async function buildAttachmentDraft(input: {
+  kind: "IMAGE" | "VOICE_NOTE";
+  conversationId: string;
+  senderId: string;
+  buffer: Buffer;
+  mimetype: string;
+  caption?: string;
+}): Promise<ConversationResult<MessageDraft>> {
+  const { kind, conversationId, senderId, buffer, mimetype } = input;
+
+  const validation = kind === "IMAGE" ? validateImageFile(buffer, mimetype) : validateAudioFile(buffer, mimetype);
+  if (!validation.valid) {
+    return { success: false, error: "INVALID_FILE", details: { reason: validation.error } };
+  }
+
+  const folder = `vlossom/messages/${conversationId}`;
+  const upload =
+    kind === "IMAGE"
+      ? await uploadImage(buffer, {
+          userId: senderId,
+          folder,
+          moderation: process.env.MESSAGE_IMAGE_MODERATION || undefined,
+        })
+      : await uploadAudio(buffer, { userId: senderId, folder });
+
+  if (!upload.success || !upload.url || !upload.publicId) {
+    return { success: false, error: "UPLOAD_FAILED", details: { reason: upload.error } };
+  }
+
+  const moderation = await moderateAttachment({
+    kind,
+    conversationId,
+    senderId,
+    url: upload.url,
+    publicId: upload.publicId,
+    providerStatus: upload.moderationStatus,
+  });
+
+  if (moderation.verdict === "REJECTED") {
+    await deleteImage(upload.publicId, kind === "IMAGE" ? "image" : "video").catch((error) =>
+      logger.error("Failed to delete rejected attachment", { error, publicId: upload.publicId })
+    );
+    logger.warn("Attachment rejected by moderation", { conversationId, senderId, kind, reason: moderation.reason });
+    return { success: false, error: "ATTACHMENT_REJECTED", details: { reason: moderation.reason } };
+  }
+
+  const payload: MessagePayload =
+    kind === "IMAGE"
+      ? { url: upload.url, publicId: upload.publicId, width: upload.width, height: upload.height }
+      : { url: upload.url, publicId: upload.publicId, durationSeconds: upload.duration };
+
+  if (moderation.verdict === "FLAGGED") {
+    logger.warn("Attachment flagged for review", { conversationId, senderId, kind, reason: moderation.reason });
+  }
+
+  return {
+    success: true,
+    data: {
+      type: kind,
+      content: getMessagePreview(kind, input.caption, payload),
+      payload,
+      moderationStatus: moderation.verdict,
+      moderationReason: moderation.reason,
+    },
+  };
+}
+
+/**
+ * Load a proposal the user can answer, marking it EXPIRED if its time ran out
+ */
+async function loadAnswerableProposal(
+  conversationId: string,
+  messageId: string,
+  userId: string
+): Promise<{ message: MessageRecord; conversation: { participant1Id: string; participant2Id: string } } | { error: string }> {
+  const message = await prisma.message.findUnique({
+    where: { id: messageId },
+    include: { conversation: { select: { participant1Id: true, participant2Id: true } } },
+  });
+
+  if (
+    !message ||
+    message.conversationId !== conversationId ||
+    message.deletedAt ||
+    (message.conversation.participant1Id !== userId && message.conversation.participant2Id !== userId)
+  ) {
+    return { error: "MESSAGE_NOT_FOUND" };
+  }
+
+  const error = checkProposalResponse(message, userId);
+  if (error === "PROPOSAL_EXPIRED") {
+    await prisma.message.updateMany({
+      where: { id: messageId, proposalStatus: "PENDING" },
+      data: { proposalStatus: "EXPIRED" },
+    });
+  }
+  if (error) {
+    return { error };
+  }
+
+  const { conversation, ...record } = message;
+  return { message: record, conversation };
+}
+
+/**
+ * Customer accepts a booking proposal. The booking is created already
+ * approved by the stylist, so it goes straight to waiting for payment.
+ */
+export async function acceptBookingProposal(
+  conversationId: string,
+  messageId: string,
+  customerId: string
+): Promise<ConversationResult<{ bookingId: string; message: RealtimeMessage }>> {
+  const loaded = await loadAnswerableProposal(conversationId, messageId, customerId);
+  if ("error" in loaded) {
+    return { success: false, error: loaded.error };
+  }
+  const { message } = loaded;
+  const proposal = message.payload as unknown as BookingProposalPayload;
+  const stylistId = message.senderId;
+  const startTime = new Date(proposal.scheduledStartTime);
+
+  const service = await prisma.stylistService.findUnique({
+    where: { id: proposal.serviceId },
+    include: { stylist: true },
+  });
+
+  if (!service || !service.isActive) {
+    return { success: false, error: "SERVICE_INACTIVE" };
+  }
+
+  if (!service.stylist.isAcceptingBookings) {
+    return { success: false, error: "STYLIST_NOT_ACCEPTING" };
+  }
+
+  const availability = await checkAvailability({
+    stylistId,
+    serviceId: service.id,
+    startTime,
+    durationMinutes: service.estimatedDurationMin,
+    locationType: proposal.locationType,
+    customerCoords: toCoordinates(proposal),
+  });
+
+  if (!availability.available) {
+    return {
+      success: false,
+      error: "SCHEDULING_CONFLICT",
+      details: { conflicts: availability.conflicts },
+    };
+  }
+
+  // Priced as quoted - the stylist's current price may have moved since - less
+  // the customer's reward tier discount
+  const lineItems = buildLineItems([{ serviceId: service.id }], [service]);
+  if (typeof lineItems === "string") {
+    return { success: false, error: "VALIDATION_ERROR", details: { message: lineItems } };
+  }
+  const feeDiscountPercentage = await getFeeDiscountPercentage(customerId);
+  const pricing = calculateBookingPricing(BigInt(proposal.quoteAmountCents), undefined, feeDiscountPercentage);
+  const depositSplit = calculateDepositSplit(pricing.quoteAmountCents, service.depositPercentage);
+  validateTransition(BookingStatus.PENDING_STYLIST_APPROVAL, BookingStatus.PENDING_CUSTOMER_PAYMENT);
+
+  let updated: MessageRecord;
+  let bookingId: string;
+  try {
+    ({ updated, bookingId } = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.message.updateMany({
+        where: { id: message.id, proposalStatus: "PENDING" },
+        data: { proposalStatus: "ACCEPTED" },
+      });
+      if (claimed.count === 0) {
+        throw new ProposalClaimError("PROPOSAL_NOT_PENDING");
+      }
+
+      const booking = await tx.booking.create({
+        data: {
+          customerId,
+          stylistId,
+          serviceId: service.id,
+          serviceType: service.name,
+          serviceCategory: service.category,
+          estimatedDurationMin: service.estimatedDurationMin,
+          scheduledStartTime: startTime,
+          scheduledEndTime: new Date(startTime.getTime() + service.estimatedDurationMin * 60 * 1000),
+          locationType: proposal.locationType,
+          locationAddress: proposal.locationAddress,
+          locationLat: proposal.locationLat,
+          locationLng: proposal.locationLng,
+          quoteAmountCents: pricing.quoteAmountCents,
+          platformFeeCents: pricing.platformFeeCents,
+          stylistPayoutCents: pricing.stylistPayoutCents,
+          propertyPayoutCents: pricing.propertyPayoutCents,
+          feeDiscountPercentage,
+          feeDiscountCents: pricing.feeDiscountCents,
+          status: BookingStatus.PENDING_CUSTOMER_PAYMENT,
+          cancellationPolicy: toCancellationPolicySnapshot(resolveCancellationPolicy(service, service.stylist)),
+          ...(depositSplit && {
+            depositAmountCents: depositSplit.depositAmountCents,
+            balanceAmountCents: depositSplit.balanceAmountCents,
+            balanceDueOn: service.balanceDueOn,
+          }),
+          lineItems: {
+            create: lineItems.map((item) => ({ ...item, priceAmountCents: pricing.quoteAmountCents })),
+          },
+        },
+      });
+
+      await tx.bookingStatusHistory.createMany({
+        data: [
+          {
+            bookingId: booking.id,
+            fromStatus: null,
+            toStatus: BookingStatus.PENDING_STYLIST_APPROVAL,
+            changedBy: customerId,
+            reason: "Accepted booking proposal in conversation",
+          },
+          {
+            bookingId: booking.id,
+            fromStatus: BookingStatus.PENDING_STYLIST_APPROVAL,
+            toStatus: BookingStatus.PENDING_CUSTOMER_PAYMENT,
+            changedBy: stylistId,
+            reason: "Proposed by stylist",
+          },
+        ],
+      });
+
+      const updated = await tx.message.update({
+        where: { id: message.id },
+        data: { proposalBookingId: booking.id },
+      });
+
+      return { updated, bookingId: booking.id };
+    }));
+  } catch (error) {
+    if (error instanceof ProposalClaimError) {
+      return { success: false, error: error.code };
+    }
+    throw error;
+  }
+
+  logger.info("[Conversations] Booking proposal accepted", { messageId, bookingId });
+
+  const customer = await prisma.user.findUnique({
+    where: { id: customerId },
+    select: { displayName: true },
+  });
+
+  notifyBookingEvent(stylistId, "BOOKING_CREATED", {
+    bookingId,
+    customerName: customer?.displayName,
+    serviceName: service.name,
+    scheduledTime: startTime.toISOString(),
+  }).catch((err) => logger.error("Failed to send proposal booking notification", { error: err }));
+
+  return { success: true, data: { bookingId, message: toRealtimeMessage(updated) } };
+}
+
+/**
+ * Customer turns a booking proposal down
+ */
+export async function declineBookingProposal(
+  conversationId: string,
+  messageId: string,
+  customerId: string
+): Promise<ConversationResult<{ message: RealtimeMessage }>> {
+  const loaded = await loadAnswerableProposal(conversationId, messageId, customerId);
+  if ("error" in loaded) {
+    return { success: false, error: loaded.error };
+  }
+
+  const declined = await prisma.message.updateMany({
+    where: { id: messageId, proposalStatus: "PENDING" },
+    data: { proposalStatus: "DECLINED" },
+  });
+
+  if (declined.count === 0) {
+    return { success: false, error: "PROPOSAL_NOT_PENDING" };
+  }
+
+  logger.info("[Conversations] Booking proposal declined", { messageId });
+
+  return {
+    success: true,
+    data: { message: toRealtimeMessage({ ...loaded.message, proposalStatus: "DECLINED" }) },
+  };
+}
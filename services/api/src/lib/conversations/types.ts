@@ -0,0 +1,179 @@
+/**
+ * Conversation Types
+ * Typed message payloads, attachment moderation, and the events pushed to
+ * participants over GET /api/v1/conversations/stream
+ *
+ * Each user holds one stream for all their conversations. Events are fanned
+ * out through Redis so any API instance can deliver them; without Redis they
+ * only reach streams on the instance that published them.
+ */
+
+/**
+ * Heartbeat interval for open streams - also refreshes presence
+ */
+export const STREAM_HEARTBEAT_MS = 25_000;
+
+/**
+ * Presence outlives a missed heartbeat or two, then the user counts as offline
+ */
+export const PRESENCE_TTL_SECONDS = 60;
+
+/**
+ * Typing indicators clients should drop if no update arrives
+ */
+export const TYPING_TIMEOUT_MS = 6_000;
+
+/**
+ * How long a customer has to answer a booking proposal - never past its start
+ */
+export const PROPOSAL_EXPIRY_HOURS = 48;
+
+/**
+ * Most slots one availability card can offer
+ */
+export const MAX_AVAILABILITY_SLOTS = 6;
+
+export type MessageType =
+  | "TEXT"
+  | "IMAGE"
+  | "VOICE_NOTE"
+  | "SERVICE_CARD"
+  | "AVAILABILITY_CARD"
+  | "BOOKING_LINK"
+  | "BOOKING_PROPOSAL";
+
+export type ProposalStatus = "PENDING" | "ACCEPTED" | "DECLINED" | "EXPIRED";
+
+export interface ImagePayload {
+  url: string;
+  publicId: string;
+  width?: number;
+  height?: number;
+}
+
+export interface VoiceNotePayload {
+  url: string;
+  publicId: string;
+  durationSeconds?: number;
+}
+
+/**
+ * Snapshot of a service at the time it was shared - prices are cents as strings
+ */
+export interface ServiceCardPayload {
+  serviceId: string;
+  stylistId: string; // User ID
+  name: string;
+  category: string;
+  priceAmountCents: string;
+  estimatedDurationMin: number;
+}
+
+export interface AvailabilitySlot {
+  startTime: string;
+  endTime: string;
+}
+
+export interface AvailabilityCardPayload {
+  serviceId?: string;
+  serviceName?: string;
+  slots: AvailabilitySlot[];
+}
+
+export interface BookingLinkPayload {
+  bookingId: string;
+  serviceType: string;
+  scheduledStartTime: string;
+  status: string;
+}
+
+/**
+ * A stylist's offer to book the customer in - becomes a booking on accept
+ */
+export interface BookingProposalPayload {
+  serviceId: string;
+  serviceName: string;
+  scheduledStartTime: string;
+  estimatedDurationMin: number;
+  locationType: "STYLIST_BASE" | "CUSTOMER_HOME";
+  locationAddress: string;
+  locationLat?: number;
+  locationLng?: number;
+  quoteAmountCents: string;
+}
+
+export type MessagePayload =
+  | ImagePayload
+  | VoiceNotePayload
+  | ServiceCardPayload
+  | AvailabilityCardPayload
+  | BookingLinkPayload
+  | BookingProposalPayload;
+
+/**
+ * REJECTED attachments are deleted and never sent. FLAGGED ones are sent and
+ * stored with their reason for admin review.
+ */
+export type ModerationVerdict = "APPROVED" | "FLAGGED" | "REJECTED";
+
+export interface AttachmentModerationInput {
+  kind: "IMAGE" | "VOICE_NOTE";
+  conversationId: string;
+  senderId: string;
+  url: string;
+  publicId: string;
+  /** Status from the upload provider's moderation add-on, if one ran */
+  providerStatus?: "approved" | "rejected" | "pending";
+}
+
+export interface ModerationResult {
+  verdict: ModerationVerdict;
+  reason?: string;
+}
+
+export type AttachmentModerator = (input: AttachmentModerationInput) => Promise<ModerationResult> | ModerationResult;
+
+/**
+ * Result of a rich message operation.
+ * `error` is an ERROR_CODES key so routes can map it directly.
+ */
+export interface ConversationResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  details?: Record<string, unknown>;
+}
+
+export interface RealtimeMessage {
+  id: string;
+  conversationId: string;
+  senderId: string;
+  content: string;
+  type: MessageType;
+  payload: MessagePayload | null;
+  proposalStatus: ProposalStatus | null;
+  proposalExpiresAt: Date | null;
+  proposalBookingId: string | null;
+  readAt: Date | null;
+  createdAt: Date;
+}
+
+/**
+ * Events sent to a participant's stream. `message` goes to both participants
+ * (so the sender's other devices update) - clients compare senderId to derive
+ * isOwn. `message_updated` replaces a message already sent, e.g. when a
+ * proposal is answered. `unread` is only ever sent to the user it counts for.
+ */
+export type ConversationEvent =
+  | { type: "message"; conversationId: string; message: RealtimeMessage }
+  | { type: "message_updated"; conversationId: string; message: RealtimeMessage }
+  | { type: "typing"; conversationId: string; userId: string; isTyping: boolean; expiresInMs: number }
+  | { type: "read"; conversationId: string; readerId: string; readAt: Date; markedCount: number }
+  | { type: "unread"; conversationId: string; conversationUnreadCount: number; totalUnreadCount: number };
+
+/**
+ * Anything an event frame can be written to - an express Response in practice
+ */
+export interface ConversationStreamClient {
+  write(chunk: string): unknown;
+}
@@ -0,0 +1,295 @@
+/**
+ * Dispute Service Tests
+ *
+ * Resolutions settle through the real escrow client with the chain mocked, so
+ * the amounts checked are the ones the Escrow contract would receive.
+ */
+
+// Mock clients - MUST be defined before jest.mock() calls reference them
+const mockPublicClient = {
+  readContract: jest.fn(),
+  waitForTransactionReceipt: jest.fn(),
+};
+
+const mockWalletClient = {
+  writeContract: jest.fn(),
+};
+
+const mockTx = {
+  booking: { updateMany: jest.fn(), findUnique: jest.fn() },
+  dispute: { create: jest.fn() },
+  bookingStatusHistory: { create: jest.fn() },
+};
+
+const mockPrisma = {
+  dispute: { findUnique: jest.fn(), findFirst: jest.fn(), update: jest.fn() },
+  disputeMessage: { findMany: jest.fn() },
+  booking: { findUnique: jest.fn(), update: jest.fn() },
+  user: { findUnique: jest.fn(), findMany: jest.fn() },
+  chairReservation: { findUnique: jest.fn() },
+  escrowFailure: { create: jest.fn() },
+  reputationScore: { updateMany: jest.fn() },
+  $transaction: jest.fn((fn: (tx: typeof mockTx) => Promise<unknown>) => fn(mockTx)),
+};
+
+jest.mock('viem', () => ({
+  createPublicClient: jest.fn(() => mockPublicClient),
+  createWalletClient: jest.fn(() => mockWalletClient),
+  http: jest.fn(),
+  fallback: jest.fn(() => 'mock-transport'),
+  keccak256: jest.fn((bytes) => `0x${Buffer.from(bytes).toString('hex').padStart(64, '0')}`),
+  toBytes: jest.fn((str) => Buffer.from(str)),
+}));
+
+jest.mock('viem/accounts', () => ({
+  privateKeyToAccount: jest.fn(() => ({ address: '0xRelayerAddress' })),
+}));
+
+jest.mock('../wallet/chain-client', () => ({
+  CHAIN: { id: 1337, name: 'hardhat' },
+  RPC_URL: 'http://localhost:8545',
+  publicClient: mockPublicClient,
+  getRelayerWalletClient: jest.fn(() => mockWalletClient),
+}));
+
+jest.mock('../escrow-rate-limiter', () => ({
+  escrowRateLimiter: {
+    canProceed: jest.fn(() => ({ canProceed: true })),
+    recordOperation: jest.fn(),
+  },
+}));
+
+jest.mock('@sentry/node', () => ({
+  captureException: jest.fn(),
+}));
+
+jest.mock('../prisma', () => ({
+  __esModule: true,
+  prisma: mockPrisma,
+  default: mockPrisma,
+}));
+
+jest.mock('../notifications', () => ({
+  notifyDisputeEvent: jest.fn(() => Promise.resolve()),
+}));
+
+jest.mock('../smoothing-buffer/buffer-client', () => ({
+  SMOOTHING_BUFFER_ADDRESS: '0xBufferAddress',
+  getRelayerAddress: jest.fn(() => Promise.resolve('0xRelayerAddress')),
+  replenishBuffer: jest.fn(() => Promise.resolve('0xReplenishTxHash')),
+  getPayoutRecord: jest.fn(() => Promise.resolve({ replenished: false })),
+  reconcileBufferPayout: jest.fn(() => Promise.resolve('0xReconcileTxHash')),
+}));
+
+import { EscrowStatus } from '../escrow-client';
+import { replenishBuffer } from '../smoothing-buffer/buffer-client';
+import { createDispute, DisputeClaimError, getDisputeForParticipant, resolveDispute } from './dispute-service';
+
+const dispute = {
+  id: 'dispute-1',
+  bookingId: 'booking-1',
+  title: 'Service not as described',
+  status: 'UNDER_REVIEW',
+  filedById: 'customer-1',
+  filedAgainstId: 'stylist-1',
+};
+
+function makeBooking(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'booking-1',
+    quoteAmountCents: 10_000n, // $100
+    platformFeeCents: 1_000n,
+    propertyPayoutCents: null,
+    depositAmountCents: null,
+    balanceAmountCents: null,
+    balanceStatus: null,
+    customerId: 'customer-1',
+    stylistId: 'stylist-1',
+    escrowId: 'booking-1',
+    ...overrides,
+  };
+}
+
+function settleArgs() {
+  const call = mockWalletClient.writeContract.mock.calls.find(([args]) => args.functionName === 'settle');
+  return call?.[0].args[1];
+}
+
+describe('Dispute Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.dispute.findUnique.mockResolvedValue(dispute);
+    mockPrisma.dispute.update.mockImplementation(({ data }) => Promise.resolve({ ...dispute, ...data }));
+    mockPrisma.user.findUnique.mockImplementation(({ where }) =>
+      Promise.resolve({ walletAddress: where.id === 'stylist-1' ? '0xStylistAddress' : '0xOwnerAddress' })
+    );
+    mockPublicClient.readContract.mockResolvedValue(['0xCustomerAddress', 100_000_000n, EscrowStatus.Locked]);
+    mockWalletClient.writeContract.mockResolvedValue('0xSettleTxHash');
+    mockPublicClient.waitForTransactionReceipt.mockResolvedValue({});
+  });
+
+  describe('createDispute', () => {
+    const file = () =>
+      createDispute({
+        bookingId: 'booking-1',
+        filedById: 'customer-1',
+        filedAgainstId: 'stylist-1',
+        type: 'POOR_QUALITY',
+        title: 'Service not as described',
+        description: 'The colour was nothing like the reference photo',
+      });
+
+    beforeEach(() => {
+      mockPrisma.booking.findUnique.mockResolvedValue({
+        id: 'booking-1',
+        status: 'AWAITING_CUSTOMER_CONFIRMATION',
+        customerId: 'customer-1',
+        stylistId: 'stylist-1',
+      });
+      mockPrisma.dispute.findFirst.mockResolvedValue(null);
+      mockTx.booking.updateMany.mockResolvedValue({ count: 1 });
+      mockTx.dispute.create.mockImplementation(({ data }) => Promise.resolve({ id: 'dispute-1', ...data }));
+    });
+
+    it('should claim the booking and open the dispute without evidence', async () => {
+      const created = await file();
+
+      expect(mockTx.booking.updateMany).toHaveBeenCalledWith({
+        where: { id: 'booking-1', status: 'AWAITING_CUSTOMER_CONFIRMATION' },
+        data: { status: 'DISPUTED' },
+      });
+      expect(created).toMatchObject({ id: 'dispute-1', status: 'OPEN', evidenceUrls: [] });
+    });
+
+    it('should not open a second dispute when another filing claimed the booking first', async () => {
+      mockTx.booking.updateMany.mockResolvedValue({ count: 0 });
+      mockTx.booking.findUnique.mockResolvedValue({ status: 'DISPUTED' });
+
+      await expect(file()).rejects.toEqual(new DisputeClaimError('DISPUTE_ALREADY_EXISTS'));
+      expect(mockTx.dispute.create).not.toHaveBeenCalled();
+    });
+
+    it('should report a booking that moved on while filing as not disputable', async () => {
+      mockTx.booking.updateMany.mockResolvedValue({ count: 0 });
+      mockTx.booking.findUnique.mockResolvedValue({ status: 'SETTLED' });
+
+      await expect(file()).rejects.toMatchObject({ code: 'BOOKING_NOT_DISPUTABLE' });
+      expect(mockTx.dispute.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getDisputeForParticipant', () => {
+    beforeEach(() => {
+      mockPrisma.booking.findUnique.mockResolvedValue(makeBooking());
+      mockPrisma.user.findUnique.mockImplementation(({ where }) =>
+        Promise.resolve({ id: where.id, displayName: where.id, email: `${where.id}@example.com` })
+      );
+      mockPrisma.user.findMany.mockResolvedValue([]);
+      mockPrisma.disputeMessage.findMany.mockResolvedValue([
+        { id: 'message-1', authorId: 'customer-1', content: 'It was wrong', isInternal: false },
+        { id: 'message-2', authorId: 'admin-1', content: 'Stylist has prior complaints', isInternal: true },
+      ]);
+    });
+
+    it('should hide internal notes and contact details from a booking party', async () => {
+      const result = await getDisputeForParticipant('dispute-1', 'stylist-1');
+
+      expect(result?.messages?.map((message) => message.id)).toEqual(['message-1']);
+      expect(result?.filedBy?.email).toBeNull();
+      expect(result?.filedAgainst?.email).toBeNull();
+    });
+
+    it('should not return the dispute to anyone else', async () => {
+      await expect(getDisputeForParticipant('dispute-1', 'someone-else')).resolves.toBeNull();
+    });
+  });
+
+  describe('resolveDispute with PARTIAL_REFUND', () => {
+    const resolve = () =>
+      resolveDispute({
+        disputeId: 'dispute-1',
+        resolvedById: 'admin-1',
+        resolution: 'PARTIAL_REFUND',
+        resolutionNotes: 'Partly delivered',
+        refundPercent: 40,
+      });
+
+    it('should pay the property owner their chair fee from what is retained', async () => {
+      mockPrisma.booking.findUnique.mockResolvedValue(makeBooking({ propertyPayoutCents: 1_500n }));
+      mockPrisma.chairReservation.findUnique.mockResolvedValue({ chair: { property: { ownerId: 'owner-1' } } });
+
+      await resolve();
+
+      // $60 retained: $6 fee, $15 chair fee, $39 to the stylist
+      expect(settleArgs()).toEqual(
+        expect.objectContaining({
+          customerRefund: 40_000_000n,
+          stylist: '0xStylistAddress',
+          stylistAmount: 39_000_000n,
+          propertyOwner: '0xOwnerAddress',
+          propertyAmount: 15_000_000n,
+          treasuryFee: 6_000_000n,
+        })
+      );
+      expect(mockPrisma.escrowFailure.create).not.toHaveBeenCalled();
+    });
+
+    it('should leave a booking without a chair to the stylist and treasury', async () => {
+      mockPrisma.booking.findUnique.mockResolvedValue(makeBooking());
+
+      await resolve();
+
+      expect(mockPrisma.chairReservation.findUnique).not.toHaveBeenCalled();
+      expect(settleArgs()).toEqual(
+        expect.objectContaining({ stylistAmount: 54_000_000n, propertyAmount: 0n, treasuryFee: 6_000_000n })
+      );
+    });
+
+    it('should settle an instantly-paid booking to the relayer and record the shortfall', async () => {
+      mockPrisma.booking.findUnique
+        .mockResolvedValueOnce(
+          makeBooking({ instantPayoutStatus: 'PAID', instantPayoutCents: 9_000n, instantPayoutTxHash: '0xPayoutTxHash' })
+        )
+        .mockResolvedValueOnce({ instantPayoutCents: 9_000n })
+        .mockResolvedValueOnce({
+          id: 'booking-1',
+          instantPayoutStatus: 'RELEASED',
+          instantPayoutCents: 9_000n,
+          instantPayoutShortfallCents: 3_600n,
+          instantPayoutReplenishTxHash: null,
+        });
+
+      await resolve();
+
+      // The stylist already has their $90 - the relayer takes the $54 share
+      expect(settleArgs()).toEqual(
+        expect.objectContaining({ stylist: '0xRelayerAddress', stylistAmount: 54_000_000n })
+      );
+      expect(mockPrisma.booking.update).toHaveBeenCalledWith({
+        where: { id: 'booking-1' },
+        data: { instantPayoutStatus: 'RELEASED', instantPayoutShortfallCents: 3_600n },
+      });
+      // Only what escrow released goes back to the buffer
+      expect(replenishBuffer).toHaveBeenCalledWith(54_000_000n);
+      expect(mockPrisma.booking.update).toHaveBeenCalledWith({
+        where: { id: 'booking-1' },
+        data: expect.objectContaining({ instantPayoutStatus: 'RECONCILED' }),
+      });
+    });
+
+    it('should leave an instant payout alone when settlement fails', async () => {
+      mockPrisma.booking.findUnique.mockResolvedValue(
+        makeBooking({ instantPayoutStatus: 'PAID', instantPayoutCents: 9_000n, instantPayoutTxHash: '0xPayoutTxHash' })
+      );
+      mockWalletClient.writeContract.mockRejectedValue(new Error('execution reverted'));
+
+      await resolve();
+
+      expect(mockPrisma.escrowFailure.create).toHaveBeenCalled();
+      expect(mockPrisma.booking.update).not.toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ instantPayoutStatus: 'RELEASED' }) })
+      );
+      expect(replenishBuffer).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -4,8 +4,15 @@
  * Reference: docs/vlossom/22-admin-control-panel.md
  */
 
+import { BookingStatus } from "@prisma/client";
 import { prisma } from "../prisma";
 import { logger } from "../logger";
+import { validateTransition } from "../booking-state-machine";
+import { notifyDisputeEvent } from "../notifications";
+import { getLockedEscrowLegs } from "../booking-deposit";
+import { allocateRetainedPayout, getPropertyPayeeAddress, settleEscrowLeg } from "../chair-reservations";
+import { completeInstantPayoutRelease, getStylistShareCents, resolveStylistPayee } from "../smoothing-buffer";
+import type { Address } from "viem";
 import {
   CreateDisputeInput,
   AssignDisputeInput,
@@ -17,11 +24,21 @@ import {
   DisputeWithDetails,
 } from "./types";
 
+/**
+ * Raised inside the filing transaction when another request moved the
+ * booking first - usually a second dispute filed at the same time
+ */
+export class DisputeClaimError extends Error {
+  constructor(readonly code: "DISPUTE_ALREADY_EXISTS" | "BOOKING_NOT_DISPUTABLE") {
+    super(code);
+  }
+}
+
 /**
  * Create a new dispute for a booking
  */
 export async function createDispute(input: CreateDisputeInput): Promise<DisputeWithDetails> {
-  const { bookingId, filedById, filedAgainstId, type, title, description, evidenceUrls } = input;
+  const { bookingId, filedById, filedAgainstId, type, title, description } = input;
 
   try {
     // Verify booking exists and is in a disputable state
@@ -46,28 +63,51 @@ export async function createDispute(input: CreateDisputeInput): Promise<DisputeW
       throw new Error("An active dispute already exists for this booking");
     }
 
+    // Only COMPLETED / AWAITING_CUSTOMER_CONFIRMATION bookings can be disputed
+    validateTransition(booking.status, BookingStatus.DISPUTED);
+
     // Calculate priority based on type
     const priority = calculateDisputePriority(type);
 
-    // Create dispute
-    const dispute = await prisma.dispute.create({
-      data: {
-        bookingId,
-        filedById,
-        filedAgainstId,
-        type,
-        title,
-        description,
-        evidenceUrls: evidenceUrls || [],
-        priority,
-        status: "OPEN",
-      },
-    });
+    // Create dispute and move booking to DISPUTED atomically
+    const dispute = await prisma.$transaction(async (tx) => {
+      // First to file wins - the checks above may be stale by now
+      const claimed = await tx.booking.updateMany({
+        where: { id: bookingId, status: booking.status },
+        data: { status: BookingStatus.DISPUTED },
+      });
+      if (claimed.count === 0) {
+        const current = await tx.booking.findUnique({ where: { id: bookingId }, select: { status: true } });
+        throw new DisputeClaimError(
+          current?.status === BookingStatus.DISPUTED ? "DISPUTE_ALREADY_EXISTS" : "BOOKING_NOT_DISPUTABLE"
+        );
+      }
+
+      const created = await tx.dispute.create({
+        data: {
+          bookingId,
+          filedById,
+          filedAgainstId,
+          type,
+          title,
+          description,
+          evidenceUrls: [],
+          priority,
+          status: "OPEN",
+        },
+      });
 
-    // Update booking status to DISPUTED
-    await prisma.booking.update({
-      where: { id: bookingId },
-      data: { status: "DISPUTED" },
+      await tx.bookingStatusHistory.create({
+        data: {
+          bookingId,
+          fromStatus: booking.status,
+          toStatus: BookingStatus.DISPUTED,
+          changedBy: filedById,
+          reason: `Dispute filed: ${title}`,
+        },
+      });
+
+      return created;
     });
 
     logger.info("[Dispute] Created", {
@@ -77,6 +117,12 @@ export async function createDispute(input: CreateDisputeInput): Promise<DisputeW
       filedById,
     });
 
+    notifyDisputeEvent(filedAgainstId, "DISPUTE_OPENED", {
+      disputeId: dispute.id,
+      disputeTitle: title,
+      bookingId,
+    }).catch((err) => logger.error("[Dispute] Failed to send opened notification", { error: err }));
+
     return dispute as unknown as DisputeWithDetails;
   } catch (error) {
     logger.error("[Dispute] Failed to create", {
@@ -108,6 +154,8 @@ export async function assignDispute(input: AssignDisputeInput): Promise<DisputeW
       assignedToId,
     });
 
+    notifyStatusChange(dispute);
+
     return dispute as unknown as DisputeWithDetails;
   } catch (error) {
     logger.error("[Dispute] Failed to assign", {
@@ -132,6 +180,8 @@ export async function startReview(disputeId: string): Promise<DisputeWithDetails
 
     logger.info("[Dispute] Started review", { disputeId });
 
+    notifyStatusChange(dispute);
+
     return dispute as unknown as DisputeWithDetails;
   } catch (error) {
     logger.error("[Dispute] Failed to start review", {
@@ -180,6 +230,8 @@ export async function resolveDispute(input: ResolveDisputeInput): Promise<Disput
       resolvedById,
     });
 
+    notifyStatusChange(updatedDispute);
+
     return updatedDispute as unknown as DisputeWithDetails;
   } catch (error) {
     logger.error("[Dispute] Failed to resolve", {
@@ -214,6 +266,8 @@ export async function escalateDispute(input: EscalateDisputeInput): Promise<Disp
       reason: escalationReason,
     });
 
+    notifyStatusChange(dispute);
+
     return dispute as unknown as DisputeWithDetails;
   } catch (error) {
     logger.error("[Dispute] Failed to escalate", {
@@ -238,6 +292,8 @@ export async function closeDispute(disputeId: string): Promise<DisputeWithDetail
 
     logger.info("[Dispute] Closed", { disputeId });
 
+    notifyStatusChange(dispute);
+
     return dispute as unknown as DisputeWithDetails;
   } catch (error) {
     logger.error("[Dispute] Failed to close", {
@@ -255,6 +311,15 @@ export async function addDisputeMessage(input: AddDisputeMessageInput): Promise<
   const { disputeId, authorId, content, isInternal, attachmentUrls } = input;
 
   try {
+    const dispute = await prisma.dispute.findUnique({
+      where: { id: disputeId },
+      select: { id: true, bookingId: true, title: true, filedById: true, filedAgainstId: true, assignedToId: true },
+    });
+
+    if (!dispute) {
+      throw new Error("Dispute not found");
+    }
+
     await prisma.disputeMessage.create({
       data: {
         disputeId,
@@ -270,6 +335,27 @@ export async function addDisputeMessage(input: AddDisputeMessageInput): Promise<
       authorId,
       isInternal,
     });
+
+    // Internal admin notes are never surfaced to the booking parties
+    if (!isInternal) {
+      const author = await prisma.user.findUnique({
+        where: { id: authorId },
+        select: { displayName: true },
+      });
+
+      const recipients = [dispute.filedById, dispute.filedAgainstId, dispute.assignedToId].filter(
+        (id): id is string => !!id && id !== authorId
+      );
+
+      for (const userId of new Set(recipients)) {
+        notifyDisputeEvent(userId, "DISPUTE_MESSAGE_RECEIVED", {
+          disputeId,
+          disputeTitle: dispute.title,
+          bookingId: dispute.bookingId,
+          senderName: author?.displayName,
+        }).catch((err) => logger.error("[Dispute] Failed to send message notification", { error: err }));
+      }
+    }
   } catch (error) {
     logger.error("[Dispute] Failed to add message", {
       error: error instanceof Error ? error.message : "Unknown error",
@@ -476,6 +562,119 @@ export async function getDisputeStats(): Promise<DisputeStats> {
   };
 }
 
+/**
+ * List disputes the user filed or was named in
+ */
+export async function listUserDisputes(
+  userId: string,
+  page = 1,
+  pageSize = 20
+): Promise<{ disputes: DisputeWithDetails[]; total: number }> {
+  const where = {
+    OR: [{ filedById: userId }, { filedAgainstId: userId }],
+  };
+
+  const [disputes, total] = await Promise.all([
+    prisma.dispute.findMany({
+      where,
+      orderBy: { createdAt: "desc" },
+      skip: (page - 1) * pageSize,
+      take: pageSize,
+    }),
+    prisma.dispute.count({ where }),
+  ]);
+
+  return {
+    disputes: disputes.map((d) => ({
+      ...d,
+      evidenceUrls: d.evidenceUrls as string[],
+    })) as DisputeWithDetails[],
+    total,
+  };
+}
+
+/**
+ * Get a dispute as seen by one of the booking parties.
+ * Returns null if the user is not a party. Internal admin notes and
+ * admin assignment details are stripped.
+ */
+export async function getDisputeForParticipant(
+  disputeId: string,
+  userId: string
+): Promise<DisputeWithDetails | null> {
+  const dispute = await getDisputeById(disputeId);
+
+  if (!dispute || !isDisputeParticipant(dispute, userId)) {
+    return null;
+  }
+
+  return {
+    ...dispute,
+    assignedTo: undefined,
+    filedBy: dispute.filedBy ? { ...dispute.filedBy, email: null } : undefined,
+    filedAgainst: dispute.filedAgainst ? { ...dispute.filedAgainst, email: null } : undefined,
+    messages: dispute.messages?.filter((m) => !m.isInternal),
+  };
+}
+
+/**
+ * Append uploaded evidence to a dispute
+ */
+export async function addDisputeEvidence(disputeId: string, evidenceUrl: string): Promise<string[]> {
+  const dispute = await prisma.dispute.findUnique({
+    where: { id: disputeId },
+    select: { evidenceUrls: true },
+  });
+
+  if (!dispute) {
+    throw new Error("Dispute not found");
+  }
+
+  const evidenceUrls = [...(dispute.evidenceUrls as string[]), evidenceUrl];
+
+  await prisma.dispute.update({
+    where: { id: disputeId },
+    data: { evidenceUrls },
+  });
+
+  logger.info("[Dispute] Evidence added", { disputeId, count: evidenceUrls.length });
+
+  return evidenceUrls;
+}
+
+/**
+ * Check whether a user is one of the booking parties on a dispute
+ */
+export function isDisputeParticipant(
+  dispute: { filedById: string; filedAgainstId: string },
+  userId: string
+): boolean {
+  return dispute.filedById === userId || dispute.filedAgainstId === userId;
+}
+
+/**
+ * Notify both booking parties that a dispute changed status
+ */
+function notifyStatusChange(dispute: {
+  id: string;
+  bookingId: string;
+  title: string;
+  status: string;
+  resolution?: string | null;
+  filedById: string;
+  filedAgainstId: string;
+}): void {
+  for (const userId of [dispute.filedById, dispute.filedAgainstId]) {
+    notifyDisputeEvent(userId, "DISPUTE_STATUS_CHANGED", {
+      disputeId: dispute.id,
+      disputeTitle: dispute.title,
+      disputeStatus: dispute.status,
+      disputeResolution: dispute.resolution || undefined,
+      bookingId: dispute.bookingId,
+    }).catch((err) => logger.error("[Dispute] Failed to send status notification", { error: err }));
+  }
+}
+
 /**
  * Calculate dispute priority based on type
  */
@@ -510,9 +709,17 @@ async function handleResolutionEffects(
     select: {
       id: true,
       quoteAmountCents: true,
+      platformFeeCents: true,
+      propertyPayoutCents: true,
+      depositAmountCents: true,
+      balanceAmountCents: true,
+      balanceStatus: true,
       customerId: true,
       stylistId: true,
       escrowId: true,
+      instantPayoutStatus: true,
+      instantPayoutCents: true,
+      instantPayoutTxHash: true,
     },
   });
 
@@ -531,15 +738,91 @@ async function handleResolutionEffects(
       break;
 
     case "PARTIAL_REFUND": {
-      // Calculate and process partial refund
-      const refundAmount = Math.floor(
-        Number(booking.quoteAmountCents) * ((refundPercent || 0) / 100)
-      );
+      // Split escrow: refund percentage to customer, remainder to stylist and treasury
+      const refundAmount =
+        (booking.quoteAmountCents * BigInt(refundPercent || 0)) / BigInt(100);
       logger.info("[Dispute] Partial refund initiated", {
         bookingId: booking.id,
         refundPercent,
-        refundAmount,
+        refundAmount: refundAmount.toString(),
       });
+
+      const stylistWallet = await prisma.user.findUnique({
+        where: { id: booking.stylistId },
+        select: { walletAddress: true },
+      });
+
+      // Deposit bookings split each locked leg (deposit, paid balance) by the
+      // same percentage; the treasury and property owner (salon chair
+      // bookings) keep their stored shares of what is retained
+      const propertyOwnerAddress =
+        (booking.propertyPayoutCents ?? 0n) > 0n ? await getPropertyPayeeAddress(booking.id) : null;
+      const legs = allocateRetainedPayout(
+        getLockedEscrowLegs(booking).map((leg) => ({
+          ...leg,
+          refundCents: (leg.amountCents * BigInt(refundPercent || 0)) / BigInt(100),
+        })),
+        booking
+      );
+
+      // Stylists already paid from the smoothing buffer have their share
+      // settled to the relayer, which repays the buffer
+      const stylistPayee = stylistWallet?.walletAddress
+        ? await resolveStylistPayee(booking, stylistWallet.walletAddress as Address)
+        : null;
+      let settledLegs = 0;
+
+      for (const leg of legs) {
+        const result = stylistPayee
+          ? await settleEscrowLeg({
+              escrowKey: leg.escrowKey,
+              refundCents: leg.refundCents,
+              platformFeeCents: leg.platformFeeCents,
+              propertyAmountCents: leg.propertyAmountCents,
+              stylistAddress: stylistPayee.address,
+              propertyOwnerAddress,
+            })
+          : { success: false, error: "Stylist wallet not configured", txHash: undefined };
+
+        if (!result.success) {
+          // M-1: Record escrow failure for manual review
+          await prisma.escrowFailure.create({
+            data: {
+              bookingId: booking.id,
+              operation: "SETTLE",
+              errorMessage: result.error || "Unknown error",
+              txHash: result.txHash,
+              amount: leg.amountCents,
+              metadata: {
+                leg: leg.leg,
+                disputeResolution: resolution,
+                refundPercent,
+                refundAmount: leg.refundCents.toString(),
+                platformFeeCents: leg.platformFeeCents.toString(),
+                propertyOwnerAddress,
+                propertyAmount: leg.propertyAmountCents.toString(),
+              },
+            },
+          });
+        } else {
+          settledLegs++;
+        }
+      }
+
+      if (stylistPayee?.instantPaid && settledLegs === legs.length) {
+        // The refund cut the stylist's share below what the buffer paid out;
+        // the difference is recorded as the payout's shortfall
+        const releasedCents = getStylistShareCents(
+          legs.map((leg) => ({ ...leg, amountCents: leg.amountCents - leg.refundCents }))
+        );
+        const reconciled = await completeInstantPayoutRelease(booking.id, releasedCents);
+        if (!reconciled.success) {
+          logger.error("[Dispute] Instant payout left for the scheduler to reconcile", {
+            bookingId: booking.id,
+            error: reconciled.error,
+          });
+        }
+      }
       break;
     }
 
@@ -16,4 +16,9 @@ export {
   getDisputeById,
   listDisputes,
   getDisputeStats,
+  listUserDisputes,
+  getDisputeForParticipant,
+  addDisputeEvidence,
+  isDisputeParticipant,
+  DisputeClaimError,
 } from "./dispute-service";
@@ -39,7 +39,6 @@ export interface CreateDisputeInput {
   type: DisputeType;
   title: string;
   description: string;
-  evidenceUrls?: string[];
 }
 
 export interface AssignDisputeInput {
@@ -2,7 +2,7 @@
  * Escrow Client Tests
  *
  * Tests for blockchain escrow operations including:
- * - Fund locking, releasing, and refunding
+ * - Fund locking, releasing, refunding, and multi-party settlement
  * - Rate limiting integration
  * - Sentry error telemetry
  * - Hash conversion for booking IDs
@@ -58,6 +58,8 @@ import {
   lockFundsInEscrow,
   releaseFundsFromEscrow,
   refundFromEscrow,
+  settleEscrow,
+  calculateSettlementSplit,
   getEscrowBalance,
   getEscrowRecord,
   EscrowStatus,
@@ -404,6 +406,197 @@ describe('Escrow Client', () => {
     });
   });
 
+  describe('calculateSettlementSplit()', () => {
+    it('should refund customer and split retained amount', () => {
+      const split = calculateSettlementSplit({
+        totalAmount: 1_000_000_000n,
+        customerRefundAmount: 500_000_000n, // 50% band
+        platformFeePercentage: 10,
+      });
+
+      expect(split).toEqual({
+        customerRefund: 500_000_000n,
+        stylistAmount: 450_000_000n,
+        propertyAmount: 0n,
+        treasuryFee: 50_000_000n,
+      });
+    });
+
+    it('should include property payout from the retained amount', () => {
+      const split = calculateSettlementSplit({
+        totalAmount: 1_000_000_000n,
+        customerRefundAmount: 0n,
+        platformFeePercentage: 10,
+        propertyAmount: 150_000_000n,
+      });
+
+      expect(split.stylistAmount).toBe(750_000_000n);
+      expect(split.propertyAmount).toBe(150_000_000n);
+      expect(split.treasuryFee).toBe(100_000_000n);
+    });
+
+    it('should always add up to the total amount', () => {
+      const totalAmount = 1_000_000_001n;
+      const split = calculateSettlementSplit({
+        totalAmount,
+        customerRefundAmount: 333_333_333n,
+        platformFeePercentage: 10,
+        propertyAmount: 12_345n,
+      });
+
+      expect(
+        split.customerRefund + split.stylistAmount + split.propertyAmount + split.treasuryFee
+      ).toBe(totalAmount);
+    });
+
+    it('should handle full refund with nothing retained', () => {
+      const split = calculateSettlementSplit({
+        totalAmount: 500_000_000n,
+        customerRefundAmount: 500_000_000n,
+        platformFeePercentage: 10,
+      });
+
+      expect(split.stylistAmount).toBe(0n);
+      expect(split.treasuryFee).toBe(0n);
+    });
+
+    it('should reject refund larger than the locked amount', () => {
+      expect(() =>
+        calculateSettlementSplit({
+          totalAmount: 100n,
+          customerRefundAmount: 101n,
+          platformFeePercentage: 10,
+        })
+      ).toThrow('Invalid refund');
+    });
+
+    it('should reject property payout larger than retained amount', () => {
+      expect(() =>
+        calculateSettlementSplit({
+          totalAmount: 100n,
+          customerRefundAmount: 50n,
+          platformFeePercentage: 10,
+          propertyAmount: 46n,
+        })
+      ).toThrow('Invalid property payout');
+    });
+  });
+
+  describe('settleEscrow()', () => {
+    const settleParams = {
+      bookingId: 'booking-settle-123',
+      customerRefundAmount: 500_000_000n,
+      stylistAddress: '0xStylistAddress' as `0x${string}`,
+      platformFeePercentage: 10,
+      treasuryAddress: '0xTreasuryAddress' as `0x${string}`,
+    };
+
+    it('should settle split across customer, stylist and treasury', async () => {
+      mockPublicClient.readContract.mockResolvedValue([
+        '0xCustomerAddress',
+        1_000_000_000n,
+        EscrowStatus.Locked,
+      ]);
+      mockWalletClient.writeContract.mockResolvedValue('0xSettleTxHash');
+      mockPublicClient.waitForTransactionReceipt.mockResolvedValue({});
+
+      const result = await settleEscrow(settleParams);
+
+      expect(result.success).toBe(true);
+      expect(result.txHash).toBe('0xSettleTxHash');
+      expect(mockWalletClient.writeContract).toHaveBeenCalledWith(
+        expect.objectContaining({
+          functionName: 'settle',
+          args: [
+            expect.any(String), // bookingIdBytes
+            {
+              customerRefund: 500_000_000n,
+              stylist: '0xStylistAddress',
+              stylistAmount: 450_000_000n,
+              propertyOwner: '0x0000000000000000000000000000000000000000',
+              propertyAmount: 0n,
+              treasury: '0xTreasuryAddress',
+              treasuryFee: 50_000_000n,
+            },
+          ],
+        })
+      );
+      expect(escrowRateLimiter.recordOperation).toHaveBeenCalledWith(
+        'booking-settle-123',
+        1_000_000_000n,
+        'settle'
+      );
+    });
+
+    it('should require property owner address for property payout', async () => {
+      mockPublicClient.readContract.mockResolvedValue([
+        '0xCustomerAddress',
+        1_000_000_000n,
+        EscrowStatus.Locked,
+      ]);
+
+      const result = await settleEscrow({ ...settleParams, propertyAmount: 100_000_000n });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Property owner address required');
+      expect(mockWalletClient.writeContract).not.toHaveBeenCalled();
+    });
+
+    it('should fail if escrow is not in Locked status', async () => {
+      mockPublicClient.readContract.mockResolvedValue([
+        '0xCustomerAddress',
+        1_000_000_000n,
+        EscrowStatus.Settled,
+      ]);
+
+      const result = await settleEscrow(settleParams);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('not in Locked status');
+    });
+
+    it('should check rate limit before proceeding', async () => {
+      mockPublicClient.readContract.mockResolvedValue([
+        '0xCustomerAddress',
+        1_000_000_000n,
+        EscrowStatus.Locked,
+      ]);
+      (escrowRateLimiter.canProceed as jest.Mock).mockReturnValue({
+        canProceed: false,
+        reason: 'Rate limit exceeded',
+      });
+
+      const result = await settleEscrow(settleParams);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Rate limit exceeded');
+      expect(mockWalletClient.writeContract).not.toHaveBeenCalled();
+    });
+
+    it('should report to Sentry on settle failure', async () => {
+      mockPublicClient.readContract.mockResolvedValue([
+        '0xCustomerAddress',
+        1_000_000_000n,
+        EscrowStatus.Locked,
+      ]);
+      mockWalletClient.writeContract.mockRejectedValue(new Error('Settle reverted'));
+
+      const result = await settleEscrow(settleParams);
+
+      expect(result.success).toBe(false);
+      expect(Sentry.captureException).toHaveBeenCalledWith(
+        expect.any(Error),
+        expect.objectContaining({
+          tags: {
+            service: 'escrow',
+            operation: 'settle',
+            critical: 'true',
+          },
+        })
+      );
+    });
+  });
+
   describe('getEscrowBalance()', () => {
     it('should return correct balance', async () => {
       mockPublicClient.readContract.mockResolvedValue(250_000_000n);
@@ -489,6 +682,7 @@ describe('Escrow Client', () => {
       expect(EscrowStatus.Locked).toBe(1);
       expect(EscrowStatus.Released).toBe(2);
       expect(EscrowStatus.Refunded).toBe(3);
+      expect(EscrowStatus.Settled).toBe(4);
     });
   });
 
@@ -5,6 +5,7 @@
  * - Fund locking when customer pays for booking
  * - Fund release when service is completed
  * - Refunds when bookings are cancelled
+ * - Multi-party settlement for partial refunds and property payouts
  *
  * All operations are triggered by the relayer wallet (backend service account).
  *
@@ -14,9 +15,10 @@
  * L-4: Includes blockchain error telemetry via Sentry integration
  */
 
-import { createPublicClient, createWalletClient, http, keccak256, toBytes, type Address, type Hash, type Account, type Chain, type Transport } from 'viem';
+import { createPublicClient, createWalletClient, encodeFunctionData, http, keccak256, toBytes, type Address, type Hash, type Hex, type Account, type Chain, type Transport } from 'viem';
 import { privateKeyToAccount } from 'viem/accounts';
 import { CHAIN, RPC_URL } from './wallet/chain-client';
+import { ERC20_ABI } from './wallet/contracts';
 import { escrowRateLimiter } from './escrow-rate-limiter';
 import { getRelayerPrivateKey } from './secrets-manager';
 import { logger } from './logger';
@@ -72,6 +74,28 @@ const ESCROW_ABI = [
     outputs: [],
     stateMutability: 'nonpayable'
   },
+  {
+    type: 'function',
+    name: 'settle',
+    inputs: [
+      { name: 'bookingId', type: 'bytes32' },
+      {
+        name: 'settlement',
+        type: 'tuple',
+        components: [
+          { name: 'customerRefund', type: 'uint256' },
+          { name: 'stylist', type: 'address' },
+          { name: 'stylistAmount', type: 'uint256' },
+          { name: 'propertyOwner', type: 'address' },
+          { name: 'propertyAmount', type: 'uint256' },
+          { name: 'treasury', type: 'address' },
+          { name: 'treasuryFee', type: 'uint256' }
+        ]
+      }
+    ],
+    outputs: [],
+    stateMutability: 'nonpayable'
+  },
   {
     type: 'function',
     name: 'getEscrowBalance',
@@ -122,6 +146,19 @@ const ESCROW_ABI = [
       { name: 'recipient', type: 'address', indexed: true },
       { name: 'amount', type: 'uint256', indexed: false }
     ]
+  },
+  {
+    type: 'event',
+    name: 'FundsSettled',
+    inputs: [
+      { name: 'bookingId', type: 'bytes32', indexed: true },
+      { name: 'customer', type: 'address', indexed: true },
+      { name: 'stylist', type: 'address', indexed: true },
+      { name: 'customerRefund', type: 'uint256', indexed: false },
+      { name: 'stylistAmount', type: 'uint256', indexed: false },
+      { name: 'propertyAmount', type: 'uint256', indexed: false },
+      { name: 'treasuryFee', type: 'uint256', indexed: false }
+    ]
   }
 ] as const;
 
@@ -195,7 +232,8 @@ export enum EscrowStatus {
   None = 0,
   Locked = 1,
   Released = 2,
-  Refunded = 3
+  Refunded = 3,
+  Settled = 4
 }
 
 /**
@@ -207,6 +245,16 @@ export interface EscrowRecord {
   status: EscrowStatus;
 }
 
+/**
+ * Split of a locked amount across settlement parties (all in escrow units)
+ */
+export interface SettlementSplit {
+  customerRefund: bigint;
+  stylistAmount: bigint;
+  propertyAmount: bigint;
+  treasuryFee: bigint;
+}
+
 /**
  * Result of escrow operations
  */
@@ -278,11 +326,45 @@ export async function lockFundsInEscrow(params: {
   }
 }
 
+/**
+ * Build the calls a smart wallet executes to lock funds in escrow
+ *
+ * Returns USDC approve + lockFunds, to be sent as one batched UserOperation
+ * from the paying wallet (the escrow records msg.sender as the customer).
+ *
+ * @param params - Escrow key and amount in escrow units
+ * @returns Calls in execution order
+ */
+export function encodeLockFundsCalls(params: {
+  bookingId: string;
+  amount: bigint;
+}): { target: Address; data: Hex }[] {
+  return [
+    {
+      target: USDC_ADDRESS,
+      data: encodeFunctionData({
+        abi: ERC20_ABI,
+        functionName: 'approve',
+        args: [ESCROW_ADDRESS, params.amount]
+      })
+    },
+    {
+      target: ESCROW_ADDRESS,
+      data: encodeFunctionData({
+        abi: ESCROW_ABI,
+        functionName: 'lockFunds',
+        args: [bookingIdToBytes32(params.bookingId), params.amount]
+      })
+    }
+  ];
+}
+
 /**
  * Release escrowed funds to stylist and platform treasury
  *
  * Called by relayer when booking is confirmed complete by customer.
- * Splits payment: 90% to stylist, 10% to platform.
+ * Splits payment: 90% to stylist, 10% to platform, unless an explicit
+ * platform fee (the booking's stored split) is given.
  *
  * @param params - Release parameters
  * @returns Operation result with transaction hash
@@ -292,6 +374,7 @@ export async function releaseFundsFromEscrow(params: {
   stylistAddress: Address;
   totalAmount: bigint;
   platformFeePercentage: number; // e.g., 10 for 10%
+  platformFeeAmount?: bigint; // overrides the percentage
   treasuryAddress: Address;
 }): Promise<EscrowOperationResult> {
   try {
@@ -307,7 +390,14 @@ export async function releaseFundsFromEscrow(params: {
     const bookingIdBytes = bookingIdToBytes32(params.bookingId);
 
     // Calculate amounts (avoiding floating point)
-    const platformFeeAmount = (params.totalAmount * BigInt(params.platformFeePercentage)) / 100n;
+    const platformFeeAmount =
+      params.platformFeeAmount ?? (params.totalAmount * BigInt(params.platformFeePercentage)) / 100n;
+    if (platformFeeAmount < 0n || platformFeeAmount > params.totalAmount) {
+      return {
+        success: false,
+        error: `Invalid platform fee: ${platformFeeAmount} of ${params.totalAmount} locked`
+      };
+    }
     const stylistAmount = params.totalAmount - platformFeeAmount;
 
     // Verify escrow exists and is locked
@@ -471,6 +561,181 @@ export async function refundFromEscrow(params: {
   }
 }
 
+/**
+ * Calculate how a locked amount is split on settlement
+ *
+ * The customer refund comes off the top. The platform fee is taken from the
+ * retained portion, then the property payout, and the stylist receives the rest.
+ * Parts always add up to exactly totalAmount (contract invariant).
+ *
+ * @param params - Split parameters
+ * @returns Settlement split
+ */
+export function calculateSettlementSplit(params: {
+  totalAmount: bigint;
+  customerRefundAmount: bigint;
+  platformFeePercentage: number;
+  /** Overrides the percentage, e.g. a booking's stored fee */
+  treasuryFee?: bigint;
+  propertyAmount?: bigint;
+}): SettlementSplit {
+  const propertyAmount = params.propertyAmount ?? 0n;
+
+  if (params.customerRefundAmount < 0n || params.customerRefundAmount > params.totalAmount) {
+    throw new Error(
+      `Invalid refund: ${params.customerRefundAmount} of ${params.totalAmount} locked`
+    );
+  }
+
+  const retainedAmount = params.totalAmount - params.customerRefundAmount;
+  const treasuryFee = params.treasuryFee ?? (retainedAmount * BigInt(params.platformFeePercentage)) / 100n;
+
+  if (treasuryFee < 0n || treasuryFee > retainedAmount) {
+    throw new Error(`Invalid treasury fee: ${treasuryFee} of retained ${retainedAmount}`);
+  }
+
+  if (propertyAmount < 0n || propertyAmount > retainedAmount - treasuryFee) {
+    throw new Error(
+      `Invalid property payout: ${propertyAmount} exceeds retained ${retainedAmount - treasuryFee}`
+    );
+  }
+
+  return {
+    customerRefund: params.customerRefundAmount,
+    stylistAmount: retainedAmount - treasuryFee - propertyAmount,
+    propertyAmount,
+    treasuryFee,
+  };
+}
+
+/**
+ * Settle escrowed funds across customer, stylist, property owner and treasury
+ *
+ * Called by relayer for partial refunds (cancellation policy bands, dispute
+ * refund percentages) and for bookings with a property owner payout.
+ * The customer refund is always paid to the wallet that locked the funds.
+ * Amounts are USDC units like the escrow record - convert cents with
+ * toEscrowUnits first.
+ *
+ * @param params - Settlement parameters
+ * @returns Operation result with transaction hash
+ */
+export async function settleEscrow(params: {
+  bookingId: string;
+  customerRefundAmount: bigint;
+  stylistAddress: Address;
+  platformFeePercentage: number;
+  treasuryFee?: bigint; // overrides the percentage
+  treasuryAddress: Address;
+  propertyOwnerAddress?: Address;
+  propertyAmount?: bigint;
+}): Promise<EscrowOperationResult & { split?: SettlementSplit }> {
+  try {
+    const bookingIdBytes = bookingIdToBytes32(params.bookingId);
+
+    // Verify escrow exists and is locked
+    const record = await getEscrowRecord(params.bookingId);
+    if (record.status !== EscrowStatus.Locked) {
+      return {
+        success: false,
+        error: `Escrow not in Locked status (current: ${EscrowStatus[record.status]})`
+      };
+    }
+
+    // SECURITY: Check rate limit before proceeding
+    const rateLimitCheck = escrowRateLimiter.canProceed(record.amount, params.bookingId);
+    if (!rateLimitCheck.canProceed) {
+      return {
+        success: false,
+        error: rateLimitCheck.reason || 'Rate limit exceeded'
+      };
+    }
+
+    const split = calculateSettlementSplit({
+      totalAmount: record.amount,
+      customerRefundAmount: params.customerRefundAmount,
+      platformFeePercentage: params.platformFeePercentage,
+      treasuryFee: params.treasuryFee,
+      propertyAmount: params.propertyAmount,
+    });
+
+    if (split.propertyAmount > 0n && !params.propertyOwnerAddress) {
+      return {
+        success: false,
+        error: 'Property owner address required for property payout'
+      };
+    }
+
+    const zeroAddress: Address = '0x0000000000000000000000000000000000000000';
+
+    // Call settle as relayer
+    const walletClient = await getWalletClient();
+    const hash = await walletClient.writeContract({
+      address: ESCROW_ADDRESS,
+      abi: ESCROW_ABI,
+      functionName: 'settle',
+      args: [
+        bookingIdBytes,
+        {
+          customerRefund: split.customerRefund,
+          stylist: params.stylistAddress,
+          stylistAmount: split.stylistAmount,
+          propertyOwner: params.propertyOwnerAddress ?? zeroAddress,
+          propertyAmount: split.propertyAmount,
+          treasury: params.treasuryAddress,
+          treasuryFee: split.treasuryFee
+        }
+      ]
+    });
+
+    // Wait for transaction confirmation
+    await publicClient.waitForTransactionReceipt({ hash });
+
+    // Record successful operation for rate limiting
+    escrowRateLimiter.recordOperation(params.bookingId, record.amount, 'settle');
+
+    console.log(`✓ Settled funds for booking ${params.bookingId}:`, {
+      customerRefund: split.customerRefund.toString(),
+      stylistAmount: split.stylistAmount.toString(),
+      propertyAmount: split.propertyAmount.toString(),
+      treasuryFee: split.treasuryFee.toString(),
+      txHash: hash
+    });
+
+    return {
+      success: true,
+      txHash: hash,
+      split
+    };
+  } catch (error) {
+    console.error('Failed to settle escrow:', error);
+
+    // L-4: Blockchain error telemetry - capture detailed error context
+    Sentry.captureException(error, {
+      tags: {
+        service: 'escrow',
+        operation: 'settle',
+        critical: 'true',
+      },
+      extra: {
+        bookingId: params.bookingId,
+        customerRefundAmount: params.customerRefundAmount.toString(),
+        stylistAddress: params.stylistAddress,
+        propertyOwnerAddress: params.propertyOwnerAddress,
+        propertyAmount: params.propertyAmount?.toString(),
+        treasuryAddress: params.treasuryAddress,
+        chainId: CHAIN.id,
+        escrowContract: ESCROW_ADDRESS,
+      },
+    });
+
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
 /**
  * Get escrow balance for a booking
  *
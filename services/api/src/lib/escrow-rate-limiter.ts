@@ -25,7 +25,7 @@ interface OperationRecord {
   timestamp: number;
   amount: bigint;
   bookingId: string;
-  operation: 'release' | 'refund';
+  operation: 'release' | 'refund' | 'settle';
 }
 
 /**
@@ -107,7 +107,7 @@ export class EscrowRateLimiter {
    * @param amount - The amount released/refunded
    * @param operation - Type of operation
    */
-  recordOperation(bookingId: string, amount: bigint, operation: 'release' | 'refund'): void {
+  recordOperation(bookingId: string, amount: bigint, operation: 'release' | 'refund' | 'settle'): void {
     this.operations.push({
       timestamp: Date.now(),
       amount,
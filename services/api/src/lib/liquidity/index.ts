@@ -19,6 +19,13 @@ export {
   withdraw,
 } from './pool-service';
 
+// On-chain operations
+export {
+  listOperations,
+  getOperation,
+  reconcilePendingOperations,
+} from './operation-service';
+
 // Yield operations
 export {
   getYieldSummary,
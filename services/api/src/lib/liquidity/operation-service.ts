@@ -0,0 +1,508 @@
+/**
+ * Operation Service
+ *
+ * Sends pool actions as sponsored UserOperations from the user's smart wallet
+ * and applies them to the database once their receipt is seen.
+ *
+ * Flow:
+ * 1. The calls are batched into one UserOperation (e.g. approve + deposit),
+ *    sponsored by the paymaster, and a PENDING LiquidityOperation is recorded
+ * 2. The request waits briefly for it to be mined. Pools, deposits and yield
+ *    claims are then updated from the receipt's events and chain state at
+ *    that block, and the operation becomes CONFIRMED (or FAILED if the call
+ *    reverted inside the wallet)
+ * 3. Anything still PENDING is picked up by reconcilePendingOperations
+ *
+ * The indexer applies the same pool events. Both sides claim the operation
+ * (PENDING/FAILED -> CONFIRMED) in the transaction that applies it, so only
+ * one of them accumulates depositAmount or records the claim.
+ */
+
+import { LiquidityOperation, LiquidityOperationType, LiquidityPool, Prisma, TransactionStatus } from '@prisma/client';
+import { formatUnits, type Address, type Hash, type TransactionReceipt } from 'viem';
+import prisma from '../prisma';
+import {
+  buildBatchExecuteCallData,
+  buildExecuteCallData,
+  checkWalletDeployed,
+  getUserOpTxHash,
+  markWalletDeployed,
+  publicClient,
+  sendUserOp,
+  waitForUserOp,
+} from '../wallet';
+import {
+  POOL_ABI,
+  POOL_FACTORY_ADDRESS,
+  SHARE_DECIMALS,
+  USDC_UNIT_DECIMALS,
+  findCreatedPool,
+  findPoolEvent,
+  type PoolCall,
+} from './pool-calls';
+import { LiquidityOperationView, ReconcileOperationsResult, TIER_CONFIGS } from './types';
+
+// approve + deposit, or several claims, need more than a single transfer
+const BATCH_CALL_GAS_LIMIT = 600_000n;
+
+// How long a request waits for the receipt before answering PENDING
+const CONFIRM_WAIT_MS = 20_000;
+
+// Left to the scheduler once older than this
+const RECONCILE_MIN_AGE_MS = 60 * 1000;
+
+// Paymaster data is valid for an hour - after that the operation can't be mined
+const OPERATION_EXPIRY_MS = 90 * 60 * 1000;
+
+type OperationWithPool = LiquidityOperation & { pool: LiquidityPool | null };
+
+export interface OperationWallet {
+  id: string;
+  userId: string;
+  address: string;
+  isDeployed: boolean;
+}
+
+/**
+ * One operation to record for the UserOperation
+ */
+export interface NewOperation {
+  type: LiquidityOperationType;
+  poolId?: string;
+  amount?: string;
+  shares?: string;
+  poolName?: string;
+  poolTier?: LiquidityOperation['poolTier'];
+}
+
+/**
+ * The user's smart wallet, which owns their pool positions
+ */
+export async function requireWallet(userId: string): Promise<OperationWallet> {
+  const wallet = await prisma.wallet.findUnique({ where: { userId } });
+
+  if (!wallet) {
+    throw new Error('Wallet not found');
+  }
+
+  return wallet;
+}
+
+/**
+ * Send `calls` from the user's wallet and record the operations they carry
+ *
+ * @returns The operations - CONFIRMED or FAILED if the receipt arrived in
+ * time, otherwise still PENDING
+ */
+export async function submitPoolOperations(
+  wallet: OperationWallet,
+  calls: PoolCall[],
+  operations: NewOperation[]
+): Promise<LiquidityOperation[]> {
+  const callData =
+    calls.length === 1
+      ? buildExecuteCallData(calls[0].target, 0n, calls[0].data)
+      : buildBatchExecuteCallData(
+          calls.map((call) => call.target),
+          calls.map(() => 0n),
+          calls.map((call) => call.data)
+        );
+
+  const isDeployed = wallet.isDeployed || (await checkWalletDeployed(wallet.address));
+
+  const result = await sendUserOp({
+    sender: wallet.address as Address,
+    userId: wallet.userId,
+    callData,
+    isDeployed,
+    callGasLimit: BATCH_CALL_GAS_LIMIT,
+  });
+
+  if (!result.success) {
+    throw new Error(result.error || 'UserOperation was rejected');
+  }
+
+  await prisma.$transaction(
+    operations.map((operation) =>
+      prisma.liquidityOperation.create({
+        data: { ...operation, userId: wallet.userId, userOpHash: result.userOpHash },
+      })
+    )
+  );
+
+  const txHash = await waitForUserOp(result.userOpHash, CONFIRM_WAIT_MS);
+  if (txHash) {
+    await applyUserOp(result.userOpHash, txHash, wallet);
+  }
+
+  return prisma.liquidityOperation.findMany({
+    where: { userOpHash: result.userOpHash },
+    orderBy: { createdAt: 'asc' },
+  });
+}
+
+/**
+ * Apply every unconfirmed operation carried by a mined UserOperation
+ */
+async function applyUserOp(userOpHash: string, txHash: Hash, wallet: OperationWallet): Promise<void> {
+  const receipt = await publicClient.getTransactionReceipt({ hash: txHash });
+
+  const operations = await prisma.liquidityOperation.findMany({
+    where: { userOpHash, status: { not: TransactionStatus.CONFIRMED } },
+    include: { pool: true },
+  });
+
+  for (const operation of operations) {
+    try {
+      await applyOperation(operation, receipt, wallet.address as Address);
+    } catch (error) {
+      // Left as it was - the next reconcile pass retries it
+      console.error(`[Liquidity] Failed to apply operation ${operation.id}:`, error);
+    }
+  }
+
+  if (!wallet.isDeployed) {
+    await markWalletDeployed(wallet.id);
+  }
+}
+
+/**
+ * Move an operation to CONFIRMED. False when the indexer already did -
+ * the caller must then leave pools and deposits alone.
+ */
+async function claimOperation(
+  tx: Prisma.TransactionClient,
+  operationId: string,
+  data: Prisma.LiquidityOperationUpdateManyMutationInput
+): Promise<boolean> {
+  const { count } = await tx.liquidityOperation.updateMany({
+    where: { id: operationId, status: { not: TransactionStatus.CONFIRMED } },
+    data: { ...data, status: TransactionStatus.CONFIRMED, error: null, confirmedAt: new Date() },
+  });
+
+  return count === 1;
+}
+
+async function failOperation(operationId: string, error: string, txHash?: string): Promise<void> {
+  await prisma.liquidityOperation.updateMany({
+    where: { id: operationId, status: TransactionStatus.PENDING },
+    data: { status: TransactionStatus.FAILED, error, ...(txHash && { txHash }) },
+  });
+}
+
+async function readPosition(pool: Address, user: Address, blockNumber: bigint) {
+  return publicClient.readContract({
+    address: pool,
+    abi: POOL_ABI,
+    functionName: 'getUserDeposit',
+    args: [user],
+    blockNumber,
+  });
+}
+
+/**
+ * Pool totals and supply index at `blockNumber`, as stored on LiquidityPool
+ */
+async function readPoolTotals(pool: Address, blockNumber: bigint) {
+  const info = await publicClient.readContract({
+    address: pool,
+    abi: POOL_ABI,
+    functionName: 'getPoolInfo',
+    blockNumber,
+  });
+
+  return {
+    totalDeposits: formatUnits(info.totalDeposits, USDC_UNIT_DECIMALS),
+    totalShares: formatUnits(info.totalShares, SHARE_DECIMALS),
+    supplyIndex: formatUnits(info.supplyIndex, SHARE_DECIMALS),
+    lastSyncAt: new Date(),
+  };
+}
+
+async function applyOperation(
+  operation: OperationWithPool,
+  receipt: TransactionReceipt,
+  user: Address
+): Promise<void> {
+  const txHash = receipt.transactionHash;
+
+  if (receipt.status !== 'success') {
+    return failOperation(operation.id, 'Transaction reverted', txHash);
+  }
+
+  if (operation.type === LiquidityOperationType.CREATE_POOL) {
+    return applyCreatePool(operation, receipt, user);
+  }
+
+  const pool = operation.pool;
+  if (!pool) {
+    return failOperation(operation.id, 'Operation has no pool', txHash);
+  }
+
+  const poolAddress = pool.address as Address;
+  const blockNumber = receipt.blockNumber;
+
+  switch (operation.type) {
+    case LiquidityOperationType.DEPOSIT: {
+      const event = findPoolEvent(receipt.logs, 'Deposited', poolAddress, user);
+      if (!event) {
+        return failOperation(operation.id, 'Deposit reverted in the wallet', txHash);
+      }
+
+      const [position, totals] = await Promise.all([
+        readPosition(poolAddress, user, blockNumber),
+        readPoolTotals(poolAddress, blockNumber),
+      ]);
+      const amount = formatUnits(event.amount, USDC_UNIT_DECIMALS);
+      const shares = formatUnits(position.shares, SHARE_DECIMALS);
+      const depositIndex = formatUnits(position.depositIndex, SHARE_DECIMALS);
+
+      await prisma.$transaction(async (tx) => {
+        const minted = formatUnits(event.shares ?? 0n, SHARE_DECIMALS);
+        if (!(await claimOperation(tx, operation.id, { txHash, amount, shares: minted }))) return;
+
+        const existing = await tx.liquidityDeposit.findUnique({
+          where: { userId_poolId: { userId: operation.userId, poolId: pool.id } },
+          select: { id: true },
+        });
+
+        if (existing) {
+          await tx.liquidityDeposit.update({
+            where: { id: existing.id },
+            data: { shares, depositIndex, depositAmount: { increment: amount }, depositTxHash: txHash },
+          });
+        } else {
+          await tx.liquidityDeposit.create({
+            data: {
+              userId: operation.userId,
+              poolId: pool.id,
+              shares,
+              depositIndex,
+              depositAmount: amount,
+              depositTxHash: txHash,
+            },
+          });
+        }
+
+        await tx.liquidityPool.update({
+          where: { id: pool.id },
+          data: { ...totals, ...(!existing && { depositorCount: { increment: 1 } }) },
+        });
+      });
+      return;
+    }
+
+    case LiquidityOperationType.WITHDRAW: {
+      const event = findPoolEvent(receipt.logs, 'Withdrawn', poolAddress, user);
+      if (!event) {
+        return failOperation(operation.id, 'Withdrawal reverted in the wallet', txHash);
+      }
+
+      const [position, totals] = await Promise.all([
+        readPosition(poolAddress, user, blockNumber),
+        readPoolTotals(poolAddress, blockNumber),
+      ]);
+      const amount = formatUnits(event.amount, USDC_UNIT_DECIMALS);
+      const burned = formatUnits(event.shares ?? 0n, SHARE_DECIMALS);
+
+      await prisma.$transaction(async (tx) => {
+        if (!(await claimOperation(tx, operation.id, { txHash, amount, shares: burned }))) return;
+
+        const existing = await tx.liquidityDeposit.findUnique({
+          where: { userId_poolId: { userId: operation.userId, poolId: pool.id } },
+        });
+        let exited = false;
+
+        if (existing && position.shares === 0n) {
+          await tx.liquidityDeposit.delete({ where: { id: existing.id } });
+          exited = true;
+        } else if (existing) {
+          // Original deposit shrinks with the shares still held
+          const remainingShares = new Prisma.Decimal(formatUnits(position.shares, SHARE_DECIMALS));
+          const depositAmount = existing.shares.isZero()
+            ? existing.depositAmount
+            : existing.depositAmount.mul(remainingShares).div(existing.shares);
+
+          await tx.liquidityDeposit.update({
+            where: { id: existing.id },
+            data: {
+              shares: remainingShares,
+              depositIndex: formatUnits(position.depositIndex, SHARE_DECIMALS),
+              depositAmount: depositAmount.toDecimalPlaces(USDC_UNIT_DECIMALS),
+            },
+          });
+        }
+
+        await tx.liquidityPool.update({
+          where: { id: pool.id },
+          data: { ...totals, ...(exited && { depositorCount: { decrement: 1 } }) },
+        });
+      });
+      return;
+    }
+
+    case LiquidityOperationType.CLAIM_YIELD: {
+      const event = findPoolEvent(receipt.logs, 'YieldClaimed', poolAddress, user);
+      if (!event) {
+        return failOperation(operation.id, 'Claim reverted in the wallet', txHash);
+      }
+
+      const position = await readPosition(poolAddress, user, blockNumber);
+      const amount = formatUnits(event.amount, USDC_UNIT_DECIMALS);
+
+      await prisma.$transaction(async (tx) => {
+        if (!(await claimOperation(tx, operation.id, { txHash, amount }))) return;
+
+        await tx.yieldClaim.create({
+          data: { userId: operation.userId, poolId: pool.id, amount, txHash },
+        });
+
+        await tx.liquidityDeposit.updateMany({
+          where: { userId: operation.userId, poolId: pool.id },
+          data: {
+            depositIndex: formatUnits(position.depositIndex, SHARE_DECIMALS),
+            lastClaimAt: new Date(),
+          },
+        });
+      });
+      return;
+    }
+  }
+}
+
+/**
+ * Record the pool the factory deployed - the indexer picks it up from here
+ */
+async function applyCreatePool(
+  operation: OperationWithPool,
+  receipt: TransactionReceipt,
+  user: Address
+): Promise<void> {
+  const txHash = receipt.transactionHash;
+  const created = POOL_FACTORY_ADDRESS ? findCreatedPool(receipt.logs, POOL_FACTORY_ADDRESS, user) : null;
+
+  if (!created || !operation.poolTier) {
+    return failOperation(operation.id, 'Pool creation reverted in the wallet', txHash);
+  }
+
+  const tier = operation.poolTier;
+
+  await prisma.$transaction(async (tx) => {
+    if (!(await claimOperation(tx, operation.id, { txHash }))) return;
+
+    const pool = await tx.liquidityPool.create({
+      data: {
+        address: created.address,
+        name: created.name,
+        tier,
+        creatorId: operation.userId,
+        status: 'ACTIVE',
+        cap: created.cap > 0n ? formatUnits(created.cap, USDC_UNIT_DECIMALS) : null,
+        creatorFeeBps: TIER_CONFIGS[tier].creatorFeeBps,
+        isGenesis: false,
+      },
+    });
+
+    await tx.liquidityOperation.update({ where: { id: operation.id }, data: { poolId: pool.id } });
+  });
+}
+
+/**
+ * Scheduler pass: apply operations whose receipt arrived after the request
+ * returned, and fail those that can no longer be mined
+ */
+export async function reconcilePendingOperations(): Promise<ReconcileOperationsResult> {
+  const now = Date.now();
+
+  const pending = await prisma.liquidityOperation.findMany({
+    where: {
+      status: TransactionStatus.PENDING,
+      updatedAt: { lt: new Date(now - RECONCILE_MIN_AGE_MS) },
+    },
+    select: { userOpHash: true, userId: true, createdAt: true },
+    orderBy: { createdAt: 'asc' },
+    take: 100,
+  });
+
+  const userOps = new Map<string, { userId: string; createdAt: Date }>();
+  for (const operation of pending) {
+    if (!userOps.has(operation.userOpHash)) {
+      userOps.set(operation.userOpHash, operation);
+    }
+  }
+
+  const result: ReconcileOperationsResult = { checked: pending.length, confirmed: 0, failed: 0, pending: 0 };
+
+  for (const [userOpHash, { userId, createdAt }] of userOps) {
+    const txHash = await getUserOpTxHash(userOpHash as Hash);
+
+    if (txHash) {
+      await applyUserOp(userOpHash, txHash, await requireWallet(userId));
+    } else if (now - createdAt.getTime() > OPERATION_EXPIRY_MS) {
+      await prisma.liquidityOperation.updateMany({
+        where: { userOpHash, status: TransactionStatus.PENDING },
+        data: { status: TransactionStatus.FAILED, error: 'UserOperation was never mined' },
+      });
+    }
+
+    const statuses = await prisma.liquidityOperation.groupBy({
+      by: ['status'],
+      where: { userOpHash },
+      _count: true,
+    });
+    for (const { status, _count } of statuses) {
+      if (status === TransactionStatus.CONFIRMED) result.confirmed += _count;
+      if (status === TransactionStatus.FAILED) result.failed += _count;
+      if (status === TransactionStatus.PENDING) result.pending += _count;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * A user's recent pool actions, newest first
+ */
+export async function listOperations(
+  userId: string,
+  params: { status?: TransactionStatus; limit?: number } = {}
+): Promise<LiquidityOperationView[]> {
+  const operations = await prisma.liquidityOperation.findMany({
+    where: { userId, ...(params.status && { status: params.status }) },
+    include: { pool: { select: { name: true } } },
+    orderBy: { createdAt: 'desc' },
+    take: params.limit ?? 20,
+  });
+
+  return operations.map(mapOperationToView);
+}
+
+/**
+ * One of the user's operations, for polling while it is PENDING
+ */
+export async function getOperation(userId: string, operationId: string): Promise<LiquidityOperationView | null> {
+  const operation = await prisma.liquidityOperation.findFirst({
+    where: { id: operationId, userId },
+    include: { pool: { select: { name: true } } },
+  });
+
+  return operation ? mapOperationToView(operation) : null;
+}
+
+function mapOperationToView(
+  operation: LiquidityOperation & { pool: { name: string } | null }
+): LiquidityOperationView {
+  return {
+    id: operation.id,
+    type: operation.type,
+    status: operation.status,
+    poolId: operation.poolId,
+    poolName: operation.pool?.name ?? operation.poolName,
+    amount: operation.amount?.toFixed(USDC_UNIT_DECIMALS) ?? null,
+    shares: operation.shares?.toString() ?? null,
+    txHash: operation.txHash,
+    error: operation.error,
+    createdAt: operation.createdAt,
+    confirmedAt: operation.confirmedAt,
+  };
+}
@@ -0,0 +1,137 @@
+import { decodeFunctionData, encodeAbiParameters, encodeEventTopics, type Address, type Log } from 'viem';
+import { ERC20_ABI } from '../wallet/contracts';
+import {
+  POOL_ABI,
+  POOL_FACTORY_ABI,
+  buildClaimCalls,
+  buildCreatePoolCalls,
+  buildDepositCalls,
+  findCreatedPool,
+  findPoolEvent,
+  getMinAmountOut,
+  toFactoryTier,
+} from './pool-calls';
+
+const usdc = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913' as Address;
+const pool = '0x1111111111111111111111111111111111111111' as Address;
+const otherPool = '0x2222222222222222222222222222222222222222' as Address;
+const factory = '0x3333333333333333333333333333333333333333' as Address;
+const wallet = '0x4444444444444444444444444444444444444444' as Address;
+const otherWallet = '0x5555555555555555555555555555555555555555' as Address;
+
+function depositedLog(address: Address, user: Address, amount: bigint, shares: bigint): Log {
+  return {
+    address,
+    topics: encodeEventTopics({ abi: POOL_ABI, eventName: 'Deposited', args: { user } }),
+    data: encodeAbiParameters([{ type: 'uint256' }, { type: 'uint256' }], [amount, shares]),
+  } as unknown as Log;
+}
+
+describe('Pool Calls', () => {
+  describe('buildDepositCalls', () => {
+    it('should approve exactly the amount to the pool before depositing', () => {
+      const [approve, deposit] = buildDepositCalls(usdc, pool, 25_000_000n);
+
+      expect(approve.target).toBe(usdc);
+      expect(decodeFunctionData({ abi: ERC20_ABI, data: approve.data })).toMatchObject({
+        functionName: 'approve',
+        args: [pool, 25_000_000n],
+      });
+
+      expect(deposit.target).toBe(pool);
+      expect(decodeFunctionData({ abi: POOL_ABI, data: deposit.data })).toMatchObject({
+        functionName: 'deposit',
+        args: [25_000_000n],
+      });
+    });
+  });
+
+  describe('buildClaimCalls', () => {
+    it('should call claimYield on every pool', () => {
+      const calls = buildClaimCalls([pool, otherPool]);
+
+      expect(calls.map((call) => call.target)).toEqual([pool, otherPool]);
+      expect(decodeFunctionData({ abi: POOL_ABI, data: calls[1].data }).functionName).toBe('claimYield');
+    });
+  });
+
+  describe('buildCreatePoolCalls', () => {
+    it('should approve the creation fee to the factory first', () => {
+      const calls = buildCreatePoolCalls(usdc, factory, 'Braid Collective', 'TIER_2', 2_500_000_000n);
+
+      expect(calls).toHaveLength(2);
+      expect(decodeFunctionData({ abi: ERC20_ABI, data: calls[0].data }).args).toEqual([factory, 2_500_000_000n]);
+      expect(decodeFunctionData({ abi: POOL_FACTORY_ABI, data: calls[1].data })).toMatchObject({
+        functionName: 'createPool',
+        args: ['Braid Collective', 2],
+      });
+    });
+
+    it('should skip the approval when there is no fee', () => {
+      expect(buildCreatePoolCalls(usdc, factory, 'Free Pool', 'TIER_1', 0n)).toHaveLength(1);
+    });
+  });
+
+  describe('toFactoryTier', () => {
+    it('should not create genesis pools through the factory', () => {
+      expect(toFactoryTier('TIER_3')).toBe(3);
+      expect(() => toFactoryTier('GENESIS')).toThrow(/not created through the factory/);
+    });
+  });
+
+  describe('getMinAmountOut', () => {
+    it('should quote from the share price less slippage', () => {
+      // 50 of 200 shares in a 1,000 USDC pool = 250 USDC, less 1%
+      expect(getMinAmountOut(50n, 1_000_000_000n, 200n)).toBe(247_500_000n);
+    });
+
+    it('should accept anything from an empty pool', () => {
+      expect(getMinAmountOut(50n, 0n, 0n)).toBe(0n);
+    });
+  });
+
+  describe('findPoolEvent', () => {
+    it('should find the deposit made by the wallet into the pool', () => {
+      const logs = [
+        depositedLog(otherPool, wallet, 1n, 1n),
+        depositedLog(pool, otherWallet, 2n, 2n),
+        depositedLog(pool, wallet, 100_000_000n, 99n * 10n ** 18n),
+      ];
+
+      expect(findPoolEvent(logs, 'Deposited', pool, wallet)).toEqual({
+        pool,
+        amount: 100_000_000n,
+        shares: 99n * 10n ** 18n,
+      });
+    });
+
+    it('should return null when the call reverted inside the wallet', () => {
+      expect(findPoolEvent([depositedLog(pool, otherWallet, 1n, 1n)], 'Deposited', pool, wallet)).toBeNull();
+      expect(findPoolEvent([depositedLog(pool, wallet, 1n, 1n)], 'Withdrawn', pool, wallet)).toBeNull();
+    });
+  });
+
+  describe('findCreatedPool', () => {
+    it('should read the deployed pool for the creator', () => {
+      const log = {
+        address: factory,
+        topics: encodeEventTopics({
+          abi: POOL_FACTORY_ABI,
+          eventName: 'PoolCreated',
+          args: { pool, creator: wallet },
+        }),
+        data: encodeAbiParameters(
+          [{ type: 'string' }, { type: 'uint8' }, { type: 'uint256' }],
+          ['Braid Collective', 2, 100_000_000_000n]
+        ),
+      } as unknown as Log;
+
+      expect(findCreatedPool([log], factory, wallet)).toEqual({
+        address: pool,
+        name: 'Braid Collective',
+        cap: 100_000_000_000n,
+      });
+      expect(findCreatedPool([log], factory, otherWallet)).toBeNull();
+    });
+  });
+});
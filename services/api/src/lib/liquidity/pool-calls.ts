@@ -0,0 +1,287 @@
+/**
+ * Pool Calls
+ *
+ * Calldata for VlossomGenesisPool / VlossomCommunityPool / VlossomPoolFactory
+ * and decoding of their events from a receipt. Pure helpers - no chain or
+ * database access.
+ */
+
+import { PoolTier } from '@prisma/client';
+import { encodeFunctionData, parseEventLogs, type Address, type Hex, type Log } from 'viem';
+import { ERC20_ABI } from '../wallet/contracts';
+
+export const POOL_FACTORY_ADDRESS = (process.env.POOL_FACTORY_ADDRESS || null) as Address | null;
+
+/**
+ * Slippage allowed between quoting a withdrawal and it being mined
+ */
+export const WITHDRAW_SLIPPAGE_BPS = 100; // 1%
+
+export const USDC_UNIT_DECIMALS = 6;
+export const SHARE_DECIMALS = 18; // Shares and supplyIndex are 1e18 scaled
+
+/**
+ * Genesis and community pools share this interface (IVlossomPool)
+ */
+export const POOL_ABI = [
+  {
+    type: 'function',
+    name: 'deposit',
+    inputs: [{ name: 'amount', type: 'uint256' }],
+    outputs: [{ name: 'shares', type: 'uint256' }],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'withdraw',
+    inputs: [
+      { name: 'shares', type: 'uint256' },
+      { name: 'minAmountOut', type: 'uint256' },
+    ],
+    outputs: [{ name: 'amount', type: 'uint256' }],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'claimYield',
+    inputs: [],
+    outputs: [{ name: 'amount', type: 'uint256' }],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'function',
+    name: 'getPoolInfo',
+    inputs: [],
+    outputs: [
+      {
+        name: 'info',
+        type: 'tuple',
+        components: [
+          { name: 'totalDeposits', type: 'uint256' },
+          { name: 'totalShares', type: 'uint256' },
+          { name: 'supplyIndex', type: 'uint256' },
+          { name: 'lastUpdateTime', type: 'uint256' },
+          { name: 'isPaused', type: 'bool' },
+        ],
+      },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'function',
+    name: 'getUserDeposit',
+    inputs: [{ name: 'user', type: 'address' }],
+    outputs: [
+      {
+        name: 'deposit',
+        type: 'tuple',
+        components: [
+          { name: 'shares', type: 'uint256' },
+          { name: 'depositIndex', type: 'uint256' },
+          { name: 'pendingYield', type: 'uint256' },
+        ],
+      },
+    ],
+    stateMutability: 'view',
+  },
+  {
+    type: 'event',
+    name: 'Deposited',
+    inputs: [
+      { name: 'user', type: 'address', indexed: true },
+      { name: 'amount', type: 'uint256', indexed: false },
+      { name: 'shares', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'Withdrawn',
+    inputs: [
+      { name: 'user', type: 'address', indexed: true },
+      { name: 'shares', type: 'uint256', indexed: false },
+      { name: 'amount', type: 'uint256', indexed: false },
+    ],
+  },
+  {
+    type: 'event',
+    name: 'YieldClaimed',
+    inputs: [
+      { name: 'user', type: 'address', indexed: true },
+      { name: 'amount', type: 'uint256', indexed: false },
+    ],
+  },
+] as const;
+
+export const POOL_FACTORY_ABI = [
+  {
+    type: 'function',
+    name: 'createPool',
+    inputs: [
+      { name: 'name', type: 'string' },
+      { name: 'tier', type: 'uint8' },
+    ],
+    outputs: [{ name: 'pool', type: 'address' }],
+    stateMutability: 'nonpayable',
+  },
+  {
+    type: 'event',
+    name: 'PoolCreated',
+    inputs: [
+      { name: 'pool', type: 'address', indexed: true },
+      { name: 'creator', type: 'address', indexed: true },
+      { name: 'name', type: 'string', indexed: false },
+      { name: 'tier', type: 'uint8', indexed: false },
+      { name: 'cap', type: 'uint256', indexed: false },
+    ],
+  },
+] as const;
+
+/**
+ * One call in the wallet's executeBatch
+ */
+export interface PoolCall {
+  target: Address;
+  data: Hex;
+}
+
+/**
+ * Factory tier number for a community pool tier (TIER_1 = 1)
+ */
+export function toFactoryTier(tier: PoolTier): number {
+  switch (tier) {
+    case 'TIER_1':
+      return 1;
+    case 'TIER_2':
+      return 2;
+    case 'TIER_3':
+      return 3;
+    default:
+      throw new Error(`${tier} pools are not created through the factory`);
+  }
+}
+
+function approveCall(usdc: Address, spender: Address, amount: bigint): PoolCall {
+  return {
+    target: usdc,
+    data: encodeFunctionData({ abi: ERC20_ABI, functionName: 'approve', args: [spender, amount] }),
+  };
+}
+
+/**
+ * approve + deposit, so the allowance is exactly what this deposit uses
+ */
+export function buildDepositCalls(usdc: Address, pool: Address, amount: bigint): PoolCall[] {
+  return [
+    approveCall(usdc, pool, amount),
+    { target: pool, data: encodeFunctionData({ abi: POOL_ABI, functionName: 'deposit', args: [amount] }) },
+  ];
+}
+
+export function buildWithdrawCalls(pool: Address, shares: bigint, minAmountOut: bigint): PoolCall[] {
+  return [
+    {
+      target: pool,
+      data: encodeFunctionData({ abi: POOL_ABI, functionName: 'withdraw', args: [shares, minAmountOut] }),
+    },
+  ];
+}
+
+/**
+ * One claimYield per pool - claim all sends them in a single UserOperation
+ */
+export function buildClaimCalls(pools: Address[]): PoolCall[] {
+  const data = encodeFunctionData({ abi: POOL_ABI, functionName: 'claimYield' });
+  return pools.map((target) => ({ target, data }));
+}
+
+/**
+ * approve the creation fee (when there is one) + createPool
+ */
+export function buildCreatePoolCalls(
+  usdc: Address,
+  factory: Address,
+  name: string,
+  tier: PoolTier,
+  creationFee: bigint
+): PoolCall[] {
+  const createCall: PoolCall = {
+    target: factory,
+    data: encodeFunctionData({
+      abi: POOL_FACTORY_ABI,
+      functionName: 'createPool',
+      args: [name, toFactoryTier(tier)],
+    }),
+  };
+
+  return creationFee > 0n ? [approveCall(usdc, factory, creationFee), createCall] : [createCall];
+}
+
+/**
+ * USDC a withdrawal must return at least, from the pool's current share price
+ */
+export function getMinAmountOut(
+  shares: bigint,
+  totalDeposits: bigint,
+  totalShares: bigint,
+  slippageBps: number = WITHDRAW_SLIPPAGE_BPS
+): bigint {
+  if (totalShares === 0n) return 0n;
+
+  const expected = (shares * totalDeposits) / totalShares;
+  return (expected * BigInt(10_000 - slippageBps)) / 10_000n;
+}
+
+type PoolEventName = 'Deposited' | 'Withdrawn' | 'YieldClaimed';
+
+export interface PoolEvent {
+  pool: Address;
+  amount: bigint;
+  shares: bigint | null; // Not emitted by YieldClaimed
+}
+
+/**
+ * The event a pool emitted for `user` in a receipt, or null when the call
+ * reverted inside the wallet (the bundle itself still succeeds)
+ */
+export function findPoolEvent(
+  logs: Log[],
+  eventName: PoolEventName,
+  pool: Address,
+  user: Address
+): PoolEvent | null {
+  const events = parseEventLogs({ abi: POOL_ABI, logs, eventName, strict: true });
+
+  const event = events.find(
+    (log) =>
+      log.address.toLowerCase() === pool.toLowerCase() && log.args.user.toLowerCase() === user.toLowerCase()
+  );
+  if (!event) return null;
+
+  return {
+    pool: event.address,
+    amount: event.args.amount,
+    shares: 'shares' in event.args ? event.args.shares : null,
+  };
+}
+
+export interface CreatedPool {
+  address: Address;
+  name: string;
+  cap: bigint;
+}
+
+/**
+ * The pool the factory deployed for `creator` in a receipt
+ */
+export function findCreatedPool(logs: Log[], factory: Address, creator: Address): CreatedPool | null {
+  const events = parseEventLogs({ abi: POOL_FACTORY_ABI, logs, eventName: 'PoolCreated', strict: true });
+
+  const event = events.find(
+    (log) =>
+      log.address.toLowerCase() === factory.toLowerCase() &&
+      log.args.creator.toLowerCase() === creator.toLowerCase()
+  );
+  if (!event) return null;
+
+  return { address: event.args.pool, name: event.args.name, cap: event.args.cap };
+}
@@ -2,10 +2,12 @@
  * Pool Service
  *
  * Manages liquidity pool CRUD operations and user deposits.
+ * Deposits, withdrawals and pool creation run on chain - see operation-service.
  * Reference: docs/vlossom/12-liquidity-pool-architecture.md
  */
 
-import { PrismaClient, PoolTier, Prisma } from '@prisma/client';
+import { PrismaClient, PoolTier, Prisma, LiquidityOperation } from '@prisma/client';
+import { formatUnits, isAddress, parseUnits, type Address } from 'viem';
 import {
   PoolInfo,
   PoolDetails,
@@ -15,12 +17,26 @@ import {
   WithdrawParams,
   WithdrawResult,
   CreatePoolParams,
+  CreatePoolResult,
+  OperationResult,
   PoolListResponse,
   formatUSDC,
   parseUSDC,
   TIER_CONFIGS,
 } from './types';
 import { canCreatePool } from './referral-engine';
+import {
+  POOL_ABI,
+  POOL_FACTORY_ADDRESS,
+  SHARE_DECIMALS,
+  USDC_UNIT_DECIMALS,
+  buildCreatePoolCalls,
+  buildDepositCalls,
+  buildWithdrawCalls,
+  getMinAmountOut,
+} from './pool-calls';
+import { requireWallet, submitPoolOperations } from './operation-service';
+import { USDC_ADDRESS, getBalance, publicClient } from '../wallet';
 
 const prisma = new PrismaClient();
 
@@ -95,12 +111,16 @@ export async function getGenesisPool(): Promise<PoolDetails | null> {
 // ============================================================================
 
 /**
- * Create a new community pool
+ * Create a new community pool through VlossomPoolFactory
+ *
+ * The creation fee is approved and createPool called from the creator's
+ * wallet in one UserOperation. The pool row is only added once the factory's
+ * PoolCreated event is seen.
  */
 export async function createPool(
   userId: string,
   params: CreatePoolParams
-): Promise<{ success: boolean; pool?: PoolDetails; error?: string }> {
+): Promise<CreatePoolResult> {
   // Check tier eligibility
   const { canCreate, reason, tier } = await canCreatePool(userId, params.tier);
 
@@ -108,31 +128,32 @@ export async function createPool(
     return { success: false, error: reason };
   }
 
-  // Get tier config
-  const tierConfig = TIER_CONFIGS[tier];
-
-  // TODO: In production, this would:
-  // 1. Check user has sufficient USDC for creation fee
-  // 2. Call PoolFactory.createPool() on-chain
-  // 3. Store the new pool address
-
-  // For now, create a placeholder entry
-  const pool = await prisma.liquidityPool.create({
-    data: {
-      address: `0x${Date.now().toString(16)}`, // Placeholder - will be real address after deployment
-      name: params.name,
-      tier,
-      creatorId: userId,
-      status: 'ACTIVE',
-      cap: tierConfig.cap ? new Prisma.Decimal(tierConfig.cap) : null,
-      creatorFeeBps: tierConfig.creatorFeeBps,
-      isGenesis: false,
-    },
-  });
+  if (!POOL_FACTORY_ADDRESS) {
+    throw new Error('POOL_FACTORY_ADDRESS not configured');
+  }
+
+  const creationFee = parseUSDC(TIER_CONFIGS[tier].creationFee);
+  const wallet = await requireWallet(userId);
+  await requireBalance(wallet.address, creationFee);
+
+  const [operation] = await submitPoolOperations(
+    wallet,
+    buildCreatePoolCalls(USDC_ADDRESS, POOL_FACTORY_ADDRESS, params.name, tier, creationFee),
+    [
+      {
+        type: 'CREATE_POOL',
+        poolName: params.name,
+        poolTier: tier,
+        amount: formatUnits(creationFee, USDC_UNIT_DECIMALS),
+      },
+    ]
+  );
+
+  const pool = operation.poolId ? await getPoolById(operation.poolId) : null;
 
   return {
-    success: true,
-    pool: mapPoolToDetails(pool),
+    ...toOperationResult(operation),
+    ...(pool && { pool }),
   };
 }
 
@@ -210,7 +231,10 @@ export async function getUserDeposits(userId: string): Promise<UserDeposit[]> {
 }
 
 /**
- * Deposit USDC into a pool
+ * Deposit USDC into a pool - approve + deposit from the user's wallet
+ *
+ * The position only changes once the Deposited event is seen. Until then the
+ * result (and GET /operations) shows the deposit as PENDING.
  */
 export async function deposit(
   userId: string,
@@ -238,70 +262,35 @@ export async function deposit(
     }
   }
 
-  // TODO: In production:
-  // 1. Call pool.deposit() on-chain via user's AA wallet
-  // 2. Wait for confirmation
-  // 3. Get actual shares minted
-
-  // Calculate shares (simplified)
-  const totalShares = pool.totalShares.toNumber() || 1;
-  const poolValue = pool.totalDeposits.toNumber() || Number(amountRaw) / 1_000_000;
-  const sharesToMint = (Number(amountRaw) / 1_000_000) * (totalShares / poolValue);
-
-  // Update or create deposit
-  const existingDeposit = await prisma.liquidityDeposit.findUnique({
-    where: { userId_poolId: { userId, poolId: params.poolId } },
-  });
-
-  let depositId: string;
+  const poolAddress = requirePoolAddress(pool.address);
+  const wallet = await requireWallet(userId);
+  await requireBalance(wallet.address, amountRaw);
 
-  if (existingDeposit) {
-    const updated = await prisma.liquidityDeposit.update({
-      where: { id: existingDeposit.id },
-      data: {
-        shares: { increment: sharesToMint },
-        depositAmount: { increment: Number(amountRaw) / 1_000_000 },
-      },
-    });
-    depositId = updated.id;
-  } else {
-    const created = await prisma.liquidityDeposit.create({
-      data: {
-        userId,
-        poolId: params.poolId,
-        shares: sharesToMint,
-        depositAmount: Number(amountRaw) / 1_000_000,
-        depositIndex: pool.supplyIndex,
-      },
-    });
-    depositId = created.id;
-
-    // Increment depositor count
-    await prisma.liquidityPool.update({
-      where: { id: params.poolId },
-      data: { depositorCount: { increment: 1 } },
-    });
-  }
+  const [operation] = await submitPoolOperations(
+    wallet,
+    buildDepositCalls(USDC_ADDRESS, poolAddress, amountRaw),
+    [{ type: 'DEPOSIT', poolId: pool.id, amount: formatUnits(amountRaw, USDC_UNIT_DECIMALS) }]
+  );
 
-  // Update pool totals
-  await prisma.liquidityPool.update({
-    where: { id: params.poolId },
-    data: {
-      totalDeposits: { increment: Number(amountRaw) / 1_000_000 },
-      totalShares: { increment: sharesToMint },
-    },
-  });
+  const position = operation.status === 'CONFIRMED'
+    ? await prisma.liquidityDeposit.findUnique({
+        where: { userId_poolId: { userId, poolId: pool.id } },
+        select: { id: true },
+      })
+    : null;
 
   return {
-    success: true,
-    depositId,
-    shares: sharesToMint.toFixed(18),
-    txHash: undefined, // Would be set after on-chain confirmation
+    ...toOperationResult(operation),
+    ...(position && { depositId: position.id }),
+    ...(operation.status === 'CONFIRMED' && operation.shares && { shares: operation.shares.toString() }),
   };
 }
 
 /**
  * Withdraw USDC from a pool
+ *
+ * minAmountOut is set from the pool's share price now, less
+ * WITHDRAW_SLIPPAGE_BPS. The position only changes once Withdrawn is seen.
  */
 export async function withdraw(
   userId: string,
@@ -321,53 +310,34 @@ export async function withdraw(
     throw new Error('Insufficient shares');
   }
 
-  const pool = userDeposit.pool;
-
-  // Calculate USDC to return
-  const poolValue = pool.totalDeposits.toNumber();
-  const totalShares = pool.totalShares.toNumber();
-  const amountToReturn = (sharesToWithdraw * poolValue) / totalShares;
-
-  // TODO: In production:
-  // 1. Call pool.withdraw() on-chain via user's AA wallet
-  // 2. Wait for confirmation
-
-  // Update deposit
-  const newShares = userDeposit.shares.toNumber() - sharesToWithdraw;
-  if (newShares <= 0) {
-    // Remove deposit entirely
-    await prisma.liquidityDeposit.delete({
-      where: { id: userDeposit.id },
-    });
-
-    // Decrement depositor count
-    await prisma.liquidityPool.update({
-      where: { id: params.poolId },
-      data: { depositorCount: { decrement: 1 } },
-    });
-  } else {
-    await prisma.liquidityDeposit.update({
-      where: { id: userDeposit.id },
-      data: {
-        shares: newShares,
-        depositAmount: { decrement: amountToReturn },
-      },
-    });
-  }
+  const poolAddress = requirePoolAddress(userDeposit.pool.address);
+  const sharesRaw = parseUnits(params.shares, SHARE_DECIMALS);
 
-  // Update pool totals
-  await prisma.liquidityPool.update({
-    where: { id: params.poolId },
-    data: {
-      totalDeposits: { decrement: amountToReturn },
-      totalShares: { decrement: sharesToWithdraw },
-    },
+  const info = await publicClient.readContract({
+    address: poolAddress,
+    abi: POOL_ABI,
+    functionName: 'getPoolInfo',
   });
+  const minAmountOut = getMinAmountOut(sharesRaw, info.totalDeposits, info.totalShares);
+  const quoted = info.totalShares > 0n ? (sharesRaw * info.totalDeposits) / info.totalShares : 0n;
+
+  const wallet = await requireWallet(userId);
+  const [operation] = await submitPoolOperations(
+    wallet,
+    buildWithdrawCalls(poolAddress, sharesRaw, minAmountOut),
+    [
+      {
+        type: 'WITHDRAW',
+        poolId: params.poolId,
+        shares: params.shares,
+        amount: formatUnits(quoted, USDC_UNIT_DECIMALS),
+      },
+    ]
+  );
 
   return {
-    success: true,
-    amount: formatUSDC(Math.floor(amountToReturn * 1_000_000).toString()),
-    txHash: undefined, // Would be set after on-chain confirmation
+    ...toOperationResult(operation),
+    amount: operation.amount?.toFixed(USDC_UNIT_DECIMALS) ?? formatUnits(quoted, USDC_UNIT_DECIMALS),
   };
 }
 
@@ -375,6 +345,33 @@ export async function withdraw(
 // Helpers
 // ============================================================================
 
+/**
+ * Pool rows created before the factory was wired up hold placeholder addresses
+ */
+export function requirePoolAddress(address: string): Address {
+  if (!isAddress(address)) {
+    throw new Error('Pool is not deployed on chain');
+  }
+  return address;
+}
+
+async function requireBalance(walletAddress: string, amount: bigint): Promise<void> {
+  const balance = await getBalance(walletAddress);
+  if (balance.usdc < amount) {
+    throw new Error(`Insufficient USDC balance. Available: ${formatUSDC(balance.usdc)} USDC`);
+  }
+}
+
+export function toOperationResult(operation: LiquidityOperation): OperationResult {
+  return {
+    success: operation.status !== 'FAILED',
+    operationId: operation.id,
+    status: operation.status,
+    ...(operation.txHash && { txHash: operation.txHash }),
+    ...(operation.error && { error: operation.error }),
+  };
+}
+
 function mapPoolToInfo(pool: Prisma.LiquidityPoolGetPayload<object>): PoolInfo {
   return {
     id: pool.id,
@@ -5,7 +5,7 @@
  * Reference: docs/vlossom/11-defi-and-liquidity-architecture.md
  */
 
-import { PoolTier, PoolStatus } from '@prisma/client';
+import { PoolTier, PoolStatus, LiquidityOperationType, TransactionStatus } from '@prisma/client';
 import type { Prisma } from '@prisma/client';
 
 // Use Prisma.Decimal type for decimal operations
@@ -50,6 +50,51 @@ export interface CreatePoolParams {
   tier: PoolTier;
 }
 
+export type CreatePoolResult =
+  | { success: false; error?: string } // Not eligible for the tier
+  | (OperationResult & { pool?: PoolDetails }); // pool once the factory has deployed it
+
+// ============================================================================
+// On-chain Operation Types
+// ============================================================================
+
+/**
+ * A pool action sent from the user's wallet. Deposits, withdrawals, claims
+ * and new pools only show up elsewhere once `status` is CONFIRMED.
+ */
+export interface LiquidityOperationView {
+  id: string;
+  type: LiquidityOperationType;
+  status: TransactionStatus;
+  poolId: string | null;
+  poolName: string | null;
+  amount: string | null; // USDC
+  shares: string | null;
+  txHash: string | null;
+  error: string | null;
+  createdAt: Date;
+  confirmedAt: Date | null;
+}
+
+/**
+ * Common shape of deposit / withdraw / claim / create results. PENDING means
+ * the UserOperation was accepted but not mined before the request returned.
+ */
+export interface OperationResult {
+  success: boolean;
+  operationId: string;
+  status: TransactionStatus;
+  txHash?: string;
+  error?: string;
+}
+
+export interface ReconcileOperationsResult {
+  checked: number;
+  confirmed: number;
+  failed: number;
+  pending: number;
+}
+
 // ============================================================================
 // Deposit Types
 // ============================================================================
@@ -79,11 +124,9 @@ export interface DepositParams {
   amount: string; // USDC amount (e.g., "100.00")
 }
 
-export interface DepositResult {
-  success: boolean;
-  depositId: string;
-  shares: string;
-  txHash?: string;
+export interface DepositResult extends OperationResult {
+  depositId?: string; // Once confirmed
+  shares?: string; // Minted, once confirmed
 }
 
 export interface WithdrawParams {
@@ -91,10 +134,8 @@ export interface WithdrawParams {
   shares: string;
 }
 
-export interface WithdrawResult {
-  success: boolean;
-  amount: string; // USDC received
-  txHash?: string;
+export interface WithdrawResult extends OperationResult {
+  amount: string; // USDC received - quoted until confirmed
 }
 
 // ============================================================================
@@ -114,10 +155,9 @@ export interface YieldPosition {
   lastClaimAt: Date | null;
 }
 
-export interface ClaimResult {
-  success: boolean;
-  amount: string;
-  txHash?: string;
+export interface ClaimResult extends OperationResult {
+  poolId: string;
+  amount: string; // Quoted until confirmed
 }
 
 // ============================================================================
@@ -2,10 +2,12 @@
  * Yield Service
  *
  * Manages yield calculations, claims, and APY tracking.
+ * Claims run on chain - see operation-service.
  * Reference: docs/vlossom/11-defi-and-liquidity-architecture.md
  */
 
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, LiquidityDeposit, LiquidityPool } from '@prisma/client';
+import { isAddress } from 'viem';
 import {
   YieldSummary,
   YieldPosition,
@@ -13,6 +15,9 @@ import {
   PoolStatsResponse,
   formatUSDC,
 } from './types';
+import { buildClaimCalls } from './pool-calls';
+import { requireWallet, submitPoolOperations } from './operation-service';
+import { requirePoolAddress, toOperationResult } from './pool-service';
 
 const prisma = new PrismaClient();
 
@@ -67,7 +72,9 @@ export async function getYieldSummary(userId: string): Promise<YieldSummary> {
 }
 
 /**
- * Claim yield from a specific pool
+ * Claim yield from a specific pool from the user's wallet
+ *
+ * The claim is recorded once YieldClaimed is seen - until then it is PENDING.
  */
 export async function claimYield(
   userId: string,
@@ -82,48 +89,18 @@ export async function claimYield(
     throw new Error('No deposit found in this pool');
   }
 
-  const pool = deposit.pool;
-  const sharesNum = deposit.shares.toNumber();
-  const indexDelta = pool.supplyIndex.toNumber() - deposit.depositIndex.toNumber();
+  const yieldAmount = getClaimableYield(deposit);
 
-  if (indexDelta <= 0) {
+  if (yieldAmount <= 0) {
     throw new Error('No yield to claim');
   }
 
-  const yieldAmount = sharesNum * indexDelta;
-
-  // TODO: In production:
-  // 1. Call pool.claimYield() on-chain via user's AA wallet
-  // 2. Wait for confirmation
-
-  // Record the claim
-  await prisma.yieldClaim.create({
-    data: {
-      userId,
-      poolId,
-      amount: yieldAmount,
-      txHash: undefined, // Would be set after on-chain confirmation
-    },
-  });
-
-  // Update deposit index to current
-  await prisma.liquidityDeposit.update({
-    where: { id: deposit.id },
-    data: {
-      depositIndex: pool.supplyIndex,
-      lastClaimAt: new Date(),
-    },
-  });
-
-  return {
-    success: true,
-    amount: formatUSDC(Math.floor(yieldAmount * 1_000_000).toString()),
-    txHash: undefined,
-  };
+  const [result] = await submitClaims(userId, [{ ...deposit, yieldAmount }]);
+  return result;
 }
 
 /**
- * Claim yield from all pools
+ * Claim yield from all pools in a single UserOperation
  */
 export async function claimAllYield(userId: string): Promise<ClaimResult[]> {
   const deposits = await prisma.liquidityDeposit.findMany({
@@ -131,23 +108,47 @@ export async function claimAllYield(userId: string): Promise<ClaimResult[]> {
     include: { pool: true },
   });
 
-  const results: ClaimResult[] = [];
+  const claimable = deposits
+    .map((deposit) => ({ ...deposit, yieldAmount: getClaimableYield(deposit) }))
+    .filter((deposit) => deposit.yieldAmount > 0 && isAddress(deposit.pool.address));
 
-  for (const deposit of deposits) {
-    const pool = deposit.pool;
-    const indexDelta = pool.supplyIndex.toNumber() - deposit.depositIndex.toNumber();
-
-    if (indexDelta > 0) {
-      try {
-        const result = await claimYield(userId, pool.id);
-        results.push(result);
-      } catch (_error) {
-        // Skip pools with no yield
-      }
-    }
+  if (claimable.length === 0) {
+    return [];
   }
 
-  return results;
+  return submitClaims(userId, claimable);
+}
+
+/**
+ * Pending yield = shares * (current index - deposit index)
+ */
+function getClaimableYield(deposit: LiquidityDeposit & { pool: LiquidityPool }): number {
+  const indexDelta = deposit.pool.supplyIndex.toNumber() - deposit.depositIndex.toNumber();
+  return indexDelta > 0 ? deposit.shares.toNumber() * indexDelta : 0;
+}
+
+async function submitClaims(
+  userId: string,
+  claims: Array<LiquidityDeposit & { pool: LiquidityPool; yieldAmount: number }>
+): Promise<ClaimResult[]> {
+  const pools = claims.map((claim) => requirePoolAddress(claim.pool.address));
+  const wallet = await requireWallet(userId);
+
+  const operations = await submitPoolOperations(
+    wallet,
+    buildClaimCalls(pools),
+    claims.map((claim) => ({
+      type: 'CLAIM_YIELD' as const,
+      poolId: claim.poolId,
+      amount: claim.yieldAmount.toFixed(6),
+    }))
+  );
+
+  return operations.map((operation) => ({
+    ...toOperationResult(operation),
+    poolId: operation.poolId!,
+    amount: operation.amount?.toFixed(6) ?? '0.000000',
+  }));
 }
 
 // ============================================================================
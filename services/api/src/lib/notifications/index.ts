@@ -9,6 +9,7 @@ export {
   sendNotification,
   notifyBookingEvent,
   notifySpecialEventEvent,
+  notifyDisputeEvent,
   getUnreadCount,
   getUserNotifications,
   markAsRead,
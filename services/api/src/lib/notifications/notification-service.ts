@@ -184,6 +184,10 @@ export async function notifyBookingEvent(
     "SERVICE_STARTED",
     "BOOKING_CANCELLED",
     "BOOKING_REMINDER",
+    "BALANCE_DUE",
+    "OCCURRENCE_PAYMENT_DUE",
+    "WAITLIST_OFFER",
+    "RESCHEDULE_ACCEPTED",
   ];
 
   if (criticalEvents.includes(type)) {
@@ -344,3 +348,29 @@ export async function notifySpecialEventEvent(
     metadata,
   });
 }
+
+/**
+ * Send notification for dispute events
+ * Both booking parties are kept informed as a dispute moves through review
+ */
+export async function notifyDisputeEvent(
+  userId: string,
+  type: NotificationType,
+  metadata: NotificationMetadata
+): Promise<NotificationResult> {
+  const channels: NotificationChannel[] = ["IN_APP", "EMAIL", "PUSH"];
+
+  // Add SMS when a dispute is opened against the user or its status changes
+  const criticalEvents: NotificationType[] = ["DISPUTE_OPENED", "DISPUTE_STATUS_CHANGED"];
+
+  if (criticalEvents.includes(type)) {
+    channels.push("SMS");
+  }
+
+  return sendNotification({
+    userId,
+    type,
+    channels,
+    metadata,
+  });
+}
@@ -22,6 +22,145 @@ function formatDateTime(isoString: string): string {
   });
 }
 
+// Format dispute status/resolution enum for display (e.g. UNDER_REVIEW -> under review)
+function formatDisputeStatus(value?: string): string {
+  return value ? value.toLowerCase().replace(/_/g, " ") : "updated";
+}
+
+// PropertyRegistry changes, keyed by registryNotice
+function getPropertyNoticeContent(metadata: NotificationMetadata): { title: string; body: string } {
+  const name = metadata.propertyName || "Your property";
+  const reason = metadata.suspensionReason ? ` Reason: ${metadata.suspensionReason}.` : "";
+
+  switch (metadata.registryNotice) {
+    case "VERIFIED":
+      return { title: "Property Verified", body: `${name} has been verified and shows as verified to stylists.` };
+    case "SUSPENSION_REQUESTED":
+      return {
+        title: "Suspension Requested",
+        body: `${name} will be suspended${
+          metadata.suspensionExecuteAfter ? ` after ${formatDateTime(metadata.suspensionExecuteAfter)}` : " in 24 hours"
+        }.${reason} You can dispute this from your property dashboard before then.`,
+      };
+    case "SUSPENSION_CANCELLED":
+      return { title: "Suspension Cancelled", body: `The suspension of ${name} has been cancelled.` };
+    case "SUSPENDED":
+      return { title: "Property Suspended", body: `${name} has been suspended and is hidden from stylists.${reason}` };
+    case "UNSUSPENDED":
+      return { title: "Property Reinstated", body: `${name} is verified and visible to stylists again.` };
+    case "REVOKED":
+      return { title: "Property Revoked", body: `${name} has been permanently removed from Vlossom.` };
+    default:
+      return { title: "Property Updated", body: `The status of ${name} has changed.` };
+  }
+}
+
+// Guardian and social recovery changes, keyed by recoveryNotice
+function getWalletRecoveryContent(metadata: NotificationMetadata): { title: string; body: string } {
+  const owner = metadata.ownerName || "A Vlossom member";
+  const requester = metadata.requesterName || "Someone";
+  const approvals = `${metadata.approvalCount ?? 0} of ${metadata.minApprovals ?? 2} guardian approvals`;
+  const executeAfter = metadata.recoveryExecuteAfter ? formatDateTime(metadata.recoveryExecuteAfter) : "48 hours";
+
+  switch (metadata.recoveryNotice) {
+    case "GUARDIAN_ADDED":
+      return {
+        title: "You're a Recovery Guardian",
+        body: `${owner} added you as a guardian of their wallet. You'll be asked to approve if they ever need to recover it.`,
+      };
+    case "GUARDIAN_REMOVED":
+      return { title: "Guardian Role Ended", body: `${owner} removed you as a guardian of their wallet.` };
+    case "APPROVAL_REQUESTED":
+      return {
+        title: "Recovery Approval Needed",
+        body: `${requester} is asking to recover ${owner}'s wallet. Only approve if you've confirmed it's really them.`,
+      };
+    case "RECOVERY_REQUESTED":
+      return {
+        title: "Wallet Recovery Requested",
+        body: `${requester} asked your guardians to recover your wallet. If this wasn't you, cancel it from Security settings.`,
+      };
+    case "RECOVERY_STARTED":
+      return {
+        title: "Wallet Recovery Started",
+        body: `A guardian started the recovery. It can complete after ${executeAfter} with ${approvals}.`,
+      };
+    case "RECOVERY_APPROVED":
+      return { title: "Recovery Approved", body: `A guardian approved the wallet recovery - ${approvals}.` };
+    case "RECOVERY_EXECUTED":
+      return { title: "Wallet Recovered", body: `The wallet's new owner has been rotated in.` };
+    case "RECOVERY_CANCELLED":
+      return { title: "Recovery Cancelled", body: `The wallet recovery was cancelled.` };
+    case "RECOVERY_EXPIRED":
+      return {
+        title: "Recovery Request Expired",
+        body: `No guardian approved the recovery in time. You can ask again from your wallet.`,
+      };
+    default:
+      return { title: "Wallet Security Update", body: "There's an update on your wallet guardians." };
+  }
+}
+
+// Two-factor changes, keyed by securityNotice
+function getSecurityAlertContent(metadata: NotificationMetadata): { title: string; body: string } {
+  const method = metadata.twoFactorMethod === "SMS" ? "SMS codes" : "your authenticator app";
+
+  switch (metadata.securityNotice) {
+    case "TWO_FACTOR_ENABLED":
+      return {
+        title: "Two-Factor Authentication On",
+        body: `Sign-ins and money movement now need a code from ${method}. Keep your recovery codes somewhere safe.`,
+      };
+    case "TWO_FACTOR_DISABLED":
+      return {
+        title: "Two-Factor Authentication Off",
+        body: "Two-factor authentication was turned off. If this wasn't you, change your password now.",
+      };
+    case "RECOVERY_CODE_USED":
+      return {
+        title: "Recovery Code Used",
+        body: "One of your recovery codes was just used to verify your account. If this wasn't you, change your password now.",
+      };
+    case "RECOVERY_CODES_REGENERATED":
+      return { title: "New Recovery Codes", body: "Your recovery codes were replaced. The old ones no longer work." };
+    default:
+      return { title: "Account Security Update", body: "There's a change to your account security settings." };
+  }
+}
+
+// Stylist verification decisions, keyed by verificationNotice
+function getVerificationContent(metadata: NotificationMetadata): { title: string; body: string } {
+  const note = metadata.reviewNote ? ` ${metadata.reviewNote}` : "";
+
+  switch (metadata.verificationNotice) {
+    case "SUBMITTED":
+      return {
+        title: "Verification Submitted",
+        body: "Thanks - we've received your documents and will review them within 2 business days.",
+      };
+    case "APPROVED":
+      return {
+        title: "You're Verified",
+        body: "Your identity and credentials are confirmed. Clients now see the verified badge on your profile.",
+      };
+    case "REJECTED":
+      return {
+        title: "Verification Not Approved",
+        body: `We couldn't verify your documents.${note} You can submit a new set from your profile.`,
+      };
+    case "MORE_INFO_REQUESTED":
+      return {
+        title: "More Information Needed",
+        body: `We need a little more to verify you.${note} Add the documents from your profile and resubmit.`,
+      };
+    default:
+      return {
+        title: "Verification Updated",
+        body: `Your verification status is now ${metadata.verificationStatus?.toLowerCase() || "updated"}.`,
+      };
+  }
+}
+
 /**
  * Get notification title and body for in-app display
  */
@@ -165,6 +304,106 @@ export function getInAppContent(
         }`,
       };
 
+    // Disputes
+    case "DISPUTE_OPENED":
+      return {
+        title: "Dispute Opened",
+        body: `A dispute "${metadata.disputeTitle || "about your booking"}" has been opened. Our team will review it and you can add your side in the dispute thread.`,
+      };
+
+    case "DISPUTE_STATUS_CHANGED":
+      return {
+        title: "Dispute Updated",
+        body: `Your dispute "${metadata.disputeTitle || "about your booking"}" is now ${formatDisputeStatus(metadata.disputeStatus)}.${
+          metadata.disputeResolution ? ` Outcome: ${formatDisputeStatus(metadata.disputeResolution)}.` : ""
+        }`,
+      };
+
+    case "DISPUTE_MESSAGE_RECEIVED":
+      return {
+        title: "New Dispute Message",
+        body: `${metadata.senderName || "Someone"} replied on the dispute "${metadata.disputeTitle || "about your booking"}".`,
+      };
+
+    // Deposits
+    case "BALANCE_DUE":
+      return {
+        title: "Balance Due",
+        body: `The remaining ${metadata.amount ? formatPrice(metadata.amount) : "balance"} for your ${
+          metadata.serviceType || "booking"
+        } is now due${
+          metadata.balanceDeadline ? ` - please pay by ${formatDateTime(metadata.balanceDeadline)}` : ""
+        }. Unpaid balances cancel the booking and the deposit is kept.`,
+      };
+
+    case "BOOKING_ADJUSTED":
+      return {
+        title: "Booking Updated",
+        body: `${metadata.stylistName || "Your stylist"} adjusted your ${metadata.serviceType || "booking"}${
+          metadata.amount ? ` - the new total is ${formatPrice(metadata.amount)}` : ""
+        }. Review the changes before you pay.`,
+      };
+
+    case "OCCURRENCE_PAYMENT_DUE":
+      return {
+        title: "Payment Open",
+        body: `Your next ${metadata.serviceType || "appointment"} with ${
+          metadata.stylistName || "your stylist"
+        } is ${metadata.scheduledTime ? formatDateTime(metadata.scheduledTime) : "coming up"}. Please pay${
+          metadata.paymentDeadline ? ` by ${formatDateTime(metadata.paymentDeadline)}` : ""
+        } to keep your spot.`,
+      };
+
+    case "WAITLIST_OFFER":
+      return {
+        title: "A Slot Opened Up",
+        body: `${metadata.stylistName || "Your stylist"} has a ${metadata.serviceType || "booking"} slot on ${
+          metadata.scheduledTime ? formatDateTime(metadata.scheduledTime) : "your waitlist dates"
+        }. Accept${
+          metadata.offerExpiresAt ? ` by ${formatDateTime(metadata.offerExpiresAt)}` : " soon"
+        } - the first to accept gets it.`,
+      };
+
+    case "RESCHEDULE_PROPOSED":
+      return {
+        title: "New Time Proposed",
+        body: `${metadata.proposerName || "The other party"} would like to move your ${
+          metadata.serviceType || "booking"
+        }${
+          metadata.proposedTimes?.length
+            ? ` to ${metadata.proposedTimes.map((t) => formatDateTime(t)).join(" or ")}`
+            : ""
+        }. Accept a time or keep the current one.`,
+      };
+
+    case "RESCHEDULE_ACCEPTED":
+      return {
+        title: "Booking Rescheduled",
+        body: `Your ${metadata.serviceType || "booking"} has moved${
+          metadata.previousScheduledTime ? ` from ${formatDateTime(metadata.previousScheduledTime)}` : ""
+        } to ${metadata.scheduledTime ? formatDateTime(metadata.scheduledTime) : "a new time"}.`,
+      };
+
+    case "RESCHEDULE_REJECTED":
+      return {
+        title: "Reschedule Declined",
+        body: `Your proposed new time was declined${
+          metadata.rescheduleNote ? `: ${metadata.rescheduleNote}` : ""
+        }. The booking stays on ${metadata.scheduledTime ? formatDateTime(metadata.scheduledTime) : "its current time"}.`,
+      };
+
+    case "PROPERTY_STATUS_CHANGED":
+      return getPropertyNoticeContent(metadata);
+
+    case "WALLET_RECOVERY":
+      return getWalletRecoveryContent(metadata);
+
+    case "SECURITY_ALERT":
+      return getSecurityAlertContent(metadata);
+
+    case "VERIFICATION_STATUS_CHANGED":
+      return getVerificationContent(metadata);
+
     default:
       return {
         title: "Notification",
@@ -329,6 +568,68 @@ export function getSMSContent(
       message = `Vlossom: Your special event has been cancelled. Open app for details.`;
       break;
 
+    // Disputes
+    case "DISPUTE_OPENED":
+      message = `Vlossom: A dispute has been opened on one of your bookings. Open app to respond.`;
+      break;
+
+    case "DISPUTE_STATUS_CHANGED":
+      message = `Vlossom: Your dispute is now ${formatDisputeStatus(metadata.disputeStatus)}. Open app for details.`;
+      break;
+
+    case "DISPUTE_MESSAGE_RECEIVED":
+      message = `Vlossom: New reply on your dispute. Open app to view.`;
+      break;
+
+    // Deposits
+    case "BALANCE_DUE":
+      message = `Vlossom: Your balance of ${
+        metadata.amount ? formatPrice(metadata.amount) : "the remaining amount"
+      } is due. Open app to pay and keep your booking.`;
+      break;
+
+    case "BOOKING_ADJUSTED":
+      message = `Vlossom: Your booking was updated${
+        metadata.amount ? ` - new total ${formatPrice(metadata.amount)}` : ""
+      }. Open app to review before paying.`;
+      break;
+
+    case "OCCURRENCE_PAYMENT_DUE":
+      message = `Vlossom: Your next appointment is ${
+        metadata.scheduledTime ? formatDateTime(metadata.scheduledTime) : "coming up"
+      }. Open app to pay and keep your spot.`;
+      break;
+
+    case "WAITLIST_OFFER":
+      message = `Vlossom: A slot opened up${
+        metadata.scheduledTime ? ` on ${formatDateTime(metadata.scheduledTime)}` : ""
+      }. Open app to accept - first come, first served.`;
+      break;
+
+    case "RESCHEDULE_ACCEPTED":
+      message = `Vlossom: Your booking has moved to ${
+        metadata.scheduledTime ? formatDateTime(metadata.scheduledTime) : "a new time"
+      }.`;
+      break;
+
+    case "PROPERTY_STATUS_CHANGED":
+      message = `Vlossom: ${getPropertyNoticeContent(metadata).title} - ${
+        metadata.propertyName || "your property"
+      }. Open app for details.`;
+      break;
+
+    case "WALLET_RECOVERY":
+      message = `Vlossom: ${getWalletRecoveryContent(metadata).title}. Open app for details.`;
+      break;
+
+    case "SECURITY_ALERT":
+      message = `Vlossom: ${getSecurityAlertContent(metadata).title}. If this wasn't you, contact support.`;
+      break;
+
+    case "VERIFICATION_STATUS_CHANGED":
+      message = `Vlossom: ${getVerificationContent(metadata).title}. Open app for details.`;
+      break;
+
     default:
       message = "Vlossom: You have a new notification. Open the app to view.";
   }
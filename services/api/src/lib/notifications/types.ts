@@ -37,6 +37,51 @@ export interface NotificationMetadata {
   quoteAmount?: number;
   quoteStylistName?: string;
   quoteValidUntil?: string;
+  // Disputes
+  disputeId?: string;
+  disputeTitle?: string;
+  disputeStatus?: string;
+  disputeResolution?: string;
+  // Deposits
+  balanceDeadline?: string;
+  paymentLeg?: string;
+  // Recurring bookings
+  seriesId?: string;
+  occurrenceCount?: number;
+  paymentDeadline?: string;
+  // Waitlist
+  offerId?: string;
+  waitlistEntryId?: string;
+  offerExpiresAt?: string;
+  // Rescheduling
+  proposalId?: string;
+  proposerName?: string;
+  proposedTimes?: string[];
+  previousScheduledTime?: string;
+  rescheduleNote?: string;
+  // PropertyRegistry
+  propertyId?: string;
+  propertyName?: string;
+  registryNotice?: string;
+  suspensionReason?: string;
+  suspensionExecuteAfter?: string;
+  // Social recovery
+  recoveryId?: string;
+  recoveryNotice?: string;
+  walletAddress?: string;
+  ownerName?: string;
+  requesterName?: string;
+  guardianName?: string;
+  approvalCount?: number;
+  minApprovals?: number;
+  recoveryExecuteAfter?: string;
+  // Account security
+  securityNotice?: string;
+  twoFactorMethod?: string;
+  // Stylist verification
+  verificationNotice?: string;
+  verificationStatus?: string;
+  reviewNote?: string;
   [key: string]: unknown;
 }
 
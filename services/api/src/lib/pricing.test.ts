@@ -1,4 +1,5 @@
 import {
+  calculateFeeDiscount,
   calculatePlatformFee,
   calculateStylistPayout,
   calculateBookingPricing,
@@ -136,10 +137,16 @@ describe('Pricing Module', () => {
 
       expect(pricing.quoteAmountCents).toBe(10000n);
       expect(pricing.platformFeeCents).toBe(1000n);
-      expect(pricing.stylistPayoutCents).toBe(9000n);
+      expect(pricing.stylistPayoutCents).toBe(8500n); // Chair fee comes out of the stylist share
       expect(pricing.propertyPayoutCents).toBe(500n);
     });
 
+    it('should reject a property payout larger than the stylist share', () => {
+      expect(() => calculateBookingPricing(10000n, 9001n)).toThrow();
+      expect(() => calculateBookingPricing(10000n, -1n)).toThrow();
+      expect(calculateBookingPricing(10000n, 9000n).stylistPayoutCents).toBe(0n);
+    });
+
     it('should default property payout to 0 if not provided', () => {
       const pricing = calculateBookingPricing(5000n);
       expect(pricing.propertyPayoutCents).toBe(0n);
@@ -180,6 +187,33 @@ describe('Pricing Module', () => {
     });
   });
 
+  describe('reward tier fee discounts', () => {
+    it('should waive a percentage of the platform fee', () => {
+      expect(calculateFeeDiscount(1000n, 5)).toBe(50n);
+      expect(calculateFeeDiscount(1000n, 15)).toBe(150n);
+      expect(calculateFeeDiscount(1234n, 10)).toBe(123n); // rounds down
+    });
+
+    it('should not discount for tiers without a discount', () => {
+      expect(calculateFeeDiscount(1000n, 0)).toBe(0n);
+      expect(calculateFeeDiscount(1000n, -5)).toBe(0n);
+    });
+
+    it('should take the discount off the quote and the platform fee, not the stylist', () => {
+      const pricing = calculateBookingPricing(10000n, 500n, 10);
+
+      expect(pricing.feeDiscountCents).toBe(100n);
+      expect(pricing.quoteAmountCents).toBe(9900n);
+      expect(pricing.platformFeeCents).toBe(900n);
+      expect(pricing.stylistPayoutCents).toBe(8500n);
+      expect(validatePricing(pricing)).toBe(true);
+    });
+
+    it('should record no discount by default', () => {
+      expect(calculateBookingPricing(10000n).feeDiscountCents).toBe(0n);
+    });
+  });
+
   describe('validatePricing', () => {
     it('should return true for valid pricing without property payout', () => {
       const pricing: BookingPricing = {
@@ -187,6 +221,7 @@ describe('Pricing Module', () => {
         platformFeeCents: 1000n,
         stylistPayoutCents: 9000n,
         propertyPayoutCents: 0n,
+        feeDiscountCents: 0n,
       };
 
       expect(validatePricing(pricing)).toBe(true);
@@ -196,8 +231,9 @@ describe('Pricing Module', () => {
       const pricing: BookingPricing = {
         quoteAmountCents: 10000n,
         platformFeeCents: 1000n,
-        stylistPayoutCents: 9000n, // Property payout is separate, doesn't reduce stylist payout
+        stylistPayoutCents: 8500n, // Property payout is part of the split
         propertyPayoutCents: 500n,
+        feeDiscountCents: 0n,
       };
 
       expect(validatePricing(pricing)).toBe(true);
@@ -209,6 +245,7 @@ describe('Pricing Module', () => {
         platformFeeCents: 1000n,
         stylistPayoutCents: 8000n, // Wrong amount
         propertyPayoutCents: 0n,
+        feeDiscountCents: 0n,
       };
 
       expect(validatePricing(pricing)).toBe(false);
@@ -220,6 +257,7 @@ describe('Pricing Module', () => {
         platformFeeCents: 1000n,
         stylistPayoutCents: 10000n, // Too much
         propertyPayoutCents: 0n,
+        feeDiscountCents: 0n,
       };
 
       expect(validatePricing(pricing)).toBe(false);
@@ -231,6 +269,7 @@ describe('Pricing Module', () => {
         platformFeeCents: 1000n,
         stylistPayoutCents: 8000n, // Too little
         propertyPayoutCents: 0n,
+        feeDiscountCents: 0n,
       };
 
       expect(validatePricing(pricing)).toBe(false);
@@ -248,8 +287,7 @@ describe('Pricing Module', () => {
       const propertyPayout = 500n;
       const pricing = calculateBookingPricing(serviceAmount, propertyPayout);
 
-      // Note: With property payout, validation should still pass
-      // because property payout is a separate amount, not part of the split
+      // Platform, stylist and property shares add up to the quote
       expect(validatePricing(pricing)).toBe(true);
     });
 
@@ -259,6 +297,7 @@ describe('Pricing Module', () => {
         platformFeeCents: 0n,
         stylistPayoutCents: 0n,
         propertyPayoutCents: 0n,
+        feeDiscountCents: 0n,
       };
 
       expect(validatePricing(pricing)).toBe(true);
@@ -307,7 +346,7 @@ describe('Pricing Module', () => {
 
       expect(pricing.quoteAmountCents).toBe(10000n);
       expect(pricing.platformFeeCents).toBe(1000n); // $10.00
-      expect(pricing.stylistPayoutCents).toBe(9000n); // $90.00
+      expect(pricing.stylistPayoutCents).toBe(8000n); // $80.00
       expect(pricing.propertyPayoutCents).toBe(1000n); // $10.00
       expect(validatePricing(pricing)).toBe(true);
     });
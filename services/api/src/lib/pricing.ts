@@ -15,6 +15,15 @@ export function calculatePlatformFee(serviceAmountCents: bigint): bigint {
   return (serviceAmountCents * BigInt(PLATFORM_FEE_PERCENTAGE)) / BigInt(100);
 }
 
+/**
+ * Part of the platform fee waived for a customer's reward tier
+ * (TIER_BENEFITS.feeDiscount, a percentage of the fee)
+ */
+export function calculateFeeDiscount(platformFeeCents: bigint, feeDiscountPercentage: number): bigint {
+  if (feeDiscountPercentage <= 0) return BigInt(0);
+  return (platformFeeCents * BigInt(Math.min(feeDiscountPercentage, 100))) / BigInt(100);
+}
+
 /**
  * Calculate stylist payout (service amount - platform fee)
  */
@@ -25,34 +34,50 @@ export function calculateStylistPayout(serviceAmountCents: bigint): bigint {
 
 /**
  * Calculate full booking pricing breakdown
+ *
+ * The property payout (salon chair fee) is part of the split: it comes out of
+ * the stylist's share, so the escrowed quote covers platform, stylist and owner.
+ *
+ * A reward-tier fee discount is funded by the platform: the customer's quote
+ * and the platform fee both drop by it, and the stylist's share is unchanged.
  */
 export interface BookingPricing {
   quoteAmountCents: bigint;
   platformFeeCents: bigint;
   stylistPayoutCents: bigint;
   propertyPayoutCents: bigint;
+  feeDiscountCents: bigint;
 }
 
 export function calculateBookingPricing(
   serviceAmountCents: bigint,
-  propertyPayoutCents: bigint = BigInt(0)
+  propertyPayoutCents: bigint = BigInt(0),
+  feeDiscountPercentage: number = 0
 ): BookingPricing {
-  const platformFee = calculatePlatformFee(serviceAmountCents);
-  const stylistPayout = serviceAmountCents - platformFee;
+  const fullPlatformFee = calculatePlatformFee(serviceAmountCents);
+  const stylistShare = serviceAmountCents - fullPlatformFee;
+  const feeDiscount = calculateFeeDiscount(fullPlatformFee, feeDiscountPercentage);
+
+  if (propertyPayoutCents < BigInt(0) || propertyPayoutCents > stylistShare) {
+    throw new Error(
+      `Property payout ${propertyPayoutCents} exceeds stylist share ${stylistShare}`
+    );
+  }
 
   return {
-    quoteAmountCents: serviceAmountCents,
-    platformFeeCents: platformFee,
-    stylistPayoutCents: stylistPayout,
+    quoteAmountCents: serviceAmountCents - feeDiscount,
+    platformFeeCents: fullPlatformFee - feeDiscount,
+    stylistPayoutCents: stylistShare - propertyPayoutCents,
     propertyPayoutCents,
+    feeDiscountCents: feeDiscount,
   };
 }
 
 /**
  * Validate that pricing components add up correctly
- * Note: Property payout is separate from the quote amount split
  */
 export function validatePricing(pricing: BookingPricing): boolean {
-  const total = pricing.platformFeeCents + pricing.stylistPayoutCents;
+  const total =
+    pricing.platformFeeCents + pricing.stylistPayoutCents + pricing.propertyPayoutCents;
   return total === pricing.quoteAmountCents;
 }
@@ -0,0 +1,31 @@
+/**
+ * Property Registry Module
+ * Unified exports for registering properties in the on-chain PropertyRegistry
+ * Reference: docs/vlossom/17-property-owner-and-chair-rental-module.md
+ */
+
+export * from "./types";
+export {
+  toRegistryPropertyId,
+  hashPropertyMetadata,
+  toDbRegistryStatus,
+  getRegistryMirror,
+  getRegistryDrift,
+  getRegistryNotice,
+  checkRegistryAction,
+} from "./registry-rules";
+export { PROPERTY_REGISTRY_ADDRESS, getRegistryProperty } from "./registry-client";
+export {
+  registerProperty,
+  verifyProperty,
+  requestPropertySuspension,
+  executePropertySuspension,
+  cancelPropertySuspension,
+  resolvePropertyDispute,
+  unsuspendProperty,
+  revokeProperty,
+  raisePropertyDispute,
+  getPropertyRegistryView,
+  syncProperty,
+  syncPropertyRegistry,
+} from "./property-registry-service";
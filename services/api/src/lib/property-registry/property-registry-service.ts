@@ -0,0 +1,585 @@
+/**
+ * Property Registry Service
+ * Registers properties in the on-chain PropertyRegistry and keeps the
+ * Property rows in step with it
+ * Reference: docs/vlossom/17-property-owner-and-chair-rental-module.md
+ *
+ * Flow:
+ * 1. Property created -> registerProperty runs from the owner's smart wallet as
+ *    a sponsored UserOperation, so the registry records the wallet as owner
+ * 2. Admin verifies -> the relayer calls verifyProperty and isVerified is set
+ * 3. Admin requests a suspension -> the owner is notified and has 24h to
+ *    dispute it from their wallet. Undisputed suspensions are executed by the
+ *    sync job once the window ends; disputed ones wait for an admin ruling
+ * 4. Every write re-reads the registry and mirrors it, the indexer mirrors
+ *    events, and the sync job corrects anything either of them missed
+ *
+ * The chain is the source of truth - the Property columns are only ever
+ * written from what the registry reports.
+ */
+
+import type { Property } from "@prisma/client";
+import type { Address, Hex } from "viem";
+import prisma from "../prisma";
+import { logger } from "../logger";
+import { buildExecuteCallData, checkWalletDeployed, executeUserOp, getWallet, markWalletDeployed } from "../wallet";
+import { sendNotification } from "../notifications";
+import {
+  PROPERTY_REGISTRY_ADDRESS,
+  encodeRaiseDispute,
+  encodeRegisterProperty,
+  getRegistryProperty,
+  sendRegistryAdminCall,
+  type RegistryAdminCall,
+} from "./registry-client";
+import {
+  checkRegistryAction,
+  getRegistryDrift,
+  getRegistryMirror,
+  getRegistryNotice,
+  hashPropertyMetadata,
+  toRegistryPropertyId,
+} from "./registry-rules";
+import {
+  MAX_REGISTRATIONS_PER_RUN,
+  MAX_SYNCS_PER_RUN,
+  type PropertyRegistryMirror,
+  type PropertyRegistryResult,
+  type PropertyRegistrySyncResult,
+  type PropertyRegistryView,
+  type RegistryAction,
+  type RegistryActionResult,
+  type RegistryPropertyState,
+} from "./types";
+
+function toMirror(property: Property): PropertyRegistryMirror {
+  return {
+    registryStatus: property.registryStatus,
+    registryOwner: property.registryOwner,
+    isVerified: property.isVerified,
+    isActive: property.isActive,
+    suspensionRequestedAt: property.suspensionRequestedAt,
+    suspensionReason: property.suspensionReason,
+    suspensionExecuteAfter: property.suspensionExecuteAfter,
+    suspensionDisputedAt: property.suspensionDisputedAt,
+  };
+}
+
+async function readRegistry(
+  registryId: Hex
+): Promise<PropertyRegistryResult<RegistryPropertyState | null>> {
+  try {
+    return { success: true, data: await getRegistryProperty(registryId) };
+  } catch (error) {
+    logger.error("Failed to read PropertyRegistry", {
+      registryId,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return { success: false, error: "PROPERTY_REGISTRY_UNAVAILABLE" };
+  }
+}
+
+/**
+ * Tell the owner about a registry change, best effort
+ */
+async function notifyOwner(property: Property, before: PropertyRegistryMirror, after: PropertyRegistryMirror) {
+  const notice = getRegistryNotice(before, after);
+  if (!notice) {
+    return;
+  }
+
+  try {
+    await sendNotification({
+      userId: property.ownerId,
+      type: "PROPERTY_STATUS_CHANGED",
+      channels: ["IN_APP", "EMAIL", "PUSH"],
+      metadata: {
+        propertyId: property.id,
+        propertyName: property.name,
+        registryNotice: notice,
+        suspensionReason: after.suspensionReason ?? before.suspensionReason ?? undefined,
+        suspensionExecuteAfter: after.suspensionExecuteAfter?.toISOString(),
+      },
+    });
+  } catch (error) {
+    logger.warn("Failed to notify property owner", {
+      propertyId: property.id,
+      notice,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+}
+
+/**
+ * Write the registry state onto the property and stamp the sync time
+ *
+ * @returns Whether any mirrored column was wrong
+ */
+async function applyRegistryState(
+  property: Property,
+  chain: RegistryPropertyState,
+  now: Date = new Date()
+): Promise<{ mirror: PropertyRegistryMirror; corrected: boolean }> {
+  const current = toMirror(property);
+  const mirror = getRegistryMirror(chain, current, now);
+  const drift = getRegistryDrift(current, mirror);
+
+  await prisma.property.update({
+    where: { id: property.id },
+    data: { ...mirror, registrySyncedAt: now },
+  });
+
+  if (drift.length > 0) {
+    logger.info("Property mirrored from PropertyRegistry", { propertyId: property.id, drift });
+    await notifyOwner(property, current, mirror);
+  }
+
+  return { mirror, corrected: drift.length > 0 };
+}
+
+async function getRegisteredProperty(
+  propertyId: string
+): Promise<PropertyRegistryResult<{ property: Property; registryId: Hex; chain: RegistryPropertyState }>> {
+  if (!PROPERTY_REGISTRY_ADDRESS) {
+    return { success: false, error: "PROPERTY_REGISTRY_NOT_CONFIGURED" };
+  }
+
+  const property = await prisma.property.findUnique({ where: { id: propertyId } });
+  if (!property) {
+    return { success: false, error: "PROPERTY_NOT_FOUND" };
+  }
+  if (!property.registryId) {
+    return { success: false, error: "PROPERTY_NOT_REGISTERED" };
+  }
+
+  const registryId = property.registryId as Hex;
+  const chain = await readRegistry(registryId);
+  if (!chain.success) {
+    return { success: false, error: chain.error };
+  }
+  if (!chain.data) {
+    return { success: false, error: "PROPERTY_NOT_REGISTERED", details: { registryId } };
+  }
+
+  return { success: true, data: { property, registryId, chain: chain.data } };
+}
+
+/**
+ * Register a property from its owner's smart wallet
+ *
+ * Safe to retry: a property already on chain (e.g. the UserOperation landed
+ * but the response was lost) is linked instead of registered again.
+ */
+export async function registerProperty(propertyId: string): Promise<PropertyRegistryResult<Property>> {
+  if (!PROPERTY_REGISTRY_ADDRESS) {
+    return { success: false, error: "PROPERTY_REGISTRY_NOT_CONFIGURED" };
+  }
+
+  const property = await prisma.property.findUnique({ where: { id: propertyId } });
+  if (!property) {
+    return { success: false, error: "PROPERTY_NOT_FOUND" };
+  }
+  if (property.registryStatus) {
+    return { success: false, error: "PROPERTY_ALREADY_REGISTERED", details: { registryId: property.registryId } };
+  }
+
+  // Recorded so the sync job moves on to other properties before retrying this one
+  const failRegistration = async (
+    error: string,
+    reason: string,
+    details: Record<string, unknown> = { reason }
+  ): Promise<PropertyRegistryResult<Property>> => {
+    await prisma.property.update({ where: { id: propertyId }, data: { registryError: reason } });
+    logger.error("Failed to register property", { propertyId, reason });
+    return { success: false, error, details };
+  };
+
+  const wallet = await getWallet(property.ownerId);
+  if (!wallet) {
+    return failRegistration("WALLET_NOT_FOUND", "Owner has no wallet", { userId: property.ownerId });
+  }
+
+  const registryId = toRegistryPropertyId(property.id);
+  const existing = await readRegistry(registryId);
+  if (!existing.success) {
+    return { success: false, error: existing.error };
+  }
+
+  let chain = existing.data;
+  let txHash: string | null = null;
+
+  if (!chain) {
+    const callData = buildExecuteCallData(
+      PROPERTY_REGISTRY_ADDRESS,
+      0n,
+      encodeRegisterProperty(registryId, hashPropertyMetadata(property))
+    );
+
+    const isDeployed = wallet.isDeployed || (await checkWalletDeployed(wallet.address));
+    const result = await executeUserOp({
+      sender: wallet.address as Address,
+      userId: wallet.userId,
+      callData,
+      isDeployed,
+    });
+
+    if (!result.success) {
+      return failRegistration("PROPERTY_REGISTRATION_FAILED", result.error || "UserOperation failed");
+    }
+
+    if (!wallet.isDeployed) {
+      await markWalletDeployed(wallet.id);
+    }
+
+    // A mined UserOperation can still have reverted inside the wallet
+    const registered = await readRegistry(registryId);
+    if (!registered.success) {
+      return { success: false, error: registered.error };
+    }
+    if (!registered.data) {
+      return failRegistration(
+        "PROPERTY_REGISTRATION_FAILED",
+        `Registration not found on chain after ${result.txHash}`
+      );
+    }
+
+    chain = registered.data;
+    txHash = result.txHash ?? null;
+  }
+
+  if (chain.owner.toLowerCase() !== wallet.address.toLowerCase()) {
+    logger.warn("Property registered to a different wallet", {
+      propertyId,
+      registryOwner: chain.owner,
+      walletAddress: wallet.address,
+    });
+  }
+
+  const now = new Date();
+  const updated = await prisma.property.update({
+    where: { id: propertyId },
+    data: {
+      ...getRegistryMirror(chain, toMirror(property), now),
+      registryId,
+      registryTxHash: txHash ?? property.registryTxHash,
+      registeredAt: chain.registeredAt,
+      registrySyncedAt: now,
+      registryError: null,
+    },
+  });
+
+  logger.info("Property registered in PropertyRegistry", { propertyId, registryId, txHash });
+
+  return { success: true, data: updated };
+}
+
+/**
+ * Run a relayer admin call after checking it against the registry, then mirror the result
+ */
+async function runAdminAction(
+  propertyId: string,
+  action: RegistryAction,
+  toCall: (registryId: Hex) => RegistryAdminCall,
+  options: { upholdSuspension?: boolean } = {}
+): Promise<PropertyRegistryResult<RegistryActionResult>> {
+  const registered = await getRegisteredProperty(propertyId);
+  if (!registered.success || !registered.data) {
+    return { success: false, error: registered.error, details: registered.details };
+  }
+
+  const { property, registryId, chain } = registered.data;
+
+  const invalid = checkRegistryAction(action, chain, new Date(), options);
+  if (invalid) {
+    // The DB may have been showing a stale state - fix it while we're here
+    await applyRegistryState(property, chain);
+    return {
+      success: false,
+      error: "PROPERTY_REGISTRY_ACTION_INVALID",
+      details: { action, reason: invalid, registryStatus: chain.status },
+    };
+  }
+
+  let txHash;
+  try {
+    txHash = await sendRegistryAdminCall(toCall(registryId));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : "Unknown error";
+    logger.error("PropertyRegistry transaction failed", { propertyId, action, error: reason });
+    return { success: false, error: "TRANSACTION_FAILED", details: { action, reason } };
+  }
+
+  const after = await readRegistry(registryId);
+  if (!after.success || !after.data) {
+    // The transaction is mined; the indexer or next sync will mirror it
+    return { success: true, data: { txHash, mirror: toMirror(property) } };
+  }
+
+  const { mirror } = await applyRegistryState(property, after.data);
+
+  return { success: true, data: { txHash, mirror } };
+}
+
+/**
+ * Verify a pending property
+ */
+export async function verifyProperty(propertyId: string) {
+  return runAdminAction(propertyId, "VERIFY", (registryId) => ({ functionName: "verifyProperty", registryId }));
+}
+
+/**
+ * Start the 24h suspension timelock
+ */
+export async function requestPropertySuspension(propertyId: string, reason: string) {
+  return runAdminAction(propertyId, "REQUEST_SUSPENSION", (registryId) => ({
+    functionName: "requestSuspension",
+    registryId,
+    reason,
+  }));
+}
+
+/**
+ * Suspend once an undisputed request's window has ended
+ */
+export async function executePropertySuspension(propertyId: string) {
+  return runAdminAction(propertyId, "EXECUTE_SUSPENSION", (registryId) => ({
+    functionName: "executeSuspension",
+    registryId,
+  }));
+}
+
+/**
+ * Drop a pending suspension request
+ */
+export async function cancelPropertySuspension(propertyId: string) {
+  return runAdminAction(propertyId, "CANCEL_SUSPENSION", (registryId) => ({
+    functionName: "cancelSuspension",
+    registryId,
+  }));
+}
+
+/**
+ * Rule on an owner's dispute - upholding suspends, otherwise the request is cancelled
+ */
+export async function resolvePropertyDispute(propertyId: string, upholdSuspension: boolean) {
+  return runAdminAction(
+    propertyId,
+    "RESOLVE_DISPUTE",
+    (registryId) => ({ functionName: "resolveDispute", registryId, upholdSuspension }),
+    { upholdSuspension }
+  );
+}
+
+/**
+ * Return a suspended property to verified
+ */
+export async function unsuspendProperty(propertyId: string) {
+  return runAdminAction(propertyId, "UNSUSPEND", (registryId) => ({
+    functionName: "unsuspendProperty",
+    registryId,
+  }));
+}
+
+/**
+ * Revoke a property permanently
+ */
+export async function revokeProperty(propertyId: string) {
+  return runAdminAction(propertyId, "REVOKE", (registryId) => ({ functionName: "revokeProperty", registryId }));
+}
+
+/**
+ * Dispute a pending suspension from the owner's smart wallet
+ */
+export async function raisePropertyDispute(
+  propertyId: string,
+  ownerId: string
+): Promise<PropertyRegistryResult<RegistryActionResult>> {
+  const registered = await getRegisteredProperty(propertyId);
+  if (!registered.success || !registered.data) {
+    return { success: false, error: registered.error, details: registered.details };
+  }
+
+  const { property, registryId, chain } = registered.data;
+  if (property.ownerId !== ownerId) {
+    return { success: false, error: "FORBIDDEN" };
+  }
+
+  const invalid = checkRegistryAction("RAISE_DISPUTE", chain);
+  if (invalid) {
+    await applyRegistryState(property, chain);
+    return {
+      success: false,
+      error: "PROPERTY_REGISTRY_ACTION_INVALID",
+      details: { action: "RAISE_DISPUTE", reason: invalid },
+    };
+  }
+
+  const wallet = await getWallet(ownerId);
+  if (!wallet) {
+    return { success: false, error: "WALLET_NOT_FOUND", details: { userId: ownerId } };
+  }
+  if (wallet.address.toLowerCase() !== chain.owner.toLowerCase()) {
+    return { success: false, error: "FORBIDDEN", details: { reason: "Property is registered to a different wallet" } };
+  }
+
+  const isDeployed = wallet.isDeployed || (await checkWalletDeployed(wallet.address));
+  const result = await executeUserOp({
+    sender: wallet.address as Address,
+    userId: wallet.userId,
+    callData: buildExecuteCallData(PROPERTY_REGISTRY_ADDRESS as Address, 0n, encodeRaiseDispute(registryId)),
+    isDeployed,
+  });
+
+  if (!result.success || !result.txHash) {
+    logger.error("Failed to raise property dispute", { propertyId, error: result.error });
+    return { success: false, error: "TRANSACTION_FAILED", details: { reason: result.error } };
+  }
+
+  const after = await readRegistry(registryId);
+  if (!after.success || !after.data) {
+    return { success: true, data: { txHash: result.txHash as Hex, mirror: toMirror(property) } };
+  }
+  if (!after.data.suspension?.disputed) {
+    return {
+      success: false,
+      error: "TRANSACTION_FAILED",
+      details: { reason: `Dispute not found on chain after ${result.txHash}` },
+    };
+  }
+
+  const { mirror } = await applyRegistryState(property, after.data);
+
+  return { success: true, data: { txHash: result.txHash as Hex, mirror } };
+}
+
+/**
+ * Compare a property with the registry without changing anything
+ */
+export async function getPropertyRegistryView(
+  propertyId: string
+): Promise<PropertyRegistryResult<PropertyRegistryView>> {
+  const property = await prisma.property.findUnique({ where: { id: propertyId } });
+  if (!property) {
+    return { success: false, error: "PROPERTY_NOT_FOUND" };
+  }
+
+  const database = toMirror(property);
+  const view: PropertyRegistryView = {
+    propertyId,
+    registryAddress: PROPERTY_REGISTRY_ADDRESS,
+    registryId: property.registryId,
+    database,
+    onChain: null,
+    drift: [],
+  };
+
+  if (!PROPERTY_REGISTRY_ADDRESS || !property.registryId) {
+    return { success: true, data: view };
+  }
+
+  const chain = await readRegistry(property.registryId as Hex);
+  if (!chain.success) {
+    return { success: false, error: chain.error };
+  }
+
+  if (chain.data) {
+    view.onChain = chain.data;
+    view.drift = getRegistryDrift(database, getRegistryMirror(chain.data, database));
+  }
+
+  return { success: true, data: view };
+}
+
+/**
+ * Mirror one property from the registry now
+ */
+export async function syncProperty(propertyId: string): Promise<PropertyRegistryResult<PropertyRegistryMirror>> {
+  const registered = await getRegisteredProperty(propertyId);
+  if (!registered.success || !registered.data) {
+    return { success: false, error: registered.error, details: registered.details };
+  }
+
+  const { mirror } = await applyRegistryState(registered.data.property, registered.data.chain);
+
+  return { success: true, data: mirror };
+}
+
+/**
+ * Run one sync pass (scheduler, through the internal API)
+ *
+ * 1. Mirror the least recently synced registered properties from the chain
+ * 2. Execute suspensions whose dispute window ended without a dispute
+ * 3. Register properties whose registration failed or never ran
+ */
+export async function syncPropertyRegistry(): Promise<PropertyRegistryResult<PropertyRegistrySyncResult>> {
+  if (!PROPERTY_REGISTRY_ADDRESS) {
+    return { success: false, error: "PROPERTY_REGISTRY_NOT_CONFIGURED" };
+  }
+
+  const result: PropertyRegistrySyncResult = {
+    checked: 0,
+    corrected: 0,
+    registered: 0,
+    suspensionsExecuted: 0,
+    failed: 0,
+  };
+
+  const registered = await prisma.property.findMany({
+    where: { registryId: { not: null } },
+    orderBy: { registrySyncedAt: { sort: "asc", nulls: "first" } },
+    take: MAX_SYNCS_PER_RUN,
+  });
+
+  const now = new Date();
+
+  for (const property of registered) {
+    const chain = await readRegistry(property.registryId as Hex);
+    if (!chain.success) {
+      // RPC trouble affects every property - stop rather than fail them all
+      return { success: false, error: chain.error, details: { ...result } };
+    }
+
+    result.checked++;
+
+    if (!chain.data) {
+      logger.warn("Property linked to a registry id that is not on chain", {
+        propertyId: property.id,
+        registryId: property.registryId,
+      });
+      result.failed++;
+      continue;
+    }
+
+    const { corrected } = await applyRegistryState(property, chain.data, now);
+    if (corrected) {
+      result.corrected++;
+    }
+
+    if (chain.data.suspension && checkRegistryAction("EXECUTE_SUSPENSION", chain.data, now) === null) {
+      const executed = await executePropertySuspension(property.id);
+      if (executed.success) {
+        result.suspensionsExecuted++;
+      } else {
+        result.failed++;
+      }
+    }
+  }
+
+  const unregistered = await prisma.property.findMany({
+    where: { registryId: null, isActive: true },
+    orderBy: { updatedAt: "asc" },
+    take: MAX_REGISTRATIONS_PER_RUN,
+    select: { id: true },
+  });
+
+  for (const { id } of unregistered) {
+    const registration = await registerProperty(id);
+    if (registration.success) {
+      result.registered++;
+    } else {
+      result.failed++;
+    }
+  }
+
+  return { success: true, data: result };
+}
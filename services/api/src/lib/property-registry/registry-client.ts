@@ -0,0 +1,273 @@
+/**
+ * Property Registry Client
+ * Access to contracts/property/PropertyRegistry.sol
+ *
+ * Registration and disputes must come from the owner's smart wallet, so those
+ * are only encoded here and sent as UserOperations. Verification, suspension
+ * and revocation are onlyOwner - the relayer must own the registry. Its key
+ * comes from Secrets Manager, as for escrow.
+ */
+
+import {
+  createWalletClient,
+  encodeFunctionData,
+  http,
+  type Account,
+  type Address,
+  type Chain,
+  type Hash,
+  type Hex,
+  type Transport,
+} from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { CHAIN, RPC_URL, publicClient } from "../wallet/chain-client";
+import { getRelayerPrivateKey } from "../secrets-manager";
+import { toDbRegistryStatus } from "./registry-rules";
+import type { RegistryPropertyState } from "./types";
+
+export const PROPERTY_REGISTRY_ADDRESS = (process.env.PROPERTY_REGISTRY_ADDRESS || null) as Address | null;
+
+const PROPERTY_REGISTRY_ABI = [
+  {
+    type: "function",
+    name: "registerProperty",
+    inputs: [
+      { name: "propertyId", type: "bytes32" },
+      { name: "metadataHash", type: "bytes32" },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "raiseDispute",
+    inputs: [{ name: "propertyId", type: "bytes32" }],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "verifyProperty",
+    inputs: [{ name: "propertyId", type: "bytes32" }],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "requestSuspension",
+    inputs: [
+      { name: "propertyId", type: "bytes32" },
+      { name: "reason", type: "string" },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "executeSuspension",
+    inputs: [{ name: "propertyId", type: "bytes32" }],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "cancelSuspension",
+    inputs: [{ name: "propertyId", type: "bytes32" }],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "resolveDispute",
+    inputs: [
+      { name: "propertyId", type: "bytes32" },
+      { name: "upholdSuspension", type: "bool" },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "unsuspendProperty",
+    inputs: [{ name: "propertyId", type: "bytes32" }],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "revokeProperty",
+    inputs: [{ name: "propertyId", type: "bytes32" }],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "getProperty",
+    inputs: [{ name: "propertyId", type: "bytes32" }],
+    outputs: [
+      { name: "owner", type: "address" },
+      { name: "metadataHash", type: "bytes32" },
+      { name: "status", type: "uint8" },
+      { name: "registeredAt", type: "uint256" },
+      { name: "updatedAt", type: "uint256" },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getSuspensionRequest",
+    inputs: [{ name: "propertyId", type: "bytes32" }],
+    outputs: [
+      { name: "requestedAt", type: "uint256" },
+      { name: "reason", type: "string" },
+      { name: "isActive", type: "bool" },
+      { name: "disputed", type: "bool" },
+      { name: "executeAfter", type: "uint256" },
+    ],
+    stateMutability: "view",
+  },
+] as const;
+
+type BoundWalletClient = ReturnType<typeof createWalletClient<Transport, Chain, Account>>;
+
+let walletClientInstance: BoundWalletClient | null = null;
+
+async function getWalletClient(): Promise<BoundWalletClient> {
+  if (!walletClientInstance) {
+    const account = privateKeyToAccount(await getRelayerPrivateKey());
+    walletClientInstance = createWalletClient({ account, chain: CHAIN, transport: http(RPC_URL) });
+  }
+  return walletClientInstance;
+}
+
+function requireRegistryAddress(): Address {
+  if (!PROPERTY_REGISTRY_ADDRESS) {
+    throw new Error("PROPERTY_REGISTRY_ADDRESS not configured");
+  }
+  return PROPERTY_REGISTRY_ADDRESS;
+}
+
+/**
+ * Calldata for registerProperty, to run from the owner's wallet
+ */
+export function encodeRegisterProperty(registryId: Hex, metadataHash: Hex): Hex {
+  return encodeFunctionData({
+    abi: PROPERTY_REGISTRY_ABI,
+    functionName: "registerProperty",
+    args: [registryId, metadataHash],
+  });
+}
+
+/**
+ * Calldata for raiseDispute, to run from the owner's wallet
+ */
+export function encodeRaiseDispute(registryId: Hex): Hex {
+  return encodeFunctionData({
+    abi: PROPERTY_REGISTRY_ABI,
+    functionName: "raiseDispute",
+    args: [registryId],
+  });
+}
+
+/**
+ * Admin calls the relayer sends as registry owner
+ */
+export type RegistryAdminCall =
+  | { functionName: "verifyProperty"; registryId: Hex }
+  | { functionName: "requestSuspension"; registryId: Hex; reason: string }
+  | { functionName: "executeSuspension"; registryId: Hex }
+  | { functionName: "cancelSuspension"; registryId: Hex }
+  | { functionName: "resolveDispute"; registryId: Hex; upholdSuspension: boolean }
+  | { functionName: "unsuspendProperty"; registryId: Hex }
+  | { functionName: "revokeProperty"; registryId: Hex };
+
+/**
+ * Send an admin call from the relayer and wait for it to be mined
+ *
+ * @returns The mined transaction hash
+ */
+export async function sendRegistryAdminCall(call: RegistryAdminCall): Promise<Hash> {
+  const walletClient = await getWalletClient();
+  const address = requireRegistryAddress();
+
+  let hash: Hash;
+  switch (call.functionName) {
+    case "requestSuspension":
+      hash = await walletClient.writeContract({
+        address,
+        abi: PROPERTY_REGISTRY_ABI,
+        functionName: "requestSuspension",
+        args: [call.registryId, call.reason],
+      });
+      break;
+    case "resolveDispute":
+      hash = await walletClient.writeContract({
+        address,
+        abi: PROPERTY_REGISTRY_ABI,
+        functionName: "resolveDispute",
+        args: [call.registryId, call.upholdSuspension],
+      });
+      break;
+    default:
+      hash = await walletClient.writeContract({
+        address,
+        abi: PROPERTY_REGISTRY_ABI,
+        functionName: call.functionName,
+        args: [call.registryId],
+      });
+  }
+
+  const receipt = await publicClient.waitForTransactionReceipt({ hash });
+  if (receipt.status !== "success") {
+    throw new Error(`${call.functionName} reverted (${hash})`);
+  }
+  return hash;
+}
+
+/**
+ * Read a property and its pending suspension from the registry
+ *
+ * @returns null when the property was never registered
+ */
+export async function getRegistryProperty(registryId: Hex): Promise<RegistryPropertyState | null> {
+  const address = requireRegistryAddress();
+
+  const [property, suspension] = await Promise.all([
+    publicClient.readContract({
+      address,
+      abi: PROPERTY_REGISTRY_ABI,
+      functionName: "getProperty",
+      args: [registryId],
+    }),
+    publicClient.readContract({
+      address,
+      abi: PROPERTY_REGISTRY_ABI,
+      functionName: "getSuspensionRequest",
+      args: [registryId],
+    }),
+  ]);
+
+  const [owner, metadataHash, status, registeredAt, updatedAt] = property;
+  if (registeredAt === 0n) {
+    return null;
+  }
+
+  const [requestedAt, reason, isActive, disputed, executeAfter] = suspension;
+
+  return {
+    registryId,
+    owner,
+    metadataHash,
+    status: toDbRegistryStatus(status),
+    registeredAt: new Date(Number(registeredAt) * 1000),
+    updatedAt: new Date(Number(updatedAt) * 1000),
+    suspension: isActive
+      ? {
+          requestedAt: new Date(Number(requestedAt) * 1000),
+          reason,
+          disputed,
+          executeAfter: new Date(Number(executeAfter) * 1000),
+        }
+      : null,
+  };
+}
@@ -0,0 +1,191 @@
+import {
+  checkRegistryAction,
+  getRegistryDrift,
+  getRegistryMirror,
+  getRegistryNotice,
+  hashPropertyMetadata,
+  toDbRegistryStatus,
+  toRegistryPropertyId,
+} from './registry-rules';
+import type { PropertyRegistryMirror, RegistryPropertyState } from './types';
+
+describe('Property Registry Rules', () => {
+  const now = new Date('2026-12-10T12:00:00Z');
+  const owner = '0x1234567890123456789012345678901234567890';
+
+  const chain: RegistryPropertyState = {
+    registryId: toRegistryPropertyId('property-1'),
+    owner,
+    metadataHash: '0x00',
+    status: 'VERIFIED',
+    registeredAt: new Date('2026-12-01T00:00:00Z'),
+    updatedAt: new Date('2026-12-02T00:00:00Z'),
+    suspension: null,
+  };
+
+  const mirror: PropertyRegistryMirror = {
+    registryStatus: 'VERIFIED',
+    registryOwner: owner,
+    isVerified: true,
+    isActive: true,
+    suspensionRequestedAt: null,
+    suspensionReason: null,
+    suspensionExecuteAfter: null,
+    suspensionDisputedAt: null,
+  };
+
+  const pendingSuspension = {
+    requestedAt: new Date('2026-12-10T00:00:00Z'),
+    reason: 'Failed health inspection',
+    disputed: false,
+    executeAfter: new Date('2026-12-11T00:00:00Z'),
+  };
+
+  describe('encoding', () => {
+    it('should derive a stable bytes32 id per property', () => {
+      expect(toRegistryPropertyId('property-1')).toMatch(/^0x[0-9a-f]{64}$/);
+      expect(toRegistryPropertyId('property-1')).toBe(toRegistryPropertyId('property-1'));
+      expect(toRegistryPropertyId('property-1')).not.toBe(toRegistryPropertyId('property-2'));
+    });
+
+    it('should hash listing details so any change is detectable', () => {
+      const property = {
+        id: 'property-1',
+        name: 'Crown Studio',
+        address: '12 Long Street',
+        city: 'Cape Town',
+        country: 'ZA',
+        lat: -33.92,
+        lng: 18.42,
+      };
+
+      expect(hashPropertyMetadata(property)).toBe(hashPropertyMetadata({ ...property }));
+      expect(hashPropertyMetadata(property)).not.toBe(hashPropertyMetadata({ ...property, address: '14 Long Street' }));
+    });
+
+    it('should map registry statuses and reject unknown ones', () => {
+      expect([0, 1, 2, 3].map(toDbRegistryStatus)).toEqual(['PENDING', 'VERIFIED', 'SUSPENDED', 'REVOKED']);
+      expect(() => toDbRegistryStatus(4)).toThrow();
+    });
+  });
+
+  describe('getRegistryMirror', () => {
+    it('should only verify properties the registry has verified', () => {
+      const pending = getRegistryMirror({ ...chain, status: 'PENDING' }, { ...mirror, registryStatus: null, isVerified: false }, now);
+
+      expect(pending).toMatchObject({ registryStatus: 'PENDING', isVerified: false, isActive: true });
+      expect(getRegistryMirror(chain, pending, now)).toMatchObject({ registryStatus: 'VERIFIED', isVerified: true });
+    });
+
+    it('should deactivate suspended properties and reactivate them only on unsuspend', () => {
+      const suspended = getRegistryMirror({ ...chain, status: 'SUSPENDED' }, mirror, now);
+      expect(suspended).toMatchObject({ isVerified: false, isActive: false });
+
+      expect(getRegistryMirror(chain, suspended, now).isActive).toBe(true);
+    });
+
+    it('should leave a deleted listing deleted when it is verified', () => {
+      const deleted = { ...mirror, registryStatus: 'PENDING' as const, isVerified: false, isActive: false };
+
+      expect(getRegistryMirror(chain, deleted, now).isActive).toBe(false);
+    });
+
+    it('should copy a pending suspension and keep the first time a dispute was seen', () => {
+      const requested = getRegistryMirror({ ...chain, suspension: pendingSuspension }, mirror, now);
+      expect(requested).toMatchObject({
+        suspensionRequestedAt: pendingSuspension.requestedAt,
+        suspensionReason: pendingSuspension.reason,
+        suspensionExecuteAfter: pendingSuspension.executeAfter,
+        suspensionDisputedAt: null,
+      });
+
+      const disputedChain = { ...chain, suspension: { ...pendingSuspension, disputed: true } };
+      const disputed = getRegistryMirror(disputedChain, requested, now);
+      expect(disputed.suspensionDisputedAt).toEqual(now);
+
+      const later = new Date(now.getTime() + 60_000);
+      expect(getRegistryMirror(disputedChain, disputed, later).suspensionDisputedAt).toEqual(now);
+    });
+  });
+
+  describe('getRegistryDrift', () => {
+    it('should report nothing when the database matches', () => {
+      expect(getRegistryDrift(mirror, getRegistryMirror(chain, mirror, now))).toEqual([]);
+    });
+
+    it('should ignore address casing but catch status and suspension changes', () => {
+      const current = { ...mirror, registryOwner: owner.toUpperCase().replace('0X', '0x') };
+      const expected = getRegistryMirror({ ...chain, status: 'SUSPENDED' }, current, now);
+
+      expect(getRegistryDrift(current, expected)).toEqual(['registryStatus', 'isVerified', 'isActive']);
+      expect(getRegistryDrift(mirror, getRegistryMirror({ ...chain, suspension: pendingSuspension }, mirror, now))).toEqual([
+        'suspensionRequestedAt',
+        'suspensionReason',
+        'suspensionExecuteAfter',
+      ]);
+    });
+  });
+
+  describe('getRegistryNotice', () => {
+    const pending = { ...mirror, registryStatus: 'PENDING' as const, isVerified: false };
+    const requested = { ...mirror, suspensionRequestedAt: pendingSuspension.requestedAt };
+    const suspended = { ...mirror, registryStatus: 'SUSPENDED' as const, isVerified: false, isActive: false };
+
+    it('should tell the owner about status changes but not their own registration', () => {
+      expect(getRegistryNotice({ ...pending, registryStatus: null }, pending)).toBeNull();
+      expect(getRegistryNotice(pending, mirror)).toBe('VERIFIED');
+      expect(getRegistryNotice(requested, suspended)).toBe('SUSPENDED');
+      expect(getRegistryNotice(suspended, mirror)).toBe('UNSUSPENDED');
+      expect(getRegistryNotice(mirror, { ...mirror, registryStatus: 'REVOKED' })).toBe('REVOKED');
+    });
+
+    it('should tell the owner when a suspension is requested or dropped', () => {
+      expect(getRegistryNotice(mirror, requested)).toBe('SUSPENSION_REQUESTED');
+      expect(getRegistryNotice(requested, mirror)).toBe('SUSPENSION_CANCELLED');
+      expect(getRegistryNotice(requested, { ...requested, suspensionDisputedAt: now })).toBeNull();
+    });
+  });
+
+  describe('checkRegistryAction', () => {
+    const withSuspension = { ...chain, suspension: pendingSuspension };
+    const disputed = { ...chain, suspension: { ...pendingSuspension, disputed: true } };
+    const afterWindow = new Date('2026-12-11T00:00:00Z');
+
+    it('should verify only pending properties', () => {
+      expect(checkRegistryAction('VERIFY', { ...chain, status: 'PENDING' }, now)).toBeNull();
+      expect(checkRegistryAction('VERIFY', chain, now)).not.toBeNull();
+    });
+
+    it('should allow one suspension request at a time', () => {
+      expect(checkRegistryAction('REQUEST_SUSPENSION', chain, now)).toBeNull();
+      expect(checkRegistryAction('REQUEST_SUSPENSION', withSuspension, now)).not.toBeNull();
+      expect(checkRegistryAction('REQUEST_SUSPENSION', { ...chain, status: 'REVOKED' }, now)).not.toBeNull();
+    });
+
+    it('should execute suspensions only after an undisputed window', () => {
+      expect(checkRegistryAction('EXECUTE_SUSPENSION', withSuspension, now)).not.toBeNull();
+      expect(checkRegistryAction('EXECUTE_SUSPENSION', withSuspension, afterWindow)).toBeNull();
+      expect(checkRegistryAction('EXECUTE_SUSPENSION', disputed, afterWindow)).not.toBeNull();
+    });
+
+    it('should let the owner dispute a pending suspension once', () => {
+      expect(checkRegistryAction('RAISE_DISPUTE', chain, now)).not.toBeNull();
+      expect(checkRegistryAction('RAISE_DISPUTE', withSuspension, now)).toBeNull();
+      expect(checkRegistryAction('RAISE_DISPUTE', disputed, now)).not.toBeNull();
+    });
+
+    it('should keep the timelock when upholding a disputed suspension', () => {
+      expect(checkRegistryAction('RESOLVE_DISPUTE', withSuspension, now)).not.toBeNull();
+      expect(checkRegistryAction('RESOLVE_DISPUTE', disputed, now, { upholdSuspension: false })).toBeNull();
+      expect(checkRegistryAction('RESOLVE_DISPUTE', disputed, now, { upholdSuspension: true })).not.toBeNull();
+      expect(checkRegistryAction('RESOLVE_DISPUTE', disputed, afterWindow, { upholdSuspension: true })).toBeNull();
+    });
+
+    it('should unsuspend only suspended properties and revoke anything not revoked', () => {
+      expect(checkRegistryAction('UNSUSPEND', chain, now)).not.toBeNull();
+      expect(checkRegistryAction('UNSUSPEND', { ...chain, status: 'SUSPENDED' }, now)).toBeNull();
+      expect(checkRegistryAction('REVOKE', { ...chain, status: 'SUSPENDED' }, now)).toBeNull();
+      expect(checkRegistryAction('REVOKE', { ...chain, status: 'REVOKED' }, now)).not.toBeNull();
+    });
+  });
+});
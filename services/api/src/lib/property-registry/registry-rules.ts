@@ -0,0 +1,208 @@
+/**
+ * Property Registry Rules
+ * Pure id/metadata encoding, status mirroring and action checks for PropertyRegistry
+ */
+
+import type { PropertyRegistryStatus } from "@prisma/client";
+import { keccak256, toBytes, type Hex } from "viem";
+import {
+  RegistryPropertyStatus,
+  type PropertyRegistryMirror,
+  type PropertyRegistryNotice,
+  type RegistryAction,
+  type RegistryPropertyState,
+} from "./types";
+
+const DB_STATUS: Record<RegistryPropertyStatus, PropertyRegistryStatus> = {
+  [RegistryPropertyStatus.Pending]: "PENDING",
+  [RegistryPropertyStatus.Verified]: "VERIFIED",
+  [RegistryPropertyStatus.Suspended]: "SUSPENDED",
+  [RegistryPropertyStatus.Revoked]: "REVOKED",
+};
+
+/**
+ * bytes32 registry id for a property, hashed the same way as escrow ids
+ */
+export function toRegistryPropertyId(propertyId: string): Hex {
+  return keccak256(toBytes(propertyId));
+}
+
+/**
+ * Hash of the listing details the owner is registering
+ *
+ * Anyone holding the Property row can recompute it to check the registration.
+ */
+export function hashPropertyMetadata(property: {
+  id: string;
+  name: string;
+  address: string;
+  city: string;
+  country: string;
+  lat: number;
+  lng: number;
+}): Hex {
+  return keccak256(
+    toBytes(
+      JSON.stringify([
+        property.id,
+        property.name,
+        property.address,
+        property.city,
+        property.country,
+        property.lat,
+        property.lng,
+      ])
+    )
+  );
+}
+
+/**
+ * PropertyRegistry.PropertyStatus -> PropertyRegistryStatus
+ */
+export function toDbRegistryStatus(status: number): PropertyRegistryStatus {
+  const mapped = DB_STATUS[status as RegistryPropertyStatus];
+  if (!mapped) {
+    throw new Error(`Unknown PropertyRegistry status ${status}`);
+  }
+  return mapped;
+}
+
+/**
+ * Property columns as they should be for the registry's current state
+ *
+ * Suspension and revocation deactivate the listing and only unsuspending
+ * reactivates it, so verifying a property the owner deleted leaves it deleted.
+ * The registry doesn't record when a dispute was raised, so the first time
+ * one is seen is used.
+ */
+export function getRegistryMirror(
+  chain: RegistryPropertyState,
+  current: PropertyRegistryMirror,
+  now: Date = new Date()
+): PropertyRegistryMirror {
+  let isActive = current.isActive;
+  if (chain.status === "SUSPENDED" || chain.status === "REVOKED") {
+    isActive = false;
+  } else if (chain.status === "VERIFIED" && current.registryStatus === "SUSPENDED") {
+    isActive = true;
+  }
+
+  const suspension = chain.suspension;
+
+  return {
+    registryStatus: chain.status,
+    registryOwner: chain.owner,
+    isVerified: chain.status === "VERIFIED",
+    isActive,
+    suspensionRequestedAt: suspension?.requestedAt ?? null,
+    suspensionReason: suspension?.reason ?? null,
+    suspensionExecuteAfter: suspension?.executeAfter ?? null,
+    suspensionDisputedAt: suspension?.disputed ? current.suspensionDisputedAt ?? now : null,
+  };
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime();
+  }
+  if (typeof a === "string" && typeof b === "string") {
+    // Addresses may differ only in checksum casing
+    return a.toLowerCase() === b.toLowerCase();
+  }
+  return a === b;
+}
+
+/**
+ * Mirror columns whose database value differs from the expected one
+ */
+export function getRegistryDrift(
+  current: PropertyRegistryMirror,
+  expected: PropertyRegistryMirror
+): (keyof PropertyRegistryMirror)[] {
+  return (Object.keys(expected) as (keyof PropertyRegistryMirror)[]).filter(
+    (key) => !sameValue(current[key], expected[key])
+  );
+}
+
+/**
+ * What changed for the owner between two mirrors, if anything worth telling them
+ *
+ * Registration and the owner's own disputes aren't notices.
+ */
+export function getRegistryNotice(
+  before: PropertyRegistryMirror,
+  after: PropertyRegistryMirror
+): PropertyRegistryNotice | null {
+  if (before.registryStatus !== after.registryStatus && before.registryStatus !== null) {
+    switch (after.registryStatus) {
+      case "VERIFIED":
+        return before.registryStatus === "SUSPENDED" ? "UNSUSPENDED" : "VERIFIED";
+      case "SUSPENDED":
+        return "SUSPENDED";
+      case "REVOKED":
+        return "REVOKED";
+    }
+  }
+
+  if (!before.suspensionRequestedAt && after.suspensionRequestedAt) {
+    return "SUSPENSION_REQUESTED";
+  }
+  if (before.suspensionRequestedAt && !after.suspensionRequestedAt && after.registryStatus === before.registryStatus) {
+    return "SUSPENSION_CANCELLED";
+  }
+
+  return null;
+}
+
+/**
+ * Check an action against the registry state before sending it
+ *
+ * Mirrors the contract's own checks so a doomed transaction isn't sent.
+ *
+ * @returns Why the action isn't allowed, or null when it is
+ */
+export function checkRegistryAction(
+  action: RegistryAction,
+  state: RegistryPropertyState,
+  now: Date = new Date(),
+  options: { upholdSuspension?: boolean } = {}
+): string | null {
+  const suspension = state.suspension;
+  const delayMet = suspension !== null && now.getTime() >= suspension.executeAfter.getTime();
+
+  switch (action) {
+    case "VERIFY":
+      return state.status === "PENDING" ? null : "Only pending properties can be verified";
+
+    case "REQUEST_SUSPENSION":
+      if (state.status === "SUSPENDED" || state.status === "REVOKED") {
+        return `Property is already ${state.status.toLowerCase()}`;
+      }
+      return suspension ? "A suspension is already pending" : null;
+
+    case "EXECUTE_SUSPENSION":
+      if (!suspension) return "No suspension is pending";
+      if (suspension.disputed) return "The owner has disputed this suspension - resolve the dispute instead";
+      return delayMet ? null : "The dispute window has not ended yet";
+
+    case "CANCEL_SUSPENSION":
+      return suspension ? null : "No suspension is pending";
+
+    case "RAISE_DISPUTE":
+      if (!suspension) return "No suspension is pending";
+      return suspension.disputed ? "This suspension is already disputed" : null;
+
+    case "RESOLVE_DISPUTE":
+      if (!suspension?.disputed) return "No dispute is open";
+      if (options.upholdSuspension && !delayMet) {
+        return "A suspension can't be upheld before the dispute window ends";
+      }
+      return null;
+
+    case "UNSUSPEND":
+      return state.status === "SUSPENDED" ? null : "Only suspended properties can be unsuspended";
+
+    case "REVOKE":
+      return state.status === "REVOKED" ? "Property is already revoked" : null;
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Property Registry Types
+ * Registering properties in the on-chain PropertyRegistry and mirroring its state
+ * Reference: docs/vlossom/17-property-owner-and-chair-rental-module.md
+ */
+
+import type { PropertyRegistryStatus } from "@prisma/client";
+import type { Address, Hash, Hex } from "viem";
+
+/**
+ * Unregistered properties the sync job tries to register per run
+ */
+export const MAX_REGISTRATIONS_PER_RUN = 10;
+
+/**
+ * Registered properties the sync job checks against the chain per run,
+ * least recently synced first
+ */
+export const MAX_SYNCS_PER_RUN = 100;
+
+/**
+ * PropertyRegistry.PropertyStatus
+ */
+export enum RegistryPropertyStatus {
+  Pending = 0,
+  Verified = 1,
+  Suspended = 2,
+  Revoked = 3,
+}
+
+/**
+ * A property as the registry holds it, with any pending suspension
+ */
+export interface RegistryPropertyState {
+  registryId: Hex;
+  owner: Address;
+  metadataHash: Hex;
+  status: PropertyRegistryStatus;
+  registeredAt: Date;
+  updatedAt: Date;
+  suspension: {
+    requestedAt: Date;
+    reason: string;
+    disputed: boolean;
+    executeAfter: Date;
+  } | null;
+}
+
+/**
+ * The Property columns that mirror the registry
+ */
+export interface PropertyRegistryMirror {
+  registryStatus: PropertyRegistryStatus | null;
+  registryOwner: string | null;
+  isVerified: boolean;
+  isActive: boolean;
+  suspensionRequestedAt: Date | null;
+  suspensionReason: string | null;
+  suspensionExecuteAfter: Date | null;
+  suspensionDisputedAt: Date | null;
+}
+
+/**
+ * Admin and owner actions on a registered property
+ */
+export type RegistryAction =
+  | "VERIFY"
+  | "REQUEST_SUSPENSION"
+  | "EXECUTE_SUSPENSION"
+  | "CANCEL_SUSPENSION"
+  | "RAISE_DISPUTE"
+  | "RESOLVE_DISPUTE"
+  | "UNSUSPEND"
+  | "REVOKE";
+
+/**
+ * Registry changes the owner is told about
+ */
+export type PropertyRegistryNotice =
+  | "VERIFIED"
+  | "SUSPENSION_REQUESTED"
+  | "SUSPENSION_CANCELLED"
+  | "SUSPENDED"
+  | "UNSUSPENDED"
+  | "REVOKED";
+
+/**
+ * Property with its registry state, for admin review and the owner dashboard
+ */
+export interface PropertyRegistryView {
+  propertyId: string;
+  registryAddress: Address | null;
+  registryId: string | null;
+  database: PropertyRegistryMirror;
+  onChain: RegistryPropertyState | null;
+  /** Mirror columns that differ from the chain */
+  drift: (keyof PropertyRegistryMirror)[];
+}
+
+export interface RegistryActionResult {
+  txHash: Hash;
+  mirror: PropertyRegistryMirror;
+}
+
+export interface PropertyRegistrySyncResult {
+  checked: number;
+  corrected: number;
+  registered: number;
+  suspensionsExecuted: number;
+  failed: number;
+}
+
+/**
+ * Result of a property registry operation.
+ * `error` is an ERROR_CODES key so routes can map it directly.
+ */
+export interface PropertyRegistryResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  details?: Record<string, unknown>;
+}
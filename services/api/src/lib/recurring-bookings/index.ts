@@ -0,0 +1,27 @@
+/**
+ * Recurring Bookings Module
+ * Unified exports for standing appointments (booking series)
+ * Reference: docs/vlossom/07-booking-and-approval-flow.md
+ */
+
+export * from "./types";
+export {
+  validateRecurrenceRule,
+  getOccurrenceStart,
+  generateOccurrences,
+  getOccurrencePaymentWindow,
+  isOccurrencePaymentOpen,
+} from "./recurrence";
+export {
+  checkSeriesAvailability,
+  createSeries,
+  listSeriesForUser,
+  getSeriesForUser,
+  refreshSeriesStatus,
+  syncSeriesOccurrenceCancelled,
+  approveSeries,
+  declineSeries,
+  cancelSeriesOccurrences,
+  notifyOccurrencePaymentDue,
+  expireUnpaidOccurrence,
+} from "./recurring-booking-service";
@@ -0,0 +1,133 @@
+import {
+  generateOccurrences,
+  getOccurrencePaymentWindow,
+  getOccurrenceStart,
+  isOccurrencePaymentOpen,
+  validateRecurrenceRule,
+} from './recurrence';
+import {
+  OCCURRENCE_PAYMENT_CUTOFF_HOURS,
+  OCCURRENCE_PAYMENT_WINDOW_HOURS,
+  RECURRENCE_LIMITS,
+} from './types';
+
+describe('Recurrence Rules', () => {
+  const startTime = new Date('2026-01-05T09:00:00Z'); // Monday
+
+  describe('validateRecurrenceRule', () => {
+    it('should require an end date or a count', () => {
+      expect(validateRecurrenceRule({ frequency: 'WEEKLY', startTime })).toMatch(/endDate or an occurrenceCount/);
+    });
+
+    it('should accept a count within limits', () => {
+      expect(validateRecurrenceRule({ frequency: 'WEEKLY', startTime, occurrenceCount: 8 })).toBeNull();
+    });
+
+    it('should reject counts outside limits', () => {
+      expect(validateRecurrenceRule({ frequency: 'WEEKLY', startTime, occurrenceCount: 1 })).not.toBeNull();
+      expect(
+        validateRecurrenceRule({
+          frequency: 'WEEKLY',
+          startTime,
+          occurrenceCount: RECURRENCE_LIMITS.MAX_OCCURRENCES + 1,
+        })
+      ).not.toBeNull();
+    });
+
+    it('should reject an end date before the start or too far out', () => {
+      expect(
+        validateRecurrenceRule({ frequency: 'WEEKLY', startTime, endDate: new Date('2026-01-01T00:00:00Z') })
+      ).toMatch(/after the first occurrence/);
+      expect(
+        validateRecurrenceRule({ frequency: 'MONTHLY', startTime, endDate: new Date('2027-06-01T00:00:00Z') })
+      ).toMatch(/at most/);
+    });
+  });
+
+  describe('generateOccurrences', () => {
+    it('should repeat weekly for the given count', () => {
+      const occurrences = generateOccurrences({ frequency: 'WEEKLY', startTime, occurrenceCount: 3 });
+      expect(occurrences.map((d) => d.toISOString())).toEqual([
+        '2026-01-05T09:00:00.000Z',
+        '2026-01-12T09:00:00.000Z',
+        '2026-01-19T09:00:00.000Z',
+      ]);
+    });
+
+    it('should repeat fortnightly up to and including the end date', () => {
+      const occurrences = generateOccurrences({
+        frequency: 'FORTNIGHTLY',
+        startTime,
+        endDate: new Date('2026-02-02T09:00:00Z'),
+      });
+      expect(occurrences.map((d) => d.toISOString())).toEqual([
+        '2026-01-05T09:00:00.000Z',
+        '2026-01-19T09:00:00.000Z',
+        '2026-02-02T09:00:00.000Z',
+      ]);
+    });
+
+    it('should stop at whichever of count and end date comes first', () => {
+      const occurrences = generateOccurrences({
+        frequency: 'WEEKLY',
+        startTime,
+        occurrenceCount: 10,
+        endDate: new Date('2026-01-20T00:00:00Z'),
+      });
+      expect(occurrences).toHaveLength(3);
+    });
+
+    it('should cap long series at the maximum', () => {
+      const occurrences = generateOccurrences({
+        frequency: 'WEEKLY',
+        startTime,
+        endDate: new Date('2026-12-31T00:00:00Z'),
+      });
+      expect(occurrences).toHaveLength(RECURRENCE_LIMITS.MAX_OCCURRENCES);
+    });
+  });
+
+  describe('getOccurrenceStart (monthly)', () => {
+    it('should keep the day of month and time', () => {
+      const start = new Date('2026-01-15T14:30:00Z');
+      expect(getOccurrenceStart({ frequency: 'MONTHLY', startTime: start }, 2).toISOString()).toBe(
+        '2026-03-15T14:30:00.000Z'
+      );
+    });
+
+    it('should fall back to the last day of shorter months without drifting', () => {
+      const start = new Date('2026-01-31T10:00:00Z');
+      const occurrences = generateOccurrences({ frequency: 'MONTHLY', startTime: start, occurrenceCount: 3 });
+      expect(occurrences.map((d) => d.toISOString())).toEqual([
+        '2026-01-31T10:00:00.000Z',
+        '2026-02-28T10:00:00.000Z',
+        '2026-03-31T10:00:00.000Z',
+      ]);
+    });
+
+    it('should roll over the year', () => {
+      const start = new Date('2026-11-10T09:00:00Z');
+      expect(getOccurrenceStart({ frequency: 'MONTHLY', startTime: start }, 3).toISOString()).toBe(
+        '2027-02-10T09:00:00.000Z'
+      );
+    });
+  });
+
+  describe('payment window', () => {
+    const appointment = new Date('2026-03-10T12:00:00Z');
+    const hour = 60 * 60 * 1000;
+
+    it('should open and cut off relative to the appointment', () => {
+      const { opensAt, cutoffAt } = getOccurrencePaymentWindow(appointment);
+      expect(appointment.getTime() - opensAt.getTime()).toBe(OCCURRENCE_PAYMENT_WINDOW_HOURS * hour);
+      expect(appointment.getTime() - cutoffAt.getTime()).toBe(OCCURRENCE_PAYMENT_CUTOFF_HOURS * hour);
+      expect(opensAt < cutoffAt).toBe(true);
+    });
+
+    it('should only allow payment once the window opens', () => {
+      const { opensAt } = getOccurrencePaymentWindow(appointment);
+      expect(isOccurrencePaymentOpen(appointment, new Date(opensAt.getTime() - 1))).toBe(false);
+      expect(isOccurrencePaymentOpen(appointment, opensAt)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Recurrence Rules
+ * Pure helpers for expanding a series into occurrences and working out
+ * when each occurrence can be paid.
+ */
+
+import {
+  RECURRENCE_LIMITS,
+  OCCURRENCE_PAYMENT_WINDOW_HOURS,
+  OCCURRENCE_PAYMENT_CUTOFF_HOURS,
+  type RecurrenceRule,
+} from "./types";
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+const MS_PER_DAY = 24 * MS_PER_HOUR;
+
+/**
+ * Validate a rule. Returns an error message, or null when valid.
+ */
+export function validateRecurrenceRule(rule: RecurrenceRule): string | null {
+  if (!rule.endDate && !rule.occurrenceCount) {
+    return "Provide an endDate or an occurrenceCount";
+  }
+
+  if (
+    rule.occurrenceCount !== undefined &&
+    (!Number.isInteger(rule.occurrenceCount) ||
+      rule.occurrenceCount < 2 ||
+      rule.occurrenceCount > RECURRENCE_LIMITS.MAX_OCCURRENCES)
+  ) {
+    return `occurrenceCount must be between 2 and ${RECURRENCE_LIMITS.MAX_OCCURRENCES}`;
+  }
+
+  if (rule.endDate) {
+    if (rule.endDate <= rule.startTime) {
+      return "endDate must be after the first occurrence";
+    }
+    if (rule.endDate.getTime() - rule.startTime.getTime() > RECURRENCE_LIMITS.MAX_HORIZON_DAYS * MS_PER_DAY) {
+      return `A series can run for at most ${RECURRENCE_LIMITS.MAX_HORIZON_DAYS} days`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Start time of the nth occurrence (0-based).
+ * Monthly series keep the day of month of the first occurrence, falling back
+ * to the last day of shorter months (31 Jan -> 28 Feb -> 31 Mar).
+ */
+export function getOccurrenceStart(rule: Pick<RecurrenceRule, "frequency" | "startTime">, index: number): Date {
+  const start = rule.startTime;
+
+  switch (rule.frequency) {
+    case "WEEKLY":
+      return new Date(start.getTime() + index * 7 * MS_PER_DAY);
+    case "FORTNIGHTLY":
+      return new Date(start.getTime() + index * 14 * MS_PER_DAY);
+    case "MONTHLY": {
+      const year = start.getUTCFullYear();
+      const month = start.getUTCMonth() + index;
+      const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+      return new Date(
+        Date.UTC(
+          year,
+          month,
+          Math.min(start.getUTCDate(), lastDay),
+          start.getUTCHours(),
+          start.getUTCMinutes(),
+          start.getUTCSeconds(),
+          start.getUTCMilliseconds()
+        )
+      );
+    }
+  }
+}
+
+/**
+ * Expand a rule into occurrence start times, capped at MAX_OCCURRENCES
+ */
+export function generateOccurrences(rule: RecurrenceRule): Date[] {
+  const limit = Math.min(
+    rule.occurrenceCount ?? RECURRENCE_LIMITS.MAX_OCCURRENCES,
+    RECURRENCE_LIMITS.MAX_OCCURRENCES
+  );
+  const occurrences: Date[] = [];
+
+  for (let i = 0; i < limit; i++) {
+    const startTime = getOccurrenceStart(rule, i);
+    if (rule.endDate && startTime > rule.endDate) break;
+    occurrences.push(startTime);
+  }
+
+  return occurrences;
+}
+
+/**
+ * When payment for an occurrence opens, and when an unpaid occurrence is cancelled
+ */
+export function getOccurrencePaymentWindow(scheduledStartTime: Date): { opensAt: Date; cutoffAt: Date } {
+  return {
+    opensAt: new Date(scheduledStartTime.getTime() - OCCURRENCE_PAYMENT_WINDOW_HOURS * MS_PER_HOUR),
+    cutoffAt: new Date(scheduledStartTime.getTime() - OCCURRENCE_PAYMENT_CUTOFF_HOURS * MS_PER_HOUR),
+  };
+}
+
+/**
+ * Whether an occurrence can be paid now
+ */
+export function isOccurrencePaymentOpen(scheduledStartTime: Date, now: Date = new Date()): boolean {
+  return now >= getOccurrencePaymentWindow(scheduledStartTime).opensAt;
+}
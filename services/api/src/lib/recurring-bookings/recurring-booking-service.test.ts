@@ -0,0 +1,276 @@
+/**
+ * Recurring Booking Service Tests
+ *
+ * Occurrence pricing and series cancellation. Cancellations run through the
+ * real booking cancellation and escrow client with the chain mocked, so the
+ * refunds checked are the ones the Escrow contract would see.
+ */
+
+// Mock clients - MUST be defined before jest.mock() calls reference them
+const mockPublicClient = {
+  readContract: jest.fn(),
+  waitForTransactionReceipt: jest.fn(),
+};
+
+const mockWalletClient = {
+  writeContract: jest.fn(),
+};
+
+const mockTx = {
+  bookingSeries: { create: jest.fn() },
+  booking: { create: jest.fn() },
+  bookingStatusHistory: { create: jest.fn() },
+  hairCalendarEvent: { create: jest.fn() },
+};
+
+const mockPrisma = {
+  bookingSeries: { findUnique: jest.fn(), findUniqueOrThrow: jest.fn(), update: jest.fn() },
+  booking: { findUnique: jest.fn(), findMany: jest.fn(), update: jest.fn() },
+  bookingStatusHistory: { create: jest.fn() },
+  stylistService: { findUnique: jest.fn() },
+  hairHealthProfile: { findUnique: jest.fn() },
+  hairCalendarEvent: { updateMany: jest.fn() },
+  escrowFailure: { create: jest.fn() },
+  user: { findUnique: jest.fn() },
+  $transaction: jest.fn((arg: unknown) =>
+    typeof arg === 'function' ? (arg as (tx: typeof mockTx) => Promise<unknown>)(mockTx) : Promise.all(arg as unknown[])
+  ),
+};
+
+jest.mock('viem', () => ({
+  createPublicClient: jest.fn(() => mockPublicClient),
+  createWalletClient: jest.fn(() => mockWalletClient),
+  http: jest.fn(),
+  fallback: jest.fn(() => 'mock-transport'),
+  keccak256: jest.fn((bytes) => `0x${Buffer.from(bytes).toString('hex').padStart(64, '0')}`),
+  toBytes: jest.fn((str) => Buffer.from(str)),
+}));
+
+jest.mock('viem/accounts', () => ({
+  privateKeyToAccount: jest.fn(() => ({ address: '0xRelayerAddress' })),
+}));
+
+jest.mock('../wallet/chain-client', () => ({
+  CHAIN: { id: 1337, name: 'hardhat' },
+  RPC_URL: 'http://localhost:8545',
+  publicClient: mockPublicClient,
+  getRelayerWalletClient: jest.fn(() => mockWalletClient),
+}));
+
+jest.mock('../escrow-rate-limiter', () => ({
+  escrowRateLimiter: {
+    canProceed: jest.fn(() => ({ canProceed: true })),
+    recordOperation: jest.fn(),
+  },
+}));
+
+jest.mock('@sentry/node', () => ({
+  captureException: jest.fn(),
+}));
+
+jest.mock('../prisma', () => ({
+  __esModule: true,
+  prisma: mockPrisma,
+  default: mockPrisma,
+}));
+
+jest.mock('../notifications', () => ({
+  notifyBookingEvent: jest.fn(() => Promise.resolve()),
+}));
+
+jest.mock('../waitlist', () => ({
+  releaseSlotToWaitlist: jest.fn(() => Promise.resolve()),
+}));
+
+jest.mock('../scheduling', () => ({
+  checkAvailability: jest.fn(() => Promise.resolve({ available: true, conflicts: [], suggestedAlternatives: [] })),
+}));
+
+jest.mock('../rewards', () => ({
+  getFeeDiscountPercentage: jest.fn(() => Promise.resolve(10)),
+}));
+
+import { BookingStatus } from '@prisma/client';
+import { EscrowStatus } from '../escrow-client';
+import { notifyBookingEvent } from '../notifications';
+import { cancelSeriesOccurrences, createSeries, expireUnpaidOccurrence } from './recurring-booking-service';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+const series = {
+  id: 'series-1',
+  customerId: 'customer-1',
+  stylistId: 'stylist-1',
+  status: 'ACTIVE',
+  cancelledAt: null,
+};
+
+function makeOccurrence(index: number, overrides: Record<string, unknown> = {}) {
+  return {
+    id: `booking-${index}`,
+    seriesId: 'series-1',
+    occurrenceIndex: index,
+    status: BookingStatus.PENDING_CUSTOMER_PAYMENT,
+    customerId: 'customer-1',
+    stylistId: 'stylist-1',
+    quoteAmountCents: 10_000n, // $100
+    platformFeeCents: 1_000n,
+    propertyPayoutCents: null,
+    depositAmountCents: null,
+    balanceAmountCents: null,
+    balanceStatus: null,
+    scheduledStartTime: new Date(Date.now() + (index * 7 + 1) * DAY),
+    cancellationPolicy: null,
+    customer: { id: 'customer-1', walletAddress: '0xCustomerAddress', displayName: 'Customer' },
+    stylist: { id: 'stylist-1', walletAddress: '0xStylistAddress', displayName: 'Stylist' },
+    ...overrides,
+  };
+}
+
+function escrowCall(functionName: string) {
+  return mockWalletClient.writeContract.mock.calls.find(([args]) => args.functionName === functionName)?.[0];
+}
+
+describe('Recurring Booking Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.bookingSeries.findUnique.mockResolvedValue({ ...series, bookings: [] });
+    mockPrisma.booking.update.mockImplementation(({ where }) =>
+      Promise.resolve(makeOccurrence(Number(where.id.split('-')[1]), { status: BookingStatus.CANCELLED }))
+    );
+    mockPublicClient.readContract.mockResolvedValue(['0xCustomerAddress', 100_000_000n, EscrowStatus.Locked]);
+    mockPublicClient.waitForTransactionReceipt.mockResolvedValue({});
+    mockWalletClient.writeContract.mockResolvedValue('0xEscrowTxHash');
+  });
+
+  describe('createSeries', () => {
+    const startTime = new Date(Date.now() + 7 * DAY);
+
+    beforeEach(() => {
+      mockPrisma.stylistService.findUnique.mockResolvedValue({
+        id: 'service-1',
+        name: 'Silk press',
+        category: 'STYLING',
+        estimatedDurationMin: 90,
+        priceAmountCents: 10_000n,
+        depositPercentage: 30,
+        balanceDueOn: 'ON_START',
+        isActive: true,
+        cancellationPolicy: null,
+        stylist: { userId: 'stylist-1', isAcceptingBookings: true, cancellationPolicy: null },
+      });
+      mockPrisma.hairHealthProfile.findUnique.mockResolvedValue(null);
+      mockTx.bookingSeries.create.mockResolvedValue({ id: 'series-1' });
+      mockTx.booking.create.mockImplementation(({ data }) => Promise.resolve({ id: 'booking-new', ...data }));
+      mockPrisma.bookingSeries.findUniqueOrThrow.mockResolvedValue({
+        ...series,
+        bookings: [{ id: 'booking-0', scheduledStartTime: startTime }],
+      });
+      mockPrisma.user.findUnique.mockResolvedValue({ displayName: 'Customer' });
+    });
+
+    it('should price every occurrence with the fee discount and deposit split', async () => {
+      const result = await createSeries({
+        customerId: 'customer-1',
+        stylistId: 'stylist-1',
+        serviceId: 'service-1',
+        frequency: 'FORTNIGHTLY',
+        startTime,
+        occurrenceCount: 3,
+        locationType: 'STYLIST_BASE',
+        locationAddress: '12 Long Street',
+      });
+
+      expect(result.success).toBe(true);
+      expect(mockTx.booking.create).toHaveBeenCalledTimes(3);
+      // $10 fee less the 10% tier discount, 30% of the $99 quote up front
+      for (const [{ data }] of mockTx.booking.create.mock.calls) {
+        expect(data).toMatchObject({
+          quoteAmountCents: 9_900n,
+          platformFeeCents: 900n,
+          stylistPayoutCents: 9_000n,
+          feeDiscountCents: 100n,
+          depositAmountCents: 2_970n,
+          balanceAmountCents: 6_930n,
+        });
+      }
+      // Nothing is locked until each occurrence's payment window opens
+      expect(mockWalletClient.writeContract).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancelSeriesOccurrences', () => {
+    it('should refund only the paid occurrence when the stylist cancels the rest of a series', async () => {
+      const target = makeOccurrence(1, { status: BookingStatus.CONFIRMED });
+      mockPrisma.booking.findUnique.mockResolvedValue(target);
+      mockPrisma.booking.findMany.mockResolvedValue([target, makeOccurrence(2), makeOccurrence(3)]);
+
+      const result = await cancelSeriesOccurrences('series-1', 'booking-1', 'stylist-1', 'THIS_AND_FOLLOWING', 'Moving away');
+
+      expect(result.data?.cancelled.map((c) => [c.bookingId, c.refundAmountCents])).toEqual([
+        ['booking-1', '10000'],
+        ['booking-2', '0'],
+        ['booking-3', '0'],
+      ]);
+      // One full refund, in USDC units, for the one occurrence that was locked
+      expect(mockWalletClient.writeContract).toHaveBeenCalledTimes(1);
+      expect(escrowCall('refund')?.args).toEqual([expect.any(String), 100_000_000n, '0xCustomerAddress']);
+      expect(notifyBookingEvent).toHaveBeenCalledWith(
+        'customer-1',
+        'BOOKING_CANCELLED',
+        expect.objectContaining({ occurrenceCount: 3, refundAmount: 10_000 })
+      );
+    });
+
+    it("should settle a customer's late cancel of a paid occurrence under the booking policy", async () => {
+      const target = makeOccurrence(1, {
+        status: BookingStatus.CONFIRMED,
+        scheduledStartTime: new Date(Date.now() + 10 * HOUR),
+      });
+      mockPrisma.booking.findUnique.mockResolvedValue(target);
+
+      const result = await cancelSeriesOccurrences('series-1', 'booking-1', 'customer-1', 'THIS', 'Sick');
+
+      expect(result.data?.cancelled).toEqual([expect.objectContaining({ refundAmountCents: '5000' })]);
+      expect(mockPrisma.booking.findMany).not.toHaveBeenCalled();
+      // 50% back, the rest split with the stored fee
+      expect(escrowCall('settle')?.args[1]).toEqual(
+        expect.objectContaining({ customerRefund: 50_000_000n, stylistAmount: 45_000_000n, treasuryFee: 5_000_000n })
+      );
+    });
+
+    it('should not touch escrow for someone outside the series', async () => {
+      const result = await cancelSeriesOccurrences('series-1', 'booking-1', 'someone-else', 'THIS', 'No');
+
+      expect(result).toEqual({ success: false, error: 'FORBIDDEN' });
+      expect(mockPrisma.booking.update).not.toHaveBeenCalled();
+      expect(mockWalletClient.writeContract).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('expireUnpaidOccurrence', () => {
+    it('should cancel an occurrence unpaid at the cutoff without an escrow call', async () => {
+      mockPrisma.booking.findUnique.mockResolvedValue(
+        makeOccurrence(1, { scheduledStartTime: new Date(Date.now() + 12 * HOUR) })
+      );
+
+      const result = await expireUnpaidOccurrence('booking-1');
+
+      expect(result.success).toBe(true);
+      expect(mockPrisma.booking.update).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ status: BookingStatus.CANCELLED }) })
+      );
+      expect(mockWalletClient.writeContract).not.toHaveBeenCalled();
+    });
+
+    it('should leave an occurrence alone before its cutoff', async () => {
+      mockPrisma.booking.findUnique.mockResolvedValue(makeOccurrence(1));
+
+      const result = await expireUnpaidOccurrence('booking-1');
+
+      expect(result).toMatchObject({ success: false, error: 'INVALID_STATUS' });
+      expect(mockPrisma.booking.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,808 @@
+/**
+ * Recurring Booking Service
+ * Standing appointments (weekly, fortnightly, monthly) with a stylist
+ * Reference: docs/vlossom/07-booking-and-approval-flow.md
+ *
+ * Flow:
+ * 1. Customer creates a series -> every occurrence is checked with checkAvailability
+ *    and created as its own booking in PENDING_STYLIST_APPROVAL
+ * 2. Stylist approves or declines the whole series
+ * 3. Approved occurrences wait in PENDING_CUSTOMER_PAYMENT and are paid one at a
+ *    time: payment opens OCCURRENCE_PAYMENT_WINDOW_HOURS before each appointment
+ *    and the scheduler cancels occurrences still unpaid at the cutoff
+ * 4. Either party can cancel one occurrence or that occurrence and all later ones
+ */
+
+import { BookingStatus, HairEventCategory, HairEventStatus, Prisma } from "@prisma/client";
+import prisma from "../prisma";
+import logger from "../logger";
+import { calculateBookingPricing } from "../pricing";
+import { calculateDepositSplit } from "../booking-deposit";
+import { cancelBooking } from "../booking-cancellation";
+import { canCancelBooking, resolveCancellationPolicy, toCancellationPolicySnapshot } from "../cancellation-policy";
+import { checkAvailability, type Coordinates } from "../scheduling";
+import { notifyBookingEvent } from "../notifications";
+import { releaseSlotToWaitlist } from "../waitlist";
+import { getFeeDiscountPercentage } from "../rewards";
+import {
+  generateOccurrences,
+  getOccurrencePaymentWindow,
+  isOccurrencePaymentOpen,
+  validateRecurrenceRule,
+} from "./recurrence";
+import type {
+  CreateSeriesInput,
+  OccurrenceAvailability,
+  RecurrenceRule,
+  RecurringBookingResult,
+  SeriesCancelScope,
+} from "./types";
+
+type BookingSeriesRecord = Prisma.BookingSeriesGetPayload<{
+  include: { bookings: true };
+}>;
+
+// Occurrences that still hold (or may still hold) the stylist's time
+const ACTIVE_OCCURRENCE_STATUSES: BookingStatus[] = [
+  BookingStatus.PENDING_STYLIST_APPROVAL,
+  BookingStatus.PENDING_CUSTOMER_PAYMENT,
+  BookingStatus.CONFIRMED,
+  BookingStatus.IN_PROGRESS,
+  BookingStatus.AWAITING_CUSTOMER_CONFIRMATION,
+  BookingStatus.DISPUTED,
+];
+
+// Occurrences that were delivered
+const DELIVERED_OCCURRENCE_STATUSES: BookingStatus[] = [
+  BookingStatus.COMPLETED,
+  BookingStatus.SETTLED,
+];
+
+/**
+ * Shape stored in HairCalendarEvent.recurrenceRule (iCal RRULE-like)
+ */
+function toCalendarRecurrenceRule(rule: RecurrenceRule): Prisma.InputJsonObject {
+  return {
+    freq: rule.frequency === "MONTHLY" ? "MONTHLY" : "WEEKLY",
+    interval: rule.frequency === "FORTNIGHTLY" ? 2 : 1,
+    ...(rule.occurrenceCount && { count: rule.occurrenceCount }),
+    ...(rule.endDate && { until: rule.endDate.toISOString() }),
+  };
+}
+
+/**
+ * Load the service being booked and check it can take a series
+ */
+async function loadBookableService(stylistId: string, serviceId: string) {
+  const service = await prisma.stylistService.findUnique({
+    where: { id: serviceId },
+    include: { stylist: true },
+  });
+
+  if (!service || service.stylist.userId !== stylistId) {
+    return { error: "SERVICE_NOT_FOUND" as const };
+  }
+
+  if (!service.isActive) {
+    return { error: "SERVICE_INACTIVE" as const };
+  }
+
+  if (!service.stylist.isAcceptingBookings) {
+    return { error: "STYLIST_NOT_ACCEPTING" as const };
+  }
+
+  return { service };
+}
+
+/**
+ * Check every occurrence of a proposed series against the stylist's schedule
+ */
+async function checkOccurrences(
+  input: CreateSeriesInput,
+  durationMinutes: number
+): Promise<OccurrenceAvailability[]> {
+  const customerCoords: Coordinates | undefined =
+    input.locationLat !== undefined && input.locationLng !== undefined
+      ? { lat: input.locationLat, lng: input.locationLng }
+      : undefined;
+
+  const occurrences: OccurrenceAvailability[] = [];
+
+  for (const [index, startTime] of generateOccurrences(input).entries()) {
+    const availability = await checkAvailability({
+      stylistId: input.stylistId,
+      serviceId: input.serviceId,
+      startTime,
+      durationMinutes,
+      locationType: input.locationType,
+      customerCoords,
+    });
+
+    occurrences.push({
+      index,
+      startTime: startTime.toISOString(),
+      endTime: new Date(startTime.getTime() + durationMinutes * 60 * 1000).toISOString(),
+      available: availability.available,
+      conflicts: availability.conflicts,
+      suggestedAlternatives: availability.suggestedAlternatives.map((d) => d.toISOString()),
+    });
+  }
+
+  return occurrences;
+}
+
+/**
+ * Validate the request shared by preview and create
+ */
+function validateSeriesInput(input: CreateSeriesInput): RecurringBookingResult<never> | null {
+  const ruleError = validateRecurrenceRule(input);
+  if (ruleError) {
+    return { success: false, error: "VALIDATION_ERROR", details: { message: ruleError } };
+  }
+
+  if (input.customerId === input.stylistId) {
+    return { success: false, error: "CANNOT_BOOK_OWN_SERVICE" };
+  }
+
+  // The first occurrence must leave time to pay before the cutoff
+  if (getOccurrencePaymentWindow(input.startTime).cutoffAt <= new Date()) {
+    return {
+      success: false,
+      error: "VALIDATION_ERROR",
+      details: { message: "The first occurrence is too soon - book it as a one-off instead" },
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Preview a series: availability of each occurrence, without creating anything
+ */
+export async function checkSeriesAvailability(
+  input: CreateSeriesInput
+): Promise<RecurringBookingResult<{ available: boolean; occurrences: OccurrenceAvailability[] }>> {
+  const invalid = validateSeriesInput(input);
+  if (invalid) return invalid;
+
+  const loaded = await loadBookableService(input.stylistId, input.serviceId);
+  if (!loaded.service) {
+    return { success: false, error: loaded.error };
+  }
+
+  const occurrences = await checkOccurrences(input, loaded.service.estimatedDurationMin);
+
+  return {
+    success: true,
+    data: { available: occurrences.every((o) => o.available), occurrences },
+  };
+}
+
+/**
+ * Create a series and one booking per available occurrence.
+ * Conflicting occurrences fail the request unless skipConflicts is set.
+ */
+export async function createSeries(
+  input: CreateSeriesInput
+): Promise<
+  RecurringBookingResult<{ series: BookingSeriesRecord; skippedOccurrences: OccurrenceAvailability[] }>
+> {
+  const invalid = validateSeriesInput(input);
+  if (invalid) return invalid;
+
+  const loaded = await loadBookableService(input.stylistId, input.serviceId);
+  if (!loaded.service) {
+    return { success: false, error: loaded.error };
+  }
+  const service = loaded.service;
+
+  const occurrences = await checkOccurrences(input, service.estimatedDurationMin);
+  const available = occurrences.filter((o) => o.available);
+  const conflicting = occurrences.filter((o) => !o.available);
+
+  if (available.length === 0 || (conflicting.length > 0 && !input.skipConflicts)) {
+    return {
+      success: false,
+      error: "SCHEDULING_CONFLICT",
+      details: { occurrences },
+    };
+  }
+
+  // Every occurrence is priced and governed like a one-off booking of the service
+  const feeDiscountPercentage = await getFeeDiscountPercentage(input.customerId);
+  const pricing = calculateBookingPricing(service.priceAmountCents, undefined, feeDiscountPercentage);
+  const cancellationPolicy = toCancellationPolicySnapshot(
+    resolveCancellationPolicy(service, service.stylist)
+  );
+  const depositSplit = calculateDepositSplit(pricing.quoteAmountCents, service.depositPercentage);
+
+  const hairProfile = await prisma.hairHealthProfile.findUnique({
+    where: { userId: input.customerId },
+    select: { id: true },
+  });
+  const calendarRule = toCalendarRecurrenceRule(input);
+
+  const seriesId = await prisma.$transaction(async (tx) => {
+    const series = await tx.bookingSeries.create({
+      data: {
+        customerId: input.customerId,
+        stylistId: input.stylistId,
+        serviceId: input.serviceId,
+        frequency: input.frequency,
+        startTime: input.startTime,
+        endDate: input.endDate,
+        occurrenceCount: input.occurrenceCount,
+        locationType: input.locationType,
+        locationAddress: input.locationAddress,
+        locationLat: input.locationLat,
+        locationLng: input.locationLng,
+        notes: input.notes,
+      },
+    });
+
+    for (const occurrence of available) {
+      const booking = await tx.booking.create({
+        data: {
+          customerId: input.customerId,
+          stylistId: input.stylistId,
+          serviceId: input.serviceId,
+          serviceType: service.name,
+          serviceCategory: service.category,
+          estimatedDurationMin: service.estimatedDurationMin,
+          scheduledStartTime: new Date(occurrence.startTime),
+          scheduledEndTime: new Date(occurrence.endTime),
+          locationType: input.locationType,
+          locationAddress: input.locationAddress,
+          locationLat: input.locationLat,
+          locationLng: input.locationLng,
+          quoteAmountCents: pricing.quoteAmountCents,
+          platformFeeCents: pricing.platformFeeCents,
+          stylistPayoutCents: pricing.stylistPayoutCents,
+          propertyPayoutCents: pricing.propertyPayoutCents,
+          feeDiscountPercentage,
+          feeDiscountCents: pricing.feeDiscountCents,
+          status: BookingStatus.PENDING_STYLIST_APPROVAL,
+          cancellationPolicy,
+          seriesId: series.id,
+          occurrenceIndex: occurrence.index,
+          ...(depositSplit && {
+            depositAmountCents: depositSplit.depositAmountCents,
+            balanceAmountCents: depositSplit.balanceAmountCents,
+            balanceDueOn: service.balanceDueOn,
+          }),
+        },
+      });
+
+      await tx.bookingStatusHistory.create({
+        data: {
+          bookingId: booking.id,
+          fromStatus: null,
+          toStatus: BookingStatus.PENDING_STYLIST_APPROVAL,
+          changedBy: input.customerId,
+          reason: `Recurring booking created (occurrence ${occurrence.index + 1})`,
+        },
+      });
+
+      await tx.hairCalendarEvent.create({
+        data: {
+          userId: input.customerId,
+          profileId: hairProfile?.id,
+          eventCategory: HairEventCategory.BOOKING_SERVICE,
+          eventType: "STYLIST_APPOINTMENT",
+          title: service.name,
+          scheduledStart: booking.scheduledStartTime,
+          scheduledEnd: booking.scheduledEndTime,
+          linkedBookingId: booking.id,
+          linkedSeriesId: series.id,
+          generatedBy: "system",
+          recurrenceRule: calendarRule,
+        },
+      });
+    }
+
+    return series.id;
+  });
+
+  const series = await prisma.bookingSeries.findUniqueOrThrow({
+    where: { id: seriesId },
+    include: { bookings: { orderBy: { occurrenceIndex: "asc" } } },
+  });
+
+  logger.info("[RecurringBooking] Series created", {
+    seriesId,
+    stylistId: input.stylistId,
+    occurrences: available.length,
+    skipped: conflicting.length,
+  });
+
+  const customer = await prisma.user.findUnique({
+    where: { id: input.customerId },
+    select: { displayName: true },
+  });
+
+  notifyBookingEvent(input.stylistId, "BOOKING_CREATED", {
+    bookingId: series.bookings[0].id,
+    seriesId,
+    occurrenceCount: series.bookings.length,
+    customerName: customer?.displayName,
+    serviceName: service.name,
+    scheduledTime: series.bookings[0].scheduledStartTime.toISOString(),
+  }).catch((err) => logger.error("Failed to send series created notification", { error: err }));
+
+  return { success: true, data: { series, skippedOccurrences: conflicting } };
+}
+
+/**
+ * Series the user is part of, as customer or stylist
+ */
+export async function listSeriesForUser(userId: string): Promise<BookingSeriesRecord[]> {
+  return prisma.bookingSeries.findMany({
+    where: { OR: [{ customerId: userId }, { stylistId: userId }] },
+    include: { bookings: { orderBy: { occurrenceIndex: "asc" } } },
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+/**
+ * Series detail with the payment window of each occurrence
+ */
+export async function getSeriesForUser(seriesId: string, userId: string) {
+  const series = await prisma.bookingSeries.findUnique({
+    where: { id: seriesId },
+    include: {
+      service: { select: { id: true, name: true, category: true } },
+      bookings: { orderBy: { occurrenceIndex: "asc" } },
+    },
+  });
+
+  if (!series || (series.customerId !== userId && series.stylistId !== userId)) {
+    return null;
+  }
+
+  return {
+    ...series,
+    bookings: series.bookings.map((booking) => {
+      const window = getOccurrencePaymentWindow(booking.scheduledStartTime);
+      return {
+        ...booking,
+        paymentOpensAt: window.opensAt.toISOString(),
+        paymentDeadline: window.cutoffAt.toISOString(),
+      };
+    }),
+  };
+}
+
+/**
+ * Close the series once none of its occurrences are still active
+ */
+export async function refreshSeriesStatus(seriesId: string): Promise<void> {
+  const series = await prisma.bookingSeries.findUnique({
+    where: { id: seriesId },
+    include: { bookings: { select: { status: true } } },
+  });
+
+  if (!series || series.status !== "ACTIVE") return;
+  if (series.bookings.some((b) => ACTIVE_OCCURRENCE_STATUSES.includes(b.status))) return;
+
+  const delivered = series.bookings.some((b) => DELIVERED_OCCURRENCE_STATUSES.includes(b.status));
+
+  await prisma.bookingSeries.update({
+    where: { id: seriesId },
+    data: delivered
+      ? { status: "COMPLETED" }
+      : { status: "CANCELLED", cancelledAt: series.cancelledAt ?? new Date() },
+  });
+}
+
+/**
+ * Take cancelled occurrences off the customer's hair calendar
+ */
+async function skipCalendarEvents(bookingIds: string[]): Promise<void> {
+  if (bookingIds.length === 0) return;
+
+  await prisma.hairCalendarEvent.updateMany({
+    where: { linkedBookingId: { in: bookingIds }, status: HairEventStatus.PLANNED },
+    data: { status: HairEventStatus.SKIPPED },
+  });
+}
+
+/**
+ * Keep the series in step after one of its occurrences is cancelled
+ * through the regular booking cancel flow
+ */
+export async function syncSeriesOccurrenceCancelled(booking: {
+  id: string;
+  seriesId: string | null;
+}): Promise<void> {
+  if (!booking.seriesId) return;
+
+  await skipCalendarEvents([booking.id]);
+  await refreshSeriesStatus(booking.seriesId);
+}
+
+/**
+ * Stylist approves every pending occurrence of a series
+ */
+export async function approveSeries(
+  seriesId: string,
+  stylistId: string,
+  notes?: string
+): Promise<RecurringBookingResult<{ seriesId: string; approvedBookingIds: string[] }>> {
+  const series = await prisma.bookingSeries.findUnique({
+    where: { id: seriesId },
+    include: { bookings: true },
+  });
+
+  if (!series) {
+    return { success: false, error: "SERIES_NOT_FOUND" };
+  }
+
+  if (series.stylistId !== stylistId) {
+    return { success: false, error: "FORBIDDEN" };
+  }
+
+  if (series.status !== "ACTIVE") {
+    return { success: false, error: "SERIES_NOT_ACTIVE" };
+  }
+
+  const pending = series.bookings.filter((b) => b.status === BookingStatus.PENDING_STYLIST_APPROVAL);
+  if (pending.length === 0) {
+    return { success: false, error: "INVALID_STATUS", details: { message: "No occurrences are awaiting approval" } };
+  }
+
+  const approvedBookingIds = pending.map((b) => b.id);
+
+  await prisma.$transaction([
+    prisma.booking.updateMany({
+      where: { id: { in: approvedBookingIds }, status: BookingStatus.PENDING_STYLIST_APPROVAL },
+      data: { status: BookingStatus.PENDING_CUSTOMER_PAYMENT },
+    }),
+    prisma.bookingStatusHistory.createMany({
+      data: approvedBookingIds.map((bookingId) => ({
+        bookingId,
+        fromStatus: BookingStatus.PENDING_STYLIST_APPROVAL,
+        toStatus: BookingStatus.PENDING_CUSTOMER_PAYMENT,
+        changedBy: stylistId,
+        reason: notes || "Stylist approved recurring booking",
+      })),
+    }),
+  ]);
+
+  logger.info("[RecurringBooking] Series approved", { seriesId, occurrences: approvedBookingIds.length });
+
+  const stylist = await prisma.user.findUnique({
+    where: { id: stylistId },
+    select: { displayName: true },
+  });
+  const first = pending.reduce((a, b) => (a.scheduledStartTime <= b.scheduledStartTime ? a : b));
+
+  notifyBookingEvent(series.customerId, "BOOKING_APPROVED", {
+    bookingId: first.id,
+    seriesId,
+    occurrenceCount: approvedBookingIds.length,
+    stylistName: stylist?.displayName,
+    scheduledTime: first.scheduledStartTime.toISOString(),
+  }).catch((err) => logger.error("Failed to send series approval notification", { error: err }));
+
+  return { success: true, data: { seriesId, approvedBookingIds } };
+}
+
+/**
+ * Stylist declines a series before approving it
+ */
+export async function declineSeries(
+  seriesId: string,
+  stylistId: string,
+  reason: string
+): Promise<RecurringBookingResult<{ seriesId: string; declinedBookingIds: string[] }>> {
+  const series = await prisma.bookingSeries.findUnique({
+    where: { id: seriesId },
+    include: { bookings: true },
+  });
+
+  if (!series) {
+    return { success: false, error: "SERIES_NOT_FOUND" };
+  }
+
+  if (series.stylistId !== stylistId) {
+    return { success: false, error: "FORBIDDEN" };
+  }
+
+  if (series.status !== "ACTIVE") {
+    return { success: false, error: "SERIES_NOT_ACTIVE" };
+  }
+
+  const pending = series.bookings.filter((b) => b.status === BookingStatus.PENDING_STYLIST_APPROVAL);
+  if (pending.length === 0) {
+    return { success: false, error: "INVALID_STATUS", details: { message: "No occurrences are awaiting approval" } };
+  }
+
+  const declinedBookingIds = pending.map((b) => b.id);
+  const now = new Date();
+
+  await prisma.$transaction([
+    prisma.booking.updateMany({
+      where: { id: { in: declinedBookingIds }, status: BookingStatus.PENDING_STYLIST_APPROVAL },
+      data: {
+        status: BookingStatus.DECLINED,
+        cancelledAt: now,
+        cancelledBy: stylistId,
+        cancellationReason: reason,
+      },
+    }),
+    prisma.bookingStatusHistory.createMany({
+      data: declinedBookingIds.map((bookingId) => ({
+        bookingId,
+        fromStatus: BookingStatus.PENDING_STYLIST_APPROVAL,
+        toStatus: BookingStatus.DECLINED,
+        changedBy: stylistId,
+        reason,
+      })),
+    }),
+    prisma.bookingSeries.update({
+      where: { id: seriesId },
+      data: { status: "CANCELLED", cancelledAt: now, cancellationReason: reason },
+    }),
+  ]);
+
+  await skipCalendarEvents(declinedBookingIds);
+
+  const stylist = await prisma.user.findUnique({
+    where: { id: stylistId },
+    select: { displayName: true },
+  });
+
+  notifyBookingEvent(series.customerId, "BOOKING_DECLINED", {
+    bookingId: declinedBookingIds[0],
+    seriesId,
+    occurrenceCount: declinedBookingIds.length,
+    stylistName: stylist?.displayName,
+    reason,
+  }).catch((err) => logger.error("Failed to send series decline notification", { error: err }));
+
+  for (const booking of pending) {
+    releaseSlotToWaitlist(booking).catch((err) =>
+      logger.error("Failed to release declined occurrence to waitlist", { error: err })
+    );
+  }
+
+  return { success: true, data: { seriesId, declinedBookingIds } };
+}
+
+/**
+ * Cancel one occurrence ("THIS") or it and every later occurrence
+ * ("THIS_AND_FOLLOWING"). Each occurrence goes through the regular
+ * booking cancellation, so refunds follow the booking's policy snapshot.
+ */
+export async function cancelSeriesOccurrences(
+  seriesId: string,
+  bookingId: string,
+  userId: string,
+  scope: SeriesCancelScope,
+  reason: string
+): Promise<
+  RecurringBookingResult<{
+    seriesId: string;
+    cancelled: { bookingId: string; refundAmountCents: string; details: string }[];
+  }>
+> {
+  const series = await prisma.bookingSeries.findUnique({
+    where: { id: seriesId },
+  });
+
+  if (!series) {
+    return { success: false, error: "SERIES_NOT_FOUND" };
+  }
+
+  if (series.customerId !== userId && series.stylistId !== userId) {
+    return { success: false, error: "FORBIDDEN" };
+  }
+
+  const target = await prisma.booking.findUnique({
+    where: { id: bookingId },
+    include: { customer: true, stylist: true },
+  });
+
+  if (!target || target.seriesId !== seriesId) {
+    return { success: false, error: "BOOKING_NOT_FOUND" };
+  }
+
+  if (!canCancelBooking(target.status)) {
+    return {
+      success: false,
+      error: "CANNOT_CANCEL",
+      details: { message: `Booking cannot be cancelled in ${target.status} status` },
+    };
+  }
+
+  const bookings =
+    scope === "THIS"
+      ? [target]
+      : await prisma.booking.findMany({
+          where: {
+            seriesId,
+            occurrenceIndex: { gte: target.occurrenceIndex ?? 0 },
+          },
+          include: { customer: true, stylist: true },
+          orderBy: { occurrenceIndex: "asc" },
+        });
+
+  const cancelled: { bookingId: string; refundAmountCents: string; details: string }[] = [];
+  let totalRefundCents = 0n;
+
+  for (const booking of bookings) {
+    // Past or delivered occurrences in the range are left alone
+    if (!canCancelBooking(booking.status)) continue;
+
+    const result = await cancelBooking(booking, {
+      cancelledBy: userId,
+      reason,
+      notify: scope === "THIS",
+    });
+
+    if (!result.success) {
+      logger.warn("[RecurringBooking] Occurrence not cancelled", {
+        seriesId,
+        bookingId: booking.id,
+        error: result.message,
+      });
+      continue;
+    }
+
+    totalRefundCents += result.refundAmountCents;
+    cancelled.push({
+      bookingId: booking.id,
+      refundAmountCents: result.refundAmountCents.toString(),
+      details: result.details,
+    });
+  }
+
+  const cancelledIds = cancelled.map((c) => c.bookingId);
+  await skipCalendarEvents(cancelledIds);
+
+  if (scope === "THIS_AND_FOLLOWING" && cancelledIds.length > 0) {
+    await prisma.bookingSeries.update({
+      where: { id: seriesId },
+      data: { cancellationReason: reason },
+    });
+
+    // One summary notification per party instead of one per occurrence
+    const cancelledByCustomer = series.customerId === userId;
+
+    notifyBookingEvent(series.customerId, "BOOKING_CANCELLED", {
+      bookingId: target.id,
+      seriesId,
+      occurrenceCount: cancelledIds.length,
+      cancelledBy: cancelledByCustomer ? "you" : target.stylist.displayName,
+      reason,
+      refundAmount: Number(totalRefundCents),
+    }).catch((err) => logger.error("Failed to send series cancellation notification to customer", { error: err }));
+
+    notifyBookingEvent(series.stylistId, "BOOKING_CANCELLED", {
+      bookingId: target.id,
+      seriesId,
+      occurrenceCount: cancelledIds.length,
+      cancelledBy: cancelledByCustomer ? target.customer.displayName : "you",
+      reason,
+      customerName: target.customer.displayName,
+    }).catch((err) => logger.error("Failed to send series cancellation notification to stylist", { error: err }));
+  }
+
+  await refreshSeriesStatus(seriesId);
+
+  logger.info("[RecurringBooking] Occurrences cancelled", { seriesId, scope, cancelled: cancelledIds.length });
+
+  return { success: true, data: { seriesId, cancelled } };
+}
+
+/**
+ * Tell the customer an occurrence is ready to pay (called by the scheduler
+ * once the payment window opens). Sent once per occurrence.
+ */
+export async function notifyOccurrencePaymentDue(
+  bookingId: string
+): Promise<RecurringBookingResult<{ bookingId: string; paymentDeadline: string }>> {
+  const booking = await prisma.booking.findUnique({
+    where: { id: bookingId },
+    include: { stylist: { select: { displayName: true } } },
+  });
+
+  if (!booking || !booking.seriesId) {
+    return { success: false, error: "BOOKING_NOT_FOUND" };
+  }
+
+  if (booking.status !== BookingStatus.PENDING_CUSTOMER_PAYMENT || booking.paymentDueNotifiedAt) {
+    return { success: false, error: "INVALID_STATUS", details: { message: "Occurrence is not awaiting payment" } };
+  }
+
+  if (!isOccurrencePaymentOpen(booking.scheduledStartTime)) {
+    return { success: false, error: "PAYMENT_WINDOW_NOT_OPEN" };
+  }
+
+  await prisma.booking.update({
+    where: { id: bookingId },
+    data: { paymentDueNotifiedAt: new Date() },
+  });
+
+  const paymentDeadline = getOccurrencePaymentWindow(booking.scheduledStartTime).cutoffAt.toISOString();
+
+  notifyBookingEvent(booking.customerId, "OCCURRENCE_PAYMENT_DUE", {
+    bookingId,
+    seriesId: booking.seriesId,
+    stylistName: booking.stylist.displayName,
+    serviceType: booking.serviceType,
+    scheduledTime: booking.scheduledStartTime.toISOString(),
+    amount: Number(booking.depositAmountCents ?? booking.quoteAmountCents),
+    paymentDeadline,
+  }).catch((err) => logger.error("Failed to send occurrence payment notification", { error: err }));
+
+  return { success: true, data: { bookingId, paymentDeadline } };
+}
+
+/**
+ * Cancel an occurrence that was not paid by the cutoff (called by the scheduler).
+ * Nothing is locked in escrow yet, so there is nothing to refund.
+ */
+export async function expireUnpaidOccurrence(
+  bookingId: string
+): Promise<RecurringBookingResult<{ bookingId: string }>> {
+  const booking = await prisma.booking.findUnique({
+    where: { id: bookingId },
+    include: { stylist: { select: { displayName: true } }, customer: { select: { displayName: true } } },
+  });
+
+  if (!booking || !booking.seriesId) {
+    return { success: false, error: "BOOKING_NOT_FOUND" };
+  }
+
+  if (booking.status !== BookingStatus.PENDING_CUSTOMER_PAYMENT) {
+    return { success: false, error: "INVALID_STATUS", details: { message: "Occurrence is not awaiting payment" } };
+  }
+
+  if (getOccurrencePaymentWindow(booking.scheduledStartTime).cutoffAt > new Date()) {
+    return { success: false, error: "INVALID_STATUS", details: { message: "Payment cutoff has not passed yet" } };
+  }
+
+  const reason = "Occurrence not paid before the payment deadline";
+
+  await prisma.$transaction([
+    prisma.booking.update({
+      where: { id: bookingId },
+      data: {
+        status: BookingStatus.CANCELLED,
+        cancelledAt: new Date(),
+        cancelledBy: "SYSTEM",
+        cancellationReason: reason,
+      },
+    }),
+    prisma.bookingStatusHistory.create({
+      data: {
+        bookingId,
+        fromStatus: BookingStatus.PENDING_CUSTOMER_PAYMENT,
+        toStatus: BookingStatus.CANCELLED,
+        changedBy: "SYSTEM",
+        reason,
+      },
+    }),
+  ]);
+
+  await skipCalendarEvents([bookingId]);
+  await refreshSeriesStatus(booking.seriesId);
+
+  notifyBookingEvent(booking.customerId, "BOOKING_CANCELLED", {
+    bookingId,
+    seriesId: booking.seriesId,
+    cancelledBy: "Vlossom",
+    reason,
+  }).catch((err) => logger.error("Failed to send occurrence expiry notification to customer", { error: err }));
+
+  notifyBookingEvent(booking.stylistId, "BOOKING_CANCELLED", {
+    bookingId,
+    seriesId: booking.seriesId,
+    cancelledBy: "Vlossom",
+    reason,
+    customerName: booking.customer.displayName,
+  }).catch((err) => logger.error("Failed to send occurrence expiry notification to stylist", { error: err }));
+
+  return { success: true, data: { bookingId } };
+}
@@ -0,0 +1,86 @@
+/**
+ * Recurring Booking Types
+ * Reference: docs/vlossom/07-booking-and-approval-flow.md
+ */
+
+import type { $Enums } from "@prisma/client";
+import type { ConflictInfo } from "../scheduling";
+
+export type RecurrenceFrequency = $Enums.RecurrenceFrequency;
+export type BookingSeriesStatus = $Enums.BookingSeriesStatus;
+
+/**
+ * Limits on how far a series can run
+ */
+export const RECURRENCE_LIMITS = {
+  MAX_OCCURRENCES: 26, // Six months of weekly appointments
+  MAX_HORIZON_DAYS: 365,
+} as const;
+
+/**
+ * Occurrences are paid one at a time. Payment opens this many hours before
+ * the appointment and the customer is notified when it does.
+ */
+export const OCCURRENCE_PAYMENT_WINDOW_HOURS = 72;
+
+/**
+ * Occurrences still unpaid this many hours before the appointment are
+ * cancelled so the stylist can rebook the slot.
+ */
+export const OCCURRENCE_PAYMENT_CUTOFF_HOURS = 24;
+
+/**
+ * "Cancel this one" or "cancel this and following"
+ */
+export type SeriesCancelScope = "THIS" | "THIS_AND_FOLLOWING";
+
+/**
+ * A recurrence rule. Ends on endDate (inclusive) or after occurrenceCount
+ * occurrences, whichever comes first.
+ */
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  startTime: Date;
+  endDate?: Date;
+  occurrenceCount?: number;
+}
+
+/**
+ * Availability of a single occurrence
+ */
+export interface OccurrenceAvailability {
+  index: number;
+  startTime: string; // ISO datetime
+  endTime: string;
+  available: boolean;
+  conflicts: ConflictInfo[];
+  suggestedAlternatives: string[];
+}
+
+export interface CreateSeriesInput {
+  customerId: string;
+  stylistId: string;
+  serviceId: string;
+  frequency: RecurrenceFrequency;
+  startTime: Date;
+  endDate?: Date;
+  occurrenceCount?: number;
+  locationType: "STYLIST_BASE" | "CUSTOMER_HOME";
+  locationAddress: string;
+  locationLat?: number;
+  locationLng?: number;
+  notes?: string;
+  /** Create the available occurrences and skip the conflicting ones */
+  skipConflicts?: boolean;
+}
+
+/**
+ * Result of a recurring booking operation.
+ * `error` is an ERROR_CODES key so routes can map it directly.
+ */
+export interface RecurringBookingResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  details?: Record<string, unknown>;
+}
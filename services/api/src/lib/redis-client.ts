@@ -22,15 +22,28 @@ type RedisClient = {
   get(key: string): Promise<string | null>;
   set(key: string, value: string, ...args: string[]): Promise<string | null>;
   incr(key: string): Promise<number>;
+  decr(key: string): Promise<number>;
   expire(key: string, seconds: number): Promise<number>;
   del(key: string): Promise<number>;
   ttl(key: string): Promise<number>;
+  rpush(key: string, ...values: string[]): Promise<number>;
+  ltrim(key: string, start: number, stop: number): Promise<string>;
+  lrange(key: string, start: number, stop: number): Promise<string[]>;
+  sadd(key: string, ...members: string[]): Promise<number>;
+  srem(key: string, ...members: string[]): Promise<number>;
+  smembers(key: string): Promise<string[]>;
   quit(): Promise<string>;
   ping(): Promise<string>;
+  publish(channel: string, message: string): Promise<number>;
+  subscribe(...channels: string[]): Promise<unknown>;
+  duplicate(): RedisClient;
   on(event: string, listener: (...args: unknown[]) => void): void;
 };
 
 let redisClient: RedisClient | null = null;
+// Subscribed connections can't run other commands, so pub/sub gets its own
+let subscriberClient: RedisClient | null = null;
+const channelHandlers = new Map<string, Set<(message: string) => void>>();
 let connectionAttempted = false;
 let isConnected = false;
 
@@ -163,6 +176,12 @@ export function isRedisAvailable(): boolean {
  * Close Redis connection gracefully
  */
 export async function closeRedis(): Promise<void> {
+  if (subscriberClient) {
+    await subscriberClient.quit().catch(() => undefined);
+    subscriberClient = null;
+    channelHandlers.clear();
+  }
+
   if (redisClient) {
     try {
       await redisClient.quit();
@@ -291,3 +310,81 @@ export async function rateLimitClear(key: string): Promise<boolean> {
     return false;
   }
 }
+
+
+/**
+ * Pub/sub helper: Publish a message to a channel
+ * Returns false if Redis unavailable (caller should deliver in-process)
+ */
+export async function publishMessage(channel: string, message: string): Promise<boolean> {
+  const redis = await getRedis();
+
+  if (!redis) {
+    return false;
+  }
+
+  try {
+    await redis.publish(channel, message);
+    return true;
+  } catch (error) {
+    logger.error("Redis publish error", {
+      event: "redis_publish_error",
+      channel,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return false;
+  }
+}
+
+/**
+ * Pub/sub helper: Subscribe a handler to a channel
+ * Returns false if Redis unavailable (caller only receives its own publishes)
+ */
+export async function subscribeChannel(
+  channel: string,
+  handler: (message: string) => void
+): Promise<boolean> {
+  const redis = await getRedis();
+
+  if (!redis) {
+    return false;
+  }
+
+  try {
+    if (!subscriberClient) {
+      subscriberClient = redis.duplicate();
+      subscriberClient.on("message", (...args: unknown[]) => {
+        const [messageChannel, message] = args as [string, string];
+        channelHandlers.get(messageChannel)?.forEach((channelHandler) => {
+          try {
+            channelHandler(message);
+          } catch (error) {
+            logger.error("Redis subscriber handler error", {
+              event: "redis_subscriber_handler_error",
+              channel: messageChannel,
+              error: error instanceof Error ? error.message : "Unknown error",
+            });
+          }
+        });
+      });
+    }
+
+    const handlers = channelHandlers.get(channel);
+    if (handlers) {
+      handlers.add(handler);
+      return true;
+    }
+
+    channelHandlers.set(channel, new Set([handler]));
+    await subscriberClient.subscribe(channel);
+    return true;
+  } catch (error) {
+    channelHandlers.delete(channel);
+    logger.error("Redis subscribe error", {
+      event: "redis_subscribe_error",
+      channel,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return false;
+  }
+}
@@ -0,0 +1,18 @@
+/**
+ * Reputation Sync Module
+ * Unified exports for anchoring reputation in the on-chain ReputationRegistry
+ * Reference: docs/vlossom/08-reputation-system-flow.md
+ */
+
+export * from "./types";
+export {
+  toRegistryEventType,
+  toRegistryActorType,
+  toRegistryScoreImpact,
+  toRegistryBookingId,
+  hashEventMetadata,
+  chunk,
+  getNextAttemptAt,
+} from "./registry-encoding";
+export { REPUTATION_REGISTRY_ADDRESS, getOnChainReputation } from "./registry-client";
+export { syncReputationEvents, verifyReputationScore } from "./sync-service";
@@ -0,0 +1,158 @@
+/**
+ * Reputation Registry Client
+ * Relayer access to contracts/reputation/ReputationRegistry.sol
+ *
+ * The relayer must be an authorized submitter on the registry
+ * (setAuthorizedSubmitter). Its key comes from Secrets Manager, as for escrow.
+ */
+
+import { createWalletClient, http, type Account, type Address, type Chain, type Hash, type Transport } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { CHAIN, RPC_URL, publicClient } from "../wallet/chain-client";
+import { getRelayerPrivateKey } from "../secrets-manager";
+import type { OnChainReputation, RegistryEventInput } from "./types";
+
+export const REPUTATION_REGISTRY_ADDRESS = (process.env.REPUTATION_REGISTRY_ADDRESS || null) as Address | null;
+
+const REPUTATION_REGISTRY_ABI = [
+  {
+    type: "function",
+    name: "recordEventsBatch",
+    inputs: [
+      { name: "actors", type: "address[]" },
+      { name: "bookingIds", type: "bytes32[]" },
+      { name: "actorTypes", type: "uint8[]" },
+      { name: "eventTypes", type: "uint8[]" },
+      { name: "scoreImpacts", type: "int256[]" },
+      { name: "metadataHashes", type: "bytes32[]" },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "getReputationScore",
+    inputs: [{ name: "actor", type: "address" }],
+    outputs: [
+      { name: "totalScore", type: "uint256" },
+      { name: "tpsScore", type: "uint256" },
+      { name: "reliabilityScore", type: "uint256" },
+      { name: "feedbackScore", type: "uint256" },
+      { name: "disputeScore", type: "uint256" },
+      { name: "completedBookings", type: "uint256" },
+      { name: "totalReviews", type: "uint256" },
+      { name: "isVerified", type: "bool" },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getEventCount",
+    inputs: [{ name: "actor", type: "address" }],
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+  },
+] as const;
+
+type BoundWalletClient = ReturnType<typeof createWalletClient<Transport, Chain, Account>>;
+
+let walletClientInstance: BoundWalletClient | null = null;
+
+async function getWalletClient(): Promise<BoundWalletClient> {
+  if (!walletClientInstance) {
+    const account = privateKeyToAccount(await getRelayerPrivateKey());
+    walletClientInstance = createWalletClient({ account, chain: CHAIN, transport: http(RPC_URL) });
+  }
+  return walletClientInstance;
+}
+
+function requireRegistryAddress(): Address {
+  if (!REPUTATION_REGISTRY_ADDRESS) {
+    throw new Error("REPUTATION_REGISTRY_ADDRESS not configured");
+  }
+  return REPUTATION_REGISTRY_ADDRESS;
+}
+
+/**
+ * Send one recordEventsBatch transaction
+ *
+ * @returns The transaction hash, before it is mined
+ */
+export async function submitEventsBatch(events: RegistryEventInput[]): Promise<Hash> {
+  const walletClient = await getWalletClient();
+
+  return walletClient.writeContract({
+    address: requireRegistryAddress(),
+    abi: REPUTATION_REGISTRY_ABI,
+    functionName: "recordEventsBatch",
+    args: [
+      events.map((e) => e.actor),
+      events.map((e) => e.bookingId),
+      events.map((e) => e.actorType),
+      events.map((e) => e.eventType),
+      events.map((e) => e.scoreImpact),
+      events.map((e) => e.metadataHash),
+    ],
+  });
+}
+
+/**
+ * Wait for a batch to be mined
+ *
+ * @returns Whether it succeeded; reverted batches recorded nothing
+ */
+export async function waitForBatchReceipt(hash: Hash): Promise<boolean> {
+  const receipt = await publicClient.waitForTransactionReceipt({ hash });
+  return receipt.status === "success";
+}
+
+/**
+ * Look up a batch sent by an earlier run
+ *
+ * @returns true / false once mined, null while still pending or unknown
+ */
+export async function getBatchReceiptStatus(hash: Hash): Promise<boolean | null> {
+  try {
+    const receipt = await publicClient.getTransactionReceipt({ hash });
+    return receipt.status === "success";
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read an actor's score and event count from the registry
+ */
+export async function getOnChainReputation(actor: Address): Promise<OnChainReputation> {
+  const address = requireRegistryAddress();
+
+  const [score, eventCount] = await Promise.all([
+    publicClient.readContract({
+      address,
+      abi: REPUTATION_REGISTRY_ABI,
+      functionName: "getReputationScore",
+      args: [actor],
+    }),
+    publicClient.readContract({
+      address,
+      abi: REPUTATION_REGISTRY_ABI,
+      functionName: "getEventCount",
+      args: [actor],
+    }),
+  ]);
+
+  const [totalScore, tpsScore, reliabilityScore, feedbackScore, disputeScore, completedBookings, totalReviews, isVerified] =
+    score;
+
+  return {
+    totalScore: Number(totalScore),
+    tpsScore: Number(tpsScore),
+    reliabilityScore: Number(reliabilityScore),
+    feedbackScore: Number(feedbackScore),
+    disputeScore: Number(disputeScore),
+    completedBookings: Number(completedBookings),
+    totalReviews: Number(totalReviews),
+    isVerified,
+    eventCount: Number(eventCount),
+  };
+}
@@ -0,0 +1,102 @@
+import { keccak256, toBytes, zeroHash } from 'viem';
+import {
+  chunk,
+  getNextAttemptAt,
+  hashEventMetadata,
+  toRegistryActorType,
+  toRegistryBookingId,
+  toRegistryEventType,
+  toRegistryScoreImpact,
+} from './registry-encoding';
+import { MAX_CHAIN_ATTEMPTS, RETRY_BASE_DELAY_MS, RegistryActorType, RegistryEventType } from './types';
+
+describe('Registry Encoding', () => {
+  describe('toRegistryEventType', () => {
+    it('should map API event types to registry event types', () => {
+      expect(toRegistryEventType('BOOKING_COMPLETED')).toBe(RegistryEventType.BookingCompleted);
+      expect(toRegistryEventType('BOOKING_CANCELLED_BY_STYLIST')).toBe(RegistryEventType.BookingCancelled);
+      expect(toRegistryEventType('EARLY_COMPLETION')).toBe(RegistryEventType.OnTimeCompletion);
+      expect(toRegistryEventType('CUSTOMER_REVIEW')).toBe(RegistryEventType.CustomerReview);
+    });
+
+    it('should not map events without a registry equivalent', () => {
+      expect(toRegistryEventType('BOOKING_RESCHEDULED_BY_CUSTOMER')).toBeNull();
+      expect(toRegistryEventType('SOMETHING_ELSE')).toBeNull();
+    });
+  });
+
+  describe('toRegistryActorType', () => {
+    it('should map actor roles and leave out admins', () => {
+      expect(toRegistryActorType('STYLIST')).toBe(RegistryActorType.Stylist);
+      expect(toRegistryActorType('CUSTOMER')).toBe(RegistryActorType.Customer);
+      expect(toRegistryActorType('PROPERTY_OWNER')).toBe(RegistryActorType.PropertyOwner);
+      expect(toRegistryActorType('ADMIN')).toBeNull();
+    });
+  });
+
+  describe('toRegistryScoreImpact', () => {
+    it('should scale percentage points to the registry range', () => {
+      expect(toRegistryScoreImpact(10)).toBe(100n);
+      expect(toRegistryScoreImpact(-5)).toBe(-50n);
+      expect(toRegistryScoreImpact(0)).toBe(0n);
+    });
+
+    it('should clamp impacts the registry would reject', () => {
+      expect(toRegistryScoreImpact(250)).toBe(1000n);
+      expect(toRegistryScoreImpact(-250)).toBe(-1000n);
+    });
+  });
+
+  describe('toRegistryBookingId', () => {
+    it('should hash booking ids like escrow keys', () => {
+      expect(toRegistryBookingId('booking-1')).toBe(keccak256(toBytes('booking-1')));
+    });
+
+    it('should use the zero hash without a booking', () => {
+      expect(toRegistryBookingId(null)).toBe(zeroHash);
+    });
+  });
+
+  describe('hashEventMetadata', () => {
+    it('should differ per event even with the same metadata', () => {
+      expect(hashEventMetadata('a', { tpsScore: 90 })).not.toBe(hashEventMetadata('b', { tpsScore: 90 }));
+    });
+
+    it('should be reproducible from the API record', () => {
+      expect(hashEventMetadata('a', { tpsScore: 90 })).toBe(
+        keccak256(toBytes(JSON.stringify({ eventId: 'a', metadata: { tpsScore: 90 } })))
+      );
+    });
+  });
+
+  describe('chunk', () => {
+    it('should split into batches no larger than the size', () => {
+      const batches = chunk(Array.from({ length: 250 }, (_, i) => i), 100);
+
+      expect(batches.map((b) => b.length)).toEqual([100, 100, 50]);
+      expect(batches.flat()).toHaveLength(250);
+    });
+
+    it('should return no batches for no items', () => {
+      expect(chunk([], 100)).toEqual([]);
+    });
+
+    it('should reject a non-positive size', () => {
+      expect(() => chunk([1], 0)).toThrow('Invalid batch size');
+    });
+  });
+
+  describe('getNextAttemptAt', () => {
+    const now = new Date('2026-10-01T12:00:00Z');
+
+    it('should back off exponentially', () => {
+      expect(getNextAttemptAt(1, now)?.getTime()).toBe(now.getTime() + RETRY_BASE_DELAY_MS);
+      expect(getNextAttemptAt(2, now)?.getTime()).toBe(now.getTime() + 2 * RETRY_BASE_DELAY_MS);
+      expect(getNextAttemptAt(3, now)?.getTime()).toBe(now.getTime() + 4 * RETRY_BASE_DELAY_MS);
+    });
+
+    it('should give up after the maximum attempts', () => {
+      expect(getNextAttemptAt(MAX_CHAIN_ATTEMPTS, now)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Registry Encoding
+ * Pure mapping from API reputation events to ReputationRegistry arguments
+ */
+
+import { keccak256, toBytes, zeroHash, type Hex } from "viem";
+import type { ActorRole } from "@prisma/client";
+import {
+  MAX_CHAIN_ATTEMPTS,
+  RETRY_BASE_DELAY_MS,
+  RegistryActorType,
+  RegistryEventType,
+} from "./types";
+
+// API event types with a registry equivalent. Reschedules have none.
+const EVENT_TYPE_MAP: Record<string, RegistryEventType> = {
+  BOOKING_COMPLETED: RegistryEventType.BookingCompleted,
+  BOOKING_CANCELLED_BY_CUSTOMER: RegistryEventType.BookingCancelled,
+  BOOKING_CANCELLED_BY_STYLIST: RegistryEventType.BookingCancelled,
+  CUSTOMER_NO_SHOW: RegistryEventType.CustomerNoShow,
+  STYLIST_NO_SHOW: RegistryEventType.StylistNoShow,
+  ON_TIME_ARRIVAL: RegistryEventType.OnTimeArrival,
+  LATE_ARRIVAL: RegistryEventType.LateArrival,
+  EARLY_COMPLETION: RegistryEventType.OnTimeCompletion,
+  ON_TIME_COMPLETION: RegistryEventType.OnTimeCompletion,
+  LATE_COMPLETION: RegistryEventType.LateCompletion,
+  CUSTOMER_REVIEW: RegistryEventType.CustomerReview,
+  PROPERTY_OWNER_REVIEW: RegistryEventType.PropertyOwnerReview,
+  DISPUTE_RAISED: RegistryEventType.DisputeRaised,
+  DISPUTE_RESOLVED: RegistryEventType.DisputeResolved,
+};
+
+/**
+ * Registry event type for an API event type, or null if it isn't anchored
+ */
+export function toRegistryEventType(eventType: string): RegistryEventType | null {
+  return EVENT_TYPE_MAP[eventType] ?? null;
+}
+
+/**
+ * Registry actor type for an API role. Admins have no reputation on chain.
+ */
+export function toRegistryActorType(role: ActorRole): RegistryActorType | null {
+  switch (role) {
+    case "STYLIST":
+      return RegistryActorType.Stylist;
+    case "CUSTOMER":
+      return RegistryActorType.Customer;
+    case "PROPERTY_OWNER":
+      return RegistryActorType.PropertyOwner;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Scale an API impact (-100 to +100) to the registry's -1000 to +1000
+ *
+ * Both sides score on 0-10000, but API impacts are recorded in whole
+ * percentage points. Out-of-range values are clamped rather than letting the
+ * whole batch revert with InvalidScore.
+ */
+export function toRegistryScoreImpact(scoreImpact: number): bigint {
+  const scaled = Math.round(scoreImpact * 10);
+  return BigInt(Math.max(-1000, Math.min(1000, scaled)));
+}
+
+/**
+ * bytes32 booking key, hashed the same way as escrow ids. Events without a
+ * booking (e.g. some reviews) use the zero hash.
+ */
+export function toRegistryBookingId(bookingId: string | null): Hex {
+  return bookingId ? keccak256(toBytes(bookingId)) : zeroHash;
+}
+
+/**
+ * Hash of the event id and its metadata, so anyone holding the API record can
+ * check it against the registry
+ */
+export function hashEventMetadata(eventId: string, metadata: unknown): Hex {
+  return keccak256(toBytes(JSON.stringify({ eventId, metadata: metadata ?? {} })));
+}
+
+/**
+ * Split items into batches of at most `size`
+ */
+export function chunk<T>(items: T[], size: number): T[][] {
+  if (size <= 0) {
+    throw new Error(`Invalid batch size: ${size}`);
+  }
+
+  const batches: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    batches.push(items.slice(i, i + size));
+  }
+  return batches;
+}
+
+/**
+ * When to retry after a failed attempt, or null once attempts run out
+ *
+ * @param attempts - Attempts made so far, including the one that just failed
+ */
+export function getNextAttemptAt(attempts: number, now: Date = new Date()): Date | null {
+  if (attempts >= MAX_CHAIN_ATTEMPTS) {
+    return null;
+  }
+  return new Date(now.getTime() + RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1));
+}
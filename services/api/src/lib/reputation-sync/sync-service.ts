@@ -0,0 +1,369 @@
+/**
+ * Reputation Sync Service
+ * Anchors API reputation events in the on-chain ReputationRegistry
+ * Reference: docs/vlossom/08-reputation-system-flow.md
+ *
+ * Flow (run by the scheduler through the internal API):
+ * 1. Check receipts for batches an earlier run sent but didn't see mined
+ * 2. Mark events with no registry equivalent SKIPPED
+ * 3. Batch PENDING events of actors with wallets (at most MAX_BATCH_SIZE each)
+ *    and send them with recordEventsBatch from the relayer
+ * 4. Store the tx hash on every event before waiting, so a crash mid-batch is
+ *    reconciled instead of recorded twice
+ * 5. Failed batches go back to PENDING with exponential backoff, and are
+ *    marked FAILED after MAX_CHAIN_ATTEMPTS
+ *
+ * The DB score stays the source of truth. The registry gives third parties
+ * an independent record to check it against (verifyReputationScore).
+ */
+
+import { ActorRole, ReputationChainStatus, type ReputationEvent } from "@prisma/client";
+import type { Address, Hash } from "viem";
+import prisma from "../prisma";
+import { logger } from "../logger";
+import {
+  REPUTATION_REGISTRY_ADDRESS,
+  getBatchReceiptStatus,
+  getOnChainReputation,
+  submitEventsBatch,
+  waitForBatchReceipt,
+} from "./registry-client";
+import {
+  chunk,
+  getNextAttemptAt,
+  hashEventMetadata,
+  toRegistryActorType,
+  toRegistryBookingId,
+  toRegistryEventType,
+  toRegistryScoreImpact,
+} from "./registry-encoding";
+import {
+  MAX_BATCHES_PER_RUN,
+  REGISTRY_MAX_BATCH_SIZE,
+  RETRY_BASE_DELAY_MS,
+  SCORE_MATCH_TOLERANCE,
+  type RegistryEventInput,
+  type ReputationSyncResult,
+  type ReputationSyncServiceResult,
+  type ReputationVerification,
+} from "./types";
+
+/**
+ * Put a batch's events back in the queue, or give up on those out of attempts
+ *
+ * @param events - With chainAttempts counting the attempt that just failed
+ */
+async function markBatchFailed(events: Pick<ReputationEvent, "id" | "chainAttempts">[], error: string): Promise<number> {
+  const now = new Date();
+  let failed = 0;
+
+  await prisma.$transaction(
+    events.map((event) => {
+      const nextAttemptAt = getNextAttemptAt(event.chainAttempts, now);
+      if (!nextAttemptAt) {
+        failed++;
+      }
+      return prisma.reputationEvent.update({
+        where: { id: event.id },
+        data: {
+          chainStatus: nextAttemptAt ? ReputationChainStatus.PENDING : ReputationChainStatus.FAILED,
+          chainTxHash: null,
+          chainAttempts: event.chainAttempts,
+          chainLastError: error.slice(0, 500),
+          chainNextAttemptAt: nextAttemptAt,
+        },
+      });
+    })
+  );
+
+  return failed;
+}
+
+async function markBatchConfirmed(eventIds: string[], txHash: string): Promise<void> {
+  await prisma.reputationEvent.updateMany({
+    where: { id: { in: eventIds } },
+    data: {
+      chainStatus: ReputationChainStatus.CONFIRMED,
+      chainTxHash: txHash,
+      chainSyncedAt: new Date(),
+      chainLastError: null,
+      chainNextAttemptAt: null,
+    },
+  });
+}
+
+/**
+ * Settle batches sent by an earlier run that never saw their receipt
+ *
+ * Batches still unmined after their deadline are treated as dropped.
+ */
+async function reconcileSubmittedBatches(): Promise<{ reconciled: number; failed: number }> {
+  const submitted = await prisma.reputationEvent.findMany({
+    where: { chainStatus: ReputationChainStatus.SUBMITTED },
+    select: { id: true, chainTxHash: true, chainAttempts: true, chainNextAttemptAt: true },
+  });
+
+  const byHash = new Map<string, typeof submitted>();
+  for (const event of submitted) {
+    const key = event.chainTxHash ?? "";
+    byHash.set(key, [...(byHash.get(key) ?? []), event]);
+  }
+
+  let reconciled = 0;
+  let failed = 0;
+  const now = new Date();
+
+  for (const [txHash, events] of byHash) {
+    const status = txHash ? await getBatchReceiptStatus(txHash as Hash) : false;
+    const deadlinePassed = events.every((e) => !e.chainNextAttemptAt || e.chainNextAttemptAt <= now);
+
+    if (status === true) {
+      await markBatchConfirmed(
+        events.map((e) => e.id),
+        txHash
+      );
+      reconciled += events.length;
+    } else if (status === false || deadlinePassed) {
+      failed += await markBatchFailed(events, status === false ? "Batch reverted" : "Batch not mined in time");
+      reconciled += events.length;
+    }
+  }
+
+  return { reconciled, failed };
+}
+
+/**
+ * Skip events the registry has no type for, and admin events
+ */
+async function skipUnanchorableEvents(): Promise<number> {
+  const pending = await prisma.reputationEvent.findMany({
+    where: { chainStatus: ReputationChainStatus.PENDING },
+    distinct: ["eventType", "actorType"],
+    select: { eventType: true, actorType: true },
+  });
+
+  const skippedTypes = [...new Set(pending.filter((e) => toRegistryEventType(e.eventType) === null).map((e) => e.eventType))];
+
+  const result = await prisma.reputationEvent.updateMany({
+    where: {
+      chainStatus: ReputationChainStatus.PENDING,
+      OR: [{ eventType: { in: skippedTypes } }, { actorType: ActorRole.ADMIN }],
+    },
+    data: { chainStatus: ReputationChainStatus.SKIPPED },
+  });
+
+  return result.count;
+}
+
+/**
+ * Due PENDING events of actors with a wallet, oldest first, with their addresses
+ */
+async function loadDueEvents(limit: number): Promise<{ event: ReputationEvent; actor: Address }[]> {
+  const now = new Date();
+  const dueWhere = {
+    chainStatus: ReputationChainStatus.PENDING,
+    OR: [{ chainNextAttemptAt: null }, { chainNextAttemptAt: { lte: now } }],
+  };
+
+  // Events of actors without a wallet stay PENDING until they get one, so
+  // find the actors first rather than letting them crowd out everyone else
+  const actors = await prisma.reputationEvent.findMany({
+    where: dueWhere,
+    distinct: ["actorId"],
+    select: { actorId: true },
+  });
+
+  const wallets = await prisma.wallet.findMany({
+    where: { userId: { in: actors.map((a) => a.actorId) } },
+    select: { userId: true, address: true },
+  });
+  const addressByUser = new Map(wallets.map((w) => [w.userId, w.address as Address]));
+
+  if (addressByUser.size === 0) {
+    return [];
+  }
+
+  const events = await prisma.reputationEvent.findMany({
+    where: { ...dueWhere, actorId: { in: [...addressByUser.keys()] } },
+    orderBy: { createdAt: "asc" },
+    take: limit,
+  });
+
+  return events.map((event) => ({ event, actor: addressByUser.get(event.actorId)! }));
+}
+
+function toRegistryInput(event: ReputationEvent, actor: Address): RegistryEventInput {
+  return {
+    eventId: event.id,
+    actor,
+    bookingId: toRegistryBookingId(event.bookingId),
+    // Unmappable events were skipped before loading
+    actorType: toRegistryActorType(event.actorType)!,
+    eventType: toRegistryEventType(event.eventType)!,
+    scoreImpact: toRegistryScoreImpact(event.scoreImpact),
+    metadataHash: hashEventMetadata(event.id, event.metadata),
+  };
+}
+
+/**
+ * Run one sync pass
+ */
+export async function syncReputationEvents(): Promise<ReputationSyncServiceResult<ReputationSyncResult>> {
+  if (!REPUTATION_REGISTRY_ADDRESS) {
+    return { success: false, error: "REPUTATION_REGISTRY_NOT_CONFIGURED" };
+  }
+
+  const result: ReputationSyncResult = {
+    batches: 0,
+    confirmed: 0,
+    failed: 0,
+    skipped: 0,
+    reconciled: 0,
+    txHashes: [],
+  };
+
+  const reconciliation = await reconcileSubmittedBatches();
+  result.reconciled = reconciliation.reconciled;
+  result.failed += reconciliation.failed;
+
+  result.skipped = await skipUnanchorableEvents();
+
+  const due = await loadDueEvents(REGISTRY_MAX_BATCH_SIZE * MAX_BATCHES_PER_RUN);
+
+  for (const batch of chunk(due, REGISTRY_MAX_BATCH_SIZE)) {
+    const eventIds = batch.map(({ event }) => event.id);
+    const attempted = batch.map(({ event }) => ({ id: event.id, chainAttempts: event.chainAttempts + 1 }));
+    result.batches++;
+
+    let txHash: Hash;
+    try {
+      txHash = await submitEventsBatch(batch.map(({ event, actor }) => toRegistryInput(event, actor)));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      logger.error("Failed to submit reputation batch", { size: batch.length, error: message });
+      result.failed += await markBatchFailed(attempted, message);
+      // Most submit errors (gas, nonce, RPC) would hit the next batch too
+      break;
+    }
+
+    // Recorded before waiting so a restart reconciles rather than resubmits
+    await prisma.reputationEvent.updateMany({
+      where: { id: { in: eventIds } },
+      data: {
+        chainStatus: ReputationChainStatus.SUBMITTED,
+        chainTxHash: txHash,
+        chainAttempts: { increment: 1 },
+        chainNextAttemptAt: new Date(Date.now() + RETRY_BASE_DELAY_MS),
+      },
+    });
+    result.txHashes.push(txHash);
+
+    let mined: boolean;
+    try {
+      mined = await waitForBatchReceipt(txHash);
+    } catch (error) {
+      // Left SUBMITTED for the next run to reconcile
+      logger.warn("Reputation batch receipt not available yet", {
+        txHash,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+      break;
+    }
+
+    if (!mined) {
+      logger.error("Reputation batch reverted", { txHash, size: batch.length });
+      result.failed += await markBatchFailed(attempted, `Batch reverted (${txHash})`);
+      break;
+    }
+
+    await markBatchConfirmed(eventIds, txHash);
+    result.confirmed += batch.length;
+
+    logger.info("Reputation batch anchored", { txHash, size: batch.length });
+  }
+
+  return { success: true, data: result };
+}
+
+/**
+ * Compare an actor's API score with the registry
+ */
+export async function verifyReputationScore(
+  userId: string
+): Promise<ReputationSyncServiceResult<ReputationVerification>> {
+  if (!REPUTATION_REGISTRY_ADDRESS) {
+    return { success: false, error: "REPUTATION_REGISTRY_NOT_CONFIGURED" };
+  }
+
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { id: true, wallet: { select: { address: true } } },
+  });
+
+  if (!user) {
+    return { success: false, error: "USER_NOT_FOUND" };
+  }
+
+  const [score, eventCounts] = await Promise.all([
+    prisma.reputationScore.findUnique({ where: { userId } }),
+    prisma.reputationEvent.groupBy({
+      by: ["chainStatus"],
+      where: { actorId: userId },
+      _count: { _all: true },
+    }),
+  ]);
+
+  const countOf = (...statuses: ReputationChainStatus[]) =>
+    eventCounts.filter((c) => statuses.includes(c.chainStatus)).reduce((sum, c) => sum + c._count._all, 0);
+
+  const database = {
+    totalScore: score?.totalScore ?? 5000,
+    tpsScore: score?.tpsScore ?? 5000,
+    reliabilityScore: score?.reliabilityScore ?? 5000,
+    feedbackScore: score?.feedbackScore ?? 5000,
+    disputeScore: score?.disputeScore ?? 10000,
+    completedBookings: score?.completedBookings ?? 0,
+    totalReviews: score?.totalReviews ?? 0,
+    isVerified: score?.isVerified ?? false,
+  };
+
+  const events = {
+    anchored: countOf(ReputationChainStatus.CONFIRMED),
+    pending: countOf(ReputationChainStatus.PENDING, ReputationChainStatus.SUBMITTED),
+    failed: countOf(ReputationChainStatus.FAILED),
+  };
+
+  const walletAddress = (user.wallet?.address as Address | undefined) ?? null;
+
+  let onChain = null;
+  if (walletAddress) {
+    try {
+      onChain = await getOnChainReputation(walletAddress);
+    } catch (error) {
+      logger.error("Failed to read on-chain reputation", {
+        userId,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+      return { success: false, error: "REPUTATION_REGISTRY_UNAVAILABLE" };
+    }
+  }
+
+  const totalScoreDelta = onChain ? onChain.totalScore - database.totalScore : null;
+
+  return {
+    success: true,
+    data: {
+      userId,
+      walletAddress,
+      registryAddress: REPUTATION_REGISTRY_ADDRESS,
+      database,
+      onChain,
+      events,
+      totalScoreDelta,
+      matches:
+        onChain !== null &&
+        onChain.eventCount === events.anchored &&
+        Math.abs(totalScoreDelta ?? 0) <= SCORE_MATCH_TOLERANCE,
+    },
+  };
+}
@@ -0,0 +1,139 @@
+/**
+ * Reputation Sync Types
+ * Anchoring API reputation events in the on-chain ReputationRegistry
+ * Reference: docs/vlossom/08-reputation-system-flow.md
+ */
+
+import type { Address, Hash, Hex } from "viem";
+
+/**
+ * ReputationRegistry.MAX_BATCH_SIZE - larger batches revert with BatchTooLarge
+ */
+export const REGISTRY_MAX_BATCH_SIZE = 100;
+
+/**
+ * Batches submitted per sync run, so one run can't hold the relayer for long
+ */
+export const MAX_BATCHES_PER_RUN = 5;
+
+/**
+ * Attempts before an event is marked FAILED and left for an operator
+ */
+export const MAX_CHAIN_ATTEMPTS = 5;
+
+/**
+ * First retry delay; doubles with each failed attempt
+ */
+export const RETRY_BASE_DELAY_MS = 5 * 60 * 1000;
+
+/**
+ * API scores are recalculated from rolling windows while the registry applies
+ * each event's impact cumulatively, so the two drift slightly. Scores within
+ * this many points (0-10000 scale) are treated as matching.
+ */
+export const SCORE_MATCH_TOLERANCE = 500;
+
+/**
+ * ReputationRegistry.ActorType
+ */
+export enum RegistryActorType {
+  Stylist = 0,
+  Customer = 1,
+  PropertyOwner = 2,
+}
+
+/**
+ * ReputationRegistry.EventType
+ */
+export enum RegistryEventType {
+  BookingCompleted = 0,
+  BookingCancelled = 1,
+  CustomerNoShow = 2,
+  StylistNoShow = 3,
+  OnTimeArrival = 4,
+  LateArrival = 5,
+  OnTimeCompletion = 6,
+  LateCompletion = 7,
+  CustomerReview = 8,
+  PropertyOwnerReview = 9,
+  DisputeRaised = 10,
+  DisputeResolved = 11,
+}
+
+/**
+ * One entry of a recordEventsBatch call
+ */
+export interface RegistryEventInput {
+  eventId: string;
+  actor: Address;
+  bookingId: Hex;
+  actorType: RegistryActorType;
+  eventType: RegistryEventType;
+  scoreImpact: bigint;
+  metadataHash: Hex;
+}
+
+/**
+ * Return value of ReputationRegistry.getReputationScore
+ */
+export interface OnChainReputation {
+  totalScore: number;
+  tpsScore: number;
+  reliabilityScore: number;
+  feedbackScore: number;
+  disputeScore: number;
+  completedBookings: number;
+  totalReviews: number;
+  isVerified: boolean;
+  eventCount: number;
+}
+
+export interface ReputationSyncResult {
+  batches: number;
+  confirmed: number;
+  failed: number;
+  skipped: number;
+  /** Earlier submissions whose receipts were checked this run */
+  reconciled: number;
+  txHashes: Hash[];
+}
+
+/**
+ * Comparison of an actor's API score with the registry
+ */
+export interface ReputationVerification {
+  userId: string;
+  walletAddress: Address | null;
+  registryAddress: Address | null;
+  database: {
+    totalScore: number;
+    tpsScore: number;
+    reliabilityScore: number;
+    feedbackScore: number;
+    disputeScore: number;
+    completedBookings: number;
+    totalReviews: number;
+    isVerified: boolean;
+  };
+  onChain: OnChainReputation | null;
+  events: {
+    anchored: number;
+    pending: number;
+    failed: number;
+  };
+  /** onChain.totalScore - database.totalScore */
+  totalScoreDelta: number | null;
+  /** Every anchored event is on chain and the total scores are within tolerance */
+  matches: boolean;
+}
+
+/**
+ * Result of a reputation sync operation.
+ * `error` is an ERROR_CODES key so routes can map it directly.
+ */
+export interface ReputationSyncServiceResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  details?: Record<string, unknown>;
+}
@@ -27,6 +27,8 @@ export enum ReputationEventType {
   EARLY_COMPLETION = "EARLY_COMPLETION",
   ON_TIME_COMPLETION = "ON_TIME_COMPLETION",
   LATE_COMPLETION = "LATE_COMPLETION",
+  BOOKING_RESCHEDULED_BY_CUSTOMER = "BOOKING_RESCHEDULED_BY_CUSTOMER",
+  BOOKING_RESCHEDULED_BY_STYLIST = "BOOKING_RESCHEDULED_BY_STYLIST",
 }
 
 /**
@@ -531,6 +533,44 @@ export async function recordCancellationEvent(params: {
   }
 }
 
+/**
+ * Record an agreed reschedule. Both parties consented, so it is kept as
+ * history only: no score impact, and it never counts as a cancellation.
+ */
+export async function recordRescheduleEvent(params: {
+  bookingId: string;
+  proposedById: string;
+  proposedByType: ReputationActor;
+  previousStartTime: Date;
+  newStartTime: Date;
+}): Promise<void> {
+  const { bookingId, proposedById, proposedByType, previousStartTime, newStartTime } = params;
+
+  try {
+    await storeReputationEvent({
+      bookingId,
+      eventType:
+        proposedByType === "CUSTOMER"
+          ? ReputationEventType.BOOKING_RESCHEDULED_BY_CUSTOMER
+          : ReputationEventType.BOOKING_RESCHEDULED_BY_STYLIST,
+      actorId: proposedById,
+      actorType: proposedByType,
+      scoreImpact: 0,
+      metadata: {
+        previousStartTime: previousStartTime.toISOString(),
+        newStartTime: newStartTime.toISOString(),
+      },
+    });
+
+    logger.info("Reschedule reputation event recorded", { bookingId, proposedById });
+  } catch (error) {
+    logger.error("Failed to record reschedule event", {
+      bookingId,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+}
+
 /**
  * Record a no-show event
  */
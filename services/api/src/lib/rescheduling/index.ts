@@ -0,0 +1,15 @@
+/**
+ * Rescheduling Module
+ * Unified exports for booking reschedule proposals
+ * Reference: docs/vlossom/07-booking-and-approval-flow.md
+ */
+
+export * from "./types";
+export { normalizeProposedTimes, shiftByBookingMove } from "./proposed-times";
+export {
+  listRescheduleProposals,
+  proposeReschedule,
+  acceptRescheduleProposal,
+  rejectRescheduleProposal,
+  withdrawRescheduleProposal,
+} from "./reschedule-service";
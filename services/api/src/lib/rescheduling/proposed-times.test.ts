@@ -0,0 +1,53 @@
+import { normalizeProposedTimes, shiftByBookingMove } from './proposed-times';
+import { RESCHEDULE_LIMITS } from './types';
+
+describe('Proposed Reschedule Times', () => {
+  const now = new Date('2026-03-10T12:00:00Z');
+  const current = new Date('2026-03-12T10:00:00Z');
+  const hour = 60 * 60 * 1000;
+
+  describe('normalizeProposedTimes', () => {
+    it('should dedupe and sort the times', () => {
+      const result = normalizeProposedTimes(
+        [new Date('2026-03-14T09:00:00Z'), new Date('2026-03-13T09:00:00Z'), new Date('2026-03-14T09:00:00Z')],
+        current,
+        now
+      );
+      expect((result as Date[]).map((d) => d.toISOString())).toEqual([
+        '2026-03-13T09:00:00.000Z',
+        '2026-03-14T09:00:00.000Z',
+      ]);
+    });
+
+    it('should require at least one and at most the maximum', () => {
+      expect(normalizeProposedTimes([], current, now)).toMatch(/between 1 and/);
+      const tooMany = Array.from(
+        { length: RESCHEDULE_LIMITS.MAX_PROPOSED_TIMES + 1 },
+        (_, i) => new Date(now.getTime() + (i + 2) * hour)
+      );
+      expect(normalizeProposedTimes(tooMany, current, now)).toMatch(/between 1 and/);
+    });
+
+    it('should reject times inside the notice period', () => {
+      expect(normalizeProposedTimes([new Date(now.getTime() + 30 * 60 * 1000)], current, now)).toMatch(
+        /at least/
+      );
+    });
+
+    it('should reject the current booking time', () => {
+      expect(normalizeProposedTimes([current], current, now)).toMatch(/current booking time/);
+    });
+  });
+
+  describe('shiftByBookingMove', () => {
+    it('should keep the event offset from the appointment', () => {
+      const event = {
+        scheduledStart: new Date('2026-03-11T18:00:00Z'), // Prep the evening before
+        scheduledEnd: new Date('2026-03-11T18:30:00Z'),
+      };
+      const moved = shiftByBookingMove(event, current, new Date('2026-03-15T10:00:00Z'));
+      expect(moved.scheduledStart.toISOString()).toBe('2026-03-14T18:00:00.000Z');
+      expect(moved.scheduledEnd.toISOString()).toBe('2026-03-14T18:30:00.000Z');
+    });
+  });
+});
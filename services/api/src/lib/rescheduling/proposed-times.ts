@@ -0,0 +1,49 @@
+/**
+ * Proposed reschedule times
+ * Pure helpers - no database access
+ */
+
+import { RESCHEDULE_LIMITS } from "./types";
+
+/**
+ * Dedupe and sort proposed start times, rejecting any that are too soon or
+ * the booking's current time. Returns the times or an error message.
+ */
+export function normalizeProposedTimes(
+  startTimes: Date[],
+  currentStartTime: Date,
+  now: Date = new Date()
+): Date[] | string {
+  const unique = [...new Set(startTimes.map((t) => t.getTime()))].sort((a, b) => a - b);
+
+  if (unique.length === 0 || unique.length > RESCHEDULE_LIMITS.MAX_PROPOSED_TIMES) {
+    return `Propose between 1 and ${RESCHEDULE_LIMITS.MAX_PROPOSED_TIMES} times`;
+  }
+
+  const earliest = now.getTime() + RESCHEDULE_LIMITS.MIN_NOTICE_MINUTES * 60 * 1000;
+  if (unique[0] < earliest) {
+    return `Proposed times must start at least ${RESCHEDULE_LIMITS.MIN_NOTICE_MINUTES} minutes from now`;
+  }
+
+  if (unique.includes(currentStartTime.getTime())) {
+    return "A proposed time matches the current booking time";
+  }
+
+  return unique.map((t) => new Date(t));
+}
+
+/**
+ * Shift a linked calendar event by the same amount as its booking,
+ * keeping its offset from the appointment
+ */
+export function shiftByBookingMove(
+  event: { scheduledStart: Date; scheduledEnd: Date },
+  previousStartTime: Date,
+  newStartTime: Date
+): { scheduledStart: Date; scheduledEnd: Date } {
+  const delta = newStartTime.getTime() - previousStartTime.getTime();
+  return {
+    scheduledStart: new Date(event.scheduledStart.getTime() + delta),
+    scheduledEnd: new Date(event.scheduledEnd.getTime() + delta),
+  };
+}
@@ -0,0 +1,442 @@
+/**
+ * Reschedule Service
+ * Move a booking to a new time with the consent of both parties
+ * Reference: docs/vlossom/07-booking-and-approval-flow.md
+ *
+ * Flow:
+ * 1. Customer or stylist proposes one or more new start times; each is
+ *    checked with checkAvailability (ignoring the booking's own slot)
+ * 2. The other party accepts one of the times or rejects the proposal.
+ *    A new proposal from either side supersedes the pending one.
+ * 3. On accept the booking moves: status and escrow are untouched, the move
+ *    is recorded in BookingStatusHistory, linked calendar events shift with
+ *    it and reminders are re-sent for the new time
+ *
+ * A reschedule is not a cancellation - it never affects refunds or the
+ * cancellation count in reputation.
+ */
+
+import {
+  ActorRole,
+  HairEventStatus,
+  RescheduleProposalStatus,
+  type Booking,
+  type RescheduleProposal,
+} from "@prisma/client";
+import prisma from "../prisma";
+import logger from "../logger";
+import { checkAvailability } from "../scheduling";
+import { ChairDoubleBookedError, moveChairReservation } from "../chair-reservations";
+import { notifyBookingEvent } from "../notifications";
+import { recordRescheduleEvent } from "../reputation";
+import { normalizeProposedTimes, shiftByBookingMove } from "./proposed-times";
+import {
+  RESCHEDULABLE_STATUSES,
+  type ProposeRescheduleInput,
+  type ProposedTimeAvailability,
+  type RespondToProposalInput,
+  type RescheduleResult,
+} from "./types";
+
+// Calendar events that haven't happened yet and can move with the booking
+const MOVABLE_EVENT_STATUSES: HairEventStatus[] = [HairEventStatus.PLANNED, HairEventStatus.DUE];
+
+/**
+ * Load a booking the user is a party to
+ */
+async function loadBookingForParty(
+  bookingId: string,
+  userId: string
+): Promise<{ booking: Booking; role: ActorRole } | { error: string }> {
+  const booking = await prisma.booking.findUnique({ where: { id: bookingId } });
+
+  if (!booking) {
+    return { error: "BOOKING_NOT_FOUND" };
+  }
+
+  if (booking.customerId === userId) {
+    return { booking, role: ActorRole.CUSTOMER };
+  }
+
+  if (booking.stylistId === userId) {
+    return { booking, role: ActorRole.STYLIST };
+  }
+
+  return { error: "FORBIDDEN" };
+}
+
+/**
+ * Load a pending proposal on the booking
+ */
+async function loadPendingProposal(
+  bookingId: string,
+  proposalId: string
+): Promise<{ proposal: RescheduleProposal } | { error: string }> {
+  const proposal = await prisma.rescheduleProposal.findUnique({ where: { id: proposalId } });
+
+  if (!proposal || proposal.bookingId !== bookingId) {
+    return { error: "RESCHEDULE_PROPOSAL_NOT_FOUND" };
+  }
+
+  if (proposal.status !== RescheduleProposalStatus.PENDING) {
+    return { error: "RESCHEDULE_PROPOSAL_NOT_PENDING" };
+  }
+
+  return { proposal };
+}
+
+function notReschedulable(booking: Booking): RescheduleResult<never> {
+  return {
+    success: false,
+    error: "INVALID_STATUS",
+    details: { message: `Booking cannot be rescheduled in ${booking.status} status` },
+  };
+}
+
+/**
+ * Check each start time against the stylist's schedule, ignoring the booking itself
+ */
+async function checkProposedTimes(booking: Booking, startTimes: Date[]): Promise<ProposedTimeAvailability[]> {
+  const results: ProposedTimeAvailability[] = [];
+
+  for (const startTime of startTimes) {
+    const availability = await checkAvailability({
+      stylistId: booking.stylistId,
+      serviceId: booking.serviceId ?? "",
+      startTime,
+      durationMinutes: booking.estimatedDurationMin,
+      locationType: booking.locationType,
+      customerCoords:
+        booking.locationLat !== null && booking.locationLng !== null
+          ? { lat: booking.locationLat, lng: booking.locationLng }
+          : undefined,
+      excludeBookingId: booking.id,
+    });
+
+    results.push({
+      startTime: startTime.toISOString(),
+      endTime: new Date(startTime.getTime() + booking.estimatedDurationMin * 60 * 1000).toISOString(),
+      available: availability.available,
+      conflicts: availability.conflicts,
+      suggestedAlternatives: availability.suggestedAlternatives.map((d) => d.toISOString()),
+    });
+  }
+
+  return results;
+}
+
+function otherParty(booking: Booking, role: ActorRole): string {
+  return role === ActorRole.CUSTOMER ? booking.stylistId : booking.customerId;
+}
+
+/**
+ * Proposals on a booking, newest first
+ */
+export async function listRescheduleProposals(
+  bookingId: string,
+  userId: string
+): Promise<RescheduleResult<{ proposals: RescheduleProposal[] }>> {
+  const loaded = await loadBookingForParty(bookingId, userId);
+  if ("error" in loaded) {
+    return { success: false, error: loaded.error };
+  }
+
+  const proposals = await prisma.rescheduleProposal.findMany({
+    where: { bookingId },
+    orderBy: { createdAt: "desc" },
+  });
+
+  return { success: true, data: { proposals } };
+}
+
+/**
+ * Propose new times for a booking. Every time must be free.
+ */
+export async function proposeReschedule(
+  input: ProposeRescheduleInput
+): Promise<RescheduleResult<{ proposal: RescheduleProposal; times: ProposedTimeAvailability[] }>> {
+  const loaded = await loadBookingForParty(input.bookingId, input.userId);
+  if ("error" in loaded) {
+    return { success: false, error: loaded.error };
+  }
+  const { booking, role } = loaded;
+
+  if (!RESCHEDULABLE_STATUSES.includes(booking.status)) {
+    return notReschedulable(booking);
+  }
+
+  const startTimes = normalizeProposedTimes(input.startTimes, booking.scheduledStartTime);
+  if (typeof startTimes === "string") {
+    return { success: false, error: "VALIDATION_ERROR", details: { message: startTimes } };
+  }
+
+  const times = await checkProposedTimes(booking, startTimes);
+  if (times.some((t) => !t.available)) {
+    return { success: false, error: "SCHEDULING_CONFLICT", details: { times } };
+  }
+
+  const proposal = await prisma.$transaction(async (tx) => {
+    // One live proposal per booking - a counter-proposal replaces the last one
+    await tx.rescheduleProposal.updateMany({
+      where: { bookingId: booking.id, status: RescheduleProposalStatus.PENDING },
+      data: { status: RescheduleProposalStatus.SUPERSEDED },
+    });
+
+    return tx.rescheduleProposal.create({
+      data: {
+        bookingId: booking.id,
+        proposedBy: input.userId,
+        proposedByRole: role,
+        proposedTimes: startTimes,
+        reason: input.reason,
+      },
+    });
+  });
+
+  logger.info("[Reschedule] Proposal created", {
+    bookingId: booking.id,
+    proposalId: proposal.id,
+    proposedByRole: role,
+    options: startTimes.length,
+  });
+
+  const proposer = await prisma.user.findUnique({
+    where: { id: input.userId },
+    select: { displayName: true },
+  });
+
+  notifyBookingEvent(otherParty(booking, role), "RESCHEDULE_PROPOSED", {
+    bookingId: booking.id,
+    proposalId: proposal.id,
+    serviceType: booking.serviceType,
+    proposerName: proposer?.displayName,
+    scheduledTime: booking.scheduledStartTime.toISOString(),
+    proposedTimes: startTimes.map((t) => t.toISOString()),
+    rescheduleNote: input.reason,
+  }).catch((err) => logger.error("Failed to send reschedule proposal notification", { error: err }));
+
+  return { success: true, data: { proposal, times } };
+}
+
+/**
+ * The other party accepts one of the proposed times and the booking moves
+ */
+export async function acceptRescheduleProposal(
+  input: RespondToProposalInput & { startTime: Date }
+): Promise<RescheduleResult<{ booking: Booking; proposal: RescheduleProposal }>> {
+  const loaded = await loadBookingForParty(input.bookingId, input.userId);
+  if ("error" in loaded) {
+    return { success: false, error: loaded.error };
+  }
+  const { booking } = loaded;
+
+  const pending = await loadPendingProposal(booking.id, input.proposalId);
+  if ("error" in pending) {
+    return { success: false, error: pending.error };
+  }
+  const { proposal } = pending;
+
+  if (proposal.proposedBy === input.userId) {
+    return { success: false, error: "FORBIDDEN", details: { message: "You cannot accept your own proposal" } };
+  }
+
+  if (!RESCHEDULABLE_STATUSES.includes(booking.status)) {
+    return notReschedulable(booking);
+  }
+
+  if (!proposal.proposedTimes.some((t) => t.getTime() === input.startTime.getTime())) {
+    return {
+      success: false,
+      error: "VALIDATION_ERROR",
+      details: { message: "startTime must be one of the proposed times" },
+    };
+  }
+
+  // The schedule may have changed since the proposal was made
+  const startTimes = normalizeProposedTimes([input.startTime], booking.scheduledStartTime);
+  if (typeof startTimes === "string") {
+    return { success: false, error: "VALIDATION_ERROR", details: { message: startTimes } };
+  }
+
+  const [time] = await checkProposedTimes(booking, startTimes);
+  if (!time.available) {
+    return { success: false, error: "SCHEDULING_CONFLICT", details: { times: [time] } };
+  }
+
+  const previousStartTime = booking.scheduledStartTime;
+  const newStartTime = input.startTime;
+  const now = new Date();
+
+  const linkedEvents = await prisma.hairCalendarEvent.findMany({
+    where: { linkedBookingId: booking.id, status: { in: MOVABLE_EVENT_STATUSES } },
+    select: { id: true, scheduledStart: true, scheduledEnd: true },
+  });
+
+  let result;
+  try {
+    result = await prisma.$transaction(async (tx) => {
+      const accepted = await tx.rescheduleProposal.updateMany({
+        where: { id: proposal.id, status: RescheduleProposalStatus.PENDING },
+        data: {
+          status: RescheduleProposalStatus.ACCEPTED,
+          respondedBy: input.userId,
+          respondedAt: now,
+          responseNote: input.note,
+          acceptedStartTime: newStartTime,
+          previousStartTime,
+        },
+      });
+
+      if (accepted.count === 0) {
+        return null;
+      }
+
+      // Status, quote and escrow are unchanged - only the time moves.
+      // Clearing paymentDueNotifiedAt re-sends a series occurrence's payment notice for the new time.
+      const updatedBooking = await tx.booking.update({
+        where: { id: booking.id },
+        data: {
+          scheduledStartTime: newStartTime,
+          scheduledEndTime: new Date(time.endTime),
+          paymentDueNotifiedAt: null,
+        },
+      });
+
+      // A salon chair moves with the booking, if it's free at the new time
+      await moveChairReservation(tx, {
+        bookingId: booking.id,
+        stylistId: booking.stylistId,
+        startTime: newStartTime,
+        endTime: updatedBooking.scheduledEndTime,
+      });
+
+      await tx.bookingStatusHistory.create({
+        data: {
+          bookingId: booking.id,
+          fromStatus: booking.status,
+          toStatus: booking.status,
+          changedBy: input.userId,
+          reason: `Rescheduled from ${previousStartTime.toISOString()} to ${newStartTime.toISOString()} (proposed by ${proposal.proposedByRole.toLowerCase()})`,
+        },
+      });
+
+      for (const event of linkedEvents) {
+        await tx.hairCalendarEvent.update({
+          where: { id: event.id },
+          data: shiftByBookingMove(event, previousStartTime, newStartTime),
+        });
+      }
+
+      const acceptedProposal = await tx.rescheduleProposal.findUniqueOrThrow({ where: { id: proposal.id } });
+
+      return { booking: updatedBooking, proposal: acceptedProposal };
+    });
+  } catch (error) {
+    if (error instanceof ChairDoubleBookedError) {
+      return { success: false, error: "CHAIR_DOUBLE_BOOKED", details: { conflict: error.conflict } };
+    }
+    throw error;
+  }
+
+  if (!result) {
+    return { success: false, error: "RESCHEDULE_PROPOSAL_NOT_PENDING" };
+  }
+
+  logger.info("[Reschedule] Booking moved", {
+    bookingId: booking.id,
+    proposalId: proposal.id,
+    from: previousStartTime.toISOString(),
+    to: newStartTime.toISOString(),
+    calendarEvents: linkedEvents.length,
+  });
+
+  recordRescheduleEvent({
+    bookingId: booking.id,
+    proposedById: proposal.proposedBy,
+    proposedByType: proposal.proposedByRole === ActorRole.CUSTOMER ? "CUSTOMER" : "STYLIST",
+    previousStartTime,
+    newStartTime,
+  }).catch((err) => logger.error("Failed to record reschedule reputation event", { error: err }));
+
+  for (const userId of [booking.customerId, booking.stylistId]) {
+    notifyBookingEvent(userId, "RESCHEDULE_ACCEPTED", {
+      bookingId: booking.id,
+      proposalId: proposal.id,
+      serviceType: booking.serviceType,
+      previousScheduledTime: previousStartTime.toISOString(),
+      scheduledTime: newStartTime.toISOString(),
+    }).catch((err) => logger.error("Failed to send reschedule accepted notification", { error: err }));
+  }
+
+  return { success: true, data: result };
+}
+
+/**
+ * The other party rejects the proposal. The booking keeps its time.
+ */
+export async function rejectRescheduleProposal(
+  input: RespondToProposalInput
+): Promise<RescheduleResult<{ proposal: RescheduleProposal }>> {
+  const loaded = await loadBookingForParty(input.bookingId, input.userId);
+  if ("error" in loaded) {
+    return { success: false, error: loaded.error };
+  }
+  const { booking } = loaded;
+
+  const pending = await loadPendingProposal(booking.id, input.proposalId);
+  if ("error" in pending) {
+    return { success: false, error: pending.error };
+  }
+
+  if (pending.proposal.proposedBy === input.userId) {
+    return { success: false, error: "FORBIDDEN", details: { message: "Withdraw your own proposal instead" } };
+  }
+
+  const proposal = await prisma.rescheduleProposal.update({
+    where: { id: input.proposalId },
+    data: {
+      status: RescheduleProposalStatus.REJECTED,
+      respondedBy: input.userId,
+      respondedAt: new Date(),
+      responseNote: input.note,
+    },
+  });
+
+  notifyBookingEvent(proposal.proposedBy, "RESCHEDULE_REJECTED", {
+    bookingId: booking.id,
+    proposalId: proposal.id,
+    serviceType: booking.serviceType,
+    scheduledTime: booking.scheduledStartTime.toISOString(),
+    rescheduleNote: input.note,
+  }).catch((err) => logger.error("Failed to send reschedule rejected notification", { error: err }));
+
+  return { success: true, data: { proposal } };
+}
+
+/**
+ * The proposer takes back a pending proposal
+ */
+export async function withdrawRescheduleProposal(
+  input: Omit<RespondToProposalInput, "note">
+): Promise<RescheduleResult<{ proposal: RescheduleProposal }>> {
+  const loaded = await loadBookingForParty(input.bookingId, input.userId);
+  if ("error" in loaded) {
+    return { success: false, error: loaded.error };
+  }
+
+  const pending = await loadPendingProposal(input.bookingId, input.proposalId);
+  if ("error" in pending) {
+    return { success: false, error: pending.error };
+  }
+
+  if (pending.proposal.proposedBy !== input.userId) {
+    return { success: false, error: "FORBIDDEN" };
+  }
+
+  const proposal = await prisma.rescheduleProposal.update({
+    where: { id: input.proposalId },
+    data: { status: RescheduleProposalStatus.WITHDRAWN, respondedAt: new Date() },
+  });
+
+  return { success: true, data: { proposal } };
+}
@@ -0,0 +1,61 @@
+/**
+ * Rescheduling Types
+ * Moving a booking to a new time with the consent of both parties
+ * Reference: docs/vlossom/07-booking-and-approval-flow.md
+ */
+
+import { BookingStatus } from "@prisma/client";
+import type { ConflictInfo } from "../scheduling";
+
+/**
+ * Limits on a single proposal
+ */
+export const RESCHEDULE_LIMITS = {
+  MAX_PROPOSED_TIMES: 5,
+  MIN_NOTICE_MINUTES: 60, // Proposed times must start at least this far ahead
+} as const;
+
+/**
+ * Bookings that can still be moved. Once the service starts, the time is fixed.
+ */
+export const RESCHEDULABLE_STATUSES: BookingStatus[] = [
+  BookingStatus.PENDING_STYLIST_APPROVAL,
+  BookingStatus.PENDING_CUSTOMER_PAYMENT,
+  BookingStatus.CONFIRMED,
+];
+
+/**
+ * Availability of one proposed start time
+ */
+export interface ProposedTimeAvailability {
+  startTime: string; // ISO datetime
+  endTime: string;
+  available: boolean;
+  conflicts: ConflictInfo[];
+  suggestedAlternatives: string[];
+}
+
+export interface ProposeRescheduleInput {
+  bookingId: string;
+  userId: string;
+  startTimes: Date[];
+  reason?: string;
+}
+
+export interface RespondToProposalInput {
+  bookingId: string;
+  proposalId: string;
+  userId: string;
+  note?: string;
+}
+
+/**
+ * Result of a rescheduling operation.
+ * `error` is an ERROR_CODES key so routes can map it directly.
+ */
+export interface RescheduleResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  details?: Record<string, unknown>;
+}
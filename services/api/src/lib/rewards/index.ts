@@ -17,6 +17,13 @@ export {
   getXPLeaderboard,
 } from "./xp-service";
 
+// Tier Benefits
+export {
+  getUserTier,
+  getFeeDiscountPercentage,
+  getPriorityBookingUserIds,
+} from "./tier-benefits";
+
 // Badge Service
 export {
   checkAndAwardBadges,
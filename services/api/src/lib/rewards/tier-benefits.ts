@@ -0,0 +1,45 @@
+/**
+ * Tier Benefits Service - Applies reward tier benefits outside the rewards pages
+ * Reference: docs/vlossom/09-rewards-and-incentives-engine.md
+ *
+ * - feeDiscount: taken off the platform fee when a booking is priced
+ *   (calculateBookingPricing) and stored on the booking
+ * - priorityBooking: waitlist entries from these customers are offered freed
+ *   slots first
+ */
+
+import { prisma } from "../prisma";
+import { PRIORITY_BOOKING_TIERS, TIER_BENEFITS, UserTier } from "./types";
+
+/**
+ * A user's current tier - BRONZE until they've earned any XP
+ */
+export async function getUserTier(userId: string): Promise<UserTier> {
+  const userXP = await prisma.userXP.findUnique({
+    where: { userId },
+    select: { tier: true },
+  });
+
+  return (userXP?.tier as UserTier | undefined) ?? "BRONZE";
+}
+
+/**
+ * Platform fee discount (percent) a customer gets on a new booking
+ */
+export async function getFeeDiscountPercentage(customerId: string): Promise<number> {
+  return TIER_BENEFITS[await getUserTier(customerId)].feeDiscount;
+}
+
+/**
+ * Which of these users have priority booking
+ */
+export async function getPriorityBookingUserIds(userIds: string[]): Promise<Set<string>> {
+  if (userIds.length === 0) return new Set();
+
+  const priority = await prisma.userXP.findMany({
+    where: { userId: { in: userIds }, tier: { in: PRIORITY_BOOKING_TIERS } },
+    select: { userId: true },
+  });
+
+  return new Set(priority.map((entry) => entry.userId));
+}
@@ -130,6 +130,13 @@ export const TIER_BENEFITS: Record<UserTier, TierBenefits> = {
   },
 };
 
+/**
+ * Tiers whose customers go first when a freed slot is offered to a waitlist
+ */
+export const PRIORITY_BOOKING_TIERS = (Object.keys(TIER_BENEFITS) as UserTier[]).filter(
+  (tier) => TIER_BENEFITS[tier].priorityBooking
+);
+
 /**
  * Badge definitions
  */
@@ -31,11 +31,12 @@ export interface DateException {
 
 export interface AvailabilityCheckInput {
   stylistId: string;
-  serviceId: string;
+  serviceId?: string; // Informational - the duration below is what gets checked
   startTime: Date;
   durationMinutes: number;
   locationType: "STYLIST_BASE" | "CUSTOMER_HOME";
   customerCoords?: Coordinates;
+  excludeBookingId?: string; // Ignore this booking when re-checking its own slot
 }
 
 export interface ConflictInfo {
@@ -215,6 +216,7 @@ export async function checkAvailability(
   const conflictingBookings = await prisma.booking.findMany({
     where: {
       stylistId: stylist.userId,
+      ...(input.excludeBookingId && { id: { not: input.excludeBookingId } }),
       status: {
         in: [
           "PENDING_STYLIST_APPROVAL",
@@ -384,7 +386,6 @@ export async function isTimeSlotAvailable(
 ): Promise<boolean> {
   const result = await checkAvailability({
     stylistId,
-    serviceId: "", // Not needed for quick check
     startTime,
     durationMinutes,
     locationType: "STYLIST_BASE",
@@ -0,0 +1,259 @@
+/**
+ * Smoothing Buffer Client
+ * Relayer access to contracts/defi/VlossomSmoothingBuffer.sol
+ *
+ * The relayer needs PAYOUT_ROLE (grantPayoutRole) to pay stylists and
+ * REPLENISH_ROLE to reconcile. Its key comes from Secrets Manager, as for escrow.
+ */
+
+import {
+  createWalletClient,
+  http,
+  keccak256,
+  toBytes,
+  type Account,
+  type Address,
+  type Chain,
+  type Hash,
+  type Hex,
+  type Transport,
+} from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { CHAIN, RPC_URL, publicClient } from "../wallet/chain-client";
+import { ERC20_ABI, USDC_ADDRESS } from "../wallet/contracts";
+import { getRelayerPrivateKey } from "../secrets-manager";
+import type { BufferHealth } from "./types";
+
+export const SMOOTHING_BUFFER_ADDRESS = (process.env.SMOOTHING_BUFFER_ADDRESS || null) as Address | null;
+
+const SMOOTHING_BUFFER_ABI = [
+  {
+    type: "function",
+    name: "instantPayout",
+    inputs: [
+      { name: "bookingId", type: "bytes32" },
+      { name: "stylist", type: "address" },
+      { name: "amount", type: "uint256" },
+    ],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "replenish",
+    inputs: [{ name: "amount", type: "uint256" }],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "reconcilePayout",
+    inputs: [{ name: "bookingId", type: "bytes32" }],
+    outputs: [],
+    stateMutability: "nonpayable",
+  },
+  {
+    type: "function",
+    name: "getBufferHealth",
+    inputs: [],
+    outputs: [
+      { name: "balance", type: "uint256" },
+      { name: "threshold", type: "uint256" },
+      { name: "pending", type: "uint256" },
+      { name: "healthy", type: "bool" },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "totalPayouts",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "totalReplenishments",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256" }],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getPayoutRecord",
+    inputs: [{ name: "bookingId", type: "bytes32" }],
+    outputs: [
+      {
+        name: "",
+        type: "tuple",
+        components: [
+          { name: "stylist", type: "address" },
+          { name: "amount", type: "uint256" },
+          { name: "bookingId", type: "bytes32" },
+          { name: "paidAt", type: "uint256" },
+          { name: "replenished", type: "bool" },
+        ],
+      },
+    ],
+    stateMutability: "view",
+  },
+] as const;
+
+type BoundWalletClient = ReturnType<typeof createWalletClient<Transport, Chain, Account>>;
+
+let walletClientInstance: BoundWalletClient | null = null;
+
+async function getWalletClient(): Promise<BoundWalletClient> {
+  if (!walletClientInstance) {
+    const account = privateKeyToAccount(await getRelayerPrivateKey());
+    walletClientInstance = createWalletClient({ account, chain: CHAIN, transport: http(RPC_URL) });
+  }
+  return walletClientInstance;
+}
+
+function requireBufferAddress(): Address {
+  if (!SMOOTHING_BUFFER_ADDRESS) {
+    throw new Error("SMOOTHING_BUFFER_ADDRESS not configured");
+  }
+  return SMOOTHING_BUFFER_ADDRESS;
+}
+
+/**
+ * bytes32 payout key, hashed the same way as escrow ids
+ */
+export function toBufferBookingId(bookingId: string): Hex {
+  return keccak256(toBytes(bookingId));
+}
+
+/**
+ * Address escrow releases instantly-paid stylist shares to
+ */
+export async function getRelayerAddress(): Promise<Address> {
+  return (await getWalletClient()).account.address;
+}
+
+/**
+ * Send an instantPayout transaction
+ *
+ * @returns The transaction hash, before it is mined
+ */
+export async function sendInstantPayout(bookingId: string, stylist: Address, amount: bigint): Promise<Hash> {
+  const walletClient = await getWalletClient();
+
+  return walletClient.writeContract({
+    address: requireBufferAddress(),
+    abi: SMOOTHING_BUFFER_ABI,
+    functionName: "instantPayout",
+    args: [toBufferBookingId(bookingId), stylist, amount],
+  });
+}
+
+/**
+ * Wait for a buffer transaction to be mined
+ *
+ * @returns Whether it succeeded
+ */
+export async function waitForBufferReceipt(hash: Hash): Promise<boolean> {
+  const receipt = await publicClient.waitForTransactionReceipt({ hash });
+  return receipt.status === "success";
+}
+
+async function writeAndWait(write: () => Promise<Hash>): Promise<Hash> {
+  const hash = await write();
+  if (!(await waitForBufferReceipt(hash))) {
+    throw new Error(`Buffer transaction reverted (${hash})`);
+  }
+  return hash;
+}
+
+/**
+ * Return funds from the relayer to the buffer
+ *
+ * replenish pulls USDC with transferFrom, so the relayer approves it first.
+ *
+ * @returns The mined replenish transaction hash
+ */
+export async function replenishBuffer(amount: bigint): Promise<Hash> {
+  const walletClient = await getWalletClient();
+  const address = requireBufferAddress();
+
+  await writeAndWait(() =>
+    walletClient.writeContract({
+      address: USDC_ADDRESS,
+      abi: ERC20_ABI,
+      functionName: "approve",
+      args: [address, amount],
+    })
+  );
+
+  return writeAndWait(() =>
+    walletClient.writeContract({
+      address,
+      abi: SMOOTHING_BUFFER_ABI,
+      functionName: "replenish",
+      args: [amount],
+    })
+  );
+}
+
+/**
+ * Mark a booking's payout replenished on the buffer
+ *
+ * @returns The mined reconcilePayout transaction hash
+ */
+export async function reconcileBufferPayout(bookingId: string): Promise<Hash> {
+  const walletClient = await getWalletClient();
+
+  return writeAndWait(() =>
+    walletClient.writeContract({
+      address: requireBufferAddress(),
+      abi: SMOOTHING_BUFFER_ABI,
+      functionName: "reconcilePayout",
+      args: [toBufferBookingId(bookingId)],
+    })
+  );
+}
+
+/**
+ * Read the buffer's payout record for a booking
+ *
+ * @returns null when the buffer never paid this booking
+ */
+export async function getPayoutRecord(
+  bookingId: string
+): Promise<{ stylist: Address; amount: bigint; paidAt: Date; replenished: boolean } | null> {
+  const record = await publicClient.readContract({
+    address: requireBufferAddress(),
+    abi: SMOOTHING_BUFFER_ABI,
+    functionName: "getPayoutRecord",
+    args: [toBufferBookingId(bookingId)],
+  });
+
+  if (record.paidAt === 0n) {
+    return null;
+  }
+
+  return {
+    stylist: record.stylist,
+    amount: record.amount,
+    paidAt: new Date(Number(record.paidAt) * 1000),
+    replenished: record.replenished,
+  };
+}
+
+/**
+ * Read the buffer's health and running totals
+ */
+export async function getBufferHealth(): Promise<BufferHealth> {
+  const address = requireBufferAddress();
+
+  const [health, totalPayouts, totalReplenishments] = await Promise.all([
+    publicClient.readContract({ address, abi: SMOOTHING_BUFFER_ABI, functionName: "getBufferHealth" }),
+    publicClient.readContract({ address, abi: SMOOTHING_BUFFER_ABI, functionName: "totalPayouts" }),
+    publicClient.readContract({ address, abi: SMOOTHING_BUFFER_ABI, functionName: "totalReplenishments" }),
+  ]);
+
+  const [balance, threshold, pending, healthy] = health;
+
+  return { address, balance, threshold, pending, healthy, totalPayouts, totalReplenishments };
+}
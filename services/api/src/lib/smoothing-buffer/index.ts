@@ -0,0 +1,17 @@
+/**
+ * Smoothing Buffer Module
+ * Unified exports for instant stylist payouts from the SmoothingBuffer
+ */
+
+export * from "./types";
+export { getStylistShareCents, checkInstantPayoutEligibility, getBufferAlerts } from "./payout-rules";
+export { SMOOTHING_BUFFER_ADDRESS } from "./buffer-client";
+export {
+  getInstantPayoutEligibility,
+  payInstantly,
+  resolveStylistPayee,
+  reconcileInstantPayout,
+  completeInstantPayoutRelease,
+  reconcileOutstandingPayouts,
+  getBufferOverview,
+} from "./instant-payout-service";
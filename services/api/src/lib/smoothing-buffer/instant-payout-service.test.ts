@@ -0,0 +1,204 @@
+/**
+ * Instant Payout Service Tests
+ *
+ * Paying stylists from the buffer and returning released escrow to it.
+ * Prisma and the buffer contract client are mocked; amounts sent to the
+ * buffer are in USDC units.
+ */
+
+const mockPrisma = {
+  booking: { findUnique: jest.fn(), findMany: jest.fn(), update: jest.fn(), updateMany: jest.fn() },
+  reputationScore: { findUnique: jest.fn() },
+  wallet: { findUnique: jest.fn() },
+};
+
+jest.mock('../prisma', () => ({
+  __esModule: true,
+  prisma: mockPrisma,
+  default: mockPrisma,
+}));
+
+jest.mock('./buffer-client', () => ({
+  SMOOTHING_BUFFER_ADDRESS: '0xBufferAddress',
+  getBufferHealth: jest.fn(),
+  getPayoutRecord: jest.fn(),
+  getRelayerAddress: jest.fn(() => Promise.resolve('0xRelayerAddress')),
+  reconcileBufferPayout: jest.fn(() => Promise.resolve('0xReconcileTxHash')),
+  replenishBuffer: jest.fn(() => Promise.resolve('0xReplenishTxHash')),
+  sendInstantPayout: jest.fn(),
+  waitForBufferReceipt: jest.fn(),
+}));
+
+jest.mock('../wallet/wallet-service', () => ({
+  recordTransaction: jest.fn(() => Promise.resolve()),
+}));
+
+import {
+  getBufferHealth,
+  getPayoutRecord,
+  reconcileBufferPayout,
+  replenishBuffer,
+  sendInstantPayout,
+  waitForBufferReceipt,
+} from './buffer-client';
+import { recordTransaction } from '../wallet/wallet-service';
+import {
+  completeInstantPayoutRelease,
+  payInstantly,
+  reconcileInstantPayout,
+  resolveStylistPayee,
+} from './instant-payout-service';
+import { INSTANT_PAYOUT_MIN_SCORE } from './types';
+
+const STYLIST = '0x00000000000000000000000000000000000000aa';
+
+function makeBooking(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'booking-1',
+    stylistId: 'stylist-1',
+    quoteAmountCents: 10_000n, // $100
+    platformFeeCents: 1_000n,
+    propertyPayoutCents: 1_500n, // $15 chair fee
+    depositAmountCents: null,
+    balanceAmountCents: null,
+    balanceStatus: null,
+    instantPayoutStatus: null,
+    instantPayoutCents: null,
+    instantPayoutShortfallCents: null,
+    instantPayoutTxHash: null,
+    instantPayoutReplenishTxHash: null,
+    stylist: { walletAddress: STYLIST },
+    ...overrides,
+  };
+}
+
+describe('Instant Payout Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.booking.findUnique.mockResolvedValue(makeBooking());
+    mockPrisma.booking.update.mockResolvedValue({ stylistId: 'stylist-1' });
+    mockPrisma.booking.updateMany.mockResolvedValue({ count: 1 });
+    mockPrisma.reputationScore.findUnique.mockResolvedValue({ totalScore: INSTANT_PAYOUT_MIN_SCORE });
+    mockPrisma.wallet.findUnique.mockResolvedValue({ id: 'wallet-1' });
+    (getBufferHealth as jest.Mock).mockResolvedValue({ balance: 1_000_000_000n });
+    (sendInstantPayout as jest.Mock).mockResolvedValue('0xPayoutTxHash');
+    (waitForBufferReceipt as jest.Mock).mockResolvedValue(true);
+    (getPayoutRecord as jest.Mock).mockResolvedValue({ replenished: false });
+  });
+
+  describe('payInstantly', () => {
+    it("should pay the stylist's share after the fee and chair fee", async () => {
+      const result = await payInstantly('booking-1');
+
+      expect(result.data).toMatchObject({ status: 'PAID', amountCents: 7_500n, txHash: '0xPayoutTxHash' });
+      // Claimed before anything is sent
+      expect(mockPrisma.booking.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ instantPayoutStatus: 'PENDING', instantPayoutCents: 7_500n }) })
+      );
+      expect(sendInstantPayout).toHaveBeenCalledWith('booking-1', STYLIST, 75_000_000n);
+      expect(recordTransaction).toHaveBeenCalledWith('wallet-1', 'ESCROW_RELEASE', 75_000_000n, expect.any(Object));
+    });
+
+    it('should not pay twice when another request claimed the payout', async () => {
+      mockPrisma.booking.updateMany.mockResolvedValue({ count: 0 });
+
+      const result = await payInstantly('booking-1');
+
+      expect(result).toMatchObject({ success: false, details: { reason: 'ALREADY_REQUESTED' } });
+      expect(sendInstantPayout).not.toHaveBeenCalled();
+    });
+
+    it('should not pay out more than the buffer holds', async () => {
+      (getBufferHealth as jest.Mock).mockResolvedValue({ balance: 74_999_999n });
+
+      const result = await payInstantly('booking-1');
+
+      expect(result).toMatchObject({ success: false, details: { reason: 'INSUFFICIENT_BUFFER' } });
+      expect(mockPrisma.booking.updateMany).not.toHaveBeenCalled();
+      expect(sendInstantPayout).not.toHaveBeenCalled();
+    });
+
+    it('should leave a reverted payout FAILED so escrow pays the stylist', async () => {
+      (waitForBufferReceipt as jest.Mock).mockResolvedValue(false);
+
+      const result = await payInstantly('booking-1');
+
+      expect(result.data).toMatchObject({ status: 'FAILED' });
+      expect(mockPrisma.booking.update).toHaveBeenCalledWith({
+        where: { id: 'booking-1' },
+        data: expect.objectContaining({ instantPayoutStatus: 'FAILED' }),
+      });
+      expect(recordTransaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('resolveStylistPayee', () => {
+    it('should send the share of a paid-out booking to the relayer', async () => {
+      const payee = await resolveStylistPayee(makeBooking({ instantPayoutStatus: 'PAID' }) as never, STYLIST);
+
+      expect(payee).toEqual({ address: '0xRelayerAddress', instantPaid: true });
+    });
+
+    it('should pay the stylist when a pending payout never reached the buffer', async () => {
+      (getPayoutRecord as jest.Mock).mockResolvedValue(null);
+
+      const payee = await resolveStylistPayee(makeBooking({ instantPayoutStatus: 'PENDING' }) as never, STYLIST);
+
+      expect(payee).toEqual({ address: STYLIST, instantPaid: false });
+      expect(mockPrisma.booking.update).toHaveBeenCalledWith({
+        where: { id: 'booking-1' },
+        data: expect.objectContaining({ instantPayoutStatus: 'FAILED' }),
+      });
+    });
+  });
+
+  describe('completeInstantPayoutRelease', () => {
+    it('should return the full payout to the buffer after a full release', async () => {
+      mockPrisma.booking.findUnique
+        .mockResolvedValueOnce({ instantPayoutCents: 7_500n })
+        .mockResolvedValueOnce(makeBooking({ instantPayoutStatus: 'RELEASED', instantPayoutCents: 7_500n }));
+
+      const result = await completeInstantPayoutRelease('booking-1');
+
+      expect(mockPrisma.booking.update).toHaveBeenCalledWith({
+        where: { id: 'booking-1' },
+        data: { instantPayoutStatus: 'RELEASED', instantPayoutShortfallCents: null },
+      });
+      expect(replenishBuffer).toHaveBeenCalledWith(75_000_000n);
+      expect(reconcileBufferPayout).toHaveBeenCalledWith('booking-1');
+      expect(result.data).toMatchObject({ status: 'RECONCILED' });
+    });
+  });
+
+  describe('reconcileInstantPayout', () => {
+    it('should not replenish again when retrying after a failed reconcile', async () => {
+      mockPrisma.booking.findUnique.mockResolvedValue(
+        makeBooking({
+          instantPayoutStatus: 'RELEASED',
+          instantPayoutCents: 7_500n,
+          instantPayoutReplenishTxHash: '0xReplenishTxHash',
+        })
+      );
+
+      const result = await reconcileInstantPayout('booking-1');
+
+      expect(replenishBuffer).not.toHaveBeenCalled();
+      expect(reconcileBufferPayout).toHaveBeenCalledWith('booking-1');
+      expect(result.data).toMatchObject({ status: 'RECONCILED' });
+    });
+
+    it('should keep the booking RELEASED when the buffer call fails', async () => {
+      mockPrisma.booking.findUnique.mockResolvedValue(
+        makeBooking({ instantPayoutStatus: 'RELEASED', instantPayoutCents: 7_500n })
+      );
+      (replenishBuffer as jest.Mock).mockRejectedValueOnce(new Error('execution reverted'));
+
+      const result = await reconcileInstantPayout('booking-1');
+
+      expect(result).toMatchObject({ success: false, error: 'SMOOTHING_BUFFER_UNAVAILABLE' });
+      expect(mockPrisma.booking.update).not.toHaveBeenCalledWith(
+        expect.objectContaining({ data: expect.objectContaining({ instantPayoutStatus: 'RECONCILED' }) })
+      );
+    });
+  });
+});
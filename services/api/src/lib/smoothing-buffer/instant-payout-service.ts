@@ -0,0 +1,504 @@
+/**
+ * Instant Payout Service
+ * Pays eligible stylists from the SmoothingBuffer when they complete a booking
+ *
+ * Flow:
+ * 1. Stylist opts in on POST /bookings/:id/complete; payInstantly records
+ *    PENDING, sends instantPayout and marks the booking PAID once mined
+ * 2. When escrow releases (customer confirmation or auto-confirm), the
+ *    stylist's share goes to the relayer instead (resolveStylistPayee) and the
+ *    booking moves to RELEASED
+ * 3. reconcileInstantPayout returns that share to the buffer with replenish,
+ *    then calls reconcilePayout - RECONCILED
+ *
+ * A partial refund (cancellation or dispute) can release less than was paid
+ * out. Only what escrow released is returned to the buffer and the rest is
+ * recorded as instantPayoutShortfallCents.
+ *
+ * Step 3 is retried by the scheduler (reconcileOutstandingPayouts), which also
+ * settles PENDING payouts whose receipt was never seen.
+ */
+
+import { InstantPayoutStatus, type Booking } from "@prisma/client";
+import type { Address, Hash } from "viem";
+import prisma from "../prisma";
+import { logger } from "../logger";
+import { getLockedEscrowLegs } from "../booking-deposit";
+import { allocatePropertyPayout } from "../chair-reservations";
+import { toEscrowUnits } from "../chair-rentals";
+import { recordTransaction } from "../wallet/wallet-service";
+import {
+  SMOOTHING_BUFFER_ADDRESS,
+  getBufferHealth,
+  getPayoutRecord,
+  getRelayerAddress,
+  reconcileBufferPayout,
+  replenishBuffer,
+  sendInstantPayout,
+  waitForBufferReceipt,
+} from "./buffer-client";
+import { checkInstantPayoutEligibility, getBufferAlerts, getStylistShareCents } from "./payout-rules";
+import {
+  MAX_RECONCILES_PER_RUN,
+  type BufferOverview,
+  type InstantPayoutEligibility,
+  type InstantPayoutResult,
+  type ReconcileRunResult,
+  type SmoothingBufferResult,
+} from "./types";
+
+// PENDING payouts older than this without a mined receipt are checked on chain
+const PENDING_RECHECK_MS = 10 * 60 * 1000;
+
+const OUTSTANDING_STATUSES = [InstantPayoutStatus.PENDING, InstantPayoutStatus.PAID, InstantPayoutStatus.RELEASED];
+
+type PayoutBooking = Booking & { stylist: { walletAddress: string | null } };
+
+/**
+ * Stylist's share of what escrow holds for the booking, in cents
+ */
+function getPayoutAmountCents(booking: Booking): bigint {
+  return getStylistShareCents(allocatePropertyPayout(getLockedEscrowLegs(booking), booking));
+}
+
+async function evaluateEligibility(
+  booking: PayoutBooking
+): Promise<SmoothingBufferResult<InstantPayoutEligibility>> {
+  if (!SMOOTHING_BUFFER_ADDRESS) {
+    return { success: false, error: "SMOOTHING_BUFFER_NOT_CONFIGURED" };
+  }
+
+  const score = await prisma.reputationScore.findUnique({
+    where: { userId: booking.stylistId },
+    select: { totalScore: true },
+  });
+
+  const amountCents = getPayoutAmountCents(booking);
+  const params = {
+    score: score?.totalScore ?? 5000,
+    amountCents,
+    balanceStatus: booking.balanceStatus,
+    instantPayoutStatus: booking.instantPayoutStatus,
+    stylistWalletAddress: booking.stylist.walletAddress,
+  };
+
+  // Only read the buffer once everything else passes
+  const eligibility = checkInstantPayoutEligibility(params);
+  if (!eligibility.eligible) {
+    return { success: true, data: eligibility };
+  }
+
+  try {
+    const health = await getBufferHealth();
+    return {
+      success: true,
+      data: checkInstantPayoutEligibility({
+        ...params,
+        bufferBalance: health.balance,
+        amountUnits: toEscrowUnits(amountCents),
+      }),
+    };
+  } catch (error) {
+    logger.error("Failed to read smoothing buffer health", {
+      bookingId: booking.id,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return { success: false, error: "SMOOTHING_BUFFER_UNAVAILABLE" };
+  }
+}
+
+/**
+ * Whether the stylist can be paid out instantly for a booking, and how much
+ */
+export async function getInstantPayoutEligibility(
+  bookingId: string,
+  stylistId: string
+): Promise<SmoothingBufferResult<InstantPayoutEligibility>> {
+  const booking = await prisma.booking.findUnique({
+    where: { id: bookingId },
+    include: { stylist: { select: { walletAddress: true } } },
+  });
+
+  if (!booking) {
+    return { success: false, error: "BOOKING_NOT_FOUND" };
+  }
+  if (booking.stylistId !== stylistId) {
+    return { success: false, error: "FORBIDDEN" };
+  }
+
+  return evaluateEligibility(booking);
+}
+
+/**
+ * Pay the stylist their escrow share from the buffer
+ *
+ * Called right after the booking is marked complete. A failed payout leaves
+ * the booking FAILED and escrow pays the stylist on release as usual.
+ */
+export async function payInstantly(bookingId: string): Promise<SmoothingBufferResult<InstantPayoutResult>> {
+  const booking = await prisma.booking.findUnique({
+    where: { id: bookingId },
+    include: { stylist: { select: { walletAddress: true } } },
+  });
+
+  if (!booking) {
+    return { success: false, error: "BOOKING_NOT_FOUND" };
+  }
+
+  const eligibility = await evaluateEligibility(booking);
+  if (!eligibility.success) {
+    return { success: false, error: eligibility.error };
+  }
+  if (!eligibility.data!.eligible) {
+    return {
+      success: false,
+      error: "INSTANT_PAYOUT_NOT_ELIGIBLE",
+      details: { reason: eligibility.data!.reason },
+    };
+  }
+
+  const amountCents = eligibility.data!.amountCents;
+  const stylistAddress = booking.stylist.walletAddress as Address;
+
+  // Claimed before sending so a second request can't pay twice
+  const claimed = await prisma.booking.updateMany({
+    where: {
+      id: bookingId,
+      OR: [{ instantPayoutStatus: null }, { instantPayoutStatus: InstantPayoutStatus.FAILED }],
+    },
+    data: {
+      instantPayoutStatus: InstantPayoutStatus.PENDING,
+      instantPayoutCents: amountCents,
+      instantPayoutTxHash: null,
+      instantPayoutError: null,
+    },
+  });
+  if (claimed.count === 0) {
+    return { success: false, error: "INSTANT_PAYOUT_NOT_ELIGIBLE", details: { reason: "ALREADY_REQUESTED" } };
+  }
+
+  const markFailed = async (message: string) => {
+    logger.error("Instant payout failed", { bookingId, error: message });
+    await prisma.booking.update({
+      where: { id: bookingId },
+      data: { instantPayoutStatus: InstantPayoutStatus.FAILED, instantPayoutError: message.slice(0, 500) },
+    });
+  };
+
+  let txHash: Hash;
+  try {
+    txHash = await sendInstantPayout(bookingId, stylistAddress, toEscrowUnits(amountCents));
+  } catch (error) {
+    await markFailed(error instanceof Error ? error.message : "Unknown error");
+    return { success: true, data: { bookingId, status: InstantPayoutStatus.FAILED, amountCents, txHash: null } };
+  }
+
+  // Recorded before waiting so a restart checks this payout rather than losing it
+  await prisma.booking.update({ where: { id: bookingId }, data: { instantPayoutTxHash: txHash } });
+
+  let mined: boolean;
+  try {
+    mined = await waitForBufferReceipt(txHash);
+  } catch (error) {
+    // Left PENDING - it may still be mined, so it is settled from the buffer's record
+    logger.warn("Instant payout receipt not available yet", {
+      bookingId,
+      txHash,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return { success: true, data: { bookingId, status: InstantPayoutStatus.PENDING, amountCents, txHash } };
+  }
+
+  if (!mined) {
+    await markFailed(`instantPayout reverted (${txHash})`);
+    return { success: true, data: { bookingId, status: InstantPayoutStatus.FAILED, amountCents, txHash } };
+  }
+
+  await markPaid(bookingId, amountCents, txHash);
+
+  logger.info("Instant payout sent", { bookingId, amountCents: amountCents.toString(), txHash });
+
+  return {
+    success: true,
+    data: { bookingId, status: InstantPayoutStatus.PAID, amountCents, txHash },
+  };
+}
+
+async function markPaid(bookingId: string, amountCents: bigint, txHash: string | null): Promise<void> {
+  const booking = await prisma.booking.update({
+    where: { id: bookingId },
+    data: { instantPayoutStatus: InstantPayoutStatus.PAID, instantPayoutAt: new Date(), instantPayoutError: null },
+    select: { stylistId: true },
+  });
+
+  const wallet = await prisma.wallet.findUnique({ where: { userId: booking.stylistId }, select: { id: true } });
+  if (wallet) {
+    await recordTransaction(wallet.id, "ESCROW_RELEASE", toEscrowUnits(amountCents), {
+      txHash: txHash ?? undefined,
+      memo: `Instant payout for booking ${bookingId}`,
+      status: "CONFIRMED",
+    });
+  }
+}
+
+/**
+ * Settle a PENDING payout from the buffer's own record
+ *
+ * @returns The status it settled on
+ */
+async function settlePendingPayout(
+  booking: Pick<Booking, "id" | "instantPayoutCents" | "instantPayoutTxHash">
+): Promise<InstantPayoutStatus> {
+  const record = await getPayoutRecord(booking.id);
+
+  if (record) {
+    await markPaid(booking.id, booking.instantPayoutCents ?? 0n, booking.instantPayoutTxHash);
+    return InstantPayoutStatus.PAID;
+  }
+
+  await prisma.booking.update({
+    where: { id: booking.id },
+    data: { instantPayoutStatus: InstantPayoutStatus.FAILED, instantPayoutError: "Payout not found on the buffer" },
+  });
+  return InstantPayoutStatus.FAILED;
+}
+
+/**
+ * Where escrow should send the stylist's share of a booking
+ *
+ * Instantly-paid bookings release to the relayer, which returns the funds to
+ * the buffer. Everyone else is paid directly.
+ */
+export async function resolveStylistPayee(
+  booking: Pick<Booking, "id" | "instantPayoutStatus" | "instantPayoutCents" | "instantPayoutTxHash">,
+  stylistAddress: Address
+): Promise<{ address: Address; instantPaid: boolean }> {
+  let status = booking.instantPayoutStatus;
+
+  if (status === InstantPayoutStatus.PENDING) {
+    status = await settlePendingPayout(booking);
+  }
+
+  if (status === InstantPayoutStatus.PAID) {
+    return { address: await getRelayerAddress(), instantPaid: true };
+  }
+
+  return { address: stylistAddress, instantPaid: false };
+}
+
+/**
+ * Return a released payout's funds to the buffer and reconcile it
+ *
+ * Safe to call again after a failure: a replenish that went through is
+ * remembered and not repeated.
+ */
+export async function reconcileInstantPayout(bookingId: string): Promise<SmoothingBufferResult<InstantPayoutResult>> {
+  const booking = await prisma.booking.findUnique({ where: { id: bookingId } });
+
+  if (!booking) {
+    return { success: false, error: "BOOKING_NOT_FOUND" };
+  }
+
+  const amountCents = booking.instantPayoutCents ?? 0n;
+  // Only what escrow released reached the relayer
+  const replenishCents = amountCents - (booking.instantPayoutShortfallCents ?? 0n);
+
+  if (booking.instantPayoutStatus !== InstantPayoutStatus.RELEASED) {
+    return {
+      success: true,
+      data: { bookingId, status: booking.instantPayoutStatus ?? "NONE", amountCents, txHash: null },
+    };
+  }
+
+  try {
+    if (!booking.instantPayoutReplenishTxHash && replenishCents > 0n) {
+      const replenishTxHash = await replenishBuffer(toEscrowUnits(replenishCents));
+      await prisma.booking.update({
+        where: { id: bookingId },
+        data: { instantPayoutReplenishTxHash: replenishTxHash },
+      });
+    }
+
+    const record = await getPayoutRecord(bookingId);
+    const txHash = record?.replenished ? null : await reconcileBufferPayout(bookingId);
+
+    await prisma.booking.update({
+      where: { id: bookingId },
+      data: {
+        instantPayoutStatus: InstantPayoutStatus.RECONCILED,
+        instantPayoutReconciledAt: new Date(),
+        instantPayoutError: null,
+      },
+    });
+
+    logger.info("Instant payout reconciled", { bookingId, txHash });
+
+    return { success: true, data: { bookingId, status: InstantPayoutStatus.RECONCILED, amountCents, txHash } };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    logger.error("Failed to reconcile instant payout", { bookingId, error: message });
+
+    await prisma.booking.update({
+      where: { id: bookingId },
+      data: { instantPayoutError: message.slice(0, 500) },
+    });
+
+    return { success: false, error: "SMOOTHING_BUFFER_UNAVAILABLE", details: { bookingId, message } };
+  }
+}
+
+/**
+ * Record that escrow released an instantly-paid booking to the relayer, then
+ * try to reconcile it straight away
+ *
+ * @param releasedCents - Stylist share escrow sent to the relayer, when a
+ *   refund made it less than the full share. Anything short of the instant
+ *   payout is recorded as the booking's shortfall.
+ */
+export async function completeInstantPayoutRelease(
+  bookingId: string,
+  releasedCents?: bigint
+): Promise<SmoothingBufferResult<InstantPayoutResult>> {
+  const booking = await prisma.booking.findUnique({
+    where: { id: bookingId },
+    select: { instantPayoutCents: true },
+  });
+
+  const paidCents = booking?.instantPayoutCents ?? 0n;
+  const shortfallCents = releasedCents !== undefined && releasedCents < paidCents ? paidCents - releasedCents : null;
+
+  await prisma.booking.update({
+    where: { id: bookingId },
+    data: { instantPayoutStatus: InstantPayoutStatus.RELEASED, instantPayoutShortfallCents: shortfallCents },
+  });
+
+  if (shortfallCents !== null) {
+    logger.warn("Escrow released less than the instant payout", {
+      bookingId,
+      paidCents: paidCents.toString(),
+      shortfallCents: shortfallCents.toString(),
+    });
+  }
+
+  return reconcileInstantPayout(bookingId);
+}
+
+/**
+ * Scheduler pass: settle stuck PENDING payouts and retry reconciliation
+ */
+export async function reconcileOutstandingPayouts(): Promise<SmoothingBufferResult<ReconcileRunResult>> {
+  if (!SMOOTHING_BUFFER_ADDRESS) {
+    return { success: false, error: "SMOOTHING_BUFFER_NOT_CONFIGURED" };
+  }
+
+  const result: ReconcileRunResult = { checked: 0, reconciled: 0, failed: 0, txHashes: [] };
+
+  const stuck = await prisma.booking.findMany({
+    where: {
+      instantPayoutStatus: InstantPayoutStatus.PENDING,
+      updatedAt: { lt: new Date(Date.now() - PENDING_RECHECK_MS) },
+    },
+    select: { id: true, instantPayoutCents: true, instantPayoutTxHash: true },
+    take: MAX_RECONCILES_PER_RUN,
+  });
+
+  for (const booking of stuck) {
+    result.checked++;
+    try {
+      await settlePendingPayout(booking);
+    } catch (error) {
+      logger.error("Failed to check pending instant payout", {
+        bookingId: booking.id,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
+  const released = await prisma.booking.findMany({
+    where: { instantPayoutStatus: InstantPayoutStatus.RELEASED },
+    orderBy: { updatedAt: "asc" },
+    select: { id: true },
+    take: MAX_RECONCILES_PER_RUN,
+  });
+
+  for (const { id } of released) {
+    result.checked++;
+    const reconciled = await reconcileInstantPayout(id);
+    if (reconciled.success) {
+      result.reconciled++;
+      if (reconciled.data?.txHash) result.txHashes.push(reconciled.data.txHash);
+    } else {
+      result.failed++;
+    }
+  }
+
+  return { success: true, data: result };
+}
+
+/**
+ * Buffer health, outstanding payouts and alerts for the admin dashboard
+ */
+export async function getBufferOverview(): Promise<SmoothingBufferResult<BufferOverview>> {
+  if (!SMOOTHING_BUFFER_ADDRESS) {
+    return { success: false, error: "SMOOTHING_BUFFER_NOT_CONFIGURED" };
+  }
+
+  let health;
+  try {
+    health = await getBufferHealth();
+  } catch (error) {
+    logger.error("Failed to read smoothing buffer health", {
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return { success: false, error: "SMOOTHING_BUFFER_UNAVAILABLE" };
+  }
+
+  const [outstanding, byStatus, shortfall] = await Promise.all([
+    prisma.booking.findMany({
+      where: { instantPayoutStatus: { in: OUTSTANDING_STATUSES } },
+      select: {
+        id: true,
+        status: true,
+        instantPayoutStatus: true,
+        instantPayoutCents: true,
+        instantPayoutAt: true,
+        instantPayoutError: true,
+      },
+    }),
+    prisma.booking.groupBy({
+      by: ["instantPayoutStatus"],
+      where: { instantPayoutStatus: { not: null } },
+      _count: { _all: true },
+    }),
+    prisma.booking.aggregate({
+      where: { instantPayoutShortfallCents: { gt: 0 } },
+      _sum: { instantPayoutShortfallCents: true },
+    }),
+  ]);
+
+  const alerts = getBufferAlerts(
+    health,
+    outstanding.map((b) => ({
+      bookingId: b.id,
+      bookingStatus: b.status,
+      instantPayoutStatus: b.instantPayoutStatus!,
+      instantPayoutAt: b.instantPayoutAt,
+      instantPayoutError: b.instantPayoutError,
+    }))
+  );
+
+  return {
+    success: true,
+    data: {
+      health,
+      alerts,
+      payouts: {
+        outstandingCents: outstanding
+          .filter((b) => b.instantPayoutStatus !== InstantPayoutStatus.PENDING)
+          .reduce((sum, b) => sum + (b.instantPayoutCents ?? 0n), 0n),
+        byStatus: Object.fromEntries(byStatus.map((s) => [s.instantPayoutStatus!, s._count._all])),
+        shortfallCents: shortfall._sum.instantPayoutShortfallCents ?? 0n,
+      },
+    },
+  };
+}
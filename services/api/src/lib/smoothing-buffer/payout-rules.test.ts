@@ -0,0 +1,107 @@
+import { checkInstantPayoutEligibility, getBufferAlerts, getStylistShareCents } from './payout-rules';
+import { INSTANT_PAYOUT_MIN_SCORE, STALE_PAYOUT_HOURS, type BufferHealth } from './types';
+
+describe('Instant Payout Rules', () => {
+  describe('getStylistShareCents', () => {
+    it('should take the platform fee and property share off each leg', () => {
+      const share = getStylistShareCents([
+        { amountCents: 3000n, platformFeeCents: 300n, propertyAmountCents: 1000n },
+        { amountCents: 7000n, platformFeeCents: 700n, propertyAmountCents: 0n },
+      ]);
+
+      // (3000 - 300 - 1000) + (7000 - 700)
+      expect(share).toBe(8000n);
+    });
+  });
+
+  describe('checkInstantPayoutEligibility', () => {
+    const eligible = {
+      score: INSTANT_PAYOUT_MIN_SCORE,
+      amountCents: 9000n,
+      balanceStatus: null,
+      instantPayoutStatus: null,
+      stylistWalletAddress: '0x1234567890123456789012345678901234567890',
+    };
+
+    it('should accept a stylist at the reputation threshold', () => {
+      expect(checkInstantPayoutEligibility(eligible)).toMatchObject({ eligible: true, reason: null });
+    });
+
+    it('should reject stylists below the threshold', () => {
+      expect(checkInstantPayoutEligibility({ ...eligible, score: INSTANT_PAYOUT_MIN_SCORE - 1 }).reason).toBe(
+        'REPUTATION_TOO_LOW'
+      );
+    });
+
+    it('should wait for an unpaid balance', () => {
+      expect(checkInstantPayoutEligibility({ ...eligible, balanceStatus: 'NOT_DUE' }).reason).toBe('BALANCE_UNPAID');
+      expect(checkInstantPayoutEligibility({ ...eligible, balanceStatus: 'PAID' }).eligible).toBe(true);
+    });
+
+    it('should allow a retry only after a failed payout', () => {
+      expect(checkInstantPayoutEligibility({ ...eligible, instantPayoutStatus: 'PAID' }).reason).toBe(
+        'ALREADY_REQUESTED'
+      );
+      expect(checkInstantPayoutEligibility({ ...eligible, instantPayoutStatus: 'FAILED' }).eligible).toBe(true);
+    });
+
+    it('should reject payouts the buffer cannot cover', () => {
+      const result = checkInstantPayoutEligibility({
+        ...eligible,
+        bufferBalance: 89_999_999n,
+        amountUnits: 90_000_000n,
+      });
+
+      expect(result.reason).toBe('INSUFFICIENT_BUFFER');
+    });
+  });
+
+  describe('getBufferAlerts', () => {
+    const now = new Date('2026-12-10T12:00:00Z');
+    const health: BufferHealth = {
+      address: '0x1234567890123456789012345678901234567890',
+      balance: 5_000_000_000n,
+      threshold: 1_000_000_000n,
+      pending: 100_000_000n,
+      healthy: true,
+      totalPayouts: 0n,
+      totalReplenishments: 0n,
+    };
+
+    it('should raise nothing for a healthy buffer', () => {
+      expect(getBufferAlerts(health, [], now)).toEqual([]);
+    });
+
+    it('should flag a buffer below its threshold', () => {
+      const alerts = getBufferAlerts({ ...health, balance: 500_000_000n, healthy: false }, [], now);
+
+      expect(alerts.map((a) => [a.type, a.level])).toEqual([['BELOW_THRESHOLD', 'WARNING']]);
+    });
+
+    it('should flag more pending replenishment than balance', () => {
+      const alerts = getBufferAlerts({ ...health, pending: 6_000_000_000n }, [], now);
+
+      expect(alerts.map((a) => a.type)).toEqual(['PENDING_EXCEEDS_BALANCE']);
+    });
+
+    it('should flag payouts escrow will not repay and payouts waiting too long', () => {
+      const staleAt = new Date(now.getTime() - (STALE_PAYOUT_HOURS + 1) * 60 * 60 * 1000);
+      const alerts = getBufferAlerts(
+        health,
+        [
+          { bookingId: 'b1', bookingStatus: 'DISPUTED', instantPayoutStatus: 'PAID', instantPayoutAt: now, instantPayoutError: null },
+          { bookingId: 'b2', bookingStatus: 'AWAITING_CUSTOMER_CONFIRMATION', instantPayoutStatus: 'PAID', instantPayoutAt: staleAt, instantPayoutError: null },
+          { bookingId: 'b3', bookingStatus: 'AWAITING_CUSTOMER_CONFIRMATION', instantPayoutStatus: 'PAID', instantPayoutAt: now, instantPayoutError: null },
+          { bookingId: 'b4', bookingStatus: 'SETTLED', instantPayoutStatus: 'RELEASED', instantPayoutAt: staleAt, instantPayoutError: 'reverted' },
+        ],
+        now
+      );
+
+      expect(alerts.map((a) => [a.type, a.bookingIds])).toEqual([
+        ['UNRECOVERABLE_PAYOUTS', ['b1']],
+        ['STALE_PAYOUTS', ['b2']],
+        ['REPLENISH_FAILED', ['b4']],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Instant Payout Rules
+ * Pure eligibility and alert rules for SmoothingBuffer payouts
+ */
+
+import {
+  INSTANT_PAYOUT_MIN_SCORE,
+  STALE_PAYOUT_HOURS,
+  type BufferAlert,
+  type BufferHealth,
+  type InstantPayoutEligibility,
+  type OutstandingPayout,
+} from "./types";
+
+// Booking statuses in which escrow is still expected to release to the stylist
+const RELEASABLE_BOOKING_STATUSES = ["COMPLETED", "AWAITING_CUSTOMER_CONFIRMATION", "SETTLED"];
+
+/**
+ * Stylist's share of the locked escrow legs, as escrow release would pay it
+ *
+ * @param legs - Locked legs with the platform fee and property owner's share of each
+ */
+export function getStylistShareCents(
+  legs: { amountCents: bigint; platformFeeCents: bigint; propertyAmountCents: bigint }[]
+): bigint {
+  return legs.reduce((sum, leg) => sum + leg.amountCents - leg.platformFeeCents - leg.propertyAmountCents, 0n);
+}
+
+/**
+ * Decide whether a booking being completed can be paid out instantly
+ *
+ * The whole price must already be in escrow, so deposit bookings qualify only
+ * once the balance is locked.
+ */
+export function checkInstantPayoutEligibility(params: {
+  score: number;
+  amountCents: bigint;
+  balanceStatus: string | null;
+  instantPayoutStatus: string | null;
+  stylistWalletAddress: string | null;
+  /** Buffer balance in USDC units, when known */
+  bufferBalance?: bigint;
+  /** amountCents in USDC units */
+  amountUnits?: bigint;
+}): InstantPayoutEligibility {
+  const base = {
+    amountCents: params.amountCents,
+    score: params.score,
+    minScore: INSTANT_PAYOUT_MIN_SCORE,
+  };
+  const ineligible = (reason: InstantPayoutEligibility["reason"]): InstantPayoutEligibility => ({
+    ...base,
+    eligible: false,
+    reason,
+  });
+
+  if (params.instantPayoutStatus && params.instantPayoutStatus !== "FAILED") {
+    return ineligible("ALREADY_REQUESTED");
+  }
+  if (params.balanceStatus !== null && params.balanceStatus !== "PAID") {
+    return ineligible("BALANCE_UNPAID");
+  }
+  if (!params.stylistWalletAddress) {
+    return ineligible("NO_STYLIST_WALLET");
+  }
+  if (params.score < INSTANT_PAYOUT_MIN_SCORE) {
+    return ineligible("REPUTATION_TOO_LOW");
+  }
+  if (params.amountCents <= 0n) {
+    return ineligible("NOTHING_TO_PAY");
+  }
+  if (
+    params.bufferBalance !== undefined &&
+    params.amountUnits !== undefined &&
+    params.bufferBalance < params.amountUnits
+  ) {
+    return ineligible("INSUFFICIENT_BUFFER");
+  }
+
+  return { ...base, eligible: true, reason: null };
+}
+
+/**
+ * Alerts for the admin DeFi dashboard
+ *
+ * @param health - Current on-chain buffer health
+ * @param payouts - Instant payouts not yet reconciled
+ */
+export function getBufferAlerts(
+  health: BufferHealth,
+  payouts: OutstandingPayout[],
+  now: Date = new Date()
+): BufferAlert[] {
+  const alerts: BufferAlert[] = [];
+
+  if (!health.healthy) {
+    alerts.push({
+      type: "BELOW_THRESHOLD",
+      level: health.balance === 0n ? "CRITICAL" : "WARNING",
+      message: `Buffer balance ${health.balance} is below the ${health.threshold} threshold - replenish it or instant payouts will stop`,
+    });
+  }
+
+  if (health.pending > health.balance) {
+    alerts.push({
+      type: "PENDING_EXCEEDS_BALANCE",
+      level: "WARNING",
+      message: `${health.pending} awaits replenishment, more than the ${health.balance} left in the buffer`,
+    });
+  }
+
+  const staleBefore = now.getTime() - STALE_PAYOUT_HOURS * 60 * 60 * 1000;
+  const awaitingEscrow = payouts.filter((p) => p.instantPayoutStatus === "PAID");
+
+  const unrecoverable = awaitingEscrow.filter((p) => !RELEASABLE_BOOKING_STATUSES.includes(p.bookingStatus));
+  if (unrecoverable.length > 0) {
+    alerts.push({
+      type: "UNRECOVERABLE_PAYOUTS",
+      level: "CRITICAL",
+      message: `${unrecoverable.length} instant payout(s) belong to bookings that will not release escrow to the stylist`,
+      bookingIds: unrecoverable.map((p) => p.bookingId),
+    });
+  }
+
+  const stale = awaitingEscrow.filter(
+    (p) =>
+      RELEASABLE_BOOKING_STATUSES.includes(p.bookingStatus) &&
+      p.instantPayoutAt !== null &&
+      p.instantPayoutAt.getTime() < staleBefore
+  );
+  if (stale.length > 0) {
+    alerts.push({
+      type: "STALE_PAYOUTS",
+      level: "WARNING",
+      message: `${stale.length} instant payout(s) still waiting on escrow after ${STALE_PAYOUT_HOURS}h`,
+      bookingIds: stale.map((p) => p.bookingId),
+    });
+  }
+
+  const replenishFailed = payouts.filter((p) => p.instantPayoutStatus === "RELEASED" && p.instantPayoutError);
+  if (replenishFailed.length > 0) {
+    alerts.push({
+      type: "REPLENISH_FAILED",
+      level: "WARNING",
+      message: `${replenishFailed.length} released payout(s) could not be returned to the buffer yet`,
+      bookingIds: replenishFailed.map((p) => p.bookingId),
+    });
+  }
+
+  return alerts;
+}
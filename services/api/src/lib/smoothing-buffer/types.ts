@@ -0,0 +1,122 @@
+/**
+ * Smoothing Buffer Types
+ * Instant stylist payouts from contracts/defi/VlossomSmoothingBuffer.sol
+ *
+ * An eligible stylist is paid from the buffer when they mark a booking
+ * complete. When escrow later releases, the stylist's share goes to the
+ * relayer, which replenishes the buffer and reconciles the payout.
+ */
+
+import type { Address, Hash } from "viem";
+
+/**
+ * Minimum reputation totalScore (0-10000) to opt into instant payouts
+ */
+export const INSTANT_PAYOUT_MIN_SCORE = 7000;
+
+/**
+ * Payouts still unreconciled after this long are raised as alerts
+ */
+export const STALE_PAYOUT_HOURS = 72;
+
+/**
+ * Payouts the scheduler reconciles per run
+ */
+export const MAX_RECONCILES_PER_RUN = 20;
+
+/**
+ * Why a booking can't be paid out instantly
+ */
+export type InstantPayoutIneligibleReason =
+  | "ALREADY_REQUESTED"
+  | "BALANCE_UNPAID"
+  | "NO_STYLIST_WALLET"
+  | "REPUTATION_TOO_LOW"
+  | "NOTHING_TO_PAY"
+  | "INSUFFICIENT_BUFFER";
+
+export interface InstantPayoutEligibility {
+  eligible: boolean;
+  reason: InstantPayoutIneligibleReason | null;
+  /** Stylist's share of the locked escrow, after platform and property fees */
+  amountCents: bigint;
+  score: number;
+  minScore: number;
+}
+
+/**
+ * Return value of getBufferHealth plus running totals, in USDC units
+ */
+export interface BufferHealth {
+  address: Address;
+  balance: bigint;
+  threshold: bigint;
+  pending: bigint;
+  healthy: boolean;
+  totalPayouts: bigint;
+  totalReplenishments: bigint;
+}
+
+export type BufferAlertLevel = "WARNING" | "CRITICAL";
+
+export type BufferAlertType =
+  | "BELOW_THRESHOLD"
+  | "PENDING_EXCEEDS_BALANCE"
+  | "STALE_PAYOUTS"
+  | "UNRECOVERABLE_PAYOUTS"
+  | "REPLENISH_FAILED";
+
+export interface BufferAlert {
+  type: BufferAlertType;
+  level: BufferAlertLevel;
+  message: string;
+  bookingIds?: string[];
+}
+
+/**
+ * Instant payout as seen by the alert rules
+ */
+export interface OutstandingPayout {
+  bookingId: string;
+  bookingStatus: string;
+  instantPayoutStatus: string;
+  instantPayoutAt: Date | null;
+  instantPayoutError: string | null;
+}
+
+export interface BufferOverview {
+  health: BufferHealth;
+  alerts: BufferAlert[];
+  payouts: {
+    /** Paid out and not yet replenished, in cents */
+    outstandingCents: bigint;
+    byStatus: Record<string, number>;
+    /** Paid out beyond what refunded bookings released, in cents */
+    shortfallCents: bigint;
+  };
+}
+
+export interface InstantPayoutResult {
+  bookingId: string;
+  status: string;
+  amountCents: bigint;
+  txHash: Hash | null;
+}
+
+export interface ReconcileRunResult {
+  checked: number;
+  reconciled: number;
+  failed: number;
+  txHashes: Hash[];
+}
+
+/**
+ * Result of a smoothing buffer operation.
+ * `error` is an ERROR_CODES key so routes can map it directly.
+ */
+export interface SmoothingBufferResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  details?: Record<string, unknown>;
+}
@@ -0,0 +1,21 @@
+/**
+ * Special Events Module (V7.2)
+ * Unified exports for the special events quoting marketplace
+ * Reference: docs/vlossom/travel-and-special-events.md
+ */
+
+export * from "./types";
+export {
+  parseEventStart,
+  calculateBreakdownTotal,
+  resolveQuoteSessions,
+  createSpecialEventRequest,
+  listCustomerRequests,
+  listOpenRequestsForStylist,
+  getRequestForUser,
+  submitQuote,
+  declineQuote,
+  acceptQuote,
+  cancelSpecialEventRequest,
+  syncSpecialEventPayment,
+} from "./special-event-service";
@@ -0,0 +1,223 @@
+/**
+ * Special Event Service Tests
+ */
+
+const mockTx = {
+  specialEventRequest: { updateMany: jest.fn() },
+  specialEventQuote: { updateMany: jest.fn() },
+  booking: { create: jest.fn() },
+  bookingStatusHistory: { create: jest.fn() },
+};
+
+const mockPrisma = {
+  specialEventQuote: { findUnique: jest.fn() },
+  stylistProfile: { findUnique: jest.fn() },
+  user: { findUnique: jest.fn() },
+  $transaction: jest.fn((fn: (tx: typeof mockTx) => Promise<unknown>) => fn(mockTx)),
+};
+
+jest.mock('../prisma', () => ({
+  __esModule: true,
+  prisma: mockPrisma,
+  default: mockPrisma,
+}));
+
+jest.mock('../scheduling', () => ({
+  checkAvailability: jest.fn(),
+  calculateHaversineDistance: jest.fn(),
+}));
+
+jest.mock('../notifications', () => ({
+  notifySpecialEventEvent: jest.fn(() => Promise.resolve()),
+}));
+
+jest.mock('../rewards', () => ({
+  getFeeDiscountPercentage: jest.fn(() => Promise.resolve(0)),
+}));
+
+import { checkAvailability } from '../scheduling';
+import {
+  acceptQuote,
+  calculateBreakdownTotal,
+  parseEventStart,
+  resolveQuoteSessions,
+} from './special-event-service';
+import type { QuoteBreakdown } from './types';
+
+const mockCheckAvailability = checkAvailability as jest.MockedFunction<typeof checkAvailability>;
+
+const breakdown: QuoteBreakdown = {
+  services: [
+    { name: 'Bridal styling', amountCents: 40_000 },
+    { name: 'Bridesmaid styling', amountCents: 15_000, quantity: 3 },
+  ],
+  travel: 2_500,
+  surcharge: 5_000,
+};
+
+function makeQuote(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'quote-1',
+    requestId: 'request-1',
+    stylistId: 'stylist-1',
+    breakdown,
+    totalAmountCents: 92_500,
+    isDeclined: false,
+    isAccepted: false,
+    validUntil: new Date(Date.now() + 24 * 60 * 60 * 1000),
+    request: {
+      id: 'request-1',
+      customerId: 'customer-1',
+      title: 'Wedding',
+      category: 'BRIDAL',
+      status: 'QUOTES_RECEIVED',
+      eventDate: new Date('2026-12-05T07:00:00.000Z'),
+      startTime: '09:00',
+      durationHours: 4,
+      locationType: 'CUSTOMER_HOME',
+      address: '1 Long Street',
+      locationLat: -33.92,
+      locationLng: 18.42,
+    },
+    ...overrides,
+  };
+}
+
+describe('Special Event Service', () => {
+  describe('parseEventStart', () => {
+    it('should keep the exact instant and the customer\'s local start time', () => {
+      const { eventDate, startTime } = parseEventStart('2026-12-05T09:00:00+02:00');
+
+      expect(eventDate.toISOString()).toBe('2026-12-05T07:00:00.000Z');
+      expect(startTime).toBe('09:00');
+    });
+
+    it('should not shift a UTC start', () => {
+      const { eventDate, startTime } = parseEventStart('2026-12-05T18:30:00Z');
+
+      expect(eventDate.toISOString()).toBe('2026-12-05T18:30:00.000Z');
+      expect(startTime).toBe('18:30');
+    });
+  });
+
+  describe('calculateBreakdownTotal', () => {
+    it('should add every service line by quantity plus travel and surcharge', () => {
+      expect(calculateBreakdownTotal(breakdown)).toBe(40_000 + 45_000 + 2_500 + 5_000);
+    });
+
+    it('should total travel and surcharge alone for free services', () => {
+      const trial: QuoteBreakdown = { services: [{ name: 'Trial', amountCents: 0 }], travel: 1_000, surcharge: 0 };
+
+      expect(calculateBreakdownTotal(trial)).toBe(1_000);
+    });
+  });
+
+  describe('resolveQuoteSessions', () => {
+    it('should book a quote without sessions as one session at the event start', () => {
+      const sessions = resolveQuoteSessions(
+        { eventDate: new Date('2026-12-05T07:00:00.000Z'), durationHours: 4 },
+        breakdown,
+        92_500
+      );
+
+      expect(sessions).toEqual([
+        { startTime: '2026-12-05T07:00:00.000Z', durationMinutes: 240, amountCents: 92_500 },
+      ]);
+    });
+  });
+
+  describe('acceptQuote', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+      mockPrisma.specialEventQuote.findUnique.mockResolvedValue(makeQuote());
+      mockPrisma.stylistProfile.findUnique.mockResolvedValue(null);
+      mockPrisma.user.findUnique.mockResolvedValue({ displayName: 'Thandi' });
+      mockCheckAvailability.mockResolvedValue({ available: true, conflicts: [], suggestedAlternatives: [] });
+      mockTx.specialEventRequest.updateMany.mockResolvedValue({ count: 1 });
+      mockTx.specialEventQuote.updateMany.mockResolvedValue({ count: 1 });
+      mockTx.booking.create.mockResolvedValue({ id: 'booking-1' });
+    });
+
+    it('should claim the request and create a booking awaiting payment', async () => {
+      const result = await acceptQuote('request-1', 'quote-1', 'customer-1');
+
+      expect(result).toEqual({ success: true, data: { requestId: 'request-1', bookingIds: ['booking-1'] } });
+      expect(mockTx.specialEventRequest.updateMany).toHaveBeenCalledWith({
+        where: { id: 'request-1', status: { in: ['PENDING_QUOTES', 'QUOTES_RECEIVED'] }, acceptedQuoteId: null },
+        data: { status: 'QUOTE_ACCEPTED', acceptedQuoteId: 'quote-1' },
+      });
+      expect(mockTx.booking.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          stylistId: 'stylist-1',
+          scheduledStartTime: new Date('2026-12-05T07:00:00.000Z'),
+          scheduledEndTime: new Date('2026-12-05T11:00:00.000Z'),
+          quoteAmountCents: 92_500n,
+          status: 'PENDING_CUSTOMER_PAYMENT',
+        }),
+      });
+    });
+
+    it('should check the stylist for the quoted session without a service', async () => {
+      await acceptQuote('request-1', 'quote-1', 'customer-1');
+
+      expect(mockCheckAvailability).toHaveBeenCalledWith({
+        stylistId: 'stylist-1',
+        startTime: new Date('2026-12-05T07:00:00.000Z'),
+        durationMinutes: 240,
+        locationType: 'CUSTOMER_HOME',
+        customerCoords: { lat: -33.92, lng: 18.42 },
+      });
+    });
+
+    it('should create nothing when another quote was accepted first', async () => {
+      mockTx.specialEventRequest.updateMany.mockResolvedValue({ count: 0 });
+
+      const result = await acceptQuote('request-1', 'quote-1', 'customer-1');
+
+      expect(result).toEqual({ success: false, error: 'SPECIAL_EVENT_NOT_QUOTABLE', details: undefined });
+      expect(mockTx.specialEventQuote.updateMany).not.toHaveBeenCalled();
+      expect(mockTx.booking.create).not.toHaveBeenCalled();
+    });
+
+    it('should fail the claim when the quote was declined in the meantime', async () => {
+      mockTx.specialEventQuote.updateMany.mockResolvedValueOnce({ count: 0 });
+
+      const result = await acceptQuote('request-1', 'quote-1', 'customer-1');
+
+      expect(result).toMatchObject({ success: false, error: 'INVALID_STATUS' });
+      expect(mockTx.booking.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a slot the stylist has since been booked into', async () => {
+      mockCheckAvailability.mockResolvedValue({
+        available: false,
+        conflicts: [{ type: 'BOOKING', message: 'Conflicts with existing booking', conflictingBookingId: 'booking-9' }],
+        suggestedAlternatives: [],
+      });
+
+      const result = await acceptQuote('request-1', 'quote-1', 'customer-1');
+
+      expect(result).toMatchObject({ success: false, error: 'SCHEDULING_CONFLICT' });
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should ignore schedule conflicts - events often run outside regular hours', async () => {
+      mockCheckAvailability.mockResolvedValue({
+        available: false,
+        conflicts: [{ type: 'SCHEDULE', message: 'Stylist is not available on sat' }],
+        suggestedAlternatives: [],
+      });
+
+      const result = await acceptQuote('request-1', 'quote-1', 'customer-1');
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should not let another customer accept', async () => {
+      const result = await acceptQuote('request-1', 'quote-1', 'customer-2');
+
+      expect(result).toEqual({ success: false, error: 'FORBIDDEN' });
+      expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,754 @@
+/**
+ * Special Event Service (V7.2)
+ * Quoting marketplace for bridal, photoshoot and other special events
+ * Reference: docs/vlossom/travel-and-special-events.md
+ *
+ * Flow:
+ * 1. Customer creates a request -> matching stylists are invited and notified
+ * 2. Invited stylists submit quotes (breakdown + validUntil)
+ * 3. Customer compares quotes and accepts one
+ * 4. The accepted quote becomes one booking per session in PENDING_CUSTOMER_PAYMENT
+ * 5. Once every booking is paid into escrow the event is CONFIRMED
+ */
+
+import { BookingStatus, Prisma } from "@prisma/client";
+import prisma from "../prisma";
+import logger from "../logger";
+import { calculateBookingPricing } from "../pricing";
+import { resolveCancellationPolicy, toCancellationPolicySnapshot } from "../cancellation-policy";
+import { checkAvailability, calculateHaversineDistance } from "../scheduling";
+import { notifySpecialEventEvent } from "../notifications";
+import { getFeeDiscountPercentage } from "../rewards";
+import {
+  MAX_INVITED_STYLISTS,
+  QUOTABLE_STATUSES,
+  CANCELLABLE_STATUSES,
+  type CreateSpecialEventInput,
+  type SubmitQuoteInput,
+  type QuoteBreakdown,
+  type QuoteSession,
+  type SpecialEventResult,
+} from "./types";
+
+type SpecialEventRequestRecord = Prisma.SpecialEventRequestGetPayload<object>;
+
+// Booking statuses that count as "paid" for event confirmation
+const PAID_BOOKING_STATUSES: BookingStatus[] = [
+  BookingStatus.CONFIRMED,
+  BookingStatus.IN_PROGRESS,
+  BookingStatus.COMPLETED,
+  BookingStatus.AWAITING_CUSTOMER_CONFIRMATION,
+  BookingStatus.SETTLED,
+];
+
+/**
+ * Raised inside the accept transaction to roll back a lost race
+ */
+class QuoteClaimError extends Error {
+  constructor(
+    readonly code: "SPECIAL_EVENT_NOT_QUOTABLE" | "INVALID_STATUS",
+    readonly details?: Record<string, unknown>
+  ) {
+    super(code);
+  }
+}
+
+/**
+ * Split the customer's ISO start datetime (with offset) into the stored
+ * eventDate - the exact start - and the local "HH:mm" shown to stylists
+ */
+export function parseEventStart(startsAt: string): { eventDate: Date; startTime: string } {
+  return { eventDate: new Date(startsAt), startTime: startsAt.slice(11, 16) };
+}
+
+/**
+ * Total of all priced lines on a breakdown
+ */
+export function calculateBreakdownTotal(breakdown: QuoteBreakdown): number {
+  const servicesTotal = breakdown.services.reduce(
+    (sum, line) => sum + line.amountCents * (line.quantity ?? 1),
+    0
+  );
+  return servicesTotal + breakdown.travel + breakdown.surcharge;
+}
+
+/**
+ * Resolve the sessions a quote will be booked as.
+ * Quotes without explicit sessions become a single session covering the event.
+ */
+export function resolveQuoteSessions(
+  request: Pick<SpecialEventRequestRecord, "eventDate" | "durationHours">,
+  breakdown: QuoteBreakdown,
+  totalAmountCents: number
+): QuoteSession[] {
+  if (breakdown.sessions && breakdown.sessions.length > 0) {
+    return breakdown.sessions;
+  }
+
+  return [
+    {
+      startTime: request.eventDate.toISOString(),
+      durationMinutes: request.durationHours * 60,
+      amountCents: totalAmountCents,
+    },
+  ];
+}
+
+/**
+ * Find stylists who can serve a request: accepting bookings, offering a
+ * matching service category, and willing to travel to the event location.
+ */
+async function findMatchingStylists(input: CreateSpecialEventInput): Promise<string[]> {
+  let categories: string[] = [];
+  if (input.serviceIds && input.serviceIds.length > 0) {
+    const services = await prisma.stylistService.findMany({
+      where: { id: { in: input.serviceIds } },
+      select: { category: true },
+    });
+    categories = [...new Set(services.map((s) => s.category))];
+  }
+
+  const profiles = await prisma.stylistProfile.findMany({
+    where: {
+      isAcceptingBookings: true,
+      userId: { not: input.customerId },
+      services: {
+        some: {
+          isActive: true,
+          ...(categories.length > 0 && { category: { in: categories } }),
+        },
+      },
+    },
+    select: {
+      userId: true,
+      baseLocationLat: true,
+      baseLocationLng: true,
+      serviceRadius: true,
+      travelsOutsideServiceRadius: true,
+      maxTravelRadiusKm: true,
+    },
+  });
+
+  const hasEventLocation = input.locationLat !== undefined && input.locationLng !== undefined;
+
+  const candidates = profiles
+    .map((profile) => {
+      if (!hasEventLocation || profile.baseLocationLat === null || profile.baseLocationLng === null) {
+        return { userId: profile.userId, distanceKm: Number.POSITIVE_INFINITY };
+      }
+
+      const distanceKm = calculateHaversineDistance(
+        { lat: profile.baseLocationLat, lng: profile.baseLocationLng },
+        { lat: input.locationLat!, lng: input.locationLng! }
+      );
+
+      const maxRadiusKm =
+        profile.maxTravelRadiusKm ??
+        (profile.travelsOutsideServiceRadius ? null : profile.serviceRadius);
+
+      if (maxRadiusKm !== null && distanceKm > maxRadiusKm) {
+        return null;
+      }
+
+      return { userId: profile.userId, distanceKm };
+    })
+    .filter((c): c is { userId: string; distanceKm: number } => c !== null)
+    .sort((a, b) => a.distanceKm - b.distanceKm);
+
+  return candidates.slice(0, MAX_INVITED_STYLISTS).map((c) => c.userId);
+}
+
+/**
+ * Create a special event request and notify matching stylists
+ */
+export async function createSpecialEventRequest(
+  input: CreateSpecialEventInput
+): Promise<SpecialEventResult<SpecialEventRequestRecord>> {
+  const invitedStylistIds = await findMatchingStylists(input);
+
+  const request = await prisma.specialEventRequest.create({
+    data: {
+      customerId: input.customerId,
+      category: input.category,
+      title: input.title,
+      description: input.description,
+      eventDate: input.eventDate,
+      startTime: input.startTime,
+      durationHours: input.durationHours,
+      guestCount: input.guestCount,
+      locationType: input.locationType,
+      address: input.address,
+      locationLat: input.locationLat,
+      locationLng: input.locationLng,
+      propertyId: input.propertyId,
+      serviceIds: input.serviceIds || [],
+      serviceNotes: input.serviceNotes,
+      invitedStylistIds,
+    },
+  });
+
+  logger.info("[SpecialEvent] Request created", {
+    requestId: request.id,
+    customerId: input.customerId,
+    category: input.category,
+    invitedCount: invitedStylistIds.length,
+  });
+
+  for (const stylistId of invitedStylistIds) {
+    notifySpecialEventEvent(stylistId, "SPECIAL_EVENT_REQUEST_RECEIVED", {
+      eventId: request.id,
+      eventTitle: request.title,
+      eventDate: request.eventDate.toISOString(),
+      eventCategory: request.category,
+      deepLink: `/special-events/${request.id}`,
+    }).catch((err) => logger.error("Failed to send special event request notification", { error: err }));
+  }
+
+  return { success: true, data: request };
+}
+
+/**
+ * List a customer's special event requests with quote counts
+ */
+export async function listCustomerRequests(customerId: string) {
+  return prisma.specialEventRequest.findMany({
+    where: { customerId },
+    include: {
+      _count: { select: { quotes: true } },
+    },
+    orderBy: { eventDate: "asc" },
+  });
+}
+
+/**
+ * List open requests a stylist has been invited to quote on
+ */
+export async function listOpenRequestsForStylist(stylistId: string) {
+  return prisma.specialEventRequest.findMany({
+    where: {
+      status: { in: QUOTABLE_STATUSES },
+      eventDate: { gte: new Date() },
+      invitedStylistIds: { array_contains: [stylistId] },
+    },
+    include: {
+      quotes: {
+        where: { stylistId },
+      },
+    },
+    orderBy: { eventDate: "asc" },
+  });
+}
+
+/**
+ * Get a request as seen by a participant.
+ * Customers see all quotes; invited stylists only see their own.
+ */
+export async function getRequestForUser(requestId: string, userId: string) {
+  const request = await prisma.specialEventRequest.findUnique({
+    where: { id: requestId },
+    include: {
+      quotes: { orderBy: { totalAmountCents: "asc" } },
+      bookings: {
+        select: {
+          id: true,
+          stylistId: true,
+          status: true,
+          scheduledStartTime: true,
+          scheduledEndTime: true,
+          quoteAmountCents: true,
+        },
+        orderBy: { scheduledStartTime: "asc" },
+      },
+    },
+  });
+
+  if (!request) {
+    return null;
+  }
+
+  if (request.customerId === userId) {
+    return request;
+  }
+
+  const invited = (request.invitedStylistIds as string[]).includes(userId);
+  if (!invited) {
+    return null;
+  }
+
+  return {
+    ...request,
+    quotes: request.quotes.filter((q) => q.stylistId === userId),
+    bookings: request.bookings.filter((b) => b.stylistId === userId),
+  };
+}
+
+/**
+ * Submit (or revise) a stylist's quote for a request
+ */
+export async function submitQuote(
+  input: SubmitQuoteInput
+): Promise<SpecialEventResult<Prisma.SpecialEventQuoteGetPayload<object>>> {
+  const request = await prisma.specialEventRequest.findUnique({
+    where: { id: input.requestId },
+  });
+
+  if (!request) {
+    return { success: false, error: "SPECIAL_EVENT_NOT_FOUND" };
+  }
+
+  if (!(request.invitedStylistIds as string[]).includes(input.stylistId)) {
+    return { success: false, error: "FORBIDDEN", details: { message: "You were not invited to quote on this event" } };
+  }
+
+  if (!QUOTABLE_STATUSES.includes(request.status)) {
+    return { success: false, error: "SPECIAL_EVENT_NOT_QUOTABLE", details: { status: request.status } };
+  }
+
+  if (input.validUntil <= new Date()) {
+    return { success: false, error: "VALIDATION_ERROR", details: { message: "validUntil must be in the future" } };
+  }
+
+  const totalAmountCents = calculateBreakdownTotal(input.breakdown);
+  if (totalAmountCents <= 0) {
+    return { success: false, error: "VALIDATION_ERROR", details: { message: "Quote total must be greater than zero" } };
+  }
+
+  if (input.breakdown.sessions && input.breakdown.sessions.length > 0) {
+    const sessionsTotal = input.breakdown.sessions.reduce((sum, s) => sum + s.amountCents, 0);
+    if (sessionsTotal !== totalAmountCents) {
+      return {
+        success: false,
+        error: "VALIDATION_ERROR",
+        details: { message: `Session amounts (${sessionsTotal}) must add up to the quote total (${totalAmountCents})` },
+      };
+    }
+  }
+
+  const existing = await prisma.specialEventQuote.findUnique({
+    where: { requestId_stylistId: { requestId: input.requestId, stylistId: input.stylistId } },
+  });
+
+  if (existing?.isAccepted) {
+    return { success: false, error: "SPECIAL_EVENT_NOT_QUOTABLE", details: { message: "Quote has already been accepted" } };
+  }
+
+  const quoteData = {
+    totalAmountCents,
+    breakdown: input.breakdown as unknown as Prisma.InputJsonValue,
+    notes: input.notes,
+    validUntil: input.validUntil,
+    isDeclined: false,
+    declinedAt: null,
+  };
+
+  const quote = await prisma.$transaction(async (tx) => {
+    const saved = await tx.specialEventQuote.upsert({
+      where: { requestId_stylistId: { requestId: input.requestId, stylistId: input.stylistId } },
+      create: {
+        requestId: input.requestId,
+        stylistId: input.stylistId,
+        ...quoteData,
+      },
+      update: quoteData,
+    });
+
+    if (request.status === "PENDING_QUOTES") {
+      await tx.specialEventRequest.update({
+        where: { id: input.requestId },
+        data: { status: "QUOTES_RECEIVED" },
+      });
+    }
+
+    return saved;
+  });
+
+  logger.info("[SpecialEvent] Quote submitted", {
+    requestId: input.requestId,
+    quoteId: quote.id,
+    stylistId: input.stylistId,
+    totalAmountCents,
+    revised: !!existing,
+  });
+
+  const stylist = await prisma.user.findUnique({
+    where: { id: input.stylistId },
+    select: { displayName: true },
+  });
+
+  notifySpecialEventEvent(request.customerId, "SPECIAL_EVENT_QUOTE_RECEIVED", {
+    eventId: request.id,
+    eventTitle: request.title,
+    quoteAmount: totalAmountCents,
+    quoteStylistName: stylist?.displayName,
+    quoteValidUntil: input.validUntil.toISOString(),
+    deepLink: `/special-events/${request.id}`,
+  }).catch((err) => logger.error("Failed to send quote received notification", { error: err }));
+
+  return { success: true, data: quote };
+}
+
+/**
+ * Customer declines a quote
+ */
+export async function declineQuote(
+  requestId: string,
+  quoteId: string,
+  customerId: string
+): Promise<SpecialEventResult<Prisma.SpecialEventQuoteGetPayload<object>>> {
+  const quote = await prisma.specialEventQuote.findUnique({
+    where: { id: quoteId },
+    include: { request: true },
+  });
+
+  if (!quote || quote.requestId !== requestId) {
+    return { success: false, error: "QUOTE_NOT_FOUND" };
+  }
+
+  if (quote.request.customerId !== customerId) {
+    return { success: false, error: "FORBIDDEN" };
+  }
+
+  if (quote.isAccepted) {
+    return { success: false, error: "INVALID_STATUS", details: { message: "Accepted quotes cannot be declined" } };
+  }
+
+  const updated = await prisma.specialEventQuote.update({
+    where: { id: quoteId },
+    data: { isDeclined: true, declinedAt: new Date() },
+  });
+
+  logger.info("[SpecialEvent] Quote declined", { requestId, quoteId });
+
+  return { success: true, data: updated };
+}
+
+/**
+ * Accept a quote and turn it into bookings awaiting customer payment.
+ * The stylist's quote stands in for booking approval, so bookings start
+ * in PENDING_CUSTOMER_PAYMENT and are funded via the standard escrow flow.
+ */
+export async function acceptQuote(
+  requestId: string,
+  quoteId: string,
+  customerId: string
+): Promise<SpecialEventResult<{ requestId: string; bookingIds: string[] }>> {
+  const quote = await prisma.specialEventQuote.findUnique({
+    where: { id: quoteId },
+    include: { request: true },
+  });
+
+  if (!quote || quote.requestId !== requestId) {
+    return { success: false, error: "QUOTE_NOT_FOUND" };
+  }
+
+  const request = quote.request;
+
+  if (request.customerId !== customerId) {
+    return { success: false, error: "FORBIDDEN" };
+  }
+
+  if (!QUOTABLE_STATUSES.includes(request.status)) {
+    return { success: false, error: "SPECIAL_EVENT_NOT_QUOTABLE", details: { status: request.status } };
+  }
+
+  if (quote.isDeclined) {
+    return { success: false, error: "INVALID_STATUS", details: { message: "Quote was declined" } };
+  }
+
+  if (quote.validUntil <= new Date()) {
+    return { success: false, error: "QUOTE_EXPIRED" };
+  }
+
+  const breakdown = quote.breakdown as unknown as QuoteBreakdown;
+  const sessions = resolveQuoteSessions(request, breakdown, quote.totalAmountCents);
+
+  // Make sure the stylist hasn't been booked into these slots since quoting.
+  // Only booking clashes block acceptance - events often run outside regular hours.
+  for (const session of sessions) {
+    const availability = await checkAvailability({
+      stylistId: quote.stylistId,
+      startTime: new Date(session.startTime),
+      durationMinutes: session.durationMinutes,
+      locationType: request.locationType,
+      customerCoords:
+        request.locationLat !== null && request.locationLng !== null
+          ? { lat: request.locationLat, lng: request.locationLng }
+          : undefined,
+    });
+
+    const bookingConflicts = availability.conflicts.filter((c) => c.type === "BOOKING");
+    if (bookingConflicts.length > 0) {
+      return {
+        success: false,
+        error: "SCHEDULING_CONFLICT",
+        details: { session: session.startTime, conflicts: bookingConflicts },
+      };
+    }
+  }
+
+  // Snapshot the stylist's cancellation policy onto each booking
+  const stylistProfile = await prisma.stylistProfile.findUnique({
+    where: { userId: quote.stylistId },
+    select: { cancellationPolicy: true, cancellationTiers: true },
+  });
+  const cancellationPolicy = toCancellationPolicySnapshot(
+    resolveCancellationPolicy(null, stylistProfile)
+  );
+
+  const feeDiscountPercentage = await getFeeDiscountPercentage(customerId);
+
+  const now = new Date();
+
+  let bookingIds: string[];
+  try {
+    bookingIds = await prisma.$transaction(async (tx) => {
+      // First to accept wins - the checks above may be stale by now
+      const claimed = await tx.specialEventRequest.updateMany({
+        where: { id: requestId, status: { in: QUOTABLE_STATUSES }, acceptedQuoteId: null },
+        data: {
+          status: "QUOTE_ACCEPTED",
+          acceptedQuoteId: quoteId,
+        },
+      });
+      if (claimed.count === 0) {
+        throw new QuoteClaimError("SPECIAL_EVENT_NOT_QUOTABLE");
+      }
+
+      const accepted = await tx.specialEventQuote.updateMany({
+        where: { id: quoteId, isDeclined: false, isAccepted: false, validUntil: { gt: now } },
+        data: { isAccepted: true },
+      });
+      if (accepted.count === 0) {
+        throw new QuoteClaimError("INVALID_STATUS", { message: "Quote was declined or has expired" });
+      }
+
+      // Close out competing quotes
+      await tx.specialEventQuote.updateMany({
+        where: { requestId, id: { not: quoteId }, isDeclined: false },
+        data: { isDeclined: true, declinedAt: now },
+      });
+
+      const ids: string[] = [];
+      for (const session of sessions) {
+        const startTime = new Date(session.startTime);
+        const pricing = calculateBookingPricing(BigInt(session.amountCents), undefined, feeDiscountPercentage);
+
+        const booking = await tx.booking.create({
+          data: {
+            customerId,
+            stylistId: quote.stylistId,
+            serviceType: session.label ? `${request.title} - ${session.label}` : request.title,
+            serviceCategory: request.category,
+            estimatedDurationMin: session.durationMinutes,
+            scheduledStartTime: startTime,
+            scheduledEndTime: new Date(startTime.getTime() + session.durationMinutes * 60 * 1000),
+            locationType: request.locationType,
+            locationAddress: request.address || "",
+            locationLat: request.locationLat,
+            locationLng: request.locationLng,
+            quoteAmountCents: pricing.quoteAmountCents,
+            platformFeeCents: pricing.platformFeeCents,
+            stylistPayoutCents: pricing.stylistPayoutCents,
+            propertyPayoutCents: pricing.propertyPayoutCents,
+            feeDiscountPercentage,
+            feeDiscountCents: pricing.feeDiscountCents,
+            status: BookingStatus.PENDING_CUSTOMER_PAYMENT,
+            specialEventRequestId: requestId,
+            cancellationPolicy,
+          },
+        });
+
+        await tx.bookingStatusHistory.create({
+          data: {
+            bookingId: booking.id,
+            fromStatus: null,
+            toStatus: BookingStatus.PENDING_CUSTOMER_PAYMENT,
+            changedBy: customerId,
+            reason: `Special event quote ${quoteId} accepted`,
+          },
+        });
+
+        ids.push(booking.id);
+      }
+
+      return ids;
+    });
+  } catch (error) {
+    if (error instanceof QuoteClaimError) {
+      return { success: false, error: error.code, details: error.details };
+    }
+    throw error;
+  }
+
+  logger.info("[SpecialEvent] Quote accepted", {
+    requestId,
+    quoteId,
+    stylistId: quote.stylistId,
+    bookingIds,
+  });
+
+  const customer = await prisma.user.findUnique({
+    where: { id: customerId },
+    select: { displayName: true },
+  });
+
+  notifySpecialEventEvent(quote.stylistId, "SPECIAL_EVENT_QUOTE_ACCEPTED", {
+    eventId: requestId,
+    eventTitle: request.title,
+    customerName: customer?.displayName,
+    quoteAmount: quote.totalAmountCents,
+    deepLink: `/special-events/${requestId}`,
+  }).catch((err) => logger.error("Failed to send quote accepted notification", { error: err }));
+
+  return { success: true, data: { requestId, bookingIds } };
+}
+
+/**
+ * Cancel a request before its bookings are funded.
+ * Unpaid bookings created from an accepted quote are cancelled with it.
+ */
+export async function cancelSpecialEventRequest(
+  requestId: string,
+  customerId: string,
+  reason: string
+): Promise<SpecialEventResult<SpecialEventRequestRecord>> {
+  const request = await prisma.specialEventRequest.findUnique({
+    where: { id: requestId },
+    include: {
+      quotes: { select: { stylistId: true } },
+      bookings: { select: { id: true, status: true } },
+    },
+  });
+
+  if (!request) {
+    return { success: false, error: "SPECIAL_EVENT_NOT_FOUND" };
+  }
+
+  if (request.customerId !== customerId) {
+    return { success: false, error: "FORBIDDEN" };
+  }
+
+  if (!CANCELLABLE_STATUSES.includes(request.status)) {
+    return {
+      success: false,
+      error: "CANNOT_CANCEL",
+      details: { message: `Special event cannot be cancelled in ${request.status} status` },
+    };
+  }
+
+  if (request.bookings.some((b) => PAID_BOOKING_STATUSES.includes(b.status))) {
+    return {
+      success: false,
+      error: "CANNOT_CANCEL",
+      details: { message: "Some bookings are already paid - cancel them individually" },
+    };
+  }
+
+  const cancelledAt = new Date();
+
+  const updated = await prisma.$transaction(async (tx) => {
+    for (const booking of request.bookings) {
+      if (booking.status !== BookingStatus.PENDING_CUSTOMER_PAYMENT) continue;
+
+      await tx.booking.update({
+        where: { id: booking.id },
+        data: {
+          status: BookingStatus.CANCELLED,
+          cancelledAt,
+          cancelledBy: customerId,
+          cancellationReason: reason,
+        },
+      });
+
+      await tx.bookingStatusHistory.create({
+        data: {
+          bookingId: booking.id,
+          fromStatus: booking.status,
+          toStatus: BookingStatus.CANCELLED,
+          changedBy: customerId,
+          reason: `Special event cancelled - ${reason}`,
+        },
+      });
+    }
+
+    return tx.specialEventRequest.update({
+      where: { id: requestId },
+      data: {
+        status: "CANCELLED",
+        cancelledAt,
+        cancellationReason: reason,
+      },
+    });
+  });
+
+  logger.info("[SpecialEvent] Request cancelled", { requestId, customerId });
+
+  const stylistIds = [...new Set(request.quotes.map((q) => q.stylistId))];
+  for (const stylistId of stylistIds) {
+    notifySpecialEventEvent(stylistId, "SPECIAL_EVENT_CANCELLED", {
+      eventId: requestId,
+      eventTitle: request.title,
+      cancellationReason: reason,
+    }).catch((err) => logger.error("Failed to send special event cancelled notification", { error: err }));
+  }
+
+  return { success: true, data: updated };
+}
+
+/**
+ * Called after a booking payment is confirmed. Once every booking created
+ * from the accepted quote is funded, the special event becomes CONFIRMED.
+ */
+export async function syncSpecialEventPayment(bookingId: string): Promise<void> {
+  const booking = await prisma.booking.findUnique({
+    where: { id: bookingId },
+    select: { specialEventRequestId: true },
+  });
+
+  if (!booking?.specialEventRequestId) {
+    return;
+  }
+
+  const request = await prisma.specialEventRequest.findUnique({
+    where: { id: booking.specialEventRequestId },
+    include: {
+      acceptedQuote: true,
+      bookings: { select: { status: true } },
+    },
+  });
+
+  if (!request || request.status !== "QUOTE_ACCEPTED" || !request.acceptedQuote) {
+    return;
+  }
+
+  const allPaid = request.bookings.every((b) => PAID_BOOKING_STATUSES.includes(b.status));
+  if (!allPaid) {
+    return;
+  }
+
+  await prisma.specialEventRequest.update({
+    where: { id: request.id },
+    data: { status: "CONFIRMED" },
+  });
+
+  logger.info("[SpecialEvent] Confirmed", { requestId: request.id });
+
+  const stylist = await prisma.user.findUnique({
+    where: { id: request.acceptedQuote.stylistId },
+    select: { displayName: true },
+  });
+
+  const metadata = {
+    eventId: request.id,
+    eventTitle: request.title,
+    eventDate: request.eventDate.toISOString(),
+    quoteStylistName: stylist?.displayName,
+    deepLink: `/special-events/${request.id}`,
+  };
+
+  for (const userId of [request.customerId, request.acceptedQuote.stylistId]) {
+    notifySpecialEventEvent(userId, "SPECIAL_EVENT_CONFIRMED", metadata).catch((err) =>
+      logger.error("Failed to send special event confirmed notification", { error: err })
+    );
+  }
+}
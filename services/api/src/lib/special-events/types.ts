@@ -0,0 +1,99 @@
+/**
+ * Special Events Types (V7.2)
+ * Reference: docs/vlossom/travel-and-special-events.md
+ */
+
+import type { $Enums } from "@prisma/client";
+
+export type SpecialEventCategory = $Enums.SpecialEventCategory;
+export type SpecialEventStatus = $Enums.SpecialEventStatus;
+
+/**
+ * Maximum number of stylists invited to quote on a single request
+ */
+export const MAX_INVITED_STYLISTS = 25;
+
+/**
+ * Statuses in which stylists may still submit or revise quotes
+ */
+export const QUOTABLE_STATUSES: SpecialEventStatus[] = ["PENDING_QUOTES", "QUOTES_RECEIVED"];
+
+/**
+ * Statuses in which the customer may still cancel the request outright.
+ * Once bookings are paid (CONFIRMED), cancellation goes through the booking
+ * cancel flow so the refund policy applies.
+ */
+export const CANCELLABLE_STATUSES: SpecialEventStatus[] = [
+  "PENDING_QUOTES",
+  "QUOTES_RECEIVED",
+  "QUOTE_ACCEPTED",
+];
+
+/**
+ * A single service line on a quote
+ */
+export interface QuoteServiceLine {
+  serviceId?: string;
+  name: string;
+  amountCents: number;
+  quantity?: number;
+}
+
+/**
+ * A separately scheduled session within a quote (e.g. bridal party
+ * styling on the morning of the wedding plus a trial the week before).
+ * Each session becomes its own booking when the quote is accepted.
+ */
+export interface QuoteSession {
+  label?: string;
+  startTime: string; // ISO datetime
+  durationMinutes: number;
+  amountCents: number;
+}
+
+/**
+ * Quote breakdown stored in SpecialEventQuote.breakdown
+ */
+export interface QuoteBreakdown {
+  services: QuoteServiceLine[];
+  travel: number;
+  surcharge: number;
+  sessions?: QuoteSession[];
+}
+
+export interface CreateSpecialEventInput {
+  customerId: string;
+  category: SpecialEventCategory;
+  title: string;
+  description?: string;
+  eventDate: Date; // Exact start
+  startTime: string; // "09:00" in the customer's time zone
+  durationHours: number;
+  guestCount?: number;
+  locationType: "STYLIST_BASE" | "CUSTOMER_HOME";
+  address?: string;
+  locationLat?: number;
+  locationLng?: number;
+  propertyId?: string;
+  serviceIds?: string[];
+  serviceNotes?: string;
+}
+
+export interface SubmitQuoteInput {
+  requestId: string;
+  stylistId: string;
+  breakdown: QuoteBreakdown;
+  notes?: string;
+  validUntil: Date;
+}
+
+/**
+ * Result of a special event operation.
+ * `error` is an ERROR_CODES key so routes can map it directly.
+ */
+export interface SpecialEventResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  details?: Record<string, unknown>;
+}
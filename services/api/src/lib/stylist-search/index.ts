@@ -0,0 +1,14 @@
+/**
+ * Stylist Search Module
+ * Unified exports for availability-aware, indexed stylist search
+ */
+
+export * from "./types";
+export {
+  resolveAvailabilityWindow,
+  escapeLikePattern,
+  encodeSearchCursor,
+  decodeSearchCursor,
+} from "./search-params";
+export { buildSearchQuery, buildCountQuery } from "./search-query";
+export { searchStylists } from "./stylist-search-service";
@@ -0,0 +1,92 @@
+import {
+  decodeSearchCursor,
+  encodeSearchCursor,
+  escapeLikePattern,
+  resolveAvailabilityWindow,
+} from './search-params';
+import { buildCountQuery, buildSearchQuery } from './search-query';
+import type { StylistSearchParams } from './types';
+
+const baseParams: StylistSearchParams = { sortBy: 'relevance', limit: 20, offset: 0 };
+
+describe('Stylist Search Params', () => {
+  describe('resolveAvailabilityWindow', () => {
+    it('should resolve the weekday of the date in UTC', () => {
+      expect(resolveAvailabilityWindow('2026-03-10', '09:00', '12:00')).toEqual({
+        date: '2026-03-10',
+        day: 'tue',
+        from: '09:00',
+        to: '12:00',
+      });
+    });
+
+    it('should search the whole day without times', () => {
+      expect(resolveAvailabilityWindow('2026-03-15')).toMatchObject({ day: 'sun', from: '00:00', to: '24:00' });
+    });
+
+    it('should reject a window that ends before it starts', () => {
+      expect(resolveAvailabilityWindow('2026-03-10', '14:00', '14:00')).toBeNull();
+      expect(resolveAvailabilityWindow('2026-03-10', '14:00', '09:00')).toBeNull();
+    });
+  });
+
+  describe('escapeLikePattern', () => {
+    it('should escape LIKE wildcards and backslashes', () => {
+      expect(escapeLikePattern('100%_braids\\')).toBe('100\\%\\_braids\\\\');
+    });
+
+    it('should leave ordinary text alone', () => {
+      expect(escapeLikePattern('knotless braids')).toBe('knotless braids');
+    });
+  });
+
+  describe('search cursors', () => {
+    it('should round-trip the sort key and id', () => {
+      const cursor = { key: -0.7312455, id: 'stylist-1' };
+
+      expect(decodeSearchCursor(encodeSearchCursor(cursor))).toEqual(cursor);
+    });
+
+    it('should reject cursors it did not issue', () => {
+      expect(decodeSearchCursor('not-a-cursor')).toBeNull();
+      expect(decodeSearchCursor(Buffer.from('{"key":1}').toString('base64url'))).toBeNull();
+      expect(decodeSearchCursor(Buffer.from('[null,"stylist-1"]').toString('base64url'))).toBeNull();
+    });
+  });
+
+  describe('buildSearchQuery', () => {
+    it('should resume after the cursor instead of offsetting', () => {
+      const query = buildSearchQuery({ ...baseParams, offset: 40, cursor: { key: 1.5, id: 'stylist-9' } });
+
+      expect(query.sql).toContain('(ranked."sortKey", ranked."stylistId") >');
+      expect(query.values).toEqual(expect.arrayContaining([1.5, 'stylist-9']));
+      expect(query.values[query.values.length - 1]).toBe(0);
+    });
+
+    it('should only bind the filters that were asked for', () => {
+      const query = buildCountQuery(baseParams);
+
+      expect(query.sql).not.toContain('earth_box');
+      expect(query.sql).not.toContain('ILIKE');
+      expect(query.sql).not.toContain('"serviceCount" > 0');
+    });
+
+    it('should match the query literally on name, bio and specialties', () => {
+      const query = buildCountQuery({ ...baseParams, query: '50%' });
+
+      expect(query.values).toContain('%50\\%%');
+    });
+
+    it('should require a matching service when filtering on services', () => {
+      const query = buildCountQuery({
+        ...baseParams,
+        serviceCategory: 'Hair',
+        maxPrice: 50000,
+        availability: resolveAvailabilityWindow('2026-03-10', '09:00', '12:00')!,
+      });
+
+      expect(query.sql).toContain('"serviceCount" > 0');
+      expect(query.values).toEqual(expect.arrayContaining(['Hair', BigInt(50000), 'tue', '09:00', '12:00']));
+    });
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Stylist search parameters and cursors
+ * Pure helpers - no database access
+ */
+
+import type { AvailabilityWindow, SearchCursor } from "./types";
+
+const DAY_NAMES: AvailabilityWindow["day"][] = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Resolve "available on `date` between `from` and `to`". Without times the
+ * whole day is searched. Returns null when the window is empty.
+ */
+export function resolveAvailabilityWindow(
+  date: string,
+  from: string = "00:00",
+  to: string = "24:00"
+): AvailabilityWindow | null {
+  if (toMinutes(to) <= toMinutes(from)) {
+    return null;
+  }
+
+  return {
+    date,
+    day: DAY_NAMES[new Date(`${date}T00:00:00Z`).getUTCDay()],
+    from,
+    to,
+  };
+}
+
+/**
+ * Escape LIKE wildcards so the query matches literally
+ */
+export function escapeLikePattern(query: string): string {
+  return query.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+export function encodeSearchCursor(cursor: SearchCursor): string {
+  return Buffer.from(JSON.stringify([cursor.key, cursor.id])).toString("base64url");
+}
+
+/**
+ * Read a cursor from a previous page. Null if it wasn't one of ours.
+ */
+export function decodeSearchCursor(raw: string): SearchCursor | null {
+  try {
+    const decoded: unknown = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+    if (
+      Array.isArray(decoded) &&
+      decoded.length === 2 &&
+      typeof decoded[0] === "number" &&
+      Number.isFinite(decoded[0]) &&
+      typeof decoded[1] === "string" &&
+      decoded[1].length > 0
+    ) {
+      return { key: decoded[0], id: decoded[1] };
+    }
+  } catch {
+    // Fall through - not valid JSON
+  }
+  return null;
+}
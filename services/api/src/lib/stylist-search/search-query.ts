@@ -0,0 +1,298 @@
+/**
+ * Stylist search SQL
+ * Builds the filtered, ranked candidate set in a single statement
+ *
+ * A stylist matches when at least one active service passes the service
+ * filters (category, price and - when asked - a free gap long enough for it
+ * in the availability window). Location, text and reputation filter the
+ * profile. Results are ordered by an ascending sort key then id, which is
+ * what cursors resume from.
+ */
+
+import { Prisma } from "@prisma/client";
+import { escapeLikePattern } from "./search-params";
+import {
+  DEFAULT_REPUTATION_SCORE,
+  MAX_SERVICE_RADIUS_KM,
+  RANKING_WEIGHTS,
+  SEARCH_BLOCKING_STATUSES,
+  type AvailabilityWindow,
+  type StylistSearchParams,
+} from "./types";
+
+/**
+ * Sort key for a price when a stylist has no matching service - after
+ * everyone else, and still a finite number for cursors
+ */
+const UNPRICED_SORT_KEY = Number.MAX_SAFE_INTEGER;
+
+function stylistPoint(): Prisma.Sql {
+  return Prisma.sql`ll_to_earth(sp."baseLocationLat", sp."baseLocationLng")`;
+}
+
+function distanceKm(location: NonNullable<StylistSearchParams["location"]>): Prisma.Sql {
+  return Prisma.sql`(earth_distance(ll_to_earth(${location.lat}::float8, ${location.lng}::float8), ${stylistPoint()}) / 1000.0)`;
+}
+
+/**
+ * Fixed and hybrid stylists must be within the searcher's radius; mobile
+ * stylists within their own service radius. The earth_box test is what the
+ * GiST index answers - earth_distance then trims its corners.
+ */
+function locationFilter(location: NonNullable<StylistSearchParams["location"]>): Prisma.Sql {
+  const boxMeters = Math.max(location.radiusKm, MAX_SERVICE_RADIUS_KM) * 1000;
+
+  return Prisma.sql`
+    sp."baseLocationLat" IS NOT NULL
+    AND sp."baseLocationLng" IS NOT NULL
+    AND earth_box(ll_to_earth(${location.lat}::float8, ${location.lng}::float8), ${boxMeters}::float8) @> ${stylistPoint()}
+    AND ${distanceKm(location)} <= CASE
+      WHEN sp."operatingMode" = 'MOBILE' THEN COALESCE(sp."serviceRadius", 0)
+      ELSE ${location.radiusKm}::float8
+    END`;
+}
+
+/**
+ * Name, bio or specialties contain the query - served by the trigram indexes
+ */
+function textFilter(query: string): Prisma.Sql {
+  const pattern = `%${escapeLikePattern(query)}%`;
+
+  return Prisma.sql`(
+    u."displayName" ILIKE ${pattern}
+    OR sp."bio" ILIKE ${pattern}
+    OR sp."specialties"::text ILIKE ${pattern}
+  )`;
+}
+
+function textScore(query: string | undefined): Prisma.Sql {
+  if (!query) return Prisma.sql`0::float8`;
+
+  return Prisma.sql`GREATEST(
+    word_similarity(${query}, u."displayName"),
+    word_similarity(${query}, COALESCE(sp."bio", '')),
+    word_similarity(${query}, sp."specialties"::text)
+  )::float8`;
+}
+
+function blockingStatuses(): Prisma.Sql {
+  return Prisma.join(SEARCH_BLOCKING_STATUSES);
+}
+
+/**
+ * The service `s` fits somewhere in the window: within a schedule slot, after
+ * now, and clear of the stylist's bookings. Candidate start times are the
+ * start of each slot and the end of each booking inside it - if the service
+ * fits anywhere, it fits at one of those. Stylists who haven't set a schedule
+ * are treated as open all day, as the booking flow does.
+ */
+function availabilityFilter(window: AvailabilityWindow, now: Date): Prisma.Sql {
+  const duration = Prisma.sql`make_interval(mins => s."estimatedDurationMin")`;
+
+  return Prisma.sql`EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(
+      CASE
+        WHEN sa."id" IS NULL THEN '[{"start":"00:00","end":"24:00"}]'::jsonb
+        ELSE COALESCE(sa."schedule" -> ${window.day}, '[]'::jsonb)
+      END
+    ) AS slot
+    CROSS JOIN LATERAL (
+      SELECT
+        GREATEST(
+          ${window.date}::date + (slot ->> 'start')::time,
+          ${window.date}::date + ${window.from}::time,
+          ${now.toISOString()}::timestamptz AT TIME ZONE 'UTC'
+        ) AS "opensAt",
+        LEAST(
+          ${window.date}::date + (slot ->> 'end')::time,
+          ${window.date}::date + ${window.to}::time
+        ) AS "closesAt"
+    ) AS open_window
+    CROSS JOIN LATERAL (
+      SELECT open_window."opensAt" AS "startsAt"
+      UNION ALL
+      SELECT b."scheduledEndTime"
+      FROM "bookings" b
+      WHERE b."stylistId" = sp."userId"
+        AND b."status"::text IN (${blockingStatuses()})
+        AND b."scheduledEndTime" > open_window."opensAt"
+        AND b."scheduledEndTime" < open_window."closesAt"
+    ) AS candidate
+    WHERE candidate."startsAt" + ${duration} <= open_window."closesAt"
+      AND NOT EXISTS (
+        SELECT 1
+        FROM "bookings" b
+        WHERE b."stylistId" = sp."userId"
+          AND b."status"::text IN (${blockingStatuses()})
+          AND b."scheduledStartTime" < candidate."startsAt" + ${duration}
+          AND b."scheduledEndTime" > candidate."startsAt"
+      )
+  )`;
+}
+
+function dateNotBlocked(window: AvailabilityWindow): Prisma.Sql {
+  return Prisma.sql`NOT EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(COALESCE(sa."exceptions", '[]'::jsonb)) AS exception
+    WHERE exception ->> 'date' = ${window.date}
+      AND exception ->> 'blocked' = 'true'
+  )`;
+}
+
+function serviceFilters(params: StylistSearchParams, now: Date): Prisma.Sql[] {
+  const filters: Prisma.Sql[] = [Prisma.sql`s."stylistId" = sp."id"`, Prisma.sql`s."isActive" = true`];
+
+  if (params.serviceCategory) {
+    filters.push(Prisma.sql`s."category" = ${params.serviceCategory}`);
+  }
+  if (params.minPrice !== undefined) {
+    filters.push(Prisma.sql`s."priceAmountCents" >= ${BigInt(params.minPrice)}`);
+  }
+  if (params.maxPrice !== undefined) {
+    filters.push(Prisma.sql`s."priceAmountCents" <= ${BigInt(params.maxPrice)}`);
+  }
+  if (params.availability) {
+    filters.push(availabilityFilter(params.availability, now));
+  }
+
+  return filters;
+}
+
+function hasServiceFilter(params: StylistSearchParams): boolean {
+  return (
+    params.serviceCategory !== undefined ||
+    params.minPrice !== undefined ||
+    params.maxPrice !== undefined ||
+    params.availability !== undefined
+  );
+}
+
+function profileFilters(params: StylistSearchParams): Prisma.Sql[] {
+  const filters: Prisma.Sql[] = [Prisma.sql`sp."isAcceptingBookings" = true`];
+
+  if (hasServiceFilter(params)) {
+    filters.push(Prisma.sql`matched."serviceCount" > 0`);
+  }
+  if (params.operatingMode) {
+    filters.push(Prisma.sql`sp."operatingMode"::text = ${params.operatingMode}`);
+  }
+  if (params.query) {
+    filters.push(textFilter(params.query));
+  }
+  if (params.location) {
+    filters.push(locationFilter(params.location));
+  }
+  if (params.minReputation !== undefined) {
+    filters.push(
+      Prisma.sql`COALESCE(rs."totalScore", ${DEFAULT_REPUTATION_SCORE}) >= ${Math.round(params.minReputation * 100)}`
+    );
+  }
+  if (params.availability) {
+    filters.push(dateNotBlocked(params.availability));
+  }
+
+  return filters;
+}
+
+/**
+ * Every matching stylist with the values ranking and sorting need
+ */
+function candidatesQuery(params: StylistSearchParams, now: Date): Prisma.Sql {
+  const distance = params.location ? distanceKm(params.location) : Prisma.sql`NULL::float8`;
+
+  return Prisma.sql`
+    SELECT
+      sp."id" AS "stylistId",
+      u."createdAt" AS "joinedAt",
+      COALESCE(rs."totalScore", ${DEFAULT_REPUTATION_SCORE}) AS "reputationScore",
+      matched."minPrice",
+      matched."maxPrice",
+      ${distance} AS "distanceKm",
+      ${textScore(params.query)} AS "textScore",
+      CASE WHEN u."verificationStatus" = 'VERIFIED' THEN 1 ELSE 0 END::float8 AS "verifiedScore"
+    FROM "stylist_profiles" sp
+    JOIN "users" u ON u."id" = sp."userId"
+    LEFT JOIN "reputation_scores" rs ON rs."userId" = sp."userId"
+    LEFT JOIN "stylist_availability" sa ON sa."stylistId" = sp."id"
+    CROSS JOIN LATERAL (
+      SELECT
+        COUNT(*) AS "serviceCount",
+        MIN(s."priceAmountCents")::float8 AS "minPrice",
+        MAX(s."priceAmountCents")::float8 AS "maxPrice"
+      FROM "stylist_services" s
+      WHERE ${Prisma.join(serviceFilters(params, now), " AND ")}
+    ) AS matched
+    WHERE ${Prisma.join(profileFilters(params), " AND ")}`;
+}
+
+/**
+ * Relevance in 0-1: text match, reputation, closeness and verification, weighted
+ */
+function relevance(params: StylistSearchParams): Prisma.Sql {
+  const proximity = params.location
+    ? Prisma.sql`GREATEST(0, 1 - c."distanceKm" / ${Math.max(params.location.radiusKm, MAX_SERVICE_RADIUS_KM)}::float8)`
+    : Prisma.sql`0`;
+
+  return Prisma.sql`(
+    ${RANKING_WEIGHTS.text}::float8 * c."textScore"
+    + ${RANKING_WEIGHTS.reputation}::float8 * (c."reputationScore" / 10000.0)::float8
+    + ${RANKING_WEIGHTS.proximity}::float8 * ${proximity}
+    + ${RANKING_WEIGHTS.verified}::float8 * c."verifiedScore"
+  )`;
+}
+
+/**
+ * Ascending sort key for the requested order
+ */
+function sortKey(params: StylistSearchParams): Prisma.Sql {
+  switch (params.sortBy) {
+    case "price_asc":
+      return Prisma.sql`COALESCE(c."minPrice", ${UNPRICED_SORT_KEY}::float8)`;
+    case "price_desc":
+      return Prisma.sql`-COALESCE(c."maxPrice", 0)`;
+    case "distance":
+      return Prisma.sql`COALESCE(c."distanceKm", 0)`;
+    case "newest":
+      return Prisma.sql`-EXTRACT(EPOCH FROM c."joinedAt")::float8`;
+    case "relevance":
+    default:
+      return Prisma.sql`-${relevance(params)}`;
+  }
+}
+
+/**
+ * One page of ranked hits
+ */
+export function buildSearchQuery(params: StylistSearchParams, now: Date = new Date()): Prisma.Sql {
+  const afterCursor = params.cursor
+    ? Prisma.sql`WHERE (ranked."sortKey", ranked."stylistId") > (${params.cursor.key}::float8, ${params.cursor.id})`
+    : Prisma.empty;
+  const offset = params.cursor ? 0 : params.offset;
+
+  return Prisma.sql`
+    WITH candidates AS (${candidatesQuery(params, now)})
+    SELECT ranked.*
+    FROM (
+      SELECT
+        c."stylistId",
+        c."distanceKm",
+        c."reputationScore",
+        ${relevance(params)} AS "relevance",
+        (${sortKey(params)})::float8 AS "sortKey"
+      FROM candidates c
+    ) AS ranked
+    ${afterCursor}
+    ORDER BY ranked."sortKey" ASC, ranked."stylistId" ASC
+    LIMIT ${params.limit}
+    OFFSET ${offset}`;
+}
+
+/**
+ * Total matches, independent of the page
+ */
+export function buildCountQuery(params: StylistSearchParams, now: Date = new Date()): Prisma.Sql {
+  return Prisma.sql`
+    WITH candidates AS (${candidatesQuery(params, now)})
+    SELECT COUNT(*)::int AS "total" FROM candidates`;
+}
@@ -0,0 +1,45 @@
+/**
+ * Stylist Search Service
+ * Runs the search query and turns rows into a page with a cursor
+ */
+
+import prisma from "../prisma";
+import { encodeSearchCursor } from "./search-params";
+import { buildCountQuery, buildSearchQuery } from "./search-query";
+import type { StylistSearchHit, StylistSearchPage, StylistSearchParams } from "./types";
+
+interface SearchRow {
+  stylistId: string;
+  sortKey: number;
+  distanceKm: number | null;
+  reputationScore: number;
+  relevance: number;
+}
+
+/**
+ * Find one page of stylists matching the search, ranked. `nextCursor` is
+ * null on the last page.
+ */
+export async function searchStylists(params: StylistSearchParams): Promise<StylistSearchPage> {
+  const now = new Date();
+
+  // One extra row tells us whether there's another page
+  const [rows, [{ total }]] = await Promise.all([
+    prisma.$queryRaw<SearchRow[]>(buildSearchQuery({ ...params, limit: params.limit + 1 }, now)),
+    prisma.$queryRaw<Array<{ total: number }>>(buildCountQuery(params, now)),
+  ]);
+
+  const hits: StylistSearchHit[] = rows.slice(0, params.limit).map((row) => ({
+    stylistId: row.stylistId,
+    sortKey: Number(row.sortKey),
+    distanceKm: row.distanceKm === null ? null : Number(row.distanceKm),
+    reputationScore: Number(row.reputationScore),
+    relevance: Number(row.relevance),
+  }));
+
+  const last = hits[hits.length - 1];
+  const nextCursor =
+    rows.length > params.limit && last ? encodeSearchCursor({ key: last.sortKey, id: last.stylistId }) : null;
+
+  return { hits, total, nextCursor };
+}
@@ -0,0 +1,104 @@
+/**
+ * Stylist Search Types
+ * Filtering, ranking and cursors for GET /api/v1/stylists
+ *
+ * Every filter runs in Postgres so pages, totals and cursors agree. Text
+ * matching uses pg_trgm indexes and the geo radius uses earthdistance over
+ * the stylist's base location (see migration add_stylist_search_indexes).
+ * Schedule times are UTC, as in lib/scheduling.
+ */
+
+import { BookingStatus } from "@prisma/client";
+
+/**
+ * Radius used when a location is given without one
+ */
+export const DEFAULT_SEARCH_RADIUS_KM = 50;
+
+/**
+ * Largest serviceRadius a stylist can set - bounds the index lookup for
+ * mobile stylists, who are matched on their own radius
+ */
+export const MAX_SERVICE_RADIUS_KM = 100;
+
+/**
+ * Reputation assumed for stylists with no ReputationScore yet (50.00)
+ */
+export const DEFAULT_REPUTATION_SCORE = 5000;
+
+/**
+ * Bookings in these statuses take the stylist's time
+ */
+export const SEARCH_BLOCKING_STATUSES: BookingStatus[] = [
+  BookingStatus.PENDING_STYLIST_APPROVAL,
+  BookingStatus.PENDING_CUSTOMER_PAYMENT,
+  BookingStatus.CONFIRMED,
+  BookingStatus.IN_PROGRESS,
+];
+
+/**
+ * How relevance ranking weighs each signal, each scaled to 0-1 first.
+ * `verified` is all or nothing: stylists who passed identity verification.
+ */
+export const RANKING_WEIGHTS = {
+  text: 0.35,
+  reputation: 0.3,
+  proximity: 0.25,
+  verified: 0.1,
+} as const;
+
+export type StylistSortBy = "relevance" | "price_asc" | "price_desc" | "distance" | "newest";
+
+/**
+ * A validated search, with the availability window resolved
+ */
+export interface StylistSearchParams {
+  query?: string;
+  serviceCategory?: string;
+  operatingMode?: string;
+  minPrice?: number; // cents
+  maxPrice?: number; // cents
+  minReputation?: number; // 0-100
+  location?: { lat: number; lng: number; radiusKm: number };
+  availability?: AvailabilityWindow;
+  sortBy: StylistSortBy;
+  limit: number;
+  offset: number;
+  cursor?: SearchCursor;
+}
+
+/**
+ * "Free for a matching service between `from` and `to` on `date`"
+ */
+export interface AvailabilityWindow {
+  date: string; // YYYY-MM-DD
+  day: "sun" | "mon" | "tue" | "wed" | "thu" | "fri" | "sat";
+  from: string; // HH:mm
+  to: string; // HH:mm, "24:00" for end of day
+}
+
+/**
+ * Position after the last result of a page: its sort key and id. Sort keys
+ * always ascend, so descending sorts store the negated value.
+ */
+export interface SearchCursor {
+  key: number;
+  id: string;
+}
+
+/**
+ * A ranked match, before profiles are loaded
+ */
+export interface StylistSearchHit {
+  stylistId: string;
+  sortKey: number;
+  distanceKm: number | null;
+  reputationScore: number;
+  relevance: number;
+}
+
+export interface StylistSearchPage {
+  hits: StylistSearchHit[];
+  total: number;
+  nextCursor: string | null;
+}
@@ -0,0 +1,22 @@
+/**
+ * Stylist Verification Module
+ * Unified exports for identity and credential verification of stylists
+ */
+
+export * from "./types";
+export {
+  checkCanSubmitDocuments,
+  checkPacketCompleteness,
+  getReviewOutcome,
+  isPacketEditable,
+} from "./verification-rules";
+export {
+  getStylistVerification,
+  addVerificationDocument,
+  removeVerificationDocument,
+  submitVerificationPacket,
+  listVerificationQueue,
+  getVerificationPacketForReview,
+  reviewVerificationPacket,
+  setVerificationStatus,
+} from "./verification-service";
@@ -0,0 +1,135 @@
+/**
+ * Stylist Verification Types
+ * Identity and credential packets that move User.verificationStatus
+ */
+
+import type {
+  VerificationDocumentType,
+  VerificationPacketStatus,
+  VerificationStatus,
+} from "@prisma/client";
+
+/**
+ * Every packet needs these
+ */
+export const REQUIRED_DOCUMENT_TYPES: VerificationDocumentType[] = ["GOVERNMENT_ID", "SELFIE"];
+
+/**
+ * ...and at least one of these to show the stylist is qualified or trading
+ */
+export const CREDENTIAL_DOCUMENT_TYPES: VerificationDocumentType[] = [
+  "CERTIFICATION",
+  "BUSINESS_REGISTRATION",
+  "PORTFOLIO_PROOF",
+];
+
+export const MAX_DOCUMENTS_PER_PACKET = 12;
+
+/**
+ * Packets the stylist can still add to and remove from
+ */
+export const EDITABLE_PACKET_STATUSES: VerificationPacketStatus[] = ["DRAFT", "MORE_INFO_REQUESTED"];
+
+export type VerificationDecision = "APPROVE" | "REJECT" | "REQUEST_INFO";
+
+/**
+ * Verification changes the stylist is told about
+ */
+export type VerificationNotice =
+  | "SUBMITTED"
+  | "APPROVED"
+  | "REJECTED"
+  | "MORE_INFO_REQUESTED"
+  | "STATUS_CHANGED";
+
+/**
+ * Whoever is acting, for the audit log - the stylist for submissions, the
+ * admin for reviews
+ */
+export interface VerificationActor {
+  userId: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface ReviewOutcome {
+  packetStatus: VerificationPacketStatus;
+  userStatus: VerificationStatus;
+  notice: VerificationNotice;
+}
+
+export interface PacketCompleteness {
+  complete: boolean;
+  missingTypes: VerificationDocumentType[];
+  needsCredential: boolean;
+}
+
+export interface VerificationDocumentView {
+  id: string;
+  type: VerificationDocumentType;
+  format: string;
+  bytes: number;
+  createdAt: Date;
+  /** Short-lived signed URL - admin review only */
+  url?: string;
+}
+
+export interface VerificationPacketView {
+  id: string;
+  status: VerificationPacketStatus;
+  submittedAt: Date | null;
+  reviewedAt: Date | null;
+  reviewNote: string | null;
+  documents: VerificationDocumentView[];
+  completeness: PacketCompleteness;
+  /** The stylist can add or remove documents and submit */
+  editable: boolean;
+  createdAt: Date;
+}
+
+export interface StylistVerificationView {
+  verificationStatus: VerificationStatus;
+  /** Latest packet, open or decided */
+  packet: VerificationPacketView | null;
+  requiredDocumentTypes: VerificationDocumentType[];
+  credentialDocumentTypes: VerificationDocumentType[];
+  maxDocuments: number;
+}
+
+export interface VerificationReviewView extends VerificationPacketView {
+  stylist: {
+    id: string;
+    displayName: string;
+    email: string | null;
+    avatarUrl: string | null;
+    verificationStatus: VerificationStatus;
+    createdAt: Date;
+  };
+  /** Earlier decided packets, newest first */
+  history: Array<{
+    id: string;
+    status: VerificationPacketStatus;
+    reviewNote: string | null;
+    reviewedAt: Date | null;
+  }>;
+}
+
+export interface VerificationQueueItem {
+  id: string;
+  status: VerificationPacketStatus;
+  submittedAt: Date | null;
+  reviewedAt: Date | null;
+  documentTypes: VerificationDocumentType[];
+  stylist: { id: string; displayName: string; email: string | null; avatarUrl: string | null };
+}
+
+/**
+ * Result of a verification operation.
+ * `error` is an ERROR_CODES key so routes can map it directly.
+ */
+export interface VerificationResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  details?: Record<string, unknown>;
+}
@@ -0,0 +1,99 @@
+import {
+  checkCanSubmitDocuments,
+  checkPacketCompleteness,
+  getReviewOutcome,
+  isPacketEditable,
+} from './verification-rules';
+
+describe('Stylist Verification Rules', () => {
+  describe('isPacketEditable', () => {
+    it('should let stylists change drafts and packets sent back for more info', () => {
+      expect(isPacketEditable('DRAFT')).toBe(true);
+      expect(isPacketEditable('MORE_INFO_REQUESTED')).toBe(true);
+    });
+
+    it('should lock submitted and decided packets', () => {
+      expect(isPacketEditable('SUBMITTED')).toBe(false);
+      expect(isPacketEditable('APPROVED')).toBe(false);
+      expect(isPacketEditable('REJECTED')).toBe(false);
+    });
+  });
+
+  describe('checkPacketCompleteness', () => {
+    it('should be complete with an ID, a selfie and one credential', () => {
+      expect(checkPacketCompleteness(['GOVERNMENT_ID', 'SELFIE', 'PORTFOLIO_PROOF'])).toEqual({
+        complete: true,
+        missingTypes: [],
+        needsCredential: false,
+      });
+    });
+
+    it('should list missing required documents', () => {
+      const result = checkPacketCompleteness(['SELFIE', 'CERTIFICATION']);
+
+      expect(result.complete).toBe(false);
+      expect(result.missingTypes).toEqual(['GOVERNMENT_ID']);
+      expect(result.needsCredential).toBe(false);
+    });
+
+    it('should need a credential alongside identity documents', () => {
+      const result = checkPacketCompleteness(['GOVERNMENT_ID', 'SELFIE', 'SELFIE']);
+
+      expect(result.complete).toBe(false);
+      expect(result.missingTypes).toEqual([]);
+      expect(result.needsCredential).toBe(true);
+    });
+
+    it('should report everything for an empty packet', () => {
+      expect(checkPacketCompleteness([])).toEqual({
+        complete: false,
+        missingTypes: ['GOVERNMENT_ID', 'SELFIE'],
+        needsCredential: true,
+      });
+    });
+  });
+
+  describe('checkCanSubmitDocuments', () => {
+    it('should allow unverified and pending stylists', () => {
+      expect(checkCanSubmitDocuments('UNVERIFIED')).toBeNull();
+      expect(checkCanSubmitDocuments('PENDING')).toBeNull();
+    });
+
+    it('should block verified and suspended stylists', () => {
+      expect(checkCanSubmitDocuments('VERIFIED')).toBe('STYLIST_ALREADY_VERIFIED');
+      expect(checkCanSubmitDocuments('SUSPENDED')).toBe('VERIFICATION_ACCOUNT_SUSPENDED');
+    });
+  });
+
+  describe('getReviewOutcome', () => {
+    it('should verify the stylist on approval', () => {
+      expect(getReviewOutcome('SUBMITTED', 'APPROVE')).toEqual({
+        packetStatus: 'APPROVED',
+        userStatus: 'VERIFIED',
+        notice: 'APPROVED',
+      });
+    });
+
+    it('should return the stylist to unverified on rejection', () => {
+      expect(getReviewOutcome('SUBMITTED', 'REJECT')).toEqual({
+        packetStatus: 'REJECTED',
+        userStatus: 'UNVERIFIED',
+        notice: 'REJECTED',
+      });
+    });
+
+    it('should keep the stylist pending when more info is requested', () => {
+      expect(getReviewOutcome('SUBMITTED', 'REQUEST_INFO')).toEqual({
+        packetStatus: 'MORE_INFO_REQUESTED',
+        userStatus: 'PENDING',
+        notice: 'MORE_INFO_REQUESTED',
+      });
+    });
+
+    it('should only decide submitted packets', () => {
+      expect(getReviewOutcome('DRAFT', 'APPROVE')).toBeNull();
+      expect(getReviewOutcome('MORE_INFO_REQUESTED', 'APPROVE')).toBeNull();
+      expect(getReviewOutcome('APPROVED', 'REJECT')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Stylist Verification Rules
+ * Pure checks for packet completeness and review transitions
+ */
+
+import type {
+  VerificationDocumentType,
+  VerificationPacketStatus,
+  VerificationStatus,
+} from "@prisma/client";
+import {
+  CREDENTIAL_DOCUMENT_TYPES,
+  EDITABLE_PACKET_STATUSES,
+  REQUIRED_DOCUMENT_TYPES,
+  type PacketCompleteness,
+  type ReviewOutcome,
+  type VerificationDecision,
+} from "./types";
+
+/**
+ * Whether the stylist can still change the packet
+ */
+export function isPacketEditable(status: VerificationPacketStatus): boolean {
+  return EDITABLE_PACKET_STATUSES.includes(status);
+}
+
+/**
+ * A packet is complete with every required document and at least one credential
+ */
+export function checkPacketCompleteness(types: VerificationDocumentType[]): PacketCompleteness {
+  const present = new Set(types);
+  const missingTypes = REQUIRED_DOCUMENT_TYPES.filter((type) => !present.has(type));
+  const needsCredential = !CREDENTIAL_DOCUMENT_TYPES.some((type) => present.has(type));
+
+  return {
+    complete: missingTypes.length === 0 && !needsCredential,
+    missingTypes,
+    needsCredential,
+  };
+}
+
+/**
+ * Why a stylist can't start or change a packet, as an ERROR_CODES key - null
+ * when they can
+ *
+ * Verified stylists have nothing to submit, and suspended accounts are
+ * handled by an admin rather than through a new packet.
+ */
+export function checkCanSubmitDocuments(userStatus: VerificationStatus): string | null {
+  switch (userStatus) {
+    case "VERIFIED":
+      return "STYLIST_ALREADY_VERIFIED";
+    case "SUSPENDED":
+      return "VERIFICATION_ACCOUNT_SUSPENDED";
+    default:
+      return null;
+  }
+}
+
+/**
+ * What an admin decision does to the packet and the stylist. Only submitted
+ * packets can be decided; null otherwise.
+ *
+ * - APPROVE: the stylist is VERIFIED
+ * - REJECT: back to UNVERIFIED - they can start a new packet
+ * - REQUEST_INFO: stays PENDING while the stylist adds to the same packet
+ */
+export function getReviewOutcome(
+  packetStatus: VerificationPacketStatus,
+  decision: VerificationDecision
+): ReviewOutcome | null {
+  if (packetStatus !== "SUBMITTED") {
+    return null;
+  }
+
+  switch (decision) {
+    case "APPROVE":
+      return { packetStatus: "APPROVED", userStatus: "VERIFIED", notice: "APPROVED" };
+    case "REJECT":
+      return { packetStatus: "REJECTED", userStatus: "UNVERIFIED", notice: "REJECTED" };
+    case "REQUEST_INFO":
+      return { packetStatus: "MORE_INFO_REQUESTED", userStatus: "PENDING", notice: "MORE_INFO_REQUESTED" };
+    default:
+      return null;
+  }
+}
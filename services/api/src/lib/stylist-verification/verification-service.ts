@@ -0,0 +1,559 @@
+/**
+ * Stylist Verification Service
+ * Stylists collect ID, selfie and credential documents into a packet and
+ * submit it; admins approve, reject or ask for more. Decisions move
+ * User.verificationStatus, which search ranking and property auto-approval
+ * read.
+ *
+ * Documents are private Cloudinary assets - only the review view hands out
+ * (short-lived) URLs. Every status change is audited and the stylist is told.
+ */
+
+import type {
+  Prisma,
+  StylistVerificationPacket,
+  VerificationDocument,
+  VerificationDocumentType,
+  VerificationPacketStatus,
+  VerificationStatus,
+} from "@prisma/client";
+import prisma from "../prisma";
+import { logger } from "../logger";
+import { deletePrivateDocument, getPrivateDocumentUrl, uploadPrivateDocument } from "../cloudinary";
+import { sendNotification } from "../notifications";
+import { AuditActions, TargetTypes, createAuditLog, type AuditAction } from "../audit";
+import { awardSpecialBadge } from "../rewards";
+import {
+  checkCanSubmitDocuments,
+  checkPacketCompleteness,
+  getReviewOutcome,
+  isPacketEditable,
+} from "./verification-rules";
+import {
+  CREDENTIAL_DOCUMENT_TYPES,
+  EDITABLE_PACKET_STATUSES,
+  MAX_DOCUMENTS_PER_PACKET,
+  REQUIRED_DOCUMENT_TYPES,
+  type StylistVerificationView,
+  type VerificationActor,
+  type VerificationDecision,
+  type VerificationDocumentView,
+  type VerificationNotice,
+  type VerificationPacketView,
+  type VerificationQueueItem,
+  type VerificationResult,
+  type VerificationReviewView,
+} from "./types";
+
+type PacketWithDocuments = StylistVerificationPacket & { documents: VerificationDocument[] };
+
+const DECISION_AUDIT_ACTIONS: Record<VerificationDecision, AuditAction> = {
+  APPROVE: AuditActions.APPROVE_STYLIST_VERIFICATION,
+  REJECT: AuditActions.REJECT_STYLIST_VERIFICATION,
+  REQUEST_INFO: AuditActions.REQUEST_VERIFICATION_INFO,
+};
+
+/**
+ * Audit a status change against the stylist, best effort - the change has
+ * already been written
+ */
+async function audit(
+  actor: VerificationActor,
+  action: AuditAction,
+  userId: string,
+  details: string,
+  metadata: Record<string, unknown>
+) {
+  try {
+    await createAuditLog({
+      adminId: actor.userId,
+      action,
+      targetType: TargetTypes.USER,
+      targetId: userId,
+      details,
+      metadata,
+      ipAddress: actor.ipAddress,
+      userAgent: actor.userAgent,
+    });
+  } catch {
+    // createAuditLog already logged it
+  }
+}
+
+/**
+ * Tell the stylist their verification changed, best effort
+ */
+async function notify(
+  userId: string,
+  notice: VerificationNotice,
+  metadata: { verificationStatus?: VerificationStatus; reviewNote?: string | null } = {}
+) {
+  try {
+    await sendNotification({
+      userId,
+      type: "VERIFICATION_STATUS_CHANGED",
+      channels: ["IN_APP", "EMAIL", "PUSH"],
+      metadata: {
+        verificationNotice: notice,
+        verificationStatus: metadata.verificationStatus,
+        reviewNote: metadata.reviewNote ?? undefined,
+      },
+    });
+  } catch (error) {
+    logger.warn("Failed to send verification notification", {
+      userId,
+      notice,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+}
+
+function toDocumentView(document: VerificationDocument, withUrl: boolean): VerificationDocumentView {
+  return {
+    id: document.id,
+    type: document.type,
+    format: document.format,
+    bytes: document.bytes,
+    createdAt: document.createdAt,
+    ...(withUrl && { url: getPrivateDocumentUrl(document.publicId, document.format) }),
+  };
+}
+
+function toPacketView(packet: PacketWithDocuments, withUrls = false): VerificationPacketView {
+  return {
+    id: packet.id,
+    status: packet.status,
+    submittedAt: packet.submittedAt,
+    reviewedAt: packet.reviewedAt,
+    reviewNote: packet.reviewNote,
+    documents: packet.documents.map((document) => toDocumentView(document, withUrls)),
+    completeness: checkPacketCompleteness(packet.documents.map((document) => document.type)),
+    editable: isPacketEditable(packet.status),
+    createdAt: packet.createdAt,
+  };
+}
+
+async function getLatestPacket(userId: string): Promise<PacketWithDocuments | null> {
+  return prisma.stylistVerificationPacket.findFirst({
+    where: { userId },
+    include: { documents: { orderBy: { createdAt: "asc" } } },
+    orderBy: { createdAt: "desc" },
+  });
+}
+
+/**
+ * The stylist's open packet, starting a draft when there is none
+ */
+async function getOrCreateOpenPacket(userId: string): Promise<VerificationResult<PacketWithDocuments>> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { verificationStatus: true, stylistProfile: { select: { id: true } } },
+  });
+
+  if (!user?.stylistProfile) {
+    return { success: false, error: "NOT_A_STYLIST" };
+  }
+
+  const blocked = checkCanSubmitDocuments(user.verificationStatus);
+  if (blocked) {
+    return { success: false, error: blocked };
+  }
+
+  const latest = await getLatestPacket(userId);
+  if (latest?.status === "SUBMITTED") {
+    return { success: false, error: "VERIFICATION_UNDER_REVIEW" };
+  }
+  if (latest && isPacketEditable(latest.status)) {
+    return { success: true, data: latest };
+  }
+
+  const packet = await prisma.stylistVerificationPacket.create({
+    data: { userId },
+    include: { documents: true },
+  });
+
+  return { success: true, data: packet };
+}
+
+/**
+ * The stylist's verification status and latest packet
+ */
+export async function getStylistVerification(userId: string): Promise<VerificationResult<StylistVerificationView>> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { verificationStatus: true, stylistProfile: { select: { id: true } } },
+  });
+
+  if (!user?.stylistProfile) {
+    return { success: false, error: "NOT_A_STYLIST" };
+  }
+
+  const packet = await getLatestPacket(userId);
+
+  return {
+    success: true,
+    data: {
+      verificationStatus: user.verificationStatus,
+      packet: packet ? toPacketView(packet) : null,
+      requiredDocumentTypes: REQUIRED_DOCUMENT_TYPES,
+      credentialDocumentTypes: CREDENTIAL_DOCUMENT_TYPES,
+      maxDocuments: MAX_DOCUMENTS_PER_PACKET,
+    },
+  };
+}
+
+/**
+ * Upload a document into the stylist's open packet
+ *
+ * @param file - Already validated with validateDocumentFile
+ */
+export async function addVerificationDocument(
+  userId: string,
+  type: VerificationDocumentType,
+  file: Buffer
+): Promise<VerificationResult<VerificationPacketView>> {
+  const open = await getOrCreateOpenPacket(userId);
+  if (!open.success || !open.data) {
+    return { success: false, error: open.error, details: open.details };
+  }
+
+  const packet = open.data;
+  if (packet.documents.length >= MAX_DOCUMENTS_PER_PACKET) {
+    return { success: false, error: "VERIFICATION_DOCUMENT_LIMIT", details: { max: MAX_DOCUMENTS_PER_PACKET } };
+  }
+
+  const upload = await uploadPrivateDocument(file, { folder: `vlossom/verification/${userId}/${packet.id}` });
+  if (!upload.success || !upload.publicId) {
+    return { success: false, error: "UPLOAD_FAILED", details: { reason: upload.error } };
+  }
+
+  await prisma.verificationDocument.create({
+    data: {
+      packetId: packet.id,
+      type,
+      publicId: upload.publicId,
+      format: upload.format ?? "jpg",
+      bytes: upload.bytes ?? file.length,
+    },
+  });
+
+  const updated = await prisma.stylistVerificationPacket.findUniqueOrThrow({
+    where: { id: packet.id },
+    include: { documents: { orderBy: { createdAt: "asc" } } },
+  });
+
+  return { success: true, data: toPacketView(updated) };
+}
+
+/**
+ * Remove a document from the stylist's open packet
+ */
+export async function removeVerificationDocument(
+  userId: string,
+  documentId: string
+): Promise<VerificationResult<VerificationPacketView>> {
+  const document = await prisma.verificationDocument.findUnique({
+    where: { id: documentId },
+    include: { packet: { select: { id: true, userId: true, status: true } } },
+  });
+
+  if (!document || document.packet.userId !== userId) {
+    return { success: false, error: "VERIFICATION_DOCUMENT_NOT_FOUND" };
+  }
+
+  if (!isPacketEditable(document.packet.status)) {
+    return { success: false, error: "VERIFICATION_UNDER_REVIEW" };
+  }
+
+  await prisma.verificationDocument.delete({ where: { id: documentId } });
+
+  const deleted = await deletePrivateDocument(document.publicId);
+  if (!deleted.success) {
+    logger.warn("Failed to delete verification document from Cloudinary", {
+      documentId,
+      publicId: document.publicId,
+      error: deleted.error,
+    });
+  }
+
+  const packet = await prisma.stylistVerificationPacket.findUniqueOrThrow({
+    where: { id: document.packet.id },
+    include: { documents: { orderBy: { createdAt: "asc" } } },
+  });
+
+  return { success: true, data: toPacketView(packet) };
+}
+
+/**
+ * Send the open packet for review - the stylist shows as PENDING until an
+ * admin decides
+ */
+export async function submitVerificationPacket(
+  actor: VerificationActor
+): Promise<VerificationResult<VerificationPacketView>> {
+  const userId = actor.userId;
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { verificationStatus: true },
+  });
+
+  const blocked = user ? checkCanSubmitDocuments(user.verificationStatus) : "NOT_A_STYLIST";
+  if (blocked) {
+    return { success: false, error: blocked };
+  }
+
+  const packet = await getLatestPacket(userId);
+  if (!packet) {
+    return { success: false, error: "VERIFICATION_PACKET_NOT_FOUND" };
+  }
+  if (!isPacketEditable(packet.status)) {
+    return { success: false, error: "VERIFICATION_UNDER_REVIEW" };
+  }
+
+  const completeness = checkPacketCompleteness(packet.documents.map((document) => document.type));
+  if (!completeness.complete) {
+    return {
+      success: false,
+      error: "VERIFICATION_INCOMPLETE",
+      details: { missingTypes: completeness.missingTypes, needsCredential: completeness.needsCredential },
+    };
+  }
+
+  // Guard on the status so a double submit can't queue the packet twice
+  const submitted = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.stylistVerificationPacket.updateMany({
+      where: { id: packet.id, status: { in: EDITABLE_PACKET_STATUSES } },
+      data: { status: "SUBMITTED", submittedAt: new Date() },
+    });
+    if (count === 0) {
+      return false;
+    }
+
+    await tx.user.update({ where: { id: userId }, data: { verificationStatus: "PENDING" } });
+    return true;
+  });
+
+  if (!submitted) {
+    return { success: false, error: "VERIFICATION_UNDER_REVIEW" };
+  }
+
+  await audit(actor, AuditActions.SUBMIT_STYLIST_VERIFICATION, userId, "Submitted verification packet", {
+    packetId: packet.id,
+    previousStatus: user!.verificationStatus,
+    resubmission: packet.status === "MORE_INFO_REQUESTED",
+    documentTypes: packet.documents.map((document) => document.type),
+  });
+  await notify(userId, "SUBMITTED", { verificationStatus: "PENDING" });
+
+  const updated = await getLatestPacket(userId);
+  return { success: true, data: toPacketView(updated!) };
+}
+
+/**
+ * Packets for the admin review queue - oldest submission first
+ */
+export async function listVerificationQueue(params: {
+  status: VerificationPacketStatus;
+  page: number;
+  pageSize: number;
+  search?: string;
+}): Promise<{ packets: VerificationQueueItem[]; total: number }> {
+  const where: Prisma.StylistVerificationPacketWhereInput = {
+    status: params.status,
+    ...(params.search && {
+      user: {
+        OR: [
+          { email: { contains: params.search, mode: "insensitive" } },
+          { displayName: { contains: params.search, mode: "insensitive" } },
+        ],
+      },
+    }),
+  };
+
+  const [packets, total] = await Promise.all([
+    prisma.stylistVerificationPacket.findMany({
+      where,
+      include: {
+        documents: { select: { type: true } },
+        user: { select: { id: true, displayName: true, email: true, avatarUrl: true } },
+      },
+      orderBy: [{ submittedAt: "asc" }, { createdAt: "asc" }],
+      skip: (params.page - 1) * params.pageSize,
+      take: params.pageSize,
+    }),
+    prisma.stylistVerificationPacket.count({ where }),
+  ]);
+
+  return {
+    packets: packets.map((packet) => ({
+      id: packet.id,
+      status: packet.status,
+      submittedAt: packet.submittedAt,
+      reviewedAt: packet.reviewedAt,
+      documentTypes: [...new Set(packet.documents.map((document) => document.type))],
+      stylist: packet.user,
+    })),
+    total,
+  };
+}
+
+/**
+ * A packet with viewable documents and the stylist's earlier decisions
+ */
+export async function getVerificationPacketForReview(
+  packetId: string
+): Promise<VerificationResult<VerificationReviewView>> {
+  const packet = await prisma.stylistVerificationPacket.findUnique({
+    where: { id: packetId },
+    include: {
+      documents: { orderBy: { createdAt: "asc" } },
+      user: {
+        select: {
+          id: true,
+          displayName: true,
+          email: true,
+          avatarUrl: true,
+          verificationStatus: true,
+          createdAt: true,
+        },
+      },
+    },
+  });
+
+  if (!packet) {
+    return { success: false, error: "VERIFICATION_PACKET_NOT_FOUND" };
+  }
+
+  const history = await prisma.stylistVerificationPacket.findMany({
+    where: { userId: packet.userId, id: { not: packet.id }, status: { in: ["APPROVED", "REJECTED"] } },
+    select: { id: true, status: true, reviewNote: true, reviewedAt: true },
+    orderBy: { createdAt: "desc" },
+  });
+
+  return {
+    success: true,
+    data: {
+      ...toPacketView(packet, true),
+      stylist: packet.user,
+      history,
+    },
+  };
+}
+
+/**
+ * Approve, reject or send back a submitted packet
+ *
+ * @param note - Shown to the stylist; required by the route for reject and request-info
+ */
+export async function reviewVerificationPacket(
+  packetId: string,
+  decision: VerificationDecision,
+  note: string | undefined,
+  actor: VerificationActor
+): Promise<VerificationResult<VerificationPacketView>> {
+  const packet = await prisma.stylistVerificationPacket.findUnique({
+    where: { id: packetId },
+    include: { user: { select: { verificationStatus: true } } },
+  });
+
+  if (!packet) {
+    return { success: false, error: "VERIFICATION_PACKET_NOT_FOUND" };
+  }
+
+  const outcome = getReviewOutcome(packet.status, decision);
+  if (!outcome) {
+    return { success: false, error: "VERIFICATION_NOT_REVIEWABLE", details: { status: packet.status } };
+  }
+
+  // Lifting a suspension is a separate decision - see setVerificationStatus
+  if (packet.user.verificationStatus === "SUSPENDED") {
+    return { success: false, error: "VERIFICATION_ACCOUNT_SUSPENDED" };
+  }
+
+  const reviewed = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.stylistVerificationPacket.updateMany({
+      where: { id: packetId, status: "SUBMITTED" },
+      data: {
+        status: outcome.packetStatus,
+        reviewedAt: new Date(),
+        reviewedById: actor.userId,
+        reviewNote: note ?? null,
+      },
+    });
+    if (count === 0) {
+      return false;
+    }
+
+    await tx.user.update({ where: { id: packet.userId }, data: { verificationStatus: outcome.userStatus } });
+    return true;
+  });
+
+  if (!reviewed) {
+    return { success: false, error: "VERIFICATION_NOT_REVIEWABLE" };
+  }
+
+  if (decision === "APPROVE") {
+    await awardSpecialBadge(packet.userId, "VERIFIED_STYLIST", "Identity verification approved");
+  }
+
+  await audit(actor, DECISION_AUDIT_ACTIONS[decision], packet.userId, note ?? `Verification ${outcome.packetStatus.toLowerCase()}`, {
+    packetId,
+    previousStatus: packet.user.verificationStatus,
+    newStatus: outcome.userStatus,
+  });
+  await notify(packet.userId, outcome.notice, { verificationStatus: outcome.userStatus, reviewNote: note });
+
+  const updated = await prisma.stylistVerificationPacket.findUniqueOrThrow({
+    where: { id: packetId },
+    include: { documents: { orderBy: { createdAt: "asc" } } },
+  });
+
+  return { success: true, data: toPacketView(updated) };
+}
+
+/**
+ * Admin override of a user's verification status outside the packet flow
+ * (freezing an account, reinstating it, ...)
+ */
+export async function setVerificationStatus(
+  userId: string,
+  status: VerificationStatus,
+  actor: VerificationActor
+): Promise<VerificationResult<{ previousStatus: VerificationStatus }>> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { verificationStatus: true, stylistProfile: { select: { id: true } } },
+  });
+
+  if (!user) {
+    return { success: false, error: "USER_NOT_FOUND" };
+  }
+
+  const previousStatus = user.verificationStatus;
+  if (previousStatus === status) {
+    return { success: true, data: { previousStatus } };
+  }
+
+  await prisma.user.update({ where: { id: userId }, data: { verificationStatus: status } });
+
+  if (status === "VERIFIED" && user.stylistProfile) {
+    await awardSpecialBadge(userId, "VERIFIED_STYLIST", "Verified by an admin");
+  }
+
+  const action =
+    status === "VERIFIED"
+      ? AuditActions.VERIFY_USER
+      : status === "SUSPENDED"
+        ? AuditActions.FREEZE_USER
+        : previousStatus === "SUSPENDED"
+          ? AuditActions.UNFREEZE_USER
+          : AuditActions.UPDATE_VERIFICATION_STATUS;
+
+  await audit(actor, action, userId, `Verification status ${previousStatus} -> ${status}`, {
+    previousStatus,
+    newStatus: status,
+  });
+  await notify(userId, status === "VERIFIED" ? "APPROVED" : "STATUS_CHANGED", { verificationStatus: status });
+
+  return { success: true, data: { previousStatus } };
+}
@@ -43,6 +43,7 @@ export async function createRefreshToken(
     userAgent?: string;
     ipAddress?: string;
     familyId?: string; // For token rotation, use existing family
+    twoFactorVerified?: boolean; // Session was established with a second factor
   } = {}
 ): Promise<{ token: string; tokenId: string; familyId: string }> {
   const token = generateSecureToken();
@@ -58,6 +59,7 @@ export async function createRefreshToken(
       expiresAt,
       userAgent: options.userAgent,
       ipAddress: options.ipAddress,
+      twoFactorVerified: options.twoFactorVerified ?? false,
     },
   });
 
@@ -81,6 +83,7 @@ export async function validateRefreshToken(
   userId?: string;
   tokenId?: string;
   familyId?: string;
+  twoFactorVerified?: boolean;
   reuseDetected?: boolean;
 }> {
   const tokenHash = hashToken(token);
@@ -134,6 +137,7 @@ export async function validateRefreshToken(
     userId: record.userId,
     tokenId: record.id,
     familyId: record.familyId,
+    twoFactorVerified: record.twoFactorVerified,
   };
 }
 
@@ -151,6 +155,7 @@ export async function rotateRefreshToken(
   success: boolean;
   newToken?: string;
   userId?: string;
+  twoFactorVerified?: boolean;
   error?: string;
 }> {
   const validation = await validateRefreshToken(oldToken);
@@ -171,6 +176,7 @@ export async function rotateRefreshToken(
       userAgent: options.userAgent,
       ipAddress: options.ipAddress,
       familyId: validation.familyId,
+      twoFactorVerified: validation.twoFactorVerified,
     }
   );
 
@@ -191,6 +197,7 @@ export async function rotateRefreshToken(
     success: true,
     newToken,
     userId: validation.userId,
+    twoFactorVerified: validation.twoFactorVerified,
   };
 }
 
@@ -0,0 +1,23 @@
+/**
+ * Two-Factor Module
+ * Unified exports for 2FA enrollment, sign-in challenges and step-up
+ */
+
+export * from "./types";
+export { isStepUpRequired, isTwoFactorRequired } from "./two-factor-rules";
+export {
+  getTwoFactorStatus,
+  startTotpEnrollment,
+  startSmsEnrollment,
+  confirmEnrollment,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+  getLoginRequirement,
+  createLoginChallenge,
+  verifyLoginChallenge,
+  getStepUpRequirement,
+  startStepUp,
+  verifyStepUp,
+  consumeStepUpToken,
+  updateTransferThreshold,
+} from "./two-factor-service";
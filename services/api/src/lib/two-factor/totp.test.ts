@@ -0,0 +1,124 @@
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpAuthUrl,
+  decryptSecret,
+  encryptSecret,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  getTotpCode,
+  getTotpStep,
+  normalizeRecoveryCode,
+  verifyTotpCode,
+} from './totp';
+
+// RFC 6238 appendix B - the SHA1 seed "12345678901234567890"
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('TOTP', () => {
+  describe('base32', () => {
+    it('should round-trip arbitrary bytes', () => {
+      const bytes = Buffer.from([0, 1, 2, 250, 251, 252, 253, 254, 255]);
+      expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+    });
+
+    it('should ignore case, spaces and padding when decoding', () => {
+      expect(base32Decode('gezd gnbv gy3t qojq====')).toEqual(base32Decode('GEZDGNBVGY3TQOJQ'));
+    });
+
+    it('should reject characters outside the alphabet', () => {
+      expect(() => base32Decode('GEZD1')).toThrow(/Invalid base32/);
+    });
+  });
+
+  describe('getTotpCode', () => {
+    it('should match the RFC 6238 test vectors', () => {
+      const vectors: Array<[number, string]> = [
+        [59, '94287082'],
+        [1111111109, '07081804'],
+        [1234567890, '89005924'],
+        [2000000000, '69279037'],
+      ];
+
+      for (const [seconds, expected] of vectors) {
+        expect(getTotpCode(RFC_SECRET, getTotpStep(new Date(seconds * 1000)), 8)).toBe(expected);
+      }
+    });
+  });
+
+  describe('verifyTotpCode', () => {
+    const now = new Date(1234567890 * 1000);
+    const step = getTotpStep(now);
+
+    it('should accept the current code and one step of drift', () => {
+      expect(verifyTotpCode(RFC_SECRET, getTotpCode(RFC_SECRET, step), now)).toBe(step);
+      expect(verifyTotpCode(RFC_SECRET, getTotpCode(RFC_SECRET, step - 1), now)).toBe(step - 1);
+      expect(verifyTotpCode(RFC_SECRET, getTotpCode(RFC_SECRET, step + 1), now)).toBe(step + 1);
+    });
+
+    it('should reject codes outside the drift window', () => {
+      expect(verifyTotpCode(RFC_SECRET, getTotpCode(RFC_SECRET, step - 2), now)).toBeNull();
+    });
+
+    it('should not accept a step that was already used', () => {
+      const code = getTotpCode(RFC_SECRET, step);
+      expect(verifyTotpCode(RFC_SECRET, code, now, step)).toBeNull();
+    });
+
+    it('should reject malformed codes', () => {
+      expect(verifyTotpCode(RFC_SECRET, '12345', now)).toBeNull();
+      expect(verifyTotpCode(RFC_SECRET, 'abcdef', now)).toBeNull();
+    });
+  });
+
+  describe('buildOtpAuthUrl', () => {
+    it('should label the account with the issuer', () => {
+      const url = buildOtpAuthUrl('JBSWY3DPEHPK3PXP', 'thandi@example.com');
+
+      expect(url.startsWith('otpauth://totp/Vlossom%3Athandi%40example.com?')).toBe(true);
+      expect(new URL(url).searchParams.get('secret')).toBe('JBSWY3DPEHPK3PXP');
+      expect(new URL(url).searchParams.get('issuer')).toBe('Vlossom');
+    });
+  });
+
+  describe('recovery codes', () => {
+    it('should generate distinct, readable codes', () => {
+      const codes = generateRecoveryCodes(10);
+
+      expect(new Set(codes).size).toBe(10);
+      codes.forEach((code) => expect(code).toMatch(/^[a-z2-9]{4}-[a-z2-9]{4}-[a-z2-9]{4}$/));
+    });
+
+    it('should normalize case and separators', () => {
+      expect(normalizeRecoveryCode(' K7D2-9XQM p4tw ')).toBe('k7d29xqmp4tw');
+    });
+  });
+
+  describe('secret encryption', () => {
+    const originalKey = process.env.TWO_FACTOR_ENCRYPTION_KEY;
+
+    beforeAll(() => {
+      process.env.TWO_FACTOR_ENCRYPTION_KEY = 'test-two-factor-key';
+    });
+
+    afterAll(() => {
+      process.env.TWO_FACTOR_ENCRYPTION_KEY = originalKey;
+    });
+
+    it('should decrypt what it encrypts without storing the secret in the clear', () => {
+      const secret = generateTotpSecret();
+      const encrypted = encryptSecret(secret);
+
+      expect(encrypted).not.toContain(secret);
+      expect(decryptSecret(encrypted)).toBe(secret);
+    });
+
+    it('should fail on a tampered payload', () => {
+      const [iv, tag, data] = encryptSecret(generateTotpSecret()).split('.');
+      const tampered = Buffer.from(data, 'base64');
+      tampered[0] ^= 1;
+
+      expect(() => decryptSecret([iv, tag, tampered.toString('base64')].join('.'))).toThrow();
+    });
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * TOTP (RFC 6238) and One-Time Code Helpers
+ * Pure functions - no database access
+ */
+
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes, randomInt, timingSafeEqual } from "crypto";
+import { TOTP_DIGITS, TOTP_DRIFT_STEPS, TOTP_ISSUER, TOTP_PERIOD_SECONDS } from "./types";
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+// 160-bit secrets, as recommended by RFC 4226
+const TOTP_SECRET_BYTES = 20;
+
+// ============================================================================
+// Base32 (RFC 4648, no padding - what authenticator apps expect)
+// ============================================================================
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+export function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, "");
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+// ============================================================================
+// TOTP
+// ============================================================================
+
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(TOTP_SECRET_BYTES));
+}
+
+export function getTotpStep(now: Date = new Date()): number {
+  return Math.floor(now.getTime() / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+/**
+ * HOTP (RFC 4226) value for a time step, zero-padded to `digits`
+ */
+export function getTotpCode(secret: string, step: number, digits: number = TOTP_DIGITS): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = createHmac("sha1", base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return (binary % 10 ** digits).toString().padStart(digits, "0");
+}
+
+/**
+ * Check a code against the steps around now.
+ * Returns the matching step, or null. Steps at or before lastUsedStep are
+ * rejected so an accepted code can't be replayed.
+ */
+export function verifyTotpCode(
+  secret: string,
+  code: string,
+  now: Date = new Date(),
+  lastUsedStep: number | null = null
+): number | null {
+  if (!new RegExp(`^\\d{${TOTP_DIGITS}}$`).test(code)) {
+    return null;
+  }
+
+  const current = getTotpStep(now);
+
+  for (let drift = -TOTP_DRIFT_STEPS; drift <= TOTP_DRIFT_STEPS; drift++) {
+    const step = current + drift;
+    if (lastUsedStep !== null && step <= lastUsedStep) {
+      continue;
+    }
+    if (safeEqual(getTotpCode(secret, step), code)) {
+      return step;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * otpauth:// URL for the authenticator app QR code
+ */
+export function buildOtpAuthUrl(secret: string, accountName: string): string {
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: TOTP_ISSUER,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+// ============================================================================
+// SMS codes and recovery codes
+// ============================================================================
+
+export function generateSmsCode(): string {
+  return randomInt(0, 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, "0");
+}
+
+/**
+ * Recovery codes look like "k7d2-9xqm-p4tw" - lowercase, no 0/1/l/o
+ */
+export function generateRecoveryCodes(count: number): string[] {
+  const alphabet = "abcdefghijkmnpqrstuvwxyz23456789";
+
+  return Array.from({ length: count }, () => {
+    const chars = Array.from({ length: 12 }, () => alphabet[randomInt(0, alphabet.length)]).join("");
+    return `${chars.slice(0, 4)}-${chars.slice(4, 8)}-${chars.slice(8)}`;
+  });
+}
+
+/**
+ * Codes are compared case- and separator-insensitively
+ */
+export function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/**
+ * SHA-256 of an SMS or recovery code. Both are random with short lifetimes or
+ * single use, so a fast hash is enough.
+ */
+export function hashCode(code: string): string {
+  return createHash("sha256").update(code).digest("hex");
+}
+
+export function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+// ============================================================================
+// TOTP secret at rest (AES-256-GCM)
+// ============================================================================
+
+function getEncryptionKey(): Buffer {
+  const key = process.env.TWO_FACTOR_ENCRYPTION_KEY || process.env.JWT_SECRET;
+  if (!key) {
+    throw new Error("TWO_FACTOR_ENCRYPTION_KEY is required to store two-factor secrets");
+  }
+  return createHash("sha256").update(key).digest();
+}
+
+/**
+ * Encrypt a TOTP secret as "iv.tag.ciphertext" (base64)
+ */
+export function encryptSecret(secret: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", getEncryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(secret, "utf8"), cipher.final()]);
+
+  return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString("base64")).join(".");
+}
+
+export function decryptSecret(payload: string): string {
+  const [iv, tag, encrypted] = payload.split(".").map((part) => Buffer.from(part, "base64"));
+  const decipher = createDecipheriv("aes-256-gcm", getEncryptionKey(), iv);
+  decipher.setAuthTag(tag);
+
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString("utf8");
+}
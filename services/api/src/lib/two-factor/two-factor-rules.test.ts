@@ -0,0 +1,84 @@
+import {
+  canUseStepUp,
+  checkChallenge,
+  getStepUpMethod,
+  isStepUpRequired,
+  isTwoFactorRequired,
+  maskPhone,
+} from './two-factor-rules';
+
+const now = new Date('2026-03-01T10:00:00Z');
+const later = new Date('2026-03-01T10:05:00Z');
+
+describe('Two-Factor Rules', () => {
+  describe('isTwoFactorRequired', () => {
+    it('should require 2FA for admins only', () => {
+      expect(isTwoFactorRequired(['CUSTOMER', 'ADMIN'])).toBe(true);
+      expect(isTwoFactorRequired(['STYLIST'])).toBe(false);
+    });
+  });
+
+  describe('isStepUpRequired', () => {
+    const user = { twoFactorEnabled: true, transferStepUpThreshold: 100_000_000n };
+
+    it('should step up transfers at or above the threshold', () => {
+      expect(isStepUpRequired('TRANSFER', user, 99_999_999n)).toBe(false);
+      expect(isStepUpRequired('TRANSFER', user, 100_000_000n)).toBe(true);
+    });
+
+    it('should always step up withdrawals, linked accounts and guardians', () => {
+      expect(isStepUpRequired('WITHDRAWAL', user)).toBe(true);
+      expect(isStepUpRequired('LINKED_ACCOUNT', { ...user, twoFactorEnabled: false })).toBe(true);
+      expect(isStepUpRequired('GUARDIAN', { ...user, twoFactorEnabled: false })).toBe(true);
+    });
+
+    it('should leave password change to the current password without 2FA', () => {
+      expect(isStepUpRequired('PASSWORD_CHANGE', user)).toBe(true);
+      expect(isStepUpRequired('PASSWORD_CHANGE', { ...user, twoFactorEnabled: false })).toBe(false);
+    });
+  });
+
+  describe('getStepUpMethod', () => {
+    it('should prefer the enrolled method and fall back to the password', () => {
+      expect(getStepUpMethod('SMS', true)).toBe('SMS');
+      expect(getStepUpMethod(null, true)).toBe('PASSWORD');
+      expect(getStepUpMethod(null, false)).toBeNull();
+    });
+  });
+
+  describe('checkChallenge', () => {
+    const challenge = { expiresAt: later, consumedAt: null, verifiedAt: null, attempts: 0 };
+
+    it('should accept an open challenge', () => {
+      expect(checkChallenge(challenge, now)).toBeNull();
+    });
+
+    it('should reject expired, verified or spent challenges', () => {
+      expect(checkChallenge(challenge, later)).toBe('TWO_FACTOR_CHALLENGE_INVALID');
+      expect(checkChallenge({ ...challenge, verifiedAt: now }, now)).toBe('TWO_FACTOR_CHALLENGE_INVALID');
+      expect(checkChallenge({ ...challenge, consumedAt: now }, now)).toBe('TWO_FACTOR_CHALLENGE_INVALID');
+    });
+
+    it('should lock after too many wrong codes', () => {
+      expect(checkChallenge({ ...challenge, attempts: 5 }, now)).toBe('TWO_FACTOR_TOO_MANY_ATTEMPTS');
+    });
+  });
+
+  describe('canUseStepUp', () => {
+    const verified = { action: 'WITHDRAWAL' as const, verifiedAt: now, consumedAt: null, expiresAt: later };
+
+    it('should only spend a verified, unused token on its own action', () => {
+      expect(canUseStepUp(verified, 'WITHDRAWAL', now)).toBe(true);
+      expect(canUseStepUp(verified, 'TRANSFER', now)).toBe(false);
+      expect(canUseStepUp({ ...verified, consumedAt: now }, 'WITHDRAWAL', now)).toBe(false);
+      expect(canUseStepUp({ ...verified, verifiedAt: null }, 'WITHDRAWAL', now)).toBe(false);
+      expect(canUseStepUp(verified, 'WITHDRAWAL', later)).toBe(false);
+    });
+  });
+
+  describe('maskPhone', () => {
+    it('should keep the country code and last four digits', () => {
+      expect(maskPhone('+27821234567')).toBe('+27 *** *** 4567');
+    });
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * Two-Factor Rules
+ * Pure decisions for enrollment, challenges and step-up - no database access
+ */
+
+import type { StepUpAction, TwoFactorMethod } from "@prisma/client";
+import { MAX_CHALLENGE_ATTEMPTS, type StepUpMethod } from "./types";
+
+/**
+ * Roles that must keep 2FA enabled
+ */
+const TWO_FACTOR_REQUIRED_ROLES = ["ADMIN"];
+
+export function isTwoFactorRequired(roles: string[]): boolean {
+  return roles.some((role) => TWO_FACTOR_REQUIRED_ROLES.includes(role));
+}
+
+/**
+ * Whether an action needs a fresh step-up token.
+ * Transfers only count at or above the user's threshold. Password change
+ * already re-checks the current password, so it only needs more when 2FA
+ * is on.
+ */
+export function isStepUpRequired(
+  action: StepUpAction,
+  user: { twoFactorEnabled: boolean; transferStepUpThreshold: bigint },
+  amount?: bigint
+): boolean {
+  switch (action) {
+    case "TRANSFER":
+      return amount !== undefined && amount >= user.transferStepUpThreshold;
+    case "PASSWORD_CHANGE":
+      return user.twoFactorEnabled;
+    default:
+      return true;
+  }
+}
+
+/**
+ * How the user re-verifies: their 2FA method, or their password when they
+ * haven't enrolled. Null means they have neither and must enroll first.
+ */
+export function getStepUpMethod(method: TwoFactorMethod | null, hasPassword: boolean): StepUpMethod | null {
+  if (method) return method;
+  return hasPassword ? "PASSWORD" : null;
+}
+
+/**
+ * Why a login or step-up challenge can no longer be answered, or null
+ */
+export function checkChallenge(
+  challenge: { expiresAt: Date; consumedAt: Date | null; verifiedAt: Date | null; attempts: number },
+  now: Date = new Date()
+): "TWO_FACTOR_CHALLENGE_INVALID" | "TWO_FACTOR_TOO_MANY_ATTEMPTS" | null {
+  if (challenge.consumedAt || challenge.verifiedAt || challenge.expiresAt <= now) {
+    return "TWO_FACTOR_CHALLENGE_INVALID";
+  }
+  if (challenge.attempts >= MAX_CHALLENGE_ATTEMPTS) {
+    return "TWO_FACTOR_TOO_MANY_ATTEMPTS";
+  }
+  return null;
+}
+
+/**
+ * Whether a verified step-up challenge can be spent on this action
+ */
+export function canUseStepUp(
+  challenge: { action: StepUpAction | null; verifiedAt: Date | null; consumedAt: Date | null; expiresAt: Date },
+  action: StepUpAction,
+  now: Date = new Date()
+): boolean {
+  return (
+    challenge.action === action &&
+    challenge.verifiedAt !== null &&
+    challenge.consumedAt === null &&
+    challenge.expiresAt > now
+  );
+}
+
+/**
+ * Mask a phone number for display - "+27 *** *** 4567"
+ */
+export function maskPhone(phone: string): string {
+  const digits = phone.replace(/\D/g, "");
+  return `${phone.startsWith("+") ? "+" : ""}${digits.slice(0, 2)} *** *** ${digits.slice(-4)}`;
+}
@@ -0,0 +1,721 @@
+/**
+ * Two-Factor Service
+ * TOTP and SMS OTP enrollment, recovery codes, login challenges and step-up
+ *
+ * Flow:
+ * 1. Enrollment - the user starts TOTP (gets a secret for their authenticator
+ *    app) or SMS (gets a code on the new number), then confirms with a code.
+ *    Confirming switches 2FA on and returns single-use recovery codes
+ * 2. Sign-in - once enabled, a correct password or SIWE signature returns a
+ *    login challenge instead of a session. The session is only issued after
+ *    verifyLoginChallenge accepts a code or recovery code
+ * 3. Step-up - sensitive actions (large transfers, withdrawals, linked
+ *    account, guardian and password changes) need a single-use token from
+ *    verifyStepUp, sent back in the X-Step-Up-Token header. Users without 2FA
+ *    step up with their password
+ *
+ * Admins can't switch 2FA off, and admin routes need a session that was
+ * verified with a second factor.
+ */
+
+import bcrypt from "bcrypt";
+import type { StepUpAction, TwoFactorChallenge, TwoFactorMethod, TwoFactorSettings } from "@prisma/client";
+import prisma from "../prisma";
+import { logger } from "../logger";
+import { generateSecureToken, hashToken } from "../token-service";
+import { sendNotification, sendSMS } from "../notifications";
+import { AuditActions, TargetTypes, createAuditLog, type AuditAction } from "../audit";
+import {
+  buildOtpAuthUrl,
+  decryptSecret,
+  encryptSecret,
+  generateRecoveryCodes,
+  generateSmsCode,
+  generateTotpSecret,
+  hashCode,
+  normalizeRecoveryCode,
+  safeEqual,
+  verifyTotpCode,
+} from "./totp";
+import { canUseStepUp, checkChallenge, getStepUpMethod, isStepUpRequired, isTwoFactorRequired, maskPhone } from "./two-factor-rules";
+import {
+  DEFAULT_TRANSFER_STEP_UP_THRESHOLD,
+  LOGIN_CHALLENGE_TTL_MINUTES,
+  RECOVERY_CODE_COUNT,
+  SMS_CODE_TTL_MINUTES,
+  STEP_UP_TOKEN_TTL_MINUTES,
+  type LoginChallenge,
+  type SmsEnrollment,
+  type StepUpChallenge,
+  type StepUpMethod,
+  type StepUpToken,
+  type StepUpVerifyInput,
+  type TotpEnrollment,
+  type TwoFactorCodeInput,
+  type TwoFactorContext,
+  type TwoFactorResult,
+  type TwoFactorSecurityNotice,
+  type TwoFactorStatus,
+} from "./types";
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function minutesFromNow(minutes: number): Date {
+  return new Date(Date.now() + minutes * 60 * 1000);
+}
+
+/**
+ * Record a 2FA change against the user, best effort
+ */
+async function audit(userId: string, action: AuditAction, details: string, context: TwoFactorContext, metadata = {}) {
+  try {
+    await createAuditLog({
+      adminId: userId,
+      action,
+      targetType: TargetTypes.USER,
+      targetId: userId,
+      details,
+      metadata,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+    });
+  } catch {
+    // createAuditLog already logged it
+  }
+}
+
+/**
+ * Tell the user their account security changed, best effort
+ */
+async function notify(userId: string, notice: TwoFactorSecurityNotice, method?: TwoFactorMethod | null) {
+  try {
+    await sendNotification({
+      userId,
+      type: "SECURITY_ALERT",
+      channels: ["IN_APP", "EMAIL", "PUSH"],
+      metadata: { securityNotice: notice, twoFactorMethod: method ?? undefined },
+    });
+  } catch (error) {
+    logger.warn("Failed to send security notification", {
+      userId,
+      notice,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+}
+
+async function sendCode(phone: string, code: string): Promise<boolean> {
+  const messageId = await sendSMS({
+    to: phone,
+    message: `Vlossom: Your verification code is ${code}. It expires in ${SMS_CODE_TTL_MINUTES} minutes. Never share it.`,
+  });
+  return messageId !== null;
+}
+
+function isEnabled(settings: TwoFactorSettings | null): settings is TwoFactorSettings & { method: TwoFactorMethod } {
+  return !!settings?.method;
+}
+
+/**
+ * Spend an unused recovery code
+ */
+async function useRecoveryCode(userId: string, recoveryCode: string): Promise<boolean> {
+  const { count } = await prisma.twoFactorRecoveryCode.updateMany({
+    where: { userId, codeHash: hashCode(normalizeRecoveryCode(recoveryCode)), usedAt: null },
+    data: { usedAt: new Date() },
+  });
+
+  if (count === 1) {
+    await notify(userId, "RECOVERY_CODE_USED");
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Check a TOTP code and burn its time step so it can't be replayed
+ */
+async function useTotpCode(settings: TwoFactorSettings, code: string): Promise<boolean> {
+  if (!settings.totpSecret) return false;
+
+  const step = verifyTotpCode(decryptSecret(settings.totpSecret), code, new Date(), settings.lastTotpStep);
+  if (step === null) return false;
+
+  // Conditional on the step we read, so two requests can't both spend it
+  const { count } = await prisma.twoFactorSettings.updateMany({
+    where: { id: settings.id, lastTotpStep: settings.lastTotpStep },
+    data: { lastTotpStep: step },
+  });
+  return count === 1;
+}
+
+/**
+ * Check the code a user submitted against their enrolled method.
+ * SMS codes are checked against the challenge they were sent for.
+ */
+async function verifySecondFactor(
+  settings: TwoFactorSettings & { method: TwoFactorMethod },
+  input: TwoFactorCodeInput,
+  challenge?: Pick<TwoFactorChallenge, "codeHash"> | null
+): Promise<boolean> {
+  if (input.recoveryCode) {
+    return useRecoveryCode(settings.userId, input.recoveryCode);
+  }
+  if (!input.code) return false;
+
+  if (settings.method === "TOTP") {
+    return useTotpCode(settings, input.code);
+  }
+
+  return !!challenge?.codeHash && safeEqual(challenge.codeHash, hashCode(input.code));
+}
+
+async function recordFailedAttempt(challengeId: string) {
+  await prisma.twoFactorChallenge.update({
+    where: { id: challengeId },
+    data: { attempts: { increment: 1 } },
+  });
+}
+
+async function replaceRecoveryCodes(userId: string): Promise<string[]> {
+  const codes = generateRecoveryCodes(RECOVERY_CODE_COUNT);
+
+  await prisma.$transaction([
+    prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+    prisma.twoFactorRecoveryCode.createMany({
+      data: codes.map((code) => ({ userId, codeHash: hashCode(normalizeRecoveryCode(code)) })),
+    }),
+  ]);
+
+  return codes;
+}
+
+// ============================================================================
+// Status and enrollment
+// ============================================================================
+
+export async function getTwoFactorStatus(userId: string): Promise<TwoFactorStatus> {
+  const [user, settings, recoveryCodesRemaining] = await Promise.all([
+    prisma.user.findUnique({ where: { id: userId }, select: { roles: true } }),
+    prisma.twoFactorSettings.findUnique({ where: { userId } }),
+    prisma.twoFactorRecoveryCode.count({ where: { userId, usedAt: null } }),
+  ]);
+
+  return {
+    enabled: isEnabled(settings),
+    method: settings?.method ?? null,
+    phone: settings?.method === "SMS" && settings.phone ? maskPhone(settings.phone) : null,
+    enabledAt: settings?.enabledAt ?? null,
+    recoveryCodesRemaining,
+    transferStepUpThreshold: (settings?.transferStepUpThreshold ?? DEFAULT_TRANSFER_STEP_UP_THRESHOLD).toString(),
+    required: isTwoFactorRequired((user?.roles as string[]) || []),
+  };
+}
+
+/**
+ * Create a TOTP secret for the user's authenticator app. Nothing changes until
+ * confirmEnrollment accepts a code from it.
+ */
+export async function startTotpEnrollment(userId: string): Promise<TwoFactorResult<TotpEnrollment>> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { email: true, walletAddress: true, twoFactor: true },
+  });
+
+  if (!user) {
+    return { success: false, error: "USER_NOT_FOUND" };
+  }
+  if (isEnabled(user.twoFactor)) {
+    return { success: false, error: "TWO_FACTOR_ALREADY_ENABLED" };
+  }
+
+  const secret = generateTotpSecret();
+  await prisma.twoFactorSettings.upsert({
+    where: { userId },
+    create: { userId, pendingTotpSecret: encryptSecret(secret) },
+    update: { pendingTotpSecret: encryptSecret(secret), pendingPhone: null },
+  });
+
+  return {
+    success: true,
+    data: { secret, otpauthUrl: buildOtpAuthUrl(secret, user.email || user.walletAddress) },
+  };
+}
+
+/**
+ * Text a code to the phone being enrolled
+ */
+export async function startSmsEnrollment(
+  userId: string,
+  phone: string,
+  context: TwoFactorContext
+): Promise<TwoFactorResult<SmsEnrollment>> {
+  const settings = await prisma.twoFactorSettings.findUnique({ where: { userId } });
+  if (isEnabled(settings)) {
+    return { success: false, error: "TWO_FACTOR_ALREADY_ENABLED" };
+  }
+
+  const code = generateSmsCode();
+  const expiresAt = minutesFromNow(SMS_CODE_TTL_MINUTES);
+
+  if (!(await sendCode(phone, code))) {
+    return { success: false, error: "SMS_CODE_FAILED" };
+  }
+
+  await prisma.$transaction([
+    prisma.twoFactorSettings.upsert({
+      where: { userId },
+      create: { userId, pendingPhone: phone },
+      update: { pendingPhone: phone, pendingTotpSecret: null },
+    }),
+    prisma.twoFactorChallenge.create({
+      data: {
+        userId,
+        purpose: "ENROLL",
+        method: "SMS",
+        codeHash: hashCode(code),
+        expiresAt,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+      },
+    }),
+  ]);
+
+  return { success: true, data: { phone: maskPhone(phone), expiresAt } };
+}
+
+/**
+ * Confirm the pending method with its first code and switch 2FA on.
+ * Returns the recovery codes - the only time they are shown.
+ */
+export async function confirmEnrollment(
+  userId: string,
+  code: string,
+  context: TwoFactorContext
+): Promise<TwoFactorResult<{ method: TwoFactorMethod; recoveryCodes: string[] }>> {
+  const settings = await prisma.twoFactorSettings.findUnique({ where: { userId } });
+
+  if (isEnabled(settings)) {
+    return { success: false, error: "TWO_FACTOR_ALREADY_ENABLED" };
+  }
+  if (!settings || (!settings.pendingTotpSecret && !settings.pendingPhone)) {
+    return { success: false, error: "TWO_FACTOR_ENROLLMENT_NOT_STARTED" };
+  }
+
+  let method: TwoFactorMethod;
+  let lastTotpStep: number | null = null;
+
+  if (settings.pendingTotpSecret) {
+    method = "TOTP";
+    lastTotpStep = verifyTotpCode(decryptSecret(settings.pendingTotpSecret), code);
+    if (lastTotpStep === null) {
+      return { success: false, error: "INVALID_TWO_FACTOR_CODE" };
+    }
+  } else {
+    method = "SMS";
+    const challenge = await prisma.twoFactorChallenge.findFirst({
+      where: { userId, purpose: "ENROLL" },
+      orderBy: { createdAt: "desc" },
+    });
+    const reason = challenge ? checkChallenge(challenge) : "TWO_FACTOR_CHALLENGE_INVALID";
+    if (!challenge || reason) {
+      return { success: false, error: reason || "TWO_FACTOR_CHALLENGE_INVALID" };
+    }
+    if (!challenge.codeHash || !safeEqual(challenge.codeHash, hashCode(code))) {
+      await recordFailedAttempt(challenge.id);
+      return { success: false, error: "INVALID_TWO_FACTOR_CODE" };
+    }
+    await prisma.twoFactorChallenge.update({
+      where: { id: challenge.id },
+      data: { verifiedAt: new Date(), consumedAt: new Date() },
+    });
+  }
+
+  await prisma.twoFactorSettings.update({
+    where: { userId },
+    data: {
+      method,
+      totpSecret: method === "TOTP" ? settings.pendingTotpSecret : null,
+      phone: method === "SMS" ? settings.pendingPhone : null,
+      pendingTotpSecret: null,
+      pendingPhone: null,
+      lastTotpStep,
+      enabledAt: new Date(),
+    },
+  });
+  const recoveryCodes = await replaceRecoveryCodes(userId);
+
+  logger.info("Two-factor authentication enabled", { userId, method });
+  await audit(userId, AuditActions.ENABLE_TWO_FACTOR, `Enabled ${method} two-factor authentication`, context, { method });
+  await notify(userId, "TWO_FACTOR_ENABLED", method);
+
+  return { success: true, data: { method, recoveryCodes } };
+}
+
+/**
+ * Switch 2FA off with a current code. Admins can't.
+ */
+export async function disableTwoFactor(
+  userId: string,
+  input: TwoFactorCodeInput,
+  context: TwoFactorContext
+): Promise<TwoFactorResult<{ disabled: true }>> {
+  const user = await prisma.user.findUnique({ where: { id: userId }, select: { roles: true, twoFactor: true } });
+
+  if (!user || !isEnabled(user.twoFactor)) {
+    return { success: false, error: "TWO_FACTOR_NOT_ENABLED" };
+  }
+  if (isTwoFactorRequired(user.roles as string[])) {
+    return { success: false, error: "TWO_FACTOR_REQUIRED_FOR_ROLE" };
+  }
+
+  const challenge = await findOpenSmsChallenge(userId, "STEP_UP", null);
+  if (!(await verifySecondFactor(user.twoFactor, input, challenge))) {
+    if (challenge) await recordFailedAttempt(challenge.id);
+    return { success: false, error: "INVALID_TWO_FACTOR_CODE" };
+  }
+
+  const method = user.twoFactor.method;
+  await prisma.$transaction([
+    prisma.twoFactorSettings.update({
+      where: { userId },
+      data: { method: null, totpSecret: null, phone: null, lastTotpStep: null, enabledAt: null },
+    }),
+    prisma.twoFactorRecoveryCode.deleteMany({ where: { userId } }),
+  ]);
+
+  logger.info("Two-factor authentication disabled", { userId, method });
+  await audit(userId, AuditActions.DISABLE_TWO_FACTOR, `Disabled ${method} two-factor authentication`, context, {
+    method,
+  });
+  await notify(userId, "TWO_FACTOR_DISABLED", method);
+
+  return { success: true, data: { disabled: true } };
+}
+
+export async function regenerateRecoveryCodes(
+  userId: string,
+  input: TwoFactorCodeInput,
+  context: TwoFactorContext
+): Promise<TwoFactorResult<{ recoveryCodes: string[] }>> {
+  const settings = await prisma.twoFactorSettings.findUnique({ where: { userId } });
+  if (!isEnabled(settings)) {
+    return { success: false, error: "TWO_FACTOR_NOT_ENABLED" };
+  }
+
+  const challenge = await findOpenSmsChallenge(userId, "STEP_UP", null);
+  if (!(await verifySecondFactor(settings, input, challenge))) {
+    if (challenge) await recordFailedAttempt(challenge.id);
+    return { success: false, error: "INVALID_TWO_FACTOR_CODE" };
+  }
+
+  const recoveryCodes = await replaceRecoveryCodes(userId);
+
+  await audit(userId, AuditActions.REGENERATE_RECOVERY_CODES, "Regenerated 2FA recovery codes", context);
+  await notify(userId, "RECOVERY_CODES_REGENERATED");
+
+  return { success: true, data: { recoveryCodes } };
+}
+
+// ============================================================================
+// Sign-in
+// ============================================================================
+
+/**
+ * Whether sign-in must stop at a challenge, and whether the user is an admin
+ * who still has to enroll
+ */
+export async function getLoginRequirement(
+  userId: string,
+  roles: string[]
+): Promise<{ challengeRequired: boolean; enrollmentRequired: boolean }> {
+  const settings = await prisma.twoFactorSettings.findUnique({ where: { userId } });
+  const enabled = isEnabled(settings);
+
+  return {
+    challengeRequired: enabled,
+    enrollmentRequired: !enabled && isTwoFactorRequired(roles),
+  };
+}
+
+/**
+ * Start the second step of sign-in. Texts a code for SMS users.
+ */
+export async function createLoginChallenge(
+  userId: string,
+  context: TwoFactorContext
+): Promise<TwoFactorResult<LoginChallenge>> {
+  const settings = await prisma.twoFactorSettings.findUnique({ where: { userId } });
+  if (!isEnabled(settings)) {
+    return { success: false, error: "TWO_FACTOR_NOT_ENABLED" };
+  }
+
+  let codeHash: string | null = null;
+  if (settings.method === "SMS") {
+    const code = generateSmsCode();
+    if (!settings.phone || !(await sendCode(settings.phone, code))) {
+      return { success: false, error: "SMS_CODE_FAILED" };
+    }
+    codeHash = hashCode(code);
+  }
+
+  const challengeToken = generateSecureToken();
+  const expiresAt = minutesFromNow(LOGIN_CHALLENGE_TTL_MINUTES);
+
+  await prisma.twoFactorChallenge.create({
+    data: {
+      userId,
+      purpose: "LOGIN",
+      method: settings.method,
+      tokenHash: hashToken(challengeToken),
+      codeHash,
+      expiresAt,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+    },
+  });
+
+  return { success: true, data: { challengeToken, method: settings.method, expiresAt } };
+}
+
+/**
+ * Finish sign-in with a code or recovery code. Returns the user to issue a
+ * session for.
+ */
+export async function verifyLoginChallenge(
+  challengeToken: string,
+  input: TwoFactorCodeInput
+): Promise<TwoFactorResult<{ userId: string }>> {
+  const challenge = await prisma.twoFactorChallenge.findUnique({
+    where: { tokenHash: hashToken(challengeToken) },
+    include: { user: { include: { twoFactor: true } } },
+  });
+
+  if (!challenge || challenge.purpose !== "LOGIN") {
+    return { success: false, error: "TWO_FACTOR_CHALLENGE_INVALID" };
+  }
+
+  const reason = checkChallenge(challenge);
+  if (reason) {
+    return { success: false, error: reason };
+  }
+
+  const settings = challenge.user.twoFactor;
+  if (!isEnabled(settings)) {
+    return { success: false, error: "TWO_FACTOR_CHALLENGE_INVALID" };
+  }
+
+  if (!(await verifySecondFactor(settings, input, challenge))) {
+    await recordFailedAttempt(challenge.id);
+    logger.warn("Failed two-factor sign-in attempt", { userId: challenge.userId, attempts: challenge.attempts + 1 });
+    return { success: false, error: "INVALID_TWO_FACTOR_CODE" };
+  }
+
+  // Conditional so a challenge can only be spent once
+  const { count } = await prisma.twoFactorChallenge.updateMany({
+    where: { id: challenge.id, consumedAt: null },
+    data: { verifiedAt: new Date(), consumedAt: new Date() },
+  });
+  if (count !== 1) {
+    return { success: false, error: "TWO_FACTOR_CHALLENGE_INVALID" };
+  }
+
+  return { success: true, data: { userId: challenge.userId } };
+}
+
+// ============================================================================
+// Step-up
+// ============================================================================
+
+async function findOpenSmsChallenge(userId: string, purpose: "STEP_UP", action: StepUpAction | null) {
+  const challenge = await prisma.twoFactorChallenge.findFirst({
+    where: { userId, purpose, action, method: "SMS", verifiedAt: null, consumedAt: null },
+    orderBy: { createdAt: "desc" },
+  });
+  return challenge && !checkChallenge(challenge) ? challenge : null;
+}
+
+/**
+ * Whether this request needs a step-up token, and how the user would get one
+ */
+export async function getStepUpRequirement(
+  userId: string,
+  action: StepUpAction,
+  amount?: bigint
+): Promise<{ required: boolean; method: StepUpMethod | null }> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { passwordHash: true, twoFactor: true },
+  });
+
+  const settings = user?.twoFactor ?? null;
+  const required = isStepUpRequired(
+    action,
+    {
+      twoFactorEnabled: isEnabled(settings),
+      transferStepUpThreshold: settings?.transferStepUpThreshold ?? DEFAULT_TRANSFER_STEP_UP_THRESHOLD,
+    },
+    amount
+  );
+
+  return { required, method: getStepUpMethod(settings?.method ?? null, !!user?.passwordHash) };
+}
+
+/**
+ * Begin re-verification for an action. Texts a code to SMS users; TOTP and
+ * password users go straight to verifyStepUp. `action` null is for
+ * disabling 2FA or replacing recovery codes, which check the code inline.
+ */
+export async function startStepUp(
+  userId: string,
+  action: StepUpAction | null,
+  context: TwoFactorContext
+): Promise<TwoFactorResult<StepUpChallenge>> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { passwordHash: true, twoFactor: true },
+  });
+
+  const settings = user?.twoFactor ?? null;
+  const method = getStepUpMethod(settings?.method ?? null, !!user?.passwordHash);
+  if (!method) {
+    return { success: false, error: "TWO_FACTOR_ENROLLMENT_REQUIRED" };
+  }
+  if (method !== "SMS") {
+    return { success: true, data: { action, method, expiresAt: null } };
+  }
+
+  const code = generateSmsCode();
+  if (!settings?.phone || !(await sendCode(settings.phone, code))) {
+    return { success: false, error: "SMS_CODE_FAILED" };
+  }
+
+  const expiresAt = minutesFromNow(SMS_CODE_TTL_MINUTES);
+  await prisma.twoFactorChallenge.create({
+    data: {
+      userId,
+      purpose: "STEP_UP",
+      action,
+      method: "SMS",
+      codeHash: hashCode(code),
+      expiresAt,
+      ipAddress: context.ipAddress,
+      userAgent: context.userAgent,
+    },
+  });
+
+  return { success: true, data: { action, method, expiresAt } };
+}
+
+/**
+ * Re-verify for an action and get a single-use step-up token for it
+ */
+export async function verifyStepUp(
+  userId: string,
+  action: StepUpAction,
+  input: StepUpVerifyInput,
+  context: TwoFactorContext
+): Promise<TwoFactorResult<StepUpToken>> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { passwordHash: true, twoFactor: true },
+  });
+
+  if (!user) {
+    return { success: false, error: "USER_NOT_FOUND" };
+  }
+
+  const settings = user.twoFactor;
+  const method = getStepUpMethod(settings?.method ?? null, !!user.passwordHash);
+  if (!method) {
+    return { success: false, error: "TWO_FACTOR_ENROLLMENT_REQUIRED" };
+  }
+
+  const smsChallenge = method === "SMS" ? await findOpenSmsChallenge(userId, "STEP_UP", action) : null;
+  if (method === "SMS" && !smsChallenge && !input.recoveryCode) {
+    return { success: false, error: "TWO_FACTOR_CHALLENGE_INVALID" };
+  }
+
+  const verified =
+    method === "PASSWORD"
+      ? !!input.password && (await bcrypt.compare(input.password, user.passwordHash!))
+      : await verifySecondFactor(settings as TwoFactorSettings & { method: TwoFactorMethod }, input, smsChallenge);
+
+  if (!verified) {
+    if (smsChallenge) await recordFailedAttempt(smsChallenge.id);
+    logger.warn("Failed step-up verification", { userId, action, method });
+    return { success: false, error: method === "PASSWORD" ? "INVALID_CURRENT_PASSWORD" : "INVALID_TWO_FACTOR_CODE" };
+  }
+
+  const stepUpToken = generateSecureToken();
+  const expiresAt = minutesFromNow(STEP_UP_TOKEN_TTL_MINUTES);
+  const data = { tokenHash: hashToken(stepUpToken), verifiedAt: new Date(), expiresAt };
+
+  if (smsChallenge) {
+    await prisma.twoFactorChallenge.update({ where: { id: smsChallenge.id }, data });
+  } else {
+    await prisma.twoFactorChallenge.create({
+      data: {
+        ...data,
+        userId,
+        purpose: "STEP_UP",
+        action,
+        method: method === "PASSWORD" ? null : method,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+      },
+    });
+  }
+
+  return { success: true, data: { stepUpToken, action, expiresAt } };
+}
+
+/**
+ * Spend a step-up token on an action. False if it is unknown, for another
+ * action or user, expired or already used.
+ */
+export async function consumeStepUpToken(userId: string, action: StepUpAction, stepUpToken: string): Promise<boolean> {
+  const challenge = await prisma.twoFactorChallenge.findUnique({
+    where: { tokenHash: hashToken(stepUpToken) },
+  });
+
+  if (!challenge || challenge.userId !== userId || challenge.purpose !== "STEP_UP" || !canUseStepUp(challenge, action)) {
+    return false;
+  }
+
+  const { count } = await prisma.twoFactorChallenge.updateMany({
+    where: { id: challenge.id, consumedAt: null },
+    data: { consumedAt: new Date() },
+  });
+  return count === 1;
+}
+
+/**
+ * Change the transfer amount that needs step-up. Raising it is itself a
+ * TRANSFER step-up action so a stolen session can't lift the limit.
+ */
+export async function updateTransferThreshold(
+  userId: string,
+  threshold: bigint,
+  stepUpToken: string | undefined
+): Promise<TwoFactorResult<{ transferStepUpThreshold: string }>> {
+  const settings = await prisma.twoFactorSettings.findUnique({ where: { userId } });
+  const current = settings?.transferStepUpThreshold ?? DEFAULT_TRANSFER_STEP_UP_THRESHOLD;
+
+  if (threshold > current && !(stepUpToken && (await consumeStepUpToken(userId, "TRANSFER", stepUpToken)))) {
+    const { method } = await getStepUpRequirement(userId, "TRANSFER");
+    return method
+      ? { success: false, error: "STEP_UP_REQUIRED", details: { action: "TRANSFER", method } }
+      : { success: false, error: "TWO_FACTOR_ENROLLMENT_REQUIRED" };
+  }
+
+  await prisma.twoFactorSettings.upsert({
+    where: { userId },
+    create: { userId, transferStepUpThreshold: threshold },
+    update: { transferStepUpThreshold: threshold },
+  });
+
+  return { success: true, data: { transferStepUpThreshold: threshold.toString() } };
+}
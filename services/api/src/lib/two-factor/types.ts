@@ -0,0 +1,132 @@
+/**
+ * Two-Factor Types
+ * TOTP / SMS OTP enrollment, recovery codes and step-up verification
+ */
+
+import type { StepUpAction, TwoFactorMethod } from "@prisma/client";
+
+/**
+ * RFC 6238 parameters - the defaults every authenticator app assumes
+ */
+export const TOTP_PERIOD_SECONDS = 30;
+export const TOTP_DIGITS = 6;
+
+/**
+ * Codes one step either side of now are accepted to allow for clock drift
+ */
+export const TOTP_DRIFT_STEPS = 1;
+
+export const TOTP_ISSUER = "Vlossom";
+
+/**
+ * SMS codes and pending sign-ins expire after this long
+ */
+export const SMS_CODE_TTL_MINUTES = 10;
+export const LOGIN_CHALLENGE_TTL_MINUTES = 10;
+
+/**
+ * A verified step-up token is good for one action within this window
+ */
+export const STEP_UP_TOKEN_TTL_MINUTES = 5;
+
+/**
+ * Wrong codes allowed per challenge before it is locked
+ */
+export const MAX_CHALLENGE_ATTEMPTS = 5;
+
+export const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * Default transfer amount (USDC, 6 decimals) at or above which step-up is
+ * needed - matches the TwoFactorSettings column default
+ */
+export const DEFAULT_TRANSFER_STEP_UP_THRESHOLD = 100_000_000n;
+
+/**
+ * Header the client sends the step-up token in
+ */
+export const STEP_UP_HEADER = "x-step-up-token";
+
+/**
+ * How the user proves it's them for step-up. PASSWORD is the fallback for
+ * accounts without 2FA.
+ */
+export type StepUpMethod = TwoFactorMethod | "PASSWORD";
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  method: TwoFactorMethod | null;
+  phone: string | null;
+  enabledAt: Date | null;
+  recoveryCodesRemaining: number;
+  transferStepUpThreshold: string;
+  required: boolean;
+}
+
+export interface TotpEnrollment {
+  secret: string;
+  otpauthUrl: string;
+}
+
+export interface SmsEnrollment {
+  phone: string;
+  expiresAt: Date;
+}
+
+/**
+ * The code a user submits - one of them
+ */
+export interface TwoFactorCodeInput {
+  code?: string;
+  recoveryCode?: string;
+}
+
+export interface StepUpVerifyInput extends TwoFactorCodeInput {
+  password?: string;
+}
+
+export interface LoginChallenge {
+  challengeToken: string;
+  method: TwoFactorMethod;
+  expiresAt: Date;
+}
+
+/**
+ * action is null when re-verifying to disable 2FA or replace recovery codes
+ */
+export interface StepUpChallenge {
+  action: StepUpAction | null;
+  method: StepUpMethod;
+  expiresAt: Date | null;
+}
+
+export interface StepUpToken {
+  stepUpToken: string;
+  action: StepUpAction;
+  expiresAt: Date;
+}
+
+/**
+ * Request context stored on challenges and written to the audit log
+ */
+export interface TwoFactorContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export type TwoFactorSecurityNotice =
+  | "TWO_FACTOR_ENABLED"
+  | "TWO_FACTOR_DISABLED"
+  | "RECOVERY_CODE_USED"
+  | "RECOVERY_CODES_REGENERATED";
+
+/**
+ * Result of a two-factor operation.
+ * `error` is an ERROR_CODES key so routes can map it directly.
+ */
+export interface TwoFactorResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  details?: Record<string, unknown>;
+}
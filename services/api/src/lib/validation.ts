@@ -27,6 +27,23 @@ export const displayNameSchema = z.string()
 
 export type DisplayName = z.infer<typeof displayNameSchema>;
 
+/**
+ * Stylist change to a booking line item before payment
+ */
+export const lineItemAdjustmentSchema = z.object({
+  id: z.string().uuid(),
+  durationMin: z.number().int().min(15).max(12 * 60).optional(),
+  priceAmountCents: z.number().int().positive().optional(),
+  remove: z.boolean().optional(),
+});
+
+export const adjustLineItemsSchema = z.object({
+  lineItems: z.array(lineItemAdjustmentSchema).min(1).max(10),
+  notes: z.string().max(500).optional(),
+});
+
+export type AdjustLineItemsInput = z.infer<typeof adjustLineItemsSchema>;
+
 /**
  * Validation for creating a new booking
  *
@@ -37,13 +54,29 @@ export type DisplayName = z.infer<typeof displayNameSchema>;
 export const createBookingSchema = z.object({
   // M-6: customerId removed - derived from JWT token
   stylistId: z.string().uuid(),
-  serviceId: z.string().uuid(),
+  // Single-service booking, or the line items below for several services/people
+  serviceId: z.string().uuid().optional(),
+  lineItems: z
+    .array(
+      z.object({
+        serviceId: z.string().uuid(),
+        participantName: z.string().max(80).optional(),
+      })
+    )
+    .min(1)
+    .max(10)
+    .optional(),
   scheduledStartTime: z.coerce.date(),
   locationType: z.enum(["STYLIST_BASE", "CUSTOMER_HOME"]),
   locationAddress: z.string().min(1),
   locationLat: latitudeSchema.optional(),
   locationLng: longitudeSchema.optional(),
   notes: z.string().optional(),
+  // Salon chair for FIXED/HYBRID stylists working at a partner property
+  chairId: z.string().uuid().optional(),
+}).refine((data) => data.serviceId || data.lineItems, {
+  message: "Provide a serviceId or lineItems",
+  path: ["serviceId"],
 });
 
 export type CreateBookingInput = z.infer<typeof createBookingSchema>;
@@ -54,6 +87,8 @@ export type CreateBookingInput = z.infer<typeof createBookingSchema>;
 export const approveBookingSchema = z.object({
   stylistId: z.string().uuid(),
   notes: z.string().optional(),
+  // Optional line item changes applied before approving
+  lineItems: z.array(lineItemAdjustmentSchema).max(10).optional(),
 });
 
 export type ApproveBookingInput = z.infer<typeof approveBookingSchema>;
@@ -85,6 +120,7 @@ export const completeServiceSchema = z.object({
   stylistId: z.string().uuid(),
   actualEndTime: z.coerce.date().optional(), // Defaults to now if not provided
   notes: z.string().optional(),
+  instantPayout: z.boolean().optional().default(false), // Pay out now from the smoothing buffer
 });
 
 export type CompleteServiceInput = z.infer<typeof completeServiceSchema>;
@@ -110,6 +146,35 @@ export const cancelBookingSchema = z.object({
 
 export type CancelBookingInput = z.infer<typeof cancelBookingSchema>;
 
+/**
+ * Validation for proposing new times for a booking
+ */
+export const proposeRescheduleSchema = z.object({
+  startTimes: z.array(z.string().datetime().transform((s) => new Date(s))).min(1).max(5),
+  reason: z.string().max(500).optional(),
+});
+
+export type ProposeRescheduleRequest = z.infer<typeof proposeRescheduleSchema>;
+
+/**
+ * Validation for accepting a reschedule proposal
+ */
+export const acceptRescheduleSchema = z.object({
+  startTime: z.string().datetime().transform((s) => new Date(s)),
+  note: z.string().max(500).optional(),
+});
+
+export type AcceptRescheduleRequest = z.infer<typeof acceptRescheduleSchema>;
+
+/**
+ * Validation for rejecting a reschedule proposal
+ */
+export const rejectRescheduleSchema = z.object({
+  note: z.string().max(500).optional(),
+});
+
+export type RejectRescheduleRequest = z.infer<typeof rejectRescheduleSchema>;
+
 // ============================================================================
 // VALID ENUM VALUES FOR QUERY SANITIZATION
 // ============================================================================
@@ -188,9 +253,27 @@ export const searchStylistsSchema = z.object({
   minPrice: z.coerce.number().int().min(0).optional(), // Min service price (cents)
   maxPrice: z.coerce.number().int().positive().optional(), // Max service price (cents)
   operatingMode: z.enum(VALID_OPERATING_MODES).optional(),
-  sortBy: z.enum(["price_asc", "price_desc", "distance", "newest"]).optional(),
+  sortBy: z.enum(["relevance", "price_asc", "price_desc", "distance", "newest"]).optional().default("relevance"),
   availability: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(), // ISO date - filter by available on date
-});
+
+  // Availability window on that date (UTC, HH:mm) - a matching service must fit in it
+  availableFrom: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/).optional(),
+  availableTo: z.string().regex(/^(([01]\d|2[0-3]):[0-5]\d|24:00)$/).optional(),
+  minReputation: z.coerce.number().min(0).max(100).optional(), // Reputation score 0-100
+  cursor: z.string().max(200).optional(), // From pagination.nextCursor - takes precedence over page
+})
+  .refine((input) => (input.lat === undefined) === (input.lng === undefined), {
+    message: "lat and lng must be provided together",
+    path: ["lng"],
+  })
+  .refine((input) => input.sortBy !== "distance" || input.lat !== undefined, {
+    message: "Sorting by distance requires lat and lng",
+    path: ["sortBy"],
+  })
+  .refine((input) => input.availability !== undefined || (!input.availableFrom && !input.availableTo), {
+    message: "availableFrom and availableTo require an availability date",
+    path: ["availability"],
+  });
 
 /**
  * Validation for property search (H-3: Input sanitization)
@@ -0,0 +1,17 @@
+/**
+ * Waitlist Module
+ * Unified exports for the stylist waitlist and slot offers
+ * Reference: docs/vlossom/07-booking-and-approval-flow.md
+ */
+
+export * from "./types";
+export { validateWaitlistRange, getOfferExpiry, orderWaitlistCandidates } from "./offer-window";
+export {
+  joinWaitlist,
+  listWaitlistForUser,
+  leaveWaitlist,
+  releaseSlotToWaitlist,
+  acceptWaitlistOffer,
+  declineWaitlistOffer,
+  expireWaitlistOffer,
+} from "./waitlist-service";
@@ -0,0 +1,74 @@
+import { getOfferExpiry, orderWaitlistCandidates, validateWaitlistRange } from './offer-window';
+import { WAITLIST_LIMITS, WAITLIST_MIN_LEAD_MINUTES, WAITLIST_OFFER_TTL_MINUTES } from './types';
+
+describe('Waitlist Offer Window', () => {
+  const now = new Date('2026-03-10T12:00:00Z');
+  const minute = 60 * 1000;
+  const day = 24 * 60 * minute;
+
+  describe('validateWaitlistRange', () => {
+    it('should accept a future range within the limit', () => {
+      expect(
+        validateWaitlistRange(new Date('2026-03-12T00:00:00Z'), new Date('2026-03-20T00:00:00Z'), now)
+      ).toBeNull();
+    });
+
+    it('should reject an inverted or empty range', () => {
+      const date = new Date('2026-03-12T00:00:00Z');
+      expect(validateWaitlistRange(date, date, now)).toMatch(/after earliestDate/);
+      expect(validateWaitlistRange(date, new Date('2026-03-11T00:00:00Z'), now)).toMatch(/after earliestDate/);
+    });
+
+    it('should reject a range that has already ended', () => {
+      expect(
+        validateWaitlistRange(new Date('2026-03-01T00:00:00Z'), new Date('2026-03-05T00:00:00Z'), now)
+      ).toMatch(/in the future/);
+    });
+
+    it('should reject a range that is too wide', () => {
+      const earliest = new Date('2026-03-11T00:00:00Z');
+      const latest = new Date(earliest.getTime() + (WAITLIST_LIMITS.MAX_RANGE_DAYS + 1) * day);
+      expect(validateWaitlistRange(earliest, latest, now)).toMatch(/at most/);
+    });
+  });
+
+  describe('getOfferExpiry', () => {
+    it('should give the full TTL when the slot is far away', () => {
+      const slotStart = new Date(now.getTime() + 3 * day);
+      expect(getOfferExpiry(slotStart, now)?.getTime()).toBe(now.getTime() + WAITLIST_OFFER_TTL_MINUTES * minute);
+    });
+
+    it('should expire before the lead time when the slot is close', () => {
+      const slotStart = new Date(now.getTime() + (WAITLIST_MIN_LEAD_MINUTES + 10) * minute);
+      expect(getOfferExpiry(slotStart, now)?.getTime()).toBe(now.getTime() + 10 * minute);
+    });
+
+    it('should not offer slots inside the lead time', () => {
+      const slotStart = new Date(now.getTime() + WAITLIST_MIN_LEAD_MINUTES * minute);
+      expect(getOfferExpiry(slotStart, now)).toBeNull();
+    });
+  });
+
+  describe('orderWaitlistCandidates', () => {
+    const entry = (id: string, customerId: string, joinedMinutesAgo: number) => ({
+      id,
+      customerId,
+      createdAt: new Date(now.getTime() - joinedMinutesAgo * minute),
+    });
+
+    it('should keep join order when nobody has priority', () => {
+      const entries = [entry('b', 'c2', 10), entry('a', 'c1', 30)];
+      expect(orderWaitlistCandidates(entries, new Set()).map((e) => e.id)).toEqual(['a', 'b']);
+    });
+
+    it('should put priority customers first, each group in join order', () => {
+      const entries = [entry('a', 'c1', 40), entry('b', 'gold', 20), entry('c', 'c3', 30), entry('d', 'silver', 10)];
+      expect(orderWaitlistCandidates(entries, new Set(['gold', 'silver'])).map((e) => e.id)).toEqual([
+        'b',
+        'd',
+        'a',
+        'c',
+      ]);
+    });
+  });
+});
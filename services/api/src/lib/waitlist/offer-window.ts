@@ -0,0 +1,63 @@
+/**
+ * Waitlist offer timing and order
+ * Pure helpers - no database access
+ */
+
+import { WAITLIST_LIMITS, WAITLIST_MIN_LEAD_MINUTES, WAITLIST_OFFER_TTL_MINUTES } from "./types";
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * Validate an entry's date range. Returns an error message or null.
+ */
+export function validateWaitlistRange(
+  earliestDate: Date,
+  latestDate: Date,
+  now: Date = new Date()
+): string | null {
+  if (latestDate <= earliestDate) {
+    return "latestDate must be after earliestDate";
+  }
+
+  if (latestDate <= now) {
+    return "latestDate must be in the future";
+  }
+
+  if (latestDate.getTime() - earliestDate.getTime() > WAITLIST_LIMITS.MAX_RANGE_DAYS * DAY_MS) {
+    return `The date range can cover at most ${WAITLIST_LIMITS.MAX_RANGE_DAYS} days`;
+  }
+
+  return null;
+}
+
+/**
+ * When an offer made now for a slot should expire: after the TTL, but never
+ * later than the lead time before the slot. Null when the slot is too soon
+ * to offer at all.
+ */
+export function getOfferExpiry(slotStart: Date, now: Date = new Date()): Date | null {
+  const latest = slotStart.getTime() - WAITLIST_MIN_LEAD_MINUTES * MINUTE_MS;
+
+  if (latest <= now.getTime()) {
+    return null;
+  }
+
+  return new Date(Math.min(now.getTime() + WAITLIST_OFFER_TTL_MINUTES * MINUTE_MS, latest));
+}
+
+/**
+ * Order entries for an offer round: customers whose reward tier has priority
+ * booking first, each group in join order
+ */
+export function orderWaitlistCandidates<T extends { customerId: string; createdAt: Date }>(
+  entries: T[],
+  priorityCustomerIds: Set<string>
+): T[] {
+  const byJoinOrder = [...entries].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+  return [
+    ...byJoinOrder.filter((entry) => priorityCustomerIds.has(entry.customerId)),
+    ...byJoinOrder.filter((entry) => !priorityCustomerIds.has(entry.customerId)),
+  ];
+}
@@ -0,0 +1,53 @@
+/**
+ * Waitlist Types
+ * Customers waiting for a slot with a fully booked stylist
+ * Reference: docs/vlossom/07-booking-and-approval-flow.md
+ */
+
+/**
+ * Limits on waitlist entries
+ */
+export const WAITLIST_LIMITS = {
+  MAX_RANGE_DAYS: 60, // Widest date range for one entry
+  MAX_ACTIVE_ENTRIES: 10, // Per customer
+} as const;
+
+/**
+ * How long a customer has to accept an offer
+ */
+export const WAITLIST_OFFER_TTL_MINUTES = 30;
+
+/**
+ * Entries offered a freed slot at once. The first to accept gets it.
+ */
+export const WAITLIST_OFFER_BATCH_SIZE = 3;
+
+/**
+ * Slots starting sooner than this are not offered, and offers always
+ * expire at least this long before the slot starts
+ */
+export const WAITLIST_MIN_LEAD_MINUTES = 120;
+
+export interface JoinWaitlistInput {
+  customerId: string;
+  stylistId: string;
+  serviceId: string;
+  earliestDate: Date;
+  latestDate: Date;
+  locationType: "STYLIST_BASE" | "CUSTOMER_HOME";
+  locationAddress: string;
+  locationLat?: number;
+  locationLng?: number;
+  notes?: string;
+}
+
+/**
+ * Result of a waitlist operation.
+ * `error` is an ERROR_CODES key so routes can map it directly.
+ */
+export interface WaitlistResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  details?: Record<string, unknown>;
+}
@@ -0,0 +1,157 @@
+/**
+ * Waitlist Service Tests
+ *
+ * Accepting an offer claims the slot and books it at the customer's price.
+ * Prisma, scheduling and rewards are mocked.
+ */
+
+const mockTx = {
+  waitlistOffer: { updateMany: jest.fn() },
+  waitlistSlot: { updateMany: jest.fn(), update: jest.fn() },
+  waitlistEntry: { update: jest.fn() },
+  booking: { create: jest.fn() },
+  bookingStatusHistory: { create: jest.fn() },
+};
+
+const mockPrisma = {
+  waitlistOffer: { findUnique: jest.fn() },
+  stylistService: { findUnique: jest.fn() },
+  user: { findUnique: jest.fn() },
+  $transaction: jest.fn((fn: (tx: typeof mockTx) => Promise<unknown>) => fn(mockTx)),
+};
+
+jest.mock('../prisma', () => ({
+  __esModule: true,
+  prisma: mockPrisma,
+  default: mockPrisma,
+}));
+
+jest.mock('../notifications', () => ({
+  notifyBookingEvent: jest.fn(() => Promise.resolve()),
+}));
+
+jest.mock('../scheduling', () => ({
+  checkAvailability: jest.fn(),
+}));
+
+jest.mock('../rewards', () => ({
+  getFeeDiscountPercentage: jest.fn(() => Promise.resolve(10)),
+  getPriorityBookingUserIds: jest.fn(() => Promise.resolve(new Set())),
+}));
+
+import { checkAvailability } from '../scheduling';
+import { acceptWaitlistOffer } from './waitlist-service';
+
+const HOUR = 60 * 60 * 1000;
+
+const slotStart = new Date(Date.now() + 48 * HOUR);
+
+function makeOffer(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'offer-1',
+    slotId: 'slot-1',
+    status: 'PENDING',
+    expiresAt: new Date(Date.now() + HOUR),
+    entry: {
+      id: 'entry-1',
+      customerId: 'customer-1',
+      stylistId: 'stylist-1',
+      serviceId: 'service-1',
+      locationType: 'STYLIST_BASE',
+      locationAddress: '12 Long Street',
+      locationLat: null,
+      locationLng: null,
+    },
+    slot: { id: 'slot-1', status: 'OPEN', startTime: slotStart },
+    ...overrides,
+  };
+}
+
+describe('acceptWaitlistOffer', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.waitlistOffer.findUnique.mockResolvedValue(makeOffer());
+    mockPrisma.stylistService.findUnique.mockResolvedValue({
+      id: 'service-1',
+      name: 'Knotless braids',
+      category: 'BRAIDS',
+      estimatedDurationMin: 240,
+      priceAmountCents: 20_000n,
+      depositPercentage: 25,
+      balanceDueOn: 'ON_COMPLETE',
+      isActive: true,
+      cancellationPolicy: null,
+      stylist: { isAcceptingBookings: true, cancellationPolicy: null },
+    });
+    mockPrisma.user.findUnique.mockResolvedValue({ displayName: 'Customer' });
+    (checkAvailability as jest.Mock).mockResolvedValue({ available: true, conflicts: [], suggestedAlternatives: [] });
+    mockTx.waitlistOffer.updateMany.mockResolvedValue({ count: 1 });
+    mockTx.waitlistSlot.updateMany.mockResolvedValue({ count: 1 });
+    mockTx.booking.create.mockResolvedValue({ id: 'booking-1' });
+  });
+
+  it('should book the slot at the discounted price with the service deposit', async () => {
+    const result = await acceptWaitlistOffer('offer-1', 'customer-1');
+
+    expect(result).toEqual({ success: true, data: { bookingId: 'booking-1' } });
+    // $20 fee less the 10% tier discount, 25% of the $198 quote up front
+    expect(mockTx.booking.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        customerId: 'customer-1',
+        scheduledStartTime: slotStart,
+        quoteAmountCents: 19_800n,
+        platformFeeCents: 1_800n,
+        stylistPayoutCents: 18_000n,
+        feeDiscountPercentage: 10,
+        feeDiscountCents: 200n,
+        depositAmountCents: 4_950n,
+        balanceAmountCents: 14_850n,
+        status: 'PENDING_STYLIST_APPROVAL',
+        lineItems: { create: [expect.objectContaining({ serviceId: 'service-1', priceAmountCents: 20_000n })] },
+      }),
+    });
+    expect(mockTx.waitlistOffer.updateMany).toHaveBeenCalledWith({
+      where: { slotId: 'slot-1', status: 'PENDING' },
+      data: { status: 'SUPERSEDED' },
+    });
+  });
+
+  it('should not book a slot another customer claimed first', async () => {
+    mockTx.waitlistSlot.updateMany.mockResolvedValue({ count: 0 });
+
+    const result = await acceptWaitlistOffer('offer-1', 'customer-1');
+
+    expect(result).toEqual({ success: false, error: 'WAITLIST_SLOT_TAKEN' });
+    expect(mockTx.booking.create).not.toHaveBeenCalled();
+  });
+
+  it('should not book an offer that expired while accepting', async () => {
+    mockTx.waitlistOffer.updateMany.mockResolvedValue({ count: 0 });
+
+    const result = await acceptWaitlistOffer('offer-1', 'customer-1');
+
+    expect(result).toEqual({ success: false, error: 'WAITLIST_OFFER_EXPIRED' });
+    expect(mockTx.waitlistSlot.updateMany).not.toHaveBeenCalled();
+    expect(mockTx.booking.create).not.toHaveBeenCalled();
+  });
+
+  it("should not let another customer accept someone else's offer", async () => {
+    const result = await acceptWaitlistOffer('offer-1', 'customer-2');
+
+    expect(result).toEqual({ success: false, error: 'WAITLIST_OFFER_NOT_FOUND' });
+    expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+  });
+
+  it('should not book a slot the stylist can no longer fit', async () => {
+    (checkAvailability as jest.Mock).mockResolvedValue({
+      available: false,
+      conflicts: [{ type: 'BOOKING' }],
+      suggestedAlternatives: [],
+    });
+
+    const result = await acceptWaitlistOffer('offer-1', 'customer-1');
+
+    expect(result).toMatchObject({ success: false, error: 'SCHEDULING_CONFLICT' });
+    expect(mockPrisma.$transaction).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,604 @@
+/**
+ * Waitlist Service
+ * Offers slots freed by cancellations and declines to waiting customers
+ * Reference: docs/vlossom/07-booking-and-approval-flow.md
+ *
+ * Flow:
+ * 1. Customer joins a stylist's waitlist for a service and a date range
+ * 2. A booking in that range is cancelled or declined -> the freed time becomes
+ *    a WaitlistSlot and is offered to the next WAITLIST_OFFER_BATCH_SIZE
+ *    matching entries once checkAvailability confirms it fits their service.
+ *    Customers whose reward tier has priorityBooking go first, then join order.
+ * 3. The first customer to accept claims the slot and gets a booking in
+ *    PENDING_STYLIST_APPROVAL; the other offers are superseded
+ * 4. When every offer in a round is declined or expired (the scheduler expires
+ *    them), the next round goes out. Slots too close to their start are closed.
+ */
+
+import {
+  BookingStatus,
+  Prisma,
+  WaitlistEntryStatus,
+  WaitlistOfferStatus,
+  WaitlistSlotStatus,
+} from "@prisma/client";
+import prisma from "../prisma";
+import logger from "../logger";
+import { calculateBookingPricing } from "../pricing";
+import { calculateDepositSplit } from "../booking-deposit";
+import { buildLineItems } from "../booking-line-items";
+import { resolveCancellationPolicy, toCancellationPolicySnapshot } from "../cancellation-policy";
+import { checkAvailability, type Coordinates } from "../scheduling";
+import { notifyBookingEvent } from "../notifications";
+import { getFeeDiscountPercentage, getPriorityBookingUserIds } from "../rewards";
+import { getOfferExpiry, orderWaitlistCandidates, validateWaitlistRange } from "./offer-window";
+import {
+  WAITLIST_LIMITS,
+  WAITLIST_OFFER_BATCH_SIZE,
+  type JoinWaitlistInput,
+  type WaitlistResult,
+} from "./types";
+
+type WaitlistEntryRecord = Prisma.WaitlistEntryGetPayload<{
+  include: { service: true; offers: { include: { slot: true } } };
+}>;
+
+type OfferWithEntry = Prisma.WaitlistOfferGetPayload<{
+  include: { entry: true; slot: true };
+}>;
+
+// Entries checked against checkAvailability per round before giving up
+const CANDIDATE_SCAN_LIMIT = 25;
+
+/**
+ * Raised inside the accept transaction to roll back a lost race
+ */
+class WaitlistClaimError extends Error {
+  constructor(readonly code: "WAITLIST_SLOT_TAKEN" | "WAITLIST_OFFER_EXPIRED") {
+    super(code);
+  }
+}
+
+function toCoordinates(entry: { locationLat: number | null; locationLng: number | null }): Coordinates | undefined {
+  return entry.locationLat !== null && entry.locationLng !== null
+    ? { lat: entry.locationLat, lng: entry.locationLng }
+    : undefined;
+}
+
+/**
+ * Load an offer the customer can act on
+ */
+async function loadCustomerOffer(
+  offerId: string,
+  customerId: string
+): Promise<{ offer: OfferWithEntry } | { error: string }> {
+  const offer = await prisma.waitlistOffer.findUnique({
+    where: { id: offerId },
+    include: { entry: true, slot: true },
+  });
+
+  if (!offer || offer.entry.customerId !== customerId) {
+    return { error: "WAITLIST_OFFER_NOT_FOUND" };
+  }
+
+  if (offer.status !== WaitlistOfferStatus.PENDING || offer.expiresAt <= new Date()) {
+    return { error: "WAITLIST_OFFER_EXPIRED" };
+  }
+
+  return { offer };
+}
+
+/**
+ * Close a slot nobody can take
+ */
+async function closeSlot(slotId: string, reason: string): Promise<void> {
+  await prisma.waitlistSlot.updateMany({
+    where: { id: slotId, status: WaitlistSlotStatus.OPEN },
+    data: { status: WaitlistSlotStatus.CLOSED },
+  });
+
+  logger.info("[Waitlist] Slot closed", { slotId, reason });
+}
+
+/**
+ * Offer an open slot to the next matching entries, unless a round is still
+ * running. Returns the number of offers sent.
+ */
+async function offerNextRound(slotId: string): Promise<number> {
+  const slot = await prisma.waitlistSlot.findUnique({
+    where: { id: slotId },
+    include: { offers: { where: { status: WaitlistOfferStatus.PENDING }, select: { id: true } } },
+  });
+
+  if (!slot || slot.status !== WaitlistSlotStatus.OPEN || slot.offers.length > 0) {
+    return 0;
+  }
+
+  const expiresAt = getOfferExpiry(slot.startTime);
+  if (!expiresAt) {
+    await closeSlot(slot.id, "Too close to start");
+    return 0;
+  }
+
+  const stylist = await prisma.user.findUnique({
+    where: { id: slot.stylistId },
+    select: { displayName: true, stylistProfile: { select: { isAcceptingBookings: true } } },
+  });
+
+  if (!stylist?.stylistProfile?.isAcceptingBookings) {
+    await closeSlot(slot.id, "Stylist not accepting bookings");
+    return 0;
+  }
+
+  // Entries that want this time and aren't already holding an offer -
+  // priority booking customers first, then join order
+  const waiting = await prisma.waitlistEntry.findMany({
+    where: {
+      stylistId: slot.stylistId,
+      status: WaitlistEntryStatus.ACTIVE,
+      customerId: { not: slot.sourceCustomerId },
+      earliestDate: { lte: slot.startTime },
+      latestDate: { gte: slot.startTime },
+      service: { isActive: true },
+      offers: { none: { OR: [{ slotId: slot.id }, { status: WaitlistOfferStatus.PENDING }] } },
+    },
+    select: { id: true, customerId: true, createdAt: true },
+  });
+
+  const priorityCustomerIds = await getPriorityBookingUserIds([...new Set(waiting.map((entry) => entry.customerId))]);
+  const scanIds = orderWaitlistCandidates(waiting, priorityCustomerIds)
+    .slice(0, CANDIDATE_SCAN_LIMIT)
+    .map((entry) => entry.id);
+
+  const loaded = await prisma.waitlistEntry.findMany({
+    where: { id: { in: scanIds } },
+    include: { service: true },
+  });
+  const loadedById = new Map(loaded.map((entry) => [entry.id, entry]));
+  const candidates = scanIds.flatMap((id) => loadedById.get(id) ?? []);
+
+  const matched: typeof candidates = [];
+
+  for (const entry of candidates) {
+    const availability = await checkAvailability({
+      stylistId: slot.stylistId,
+      serviceId: entry.serviceId,
+      startTime: slot.startTime,
+      durationMinutes: entry.service.estimatedDurationMin,
+      locationType: entry.locationType,
+      customerCoords: toCoordinates(entry),
+    });
+
+    if (availability.available) {
+      matched.push(entry);
+      if (matched.length === WAITLIST_OFFER_BATCH_SIZE) break;
+    }
+  }
+
+  if (matched.length === 0) {
+    await closeSlot(slot.id, "No matching waitlist entries");
+    return 0;
+  }
+
+  // Only one caller may start the next round
+  const advanced = await prisma.waitlistSlot.updateMany({
+    where: { id: slot.id, status: WaitlistSlotStatus.OPEN, round: slot.round },
+    data: { round: { increment: 1 } },
+  });
+
+  if (advanced.count === 0) {
+    return 0;
+  }
+
+  const round = slot.round + 1;
+  await prisma.waitlistOffer.createMany({
+    data: matched.map((entry) => ({ entryId: entry.id, slotId: slot.id, round, expiresAt })),
+  });
+
+  const offers = await prisma.waitlistOffer.findMany({
+    where: { slotId: slot.id, round },
+    select: { id: true, entryId: true },
+  });
+
+  for (const entry of matched) {
+    notifyBookingEvent(entry.customerId, "WAITLIST_OFFER", {
+      offerId: offers.find((o) => o.entryId === entry.id)?.id,
+      waitlistEntryId: entry.id,
+      stylistName: stylist.displayName,
+      serviceType: entry.service.name,
+      scheduledTime: slot.startTime.toISOString(),
+      offerExpiresAt: expiresAt.toISOString(),
+    }).catch((err) => logger.error("Failed to send waitlist offer notification", { error: err }));
+  }
+
+  logger.info("[Waitlist] Offers sent", { slotId: slot.id, round, offers: matched.length });
+
+  return matched.length;
+}
+
+/**
+ * Join a stylist's waitlist for a service
+ */
+export async function joinWaitlist(
+  input: JoinWaitlistInput
+): Promise<WaitlistResult<{ entry: WaitlistEntryRecord }>> {
+  const rangeError = validateWaitlistRange(input.earliestDate, input.latestDate);
+  if (rangeError) {
+    return { success: false, error: "VALIDATION_ERROR", details: { message: rangeError } };
+  }
+
+  if (input.customerId === input.stylistId) {
+    return { success: false, error: "CANNOT_BOOK_OWN_SERVICE" };
+  }
+
+  const service = await prisma.stylistService.findUnique({
+    where: { id: input.serviceId },
+    include: { stylist: true },
+  });
+
+  if (!service || service.stylist.userId !== input.stylistId) {
+    return { success: false, error: "SERVICE_NOT_FOUND" };
+  }
+
+  if (!service.isActive) {
+    return { success: false, error: "SERVICE_INACTIVE" };
+  }
+
+  const activeEntries = await prisma.waitlistEntry.findMany({
+    where: { customerId: input.customerId, status: WaitlistEntryStatus.ACTIVE },
+    select: { stylistId: true, serviceId: true },
+  });
+
+  if (activeEntries.some((e) => e.stylistId === input.stylistId && e.serviceId === input.serviceId)) {
+    return { success: false, error: "WAITLIST_ALREADY_JOINED" };
+  }
+
+  if (activeEntries.length >= WAITLIST_LIMITS.MAX_ACTIVE_ENTRIES) {
+    return { success: false, error: "WAITLIST_LIMIT_REACHED" };
+  }
+
+  const entry = await prisma.waitlistEntry.create({
+    data: {
+      customerId: input.customerId,
+      stylistId: input.stylistId,
+      serviceId: input.serviceId,
+      earliestDate: input.earliestDate,
+      latestDate: input.latestDate,
+      locationType: input.locationType,
+      locationAddress: input.locationAddress,
+      locationLat: input.locationLat,
+      locationLng: input.locationLng,
+      notes: input.notes,
+    },
+    include: { service: true, offers: { include: { slot: true } } },
+  });
+
+  logger.info("[Waitlist] Entry created", { entryId: entry.id, stylistId: input.stylistId });
+
+  return { success: true, data: { entry } };
+}
+
+/**
+ * Waitlist entries the user is part of (as customer or stylist), with live offers
+ */
+export async function listWaitlistForUser(userId: string): Promise<WaitlistEntryRecord[]> {
+  return prisma.waitlistEntry.findMany({
+    where: {
+      OR: [{ customerId: userId }, { stylistId: userId }],
+      status: WaitlistEntryStatus.ACTIVE,
+    },
+    include: {
+      service: true,
+      offers: {
+        where: { status: WaitlistOfferStatus.PENDING },
+        include: { slot: true },
+      },
+    },
+    orderBy: { createdAt: "asc" },
+  });
+}
+
+/**
+ * Customer leaves the waitlist. Any live offer is declined and passed on.
+ */
+export async function leaveWaitlist(
+  entryId: string,
+  customerId: string
+): Promise<WaitlistResult<{ entryId: string }>> {
+  const entry = await prisma.waitlistEntry.findUnique({
+    where: { id: entryId },
+    include: { offers: { where: { status: WaitlistOfferStatus.PENDING } } },
+  });
+
+  if (!entry || entry.customerId !== customerId) {
+    return { success: false, error: "WAITLIST_ENTRY_NOT_FOUND" };
+  }
+
+  if (entry.status !== WaitlistEntryStatus.ACTIVE) {
+    return { success: false, error: "INVALID_STATUS", details: { message: "This waitlist entry is no longer active" } };
+  }
+
+  const now = new Date();
+
+  await prisma.$transaction([
+    prisma.waitlistEntry.update({
+      where: { id: entryId },
+      data: { status: WaitlistEntryStatus.CANCELLED },
+    }),
+    prisma.waitlistOffer.updateMany({
+      where: { entryId, status: WaitlistOfferStatus.PENDING },
+      data: { status: WaitlistOfferStatus.DECLINED, respondedAt: now },
+    }),
+  ]);
+
+  for (const offer of entry.offers) {
+    await offerNextRound(offer.slotId);
+  }
+
+  return { success: true, data: { entryId } };
+}
+
+/**
+ * Offer the time held by a cancelled or declined booking to the waitlist.
+ * Called fire-and-forget after the booking leaves the stylist's schedule.
+ */
+export async function releaseSlotToWaitlist(booking: {
+  id: string;
+  stylistId: string;
+  customerId: string;
+  scheduledStartTime: Date;
+  scheduledEndTime: Date;
+}): Promise<void> {
+  if (!getOfferExpiry(booking.scheduledStartTime)) {
+    return;
+  }
+
+  const waiting = await prisma.waitlistEntry.count({
+    where: {
+      stylistId: booking.stylistId,
+      status: WaitlistEntryStatus.ACTIVE,
+      earliestDate: { lte: booking.scheduledStartTime },
+      latestDate: { gte: booking.scheduledStartTime },
+    },
+  });
+
+  if (waiting === 0) {
+    return;
+  }
+
+  const slot = await prisma.waitlistSlot.upsert({
+    where: { sourceBookingId: booking.id },
+    create: {
+      stylistId: booking.stylistId,
+      sourceBookingId: booking.id,
+      sourceCustomerId: booking.customerId,
+      startTime: booking.scheduledStartTime,
+      endTime: booking.scheduledEndTime,
+    },
+    update: {},
+  });
+
+  logger.info("[Waitlist] Slot released", { slotId: slot.id, bookingId: booking.id });
+
+  await offerNextRound(slot.id);
+}
+
+/**
+ * Customer accepts an offer. The first acceptance claims the slot and
+ * creates a booking for the entry's service.
+ */
+export async function acceptWaitlistOffer(
+  offerId: string,
+  customerId: string
+): Promise<WaitlistResult<{ bookingId: string }>> {
+  const loaded = await loadCustomerOffer(offerId, customerId);
+  if ("error" in loaded) {
+    return { success: false, error: loaded.error };
+  }
+  const { offer } = loaded;
+  const { entry, slot } = offer;
+
+  if (slot.status !== WaitlistSlotStatus.OPEN) {
+    return { success: false, error: "WAITLIST_SLOT_TAKEN" };
+  }
+
+  const service = await prisma.stylistService.findUnique({
+    where: { id: entry.serviceId },
+    include: { stylist: true },
+  });
+
+  if (!service || !service.isActive) {
+    return { success: false, error: "SERVICE_INACTIVE" };
+  }
+
+  if (!service.stylist.isAcceptingBookings) {
+    return { success: false, error: "STYLIST_NOT_ACCEPTING" };
+  }
+
+  const availability = await checkAvailability({
+    stylistId: entry.stylistId,
+    serviceId: entry.serviceId,
+    startTime: slot.startTime,
+    durationMinutes: service.estimatedDurationMin,
+    locationType: entry.locationType,
+    customerCoords: toCoordinates(entry),
+  });
+
+  if (!availability.available) {
+    return {
+      success: false,
+      error: "SCHEDULING_CONFLICT",
+      details: { conflicts: availability.conflicts },
+    };
+  }
+
+  // Priced and governed like a one-off booking of the service
+  const lineItems = buildLineItems([{ serviceId: service.id }], [service]);
+  if (typeof lineItems === "string") {
+    return { success: false, error: "VALIDATION_ERROR", details: { message: lineItems } };
+  }
+  const feeDiscountPercentage = await getFeeDiscountPercentage(customerId);
+  const pricing = calculateBookingPricing(service.priceAmountCents, undefined, feeDiscountPercentage);
+  const depositSplit = calculateDepositSplit(pricing.quoteAmountCents, service.depositPercentage);
+  const now = new Date();
+
+  let bookingId: string;
+  try {
+    bookingId = await prisma.$transaction(async (tx) => {
+      const accepted = await tx.waitlistOffer.updateMany({
+        where: { id: offer.id, status: WaitlistOfferStatus.PENDING, expiresAt: { gt: now } },
+        data: { status: WaitlistOfferStatus.ACCEPTED, respondedAt: now },
+      });
+      if (accepted.count === 0) {
+        throw new WaitlistClaimError("WAITLIST_OFFER_EXPIRED");
+      }
+
+      // First to accept wins
+      const claimed = await tx.waitlistSlot.updateMany({
+        where: { id: slot.id, status: WaitlistSlotStatus.OPEN },
+        data: { status: WaitlistSlotStatus.FILLED },
+      });
+      if (claimed.count === 0) {
+        throw new WaitlistClaimError("WAITLIST_SLOT_TAKEN");
+      }
+
+      const booking = await tx.booking.create({
+        data: {
+          customerId,
+          stylistId: entry.stylistId,
+          serviceId: service.id,
+          serviceType: service.name,
+          serviceCategory: service.category,
+          estimatedDurationMin: service.estimatedDurationMin,
+          scheduledStartTime: slot.startTime,
+          scheduledEndTime: new Date(slot.startTime.getTime() + service.estimatedDurationMin * 60 * 1000),
+          locationType: entry.locationType,
+          locationAddress: entry.locationAddress,
+          locationLat: entry.locationLat,
+          locationLng: entry.locationLng,
+          quoteAmountCents: pricing.quoteAmountCents,
+          platformFeeCents: pricing.platformFeeCents,
+          stylistPayoutCents: pricing.stylistPayoutCents,
+          propertyPayoutCents: pricing.propertyPayoutCents,
+          feeDiscountPercentage,
+          feeDiscountCents: pricing.feeDiscountCents,
+          status: BookingStatus.PENDING_STYLIST_APPROVAL,
+          cancellationPolicy: toCancellationPolicySnapshot(resolveCancellationPolicy(service, service.stylist)),
+          ...(depositSplit && {
+            depositAmountCents: depositSplit.depositAmountCents,
+            balanceAmountCents: depositSplit.balanceAmountCents,
+            balanceDueOn: service.balanceDueOn,
+          }),
+          lineItems: {
+            create: lineItems,
+          },
+        },
+      });
+
+      await tx.bookingStatusHistory.create({
+        data: {
+          bookingId: booking.id,
+          fromStatus: null,
+          toStatus: BookingStatus.PENDING_STYLIST_APPROVAL,
+          changedBy: customerId,
+          reason: "Booked from waitlist",
+        },
+      });
+
+      await tx.waitlistSlot.update({
+        where: { id: slot.id },
+        data: { filledByBookingId: booking.id },
+      });
+
+      await tx.waitlistOffer.updateMany({
+        where: { slotId: slot.id, status: WaitlistOfferStatus.PENDING },
+        data: { status: WaitlistOfferStatus.SUPERSEDED },
+      });
+
+      await tx.waitlistEntry.update({
+        where: { id: entry.id },
+        data: { status: WaitlistEntryStatus.FULFILLED, bookingId: booking.id },
+      });
+
+      return booking.id;
+    });
+  } catch (error) {
+    if (error instanceof WaitlistClaimError) {
+      return { success: false, error: error.code };
+    }
+    throw error;
+  }
+
+  logger.info("[Waitlist] Offer accepted", { offerId, slotId: slot.id, bookingId });
+
+  const customer = await prisma.user.findUnique({
+    where: { id: customerId },
+    select: { displayName: true },
+  });
+
+  notifyBookingEvent(entry.stylistId, "BOOKING_CREATED", {
+    bookingId,
+    customerName: customer?.displayName,
+    serviceName: service.name,
+    scheduledTime: slot.startTime.toISOString(),
+  }).catch((err) => logger.error("Failed to send waitlist booking notification", { error: err }));
+
+  return { success: true, data: { bookingId } };
+}
+
+/**
+ * Customer passes on an offer but stays on the waitlist
+ */
+export async function declineWaitlistOffer(
+  offerId: string,
+  customerId: string
+): Promise<WaitlistResult<{ offerId: string }>> {
+  const loaded = await loadCustomerOffer(offerId, customerId);
+  if ("error" in loaded) {
+    return { success: false, error: loaded.error };
+  }
+
+  const declined = await prisma.waitlistOffer.updateMany({
+    where: { id: offerId, status: WaitlistOfferStatus.PENDING },
+    data: { status: WaitlistOfferStatus.DECLINED, respondedAt: new Date() },
+  });
+
+  if (declined.count === 0) {
+    return { success: false, error: "WAITLIST_OFFER_EXPIRED" };
+  }
+
+  await offerNextRound(loaded.offer.slotId);
+
+  return { success: true, data: { offerId } };
+}
+
+/**
+ * Expire an offer past its deadline and pass the slot on.
+ * Called by the scheduler via the internal API.
+ */
+export async function expireWaitlistOffer(
+  offerId: string
+): Promise<WaitlistResult<{ offerId: string; expired: boolean; offersSent: number }>> {
+  const offer = await prisma.waitlistOffer.findUnique({
+    where: { id: offerId },
+    select: { id: true, slotId: true },
+  });
+
+  if (!offer) {
+    return { success: false, error: "WAITLIST_OFFER_NOT_FOUND" };
+  }
+
+  const expired = await prisma.waitlistOffer.updateMany({
+    where: { id: offerId, status: WaitlistOfferStatus.PENDING, expiresAt: { lte: new Date() } },
+    data: { status: WaitlistOfferStatus.EXPIRED },
+  });
+
+  // Already answered or not due yet - nothing to do
+  if (expired.count === 0) {
+    return { success: true, data: { offerId, expired: false, offersSent: 0 } };
+  }
+
+  const offersSent = await offerNextRound(offer.slotId);
+
+  return { success: true, data: { offerId, expired: true, offersSent } };
+}
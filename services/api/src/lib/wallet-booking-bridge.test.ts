@@ -0,0 +1,116 @@
+/**
+ * Wallet-Booking Bridge Tests
+ *
+ * Payment instructions pick the escrow leg and key the customer locks next.
+ * The chain is mocked; escrow keys are hashed with the real viem.
+ */
+
+import { keccak256, toBytes } from 'viem';
+
+const mockPublicClient = {
+  readContract: jest.fn(),
+};
+
+const mockPrisma = {
+  booking: { findUnique: jest.fn() },
+};
+
+jest.mock('viem', () => ({
+  ...jest.requireActual('viem'),
+  createPublicClient: jest.fn(() => mockPublicClient),
+}));
+
+jest.mock('./wallet/chain-client', () => ({
+  CHAIN: { id: 31337, name: 'hardhat' },
+  RPC_URL: 'http://localhost:8545',
+}));
+
+jest.mock('./wallet/wallet-service', () => ({
+  getWallet: jest.fn(() => Promise.resolve({ address: '0x00000000000000000000000000000000000000cc' })),
+}));
+
+jest.mock('./prisma', () => ({
+  __esModule: true,
+  prisma: mockPrisma,
+  default: mockPrisma,
+}));
+
+import { getPaymentInstructions } from './wallet-booking-bridge';
+
+function makeBooking(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'booking-1',
+    status: 'PENDING_CUSTOMER_PAYMENT',
+    quoteAmountCents: 10_000n,
+    depositAmountCents: null,
+    balanceAmountCents: null,
+    balanceStatus: null,
+    ...overrides,
+  };
+}
+
+describe('getPaymentInstructions', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    // Plenty of USDC and allowance
+    mockPublicClient.readContract.mockResolvedValue(1_000_000_000n);
+  });
+
+  it('should lock the full quote under the booking id', async () => {
+    mockPrisma.booking.findUnique.mockResolvedValue(makeBooking());
+
+    const result = await getPaymentInstructions('customer-1', 'booking-1');
+
+    expect(result.instructions).toMatchObject({
+      leg: 'FULL',
+      amount: 10_000n,
+      escrowId: keccak256(toBytes('booking-1')),
+    });
+  });
+
+  it('should lock only the deposit under the booking id at confirmation', async () => {
+    mockPrisma.booking.findUnique.mockResolvedValue(
+      makeBooking({ depositAmountCents: 3_000n, balanceAmountCents: 7_000n, balanceStatus: 'NOT_DUE' })
+    );
+
+    const result = await getPaymentInstructions('customer-1', 'booking-1');
+
+    expect(result.instructions).toMatchObject({
+      leg: 'DEPOSIT',
+      amount: 3_000n,
+      escrowId: keccak256(toBytes('booking-1')),
+    });
+  });
+
+  it('should lock a due balance under its own escrow key', async () => {
+    mockPrisma.booking.findUnique.mockResolvedValue(
+      makeBooking({
+        status: 'IN_PROGRESS',
+        depositAmountCents: 3_000n,
+        balanceAmountCents: 7_000n,
+        balanceStatus: 'DUE',
+      })
+    );
+
+    const result = await getPaymentInstructions('customer-1', 'booking-1');
+
+    expect(result.instructions).toMatchObject({
+      leg: 'BALANCE',
+      amount: 7_000n,
+      escrowId: keccak256(toBytes('booking-1:balance')),
+    });
+    // The deposit leg already holds funds under the booking id
+    expect(result.instructions?.escrowId).not.toBe(keccak256(toBytes('booking-1')));
+  });
+
+  it('should check allowance and balance against the amount being locked', async () => {
+    mockPrisma.booking.findUnique.mockResolvedValue(
+      makeBooking({ depositAmountCents: 3_000n, balanceAmountCents: 7_000n, balanceStatus: 'DUE' })
+    );
+    mockPublicClient.readContract.mockResolvedValue(5_000n);
+
+    const result = await getPaymentInstructions('customer-1', 'booking-1');
+
+    expect(result.instructions).toMatchObject({ needsApproval: true, hasBalance: false });
+  });
+});
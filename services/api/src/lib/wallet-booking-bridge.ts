@@ -6,6 +6,9 @@
  * 2. Customer calls lockFunds on escrow contract
  * 3. Backend updates booking status to CONFIRMED
  *
+ * Deposit bookings lock the deposit in step 2 and lock the balance as a
+ * second escrow leg once it falls due (see booking-deposit.ts).
+ *
  * This module provides the integration layer between wallet operations
  * and booking state management.
  */
@@ -14,7 +17,8 @@ import { type Address, type Hash, createPublicClient, http, keccak256, toBytes }
 import { CHAIN, RPC_URL } from './wallet/chain-client';
 import { getWallet } from './wallet/wallet-service';
 import prisma from './prisma';
-import { BookingStatus } from '@prisma/client';
+import { BalanceStatus, BookingStatus } from '@prisma/client';
+import { type EscrowLeg, getBalanceEscrowKey, getUpfrontAmountCents, isDepositBooking } from './booking-deposit';
 
 // Contract addresses from environment
 const ESCROW_ADDRESS = process.env.ESCROW_ADDRESS as Address;
@@ -151,6 +155,47 @@ export async function verifyEscrowOnChain(bookingId: string): Promise<{
   }
 }
 
+/**
+ * Verify an escrow leg is locked on-chain with at least the expected amount
+ *
+ * @param escrowKey - Booking ID, or the balance leg key
+ * @param expectedCents - Amount the leg should hold, in cents
+ */
+async function verifyLockedLeg(escrowKey: string, expectedCents: bigint): Promise<{
+  success: boolean;
+  record?: EscrowRecord;
+  error?: string;
+}> {
+  const escrowVerification = await verifyEscrowOnChain(escrowKey);
+
+  if (!escrowVerification.success || !escrowVerification.record) {
+    return {
+      success: false,
+      error: escrowVerification.error || 'Escrow verification failed'
+    };
+  }
+
+  const record = escrowVerification.record;
+
+  // Verify escrow is in Locked status
+  if (record.status !== EscrowStatus.Locked) {
+    return {
+      success: false,
+      error: `Escrow is not locked. Status: ${EscrowStatus[record.status]}`
+    };
+  }
+
+  // Verify amount matches
+  const expectedAmount = expectedCents * BigInt(10_000); // Convert cents to USDC units
+  if (record.amount < expectedAmount) {
+    return {
+      success: false,
+      error: `Escrow amount insufficient. Expected: ${expectedAmount}, Got: ${record.amount}`
+    };
+  }
+
+  return { success: true, record };
+}
 
 /**
  * Check if customer has sufficient USDC balance for payment
@@ -319,35 +364,15 @@ export async function verifyAndConfirmPayment(
 
     let escrowRecord: EscrowRecord | undefined;
 
-    // Verify escrow state on-chain
+    // Verify escrow state on-chain (deposit bookings lock only the deposit here)
     if (!skipOnChainVerification) {
-      const escrowVerification = await verifyEscrowOnChain(bookingId);
-
-      if (!escrowVerification.success || !escrowVerification.record) {
-        return {
-          success: false,
-          error: escrowVerification.error || 'Escrow verification failed'
-        };
-      }
-
-      escrowRecord = escrowVerification.record;
+      const verification = await verifyLockedLeg(bookingId, getUpfrontAmountCents(booking));
 
-      // Verify escrow is in Locked status
-      if (escrowRecord.status !== EscrowStatus.Locked) {
-        return {
-          success: false,
-          error: `Escrow is not locked. Status: ${EscrowStatus[escrowRecord.status]}`
-        };
+      if (!verification.success || !verification.record) {
+        return { success: false, error: verification.error };
       }
 
-      // Verify amount matches
-      const expectedAmount = BigInt(booking.quoteAmountCents) * BigInt(10_000); // Convert cents to USDC units
-      if (escrowRecord.amount < expectedAmount) {
-        return {
-          success: false,
-          error: `Escrow amount insufficient. Expected: ${expectedAmount}, Got: ${escrowRecord.amount}`
-        };
-      }
+      escrowRecord = verification.record;
 
       console.log(`✓ On-chain escrow verified for booking ${bookingId}:`, {
         customer: escrowRecord.customer,
@@ -361,10 +386,16 @@ export async function verifyAndConfirmPayment(
       where: { id: bookingId },
       data: {
         status: BookingStatus.CONFIRMED,
+        // bytes32 escrow key - lets the indexer map escrow events back to this booking
+        escrowId: bookingIdToBytes32(bookingId),
+        escrowStatus: 'LOCKED',
+        ...(isDepositBooking(booking) && { balanceStatus: BalanceStatus.NOT_DUE }),
         ...(txHash && { escrowTxHash: txHash })
       }
     });
 
+    const paymentLabel = isDepositBooking(booking) ? 'Deposit' : 'Payment';
+
     // Log status change
     await prisma.bookingStatusHistory.create({
       data: {
@@ -373,8 +404,8 @@ export async function verifyAndConfirmPayment(
         toStatus: BookingStatus.CONFIRMED,
         changedBy: booking.customerId,
         reason: txHash
-          ? `Payment locked in escrow (tx: ${txHash})`
-          : 'Payment locked in escrow'
+          ? `${paymentLabel} locked in escrow (tx: ${txHash})`
+          : `${paymentLabel} locked in escrow`
       }
     });
 
@@ -390,11 +421,94 @@ export async function verifyAndConfirmPayment(
   }
 }
 
+/**
+ * Verify that the balance of a deposit booking was locked in escrow
+ *
+ * The balance is a second escrow leg keyed by getBalanceEscrowKey(bookingId).
+ * The booking status doesn't change - paying the balance unblocks /complete
+ * or /confirm (see validateBalanceForTransition).
+ *
+ * @param bookingId - Booking ID
+ * @param txHash - Optional transaction hash for the status history
+ * @param skipOnChainVerification - Skip on-chain verification (for testing/fallback)
+ */
+export async function verifyAndConfirmBalancePayment(
+  bookingId: string,
+  txHash?: Hash,
+  skipOnChainVerification = false
+): Promise<{
+  success: boolean;
+  error?: string;
+  escrowRecord?: EscrowRecord;
+}> {
+  try {
+    const booking = await prisma.booking.findUnique({
+      where: { id: bookingId }
+    });
+
+    if (!booking) {
+      return { success: false, error: 'Booking not found' };
+    }
+
+    if (booking.balanceStatus !== BalanceStatus.DUE || booking.balanceAmountCents === null) {
+      return {
+        success: false,
+        error: `Booking has no balance due, current: ${booking.balanceStatus ?? 'full payment'}`
+      };
+    }
+
+    const escrowKey = getBalanceEscrowKey(bookingId);
+    let escrowRecord: EscrowRecord | undefined;
+
+    if (!skipOnChainVerification) {
+      const verification = await verifyLockedLeg(escrowKey, booking.balanceAmountCents);
+
+      if (!verification.success || !verification.record) {
+        return { success: false, error: verification.error };
+      }
+
+      escrowRecord = verification.record;
+    }
+
+    await prisma.booking.update({
+      where: { id: bookingId },
+      data: {
+        balanceStatus: BalanceStatus.PAID,
+        balanceEscrowId: bookingIdToBytes32(escrowKey),
+        balanceEscrowStatus: 'LOCKED'
+      }
+    });
+
+    await prisma.bookingStatusHistory.create({
+      data: {
+        bookingId,
+        fromStatus: booking.status,
+        toStatus: booking.status,
+        changedBy: booking.customerId,
+        reason: txHash
+          ? `Balance locked in escrow (tx: ${txHash})`
+          : 'Balance locked in escrow'
+      }
+    });
+
+    console.log(`✓ Balance payment verified for booking ${bookingId}`);
+
+    return { success: true, escrowRecord };
+  } catch (error) {
+    console.error('Failed to verify balance payment:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    };
+  }
+}
+
 /**
  * Get payment instructions for customer
  *
  * Returns the information needed for customer to pay for a booking:
- * - Amount to pay
+ * - Amount to pay (the deposit or full quote, or the balance once it is due)
+ * - Escrow key to pass to lockFunds
  * - Escrow contract address
  * - USDC contract address
  * - Current approval status
@@ -406,7 +520,9 @@ export async function verifyAndConfirmPayment(
 export async function getPaymentInstructions(userId: string, bookingId: string): Promise<{
   success: boolean;
   instructions?: {
+    leg: EscrowLeg;
     amount: bigint;
+    escrowId: `0x${string}`;
     escrowAddress: Address;
     usdcAddress: Address;
     customerAddress: Address;
@@ -434,7 +550,12 @@ export async function getPaymentInstructions(userId: string, bookingId: string):
     }
 
     const customerAddress = wallet.address as Address;
-    const amount = BigInt(booking.quoteAmountCents);
+
+    // A due balance is paid into its own escrow leg
+    const payingBalance = booking.balanceStatus === BalanceStatus.DUE && booking.balanceAmountCents !== null;
+    const leg: EscrowLeg = payingBalance ? 'BALANCE' : isDepositBooking(booking) ? 'DEPOSIT' : 'FULL';
+    const amount = payingBalance ? booking.balanceAmountCents! : getUpfrontAmountCents(booking);
+    const escrowKey = payingBalance ? getBalanceEscrowKey(bookingId) : bookingId;
 
     // Check balance and allowance
     const balanceCheck = await checkCustomerBalance(customerAddress, amount);
@@ -443,7 +564,9 @@ export async function getPaymentInstructions(userId: string, bookingId: string):
     return {
       success: true,
       instructions: {
+        leg,
         amount,
+        escrowId: bookingIdToBytes32(escrowKey),
         escrowAddress: ESCROW_ADDRESS,
         usdcAddress: USDC_ADDRESS,
         customerAddress,
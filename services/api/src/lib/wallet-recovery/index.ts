@@ -0,0 +1,25 @@
+/**
+ * Wallet Recovery Module
+ * Unified exports for guardians and social recovery of VlossomAccount wallets
+ */
+
+export * from "./types";
+export {
+  checkGuardianChange,
+  checkRecoveryAction,
+  getGuardianAction,
+  getRecoveryOutcome,
+  isRecoveryRequestExpired,
+} from "./recovery-rules";
+export {
+  getGuardians,
+  addGuardian,
+  removeGuardian,
+  requestRecovery,
+  approveRecovery,
+  executeRecovery,
+  cancelRecovery,
+  listRecoveries,
+  getRecovery,
+  syncWalletRecoveries,
+} from "./recovery-service";
@@ -0,0 +1,85 @@
+/**
+ * Wallet Recovery Client
+ * Guardian and recovery calls on contracts/identity/VlossomAccount.sol
+ *
+ * Guardian changes and cancellation are onlyAccountOwner, so they run from
+ * the wallet itself (execute(wallet, 0, call)). Starting and approving a
+ * recovery must come from a guardian - Vlossom guardians send them from their
+ * own smart wallet. executeRecovery can be sent by anyone.
+ */
+
+import { encodeFunctionData, type Address, type Hex } from "viem";
+import { ACCOUNT_ABI, publicClient } from "../wallet";
+import { RECOVERY_DELAY_HOURS, type RecoveryChainState } from "./types";
+
+export function encodeAddGuardian(guardian: Address): Hex {
+  return encodeFunctionData({ abi: ACCOUNT_ABI, functionName: "addGuardian", args: [guardian] });
+}
+
+export function encodeRemoveGuardian(guardian: Address): Hex {
+  return encodeFunctionData({ abi: ACCOUNT_ABI, functionName: "removeGuardian", args: [guardian] });
+}
+
+export function encodeInitiateRecovery(newOwner: Address): Hex {
+  return encodeFunctionData({ abi: ACCOUNT_ABI, functionName: "initiateRecovery", args: [newOwner] });
+}
+
+export function encodeApproveRecovery(): Hex {
+  return encodeFunctionData({ abi: ACCOUNT_ABI, functionName: "approveRecovery" });
+}
+
+export function encodeExecuteRecovery(): Hex {
+  return encodeFunctionData({ abi: ACCOUNT_ABI, functionName: "executeRecovery" });
+}
+
+export function encodeCancelRecovery(): Hex {
+  return encodeFunctionData({ abi: ACCOUNT_ABI, functionName: "cancelRecovery" });
+}
+
+/**
+ * Read a wallet's owner, guardian count and active recovery
+ *
+ * @returns null when the wallet hasn't been deployed (it can't have guardians yet)
+ */
+export async function getRecoveryState(wallet: Address): Promise<RecoveryChainState | null> {
+  const code = await publicClient.getCode({ address: wallet });
+  if (!code || code === "0x") {
+    return null;
+  }
+
+  const [owner, guardianCount, recoveryNonce, request] = await Promise.all([
+    publicClient.readContract({ address: wallet, abi: ACCOUNT_ABI, functionName: "owner" }),
+    publicClient.readContract({ address: wallet, abi: ACCOUNT_ABI, functionName: "getGuardianCount" }),
+    publicClient.readContract({ address: wallet, abi: ACCOUNT_ABI, functionName: "getRecoveryNonce" }),
+    publicClient.readContract({ address: wallet, abi: ACCOUNT_ABI, functionName: "getRecoveryRequest" }),
+  ]);
+
+  const [newOwner, initiatedAt, approvalCount, isActive] = request;
+  const initiated = new Date(Number(initiatedAt) * 1000);
+
+  return {
+    owner,
+    guardianCount: Number(guardianCount),
+    recoveryNonce: Number(recoveryNonce),
+    request: isActive
+      ? {
+          newOwner,
+          initiatedAt: initiated,
+          executeAfter: new Date(initiated.getTime() + RECOVERY_DELAY_HOURS * 60 * 60 * 1000),
+          approvalCount: Number(approvalCount),
+        }
+      : null,
+  };
+}
+
+/**
+ * Whether a guardian has approved the wallet's active recovery
+ */
+export async function hasApprovedRecovery(wallet: Address, guardian: Address): Promise<boolean> {
+  return publicClient.readContract({
+    address: wallet,
+    abi: ACCOUNT_ABI,
+    functionName: "hasApprovedRecovery",
+    args: [guardian],
+  });
+}
@@ -0,0 +1,113 @@
+import {
+  checkGuardianChange,
+  checkRecoveryAction,
+  getGuardianAction,
+  getRecoveryOutcome,
+  isRecoveryRequestExpired,
+} from './recovery-rules';
+import type { Address } from 'viem';
+import type { RecoveryChainState } from './types';
+
+describe('Wallet Recovery Rules', () => {
+  const now = new Date('2026-11-10T12:00:00Z');
+  const wallet = '0x1111111111111111111111111111111111111111' as Address;
+  const relayer = '0x2222222222222222222222222222222222222222' as Address;
+  const newOwner = '0x3333333333333333333333333333333333333333' as Address;
+  const guardians: Address[] = [
+    '0x4444444444444444444444444444444444444444',
+    '0x5555555555555555555555555555555555555555',
+  ];
+
+  const idle: RecoveryChainState = { owner: relayer, guardianCount: 2, recoveryNonce: 3, request: null };
+
+  const active: RecoveryChainState = {
+    ...idle,
+    recoveryNonce: 4,
+    request: {
+      newOwner,
+      initiatedAt: new Date('2026-11-08T00:00:00Z'),
+      executeAfter: new Date('2026-11-10T00:00:00Z'),
+      approvalCount: 2,
+    },
+  };
+
+  const recovery = { newOwner, recoveryNonce: 4 };
+
+  describe('checkGuardianChange', () => {
+    const owned = { address: wallet, owner: relayer };
+
+    it('should not let the wallet or its owner guard itself', () => {
+      expect(checkGuardianChange('ADD', wallet, owned, [], false)).toBe('GUARDIAN_INVALID');
+      expect(checkGuardianChange('ADD', relayer, owned, [], false)).toBe('GUARDIAN_INVALID');
+      expect(checkGuardianChange('ADD', '0x0000000000000000000000000000000000000000', owned, [], false)).toBe(
+        'GUARDIAN_INVALID'
+      );
+    });
+
+    it('should reject duplicates and more than five guardians', () => {
+      expect(checkGuardianChange('ADD', guardians[0], owned, guardians, false)).toBe('GUARDIAN_ALREADY_EXISTS');
+
+      const full = ['0xa', '0xb', '0xc', '0xd', '0xe'];
+      expect(checkGuardianChange('ADD', guardians[0], owned, full, false)).toBe('GUARDIAN_LIMIT_REACHED');
+      expect(checkGuardianChange('ADD', guardians[0], owned, full.slice(1), false)).toBeNull();
+    });
+
+    it('should not remove guardians while a recovery is active', () => {
+      expect(checkGuardianChange('REMOVE', guardians[1], owned, guardians, true)).toBe('RECOVERY_IN_PROGRESS');
+      expect(checkGuardianChange('REMOVE', guardians[1], owned, guardians, false)).toBeNull();
+      expect(checkGuardianChange('REMOVE', newOwner, owned, guardians, false)).toBe('GUARDIAN_NOT_FOUND');
+    });
+  });
+
+  describe('getGuardianAction', () => {
+    it('should start the recovery with the first approval', () => {
+      expect(getGuardianAction(idle)).toBe('INITIATE');
+      expect(getGuardianAction(active)).toBe('APPROVE');
+    });
+  });
+
+  describe('checkRecoveryAction', () => {
+    it('should need two guardians to start', () => {
+      expect(checkRecoveryAction('INITIATE', recovery, idle, now)).toBeNull();
+      expect(checkRecoveryAction('INITIATE', recovery, { ...idle, guardianCount: 1 }, now)).toMatch(/at least 2/);
+    });
+
+    it('should not approve a different recovery', () => {
+      const other = { ...active, request: { ...active.request!, newOwner: guardians[0] } };
+
+      expect(checkRecoveryAction('APPROVE', recovery, active, now)).toBeNull();
+      expect(checkRecoveryAction('APPROVE', recovery, other, now)).toMatch(/different recovery/);
+    });
+
+    it('should wait for approvals and the time-lock before executing', () => {
+      const early = new Date('2026-11-09T23:59:59Z');
+      const oneApproval = { ...active, request: { ...active.request!, approvalCount: 1 } };
+
+      expect(checkRecoveryAction('EXECUTE', recovery, active, now)).toBeNull();
+      expect(checkRecoveryAction('EXECUTE', recovery, active, early)).toMatch(/time-lock/);
+      expect(checkRecoveryAction('EXECUTE', recovery, oneApproval, now)).toMatch(/1 more guardian/);
+    });
+  });
+
+  describe('getRecoveryOutcome', () => {
+    it('should stay open while the recovery is active under its nonce', () => {
+      expect(getRecoveryOutcome(recovery, active)).toBeNull();
+    });
+
+    it('should be executed once the new owner owns the wallet', () => {
+      expect(getRecoveryOutcome(recovery, { ...idle, owner: newOwner, recoveryNonce: 4 })).toBe('EXECUTED');
+    });
+
+    it('should be cancelled when the nonce moved on or nothing is active', () => {
+      expect(getRecoveryOutcome(recovery, { ...idle, recoveryNonce: 4 })).toBe('CANCELLED');
+      expect(getRecoveryOutcome(recovery, { ...active, recoveryNonce: 5 })).toBe('CANCELLED');
+    });
+  });
+
+  describe('isRecoveryRequestExpired', () => {
+    it('should expire requests not started within seven days', () => {
+      expect(isRecoveryRequestExpired(new Date('2026-11-03T11:59:59Z'), now)).toBe(true);
+      expect(isRecoveryRequestExpired(new Date('2026-11-03T12:00:00Z'), now)).toBe(false);
+    });
+  });
+});
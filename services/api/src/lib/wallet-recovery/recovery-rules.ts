@@ -0,0 +1,130 @@
+/**
+ * Wallet Recovery Rules
+ * Pure guardian and recovery checks for VlossomAccount
+ */
+
+import type { WalletRecoveryStatus } from "@prisma/client";
+import { zeroAddress } from "viem";
+import {
+  MAX_GUARDIANS,
+  MIN_RECOVERY_APPROVALS,
+  RECOVERY_REQUEST_TTL_DAYS,
+  type RecoveryAction,
+  type RecoveryChainState,
+} from "./types";
+
+function sameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Check adding or removing a guardian before sending it
+ *
+ * Mirrors VlossomAccount.addGuardian / removeGuardian so a doomed
+ * UserOperation isn't sent.
+ *
+ * @returns An ERROR_CODES key, or null when the change is allowed
+ */
+export function checkGuardianChange(
+  change: "ADD" | "REMOVE",
+  guardian: string,
+  wallet: { address: string; owner: string | null },
+  activeGuardians: string[],
+  recoveryActive: boolean
+): string | null {
+  const isGuardian = activeGuardians.some((address) => sameAddress(address, guardian));
+
+  if (change === "REMOVE") {
+    if (!isGuardian) return "GUARDIAN_NOT_FOUND";
+    // Otherwise an owner could strand a recovery by removing its approvers
+    return recoveryActive ? "RECOVERY_IN_PROGRESS" : null;
+  }
+
+  if (
+    sameAddress(guardian, zeroAddress) ||
+    sameAddress(guardian, wallet.address) ||
+    (wallet.owner !== null && sameAddress(guardian, wallet.owner))
+  ) {
+    return "GUARDIAN_INVALID";
+  }
+  if (isGuardian) return "GUARDIAN_ALREADY_EXISTS";
+  return activeGuardians.length >= MAX_GUARDIANS ? "GUARDIAN_LIMIT_REACHED" : null;
+}
+
+/**
+ * The call a guardian approving `newOwner` makes - the first approval starts
+ * the recovery (and the time-lock) on chain
+ */
+export function getGuardianAction(chain: RecoveryChainState): "INITIATE" | "APPROVE" {
+  return chain.request ? "APPROVE" : "INITIATE";
+}
+
+/**
+ * Check a recovery action against the wallet's state before sending it
+ *
+ * @returns Why the action isn't allowed, or null when it is
+ */
+export function checkRecoveryAction(
+  action: RecoveryAction,
+  recovery: { newOwner: string; recoveryNonce: number | null },
+  chain: RecoveryChainState,
+  now: Date = new Date()
+): string | null {
+  const request = chain.request;
+  const isOurs = request !== null && sameAddress(request.newOwner, recovery.newOwner);
+
+  switch (action) {
+    case "INITIATE":
+      if (request) return "A recovery is already active on this wallet";
+      if (sameAddress(recovery.newOwner, chain.owner)) return "The new owner already owns this wallet";
+      return chain.guardianCount < MIN_RECOVERY_APPROVALS
+        ? `The wallet needs at least ${MIN_RECOVERY_APPROVALS} guardians to be recovered`
+        : null;
+
+    case "APPROVE":
+      if (!request) return "No recovery is active on this wallet";
+      return isOurs ? null : "A different recovery is active on this wallet";
+
+    case "EXECUTE":
+      if (!request || !isOurs) return "This recovery is not active on chain";
+      if (request.approvalCount < MIN_RECOVERY_APPROVALS) {
+        return `${MIN_RECOVERY_APPROVALS - request.approvalCount} more guardian approval(s) needed`;
+      }
+      return now.getTime() >= request.executeAfter.getTime() ? null : "The recovery time-lock has not ended yet";
+
+    case "CANCEL":
+      return isOurs ? null : "This recovery is not active on chain";
+  }
+}
+
+/**
+ * How a started recovery ended, from the wallet's current state
+ *
+ * A recovery is ours while the chain nonce still matches the one recorded
+ * when it started. Once it doesn't, or nothing is active, either the owner
+ * rotated to our new owner (executed) or it was cancelled.
+ *
+ * @returns null while the recovery is still active
+ */
+export function getRecoveryOutcome(
+  recovery: { newOwner: string; recoveryNonce: number | null },
+  chain: RecoveryChainState
+): Extract<WalletRecoveryStatus, "EXECUTED" | "CANCELLED"> | null {
+  if (sameAddress(chain.owner, recovery.newOwner)) {
+    return "EXECUTED";
+  }
+
+  const stillActive =
+    chain.request !== null &&
+    sameAddress(chain.request.newOwner, recovery.newOwner) &&
+    (recovery.recoveryNonce === null || recovery.recoveryNonce === chain.recoveryNonce);
+
+  return stillActive ? null : "CANCELLED";
+}
+
+/**
+ * Whether a request no guardian has started should be dropped
+ */
+export function isRecoveryRequestExpired(createdAt: Date, now: Date = new Date()): boolean {
+  return now.getTime() - createdAt.getTime() > RECOVERY_REQUEST_TTL_DAYS * 24 * 60 * 60 * 1000;
+}
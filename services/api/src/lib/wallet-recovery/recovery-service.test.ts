@@ -0,0 +1,144 @@
+/**
+ * Wallet Recovery Service Tests
+ *
+ * Who may open and cancel a recovery. Chain calls, notifications and the
+ * audit log are mocked.
+ */
+
+const mockPrisma = {
+  wallet: { findFirst: jest.fn() },
+  walletRecovery: { findFirst: jest.fn(), findUnique: jest.fn(), create: jest.fn(), update: jest.fn() },
+  user: { findMany: jest.fn() },
+};
+
+jest.mock('../prisma', () => ({
+  __esModule: true,
+  prisma: mockPrisma,
+  default: mockPrisma,
+}));
+
+jest.mock('../wallet', () => ({
+  getWallet: jest.fn(() => Promise.resolve({ address: '0x00000000000000000000000000000000000000b2' })),
+}));
+
+jest.mock('../notifications', () => ({
+  sendNotification: jest.fn(() => Promise.resolve()),
+}));
+
+jest.mock('../audit', () => ({
+  AuditActions: { REQUEST_WALLET_RECOVERY: 'REQUEST_WALLET_RECOVERY', CANCEL_WALLET_RECOVERY: 'CANCEL_WALLET_RECOVERY' },
+  TargetTypes: { WALLET: 'WALLET' },
+  createAuditLog: jest.fn(() => Promise.resolve()),
+}));
+
+jest.mock('./recovery-client', () => ({
+  encodeInitiateRecovery: jest.fn(() => '0xinitiate'),
+  encodeApproveRecovery: jest.fn(() => '0xapprove'),
+}));
+
+import { cancelRecovery, requestRecovery } from './recovery-service';
+
+const WALLET_ADDRESS = '0x00000000000000000000000000000000000000a1';
+const actor = { userId: 'requester-1' };
+
+function makeWallet() {
+  return {
+    id: 'wallet-1',
+    userId: 'owner-1',
+    address: WALLET_ADDRESS,
+    recoveredAt: null,
+    guardians: [
+      { id: 'guardian-1', guardianUserId: 'guardian-user-1', status: 'ACTIVE' },
+      { id: 'guardian-2', guardianUserId: null, status: 'ACTIVE' },
+      { id: 'guardian-3', guardianUserId: 'former-guardian', status: 'REMOVED' },
+    ],
+  };
+}
+
+function makeRecovery(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'recovery-1',
+    walletId: 'wallet-1',
+    requesterId: 'requester-1',
+    newOwner: '0x00000000000000000000000000000000000000b2',
+    status: 'REQUESTED',
+    approvalCount: 0,
+    executeAfter: null,
+    approvals: [],
+    wallet: makeWallet(),
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe('Wallet Recovery Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.wallet.findFirst.mockResolvedValue(makeWallet());
+    mockPrisma.walletRecovery.findFirst.mockResolvedValue(null);
+    mockPrisma.walletRecovery.create.mockResolvedValue({ id: 'recovery-1' });
+    mockPrisma.walletRecovery.findUnique.mockResolvedValue(makeRecovery());
+    mockPrisma.user.findMany.mockResolvedValue([]);
+  });
+
+  describe('requestRecovery', () => {
+    it('should open a recovery and warn the owner', async () => {
+      const result = await requestRecovery('requester-1', { walletAddress: WALLET_ADDRESS }, actor);
+
+      expect(result.success).toBe(true);
+      expect(mockPrisma.walletRecovery.create).toHaveBeenCalled();
+    });
+
+    it('should refuse a requester the owner or a guardian already turned down', async () => {
+      mockPrisma.walletRecovery.findFirst.mockResolvedValueOnce(null).mockResolvedValueOnce({ id: 'recovery-0' });
+
+      const result = await requestRecovery('requester-1', { walletAddress: WALLET_ADDRESS }, actor);
+
+      expect(result).toMatchObject({ success: false, error: 'FORBIDDEN' });
+      expect(mockPrisma.walletRecovery.findFirst).toHaveBeenLastCalledWith({
+        where: {
+          walletId: 'wallet-1',
+          requesterId: 'requester-1',
+          status: 'CANCELLED',
+          cancelledBy: { not: 'requester-1' },
+        },
+        select: { id: true },
+      });
+      expect(mockPrisma.walletRecovery.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancelRecovery', () => {
+    it('should let a Vlossom guardian decline a request nobody has started', async () => {
+      const result = await cancelRecovery('recovery-1', 'guardian-user-1', { userId: 'guardian-user-1' });
+
+      expect(result.success).toBe(true);
+      expect(mockPrisma.walletRecovery.update).toHaveBeenCalledWith({
+        where: { id: 'recovery-1' },
+        data: expect.objectContaining({ status: 'CANCELLED', cancelledBy: 'guardian-user-1' }),
+      });
+    });
+
+    it('should leave a started recovery to the owner', async () => {
+      mockPrisma.walletRecovery.findUnique.mockResolvedValue(makeRecovery({ status: 'PENDING', approvalCount: 1 }));
+
+      const result = await cancelRecovery('recovery-1', 'guardian-user-1', { userId: 'guardian-user-1' });
+
+      expect(result).toMatchObject({ success: false, error: 'RECOVERY_ACTION_INVALID' });
+      expect(mockPrisma.walletRecovery.update).not.toHaveBeenCalled();
+    });
+
+    it('should not let a removed guardian decline', async () => {
+      const result = await cancelRecovery('recovery-1', 'former-guardian', { userId: 'former-guardian' });
+
+      expect(result).toEqual({ success: false, error: 'FORBIDDEN' });
+    });
+
+    it('should not let anyone else cancel', async () => {
+      const result = await cancelRecovery('recovery-1', 'someone-else', { userId: 'someone-else' });
+
+      expect(result).toEqual({ success: false, error: 'FORBIDDEN' });
+      expect(mockPrisma.walletRecovery.update).not.toHaveBeenCalled();
+    });
+  });
+});
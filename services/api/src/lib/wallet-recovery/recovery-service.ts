@@ -0,0 +1,1155 @@
+/**
+ * Wallet Recovery Service
+ * Guardians and guardian-approved owner rotation for VlossomAccount wallets
+ *
+ * Flow:
+ * 1. The owner nominates 2-5 guardians - other Vlossom users (their smart
+ *    wallet is registered) or external addresses. addGuardian runs from the
+ *    owner's wallet as a sponsored UserOperation
+ * 2. Someone who lost their login signs up again and asks for the old wallet,
+ *    naming the new owner (their new wallet by default). Vlossom guardians are
+ *    asked to approve and the current owner is warned so they can cancel.
+ *    Until a guardian starts it, any Vlossom guardian can decline the request
+ *    too, and a requester turned down that way can't ask for the wallet again
+ * 3. The first guardian approval calls initiateRecovery, later ones
+ *    approveRecovery - each from the guardian's wallet as a sponsored
+ *    UserOperation. External guardians send the same call themselves and the
+ *    sync job picks their approval up from the chain
+ * 4. After the 48h time-lock, with 2 approvals, executeRecovery rotates the
+ *    owner. When the new owner is the requester's wallet, the USDC is moved
+ *    across in the same UserOperation. The sync job executes ready recoveries
+ *
+ * Every step is written to the audit log against the recovered wallet.
+ */
+
+import { Prisma, type Wallet, type WalletGuardian } from "@prisma/client";
+import { encodeFunctionData, getAddress, isAddress, type Address, type Hash, type Hex } from "viem";
+import prisma from "../prisma";
+import { logger } from "../logger";
+import {
+  ERC20_ABI,
+  USDC_ADDRESS,
+  buildBatchExecuteCallData,
+  buildExecuteCallData,
+  checkWalletDeployed,
+  executeUserOp,
+  getBalance,
+  getRelayerAccount,
+  getWallet,
+  markWalletDeployed,
+  recordTransaction,
+} from "../wallet";
+import { sendNotification, type NotificationChannel, type NotificationMetadata } from "../notifications";
+import { AuditActions, TargetTypes, createAuditLog, type AuditAction } from "../audit";
+import {
+  encodeAddGuardian,
+  encodeApproveRecovery,
+  encodeCancelRecovery,
+  encodeExecuteRecovery,
+  encodeInitiateRecovery,
+  encodeRemoveGuardian,
+  getRecoveryState,
+  hasApprovedRecovery,
+} from "./recovery-client";
+import {
+  checkGuardianChange,
+  checkRecoveryAction,
+  getGuardianAction,
+  getRecoveryOutcome,
+  isRecoveryRequestExpired,
+} from "./recovery-rules";
+import {
+  MAX_GUARDIANS,
+  MAX_RECOVERY_SYNCS_PER_RUN,
+  MIN_RECOVERY_APPROVALS,
+  RECOVERY_DELAY_HOURS,
+  type GuardianView,
+  type RecoveryActionResult,
+  type RecoveryActor,
+  type RecoveryChainState,
+  type RecoverySyncResult,
+  type RecoveryView,
+  type WalletGuardiansView,
+  type WalletRecoveryNotice,
+  type WalletRecoveryResult,
+} from "./types";
+
+const SYSTEM_ACTOR: RecoveryActor = { userId: "system" };
+
+const OPEN_STATUSES = ["REQUESTED", "PENDING"] as const;
+
+const RECOVERY_INCLUDE = {
+  wallet: { include: { guardians: true } },
+  approvals: true,
+} satisfies Prisma.WalletRecoveryInclude;
+
+type RecoveryWithWallet = Prisma.WalletRecoveryGetPayload<{ include: typeof RECOVERY_INCLUDE }>;
+
+interface Call {
+  target: Address;
+  data: Hex;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function sameAddress(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+function activeGuardians(guardians: WalletGuardian[]): WalletGuardian[] {
+  return guardians.filter((guardian) => guardian.status === "ACTIVE");
+}
+
+/**
+ * Audit a step against the recovered wallet, best effort - the step itself
+ * has already happened on chain
+ */
+async function audit(
+  actor: RecoveryActor,
+  action: AuditAction,
+  walletId: string,
+  details: string,
+  metadata: Record<string, unknown>
+) {
+  try {
+    await createAuditLog({
+      adminId: actor.userId,
+      action,
+      targetType: TargetTypes.WALLET,
+      targetId: walletId,
+      details,
+      metadata,
+      ipAddress: actor.ipAddress,
+      userAgent: actor.userAgent,
+    });
+  } catch {
+    // createAuditLog already logged it
+  }
+}
+
+/**
+ * Tell someone about a guardian or recovery change, best effort
+ */
+async function notify(userId: string, notice: WalletRecoveryNotice, metadata: NotificationMetadata = {}) {
+  // Someone trying to take over the wallet is worth a text
+  const channels: NotificationChannel[] =
+    notice === "RECOVERY_REQUESTED" ? ["IN_APP", "EMAIL", "PUSH", "SMS"] : ["IN_APP", "EMAIL", "PUSH"];
+
+  try {
+    await sendNotification({
+      userId,
+      type: "WALLET_RECOVERY",
+      channels,
+      metadata: { ...metadata, recoveryNotice: notice, minApprovals: MIN_RECOVERY_APPROVALS },
+    });
+  } catch (error) {
+    logger.warn("Failed to send wallet recovery notification", {
+      userId,
+      notice,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+  }
+}
+
+async function getDisplayNames(userIds: (string | null)[]): Promise<Map<string, string>> {
+  const ids = [...new Set(userIds.filter((id): id is string => id !== null))];
+  if (ids.length === 0) {
+    return new Map();
+  }
+
+  const users = await prisma.user.findMany({
+    where: { id: { in: ids } },
+    select: { id: true, displayName: true },
+  });
+  return new Map(users.map((user) => [user.id, user.displayName]));
+}
+
+async function readChain(wallet: Pick<Wallet, "address">): Promise<WalletRecoveryResult<RecoveryChainState | null>> {
+  try {
+    return { success: true, data: await getRecoveryState(wallet.address as Address) };
+  } catch (error) {
+    logger.error("Failed to read wallet recovery state", {
+      wallet: wallet.address,
+      error: error instanceof Error ? error.message : "Unknown error",
+    });
+    return { success: false, error: "RECOVERY_CHAIN_UNAVAILABLE" };
+  }
+}
+
+/**
+ * Send calls from a Vlossom wallet as one sponsored UserOperation
+ */
+async function sendFromWallet(
+  wallet: Wallet,
+  calls: Call[]
+): Promise<{ success: boolean; txHash?: Hash; error?: string }> {
+  const callData =
+    calls.length === 1
+      ? buildExecuteCallData(calls[0].target, 0n, calls[0].data)
+      : buildBatchExecuteCallData(
+          calls.map((call) => call.target),
+          calls.map(() => 0n),
+          calls.map((call) => call.data)
+        );
+
+  const isDeployed = wallet.isDeployed || (await checkWalletDeployed(wallet.address));
+  const result = await executeUserOp({
+    sender: wallet.address as Address,
+    userId: wallet.userId,
+    callData,
+    isDeployed,
+  });
+
+  if (!result.success || !result.txHash) {
+    return { success: false, error: result.error || "UserOperation failed" };
+  }
+
+  if (!wallet.isDeployed) {
+    await markWalletDeployed(wallet.id);
+  }
+
+  return { success: true, txHash: result.txHash as Hash };
+}
+
+/**
+ * The caller's own wallet, while the relayer still owns it
+ */
+async function getOwnedWallet(userId: string): Promise<WalletRecoveryResult<Wallet>> {
+  const wallet = await getWallet(userId);
+  if (!wallet) {
+    return { success: false, error: "WALLET_NOT_FOUND" };
+  }
+  if (wallet.recoveredAt) {
+    return { success: false, error: "WALLET_RECOVERED", details: { recoveredTo: wallet.recoveredTo } };
+  }
+  return { success: true, data: wallet };
+}
+
+async function loadRecovery(recoveryId: string): Promise<RecoveryWithWallet | null> {
+  return prisma.walletRecovery.findUnique({ where: { id: recoveryId }, include: RECOVERY_INCLUDE });
+}
+
+function getRole(recovery: RecoveryWithWallet, userId: string): RecoveryView["role"] | null {
+  if (recovery.requesterId === userId) return "REQUESTER";
+  if (recovery.wallet.userId === userId) return "OWNER";
+  return recovery.wallet.guardians.some((guardian) => guardian.guardianUserId === userId) ? "GUARDIAN" : null;
+}
+
+async function toRecoveryView(recovery: RecoveryWithWallet, viewerId: string): Promise<RecoveryView> {
+  const approvedIds = new Set(recovery.approvals.map((approval) => approval.guardianId));
+  // Guardians removed since they approved still count on chain
+  const guardians = recovery.wallet.guardians.filter(
+    (guardian) => guardian.status === "ACTIVE" || approvedIds.has(guardian.id)
+  );
+  const names = await getDisplayNames(guardians.map((guardian) => guardian.guardianUserId));
+  const isOpen = recovery.status === "REQUESTED" || recovery.status === "PENDING";
+  const viewerGuardian = activeGuardians(recovery.wallet.guardians).find(
+    (guardian) => guardian.guardianUserId === viewerId
+  );
+
+  let guardianCallData: string | null = null;
+  if (recovery.status === "REQUESTED") {
+    guardianCallData = encodeInitiateRecovery(recovery.newOwner as Address);
+  } else if (recovery.status === "PENDING") {
+    guardianCallData = encodeApproveRecovery();
+  }
+
+  return {
+    id: recovery.id,
+    walletAddress: recovery.wallet.address,
+    requesterId: recovery.requesterId,
+    newOwner: recovery.newOwner,
+    status: recovery.status,
+    approvalCount: recovery.approvalCount,
+    minApprovals: MIN_RECOVERY_APPROVALS,
+    executeAfter: recovery.executeAfter,
+    guardians: guardians.map((guardian) => ({
+      id: guardian.id,
+      address: guardian.address,
+      label: guardian.label,
+      displayName: guardian.guardianUserId ? names.get(guardian.guardianUserId) ?? null : null,
+      approved: approvedIds.has(guardian.id),
+    })),
+    guardianCallData,
+    role: getRole(recovery, viewerId) ?? "REQUESTER",
+    canApprove: isOpen && viewerGuardian !== undefined && !approvedIds.has(viewerGuardian.id),
+    initiatedTxHash: recovery.initiatedTxHash,
+    executedTxHash: recovery.executedTxHash,
+    createdAt: recovery.createdAt,
+    executedAt: recovery.executedAt,
+    cancelledAt: recovery.cancelledAt,
+  };
+}
+
+async function getRecoveryNames(recovery: RecoveryWithWallet) {
+  const names = await getDisplayNames([recovery.wallet.userId, recovery.requesterId]);
+  return {
+    ownerName: names.get(recovery.wallet.userId),
+    requesterName: names.get(recovery.requesterId),
+  };
+}
+
+// ============================================================================
+// Guardians
+// ============================================================================
+
+/**
+ * The caller's guardians
+ */
+export async function getGuardians(userId: string): Promise<WalletRecoveryResult<WalletGuardiansView>> {
+  const wallet = await getWallet(userId);
+  if (!wallet) {
+    return { success: false, error: "WALLET_NOT_FOUND" };
+  }
+
+  const guardians = await prisma.walletGuardian.findMany({
+    where: { walletId: wallet.id, status: "ACTIVE" },
+    orderBy: { createdAt: "asc" },
+  });
+  const names = await getDisplayNames(guardians.map((guardian) => guardian.guardianUserId));
+
+  const views: GuardianView[] = guardians.map((guardian) => ({
+    id: guardian.id,
+    address: guardian.address,
+    label: guardian.label,
+    status: guardian.status,
+    guardian: guardian.guardianUserId
+      ? { id: guardian.guardianUserId, displayName: names.get(guardian.guardianUserId) ?? "Vlossom member" }
+      : null,
+    addedTxHash: guardian.addedTxHash,
+    createdAt: guardian.createdAt,
+  }));
+
+  return {
+    success: true,
+    data: {
+      walletAddress: wallet.address,
+      guardians: views,
+      maxGuardians: MAX_GUARDIANS,
+      minApprovals: MIN_RECOVERY_APPROVALS,
+      recoveryDelayHours: RECOVERY_DELAY_HOURS,
+      recoverable: views.length >= MIN_RECOVERY_APPROVALS,
+    },
+  };
+}
+
+/**
+ * Nominate a guardian - another Vlossom user (by id) or an external address
+ */
+export async function addGuardian(
+  userId: string,
+  input: { guardianUserId?: string; address?: string; label?: string },
+  actor: RecoveryActor
+): Promise<WalletRecoveryResult<GuardianView>> {
+  const owned = await getOwnedWallet(userId);
+  if (!owned.success || !owned.data) {
+    return { success: false, error: owned.error, details: owned.details };
+  }
+  const wallet = owned.data;
+
+  let address: Address;
+  let guardianUserId: string | null = null;
+
+  if (input.guardianUserId) {
+    if (input.guardianUserId === userId) {
+      return { success: false, error: "GUARDIAN_INVALID" };
+    }
+    const guardianWallet = await getWallet(input.guardianUserId);
+    if (!guardianWallet) {
+      return { success: false, error: "GUARDIAN_INVALID", details: { reason: "This member has no wallet yet" } };
+    }
+    address = getAddress(guardianWallet.address);
+    guardianUserId = input.guardianUserId;
+  } else if (input.address && isAddress(input.address)) {
+    address = getAddress(input.address);
+    // An address that is a Vlossom wallet gets the in-app approval flow
+    const known = await prisma.wallet.findFirst({
+      where: { address: { equals: address, mode: "insensitive" } },
+      select: { userId: true },
+    });
+    guardianUserId = known && known.userId !== userId ? known.userId : null;
+  } else {
+    return { success: false, error: "GUARDIAN_INVALID" };
+  }
+
+  const chain = await readChain(wallet);
+  if (!chain.success) {
+    return { success: false, error: chain.error };
+  }
+
+  const current = await prisma.walletGuardian.findMany({ where: { walletId: wallet.id, status: "ACTIVE" } });
+  const invalid = checkGuardianChange(
+    "ADD",
+    address,
+    { address: wallet.address, owner: chain.data?.owner ?? getRelayerAccount().address },
+    current.map((guardian) => guardian.address),
+    Boolean(chain.data?.request)
+  );
+  if (invalid) {
+    return { success: false, error: invalid };
+  }
+
+  const sent = await sendFromWallet(wallet, [{ target: wallet.address as Address, data: encodeAddGuardian(address) }]);
+  if (!sent.success) {
+    logger.error("Failed to add wallet guardian", { walletId: wallet.id, guardian: address, error: sent.error });
+    return { success: false, error: "TRANSACTION_FAILED", details: { reason: sent.error } };
+  }
+
+  const guardian = await prisma.walletGuardian.upsert({
+    where: { walletId_address: { walletId: wallet.id, address } },
+    create: {
+      walletId: wallet.id,
+      address,
+      guardianUserId,
+      label: input.label ?? null,
+      addedTxHash: sent.txHash,
+    },
+    update: {
+      guardianUserId,
+      label: input.label ?? null,
+      status: "ACTIVE",
+      addedTxHash: sent.txHash,
+      removedTxHash: null,
+      removedAt: null,
+    },
+  });
+
+  await audit(actor, AuditActions.ADD_WALLET_GUARDIAN, wallet.id, `Added guardian ${address}`, {
+    guardianId: guardian.id,
+    guardianAddress: address,
+    guardianUserId,
+    txHash: sent.txHash,
+  });
+
+  const names = await getDisplayNames([userId, guardianUserId]);
+  if (guardianUserId) {
+    await notify(guardianUserId, "GUARDIAN_ADDED", { walletAddress: wallet.address, ownerName: names.get(userId) });
+  }
+
+  return {
+    success: true,
+    data: {
+      id: guardian.id,
+      address: guardian.address,
+      label: guardian.label,
+      status: guardian.status,
+      guardian: guardianUserId
+        ? { id: guardianUserId, displayName: names.get(guardianUserId) ?? "Vlossom member" }
+        : null,
+      addedTxHash: guardian.addedTxHash,
+      createdAt: guardian.createdAt,
+    },
+  };
+}
+
+/**
+ * Remove a guardian - not allowed while a recovery is active on chain
+ */
+export async function removeGuardian(
+  userId: string,
+  guardianId: string,
+  actor: RecoveryActor
+): Promise<WalletRecoveryResult<{ txHash: Hash }>> {
+  const owned = await getOwnedWallet(userId);
+  if (!owned.success || !owned.data) {
+    return { success: false, error: owned.error, details: owned.details };
+  }
+  const wallet = owned.data;
+
+  const guardian = await prisma.walletGuardian.findFirst({
+    where: { id: guardianId, walletId: wallet.id, status: "ACTIVE" },
+  });
+  if (!guardian) {
+    return { success: false, error: "GUARDIAN_NOT_FOUND" };
+  }
+
+  const chain = await readChain(wallet);
+  if (!chain.success) {
+    return { success: false, error: chain.error };
+  }
+
+  const current = await prisma.walletGuardian.findMany({ where: { walletId: wallet.id, status: "ACTIVE" } });
+  const invalid = checkGuardianChange(
+    "REMOVE",
+    guardian.address,
+    { address: wallet.address, owner: chain.data?.owner ?? null },
+    current.map((active) => active.address),
+    Boolean(chain.data?.request)
+  );
+  if (invalid) {
+    return { success: false, error: invalid };
+  }
+
+  const sent = await sendFromWallet(wallet, [
+    { target: wallet.address as Address, data: encodeRemoveGuardian(guardian.address as Address) },
+  ]);
+  if (!sent.success || !sent.txHash) {
+    logger.error("Failed to remove wallet guardian", { walletId: wallet.id, guardianId, error: sent.error });
+    return { success: false, error: "TRANSACTION_FAILED", details: { reason: sent.error } };
+  }
+
+  await prisma.walletGuardian.update({
+    where: { id: guardian.id },
+    data: { status: "REMOVED", removedTxHash: sent.txHash, removedAt: new Date() },
+  });
+
+  await audit(actor, AuditActions.REMOVE_WALLET_GUARDIAN, wallet.id, `Removed guardian ${guardian.address}`, {
+    guardianId: guardian.id,
+    guardianAddress: guardian.address,
+    txHash: sent.txHash,
+  });
+
+  if (guardian.guardianUserId) {
+    const names = await getDisplayNames([userId]);
+    await notify(guardian.guardianUserId, "GUARDIAN_REMOVED", {
+      walletAddress: wallet.address,
+      ownerName: names.get(userId),
+    });
+  }
+
+  return { success: true, data: { txHash: sent.txHash } };
+}
+
+// ============================================================================
+// Recovery
+// ============================================================================
+
+/**
+ * Ask a wallet's guardians to rotate its owner
+ *
+ * @param requesterId - The user asking, signed in with their new login
+ * @param input.newOwner - Defaults to the requester's own wallet
+ */
+export async function requestRecovery(
+  requesterId: string,
+  input: { walletAddress: string; newOwner?: string },
+  actor: RecoveryActor
+): Promise<WalletRecoveryResult<RecoveryView>> {
+  const wallet = await prisma.wallet.findFirst({
+    where: { address: { equals: input.walletAddress, mode: "insensitive" } },
+    include: { guardians: true },
+  });
+  if (!wallet) {
+    return { success: false, error: "WALLET_NOT_FOUND" };
+  }
+  if (wallet.userId === requesterId) {
+    return { success: false, error: "RECOVERY_ACTION_INVALID", details: { reason: "This is already your wallet" } };
+  }
+  if (wallet.recoveredAt) {
+    return { success: false, error: "WALLET_RECOVERED" };
+  }
+
+  let newOwner: Address;
+  if (input.newOwner) {
+    if (!isAddress(input.newOwner)) {
+      return { success: false, error: "VALIDATION_ERROR", details: { reason: "newOwner is not an address" } };
+    }
+    newOwner = getAddress(input.newOwner);
+  } else {
+    const requesterWallet = await getWallet(requesterId);
+    if (!requesterWallet) {
+      return { success: false, error: "WALLET_NOT_FOUND", details: { userId: requesterId } };
+    }
+    newOwner = getAddress(requesterWallet.address);
+  }
+  if (sameAddress(newOwner, wallet.address)) {
+    return { success: false, error: "RECOVERY_ACTION_INVALID", details: { reason: "A wallet can't own itself" } };
+  }
+
+  const guardians = activeGuardians(wallet.guardians);
+  if (guardians.length < MIN_RECOVERY_APPROVALS) {
+    return {
+      success: false,
+      error: "RECOVERY_ACTION_INVALID",
+      details: { reason: `The wallet needs at least ${MIN_RECOVERY_APPROVALS} guardians to be recovered` },
+    };
+  }
+
+  const open = await prisma.walletRecovery.findFirst({
+    where: { walletId: wallet.id, status: { in: [...OPEN_STATUSES] } },
+    select: { id: true },
+  });
+  if (open) {
+    return { success: false, error: "RECOVERY_IN_PROGRESS", details: { recoveryId: open.id } };
+  }
+
+  // Stops a declined requester re-filing to keep blocking the real recovery
+  const declined = await prisma.walletRecovery.findFirst({
+    where: { walletId: wallet.id, requesterId, status: "CANCELLED", cancelledBy: { not: requesterId } },
+    select: { id: true },
+  });
+  if (declined) {
+    return {
+      success: false,
+      error: "FORBIDDEN",
+      details: { reason: "The owner or a guardian declined your earlier request for this wallet" },
+    };
+  }
+
+  const created = await prisma.walletRecovery.create({
+    data: { walletId: wallet.id, requesterId, newOwner },
+  });
+  const recovery = (await loadRecovery(created.id))!;
+
+  await audit(actor, AuditActions.REQUEST_WALLET_RECOVERY, wallet.id, `Recovery requested to ${newOwner}`, {
+    recoveryId: recovery.id,
+    requesterId,
+    newOwner,
+  });
+
+  const names = await getRecoveryNames(recovery);
+  const metadata = { recoveryId: recovery.id, walletAddress: wallet.address, ...names };
+
+  await notify(wallet.userId, "RECOVERY_REQUESTED", metadata);
+  for (const guardian of guardians) {
+    if (guardian.guardianUserId) {
+      await notify(guardian.guardianUserId, "APPROVAL_REQUESTED", metadata);
+    }
+  }
+
+  logger.info("Wallet recovery requested", { recoveryId: recovery.id, walletId: wallet.id, requesterId });
+
+  return { success: true, data: await toRecoveryView(recovery, requesterId) };
+}
+
+/**
+ * Approve a recovery from the guardian's own wallet - the first approval
+ * starts it on chain
+ */
+export async function approveRecovery(
+  recoveryId: string,
+  guardianUserId: string,
+  actor: RecoveryActor
+): Promise<WalletRecoveryResult<RecoveryActionResult>> {
+  const recovery = await loadRecovery(recoveryId);
+  if (!recovery) {
+    return { success: false, error: "RECOVERY_NOT_FOUND" };
+  }
+  if (recovery.status !== "REQUESTED" && recovery.status !== "PENDING") {
+    return { success: false, error: "RECOVERY_ACTION_INVALID", details: { status: recovery.status } };
+  }
+
+  const guardian = activeGuardians(recovery.wallet.guardians).find(
+    (candidate) => candidate.guardianUserId === guardianUserId
+  );
+  if (!guardian) {
+    return { success: false, error: "FORBIDDEN" };
+  }
+  if (recovery.approvals.some((approval) => approval.guardianId === guardian.id)) {
+    return { success: false, error: "RECOVERY_ACTION_INVALID", details: { reason: "You have already approved" } };
+  }
+
+  const guardianWallet = await getOwnedWallet(guardianUserId);
+  if (!guardianWallet.success || !guardianWallet.data) {
+    return { success: false, error: guardianWallet.error, details: guardianWallet.details };
+  }
+  if (!sameAddress(guardianWallet.data.address, guardian.address)) {
+    return { success: false, error: "FORBIDDEN", details: { reason: "You were added as a guardian from another wallet" } };
+  }
+
+  const chain = await readChain(recovery.wallet);
+  if (!chain.success) {
+    return { success: false, error: chain.error };
+  }
+  if (!chain.data) {
+    return { success: false, error: "RECOVERY_ACTION_INVALID", details: { reason: "The wallet has no guardians on chain" } };
+  }
+
+  const action = getGuardianAction(chain.data);
+  const invalid = checkRecoveryAction(action, recovery, chain.data);
+  if (invalid) {
+    return { success: false, error: "RECOVERY_ACTION_INVALID", details: { action, reason: invalid } };
+  }
+
+  const walletAddress = recovery.wallet.address as Address;
+  const sent = await sendFromWallet(guardianWallet.data, [
+    {
+      target: walletAddress,
+      data: action === "INITIATE" ? encodeInitiateRecovery(recovery.newOwner as Address) : encodeApproveRecovery(),
+    },
+  ]);
+  if (!sent.success || !sent.txHash) {
+    logger.error("Failed to approve wallet recovery", { recoveryId, guardianId: guardian.id, error: sent.error });
+    return { success: false, error: "TRANSACTION_FAILED", details: { reason: sent.error } };
+  }
+
+  // A mined UserOperation can still have reverted inside the wallet
+  const after = await readChain(recovery.wallet);
+  const approved =
+    after.success &&
+    after.data?.request &&
+    (await hasApprovedRecovery(walletAddress, guardian.address as Address).catch(() => false));
+  if (!approved || !after.data?.request) {
+    return {
+      success: false,
+      error: "TRANSACTION_FAILED",
+      details: { reason: `Approval not found on chain after ${sent.txHash}` },
+    };
+  }
+
+  const request = after.data.request;
+  await prisma.$transaction([
+    prisma.walletRecoveryApproval.create({
+      data: { recoveryId, guardianId: guardian.id, txHash: sent.txHash },
+    }),
+    prisma.walletRecovery.update({
+      where: { id: recoveryId },
+      data: {
+        status: "PENDING",
+        approvalCount: request.approvalCount,
+        executeAfter: request.executeAfter,
+        ...(recovery.recoveryNonce === null && { recoveryNonce: after.data.recoveryNonce }),
+        ...(action === "INITIATE" && { initiatedTxHash: sent.txHash }),
+      },
+    }),
+  ]);
+
+  await audit(
+    actor,
+    AuditActions.APPROVE_WALLET_RECOVERY,
+    recovery.walletId,
+    action === "INITIATE" ? "Guardian started recovery" : "Guardian approved recovery",
+    { recoveryId, guardianId: guardian.id, action, approvalCount: request.approvalCount, txHash: sent.txHash }
+  );
+
+  const names = await getRecoveryNames(recovery);
+  const metadata = {
+    recoveryId,
+    walletAddress: recovery.wallet.address,
+    approvalCount: request.approvalCount,
+    recoveryExecuteAfter: request.executeAfter.toISOString(),
+    ...names,
+  };
+  const notice = action === "INITIATE" ? "RECOVERY_STARTED" : "RECOVERY_APPROVED";
+  await notify(recovery.requesterId, notice, metadata);
+  await notify(recovery.wallet.userId, notice, metadata);
+
+  const updated = (await loadRecovery(recoveryId))!;
+  return { success: true, data: { txHash: sent.txHash, recovery: await toRecoveryView(updated, guardianUserId) } };
+}
+
+/**
+ * Mark a recovery executed and the wallet as no longer relayer-owned
+ */
+async function completeRecovery(
+  recovery: RecoveryWithWallet,
+  txHash: Hash | null,
+  actor: RecoveryActor,
+  sweptAmount: bigint = 0n
+) {
+  const now = new Date();
+  await prisma.$transaction([
+    prisma.walletRecovery.update({
+      where: { id: recovery.id },
+      data: { status: "EXECUTED", executedTxHash: txHash, executedAt: now },
+    }),
+    prisma.wallet.update({
+      where: { id: recovery.walletId },
+      data: { recoveredAt: now, recoveredTo: recovery.newOwner },
+    }),
+  ]);
+
+  await audit(actor, AuditActions.EXECUTE_WALLET_RECOVERY, recovery.walletId, `Owner rotated to ${recovery.newOwner}`, {
+    recoveryId: recovery.id,
+    newOwner: recovery.newOwner,
+    txHash,
+    sweptAmount: sweptAmount.toString(),
+  });
+
+  const names = await getRecoveryNames(recovery);
+  const metadata = { recoveryId: recovery.id, walletAddress: recovery.wallet.address, ...names };
+  await notify(recovery.requesterId, "RECOVERY_EXECUTED", metadata);
+  await notify(recovery.wallet.userId, "RECOVERY_EXECUTED", metadata);
+
+  logger.info("Wallet recovery executed", { recoveryId: recovery.id, walletId: recovery.walletId, txHash });
+}
+
+/**
+ * Rotate the owner once the time-lock has ended with enough approvals
+ *
+ * Sent from the requester's wallet. When that wallet is the new owner it
+ * also moves the recovered USDC across in the same UserOperation.
+ */
+export async function executeRecovery(
+  recoveryId: string,
+  actor: RecoveryActor
+): Promise<WalletRecoveryResult<RecoveryActionResult>> {
+  const recovery = await loadRecovery(recoveryId);
+  if (!recovery) {
+    return { success: false, error: "RECOVERY_NOT_FOUND" };
+  }
+  if (actor.userId !== SYSTEM_ACTOR.userId && getRole(recovery, actor.userId) === null) {
+    return { success: false, error: "FORBIDDEN" };
+  }
+  if (recovery.status !== "PENDING") {
+    return { success: false, error: "RECOVERY_ACTION_INVALID", details: { status: recovery.status } };
+  }
+
+  const chain = await readChain(recovery.wallet);
+  if (!chain.success) {
+    return { success: false, error: chain.error };
+  }
+  const invalid = chain.data ? checkRecoveryAction("EXECUTE", recovery, chain.data) : "Wallet is not deployed";
+  if (invalid) {
+    return { success: false, error: "RECOVERY_NOT_READY", details: { reason: invalid } };
+  }
+
+  const requesterWallet = await getWallet(recovery.requesterId);
+  if (!requesterWallet) {
+    return { success: false, error: "WALLET_NOT_FOUND", details: { userId: recovery.requesterId } };
+  }
+
+  const walletAddress = recovery.wallet.address as Address;
+  const calls: Call[] = [{ target: walletAddress, data: encodeExecuteRecovery() }];
+
+  // Once executeRecovery lands the requester's wallet owns the recovered one and can move its funds
+  let sweptAmount = 0n;
+  if (sameAddress(recovery.newOwner, requesterWallet.address)) {
+    sweptAmount = (await getBalance(walletAddress)).usdc;
+    if (sweptAmount > 0n) {
+      calls.push({
+        target: walletAddress,
+        data: buildExecuteCallData(
+          USDC_ADDRESS,
+          0n,
+          encodeFunctionData({
+            abi: ERC20_ABI,
+            functionName: "transfer",
+            args: [requesterWallet.address as Address, sweptAmount],
+          })
+        ),
+      });
+    }
+  }
+
+  const sent = await sendFromWallet(requesterWallet, calls);
+  if (!sent.success || !sent.txHash) {
+    logger.error("Failed to execute wallet recovery", { recoveryId, error: sent.error });
+    return { success: false, error: "TRANSACTION_FAILED", details: { reason: sent.error } };
+  }
+
+  const after = await readChain(recovery.wallet);
+  if (after.success && after.data && !sameAddress(after.data.owner, recovery.newOwner)) {
+    return {
+      success: false,
+      error: "TRANSACTION_FAILED",
+      details: { reason: `Owner not rotated on chain after ${sent.txHash}` },
+    };
+  }
+
+  if (sweptAmount > 0n) {
+    await recordTransaction(recovery.walletId, "TRANSFER_OUT", sweptAmount, {
+      counterparty: requesterWallet.address,
+      txHash: sent.txHash,
+      memo: "Wallet recovery",
+      status: "CONFIRMED",
+    });
+    await recordTransaction(requesterWallet.id, "TRANSFER_IN", sweptAmount, {
+      counterparty: recovery.wallet.address,
+      memo: "Wallet recovery",
+      status: "CONFIRMED",
+    });
+  }
+
+  await completeRecovery(recovery, sent.txHash, actor, sweptAmount);
+
+  const updated = (await loadRecovery(recoveryId))!;
+  return {
+    success: true,
+    data: { txHash: sent.txHash, recovery: await toRecoveryView(updated, recovery.requesterId) },
+  };
+}
+
+async function markCancelled(
+  recovery: RecoveryWithWallet,
+  actor: RecoveryActor,
+  txHash: Hash | null,
+  details: string
+) {
+  await prisma.walletRecovery.update({
+    where: { id: recovery.id },
+    data: { status: "CANCELLED", cancelledBy: actor.userId, cancelledTxHash: txHash, cancelledAt: new Date() },
+  });
+
+  await audit(actor, AuditActions.CANCEL_WALLET_RECOVERY, recovery.walletId, details, {
+    recoveryId: recovery.id,
+    txHash,
+  });
+
+  const names = await getRecoveryNames(recovery);
+  const metadata = { recoveryId: recovery.id, walletAddress: recovery.wallet.address, ...names };
+  const recipients = new Set([
+    recovery.requesterId,
+    recovery.wallet.userId,
+    ...activeGuardians(recovery.wallet.guardians).flatMap((guardian) =>
+      guardian.guardianUserId ? [guardian.guardianUserId] : []
+    ),
+  ]);
+  recipients.delete(actor.userId);
+
+  for (const userId of recipients) {
+    await notify(userId, "RECOVERY_CANCELLED", metadata);
+  }
+}
+
+/**
+ * Cancel a recovery
+ *
+ * The wallet owner can cancel at any point before it executes (on chain once
+ * a guardian has started it). The requester can withdraw, and any current
+ * Vlossom guardian can decline, a request no guardian has started yet.
+ */
+export async function cancelRecovery(
+  recoveryId: string,
+  userId: string,
+  actor: RecoveryActor
+): Promise<WalletRecoveryResult<RecoveryActionResult>> {
+  const recovery = await loadRecovery(recoveryId);
+  if (!recovery) {
+    return { success: false, error: "RECOVERY_NOT_FOUND" };
+  }
+
+  const role = getRole(recovery, userId);
+  const isActiveGuardian = activeGuardians(recovery.wallet.guardians).some(
+    (guardian) => guardian.guardianUserId === userId
+  );
+  if (role === null || (role === "GUARDIAN" && !isActiveGuardian)) {
+    return { success: false, error: "FORBIDDEN" };
+  }
+  if (recovery.status !== "REQUESTED" && recovery.status !== "PENDING") {
+    return { success: false, error: "RECOVERY_ACTION_INVALID", details: { status: recovery.status } };
+  }
+
+  let txHash: Hash | null = null;
+
+  if (recovery.status === "PENDING") {
+    if (role !== "OWNER") {
+      return {
+        success: false,
+        error: "RECOVERY_ACTION_INVALID",
+        details: { reason: "Only the wallet owner can cancel a recovery once a guardian has started it" },
+      };
+    }
+
+    const chain = await readChain(recovery.wallet);
+    if (!chain.success) {
+      return { success: false, error: chain.error };
+    }
+
+    if (chain.data && !checkRecoveryAction("CANCEL", recovery, chain.data)) {
+      const owned = await getOwnedWallet(userId);
+      if (!owned.success || !owned.data) {
+        return { success: false, error: owned.error, details: owned.details };
+      }
+
+      const sent = await sendFromWallet(owned.data, [
+        { target: owned.data.address as Address, data: encodeCancelRecovery() },
+      ]);
+      if (!sent.success || !sent.txHash) {
+        logger.error("Failed to cancel wallet recovery", { recoveryId, error: sent.error });
+        return { success: false, error: "TRANSACTION_FAILED", details: { reason: sent.error } };
+      }
+      txHash = sent.txHash;
+    }
+    // Otherwise it is already over on chain - recording the cancellation is enough
+  }
+
+  await markCancelled(
+    recovery,
+    actor,
+    txHash,
+    role === "OWNER"
+      ? "Owner cancelled recovery"
+      : role === "GUARDIAN"
+        ? "Guardian declined recovery request"
+        : "Requester withdrew recovery request"
+  );
+
+  const updated = (await loadRecovery(recoveryId))!;
+  return { success: true, data: { txHash, recovery: await toRecoveryView(updated, userId) } };
+}
+
+/**
+ * Recoveries the caller requested, that target their wallet, or that they guard
+ */
+export async function listRecoveries(userId: string): Promise<RecoveryView[]> {
+  const recoveries = await prisma.walletRecovery.findMany({
+    where: {
+      OR: [
+        { requesterId: userId },
+        { wallet: { userId } },
+        { wallet: { guardians: { some: { guardianUserId: userId, status: "ACTIVE" } } } },
+      ],
+    },
+    include: RECOVERY_INCLUDE,
+    orderBy: { createdAt: "desc" },
+    take: 50,
+  });
+
+  return Promise.all(recoveries.map((recovery) => toRecoveryView(recovery, userId)));
+}
+
+export async function getRecovery(recoveryId: string, userId: string): Promise<WalletRecoveryResult<RecoveryView>> {
+  const recovery = await loadRecovery(recoveryId);
+  if (!recovery) {
+    return { success: false, error: "RECOVERY_NOT_FOUND" };
+  }
+  if (getRole(recovery, userId) === null) {
+    return { success: false, error: "FORBIDDEN" };
+  }
+
+  return { success: true, data: await toRecoveryView(recovery, userId) };
+}
+
+// ============================================================================
+// Sync
+// ============================================================================
+
+/**
+ * Record approvals external guardians sent themselves
+ *
+ * @returns How many new approvals were found
+ */
+async function syncApprovals(recovery: RecoveryWithWallet): Promise<number> {
+  const approvedIds = new Set(recovery.approvals.map((approval) => approval.guardianId));
+  let found = 0;
+
+  for (const guardian of activeGuardians(recovery.wallet.guardians)) {
+    if (approvedIds.has(guardian.id)) continue;
+
+    const approved = await hasApprovedRecovery(recovery.wallet.address as Address, guardian.address as Address);
+    if (!approved) continue;
+
+    await prisma.walletRecoveryApproval.create({ data: { recoveryId: recovery.id, guardianId: guardian.id } });
+    await audit(SYSTEM_ACTOR, AuditActions.APPROVE_WALLET_RECOVERY, recovery.walletId, "Guardian approval found on chain", {
+      recoveryId: recovery.id,
+      guardianId: guardian.id,
+    });
+    found++;
+  }
+
+  return found;
+}
+
+async function syncRecovery(
+  recovery: RecoveryWithWallet,
+  result: RecoverySyncResult,
+  now: Date
+): Promise<void> {
+  const chain = await readChain(recovery.wallet);
+  if (!chain.success) {
+    result.failed++;
+    return;
+  }
+  const state = chain.data;
+
+  if (recovery.status === "REQUESTED") {
+    // An external guardian may have started it directly
+    if (state?.request && sameAddress(state.request.newOwner, recovery.newOwner)) {
+      await prisma.walletRecovery.update({
+        where: { id: recovery.id },
+        data: {
+          status: "PENDING",
+          recoveryNonce: state.recoveryNonce,
+          executeAfter: state.request.executeAfter,
+          approvalCount: state.request.approvalCount,
+        },
+      });
+      result.approvalsFound += await syncApprovals(recovery);
+      return;
+    }
+
+    if (isRecoveryRequestExpired(recovery.createdAt, now)) {
+      await prisma.walletRecovery.update({ where: { id: recovery.id }, data: { status: "EXPIRED" } });
+      await audit(SYSTEM_ACTOR, AuditActions.EXPIRE_WALLET_RECOVERY, recovery.walletId, "No guardian started the recovery", {
+        recoveryId: recovery.id,
+      });
+      await notify(recovery.requesterId, "RECOVERY_EXPIRED", {
+        recoveryId: recovery.id,
+        walletAddress: recovery.wallet.address,
+      });
+      result.expired++;
+      return;
+    }
+
+    // Touch it so the next run checks others first
+    await prisma.walletRecovery.update({ where: { id: recovery.id }, data: { updatedAt: now } });
+    return;
+  }
+
+  if (!state) {
+    result.failed++;
+    return;
+  }
+
+  const outcome = getRecoveryOutcome(recovery, state);
+  if (outcome === "EXECUTED") {
+    await completeRecovery(recovery, null, SYSTEM_ACTOR);
+    result.executed++;
+    return;
+  }
+  if (outcome === "CANCELLED") {
+    await markCancelled(recovery, SYSTEM_ACTOR, null, "Recovery no longer active on chain");
+    result.cancelled++;
+    return;
+  }
+
+  result.approvalsFound += await syncApprovals(recovery);
+  await prisma.walletRecovery.update({
+    where: { id: recovery.id },
+    data: { approvalCount: state.request!.approvalCount, executeAfter: state.request!.executeAfter },
+  });
+
+  if (!checkRecoveryAction("EXECUTE", recovery, state, now)) {
+    const executed = await executeRecovery(recovery.id, SYSTEM_ACTOR);
+    if (executed.success) {
+      result.executed++;
+    } else {
+      result.failed++;
+    }
+  }
+}
+
+/**
+ * Run one sync pass (scheduler, through the internal API)
+ *
+ * 1. Pick up recoveries and approvals external guardians sent themselves
+ * 2. Close recoveries that executed or were cancelled outside the API
+ * 3. Execute recoveries whose time-lock has ended with enough approvals
+ * 4. Expire requests no guardian started in time
+ */
+export async function syncWalletRecoveries(): Promise<RecoverySyncResult> {
+  const now = new Date();
+  const result: RecoverySyncResult = {
+    checked: 0,
+    approvalsFound: 0,
+    executed: 0,
+    cancelled: 0,
+    expired: 0,
+    failed: 0,
+  };
+
+  const recoveries = await prisma.walletRecovery.findMany({
+    where: { status: { in: [...OPEN_STATUSES] } },
+    include: RECOVERY_INCLUDE,
+    orderBy: { updatedAt: "asc" },
+    take: MAX_RECOVERY_SYNCS_PER_RUN,
+  });
+
+  for (const recovery of recoveries) {
+    result.checked++;
+    try {
+      await syncRecovery(recovery, result, now);
+    } catch (error) {
+      result.failed++;
+      logger.error("Failed to sync wallet recovery", {
+        recoveryId: recovery.id,
+        error: error instanceof Error ? error.message : "Unknown error",
+      });
+    }
+  }
+
+  return result;
+}
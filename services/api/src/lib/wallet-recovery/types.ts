@@ -0,0 +1,152 @@
+/**
+ * Wallet Recovery Types
+ * Guardians and guardian-approved owner rotation for VlossomAccount smart wallets
+ */
+
+import type { WalletGuardianStatus, WalletRecoveryStatus } from "@prisma/client";
+import type { Address, Hash } from "viem";
+
+/**
+ * VlossomAccount.MAX_GUARDIANS
+ */
+export const MAX_GUARDIANS = 5;
+
+/**
+ * VlossomAccount.MIN_RECOVERY_APPROVALS - also the fewest guardians a
+ * recovery can be started with
+ */
+export const MIN_RECOVERY_APPROVALS = 2;
+
+/**
+ * VlossomAccount.RECOVERY_DELAY - time-lock between the first approval and
+ * the owner rotating, during which the current owner can cancel
+ */
+export const RECOVERY_DELAY_HOURS = 48;
+
+/**
+ * Requests no guardian has started on chain are expired after this long
+ */
+export const RECOVERY_REQUEST_TTL_DAYS = 7;
+
+/**
+ * Open recoveries the sync job checks against the chain per run, oldest first
+ */
+export const MAX_RECOVERY_SYNCS_PER_RUN = 50;
+
+/**
+ * Whoever is acting, for the audit log. userId is "system" for the sync job.
+ */
+export interface RecoveryActor {
+  userId: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * A wallet's guardian and recovery state as VlossomAccount holds it
+ */
+export interface RecoveryChainState {
+  owner: Address;
+  guardianCount: number;
+  recoveryNonce: number;
+  request: {
+    newOwner: Address;
+    initiatedAt: Date;
+    executeAfter: Date;
+    approvalCount: number;
+  } | null;
+}
+
+/**
+ * Guardian and requester actions on a recovery
+ */
+export type RecoveryAction = "INITIATE" | "APPROVE" | "EXECUTE" | "CANCEL";
+
+/**
+ * Guardian and recovery changes people are told about
+ */
+export type WalletRecoveryNotice =
+  | "GUARDIAN_ADDED"
+  | "GUARDIAN_REMOVED"
+  | "APPROVAL_REQUESTED"
+  | "RECOVERY_REQUESTED"
+  | "RECOVERY_STARTED"
+  | "RECOVERY_APPROVED"
+  | "RECOVERY_EXECUTED"
+  | "RECOVERY_CANCELLED"
+  | "RECOVERY_EXPIRED";
+
+export interface GuardianView {
+  id: string;
+  address: string;
+  label: string | null;
+  status: WalletGuardianStatus;
+  /** Set when the guardian is a Vlossom user */
+  guardian: { id: string; displayName: string } | null;
+  addedTxHash: string | null;
+  createdAt: Date;
+}
+
+export interface WalletGuardiansView {
+  walletAddress: string;
+  guardians: GuardianView[];
+  maxGuardians: number;
+  minApprovals: number;
+  recoveryDelayHours: number;
+  /** A recovery can only start once the wallet has MIN_RECOVERY_APPROVALS guardians */
+  recoverable: boolean;
+}
+
+export interface RecoveryView {
+  id: string;
+  walletAddress: string;
+  requesterId: string;
+  newOwner: string;
+  status: WalletRecoveryStatus;
+  approvalCount: number;
+  minApprovals: number;
+  executeAfter: Date | null;
+  guardians: Array<{
+    id: string;
+    address: string;
+    label: string | null;
+    displayName: string | null;
+    approved: boolean;
+  }>;
+  /** What an external guardian sends to walletAddress themselves to approve, while open */
+  guardianCallData: string | null;
+  /** The caller's part in this recovery */
+  role: "REQUESTER" | "OWNER" | "GUARDIAN";
+  /** The caller is a Vlossom guardian who hasn't approved this open recovery yet */
+  canApprove: boolean;
+  initiatedTxHash: string | null;
+  executedTxHash: string | null;
+  createdAt: Date;
+  executedAt: Date | null;
+  cancelledAt: Date | null;
+}
+
+export interface RecoveryActionResult {
+  txHash: Hash | null;
+  recovery: RecoveryView;
+}
+
+export interface RecoverySyncResult {
+  checked: number;
+  approvalsFound: number;
+  executed: number;
+  cancelled: number;
+  expired: number;
+  failed: number;
+}
+
+/**
+ * Result of a guardian or recovery operation.
+ * `error` is an ERROR_CODES key so routes can map it directly.
+ */
+export interface WalletRecoveryResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  details?: Record<string, unknown>;
+}
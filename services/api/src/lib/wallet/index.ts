@@ -55,6 +55,8 @@ export {
   addPaymasterData,
   signUserOp,
   submitUserOp,
+  sendUserOp,
+  getUserOpTxHash,
   waitForUserOp,
   executeUserOp,
   getAccountNonce,
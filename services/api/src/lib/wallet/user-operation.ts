@@ -45,6 +45,7 @@ export interface UserOpOptions {
   userId: string; // For initCode if wallet not deployed
   callData: Hex;
   isDeployed: boolean;
+  callGasLimit?: bigint; // Batched calls need more than the default
 }
 
 /**
@@ -160,7 +161,7 @@ export async function buildUserOp(options: UserOpOptions): Promise<PackedUserOpe
 
   // Default gas values (will be estimated)
   const verificationGasLimit = isDeployed ? 100_000n : 500_000n; // Higher for deployment
-  const callGasLimit = 200_000n;
+  const callGasLimit = options.callGasLimit ?? 200_000n;
   const preVerificationGas = 50_000n;
 
   // Get current gas prices
@@ -331,33 +332,43 @@ export async function submitUserOp(userOp: PackedUserOperation): Promise<UserOpR
   }
 }
 
+/**
+ * Look up a UserOperation's transaction once - null while it is not mined
+ */
+export async function getUserOpTxHash(userOpHash: Hash): Promise<Hash | null> {
+  const bundlerUrl = getBundlerUrl();
+
+  try {
+    const response = await fetch(bundlerUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "eth_getUserOperationReceipt",
+        params: [userOpHash],
+      }),
+    });
+
+    const result = await response.json();
+
+    return (result.result?.receipt?.transactionHash as Hash | undefined) ?? null;
+  } catch {
+    // Treated as not mined yet
+    return null;
+  }
+}
+
 /**
  * Wait for a UserOperation to be included in a block
  */
 export async function waitForUserOp(userOpHash: Hash, timeoutMs: number = 60_000): Promise<Hash | null> {
-  const bundlerUrl = getBundlerUrl();
   const startTime = Date.now();
 
   while (Date.now() - startTime < timeoutMs) {
-    try {
-      const response = await fetch(bundlerUrl, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          jsonrpc: "2.0",
-          id: 1,
-          method: "eth_getUserOperationReceipt",
-          params: [userOpHash],
-        }),
-      });
-
-      const result = await response.json();
-
-      if (result.result?.receipt?.transactionHash) {
-        return result.result.receipt.transactionHash as Hash;
-      }
-    } catch {
-      // Ignore errors, keep polling
+    const txHash = await getUserOpTxHash(userOpHash);
+    if (txHash) {
+      return txHash;
     }
 
     // Wait 2 seconds before next poll
@@ -368,10 +379,10 @@ export async function waitForUserOp(userOpHash: Hash, timeoutMs: number = 60_000
 }
 
 /**
- * Execute a full UserOperation flow
- * Build -> Add Paymaster -> Sign -> Submit -> Wait
+ * Build, sponsor, sign and submit a UserOperation without waiting for it
+ * Build -> Add Paymaster -> Sign -> Submit
  */
-export async function executeUserOp(options: UserOpOptions): Promise<UserOpResult> {
+export async function sendUserOp(options: UserOpOptions): Promise<UserOpResult> {
   // Build
   let userOp = await buildUserOp(options);
 
@@ -382,7 +393,15 @@ export async function executeUserOp(options: UserOpOptions): Promise<UserOpResul
   userOp = await signUserOp(userOp);
 
   // Submit
-  const submitResult = await submitUserOp(userOp);
+  return submitUserOp(userOp);
+}
+
+/**
+ * Execute a full UserOperation flow
+ * Build -> Add Paymaster -> Sign -> Submit -> Wait
+ */
+export async function executeUserOp(options: UserOpOptions): Promise<UserOpResult> {
+  const submitResult = await sendUserOp(options);
 
   if (!submitResult.success) {
     return submitResult;
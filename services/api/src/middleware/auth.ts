@@ -67,6 +67,7 @@ export interface JWTPayload {
   email?: string;
   walletAddress?: string;
   roles?: string[];
+  tfa?: boolean; // Session was established with a second factor
   iat?: number;
   exp?: number;
 }
@@ -208,6 +209,7 @@ export function generateToken(
     email?: string;
     walletAddress?: string;
     roles?: string[];
+    twoFactor?: boolean;
     expiresIn?: string;
     tokenType?: TokenType;
   } = {}
@@ -217,6 +219,7 @@ export function generateToken(
     email: options.email,
     walletAddress: options.walletAddress,
     roles: options.roles,
+    ...(options.twoFactor && { tfa: true }),
   };
 
   // V7.0.0: Use appropriate expiry based on token type
@@ -240,6 +243,7 @@ export function generateTokenPair(
     email?: string;
     walletAddress?: string;
     roles?: string[];
+    twoFactor?: boolean;
   } = {}
 ): { accessToken: string; refreshToken: string } {
   return {
@@ -62,6 +62,20 @@ export const ERROR_CODES: Record<string, { status: number; message: string }> =
   NO_PASSWORD_AUTH: { status: 400, message: 'This account does not use password authentication' },
   INVALID_CURRENT_PASSWORD: { status: 401, message: 'Current password is incorrect' },
 
+  // Two-factor and step-up errors
+  TWO_FACTOR_ALREADY_ENABLED: { status: 409, message: 'Two-factor authentication is already enabled' },
+  TWO_FACTOR_NOT_ENABLED: { status: 400, message: 'Two-factor authentication is not enabled' },
+  TWO_FACTOR_ENROLLMENT_NOT_STARTED: { status: 400, message: 'Start two-factor setup before confirming it' },
+  TWO_FACTOR_REQUIRED_FOR_ROLE: { status: 403, message: 'Admin accounts must keep two-factor authentication enabled' },
+  TWO_FACTOR_ENROLLMENT_REQUIRED: { status: 403, message: 'Set up two-factor authentication to continue' },
+  TWO_FACTOR_SESSION_REQUIRED: { status: 403, message: 'Sign in again with your two-factor code to continue' },
+  INVALID_TWO_FACTOR_CODE: { status: 401, message: 'Invalid or expired verification code' },
+  TWO_FACTOR_CHALLENGE_INVALID: { status: 401, message: 'Verification has expired. Please sign in again.' },
+  TWO_FACTOR_TOO_MANY_ATTEMPTS: { status: 429, message: 'Too many incorrect codes. Request a new one.' },
+  SMS_CODE_FAILED: { status: 502, message: 'Could not send the verification code by SMS' },
+  STEP_UP_REQUIRED: { status: 403, message: 'Please confirm it\'s you to continue' },
+  STEP_UP_INVALID: { status: 403, message: 'Your verification has expired. Please confirm it\'s you again.' },
+
   // Resource errors
   NOT_FOUND: { status: 404, message: 'Resource not found' },
   USER_NOT_FOUND: { status: 404, message: 'User not found' },
@@ -96,6 +110,7 @@ export const ERROR_CODES: Record<string, { status: number; message: string }> =
   BOOKING_ALREADY_PAID: { status: 400, message: 'Booking has already been paid' },
   CANNOT_START_SERVICE: { status: 400, message: 'Cannot start service in current status' },
   CANNOT_COMPLETE_SERVICE: { status: 400, message: 'Cannot complete service in current status' },
+  BALANCE_PAYMENT_REQUIRED: { status: 400, message: 'The booking balance must be paid first' },
   FAUCET_RATE_LIMITED: { status: 429, message: 'Faucet can only be used once every 24 hours' },
 
   // Payment errors
@@ -110,6 +125,15 @@ export const ERROR_CODES: Record<string, { status: number; message: string }> =
   CHAIR_HAS_ACTIVE_RENTALS: { status: 400, message: 'Cannot delete chair with active rentals' },
   RENTAL_NOT_FOUND: { status: 404, message: 'Rental request not found' },
   RENTAL_ALREADY_PROCESSED: { status: 400, message: 'Rental request has already been processed' },
+  RENTAL_NOT_CANCELLABLE: { status: 400, message: 'Rental can no longer be cancelled' },
+  RENTAL_NOT_ENDED: { status: 400, message: 'Rental period has not ended yet' },
+  RENTAL_NOT_FUNDED: { status: 400, message: 'Rental has no payment held in escrow' },
+  RENTAL_PAYMENT_DISPUTED: { status: 409, message: 'Rental payment is under dispute' },
+  RENTAL_NOT_DISPUTED: { status: 400, message: 'Rental payment is not under dispute' },
+  CHAIR_RESERVATION_NOT_ALLOWED: { status: 400, message: 'Only fixed or hybrid stylists can book salon chairs' },
+  CHAIR_DOUBLE_BOOKED: { status: 409, message: 'Chair is already reserved for this time' },
+  CHAIR_FEE_EXCEEDS_PAYOUT: { status: 400, message: 'Chair fee is more than the stylist earns from this booking' },
+  PROPERTY_APPROVAL_REQUIRED: { status: 403, message: 'This property requires owner approval - request a chair rental first' },
   STYLIST_ALREADY_BLOCKED: { status: 400, message: 'Stylist is already blocked' },
 
   // Admin errors
@@ -132,6 +156,80 @@ export const ERROR_CODES: Record<string, { status: number; message: string }> =
   PORTFOLIO_LIMIT: { status: 400, message: 'Portfolio image limit reached' },
   PROPERTY_IMAGE_LIMIT: { status: 400, message: 'Property image limit reached' },
 
+  // Special event errors (V7.2)
+  SPECIAL_EVENT_NOT_FOUND: { status: 404, message: 'Special event request not found' },
+  SPECIAL_EVENT_NOT_QUOTABLE: { status: 400, message: 'Special event is no longer accepting quotes' },
+  QUOTE_NOT_FOUND: { status: 404, message: 'Quote not found' },
+  QUOTE_EXPIRED: { status: 400, message: 'This quote has expired' },
+
+  // Dispute errors
+  DISPUTE_NOT_FOUND: { status: 404, message: 'Dispute not found' },
+  DISPUTE_ALREADY_EXISTS: { status: 409, message: 'An active dispute already exists for this booking' },
+  BOOKING_NOT_DISPUTABLE: { status: 400, message: 'Only completed bookings awaiting confirmation can be disputed' },
+  DISPUTE_CLOSED: { status: 400, message: 'This dispute is closed' },
+
+  // Recurring booking errors
+  SERIES_NOT_FOUND: { status: 404, message: 'Booking series not found' },
+  SERIES_NOT_ACTIVE: { status: 400, message: 'This booking series is no longer active' },
+  PAYMENT_WINDOW_NOT_OPEN: { status: 400, message: 'Payment for this occurrence is not open yet' },
+
+  // Waitlist errors
+  WAITLIST_ENTRY_NOT_FOUND: { status: 404, message: 'Waitlist entry not found' },
+  WAITLIST_ALREADY_JOINED: { status: 409, message: 'You are already on this waitlist' },
+  WAITLIST_LIMIT_REACHED: { status: 400, message: 'You are on too many waitlists' },
+  WAITLIST_OFFER_NOT_FOUND: { status: 404, message: 'Waitlist offer not found' },
+  WAITLIST_OFFER_EXPIRED: { status: 400, message: 'This offer has expired' },
+  WAITLIST_SLOT_TAKEN: { status: 409, message: 'Someone else has already taken this slot' },
+
+  // Reschedule errors
+  RESCHEDULE_PROPOSAL_NOT_FOUND: { status: 404, message: 'Reschedule proposal not found' },
+  RESCHEDULE_PROPOSAL_NOT_PENDING: { status: 400, message: 'This reschedule proposal has already been answered' },
+
+  // Reputation registry errors
+  REPUTATION_REGISTRY_NOT_CONFIGURED: { status: 503, message: 'On-chain reputation registry is not configured' },
+  REPUTATION_REGISTRY_UNAVAILABLE: { status: 502, message: 'Could not read the on-chain reputation registry' },
+
+  // Smoothing buffer errors
+  INSTANT_PAYOUT_NOT_ELIGIBLE: { status: 400, message: 'This booking is not eligible for instant payout' },
+  SMOOTHING_BUFFER_NOT_CONFIGURED: { status: 503, message: 'Instant payouts are not configured' },
+  SMOOTHING_BUFFER_UNAVAILABLE: { status: 502, message: 'Could not reach the smoothing buffer' },
+
+  // Property registry errors
+  PROPERTY_REGISTRY_NOT_CONFIGURED: { status: 503, message: 'On-chain property registry is not configured' },
+  PROPERTY_REGISTRY_UNAVAILABLE: { status: 502, message: 'Could not read the on-chain property registry' },
+  PROPERTY_NOT_REGISTERED: { status: 409, message: 'Property is not registered on-chain yet' },
+  PROPERTY_ALREADY_REGISTERED: { status: 409, message: 'Property is already registered on-chain' },
+  PROPERTY_REGISTRATION_FAILED: { status: 502, message: 'Could not register the property on-chain' },
+  PROPERTY_REGISTRY_ACTION_INVALID: { status: 409, message: 'This action is not allowed in the property\'s current registry state' },
+
+  // Conversation errors
+  MESSAGE_NOT_FOUND: { status: 404, message: 'Message not found' },
+  ATTACHMENT_REJECTED: { status: 422, message: 'This attachment was rejected by moderation' },
+  PROPOSAL_NOT_PENDING: { status: 400, message: 'This booking proposal has already been answered' },
+  PROPOSAL_EXPIRED: { status: 400, message: 'This booking proposal has expired' },
+
+  // Wallet recovery errors
+  GUARDIAN_NOT_FOUND: { status: 404, message: 'Guardian not found' },
+  GUARDIAN_INVALID: { status: 400, message: 'This address cannot be a guardian of your wallet' },
+  GUARDIAN_ALREADY_EXISTS: { status: 409, message: 'This guardian is already on your wallet' },
+  GUARDIAN_LIMIT_REACHED: { status: 400, message: 'Your wallet already has the maximum number of guardians' },
+  RECOVERY_NOT_FOUND: { status: 404, message: 'Recovery request not found' },
+  RECOVERY_IN_PROGRESS: { status: 409, message: 'A recovery is already in progress for this wallet' },
+  RECOVERY_ACTION_INVALID: { status: 409, message: 'This action is not allowed in the recovery\'s current state' },
+  RECOVERY_NOT_READY: { status: 409, message: 'This recovery still needs guardian approvals or its time-lock has not ended' },
+  RECOVERY_CHAIN_UNAVAILABLE: { status: 502, message: 'Could not read the wallet\'s recovery state on-chain' },
+  WALLET_RECOVERED: { status: 409, message: 'This wallet has been recovered to a new owner' },
+
+  // Stylist verification errors
+  VERIFICATION_PACKET_NOT_FOUND: { status: 404, message: 'Verification packet not found' },
+  VERIFICATION_DOCUMENT_NOT_FOUND: { status: 404, message: 'Verification document not found' },
+  VERIFICATION_UNDER_REVIEW: { status: 409, message: 'Your verification is being reviewed - you can\'t change it right now' },
+  VERIFICATION_INCOMPLETE: { status: 400, message: 'Add an ID, a selfie and at least one credential before submitting' },
+  VERIFICATION_DOCUMENT_LIMIT: { status: 400, message: 'Verification document limit reached' },
+  VERIFICATION_NOT_REVIEWABLE: { status: 409, message: 'Only submitted verification packets can be reviewed' },
+  VERIFICATION_ACCOUNT_SUSPENDED: { status: 403, message: 'This account is suspended - contact support' },
+  STYLIST_ALREADY_VERIFIED: { status: 409, message: 'You are already verified' },
+
   // Server errors
   INTERNAL_ERROR: { status: 500, message: 'An unexpected error occurred' },
   DATABASE_ERROR: { status: 500, message: 'Database operation failed' },
@@ -126,6 +126,13 @@ export const RATE_LIMIT_PRESETS = {
     maxRequests: 3,
     blockDurationMs: 60 * 60 * 1000, // 1 hour block after limit
   },
+  // Two-factor codes and step-up - strict, but leaves room for several
+  // step-ups in a session
+  twoFactor: {
+    windowMs: 15 * 60 * 1000, // 15 minutes
+    maxRequests: 20,
+    blockDurationMs: 15 * 60 * 1000, // 15 minutes block after limit
+  },
   // Booking creation
   createBooking: {
     windowMs: 60 * 60 * 1000, // 1 hour
@@ -353,6 +360,7 @@ export const rateLimiters = {
   login: createRateLimiter(RATE_LIMIT_PRESETS.login),
   signup: createRateLimiter(RATE_LIMIT_PRESETS.signup),
   passwordReset: createRateLimiter(RATE_LIMIT_PRESETS.passwordReset),
+  twoFactor: createRateLimiter(RATE_LIMIT_PRESETS.twoFactor),
   createBooking: createRateLimiter(RATE_LIMIT_PRESETS.createBooking),
   faucet: createRateLimiter(RATE_LIMIT_PRESETS.faucet),
   upload: createRateLimiter(RATE_LIMIT_PRESETS.upload),
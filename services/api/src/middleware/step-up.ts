@@ -0,0 +1,98 @@
+/**
+ * Step-Up and Two-Factor Session Middleware
+ *
+ * Sensitive actions need a fresh, single-use step-up token from
+ * POST /api/v1/auth/step-up/verify in the X-Step-Up-Token header. Without
+ * one the request fails with STEP_UP_REQUIRED and details telling the
+ * client which action to verify and how (TOTP, SMS or PASSWORD).
+ *
+ * Must be used after authenticate.
+ */
+
+import type { Response, NextFunction } from "express";
+import type { StepUpAction } from "@prisma/client";
+import { type AuthenticatedRequest } from "./auth";
+import { createError, type AppError } from "./error-handler";
+import { logger } from "../lib/logger";
+import prisma from "../lib/prisma";
+import {
+  STEP_UP_HEADER,
+  consumeStepUpToken,
+  getStepUpRequirement,
+  isTwoFactorRequired,
+} from "../lib/two-factor";
+
+/**
+ * Check (and spend) the request's step-up token for an action.
+ * Returns the error to pass on, or null when the request may proceed.
+ * Use inline when the amount is only known inside the handler.
+ */
+export async function checkStepUp(
+  req: AuthenticatedRequest,
+  action: StepUpAction,
+  amount?: bigint
+): Promise<AppError | null> {
+  const userId = req.userId!;
+  const { required, method } = await getStepUpRequirement(userId, action, amount);
+
+  if (!required) {
+    return null;
+  }
+  if (!method) {
+    return createError("TWO_FACTOR_ENROLLMENT_REQUIRED", { action });
+  }
+
+  const token = req.get(STEP_UP_HEADER);
+  if (!token) {
+    return createError("STEP_UP_REQUIRED", { action, method });
+  }
+
+  if (!(await consumeStepUpToken(userId, action, token))) {
+    logger.warn("Rejected step-up token", { event: "step_up_failure", userId, action, ip: req.ip });
+    return createError("STEP_UP_INVALID", { action, method });
+  }
+
+  return null;
+}
+
+/**
+ * Require a step-up token for every request to the route
+ */
+export function requireStepUp(action: StepUpAction) {
+  return async (req: AuthenticatedRequest, _res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const error = await checkStepUp(req, action);
+      next(error ?? undefined);
+    } catch (error) {
+      logger.error("Step-up check failed", { error, action });
+      next(createError("INTERNAL_ERROR"));
+    }
+  };
+}
+
+/**
+ * Admin routes need a session verified with a second factor. Admins who
+ * haven't enrolled yet are sent to set it up; anyone else falls through to
+ * the routers' own role checks.
+ */
+export async function requireTwoFactorSession(
+  req: AuthenticatedRequest,
+  _res: Response,
+  next: NextFunction
+): Promise<void> {
+  if (req.user?.tfa || !isTwoFactorRequired(req.user?.roles ?? [])) {
+    return next();
+  }
+
+  try {
+    const settings = await prisma.twoFactorSettings.findUnique({
+      where: { userId: req.userId! },
+      select: { method: true },
+    });
+
+    next(createError(settings?.method ? "TWO_FACTOR_SESSION_REQUIRED" : "TWO_FACTOR_ENROLLMENT_REQUIRED"));
+  } catch (error) {
+    logger.error("Two-factor session check failed", { error });
+    next(createError("INTERNAL_ERROR"));
+  }
+}
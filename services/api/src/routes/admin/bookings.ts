@@ -106,6 +106,7 @@ router.get("/", async (req: AuthenticatedRequest, res: Response, next: NextFunct
       ...b,
       quoteAmountCents: Number(b.quoteAmountCents),
       platformFeeCents: Number(b.platformFeeCents),
+      feeDiscountCents: Number(b.feeDiscountCents),
       stylistPayoutCents: Number(b.stylistPayoutCents),
       service: b.service ? {
         ...b.service,
@@ -176,6 +177,7 @@ router.get("/:id", async (req: AuthenticatedRequest, res: Response, next: NextFu
       ...booking,
       quoteAmountCents: Number(booking.quoteAmountCents),
       platformFeeCents: Number(booking.platformFeeCents),
+      feeDiscountCents: Number(booking.feeDiscountCents),
       stylistPayoutCents: Number(booking.stylistPayoutCents),
       service: booking.service ? {
         ...booking.service,
@@ -238,7 +240,7 @@ router.get("/stats/overview", async (_req: AuthenticatedRequest, res: Response,
         where: { status: BookingStatus.CANCELLED },
       }),
       prisma.booking.aggregate({
-        _sum: { platformFeeCents: true },
+        _sum: { platformFeeCents: true, feeDiscountCents: true },
         where: {
           status: BookingStatus.SETTLED,
           createdAt: { gte: thisMonth },
@@ -263,6 +265,8 @@ router.get("/stats/overview", async (_req: AuthenticatedRequest, res: Response,
           cancelled: cancelledBookings,
         },
         revenueThisMonth: Number(revenueThisMonth._sum.platformFeeCents || 0) / 100,
+        // Platform fee waived for reward tiers - already netted out of revenue
+        rewardDiscountsThisMonth: Number(revenueThisMonth._sum.feeDiscountCents || 0) / 100,
       },
     });
   } catch (error) {
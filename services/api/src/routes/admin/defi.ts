@@ -13,6 +13,8 @@
  * POST   /api/v1/admin/defi/pools/:id/unpause - Unpause a pool
  * POST   /api/v1/admin/defi/emergency/pause-all   - Pause all pools
  * POST   /api/v1/admin/defi/emergency/unpause-all - Unpause all pools
+ * GET    /api/v1/admin/defi/buffer        - Smoothing buffer health and alerts
+ * POST   /api/v1/admin/defi/buffer/payouts/:bookingId/reconcile - Retry repaying an instant payout
  */
 
 import { Router, Request, Response, NextFunction, IRouter } from "express";
@@ -21,6 +23,7 @@ import { prisma } from "../../lib/prisma";
 import { requireAuth, AuthenticatedRequest } from "../../middleware/auth";
 import { createError } from "../../middleware/error-handler";
 import { logger } from "../../lib/logger";
+import { getBufferOverview, reconcileInstantPayout } from "../../lib/smoothing-buffer";
 
 const router: IRouter = Router();
 
@@ -464,6 +467,83 @@ router.post("/emergency/unpause-all", async (req: Request, res: Response, next:
   }
 });
 
+// ============================================================================
+// Smoothing Buffer Routes
+// ============================================================================
+
+/**
+ * GET /buffer
+ * Smoothing buffer health, instant payouts awaiting repayment and alerts
+ * (on-chain amounts in USDC units, payout totals in cents)
+ */
+router.get("/buffer", async (_req: Request, res: Response, next: NextFunction) => {
+  try {
+    const result = await getBufferOverview();
+
+    if (!result.success || !result.data) {
+      return next(createError(result.error || "INTERNAL_ERROR"));
+    }
+
+    const { health, alerts, payouts } = result.data;
+
+    res.json({
+      success: true,
+      data: {
+        health: {
+          address: health.address,
+          balance: health.balance.toString(),
+          threshold: health.threshold.toString(),
+          pending: health.pending.toString(),
+          healthy: health.healthy,
+          totalPayouts: health.totalPayouts.toString(),
+          totalReplenishments: health.totalReplenishments.toString(),
+        },
+        needsReplenishment: !health.healthy,
+        alerts,
+        payouts: {
+          outstandingCents: payouts.outstandingCents.toString(),
+          byStatus: payouts.byStatus,
+        },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+/**
+ * POST /buffer/payouts/:bookingId/reconcile
+ * Retry returning a released instant payout to the buffer
+ */
+router.post("/buffer/payouts/:bookingId/reconcile", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { bookingId } = req.params;
+    const result = await reconcileInstantPayout(bookingId);
+
+    if (!result.success || !result.data) {
+      return next(createError(result.error || "INTERNAL_ERROR", result.details));
+    }
+
+    logger.info("Instant payout reconciled by admin", {
+      userId: (req as AuthenticatedRequest).userId,
+      bookingId,
+      status: result.data.status,
+    });
+
+    res.json({
+      success: true,
+      data: {
+        bookingId,
+        status: result.data.status,
+        amountCents: result.data.amountCents.toString(),
+        txHash: result.data.txHash,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 /**
  * GET /config
  * Get current DeFi configuration
@@ -0,0 +1,369 @@
+/**
+ * Admin Properties API Routes
+ * Verification and suspension of properties in the on-chain PropertyRegistry
+ * Reference: docs/vlossom/22-admin-control-panel.md
+ */
+
+import { Router, type Response, type NextFunction } from "express";
+import { authenticate, type AuthenticatedRequest, requireRole } from "../../middleware/auth";
+import prisma from "../../lib/prisma";
+import { z } from "zod";
+import { PropertyRegistryStatus } from "@prisma/client";
+import { createError } from "../../middleware/error-handler";
+import { AuditActions, TargetTypes, auditFromRequest } from "../../lib/audit";
+import {
+  cancelPropertySuspension,
+  executePropertySuspension,
+  getPropertyRegistryView,
+  registerProperty,
+  requestPropertySuspension,
+  resolvePropertyDispute,
+  revokeProperty,
+  syncProperty,
+  unsuspendProperty,
+  verifyProperty,
+  type PropertyRegistryResult,
+} from "../../lib/property-registry";
+
+const router: ReturnType<typeof Router> = Router();
+
+// All admin routes require authentication and ADMIN role
+router.use(authenticate);
+router.use(requireRole("ADMIN"));
+
+// Validation schemas
+const listPropertiesSchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+  registryStatus: z.nativeEnum(PropertyRegistryStatus).optional(),
+  unregistered: z.enum(["true", "false"]).optional(),
+  suspensionPending: z.enum(["true", "false"]).optional(),
+  search: z.string().max(100).optional(),
+});
+
+const suspensionSchema = z.object({
+  reason: z.string().min(10).max(500),
+});
+
+const resolveDisputeSchema = z.object({
+  upholdSuspension: z.boolean(),
+  resolution: z.string().min(10).max(2000),
+});
+
+const revokeSchema = z.object({
+  reason: z.string().min(10).max(1000),
+});
+
+function toApiError(result: PropertyRegistryResult<unknown>) {
+  return createError(result.error || "INTERNAL_ERROR", result.details);
+}
+
+/**
+ * GET /api/v1/admin/properties
+ * List properties by registry state; `registryStatus=PENDING` is the verification queue
+ */
+router.get("/", async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { page, pageSize, registryStatus, unregistered, suspensionPending, search } =
+      listPropertiesSchema.parse(req.query);
+
+    const where = {
+      ...(registryStatus && { registryStatus }),
+      ...(unregistered === "true" && { registryId: null }),
+      ...(suspensionPending === "true" && { suspensionRequestedAt: { not: null } }),
+      ...(search && {
+        OR: [
+          { name: { contains: search, mode: "insensitive" as const } },
+          { city: { contains: search, mode: "insensitive" as const } },
+        ],
+      }),
+    };
+
+    const [properties, total] = await Promise.all([
+      prisma.property.findMany({
+        where,
+        include: {
+          _count: { select: { chairs: true } },
+        },
+        orderBy: { createdAt: "asc" },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+      prisma.property.count({ where }),
+    ]);
+
+    const owners = await prisma.user.findMany({
+      where: { id: { in: [...new Set(properties.map((p) => p.ownerId))] } },
+      select: { id: true, displayName: true, email: true },
+    });
+    const ownerById = new Map(owners.map((owner) => [owner.id, owner]));
+
+    res.json({
+      properties: properties.map((property) => ({
+        ...property,
+        owner: ownerById.get(property.ownerId) ?? null,
+      })),
+      pagination: {
+        page,
+        pageSize,
+        total,
+        totalPages: Math.ceil(total / pageSize),
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError("VALIDATION_ERROR", { details: error.errors }));
+    }
+    console.error("Failed to list properties:", error);
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
+/**
+ * GET /api/v1/admin/properties/:id/registry
+ * Database and on-chain registry state side by side, with any drift
+ */
+router.get("/:id/registry", async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const result = await getPropertyRegistryView(req.params.id);
+    if (!result.success || !result.data) {
+      return next(toApiError(result));
+    }
+
+    res.json({ registry: result.data });
+  } catch (error) {
+    console.error("Failed to read property registry state:", error);
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
+/**
+ * POST /api/v1/admin/properties/:id/register
+ * Retry registration from the owner's wallet
+ */
+router.post("/:id/register", async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    const result = await registerProperty(id);
+    if (!result.success || !result.data) {
+      return next(toApiError(result));
+    }
+
+    await auditFromRequest(req, AuditActions.REGISTER_PROPERTY, TargetTypes.PROPERTY, id, undefined, {
+      registryId: result.data.registryId,
+      txHash: result.data.registryTxHash,
+    });
+
+    res.json({ property: result.data });
+  } catch (error) {
+    console.error("Failed to register property:", error);
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
+/**
+ * POST /api/v1/admin/properties/:id/verify
+ * Verify a pending property on-chain
+ */
+router.post("/:id/verify", async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    const result = await verifyProperty(id);
+    if (!result.success || !result.data) {
+      return next(toApiError(result));
+    }
+
+    await auditFromRequest(req, AuditActions.VERIFY_PROPERTY, TargetTypes.PROPERTY, id, undefined, {
+      txHash: result.data.txHash,
+    });
+
+    res.json(result.data);
+  } catch (error) {
+    console.error("Failed to verify property:", error);
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
+/**
+ * POST /api/v1/admin/properties/:id/suspension
+ * Request a suspension - the owner has 24 hours to dispute it
+ */
+router.post("/:id/suspension", async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const { reason } = suspensionSchema.parse(req.body);
+
+    const result = await requestPropertySuspension(id, reason);
+    if (!result.success || !result.data) {
+      return next(toApiError(result));
+    }
+
+    await auditFromRequest(req, AuditActions.REQUEST_PROPERTY_SUSPENSION, TargetTypes.PROPERTY, id, reason, {
+      txHash: result.data.txHash,
+      executeAfter: result.data.mirror.suspensionExecuteAfter,
+    });
+
+    res.json(result.data);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError("VALIDATION_ERROR", { details: error.errors }));
+    }
+    console.error("Failed to request property suspension:", error);
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
+/**
+ * POST /api/v1/admin/properties/:id/suspension/execute
+ * Suspend now that the dispute window has ended
+ */
+router.post("/:id/suspension/execute", async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    const result = await executePropertySuspension(id);
+    if (!result.success || !result.data) {
+      return next(toApiError(result));
+    }
+
+    await auditFromRequest(req, AuditActions.SUSPEND_PROPERTY, TargetTypes.PROPERTY, id, undefined, {
+      txHash: result.data.txHash,
+    });
+
+    res.json(result.data);
+  } catch (error) {
+    console.error("Failed to execute property suspension:", error);
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
+/**
+ * POST /api/v1/admin/properties/:id/suspension/cancel
+ * Drop a pending suspension
+ */
+router.post("/:id/suspension/cancel", async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    const result = await cancelPropertySuspension(id);
+    if (!result.success || !result.data) {
+      return next(toApiError(result));
+    }
+
+    await auditFromRequest(req, AuditActions.CANCEL_PROPERTY_SUSPENSION, TargetTypes.PROPERTY, id, undefined, {
+      txHash: result.data.txHash,
+    });
+
+    res.json(result.data);
+  } catch (error) {
+    console.error("Failed to cancel property suspension:", error);
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
+/**
+ * POST /api/v1/admin/properties/:id/dispute/resolve
+ * Rule on the owner's dispute - upholding suspends once the window has ended
+ */
+router.post("/:id/dispute/resolve", async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const { upholdSuspension, resolution } = resolveDisputeSchema.parse(req.body);
+
+    const result = await resolvePropertyDispute(id, upholdSuspension);
+    if (!result.success || !result.data) {
+      return next(toApiError(result));
+    }
+
+    await auditFromRequest(req, AuditActions.RESOLVE_PROPERTY_DISPUTE, TargetTypes.PROPERTY, id, resolution, {
+      upholdSuspension,
+      txHash: result.data.txHash,
+    });
+
+    res.json(result.data);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError("VALIDATION_ERROR", { details: error.errors }));
+    }
+    console.error("Failed to resolve property dispute:", error);
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
+/**
+ * POST /api/v1/admin/properties/:id/unsuspend
+ * Return a suspended property to verified
+ */
+router.post("/:id/unsuspend", async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    const result = await unsuspendProperty(id);
+    if (!result.success || !result.data) {
+      return next(toApiError(result));
+    }
+
+    await auditFromRequest(req, AuditActions.UNSUSPEND_PROPERTY, TargetTypes.PROPERTY, id, undefined, {
+      txHash: result.data.txHash,
+    });
+
+    res.json(result.data);
+  } catch (error) {
+    console.error("Failed to unsuspend property:", error);
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
+/**
+ * POST /api/v1/admin/properties/:id/revoke
+ * Permanently revoke a property
+ */
+router.post("/:id/revoke", async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const { reason } = revokeSchema.parse(req.body);
+
+    const result = await revokeProperty(id);
+    if (!result.success || !result.data) {
+      return next(toApiError(result));
+    }
+
+    await auditFromRequest(req, AuditActions.REVOKE_PROPERTY, TargetTypes.PROPERTY, id, reason, {
+      txHash: result.data.txHash,
+    });
+
+    res.json(result.data);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError("VALIDATION_ERROR", { details: error.errors }));
+    }
+    console.error("Failed to revoke property:", error);
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
+/**
+ * POST /api/v1/admin/properties/:id/sync
+ * Re-mirror a property from the registry now
+ */
+router.post("/:id/sync", async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    const result = await syncProperty(id);
+    if (!result.success || !result.data) {
+      return next(toApiError(result));
+    }
+
+    await auditFromRequest(req, AuditActions.SYNC_PROPERTY, TargetTypes.PROPERTY, id);
+
+    res.json({ mirror: result.data });
+  } catch (error) {
+    console.error("Failed to sync property:", error);
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
+export default router;
@@ -0,0 +1,161 @@
+/**
+ * Admin Chair Rentals API Routes
+ * Oversight of escrow-backed chair rental payments
+ * Reference: docs/vlossom/22-admin-control-panel.md
+ */
+
+import { Router, type Response, type NextFunction } from "express";
+import { authenticate, type AuthenticatedRequest, requireRole } from "../../middleware/auth";
+import prisma from "../../lib/prisma";
+import { z } from "zod";
+import { ChairRentalStatus, type ChairRentalRequest } from "@prisma/client";
+import { createError } from "../../middleware/error-handler";
+import { AuditActions, TargetTypes, auditFromRequest } from "../../lib/audit";
+import {
+  disputeRentalPayment,
+  resolveRentalDispute,
+  type RentalPaymentResult,
+} from "../../lib/chair-rentals";
+
+const router: ReturnType<typeof Router> = Router();
+
+// All admin routes require authentication and ADMIN role
+router.use(authenticate);
+router.use(requireRole("ADMIN"));
+
+// Validation schemas
+const listRentalsSchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+  status: z.nativeEnum(ChairRentalStatus).optional(),
+  propertyId: z.string().uuid().optional(),
+  stylistId: z.string().uuid().optional(),
+  disputed: z.enum(["true", "false"]).optional(),
+});
+
+const disputeSchema = z.object({
+  reason: z.string().min(10).max(1000),
+});
+
+const resolveSchema = z.object({
+  refundPercentage: z.number().int().min(0).max(100),
+  resolution: z.string().min(10).max(2000),
+});
+
+function toApiError(result: RentalPaymentResult<unknown>) {
+  return createError(result.error || "INTERNAL_ERROR", result.details);
+}
+
+function serializeRental(rental: ChairRentalRequest) {
+  return {
+    ...rental,
+    totalAmountCents: Number(rental.totalAmountCents),
+    platformFeeCents: Number(rental.platformFeeCents),
+    ownerPayoutCents: Number(rental.ownerPayoutCents),
+    refundAmountCents: rental.refundAmountCents !== null ? Number(rental.refundAmountCents) : null,
+  };
+}
+
+/**
+ * GET /api/v1/admin/rentals
+ * List chair rentals with payment state; `disputed=true` shows open disputes
+ */
+router.get("/", async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { page, pageSize, status, propertyId, stylistId, disputed } = listRentalsSchema.parse(req.query);
+
+    const where = {
+      status,
+      propertyId,
+      stylistId,
+      ...(disputed === "true" && { disputedAt: { not: null }, disputeResolvedAt: null }),
+    };
+
+    const [rentals, total] = await Promise.all([
+      prisma.chairRentalRequest.findMany({
+        where,
+        include: {
+          property: { select: { id: true, name: true, ownerId: true } },
+          chair: { select: { id: true, name: true } },
+        },
+        orderBy: { createdAt: "desc" },
+        skip: (page - 1) * pageSize,
+        take: pageSize,
+      }),
+      prisma.chairRentalRequest.count({ where }),
+    ]);
+
+    res.json({
+      rentals: rentals.map(serializeRental),
+      pagination: {
+        page,
+        pageSize,
+        total,
+        totalPages: Math.ceil(total / pageSize),
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError("VALIDATION_ERROR", { details: error.errors }));
+    }
+    console.error("Failed to list rentals:", error);
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
+/**
+ * POST /api/v1/admin/rentals/:id/dispute
+ * Hold a rental payment in escrow pending review
+ */
+router.post("/:id/dispute", async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const { reason } = disputeSchema.parse(req.body);
+
+    const result = await disputeRentalPayment(id, req.userId!, reason);
+    if (!result.success || !result.data) {
+      return next(toApiError(result));
+    }
+
+    await auditFromRequest(req, AuditActions.DISPUTE_RENTAL_PAYMENT, TargetTypes.CHAIR_RENTAL, id, reason);
+
+    res.json({ rental: serializeRental(result.data) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError("VALIDATION_ERROR", { details: error.errors }));
+    }
+    console.error("Failed to dispute rental payment:", error);
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
+/**
+ * POST /api/v1/admin/rentals/:id/resolve
+ * Settle a disputed rental payment between stylist and owner
+ */
+router.post("/:id/resolve", async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const input = resolveSchema.parse(req.body);
+
+    const result = await resolveRentalDispute(id, req.userId!, input);
+    if (!result.success || !result.data) {
+      return next(toApiError(result));
+    }
+
+    await auditFromRequest(req, AuditActions.RESOLVE_RENTAL_DISPUTE, TargetTypes.CHAIR_RENTAL, id, input.resolution, {
+      refundPercentage: input.refundPercentage,
+      settlementTxHash: result.data.settlementTxHash,
+    });
+
+    res.json({ rental: serializeRental(result.data) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError("VALIDATION_ERROR", { details: error.errors }));
+    }
+    console.error("Failed to resolve rental dispute:", error);
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
+export default router;
@@ -1,13 +1,23 @@
 /**
  * Admin Users API Routes
- * Provides user management for admin dashboard
+ * Provides user management and the stylist verification review queue for
+ * the admin dashboard
  */
 
 import { Router, type Response, type NextFunction } from "express";
+import { VerificationPacketStatus, VerificationStatus } from "@prisma/client";
 import { authenticate, type AuthenticatedRequest, requireRole } from "../../middleware/auth";
 import prisma from "../../lib/prisma";
 import { z } from "zod";
 import { createError } from "../../middleware/error-handler";
+import {
+  getVerificationPacketForReview,
+  listVerificationQueue,
+  reviewVerificationPacket,
+  setVerificationStatus,
+  type VerificationActor,
+  type VerificationDecision,
+} from "../../lib/stylist-verification";
 
 const router: ReturnType<typeof Router> = Router();
 
@@ -26,6 +36,35 @@ const listUsersSchema = z.object({
   sortOrder: z.enum(["asc", "desc"]).default("desc"),
 });
 
+const listVerificationsSchema = z.object({
+  status: z.nativeEnum(VerificationPacketStatus).default("SUBMITTED"),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+  search: z.string().optional(),
+});
+
+const approveVerificationSchema = z.object({
+  note: z.string().max(1000).optional(),
+});
+
+// The reason is sent to the stylist, so it has to say something useful
+const verificationReasonSchema = z.object({
+  reason: z.string().min(10).max(1000),
+});
+
+const updateUserSchema = z.object({
+  roles: z.array(z.string()).optional(),
+  verificationStatus: z.nativeEnum(VerificationStatus).optional(),
+});
+
+function getActor(req: AuthenticatedRequest): VerificationActor {
+  return {
+    userId: req.userId!,
+    ipAddress: req.ip,
+    userAgent: req.headers["user-agent"],
+  };
+}
+
 /**
  * GET /api/v1/admin/users
  * List all users with pagination and filtering
@@ -99,6 +138,97 @@ router.get("/", async (req: AuthenticatedRequest, res: Response, next: NextFunct
   }
 });
 
+/**
+ * GET /api/v1/admin/users/verifications
+ * Stylist verification packets awaiting review (or in another status)
+ */
+router.get("/verifications", async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { status, page, pageSize, search } = listVerificationsSchema.parse(req.query);
+
+    const { packets, total } = await listVerificationQueue({ status, page, pageSize, search });
+
+    res.json({
+      packets,
+      pagination: {
+        page,
+        pageSize,
+        total,
+        totalPages: Math.ceil(total / pageSize),
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError("VALIDATION_ERROR", { details: error.errors }));
+    }
+    console.error("Failed to fetch verification queue:", error);
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
+/**
+ * GET /api/v1/admin/users/verifications/:packetId
+ * Packet with short-lived document links and the stylist's earlier decisions
+ */
+router.get("/verifications/:packetId", async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const result = await getVerificationPacketForReview(req.params.packetId);
+    if (!result.success || !result.data) {
+      return next(createError(result.error || "INTERNAL_ERROR", result.details));
+    }
+
+    res.json({ packet: result.data });
+  } catch (error) {
+    console.error("Failed to fetch verification packet:", error);
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
+/**
+ * Shared handler for the three review decisions
+ */
+function reviewHandler(decision: VerificationDecision) {
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const note =
+        decision === "APPROVE"
+          ? approveVerificationSchema.parse(req.body).note
+          : verificationReasonSchema.parse(req.body).reason;
+
+      const result = await reviewVerificationPacket(req.params.packetId, decision, note, getActor(req));
+      if (!result.success || !result.data) {
+        return next(createError(result.error || "INTERNAL_ERROR", result.details));
+      }
+
+      res.json({ packet: result.data });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return next(createError("VALIDATION_ERROR", { details: error.errors }));
+      }
+      console.error("Failed to review verification packet:", error);
+      return next(createError("INTERNAL_ERROR"));
+    }
+  };
+}
+
+/**
+ * POST /api/v1/admin/users/verifications/:packetId/approve
+ * Verify the stylist and award the VERIFIED_STYLIST badge
+ */
+router.post("/verifications/:packetId/approve", reviewHandler("APPROVE"));
+
+/**
+ * POST /api/v1/admin/users/verifications/:packetId/reject
+ * Reject the packet; the stylist can start a new one
+ */
+router.post("/verifications/:packetId/reject", reviewHandler("REJECT"));
+
+/**
+ * POST /api/v1/admin/users/verifications/:packetId/request-info
+ * Send the packet back to the stylist to add documents
+ */
+router.post("/verifications/:packetId/request-info", reviewHandler("REQUEST_INFO"));
+
 /**
  * GET /api/v1/admin/users/:id
  * Get detailed user information
@@ -163,31 +293,33 @@ router.get("/:id", async (req: AuthenticatedRequest, res: Response, next: NextFu
 router.patch("/:id", async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   try {
     const { id } = req.params;
-    const { roles, verificationStatus } = req.body;
+    const { roles, verificationStatus } = updateUserSchema.parse(req.body);
 
-    const updateData: Record<string, unknown> = {};
+    const existing = await prisma.user.findUnique({ where: { id }, select: { id: true } });
+    if (!existing) {
+      return next(createError("USER_NOT_FOUND"));
+    }
 
     if (roles !== undefined) {
       // Validate roles
       const validRoles = ["CUSTOMER", "STYLIST", "PROPERTY_OWNER", "ADMIN"];
-      const invalidRoles = roles.filter((r: string) => !validRoles.includes(r));
+      const invalidRoles = roles.filter((r) => !validRoles.includes(r));
       if (invalidRoles.length > 0) {
         return next(createError("INVALID_ROLE", { invalidRoles }));
       }
-      updateData.roles = roles;
+      await prisma.user.update({ where: { id }, data: { roles } });
     }
 
+    // Status changes outside the packet flow are audited and the user is told
     if (verificationStatus !== undefined) {
-      const validStatuses = ["PENDING", "VERIFIED", "REJECTED"];
-      if (!validStatuses.includes(verificationStatus)) {
-        return next(createError("VALIDATION_ERROR", { message: "Invalid verification status" }));
+      const result = await setVerificationStatus(id, verificationStatus, getActor(req));
+      if (!result.success) {
+        return next(createError(result.error || "INTERNAL_ERROR", result.details));
       }
-      updateData.verificationStatus = verificationStatus;
     }
 
-    const user = await prisma.user.update({
+    const user = await prisma.user.findUniqueOrThrow({
       where: { id },
-      data: updateData,
       select: {
         id: true,
         email: true,
@@ -199,6 +331,9 @@ router.patch("/:id", async (req: AuthenticatedRequest, res: Response, next: Next
 
     res.json({ user });
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError("VALIDATION_ERROR", { details: error.errors }));
+    }
     console.error("Failed to update user:", error);
     return next(createError("INTERNAL_ERROR"));
   }
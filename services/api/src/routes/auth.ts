@@ -3,6 +3,8 @@
  * Reference: docs/specs/auth/feature-spec.md
  * V3.2: Added SIWE (Sign-In with Ethereum) authentication
  * V7.0.0: httpOnly cookies for JWT tokens (H-1 security fix)
+ * Two-factor: sign-in stops at a challenge for users with 2FA enabled, and
+ * linked account / password changes need a step-up token
  */
 
 import { Router, type Request, type Response, type NextFunction } from "express";
@@ -27,6 +29,7 @@ import {
   CLEAR_COOKIE_OPTIONS,
 } from "../lib/cookie-config";
 import { setCsrfCookie, clearCsrfCookie } from "../middleware/csrf";
+import { requireStepUp } from "../middleware/step-up";
 import {
   createRefreshToken,
   rotateRefreshToken,
@@ -34,6 +37,7 @@ import {
   revokeAllUserTokens,
   hashToken,
 } from "../lib/token-service";
+import { createLoginChallenge, getLoginRequirement, verifyLoginChallenge } from "../lib/two-factor";
 
 const router: ReturnType<typeof Router> = Router();
 const prisma = new PrismaClient();
@@ -347,7 +351,10 @@ router.post("/signup", rateLimiters.signup, async (req: Request, res: Response,
  *                 type: string
  *     responses:
  *       200:
- *         description: Login successful
+ *         description: |
+ *           Login successful. Accounts with 2FA get `twoFactorRequired`, a
+ *           `challengeToken` and `method` instead of a session - finish with
+ *           POST /api/v1/auth/2fa/login.
  *         content:
  *           application/json:
  *             schema:
@@ -357,6 +364,16 @@ router.post("/signup", rateLimiters.signup, async (req: Request, res: Response,
  *                   $ref: '#/components/schemas/User'
  *                 token:
  *                   type: string
+ *                 twoFactorRequired:
+ *                   type: boolean
+ *                 challengeToken:
+ *                   type: string
+ *                 method:
+ *                   type: string
+ *                   enum: [TOTP, SMS]
+ *                 twoFactorEnrollmentRequired:
+ *                   type: boolean
+ *                   description: Admin without 2FA - the session can only enroll
  *       401:
  *         description: Invalid credentials
  *       423:
@@ -413,8 +430,14 @@ router.post("/login", rateLimiters.login, async (req: Request, res: Response, ne
     // F4.7: Clear failed login attempts on successful login
     clearLoginAttempts(email);
 
-    // V7.0.0: Generate access token
+    // Two-factor: stop at a challenge instead of issuing the session
     const roles = user.roles as string[];
+    const { challengeRequired, enrollmentRequired } = await getLoginRequirement(user.id, roles);
+    if (challengeRequired) {
+      return sendLoginChallenge(req, res, next, user.id);
+    }
+
+    // V7.0.0: Generate access token
     const { accessToken } = generateTokenPair(user.id, {
       email: user.email ?? undefined,
       walletAddress: user.walletAddress,
@@ -451,6 +474,7 @@ router.post("/login", rateLimiters.login, async (req: Request, res: Response, ne
       },
       token: accessToken, // For mobile compatibility
       refreshToken, // V8.0.0: Return refresh token for mobile (stored in SecureStore)
+      ...(enrollmentRequired && { twoFactorEnrollmentRequired: true }),
     });
   } catch (error) {
     logger.error("Login error", { error });
@@ -481,7 +505,7 @@ router.post("/logout", authenticate, async (req: AuthenticatedRequest, res: Resp
 
 /**
  * GET /api/v1/auth/me
- * Get current authenticated user
+ * Get current authenticated user, and whether the session passed 2FA
  */
 router.get("/me", authenticate, async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
   try {
@@ -519,6 +543,7 @@ router.get("/me", authenticate, async (req: AuthenticatedRequest, res: Response,
         avatarUrl: user.avatarUrl,
         verificationStatus: user.verificationStatus,
       },
+      twoFactorVerified: Boolean(req.user?.tfa), // Session signed in with a second factor
     });
   } catch (error) {
     logger.error("Get user error", { error });
@@ -833,8 +858,14 @@ router.post("/siwe", rateLimiters.login, async (req: Request, res: Response, nex
       return next(createError("INTERNAL_ERROR"));
     }
 
-    // V7.0.0: Generate token pair and set httpOnly cookies
+    // Two-factor: existing users with 2FA stop at a challenge
     const roles = user.roles as string[];
+    const { challengeRequired, enrollmentRequired } = await getLoginRequirement(user.id, roles);
+    if (challengeRequired) {
+      return sendLoginChallenge(req, res, next, user.id);
+    }
+
+    // V7.0.0: Generate token pair and set httpOnly cookies
     const { accessToken, refreshToken } = generateTokenPair(user.id, {
       email: user.email ?? undefined,
       walletAddress: user.walletAddress,
@@ -867,6 +898,7 @@ router.post("/siwe", rateLimiters.login, async (req: Request, res: Response, nex
       },
       token: accessToken, // For mobile compatibility
       isNewUser,
+      ...(enrollmentRequired && { twoFactorEnrollmentRequired: true }),
     });
   } catch (error) {
     logger.error("SIWE authentication error", { error });
@@ -874,6 +906,102 @@ router.post("/siwe", rateLimiters.login, async (req: Request, res: Response, nex
   }
 });
 
+// ============================================================================
+// Two-Factor Sign-In
+// ============================================================================
+
+/**
+ * Respond to a correct password / SIWE signature with a two-factor challenge
+ * instead of a session
+ */
+async function sendLoginChallenge(req: Request, res: Response, next: NextFunction, userId: string): Promise<void> {
+  const result = await createLoginChallenge(userId, {
+    ipAddress: req.ip,
+    userAgent: req.get("User-Agent"),
+  });
+
+  if (!result.success || !result.data) {
+    return next(createError(result.error || "INTERNAL_ERROR", result.details));
+  }
+
+  logger.info("Sign-in awaiting second factor", { userId, method: result.data.method });
+
+  res.json({
+    twoFactorRequired: true,
+    challengeToken: result.data.challengeToken,
+    method: result.data.method,
+    expiresAt: result.data.expiresAt,
+  });
+}
+
+/**
+ * POST /api/v1/auth/2fa/login
+ * Finish sign-in with the challenge token and an authenticator / SMS code or
+ * a recovery code. Issues a 2FA-verified session.
+ */
+router.post("/2fa/login", rateLimiters.login, async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const { challengeToken, code, recoveryCode } = req.body;
+
+    if (!challengeToken || (!code && !recoveryCode)) {
+      return next(createError("MISSING_FIELD", { fields: ["challengeToken", "code"] }));
+    }
+
+    const result = await verifyLoginChallenge(String(challengeToken), {
+      code: code ? String(code).trim() : undefined,
+      recoveryCode: recoveryCode ? String(recoveryCode) : undefined,
+    });
+
+    if (!result.success || !result.data) {
+      return next(createError(result.error || "INVALID_TWO_FACTOR_CODE", result.details));
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: result.data.userId },
+    });
+
+    if (!user) {
+      return next(createError("USER_NOT_FOUND"));
+    }
+
+    const roles = user.roles as string[];
+    const { accessToken } = generateTokenPair(user.id, {
+      email: user.email ?? undefined,
+      walletAddress: user.walletAddress,
+      roles,
+      twoFactor: true,
+    });
+
+    const { token: refreshToken } = await createRefreshToken(user.id, {
+      userAgent: req.get("User-Agent"),
+      ipAddress: req.ip,
+      twoFactorVerified: true,
+    });
+
+    res.cookie(COOKIE_NAMES.ACCESS_TOKEN, accessToken, ACCESS_TOKEN_OPTIONS);
+    res.cookie(COOKIE_NAMES.REFRESH_TOKEN, refreshToken, REFRESH_TOKEN_OPTIONS);
+    setCsrfCookie(res);
+
+    logger.info("User logged in with second factor", { userId: user.id });
+
+    res.json({
+      user: {
+        id: user.id,
+        email: user.email,
+        phone: user.phone,
+        displayName: user.displayName,
+        role: roles[0] || "CUSTOMER",
+        walletAddress: user.walletAddress,
+      },
+      token: accessToken, // For mobile compatibility
+      refreshToken,
+    });
+  } catch (error) {
+    logger.error("Two-factor login error", { error });
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
 // ============================================================================
 // Account Linking Routes - V3.2
 // ============================================================================
@@ -923,8 +1051,9 @@ router.get("/linked-accounts", authenticate, async (req: AuthenticatedRequest, r
  * POST /api/v1/auth/link-wallet
  * Link an external wallet to the current user's account
  * V3.2: Requires SIWE signature to prove wallet ownership
+ * Needs a LINKED_ACCOUNT step-up token, as does unlinking
  */
-router.post("/link-wallet", authenticate, async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+router.post("/link-wallet", authenticate, requireStepUp("LINKED_ACCOUNT"), async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
   try {
     if (!req.userId) {
       return next(createError("UNAUTHORIZED"));
@@ -1065,7 +1194,7 @@ router.post("/link-wallet", authenticate, async (req: AuthenticatedRequest, res:
  * Unlink an authentication method from the current user's account
  * V3.2: Prevents unlinking if it's the only auth method
  */
-router.delete("/unlink-account/:id", authenticate, async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+router.delete("/unlink-account/:id", authenticate, requireStepUp("LINKED_ACCOUNT"), async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
   try {
     if (!req.userId) {
       return next(createError("UNAUTHORIZED"));
@@ -1329,8 +1458,9 @@ router.post("/reset-password", async (req: Request, res: Response, next: NextFun
 /**
  * POST /api/v1/auth/change-password
  * Change password for authenticated user
+ * Users with 2FA also need a PASSWORD_CHANGE step-up token
  */
-router.post("/change-password", authenticate, async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+router.post("/change-password", authenticate, requireStepUp("PASSWORD_CHANGE"), async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
   try {
     if (!req.userId) {
       return next(createError("UNAUTHORIZED"));
@@ -1440,12 +1570,13 @@ router.post("/refresh", async (req: Request, res: Response, next: NextFunction):
       return next(createError("USER_NOT_FOUND"));
     }
 
-    // Generate new access token
+    // Generate new access token - a 2FA-verified session stays verified
     const roles = user.roles as string[];
     const { accessToken } = generateTokenPair(user.id, {
       email: user.email ?? undefined,
       walletAddress: user.walletAddress,
       roles,
+      twoFactor: rotationResult.twoFactorVerified,
     });
 
     // Set new cookies
@@ -0,0 +1,260 @@
+/**
+ * Booking Series API Routes
+ *
+ * Recurring bookings / standing appointments. A series expands into one
+ * booking per occurrence; each occurrence is approved with the series,
+ * then paid and settled through the standard booking flow.
+ * Reference: docs/vlossom/07-booking-and-approval-flow.md
+ */
+
+import { Router, Response, NextFunction } from "express";
+import { authenticate, type AuthenticatedRequest } from "../middleware/auth";
+import { createError } from "../middleware/error-handler";
+import { logger } from "../lib/logger";
+import { z } from "zod";
+import {
+  checkSeriesAvailability,
+  createSeries,
+  listSeriesForUser,
+  getSeriesForUser,
+  approveSeries,
+  declineSeries,
+  cancelSeriesOccurrences,
+  type CreateSeriesInput,
+  type RecurringBookingResult,
+} from "../lib/recurring-bookings";
+
+const router: ReturnType<typeof Router> = Router();
+
+// ============================================================================
+// Validation Schemas
+// ============================================================================
+
+const seriesSchema = z.object({
+  stylistId: z.string().uuid(),
+  serviceId: z.string().uuid(),
+  frequency: z.enum(["WEEKLY", "FORTNIGHTLY", "MONTHLY"]),
+  startTime: z.string().datetime(),
+  endDate: z.string().datetime().optional(),
+  occurrenceCount: z.number().int().min(2).optional(),
+  locationType: z.enum(["STYLIST_BASE", "CUSTOMER_HOME"]),
+  locationAddress: z.string().min(1).max(500),
+  locationLat: z.number().min(-90).max(90).optional(),
+  locationLng: z.number().min(-180).max(180).optional(),
+  notes: z.string().max(1000).optional(),
+  skipConflicts: z.boolean().optional().default(false),
+});
+
+const approveSeriesSchema = z.object({
+  notes: z.string().max(500).optional(),
+});
+
+const declineSeriesSchema = z.object({
+  reason: z.string().min(1).max(500),
+});
+
+const cancelOccurrencesSchema = z.object({
+  bookingId: z.string().uuid(),
+  scope: z.enum(["THIS", "THIS_AND_FOLLOWING"]),
+  reason: z.string().min(1).max(500),
+});
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Map a failed service result to an API error
+ */
+function toApiError(result: RecurringBookingResult<unknown>) {
+  return createError(result.error || "INTERNAL_ERROR", result.details);
+}
+
+function toSeriesInput(customerId: string, input: z.infer<typeof seriesSchema>): CreateSeriesInput {
+  return {
+    ...input,
+    customerId,
+    startTime: new Date(input.startTime),
+    endDate: input.endDate ? new Date(input.endDate) : undefined,
+  };
+}
+
+// ============================================================================
+// POST /api/v1/booking-series/check-availability
+// Availability of every occurrence of a proposed series
+// ============================================================================
+
+router.post(
+  "/check-availability",
+  authenticate,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const input = seriesSchema.parse(req.body);
+      const result = await checkSeriesAvailability(toSeriesInput(req.userId!, input));
+
+      if (!result.success) {
+        return next(toApiError(result));
+      }
+
+      return res.json({ success: true, data: result.data });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return next(createError("VALIDATION_ERROR", { details: error.errors }));
+      }
+      logger.error("Error checking series availability", { error });
+      return next(createError("INTERNAL_ERROR"));
+    }
+  }
+);
+
+// ============================================================================
+// POST /api/v1/booking-series
+// Customer requests a recurring booking
+// ============================================================================
+
+router.post("/", authenticate, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const input = seriesSchema.parse(req.body);
+    // customerId derived from JWT, not from request body
+    const result = await createSeries(toSeriesInput(req.userId!, input));
+
+    if (!result.success) {
+      return next(toApiError(result));
+    }
+
+    return res.status(201).json({ success: true, data: result.data });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError("VALIDATION_ERROR", { details: error.errors }));
+    }
+    logger.error("Error creating booking series", { error });
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
+// ============================================================================
+// GET /api/v1/booking-series
+// Series the authenticated user is part of (as customer or stylist)
+// ============================================================================
+
+router.get("/", authenticate, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const series = await listSeriesForUser(req.userId!);
+    return res.json({ success: true, data: { series } });
+  } catch (error) {
+    logger.error("Error listing booking series", { error });
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
+// ============================================================================
+// GET /api/v1/booking-series/:id
+// Series detail with each occurrence and its payment window
+// ============================================================================
+
+router.get("/:id", authenticate, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const series = await getSeriesForUser(req.params.id, req.userId!);
+
+    if (!series) {
+      return next(createError("SERIES_NOT_FOUND"));
+    }
+
+    return res.json({ success: true, data: series });
+  } catch (error) {
+    logger.error("Error fetching booking series", { error });
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
+// ============================================================================
+// POST /api/v1/booking-series/:id/approve
+// Stylist approves every pending occurrence
+// ============================================================================
+
+router.post(
+  "/:id/approve",
+  authenticate,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const input = approveSeriesSchema.parse(req.body);
+      const result = await approveSeries(req.params.id, req.userId!, input.notes);
+
+      if (!result.success) {
+        return next(toApiError(result));
+      }
+
+      return res.json({ success: true, data: result.data });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return next(createError("VALIDATION_ERROR", { details: error.errors }));
+      }
+      logger.error("Error approving booking series", { error });
+      return next(createError("INTERNAL_ERROR"));
+    }
+  }
+);
+
+// ============================================================================
+// POST /api/v1/booking-series/:id/decline
+// Stylist declines the series
+// ============================================================================
+
+router.post(
+  "/:id/decline",
+  authenticate,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const input = declineSeriesSchema.parse(req.body);
+      const result = await declineSeries(req.params.id, req.userId!, input.reason);
+
+      if (!result.success) {
+        return next(toApiError(result));
+      }
+
+      return res.json({ success: true, data: result.data });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return next(createError("VALIDATION_ERROR", { details: error.errors }));
+      }
+      logger.error("Error declining booking series", { error });
+      return next(createError("INTERNAL_ERROR"));
+    }
+  }
+);
+
+// ============================================================================
+// POST /api/v1/booking-series/:id/cancel
+// Cancel one occurrence, or it and every later occurrence
+// ============================================================================
+
+router.post(
+  "/:id/cancel",
+  authenticate,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const input = cancelOccurrencesSchema.parse(req.body);
+      const result = await cancelSeriesOccurrences(
+        req.params.id,
+        input.bookingId,
+        req.userId!,
+        input.scope,
+        input.reason
+      );
+
+      if (!result.success) {
+        return next(toApiError(result));
+      }
+
+      return res.json({ success: true, data: result.data });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return next(createError("VALIDATION_ERROR", { details: error.errors }));
+      }
+      logger.error("Error cancelling series occurrences", { error });
+      return next(createError("INTERNAL_ERROR"));
+    }
+  }
+);
+
+export default router;
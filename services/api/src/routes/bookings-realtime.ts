@@ -6,6 +6,10 @@
  * - Session progress tracking (stylist location, ETA)
  * - Live status updates via Server-Sent Events (SSE)
  * - Session start/progress/complete notifications
+ *
+ * Progress and events are shared across API instances through Redis
+ * (lib/booking-sessions). Streams carry event ids, so a client that
+ * reconnects with Last-Event-ID is replayed what it missed.
  */
 
 import { Router, Response, NextFunction } from "express";
@@ -16,6 +20,21 @@ import { authorizeBookingAccess } from "../middleware/authorize";
 import { createError } from "../middleware/error-handler";
 import { logger } from "../lib/logger";
 import { notifyBookingEvent } from "../lib/notifications";
+import {
+  clearSessionProgress,
+  getSessionProgress,
+  getSessionViewerCount,
+  listActiveSessionProgress,
+  openSessionStream,
+  parseLastEventId,
+  publishSessionEvent,
+  refreshSessionViewers,
+  saveSessionProgress,
+  toCustomerProgress,
+  SESSION_STREAM_HEARTBEAT_MS,
+  type SessionEventType,
+  type SessionProgress,
+} from "../lib/booking-sessions";
 import { z } from "zod";
 
 const router: ReturnType<typeof Router> = Router();
@@ -34,45 +53,31 @@ const updateSessionProgressSchema = z.object({
   notes: z.string().max(500).optional(),
 });
 
-// In-memory store for active session progress
-// In production, use Redis for distributed state
-const activeSessionProgress = new Map<
-  string,
-  {
-    bookingId: string;
-    stylistId: string;
-    lat?: number;
-    lng?: number;
-    etaMinutes?: number;
-    progressPercent: number;
-    currentStep?: string;
-    lastUpdate: Date;
-  }
->();
-
-// SSE clients for live updates
-const sseClients = new Map<string, Response[]>();
+const activeSessionsQuerySchema = z.object({
+  scope: z.enum(["mine", "all"]).optional().default("mine"),
+});
 
 /**
- * Send SSE event to all connected clients for a booking
+ * Send an event to every client streaming the booking, on any instance
  */
-function broadcastToBookingClients(
+async function broadcastToBookingClients(
   bookingId: string,
-  event: string,
+  event: SessionEventType,
   data: Record<string, unknown>
-) {
-  const clients = sseClients.get(bookingId) || [];
-  const message = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
-
-  clients.forEach((client) => {
-    try {
-      client.write(message);
-    } catch (error) {
-      logger.error("Error sending SSE to client", { error, bookingId });
-    }
+): Promise<void> {
+  await publishSessionEvent(bookingId, event, data).catch((error) => {
+    logger.error("Error publishing session event", { error, bookingId, event });
   });
 }
 
+/**
+ * Progress as a given party sees it - customers don't get the stylist's
+ * exact location outside the live stream
+ */
+function toProgressView(progress: SessionProgress, isCustomer: boolean) {
+  return isCustomer ? toCustomerProgress(progress) : progress;
+}
+
 /**
  * GET /api/bookings/:id/live
  * SSE endpoint for real-time booking updates
@@ -108,48 +113,45 @@ router.get(
       res.setHeader("Connection", "keep-alive");
       res.setHeader("X-Accel-Buffering", "no"); // Disable nginx buffering
 
+      // Resuming clients send where they left off
+      const lastEventId = parseLastEventId(req.headers["last-event-id"], req.query.lastEventId);
+
       // Send initial connection event
       res.write(`event: connected\ndata: ${JSON.stringify({
         bookingId: id,
         status: booking.status,
+        resumed: lastEventId !== null,
         timestamp: new Date().toISOString(),
       })}\n\n`);
 
-      // Add client to SSE list
-      const clients = sseClients.get(id) || [];
-      clients.push(res);
-      sseClients.set(id, clients);
-
-      // Send current session progress if available
-      const progress = activeSessionProgress.get(id);
-      if (progress) {
-        res.write(`event: progress\ndata: ${JSON.stringify(progress)}\n\n`);
-      }
+      // Catch up (replay or current progress), then receive live events
+      let closed = false;
+      let removeClient: (() => void) | null = null;
 
-      // Keep connection alive with heartbeat
+      // Keep connection and viewer count alive with heartbeat
       const heartbeat = setInterval(() => {
         try {
           res.write(`: heartbeat\n\n`);
+          refreshSessionViewers(id);
         } catch (_error) {
           clearInterval(heartbeat);
         }
-      }, 30000);
+      }, SESSION_STREAM_HEARTBEAT_MS);
 
       // Clean up on disconnect
       req.on("close", () => {
+        closed = true;
         clearInterval(heartbeat);
-        const updatedClients = (sseClients.get(id) || []).filter(
-          (c) => c !== res
-        );
-        if (updatedClients.length === 0) {
-          sseClients.delete(id);
-        } else {
-          sseClients.set(id, updatedClients);
-        }
+        removeClient?.();
         logger.debug("SSE client disconnected", { bookingId: id, userId });
       });
 
-      logger.debug("SSE client connected", { bookingId: id, userId });
+      removeClient = await openSessionStream(id, res, lastEventId);
+      if (closed) {
+        removeClient();
+      }
+
+      logger.debug("SSE client connected", { bookingId: id, userId, lastEventId });
     } catch (error) {
       logger.error("Error setting up SSE connection", { error });
       return next(createError("INTERNAL_ERROR"));
@@ -203,7 +205,7 @@ router.post(
       }
 
       // Update session progress
-      const progressData = {
+      const progressData: SessionProgress = {
         bookingId: id,
         stylistId: userId,
         lat: input.lat,
@@ -211,15 +213,15 @@ router.post(
         etaMinutes: input.etaMinutes,
         progressPercent: input.progressPercent ?? 0,
         currentStep: input.currentStep,
-        lastUpdate: new Date(),
+        lastUpdate: new Date().toISOString(),
       };
 
-      activeSessionProgress.set(id, progressData);
+      await saveSessionProgress(progressData);
 
       // Broadcast to connected clients
-      broadcastToBookingClients(id, "progress", {
+      await broadcastToBookingClients(id, "progress", {
         ...progressData,
-        timestamp: progressData.lastUpdate.toISOString(),
+        timestamp: progressData.lastUpdate,
       });
 
       // Send push notification to customer if ETA or location changed significantly
@@ -275,7 +277,7 @@ router.get(
       }
 
       // Get progress
-      const progress = activeSessionProgress.get(id);
+      const progress = await getSessionProgress(id);
 
       if (!progress) {
         return res.json({
@@ -288,24 +290,12 @@ router.get(
 
       // For customer, don't expose exact location - just ETA and progress
       const isCustomer = booking.customerId === userId;
-      const safeProgress = isCustomer
-        ? {
-            bookingId: progress.bookingId,
-            etaMinutes: progress.etaMinutes,
-            progressPercent: progress.progressPercent,
-            currentStep: progress.currentStep,
-            lastUpdate: progress.lastUpdate.toISOString(),
-          }
-        : {
-            ...progress,
-            lastUpdate: progress.lastUpdate.toISOString(),
-          };
 
       return res.json({
         bookingId: id,
         status: booking.status,
         hasActiveSession: true,
-        progress: safeProgress,
+        progress: toProgressView(progress, isCustomer),
       });
     } catch (error) {
       logger.error("Error fetching session progress", { error });
@@ -354,19 +344,19 @@ router.post(
       }
 
       // Update progress to show arrived
-      const progressData = {
+      const progressData: SessionProgress = {
         bookingId: id,
         stylistId: userId,
         etaMinutes: 0,
         progressPercent: 0,
         currentStep: "Arrived",
-        lastUpdate: new Date(),
+        lastUpdate: new Date().toISOString(),
       };
 
-      activeSessionProgress.set(id, progressData);
+      await saveSessionProgress(progressData);
 
       // Broadcast arrival event
-      broadcastToBookingClients(id, "arrived", {
+      await broadcastToBookingClients(id, "arrived", {
         bookingId: id,
         stylistName: booking.stylist.displayName,
         timestamp: new Date().toISOString(),
@@ -436,7 +426,7 @@ router.post(
       }
 
       // Broadcast customer arrival event
-      broadcastToBookingClients(id, "customer_arrived", {
+      await broadcastToBookingClients(id, "customer_arrived", {
         bookingId: id,
         customerName: booking.customer.displayName,
         timestamp: new Date().toISOString(),
@@ -488,10 +478,10 @@ router.post(
       }
 
       // Clear session progress
-      activeSessionProgress.delete(id);
+      await clearSessionProgress(id);
 
       // Broadcast session end event
-      broadcastToBookingClients(id, "session_ended", {
+      await broadcastToBookingClients(id, "session_ended", {
         bookingId: id,
         timestamp: new Date().toISOString(),
       });
@@ -511,6 +501,9 @@ router.post(
  * GET /api/bookings/active-sessions
  * Get all active sessions for the authenticated user
  * Returns sessions where user is either customer or stylist
+ *
+ * Admins can pass ?scope=all for every session in progress across all
+ * instances, with live viewer counts.
  */
 router.get(
   "/active-sessions",
@@ -518,6 +511,14 @@ router.get(
   async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
       const userId = req.userId!;
+      const { scope } = activeSessionsQuerySchema.parse(req.query);
+
+      if (scope === "all") {
+        if (!req.user?.roles?.includes("ADMIN")) {
+          return next(createError("ADMIN_REQUIRED"));
+        }
+        return res.json(await getAllActiveSessions());
+      }
 
       // Get all bookings in active states for this user
       const activeStatuses: BookingStatus[] = [
@@ -550,9 +551,13 @@ router.get(
         orderBy: { scheduledStartTime: "asc" },
       });
 
+      const progressByBooking = await Promise.all(
+        bookings.map((booking) => getSessionProgress(booking.id))
+      );
+
       // Enrich with session progress
-      const sessionsWithProgress = bookings.map((booking) => {
-        const progress = activeSessionProgress.get(booking.id);
+      const sessionsWithProgress = bookings.map((booking, index) => {
+        const progress = progressByBooking[index];
         const isCustomer = booking.customerId === userId;
 
         return {
@@ -584,7 +589,7 @@ router.get(
                   etaMinutes: progress.etaMinutes,
                   progressPercent: progress.progressPercent,
                   currentStep: progress.currentStep,
-                  lastUpdate: progress.lastUpdate.toISOString(),
+                  lastUpdate: progress.lastUpdate,
                 }
               : {
                   lat: progress.lat,
@@ -592,7 +597,7 @@ router.get(
                   etaMinutes: progress.etaMinutes,
                   progressPercent: progress.progressPercent,
                   currentStep: progress.currentStep,
-                  lastUpdate: progress.lastUpdate.toISOString(),
+                  lastUpdate: progress.lastUpdate,
                 }
             : null,
         };
@@ -603,10 +608,64 @@ router.get(
         count: sessionsWithProgress.length,
       });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return next(createError("VALIDATION_ERROR", { details: error.errors }));
+      }
       logger.error("Error fetching active sessions", { error });
       return next(createError("INTERNAL_ERROR"));
     }
   }
 );
 
+/**
+ * Every session with live progress, whichever instance the stylist posted to
+ */
+async function getAllActiveSessions() {
+  const progressList = await listActiveSessionProgress();
+
+  const bookings = await prisma.booking.findMany({
+    where: { id: { in: progressList.map((progress) => progress.bookingId) } },
+    include: {
+      customer: { select: { id: true, displayName: true, avatarUrl: true } },
+      stylist: { select: { id: true, displayName: true, avatarUrl: true } },
+    },
+  });
+  const bookingsById = new Map(bookings.map((booking) => [booking.id, booking]));
+
+  const sessions = await Promise.all(
+    progressList
+      .filter((progress) => bookingsById.has(progress.bookingId))
+      .map(async (progress) => {
+        const booking = bookingsById.get(progress.bookingId)!;
+        return {
+          booking: {
+            id: booking.id,
+            status: booking.status,
+            serviceType: booking.serviceType,
+            scheduledStartTime: booking.scheduledStartTime.toISOString(),
+            scheduledEndTime: booking.scheduledEndTime.toISOString(),
+            locationType: booking.locationType,
+            locationAddress: booking.locationAddress,
+          },
+          customer: booking.customer,
+          stylist: booking.stylist,
+          progress,
+          viewerCount: await getSessionViewerCount(booking.id),
+        };
+      })
+  );
+
+  sessions.sort((a, b) => a.booking.scheduledStartTime.localeCompare(b.booking.scheduledStartTime));
+
+  return {
+    sessions,
+    count: sessions.length,
+    counts: {
+      inProgress: sessions.filter((session) => session.booking.status === BookingStatus.IN_PROGRESS).length,
+      confirmed: sessions.filter((session) => session.booking.status === BookingStatus.CONFIRMED).length,
+      viewers: sessions.reduce((total, session) => total + session.viewerCount, 0),
+    },
+  };
+}
+
 export default router;
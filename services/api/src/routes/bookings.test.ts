@@ -0,0 +1,186 @@
+/**
+ * Bookings Route Tests
+ *
+ * The booking details payload and its payment instructions: which leg is
+ * paid next and the balance figures shown beside it. The wallet bridge and
+ * auth are mocked - the caller is taken from an x-user-id header.
+ */
+
+import type { NextFunction, Request, Response } from 'express';
+
+const mockPrisma = {
+  booking: { findUnique: jest.fn() },
+};
+
+jest.mock('../lib/prisma', () => ({
+  __esModule: true,
+  prisma: mockPrisma,
+  default: mockPrisma,
+}));
+
+jest.mock('../middleware/auth', () => ({
+  authenticate: (req: Request & { userId?: string }, _res: Response, next: NextFunction) => {
+    req.userId = req.header('x-user-id');
+    next();
+  },
+}));
+
+jest.mock('../lib/wallet-booking-bridge', () => ({
+  getPaymentInstructions: jest.fn(),
+  verifyAndConfirmBalancePayment: jest.fn(),
+  verifyAndConfirmPayment: jest.fn(),
+}));
+
+import express from 'express';
+import request from 'supertest';
+import { errorHandler } from '../middleware/error-handler';
+import { getPaymentInstructions } from '../lib/wallet-booking-bridge';
+import bookingsRouter from './bookings';
+
+const BALANCE_ESCROW_ID = `0x${'b'.repeat(64)}`;
+
+const app = express();
+app.use(express.json());
+app.use('/bookings', bookingsRouter);
+app.use(errorHandler);
+
+function makeBooking(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'booking-1',
+    customerId: 'customer-1',
+    stylistId: 'stylist-1',
+    status: 'IN_PROGRESS',
+    seriesId: null,
+    scheduledStartTime: new Date('2026-11-02T09:00:00Z'),
+    quoteAmountCents: 10_000n,
+    depositAmountCents: 3_000n,
+    balanceAmountCents: 7_000n,
+    balanceStatus: 'DUE',
+    balanceDueOn: 'ON_START',
+    balanceDueAt: new Date('2026-11-02T09:00:00Z'),
+    lineItems: [],
+    ...overrides,
+  };
+}
+
+function makeInstructions(overrides: Record<string, unknown> = {}) {
+  return {
+    leg: 'BALANCE',
+    amount: 7_000n,
+    escrowId: BALANCE_ESCROW_ID,
+    escrowAddress: '0x00000000000000000000000000000000000000e5',
+    usdcAddress: '0x00000000000000000000000000000000000000a5',
+    customerAddress: '0x00000000000000000000000000000000000000cc',
+    needsApproval: false,
+    currentAllowance: 7_000n,
+    hasBalance: true,
+    currentBalance: 50_000n,
+    ...overrides,
+  };
+}
+
+describe('GET /bookings/:id', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should send the deposit and balance as cent strings', async () => {
+    mockPrisma.booking.findUnique.mockResolvedValue(
+      makeBooking({ lineItems: [{ id: 'item-1', serviceName: 'Braids', priceAmountCents: 10_000n }] })
+    );
+
+    const res = await request(app).get('/bookings/booking-1').set('x-user-id', 'customer-1');
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({
+      quoteAmountCents: '10000',
+      depositAmountCents: '3000',
+      balanceAmountCents: '7000',
+      balanceStatus: 'DUE',
+      balanceDueAt: '2026-11-02T09:00:00.000Z',
+      lineItems: [{ id: 'item-1', priceAmountCents: '10000' }],
+    });
+  });
+
+  it('should send null balance figures for a booking paid in full', async () => {
+    mockPrisma.booking.findUnique.mockResolvedValue(
+      makeBooking({ depositAmountCents: null, balanceAmountCents: null, balanceStatus: null, balanceDueAt: null })
+    );
+
+    const res = await request(app).get('/bookings/booking-1').set('x-user-id', 'stylist-1');
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ depositAmountCents: null, balanceAmountCents: null, balanceStatus: null });
+  });
+});
+
+describe('GET /bookings/:id/payment-instructions', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.booking.findUnique.mockResolvedValue(makeBooking());
+    (getPaymentInstructions as jest.Mock).mockResolvedValue({ success: true, instructions: makeInstructions() });
+  });
+
+  it('should return the balance leg with its escrow key and the balance figures', async () => {
+    const res = await request(app).get('/bookings/booking-1/payment-instructions').set('x-user-id', 'customer-1');
+
+    expect(res.status).toBe(200);
+    expect(getPaymentInstructions).toHaveBeenCalledWith('customer-1', 'booking-1');
+    expect(res.body).toMatchObject({
+      bookingId: 'booking-1',
+      leg: 'BALANCE',
+      amount: '7000',
+      escrowId: BALANCE_ESCROW_ID,
+      depositAmount: '3000',
+      balanceAmount: '7000',
+      balanceDueOn: 'ON_START',
+      currentAllowance: '7000',
+      currentBalance: '50000',
+    });
+    expect(typeof res.body.balanceDeadline).toBe('string');
+  });
+
+  it('should return null balance figures for a booking paid in full', async () => {
+    mockPrisma.booking.findUnique.mockResolvedValue(
+      makeBooking({
+        status: 'PENDING_CUSTOMER_PAYMENT',
+        depositAmountCents: null,
+        balanceAmountCents: null,
+        balanceStatus: null,
+        balanceDueOn: null,
+        balanceDueAt: null,
+      })
+    );
+    (getPaymentInstructions as jest.Mock).mockResolvedValue({
+      success: true,
+      instructions: makeInstructions({ leg: 'FULL', amount: 10_000n, escrowId: `0x${'f'.repeat(64)}` }),
+    });
+
+    const res = await request(app).get('/bookings/booking-1/payment-instructions').set('x-user-id', 'customer-1');
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({
+      leg: 'FULL',
+      amount: '10000',
+      depositAmount: null,
+      balanceAmount: null,
+      balanceDeadline: null,
+    });
+  });
+
+  it('should not give instructions once the balance is paid', async () => {
+    mockPrisma.booking.findUnique.mockResolvedValue(makeBooking({ balanceStatus: 'PAID' }));
+
+    const res = await request(app).get('/bookings/booking-1/payment-instructions').set('x-user-id', 'customer-1');
+
+    expect(res.status).toBe(400);
+    expect(getPaymentInstructions).not.toHaveBeenCalled();
+  });
+
+  it('should not give instructions to the stylist', async () => {
+    const res = await request(app).get('/bookings/booking-1/payment-instructions').set('x-user-id', 'stylist-1');
+
+    expect(res.status).toBe(403);
+    expect(getPaymentInstructions).not.toHaveBeenCalled();
+  });
+});
@@ -9,7 +9,7 @@
 // Audit date: 2025-12-15
 
 import { Router, Response, NextFunction } from "express";
-import { BookingStatus, Prisma } from "@prisma/client";
+import { BalanceDueTrigger, BalanceStatus, BookingStatus, Prisma, type Booking } from "@prisma/client";
 import prisma from "../lib/prisma";
 import { authenticate, type AuthenticatedRequest } from "../middleware/auth";
 import { authorizeBookingAccess } from "../middleware/authorize";
@@ -23,22 +23,46 @@ import {
   completeServiceSchema,
   confirmServiceSchema,
   cancelBookingSchema,
+  adjustLineItemsSchema,
+  proposeRescheduleSchema,
+  acceptRescheduleSchema,
+  rejectRescheduleSchema,
 } from "../lib/validation";
-import { validateTransition } from "../lib/booking-state-machine";
-import { calculateBookingPricing } from "../lib/pricing";
+import { validateBalanceForTransition, validateTransition } from "../lib/booking-state-machine";
+import { calculateBookingPricing, calculateStylistPayout } from "../lib/pricing";
 import {
-  calculateCustomerRefund,
-  calculateStylistCancellationRefund,
-  canCancelBooking,
+  applyLineItemAdjustments,
+  buildLineItems,
+  summarizeLineItems,
+  type LineItemAdjustment,
+} from "../lib/booking-line-items";
+import {
+  calculateDepositSplit,
+  getBalanceDeadline,
+  getDepositPercentage,
+  getLockedEscrowLegs,
+} from "../lib/booking-deposit";
+import {
+  parseCancellationPolicySnapshot,
+  resolveCancellationPolicy,
+  summarizeCancellationPolicy,
+  toCancellationPolicySnapshot,
 } from "../lib/cancellation-policy";
+import { cancelBooking } from "../lib/booking-cancellation";
+import { PLATFORM_TREASURY_ADDRESS } from "../lib/escrow-client";
 import {
-  releaseFundsFromEscrow,
-  refundFromEscrow,
-  PLATFORM_TREASURY_ADDRESS,
-  PLATFORM_FEE_PERCENTAGE,
-} from "../lib/escrow-client";
+  ChairDoubleBookedError,
+  allocatePropertyPayout,
+  getPropertyPayeeAddress,
+  moveChairReservation,
+  planChairReservation,
+  releaseEscrowLeg,
+  reserveChair,
+  type ChairReservationPlan,
+} from "../lib/chair-reservations";
 import {
   getPaymentInstructions,
+  verifyAndConfirmBalancePayment,
   verifyAndConfirmPayment,
 } from "../lib/wallet-booking-bridge";
 import {
@@ -49,6 +73,30 @@ import {
 } from "../lib/scheduling";
 import { notifyBookingEvent } from "../lib/notifications";
 import { recordBookingCompletionEvent } from "../lib/reputation";
+import { syncSpecialEventPayment } from "../lib/special-events";
+import {
+  getOccurrencePaymentWindow,
+  isOccurrencePaymentOpen,
+  refreshSeriesStatus,
+  syncSeriesOccurrenceCancelled,
+} from "../lib/recurring-bookings";
+import { releaseSlotToWaitlist } from "../lib/waitlist";
+import { getFeeDiscountPercentage } from "../lib/rewards";
+import {
+  listRescheduleProposals,
+  proposeReschedule,
+  acceptRescheduleProposal,
+  rejectRescheduleProposal,
+  withdrawRescheduleProposal,
+  type RescheduleResult,
+} from "../lib/rescheduling";
+import {
+  getInstantPayoutEligibility,
+  payInstantly,
+  resolveStylistPayee,
+  completeInstantPayoutRelease,
+  type SmoothingBufferResult,
+} from "../lib/smoothing-buffer";
 import { z } from "zod";
 import type { Address, Hash } from "viem";
 
@@ -105,6 +153,193 @@ async function logStatusChange(
   });
 }
 
+/**
+ * Tell the customer their balance is due and when it must be paid by
+ */
+function notifyBalanceDue(booking: {
+  id: string;
+  customerId: string;
+  serviceType: string;
+  balanceAmountCents: bigint | null;
+  balanceDueAt: Date | null;
+  stylist: { displayName: string };
+}) {
+  notifyBookingEvent(booking.customerId, "BALANCE_DUE", {
+    bookingId: booking.id,
+    stylistName: booking.stylist.displayName,
+    serviceType: booking.serviceType,
+    amount: Number(booking.balanceAmountCents ?? 0n),
+    balanceDeadline: booking.balanceDueAt ? getBalanceDeadline(booking.balanceDueAt).toISOString() : undefined,
+  }).catch((err) => logger.error("Failed to send balance due notification", { error: err }));
+}
+
+/**
+ * Booking as JSON for the apps - BigInt amounts are sent as cent strings
+ */
+function serializeBooking(booking: object) {
+  return JSON.parse(JSON.stringify(booking, (_key, value) => (typeof value === "bigint" ? value.toString() : value)));
+}
+
+/**
+ * Convert a validated adjustment (JSON numbers) to cents as BigInt
+ */
+function toLineItemAdjustment(input: {
+  id: string;
+  durationMin?: number;
+  priceAmountCents?: number;
+  remove?: boolean;
+}): LineItemAdjustment {
+  return {
+    ...input,
+    priceAmountCents: input.priceAmountCents !== undefined ? BigInt(input.priceAmountCents) : undefined,
+  };
+}
+
+/**
+ * Apply a stylist's line item adjustments and re-price the booking.
+ * Only allowed before payment; a longer booking is re-checked for conflicts.
+ */
+async function adjustBookingLineItems(
+  booking: Booking,
+  adjustments: LineItemAdjustment[],
+  userId: string,
+  notes?: string
+): Promise<{ error: ReturnType<typeof createError> } | { booking: Booking }> {
+  const adjustableStatuses: BookingStatus[] = [
+    BookingStatus.PENDING_STYLIST_APPROVAL,
+    BookingStatus.PENDING_CUSTOMER_PAYMENT,
+  ];
+  if (!adjustableStatuses.includes(booking.status)) {
+    return {
+      error: createError("INVALID_STATUS", {
+        message: `Line items can only be adjusted before payment, current: ${booking.status}`,
+      }),
+    };
+  }
+
+  const savedItems = await prisma.bookingLineItem.findMany({
+    where: { bookingId: booking.id },
+    orderBy: { sortOrder: "asc" },
+  });
+
+  if (savedItems.length === 0) {
+    return { error: createError("INVALID_STATUS", { message: "Booking has no line items to adjust" }) };
+  }
+
+  const adjusted = applyLineItemAdjustments(savedItems, adjustments);
+  if (typeof adjusted === "string") {
+    return { error: createError("VALIDATION_ERROR", { message: adjusted }) };
+  }
+
+  const { totalDurationMin, subtotalCents, serviceType } = summarizeLineItems(adjusted.items);
+
+  // Longer appointments need the extra time to be free
+  if (totalDurationMin > booking.estimatedDurationMin) {
+    const availabilityCheck = await checkAvailability({
+      stylistId: booking.stylistId,
+      serviceId: booking.serviceId ?? "",
+      startTime: booking.scheduledStartTime,
+      durationMinutes: totalDurationMin,
+      locationType: booking.locationType,
+      customerCoords:
+        booking.locationLat !== null && booking.locationLng !== null
+          ? { lat: booking.locationLat, lng: booking.locationLng }
+          : undefined,
+      excludeBookingId: booking.id,
+    });
+
+    if (!availabilityCheck.available) {
+      return {
+        error: createError("SCHEDULING_CONFLICT", {
+          conflicts: availabilityCheck.conflicts,
+        }),
+      };
+    }
+  }
+
+  // The salon chair fee still has to come out of the stylist's share
+  const propertyPayoutCents = booking.propertyPayoutCents ?? 0n;
+  if (propertyPayoutCents > calculateStylistPayout(subtotalCents)) {
+    return { error: createError("CHAIR_FEE_EXCEEDS_PAYOUT") };
+  }
+
+  // The tier discount locked in when the booking was made still applies
+  const pricing = calculateBookingPricing(subtotalCents, propertyPayoutCents, booking.feeDiscountPercentage);
+  const depositSplit = calculateDepositSplit(pricing.quoteAmountCents, getDepositPercentage(booking));
+  const scheduledEndTime = new Date(booking.scheduledStartTime.getTime() + totalDurationMin * 60 * 1000);
+  const changes = adjustments
+    .map((a) => (a.remove ? `removed ${a.id}` : `updated ${a.id}`))
+    .join(", ");
+
+  try {
+    const updatedBooking = await prisma.$transaction(async (tx) => {
+      if (adjusted.removedIds.length > 0) {
+        await tx.bookingLineItem.deleteMany({
+          where: { id: { in: adjusted.removedIds } },
+        });
+      }
+
+      for (const item of adjusted.items) {
+        await tx.bookingLineItem.update({
+          where: { id: item.id },
+          data: {
+            durationMin: item.durationMin,
+            priceAmountCents: item.priceAmountCents,
+            originalDurationMin: item.originalDurationMin,
+            originalPriceAmountCents: item.originalPriceAmountCents,
+          },
+        });
+      }
+
+      const updated = await tx.booking.update({
+        where: { id: booking.id },
+        data: {
+          serviceId: adjusted.items[0].serviceId,
+          serviceType,
+          estimatedDurationMin: totalDurationMin,
+          scheduledEndTime,
+          quoteAmountCents: pricing.quoteAmountCents,
+          platformFeeCents: pricing.platformFeeCents,
+          stylistPayoutCents: pricing.stylistPayoutCents,
+          feeDiscountCents: pricing.feeDiscountCents,
+          ...(depositSplit && {
+            depositAmountCents: depositSplit.depositAmountCents,
+            balanceAmountCents: depositSplit.balanceAmountCents,
+          }),
+        },
+      });
+
+      // The salon chair is held for the adjusted duration
+      await moveChairReservation(tx, {
+        bookingId: booking.id,
+        stylistId: booking.stylistId,
+        startTime: booking.scheduledStartTime,
+        endTime: scheduledEndTime,
+      });
+
+      // Status is unchanged - the entry records the adjustment in the audit trail
+      await tx.bookingStatusHistory.create({
+        data: {
+          bookingId: booking.id,
+          fromStatus: booking.status,
+          toStatus: booking.status,
+          changedBy: userId,
+          reason: `Line items adjusted (${changes})${notes ? ` - ${notes}` : ""}`,
+        },
+      });
+
+      return updated;
+    });
+
+    return { booking: updatedBooking };
+  } catch (error) {
+    if (error instanceof ChairDoubleBookedError) {
+      return { error: createError("CHAIR_DOUBLE_BOOKED", { conflict: error.conflict }) };
+    }
+    throw error;
+  }
+}
+
 // ============================================================================
 // F4.1: SCHEDULING / AVAILABILITY ENDPOINTS
 // ============================================================================
@@ -388,9 +623,12 @@ router.post("/", authenticate, async (req: AuthenticatedRequest, res: Response,
     // This prevents users from creating bookings on behalf of other users
     const customerId = req.userId!;
 
-    // Validate service exists and get pricing
-    const service = await prisma.stylistService.findUnique({
-      where: { id: input.serviceId },
+    // One line item per requested service (and person)
+    const requestedItems = input.lineItems ?? [{ serviceId: input.serviceId! }];
+
+    // Validate services exist and get pricing
+    const services = await prisma.stylistService.findMany({
+      where: { id: { in: requestedItems.map((item) => item.serviceId) } },
       include: {
         stylist: {
           include: {
@@ -400,11 +638,14 @@ router.post("/", authenticate, async (req: AuthenticatedRequest, res: Response,
       },
     });
 
+    // The first item is the primary service: it sets the category, deposit and cancellation policy
+    const service = services.find((s) => s.id === requestedItems[0].serviceId);
+
     if (!service) {
       return next(createError("SERVICE_NOT_FOUND"));
     }
 
-    if (!service.isActive) {
+    if (services.some((s) => !s.isActive)) {
       return next(createError("SERVICE_INACTIVE"));
     }
 
@@ -412,6 +653,18 @@ router.post("/", authenticate, async (req: AuthenticatedRequest, res: Response,
       return next(createError("STYLIST_NOT_ACCEPTING"));
     }
 
+    // Every item must come from the stylist being booked
+    const lineItems = buildLineItems(
+      requestedItems,
+      services.filter((s) => s.stylist.userId === input.stylistId)
+    );
+
+    if (typeof lineItems === "string") {
+      return next(createError("VALIDATION_ERROR", { message: lineItems }));
+    }
+
+    const { totalDurationMin, subtotalCents, serviceType } = summarizeLineItems(lineItems);
+
     // F4.1: Check for scheduling conflicts before creating booking
     const customerCoords: Coordinates | undefined =
       input.locationLat && input.locationLng
@@ -420,9 +673,9 @@ router.post("/", authenticate, async (req: AuthenticatedRequest, res: Response,
 
     const availabilityCheck = await checkAvailability({
       stylistId: input.stylistId,
-      serviceId: input.serviceId,
+      serviceId: service.id,
       startTime: input.scheduledStartTime,
-      durationMinutes: service.estimatedDurationMin,
+      durationMinutes: totalDurationMin,
       locationType: input.locationType,
       customerCoords,
     });
@@ -434,40 +687,103 @@ router.post("/", authenticate, async (req: AuthenticatedRequest, res: Response,
       }));
     }
 
-    // Calculate pricing
-    const pricing = calculateBookingPricing(service.priceAmountCents);
-
-    // Calculate end time based on service duration
+    // Calculate end time based on total duration
     const scheduledEndTime = new Date(
-      input.scheduledStartTime.getTime() + service.estimatedDurationMin * 60 * 1000
+      input.scheduledStartTime.getTime() + totalDurationMin * 60 * 1000
     );
 
-    // Create booking with PENDING_STYLIST_APPROVAL status
-    const booking = await prisma.booking.create({
-      data: {
-        customerId, // M-6: From JWT, not request body
+    // Salon chair: the booking takes place at the property and its fee is paid from the escrow
+    let chairPlan: ChairReservationPlan | undefined;
+    if (input.chairId) {
+      if (input.locationType !== "STYLIST_BASE") {
+        return next(createError("VALIDATION_ERROR", { message: "Salon chairs are only for STYLIST_BASE bookings" }));
+      }
+
+      const planned = await planChairReservation({
+        chairId: input.chairId,
         stylistId: input.stylistId,
-        serviceId: input.serviceId,
-        serviceType: service.name,
-        serviceCategory: service.category,
-        estimatedDurationMin: service.estimatedDurationMin,
-        scheduledStartTime: input.scheduledStartTime,
-        scheduledEndTime,
-        locationType: input.locationType,
-        locationAddress: input.locationAddress,
-        locationLat: input.locationLat,
-        locationLng: input.locationLng,
-        quoteAmountCents: pricing.quoteAmountCents,
-        platformFeeCents: pricing.platformFeeCents,
-        stylistPayoutCents: pricing.stylistPayoutCents,
-        propertyPayoutCents: pricing.propertyPayoutCents,
-        status: BookingStatus.PENDING_STYLIST_APPROVAL,
-      },
-      include: {
-        customer: true,
-        stylist: true,
-        service: true,
+        startTime: input.scheduledStartTime,
+        endTime: scheduledEndTime,
+      });
+
+      if (!planned.success || !planned.data) {
+        return next(createError(planned.error || "INTERNAL_ERROR", planned.details));
+      }
+
+      if (planned.data.feeCents > calculateStylistPayout(subtotalCents)) {
+        return next(createError("CHAIR_FEE_EXCEEDS_PAYOUT"));
+      }
+
+      chairPlan = planned.data;
+    }
+
+    // Calculate pricing - escrow holds one amount for all line items and the chair fee,
+    // less the customer's reward tier discount on the platform fee
+    const feeDiscountPercentage = await getFeeDiscountPercentage(customerId);
+    const pricing = calculateBookingPricing(subtotalCents, chairPlan?.feeCents, feeDiscountPercentage);
+
+    // Snapshot the cancellation policy in effect now - later policy edits don't apply
+    const cancellationPolicy = resolveCancellationPolicy(service, service.stylist);
+
+    // Deposit mode: lock the deposit at confirmation, the balance when it falls due
+    const depositSplit = calculateDepositSplit(pricing.quoteAmountCents, service.depositPercentage);
+
+    // Create booking with PENDING_STYLIST_APPROVAL status
+    const bookingData: Prisma.BookingUncheckedCreateInput = {
+      customerId, // M-6: From JWT, not request body
+      stylistId: input.stylistId,
+      serviceId: service.id,
+      serviceType,
+      serviceCategory: service.category,
+      estimatedDurationMin: totalDurationMin,
+      scheduledStartTime: input.scheduledStartTime,
+      scheduledEndTime,
+      locationType: input.locationType,
+      locationAddress: chairPlan?.location.address ?? input.locationAddress,
+      locationLat: chairPlan?.location.lat ?? input.locationLat,
+      locationLng: chairPlan?.location.lng ?? input.locationLng,
+      quoteAmountCents: pricing.quoteAmountCents,
+      platformFeeCents: pricing.platformFeeCents,
+      stylistPayoutCents: pricing.stylistPayoutCents,
+      propertyPayoutCents: pricing.propertyPayoutCents,
+      feeDiscountPercentage,
+      feeDiscountCents: pricing.feeDiscountCents,
+      status: BookingStatus.PENDING_STYLIST_APPROVAL,
+      cancellationPolicy: toCancellationPolicySnapshot(cancellationPolicy),
+      ...(depositSplit && {
+        depositAmountCents: depositSplit.depositAmountCents,
+        balanceAmountCents: depositSplit.balanceAmountCents,
+        balanceDueOn: service.balanceDueOn,
+      }),
+      lineItems: {
+        create: lineItems,
       },
+    };
+
+    const booking = await prisma.$transaction(async (tx) => {
+      const created = await tx.booking.create({ data: bookingData });
+
+      // Re-checked inside the transaction so two bookings can't take the same chair
+      if (chairPlan) {
+        await reserveChair(tx, {
+          bookingId: created.id,
+          stylistId: input.stylistId,
+          plan: chairPlan,
+          startTime: input.scheduledStartTime,
+          endTime: scheduledEndTime,
+        });
+      }
+
+      return tx.booking.findUniqueOrThrow({
+        where: { id: created.id },
+        include: {
+          customer: true,
+          stylist: true,
+          service: true,
+          lineItems: { orderBy: { sortOrder: "asc" } },
+          chairReservation: true,
+        },
+      });
     });
 
     // Log initial status
@@ -492,6 +808,9 @@ router.post("/", authenticate, async (req: AuthenticatedRequest, res: Response,
     if (error instanceof z.ZodError) {
       return next(createError("VALIDATION_ERROR", { details: error.errors }));
     }
+    if (error instanceof ChairDoubleBookedError) {
+      return next(createError("CHAIR_DOUBLE_BOOKED", { conflict: error.conflict }));
+    }
     logger.error("Error creating booking", { error });
     return next(createError("INTERNAL_ERROR"));
   }
@@ -512,6 +831,7 @@ router.get("/:id", authenticate, async (req: AuthenticatedRequest, res: Response
         customer: true,
         stylist: true,
         service: true,
+        lineItems: { orderBy: { sortOrder: "asc" } },
         statusHistory: {
           orderBy: { changedAt: "asc" },
           include: {
@@ -535,7 +855,7 @@ router.get("/:id", authenticate, async (req: AuthenticatedRequest, res: Response
       return next(createError("FORBIDDEN"));
     }
 
-    return res.json(booking);
+    return res.json(serializeBooking(booking));
   } catch (error) {
     logger.error("Error fetching booking", { error });
     return next(createError("INTERNAL_ERROR"));
@@ -578,6 +898,19 @@ router.post("/:id/approve", authenticate, async (req: AuthenticatedRequest, res:
       }));
     }
 
+    // Stylist may adjust line items as part of approving
+    if (input.lineItems) {
+      const adjustment = await adjustBookingLineItems(
+        booking,
+        input.lineItems.map(toLineItemAdjustment),
+        userId,
+        input.notes
+      );
+      if ("error" in adjustment) {
+        return next(adjustment.error);
+      }
+    }
+
     // Update booking status
     const updatedBooking = await prisma.booking.update({
       where: { id },
@@ -587,6 +920,7 @@ router.post("/:id/approve", authenticate, async (req: AuthenticatedRequest, res:
       include: {
         customer: true,
         stylist: true,
+        lineItems: { orderBy: { sortOrder: "asc" } },
       },
     });
 
@@ -606,6 +940,7 @@ router.post("/:id/approve", authenticate, async (req: AuthenticatedRequest, res:
       bookingId: id,
       stylistName: updatedBooking.stylist.displayName,
       scheduledTime: updatedBooking.scheduledStartTime.toISOString(),
+      amount: Number(updatedBooking.quoteAmountCents),
     }).catch((err) => logger.error("Failed to send approval notification", { error: err }));
 
     return res.json(updatedBooking);
@@ -618,6 +953,68 @@ router.post("/:id/approve", authenticate, async (req: AuthenticatedRequest, res:
   }
 });
 
+/**
+ * PUT /api/bookings/:id/line-items
+ * Stylist adjusts line item prices/durations or removes items before payment
+ */
+router.put("/:id/line-items", authenticate, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const input = adjustLineItemsSchema.parse(req.body);
+    const userId = req.userId!;
+
+    const booking = await prisma.booking.findUnique({
+      where: { id },
+    });
+
+    if (!booking) {
+      return next(createError("BOOKING_NOT_FOUND"));
+    }
+
+    // Verify stylist authorization
+    if (!authorizeBookingAccess(userId, booking, "stylist")) {
+      return next(createError("FORBIDDEN"));
+    }
+
+    const adjustment = await adjustBookingLineItems(
+      booking,
+      input.lineItems.map(toLineItemAdjustment),
+      userId,
+      input.notes
+    );
+    if ("error" in adjustment) {
+      return next(adjustment.error);
+    }
+
+    const updatedBooking = await prisma.booking.findUnique({
+      where: { id },
+      include: {
+        customer: true,
+        stylist: true,
+        lineItems: { orderBy: { sortOrder: "asc" } },
+      },
+    });
+
+    // Once approved, the customer is waiting to pay - tell them the amount changed
+    if (booking.status === BookingStatus.PENDING_CUSTOMER_PAYMENT) {
+      notifyBookingEvent(booking.customerId, "BOOKING_ADJUSTED", {
+        bookingId: id,
+        stylistName: updatedBooking!.stylist.displayName,
+        serviceType: updatedBooking!.serviceType,
+        amount: Number(updatedBooking!.quoteAmountCents),
+      }).catch((err) => logger.error("Failed to send booking adjusted notification", { error: err }));
+    }
+
+    return res.json(updatedBooking);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError("VALIDATION_ERROR", { details: error.errors }));
+    }
+    logger.error("Error adjusting booking line items", { error });
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
 /**
  * POST /api/bookings/:id/decline
  * Stylist declines booking request
@@ -686,6 +1083,10 @@ router.post("/:id/decline", authenticate, async (req: AuthenticatedRequest, res:
       reason: input.reason,
     }).catch((err) => logger.error("Failed to send decline notification", { error: err }));
 
+    releaseSlotToWaitlist(updatedBooking).catch((err) =>
+      logger.error("Failed to release declined slot to waitlist", { error: err })
+    );
+
     return res.json(updatedBooking);
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -708,6 +1109,9 @@ router.get("/:id/payment-instructions", authenticate, async (req: AuthenticatedR
     // Get booking
     const booking = await prisma.booking.findUnique({
       where: { id },
+      include: {
+        lineItems: { orderBy: { sortOrder: "asc" } },
+      },
     });
 
     if (!booking) {
@@ -719,10 +1123,26 @@ router.get("/:id/payment-instructions", authenticate, async (req: AuthenticatedR
       return next(createError("FORBIDDEN"));
     }
 
-    // Check booking status
-    if (booking.status !== BookingStatus.PENDING_CUSTOMER_PAYMENT) {
+    // Check booking status - awaiting the first payment, or a balance that is due
+    if (
+      booking.status !== BookingStatus.PENDING_CUSTOMER_PAYMENT &&
+      booking.balanceStatus !== BalanceStatus.DUE
+    ) {
       return next(createError("INVALID_STATUS", {
-        message: `Booking must be in PENDING_CUSTOMER_PAYMENT status, current: ${booking.status}`
+        message: `Booking must be in PENDING_CUSTOMER_PAYMENT status or have a balance due, current: ${booking.status}`
+      }));
+    }
+
+    // Recurring occurrences are paid just-in-time, not all up front
+    const occurrenceWindow = booking.seriesId ? getOccurrencePaymentWindow(booking.scheduledStartTime) : null;
+    if (
+      occurrenceWindow &&
+      booking.status === BookingStatus.PENDING_CUSTOMER_PAYMENT &&
+      !isOccurrencePaymentOpen(booking.scheduledStartTime)
+    ) {
+      return next(createError("PAYMENT_WINDOW_NOT_OPEN", {
+        message: `Payment for this occurrence opens at ${occurrenceWindow.opensAt.toISOString()}`,
+        paymentOpensAt: occurrenceWindow.opensAt.toISOString(),
       }));
     }
 
@@ -735,7 +1155,23 @@ router.get("/:id/payment-instructions", authenticate, async (req: AuthenticatedR
 
     return res.json({
       bookingId: id,
+      leg: result.instructions!.leg,
       amount: result.instructions!.amount.toString(),
+      escrowId: result.instructions!.escrowId,
+      depositAmount: booking.depositAmountCents?.toString() ?? null,
+      balanceAmount: booking.balanceAmountCents?.toString() ?? null,
+      balanceDueOn: booking.balanceDueOn,
+      balanceDeadline: booking.balanceDueAt ? getBalanceDeadline(booking.balanceDueAt).toISOString() : null,
+      seriesId: booking.seriesId,
+      paymentDeadline: occurrenceWindow?.cutoffAt.toISOString() ?? null,
+      // Everything being paid for in this escrow amount
+      lineItems: booking.lineItems.map((item) => ({
+        id: item.id,
+        serviceName: item.serviceName,
+        participantName: item.participantName,
+        durationMin: item.durationMin,
+        priceAmountCents: item.priceAmountCents.toString(),
+      })),
       escrowAddress: result.instructions!.escrowAddress,
       usdcAddress: result.instructions!.usdcAddress,
       customerAddress: result.instructions!.customerAddress,
@@ -746,6 +1182,10 @@ router.get("/:id/payment-instructions", authenticate, async (req: AuthenticatedR
       instructions: result.instructions!.needsApproval
         ? "First approve USDC spend, then call lockFunds on escrow contract"
         : "Call lockFunds on escrow contract to complete payment",
+      // Shown to the customer before they lock funds
+      cancellationPolicy: summarizeCancellationPolicy(
+        parseCancellationPolicySnapshot(booking.cancellationPolicy)
+      ),
     });
   } catch (error) {
     logger.error("Error getting payment instructions", { error });
@@ -818,6 +1258,11 @@ router.post("/:id/confirm-payment", authenticate, async (req: AuthenticatedReque
       txHash: input.escrowTxHash,
     }).catch((err) => logger.error("Failed to send payment confirmed notification", { error: err }));
 
+    // V7.2: Confirm the parent special event once all its bookings are funded
+    syncSpecialEventPayment(id).catch((err) =>
+      logger.error("Failed to sync special event payment", { error: err })
+    );
+
     return res.json({
       booking: updatedBooking,
       message: "Payment confirmed, booking is now CONFIRMED",
@@ -836,6 +1281,83 @@ router.post("/:id/confirm-payment", authenticate, async (req: AuthenticatedReque
   }
 });
 
+/**
+ * POST /api/bookings/:id/confirm-balance-payment
+ * Verify the balance of a deposit booking was locked in escrow
+ *
+ * Request body:
+ * - escrowTxHash: Transaction hash of the lockFunds call for the balance leg
+ * - skipOnChainVerification: (optional, testing only) Skip on-chain verification
+ */
+router.post("/:id/confirm-balance-payment", authenticate, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const input = confirmPaymentSchema.parse(req.body);
+    const userId = req.userId!;
+
+    const booking = await prisma.booking.findUnique({
+      where: { id },
+    });
+
+    if (!booking) {
+      return next(createError("BOOKING_NOT_FOUND"));
+    }
+
+    // Verify customer authorization
+    if (!authorizeBookingAccess(userId, booking, "customer")) {
+      return next(createError("FORBIDDEN"));
+    }
+
+    // Only allow skipping verification in non-production environments
+    const skipVerification = input.skipOnChainVerification &&
+      process.env.NODE_ENV !== "production";
+
+    const result = await verifyAndConfirmBalancePayment(
+      id,
+      input.escrowTxHash as Hash,
+      skipVerification
+    );
+
+    if (!result.success) {
+      return next(createError("PAYMENT_VERIFICATION_FAILED", { message: result.error }));
+    }
+
+    const updatedBooking = await prisma.booking.findUnique({
+      where: { id },
+      include: {
+        customer: true,
+        stylist: true,
+      },
+    });
+
+    // Let the stylist know they can finish up
+    notifyBookingEvent(updatedBooking!.stylistId, "PAYMENT_CONFIRMED", {
+      bookingId: id,
+      customerName: updatedBooking!.customer.displayName,
+      serviceName: updatedBooking!.serviceType,
+      amount: Number(updatedBooking!.balanceAmountCents),
+      txHash: input.escrowTxHash,
+      paymentLeg: "BALANCE",
+    }).catch((err) => logger.error("Failed to send balance payment notification", { error: err }));
+
+    return res.json({
+      booking: updatedBooking,
+      message: "Balance payment confirmed",
+      escrow: result.escrowRecord ? {
+        customer: result.escrowRecord.customer,
+        amount: result.escrowRecord.amount.toString(),
+        status: result.escrowRecord.status,
+      } : undefined,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError("VALIDATION_ERROR", { details: error.errors }));
+    }
+    logger.error("Error confirming balance payment", { error });
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
 /**
  * POST /api/bookings/:id/start
  * Mark service as started
@@ -875,12 +1397,18 @@ router.post("/:id/start", authenticate, async (req: AuthenticatedRequest, res: R
 
     const actualStartTime = input.actualStartTime || new Date();
 
+    // Deposit bookings with the balance due on start request it now
+    const balanceFallsDue =
+      booking.balanceStatus === BalanceStatus.NOT_DUE &&
+      booking.balanceDueOn === BalanceDueTrigger.ON_START;
+
     // Update booking status
     const updatedBooking = await prisma.booking.update({
       where: { id },
       data: {
         status: BookingStatus.IN_PROGRESS,
         actualStartTime,
+        ...(balanceFallsDue && { balanceStatus: BalanceStatus.DUE, balanceDueAt: new Date() }),
       },
       include: {
         customer: true,
@@ -904,6 +1432,10 @@ router.post("/:id/start", authenticate, async (req: AuthenticatedRequest, res: R
       serviceName: updatedBooking.serviceType,
     }).catch((err) => logger.error("Failed to send service started notification", { error: err }));
 
+    if (balanceFallsDue) {
+      notifyBalanceDue(updatedBooking);
+    }
+
     return res.json(updatedBooking);
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -951,6 +1483,35 @@ router.post("/:id/complete", authenticate, async (req: AuthenticatedRequest, res
       }));
     }
 
+    // Balance due on start must be locked before the service can be completed
+    try {
+      validateBalanceForTransition(BookingStatus.COMPLETED, booking.balanceStatus);
+    } catch (balanceError) {
+      return next(createError("BALANCE_PAYMENT_REQUIRED", {
+        message: balanceError instanceof Error ? balanceError.message : "Balance payment required"
+      }));
+    }
+
+    // Instant payout is checked up front so an ineligible request changes nothing
+    if (input.instantPayout) {
+      const eligibility = await getInstantPayoutEligibility(id, userId);
+      if (!eligibility.success) {
+        return next(toInstantPayoutError(eligibility));
+      }
+      if (!eligibility.data!.eligible) {
+        return next(createError("INSTANT_PAYOUT_NOT_ELIGIBLE", {
+          reason: eligibility.data!.reason,
+          score: eligibility.data!.score,
+          minScore: eligibility.data!.minScore,
+        }));
+      }
+    }
+
+    // Deposit bookings with the balance due on completion request it now
+    const balanceFallsDue =
+      booking.balanceStatus === BalanceStatus.NOT_DUE &&
+      booking.balanceDueOn === BalanceDueTrigger.ON_COMPLETE;
+
     const actualEndTime = input.actualEndTime || new Date();
 
     // Calculate actual duration
@@ -985,6 +1546,7 @@ router.post("/:id/complete", authenticate, async (req: AuthenticatedRequest, res
       where: { id },
       data: {
         status: BookingStatus.AWAITING_CUSTOMER_CONFIRMATION,
+        ...(balanceFallsDue && { balanceStatus: BalanceStatus.DUE, balanceDueAt: new Date() }),
       },
       include: {
         customer: true,
@@ -1008,8 +1570,29 @@ router.post("/:id/complete", authenticate, async (req: AuthenticatedRequest, res
       actualDurationMin: actualDurationMin || undefined,
     }).catch((err) => logger.error("Failed to send service completed notification", { error: err }));
 
+    if (balanceFallsDue) {
+      notifyBalanceDue(finalBooking);
+    }
+
     // Auto-confirm is handled by @vlossom/scheduler service polling
     // for AWAITING_CUSTOMER_CONFIRMATION bookings older than 24h
+    // (bookings with an unpaid balance are skipped, then forfeited)
+
+    // Pay the stylist from the smoothing buffer. A failed payout doesn't undo
+    // the completion - escrow pays them on release instead.
+    if (input.instantPayout) {
+      const payout = await payInstantly(id);
+      if (!payout.success) {
+        logger.error("Instant payout not sent", { bookingId: id, error: payout.error, details: payout.details });
+      }
+
+      return res.json({
+        ...finalBooking,
+        instantPayoutStatus: payout.data?.status ?? null,
+        instantPayoutCents: payout.data?.amountCents.toString() ?? null,
+        instantPayoutTxHash: payout.data?.txHash ?? null,
+      });
+    }
 
     return res.json(finalBooking);
   } catch (error) {
@@ -1021,6 +1604,35 @@ router.post("/:id/complete", authenticate, async (req: AuthenticatedRequest, res
   }
 });
 
+/**
+ * Map a failed smoothing buffer result to an API error
+ */
+function toInstantPayoutError(result: SmoothingBufferResult<unknown>) {
+  return createError(result.error || "INTERNAL_ERROR", result.details);
+}
+
+/**
+ * GET /api/bookings/:id/instant-payout
+ * Whether the stylist can take an instant payout on completion, and how much
+ */
+router.get("/:id/instant-payout", authenticate, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const result = await getInstantPayoutEligibility(req.params.id, req.userId!);
+
+    if (!result.success) {
+      return next(toInstantPayoutError(result));
+    }
+
+    return res.json({
+      ...result.data,
+      amountCents: result.data!.amountCents.toString(),
+    });
+  } catch (error) {
+    logger.error("Error checking instant payout eligibility", { error });
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
 /**
  * POST /api/bookings/:id/confirm
  * Customer confirms service completion and triggers settlement
@@ -1065,6 +1677,15 @@ router.post("/:id/confirm", authenticate, async (req: AuthenticatedRequest, res:
       }));
     }
 
+    // Deposit bookings settle only once the balance is locked
+    try {
+      validateBalanceForTransition(BookingStatus.SETTLED, booking.balanceStatus);
+    } catch (balanceError) {
+      return next(createError("BALANCE_PAYMENT_REQUIRED", {
+        message: balanceError instanceof Error ? balanceError.message : "Balance payment required"
+      }));
+    }
+
     // Update booking to SETTLED
     const updatedBooking = await prisma.booking.update({
       where: { id },
@@ -1084,66 +1705,97 @@ router.post("/:id/confirm", authenticate, async (req: AuthenticatedRequest, res:
     );
 
     // Trigger escrow settlement - release funds to stylist and treasury
-    try {
-      // Get stylist wallet address
-      if (!booking.stylist.walletAddress) {
-        logger.error("Stylist wallet address not found", { stylistId: booking.stylistId });
-        throw new Error("Stylist wallet not configured");
-      }
+    // (and the property owner for salon chair bookings).
+    // Deposit bookings release the deposit and balance legs separately
+    const propertyOwnerAddress =
+      (booking.propertyPayoutCents ?? 0n) > 0n ? await getPropertyPayeeAddress(id) : null;
+    const escrowLegs = allocatePropertyPayout(getLockedEscrowLegs(booking), booking);
+
+    // Stylists already paid from the smoothing buffer have their share
+    // released to the relayer, which repays the buffer
+    let stylistPayee: Awaited<ReturnType<typeof resolveStylistPayee>> | null = null;
+    let releasedLegs = 0;
+
+    for (const leg of escrowLegs) {
+      try {
+        // Get stylist wallet address
+        if (!booking.stylist.walletAddress) {
+          logger.error("Stylist wallet address not found", { stylistId: booking.stylistId });
+          throw new Error("Stylist wallet not configured");
+        }
 
-      const result = await releaseFundsFromEscrow({
-        bookingId: id,
-        stylistAddress: booking.stylist.walletAddress as Address,
-        totalAmount: BigInt(booking.quoteAmountCents),
-        platformFeePercentage: PLATFORM_FEE_PERCENTAGE,
-        treasuryAddress: PLATFORM_TREASURY_ADDRESS,
-      });
+        stylistPayee ??= await resolveStylistPayee(booking, booking.stylist.walletAddress as Address);
 
-      if (!result.success) {
-        logger.error("Failed to release escrow funds", { error: result.error });
+        const result = await releaseEscrowLeg({
+          escrowKey: leg.escrowKey,
+          amountCents: leg.amountCents,
+          platformFeeCents: leg.platformFeeCents,
+          propertyAmountCents: leg.propertyAmountCents,
+          stylistAddress: stylistPayee.address,
+          propertyOwnerAddress,
+        });
 
-        // M-1: Record escrow failure for manual review
-        await prisma.escrowFailure.create({
-          data: {
-            bookingId: id,
-            operation: "RELEASE",
-            errorMessage: result.error || "Unknown error",
-            txHash: result.txHash,
-            amount: BigInt(booking.quoteAmountCents),
-            metadata: {
-              stylistAddress: booking.stylist.walletAddress,
-              treasuryAddress: PLATFORM_TREASURY_ADDRESS,
-              platformFeePercentage: PLATFORM_FEE_PERCENTAGE,
+        if (!result.success) {
+          logger.error("Failed to release escrow funds", { error: result.error, leg: leg.leg });
+
+          // M-1: Record escrow failure for manual review
+          await prisma.escrowFailure.create({
+            data: {
+              bookingId: id,
+              operation: "RELEASE",
+              errorMessage: result.error || "Unknown error",
+              txHash: result.txHash,
+              amount: leg.amountCents,
+              metadata: {
+                leg: leg.leg,
+                stylistAddress: booking.stylist.walletAddress,
+                treasuryAddress: PLATFORM_TREASURY_ADDRESS,
+                platformFeeCents: leg.platformFeeCents.toString(),
+                propertyOwnerAddress,
+                propertyAmount: leg.propertyAmountCents.toString(),
+              },
             },
-          },
-        });
+          });
 
-        // Log the error but don't fail the booking confirmation
-        // Support team can manually release funds if needed
-      } else {
-        logger.info("Escrow funds released successfully", { txHash: result.txHash });
-      }
-    } catch (escrowError) {
-      logger.error("Error releasing escrow funds", { error: escrowError });
+          // Log the error but don't fail the booking confirmation
+          // Support team can manually release funds if needed
+        } else {
+          releasedLegs++;
+          logger.info("Escrow funds released successfully", { txHash: result.txHash, leg: leg.leg });
+        }
+      } catch (escrowError) {
+        logger.error("Error releasing escrow funds", { error: escrowError, leg: leg.leg });
 
-      // M-1: Record escrow failure for manual review
-      try {
-        await prisma.escrowFailure.create({
-          data: {
-            bookingId: id,
-            operation: "RELEASE",
-            errorMessage: escrowError instanceof Error ? escrowError.message : String(escrowError),
-            amount: BigInt(booking.quoteAmountCents),
-            metadata: {
-              errorStack: escrowError instanceof Error ? escrowError.stack : undefined,
+        // M-1: Record escrow failure for manual review
+        try {
+          await prisma.escrowFailure.create({
+            data: {
+              bookingId: id,
+              operation: "RELEASE",
+              errorMessage: escrowError instanceof Error ? escrowError.message : String(escrowError),
+              amount: leg.amountCents,
+              metadata: {
+                leg: leg.leg,
+                errorStack: escrowError instanceof Error ? escrowError.stack : undefined,
+              },
             },
-          },
-        });
-      } catch (dbError) {
-        logger.error("Failed to record escrow failure", { error: dbError });
+          });
+        } catch (dbError) {
+          logger.error("Failed to record escrow failure", { error: dbError });
+        }
+
+        // Continue - don't block booking confirmation on escrow failure
       }
+    }
 
-      // Continue - don't block booking confirmation on escrow failure
+    if (stylistPayee?.instantPaid && releasedLegs === escrowLegs.length) {
+      completeInstantPayoutRelease(id)
+        .then((result) => {
+          if (!result.success) {
+            logger.error("Instant payout left for the scheduler to reconcile", { bookingId: id, error: result.error });
+          }
+        })
+        .catch((err) => logger.error("Failed to reconcile instant payout", { error: err }));
     }
 
     // Record reputation events for this booking completion
@@ -1158,6 +1810,13 @@ router.post("/:id/confirm", authenticate, async (req: AuthenticatedRequest, res:
       wasAutoConfirmed: false,
     }).catch((err) => logger.error("Failed to record reputation event", { error: err }));
 
+    // Close the series once its last occurrence is done
+    if (booking.seriesId) {
+      refreshSeriesStatus(booking.seriesId).catch((err) =>
+        logger.error("Failed to refresh booking series status", { error: err })
+      );
+    }
+
     return res.json(updatedBooking);
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -1195,172 +1854,188 @@ router.post("/:id/cancel", authenticate, async (req: AuthenticatedRequest, res:
       return next(createError("FORBIDDEN"));
     }
 
-    // Check if user is customer or stylist
-    const isStylist = booking.stylistId === userId;
-
     // Backward compatibility check
     if (booking.customerId !== input.userId && booking.stylistId !== input.userId) {
       return next(createError("FORBIDDEN"));
     }
 
-    // Check if cancellation is allowed
-    if (!canCancelBooking(booking.status)) {
-      return next(createError("CANNOT_CANCEL", {
-        message: `Booking cannot be cancelled in ${booking.status} status`
-      }));
+    const result = await cancelBooking(booking, {
+      cancelledBy: userId,
+      reason: input.reason,
+    });
+
+    if (!result.success) {
+      return next(createError(result.error, { message: result.message }));
     }
 
-    // Calculate refund based on who is cancelling
-    let refundAmountCents: bigint;
-    let cancellationDetails: string;
+    syncSeriesOccurrenceCancelled(result.booking).catch((err) =>
+      logger.error("Failed to sync booking series after cancellation", { error: err })
+    );
 
-    if (isStylist) {
-      // Stylist cancellation = full refund
-      refundAmountCents = calculateStylistCancellationRefund(
-        booking.quoteAmountCents
-      );
-      cancellationDetails = "Stylist cancelled - full refund";
-    } else {
-      // Customer cancellation = timing-based refund
-      const refund = calculateCustomerRefund(
-        booking.quoteAmountCents,
-        booking.scheduledStartTime
-      );
-      refundAmountCents = refund.refundAmountCents;
-      cancellationDetails = `Customer cancelled ${refund.hoursUntilStart.toFixed(1)}h before - ${refund.refundPercentage}% refund`;
+    return res.json({
+      booking: result.booking,
+      refund: {
+        amountCents: result.refundAmountCents.toString(),
+        details: result.details,
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError("VALIDATION_ERROR", { details: error.errors }));
     }
+    logger.error("Error cancelling booking", { error });
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
 
-    // Validate state transition
-    try {
-      validateTransition(booking.status, BookingStatus.CANCELLED);
-    } catch (transitionError) {
-      return next(createError("INVALID_STATUS_TRANSITION", {
-        message: transitionError instanceof Error ? transitionError.message : "Invalid transition"
-      }));
+/**
+ * Map a failed reschedule result to an API error
+ */
+function toRescheduleError(result: RescheduleResult<unknown>) {
+  return createError(result.error || "INTERNAL_ERROR", result.details);
+}
+
+/**
+ * GET /api/bookings/:id/reschedule-proposals
+ * Reschedule proposals on a booking, newest first
+ */
+router.get("/:id/reschedule-proposals", authenticate, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const result = await listRescheduleProposals(req.params.id, req.userId!);
+
+    if (!result.success) {
+      return next(toRescheduleError(result));
     }
 
-    // Update booking status
-    const updatedBooking = await prisma.booking.update({
-      where: { id },
-      data: {
-        status: BookingStatus.CANCELLED,
-        cancelledAt: new Date(),
-        cancelledBy: input.userId,
-        cancellationReason: input.reason,
-      },
-      include: {
-        customer: true,
-        stylist: true,
-      },
+    return res.json(result.data);
+  } catch (error) {
+    logger.error("Error listing reschedule proposals", { error });
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
+/**
+ * POST /api/bookings/:id/reschedule-proposals
+ * Customer or stylist proposes one or more new times
+ */
+router.post("/:id/reschedule-proposals", authenticate, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const input = proposeRescheduleSchema.parse(req.body);
+
+    const result = await proposeReschedule({
+      bookingId: req.params.id,
+      userId: req.userId!,
+      startTimes: input.startTimes,
+      reason: input.reason,
     });
 
-    // Log status change
-    await logStatusChange(
-      id,
-      booking.status,
-      BookingStatus.CANCELLED,
-      input.userId,
-      `${input.reason} - ${cancellationDetails}`
-    );
+    if (!result.success) {
+      return next(toRescheduleError(result));
+    }
+
+    return res.status(201).json(result.data);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError("VALIDATION_ERROR", { details: error.errors }));
+    }
+    logger.error("Error proposing reschedule", { error });
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
 
-    // Process refund via escrow contract
+/**
+ * POST /api/bookings/:id/reschedule-proposals/:proposalId/accept
+ * The other party accepts one of the proposed times - the booking moves
+ */
+router.post(
+  "/:id/reschedule-proposals/:proposalId/accept",
+  authenticate,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
-      // Get customer wallet address for refund
-      if (!booking.customer.walletAddress) {
-        logger.error("Customer wallet address not found", { customerId: booking.customerId });
-        throw new Error("Customer wallet not configured");
+      const input = acceptRescheduleSchema.parse(req.body);
+
+      const result = await acceptRescheduleProposal({
+        bookingId: req.params.id,
+        proposalId: req.params.proposalId,
+        userId: req.userId!,
+        startTime: input.startTime,
+        note: input.note,
+      });
+
+      if (!result.success) {
+        return next(toRescheduleError(result));
       }
 
-      // Only process refund if there's money to refund
-      if (refundAmountCents > 0n) {
-        const result = await refundFromEscrow({
-          bookingId: id,
-          recipientAddress: booking.customer.walletAddress as Address,
-        });
+      return res.json(result.data);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return next(createError("VALIDATION_ERROR", { details: error.errors }));
+      }
+      logger.error("Error accepting reschedule proposal", { error });
+      return next(createError("INTERNAL_ERROR"));
+    }
+  }
+);
 
-        if (!result.success) {
-          logger.error("Failed to refund from escrow", { error: result.error });
+/**
+ * POST /api/bookings/:id/reschedule-proposals/:proposalId/reject
+ * The other party keeps the current time
+ */
+router.post(
+  "/:id/reschedule-proposals/:proposalId/reject",
+  authenticate,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const input = rejectRescheduleSchema.parse(req.body);
 
-          // M-1: Record escrow failure for manual review
-          await prisma.escrowFailure.create({
-            data: {
-              bookingId: id,
-              operation: "REFUND",
-              errorMessage: result.error || "Unknown error",
-              txHash: result.txHash,
-              amount: refundAmountCents,
-              metadata: {
-                customerAddress: booking.customer.walletAddress,
-                originalAmount: booking.quoteAmountCents.toString(),
-              },
-            },
-          });
+      const result = await rejectRescheduleProposal({
+        bookingId: req.params.id,
+        proposalId: req.params.proposalId,
+        userId: req.userId!,
+        note: input.note,
+      });
 
-          // Log the error but don't fail the cancellation
-          // Support team can manually process refund if needed
-        } else {
-          logger.info("Refund processed successfully", { txHash: result.txHash });
-        }
-      } else {
-        logger.info("No refund amount - cancellation within no-refund window");
+      if (!result.success) {
+        return next(toRescheduleError(result));
       }
-    } catch (refundError) {
-      logger.error("Error processing refund", { error: refundError });
 
-      // M-1: Record escrow failure for manual review
-      try {
-        await prisma.escrowFailure.create({
-          data: {
-            bookingId: id,
-            operation: "REFUND",
-            errorMessage: refundError instanceof Error ? refundError.message : String(refundError),
-            amount: refundAmountCents,
-            metadata: {
-              errorStack: refundError instanceof Error ? refundError.stack : undefined,
-            },
-          },
-        });
-      } catch (dbError) {
-        logger.error("Failed to record escrow failure", { error: dbError });
+      return res.json(result.data);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return next(createError("VALIDATION_ERROR", { details: error.errors }));
       }
-
-      // Continue - don't block cancellation on escrow failure
+      logger.error("Error rejecting reschedule proposal", { error });
+      return next(createError("INTERNAL_ERROR"));
     }
+  }
+);
 
-    // F4.3: Send notifications to both parties about cancellation
-    const cancelledByCustomer = booking.customerId === input.userId;
-
-    // Notify the customer
-    notifyBookingEvent(updatedBooking.customerId, "BOOKING_CANCELLED", {
-      bookingId: id,
-      cancelledBy: cancelledByCustomer ? "you" : updatedBooking.stylist.displayName,
-      reason: input.reason,
-      refundAmount: Number(refundAmountCents),
-    }).catch((err) => logger.error("Failed to send cancellation notification to customer", { error: err }));
+/**
+ * POST /api/bookings/:id/reschedule-proposals/:proposalId/withdraw
+ * The proposer takes back their proposal
+ */
+router.post(
+  "/:id/reschedule-proposals/:proposalId/withdraw",
+  authenticate,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const result = await withdrawRescheduleProposal({
+        bookingId: req.params.id,
+        proposalId: req.params.proposalId,
+        userId: req.userId!,
+      });
 
-    // Notify the stylist
-    notifyBookingEvent(updatedBooking.stylistId, "BOOKING_CANCELLED", {
-      bookingId: id,
-      cancelledBy: cancelledByCustomer ? updatedBooking.customer.displayName : "you",
-      reason: input.reason,
-      customerName: updatedBooking.customer.displayName,
-    }).catch((err) => logger.error("Failed to send cancellation notification to stylist", { error: err }));
+      if (!result.success) {
+        return next(toRescheduleError(result));
+      }
 
-    return res.json({
-      booking: updatedBooking,
-      refund: {
-        amountCents: refundAmountCents.toString(),
-        details: cancellationDetails,
-      },
-    });
-  } catch (error) {
-    if (error instanceof z.ZodError) {
-      return next(createError("VALIDATION_ERROR", { details: error.errors }));
+      return res.json(result.data);
+    } catch (error) {
+      logger.error("Error withdrawing reschedule proposal", { error });
+      return next(createError("INTERNAL_ERROR"));
     }
-    logger.error("Error cancelling booking", { error });
-    return next(createError("INTERNAL_ERROR"));
   }
-});
+);
 
 // ============================================================================
 // GET /api/v1/bookings/stats
@@ -2,7 +2,12 @@
  * Conversations API Routes (V6.7.0)
  *
  * Endpoints for direct messaging between users (stylists, customers).
- * Text-only for MVP.
+ * Messages are text, images, voice notes, service and availability cards,
+ * booking links, or booking proposals the customer can accept into a booking.
+ *
+ * Participants receive messages, typing indicators, read receipts and unread
+ * counts over GET /stream. Recipients without an open stream get a push
+ * notification instead.
  */
 
 import { Router, Response, NextFunction } from "express";
@@ -11,7 +16,25 @@ import { createError } from "../middleware/error-handler";
 import { logger } from "../lib/logger";
 import { z } from "zod";
 import prisma from "../lib/prisma";
-import { sendNotification } from "../lib/notifications";
+import { sendNotification, type NotificationChannel } from "../lib/notifications";
+import {
+  acceptBookingProposal,
+  addConversationClient,
+  buildAttachmentDraft,
+  buildMessageDraft,
+  declineBookingProposal,
+  isUserOnline,
+  MAX_AVAILABILITY_SLOTS,
+  publishConversationEvent,
+  refreshConversationPresence,
+  toRealtimeMessage,
+  STREAM_HEARTBEAT_MS,
+  TYPING_TIMEOUT_MS,
+  type ConversationResult,
+  type MessageDraft,
+  type RealtimeMessage,
+} from "../lib/conversations";
+import type { Message } from "@prisma/client";
 
 const router: ReturnType<typeof Router> = Router();
 
@@ -31,8 +54,51 @@ const startConversationSchema = z.object({
   initialMessage: z.string().min(1).max(2000).optional(),
 });
 
-const sendMessageSchema = z.object({
-  content: z.string().min(1).max(2000),
+const captionSchema = z.string().max(500).optional();
+
+// Untyped bodies are plain text, as before rich messages
+const sendMessageSchema = z.preprocess(
+  (body) =>
+    body && typeof body === "object" && !("type" in body) ? { ...body, type: "TEXT" } : body,
+  z.discriminatedUnion("type", [
+    z.object({
+      type: z.literal("TEXT"),
+      content: z.string().min(1).max(2000),
+    }),
+    z.object({
+      type: z.literal("SERVICE_CARD"),
+      serviceId: z.string().uuid(),
+      content: captionSchema,
+    }),
+    z.object({
+      type: z.literal("AVAILABILITY_CARD"),
+      serviceId: z.string().uuid().optional(),
+      slots: z
+        .array(z.object({ startTime: z.string().datetime(), endTime: z.string().datetime() }))
+        .min(1)
+        .max(MAX_AVAILABILITY_SLOTS),
+      content: captionSchema,
+    }),
+    z.object({
+      type: z.literal("BOOKING_LINK"),
+      bookingId: z.string().uuid(),
+      content: captionSchema,
+    }),
+    z.object({
+      type: z.literal("BOOKING_PROPOSAL"),
+      serviceId: z.string().uuid(),
+      scheduledStartTime: z.string().datetime(),
+      locationType: z.enum(["STYLIST_BASE", "CUSTOMER_HOME"]),
+      locationAddress: z.string().min(1).max(500),
+      locationLat: z.number().min(-90).max(90).optional(),
+      locationLng: z.number().min(-180).max(180).optional(),
+      content: captionSchema,
+    }),
+  ])
+);
+
+const attachmentQuerySchema = z.object({
+  caption: captionSchema,
 });
 
 const listMessagesSchema = z.object({
@@ -40,6 +106,10 @@ const listMessagesSchema = z.object({
   before: z.string().datetime().optional(), // Cursor for pagination
 });
 
+const typingSchema = z.object({
+  isTyping: z.boolean(),
+});
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
@@ -111,6 +181,257 @@ function getOtherParticipantId(
   return null;
 }
 
+/**
+ * Total unread messages across the user's active, unarchived conversations
+ */
+async function getTotalUnreadCount(userId: string): Promise<number> {
+  // Sum unread counts where user is participant1
+  const asParticipant1 = await prisma.conversation.aggregate({
+    where: {
+      participant1Id: userId,
+      isActive: true,
+      participant1ArchivedAt: null,
+    },
+    _sum: { participant1UnreadCount: true },
+  });
+
+  // Sum unread counts where user is participant2
+  const asParticipant2 = await prisma.conversation.aggregate({
+    where: {
+      participant2Id: userId,
+      isActive: true,
+      participant2ArchivedAt: null,
+    },
+    _sum: { participant2UnreadCount: true },
+  });
+
+  return (
+    (asParticipant1._sum.participant1UnreadCount || 0) +
+    (asParticipant2._sum.participant2UnreadCount || 0)
+  );
+}
+
+function toApiError(result: ConversationResult<unknown>) {
+  return createError(result.error || "INTERNAL_ERROR", result.details);
+}
+
+/**
+ * Read a raw upload body and work out its mimetype, from the content type or
+ * the file's magic bytes. Null when the content type is not accepted.
+ */
+async function readUpload(
+  req: AuthenticatedRequest,
+  kind: "image" | "audio"
+): Promise<{ buffer: Buffer; mimetype: string } | null> {
+  const contentType = req.headers["content-type"] || "";
+
+  if (!contentType.includes("application/octet-stream") && !contentType.includes(`${kind}/`)) {
+    return null;
+  }
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+  }
+  const buffer = Buffer.concat(chunks);
+
+  let mimetype = contentType.split(";")[0].trim();
+  if (mimetype === "application/octet-stream") {
+    if (kind === "image") {
+      if (buffer[0] === 0xff && buffer[1] === 0xd8) {
+        mimetype = "image/jpeg";
+      } else if (buffer[0] === 0x89 && buffer[1] === 0x50) {
+        mimetype = "image/png";
+      } else if (buffer[0] === 0x47 && buffer[1] === 0x49) {
+        mimetype = "image/gif";
+      } else if (buffer[0] === 0x52 && buffer[1] === 0x49) {
+        mimetype = "image/webp";
+      }
+    } else {
+      if (buffer[0] === 0x1a && buffer[1] === 0x45 && buffer[2] === 0xdf && buffer[3] === 0xa3) {
+        mimetype = "audio/webm";
+      } else if (buffer.subarray(0, 4).toString("ascii") === "OggS") {
+        mimetype = "audio/ogg";
+      } else if (buffer.subarray(0, 4).toString("ascii") === "RIFF") {
+        mimetype = "audio/wav";
+      } else if (buffer.subarray(4, 8).toString("ascii") === "ftyp") {
+        mimetype = "audio/mp4";
+      } else if (buffer.subarray(0, 3).toString("ascii") === "ID3" || (buffer[0] === 0xff && (buffer[1] & 0xe0) === 0xe0)) {
+        mimetype = "audio/mpeg";
+      }
+    }
+  }
+
+  return { buffer, mimetype };
+}
+
+/**
+ * Shape a message for the given viewer
+ */
+function toMessageResponse(message: Message, userId: string): RealtimeMessage & { isOwn: boolean } {
+  return { ...toRealtimeMessage(message), isOwn: message.senderId === userId };
+}
+
+/**
+ * Store a resolved draft as a message from the user and deliver it
+ */
+async function createMessageFromDraft(
+  conversation: { id: string; participant1Id: string; participant2Id: string },
+  userId: string,
+  draft: MessageDraft
+): Promise<Message> {
+  const message = await prisma.message.create({
+    data: {
+      conversationId: conversation.id,
+      senderId: userId,
+      content: draft.content,
+      type: draft.type,
+      payload: draft.payload ? (draft.payload as object) : undefined,
+      moderationStatus: draft.moderationStatus,
+      moderationReason: draft.moderationReason,
+      proposalStatus: draft.proposalStatus,
+      proposalExpiresAt: draft.proposalExpiresAt,
+    },
+  });
+
+  // Update conversation metadata, push to streams and notify other participant
+  const otherUserId = getOtherParticipantId(conversation, userId);
+  if (otherUserId) {
+    await deliverNewMessage(conversation, message, otherUserId);
+  }
+
+  logger.info("Message sent", {
+    conversationId: conversation.id,
+    messageId: message.id,
+    senderId: userId,
+    type: message.type,
+  });
+
+  return message;
+}
+
+/**
+ * Record a new message on the conversation and deliver it: both participants'
+ * streams get the message, the recipient gets their new unread counts, and a
+ * recipient with no open stream also gets a push notification.
+ */
+async function deliverNewMessage(
+  conversation: { id: string; participant1Id: string; participant2Id: string },
+  message: Message,
+  recipientId: string
+): Promise<void> {
+  const recipientPosition = getParticipantPosition(conversation, recipientId);
+  const updated = await prisma.conversation.update({
+    where: { id: conversation.id },
+    data: {
+      lastMessageAt: message.createdAt,
+      lastMessagePreview: message.content.slice(0, 100),
+      ...(recipientPosition === 1
+        ? { participant1UnreadCount: { increment: 1 } }
+        : { participant2UnreadCount: { increment: 1 } }),
+    },
+  });
+
+  const [recipientOnline, totalUnreadCount, sender] = await Promise.all([
+    isUserOnline(recipientId),
+    getTotalUnreadCount(recipientId),
+    prisma.user.findUnique({
+      where: { id: message.senderId },
+      select: { displayName: true },
+    }),
+  ]);
+
+  await Promise.all([
+    publishConversationEvent([message.senderId, recipientId], {
+      type: "message",
+      conversationId: conversation.id,
+      message: toRealtimeMessage(message),
+    }),
+    publishConversationEvent([recipientId], {
+      type: "unread",
+      conversationId: conversation.id,
+      conversationUnreadCount:
+        recipientPosition === 1 ? updated.participant1UnreadCount : updated.participant2UnreadCount,
+      totalUnreadCount,
+    }),
+  ]).catch((err) => {
+    logger.warn("Failed to publish message event", { error: err, conversationId: conversation.id });
+  });
+
+  const channels: NotificationChannel[] = recipientOnline ? ["IN_APP"] : ["IN_APP", "PUSH"];
+
+  await sendNotification({
+    userId: recipientId,
+    type: "MESSAGE_RECEIVED",
+    channels,
+    metadata: {
+      conversationId: conversation.id,
+      senderName: sender?.displayName || "Someone",
+      messagePreview: message.content.slice(0, 50),
+      deepLink: `/messages/${conversation.id}`,
+    },
+  }).catch((err) => {
+    logger.warn("Failed to send message notification", { error: err });
+  });
+}
+
+/**
+ * Mark the other participant's messages read, reset the reader's unread
+ * count, and send the read receipt and new counts
+ */
+async function markConversationRead(
+  conversation: { id: string; participant1Id: string; participant2Id: string },
+  userId: string
+): Promise<number> {
+  const position = getParticipantPosition(conversation, userId);
+  const readAt = new Date();
+
+  // Mark all unread messages from other user as read
+  const result = await prisma.message.updateMany({
+    where: {
+      conversationId: conversation.id,
+      senderId: { not: userId },
+      readAt: null,
+    },
+    data: { readAt },
+  });
+
+  // Reset unread count
+  await prisma.conversation.update({
+    where: { id: conversation.id },
+    data:
+      position === 1
+        ? { participant1UnreadCount: 0 }
+        : { participant2UnreadCount: 0 },
+  });
+
+  if (result.count > 0) {
+    const otherUserId = getOtherParticipantId(conversation, userId);
+    const totalUnreadCount = await getTotalUnreadCount(userId);
+
+    await Promise.all([
+      otherUserId &&
+        publishConversationEvent([otherUserId], {
+          type: "read",
+          conversationId: conversation.id,
+          readerId: userId,
+          readAt,
+          markedCount: result.count,
+        }),
+      publishConversationEvent([userId], {
+        type: "unread",
+        conversationId: conversation.id,
+        conversationUnreadCount: 0,
+        totalUnreadCount,
+      }),
+    ]).catch((err) => {
+      logger.warn("Failed to publish read receipt", { error: err, conversationId: conversation.id });
+    });
+  }
+
+  return result.count;
+}
+
 // ============================================================================
 // GET /api/v1/conversations
 // List user's conversations
@@ -296,38 +617,8 @@ router.post(
           },
         });
 
-        // Update conversation metadata
-        const otherPosition = getParticipantPosition(conversation, input.recipientId);
-        await prisma.conversation.update({
-          where: { id: conversation.id },
-          data: {
-            lastMessageAt: new Date(),
-            lastMessagePreview: input.initialMessage.slice(0, 100),
-            ...(otherPosition === 1
-              ? { participant1UnreadCount: { increment: 1 } }
-              : { participant2UnreadCount: { increment: 1 } }),
-          },
-        });
-
-        // Send notification to recipient
-        const sender = await prisma.user.findUnique({
-          where: { id: userId },
-          select: { displayName: true },
-        });
-
-        await sendNotification({
-          userId: input.recipientId,
-          type: "MESSAGE_RECEIVED",
-          channels: ["IN_APP"],
-          metadata: {
-            conversationId: conversation.id,
-            senderName: sender?.displayName || "Someone",
-            messagePreview: input.initialMessage.slice(0, 50),
-            deepLink: `/messages/${conversation.id}`,
-          },
-        }).catch((err) => {
-          logger.warn("Failed to send message notification", { error: err });
-        });
+        // Update conversation metadata, push to streams and notify recipient
+        await deliverNewMessage(conversation, initialMessage, input.recipientId);
       }
 
       logger.info("Conversation started/retrieved", {
@@ -366,6 +657,81 @@ router.post(
   }
 );
 
+// ============================================================================
+// GET /api/v1/conversations/stream
+// Server-Sent Events for all of the user's conversations
+// ============================================================================
+
+router.get(
+  "/stream",
+  authenticate,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const userId = req.userId!;
+      const unreadCount = await getTotalUnreadCount(userId);
+
+      // Set SSE headers
+      res.setHeader("Content-Type", "text/event-stream");
+      res.setHeader("Cache-Control", "no-cache");
+      res.setHeader("Connection", "keep-alive");
+      res.setHeader("X-Accel-Buffering", "no"); // Disable nginx buffering
+
+      // Send initial connection event with the current count to sync from
+      res.write(`event: connected\ndata: ${JSON.stringify({
+        userId,
+        unreadCount,
+        timestamp: new Date().toISOString(),
+      })}\n\n`);
+
+      const removeClient = addConversationClient(userId, res);
+
+      // Keep connection and presence alive with heartbeat
+      const heartbeat = setInterval(() => {
+        try {
+          res.write(`: heartbeat\n\n`);
+          refreshConversationPresence(userId);
+        } catch (_error) {
+          clearInterval(heartbeat);
+        }
+      }, STREAM_HEARTBEAT_MS);
+
+      // Clean up on disconnect
+      req.on("close", () => {
+        clearInterval(heartbeat);
+        removeClient();
+        logger.debug("Conversation stream disconnected", { userId });
+      });
+
+      logger.debug("Conversation stream connected", { userId });
+    } catch (error) {
+      logger.error("Error setting up conversation stream", { error });
+      return next(createError("INTERNAL_ERROR"));
+    }
+  }
+);
+
+// ============================================================================
+// GET /api/v1/conversations/unread-count
+// Get total unread message count across all conversations
+// ============================================================================
+
+router.get(
+  "/unread-count",
+  authenticate,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const userId = req.userId!;
+
+      const totalUnread = await getTotalUnreadCount(userId);
+
+      return res.json({ unreadCount: totalUnread });
+    } catch (error) {
+      logger.error("Error fetching unread count", { error });
+      return next(createError("INTERNAL_ERROR"));
+    }
+  }
+);
+
 // ============================================================================
 // GET /api/v1/conversations/:id
 // Get conversation details with messages
@@ -428,23 +794,7 @@ router.get(
 
       // Mark messages as read (ones sent by other user)
       if (messages.length > 0) {
-        await prisma.message.updateMany({
-          where: {
-            conversationId: id,
-            senderId: { not: userId },
-            readAt: null,
-          },
-          data: { readAt: new Date() },
-        });
-
-        // Reset unread count for this user
-        await prisma.conversation.update({
-          where: { id },
-          data:
-            position === 1
-              ? { participant1UnreadCount: 0 }
-              : { participant2UnreadCount: 0 },
-        });
+        await markConversationRead(conversation, userId);
       }
 
       return res.json({
@@ -462,14 +812,7 @@ router.get(
             : null,
           createdAt: conversation.createdAt,
         },
-        messages: messages.map((m) => ({
-          id: m.id,
-          content: m.content,
-          senderId: m.senderId,
-          isOwn: m.senderId === userId,
-          readAt: m.readAt,
-          createdAt: m.createdAt,
-        })),
+        messages: messages.map((m) => toMessageResponse(m, userId)),
         hasMore: messages.length === input.limit,
         cursor: messages.length > 0 ? messages[messages.length - 1].createdAt.toISOString() : null,
       });
@@ -514,71 +857,211 @@ router.post(
         );
       }
 
-      // Create message
-      const message = await prisma.message.create({
-        data: {
-          conversationId: id,
-          senderId: userId,
-          content: input.content,
-        },
+      // Resolve cards and proposals into their snapshots
+      const draft = await buildMessageDraft(input, userId, getOtherParticipantId(conversation, userId)!);
+      if (!draft.success) {
+        return next(toApiError(draft));
+      }
+
+      const message = await createMessageFromDraft(conversation, userId, draft.data!);
+
+      return res.status(201).json({
+        message: toMessageResponse(message, userId),
       });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return next(createError("VALIDATION_ERROR", { details: error.errors }));
+      }
+      logger.error("Error sending message", { error });
+      return next(createError("INTERNAL_ERROR"));
+    }
+  }
+);
 
-      // Update conversation metadata
-      const otherPosition = position === 1 ? 2 : 1;
-      await prisma.conversation.update({
+// ============================================================================
+// POST /api/v1/conversations/:id/attachments/:kind
+// Send a photo (kind=image) or voice note (kind=voice) - raw body, optional
+// ?caption=. Attachments are moderated before they are sent.
+// ============================================================================
+
+router.post(
+  "/:id/attachments/:kind(image|voice)",
+  authenticate,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const userId = req.userId!;
+      const { id, kind } = req.params;
+      const { caption } = attachmentQuerySchema.parse(req.query);
+
+      const conversation = await prisma.conversation.findUnique({
         where: { id },
-        data: {
-          lastMessageAt: new Date(),
-          lastMessagePreview: input.content.slice(0, 100),
-          ...(otherPosition === 1
-            ? { participant1UnreadCount: { increment: 1 } }
-            : { participant2UnreadCount: { increment: 1 } }),
-        },
       });
 
-      // Send notification to other participant
-      const otherUserId = getOtherParticipantId(conversation, userId);
-      if (otherUserId) {
-        const sender = await prisma.user.findUnique({
-          where: { id: userId },
-          select: { displayName: true },
-        });
+      if (!conversation) {
+        return next(createError("NOT_FOUND", { message: "Conversation not found" }));
+      }
 
-        await sendNotification({
-          userId: otherUserId,
-          type: "MESSAGE_RECEIVED",
-          channels: ["IN_APP"],
-          metadata: {
-            conversationId: id,
-            senderName: sender?.displayName || "Someone",
-            messagePreview: input.content.slice(0, 50),
-            deepLink: `/messages/${id}`,
-          },
-        }).catch((err) => {
-          logger.warn("Failed to send message notification", { error: err });
-        });
+      const position = getParticipantPosition(conversation, userId);
+      if (!position) {
+        return next(
+          createError("FORBIDDEN", { message: "You are not part of this conversation" })
+        );
+      }
+
+      const upload = await readUpload(req, kind === "image" ? "image" : "audio");
+      if (!upload) {
+        return next(createError("INVALID_CONTENT_TYPE"));
+      }
+
+      if (upload.buffer.length === 0) {
+        return next(createError("NO_FILE"));
       }
 
-      logger.info("Message sent", {
+      const draft = await buildAttachmentDraft({
+        kind: kind === "image" ? "IMAGE" : "VOICE_NOTE",
         conversationId: id,
-        messageId: message.id,
         senderId: userId,
+        buffer: upload.buffer,
+        mimetype: upload.mimetype,
+        caption,
       });
+      if (!draft.success) {
+        return next(toApiError(draft));
+      }
+
+      const message = await createMessageFromDraft(conversation, userId, draft.data!);
 
       return res.status(201).json({
-        message: {
-          id: message.id,
-          content: message.content,
-          senderId: message.senderId,
-          isOwn: true,
-          createdAt: message.createdAt,
-        },
+        message: toMessageResponse(message, userId),
       });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return next(createError("VALIDATION_ERROR", { details: error.errors }));
       }
-      logger.error("Error sending message", { error });
+      logger.error("Error sending attachment", { error });
+      return next(createError("INTERNAL_ERROR"));
+    }
+  }
+);
+
+// ============================================================================
+// POST /api/v1/conversations/:id/messages/:messageId/accept
+// Customer accepts a booking proposal - creates the booking
+// ============================================================================
+
+router.post(
+  "/:id/messages/:messageId/accept",
+  authenticate,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const userId = req.userId!;
+      const { id, messageId } = req.params;
+
+      const result = await acceptBookingProposal(id, messageId, userId);
+      if (!result.success) {
+        return next(toApiError(result));
+      }
+
+      const { message, bookingId } = result.data!;
+      await publishConversationEvent([message.senderId, userId], {
+        type: "message_updated",
+        conversationId: id,
+        message,
+      }).catch((err) => {
+        logger.warn("Failed to publish proposal update", { error: err, conversationId: id });
+      });
+
+      return res.status(201).json({
+        bookingId,
+        message: { ...message, isOwn: false },
+      });
+    } catch (error) {
+      logger.error("Error accepting booking proposal", { error });
+      return next(createError("INTERNAL_ERROR"));
+    }
+  }
+);
+
+// ============================================================================
+// POST /api/v1/conversations/:id/messages/:messageId/decline
+// Customer declines a booking proposal
+// ============================================================================
+
+router.post(
+  "/:id/messages/:messageId/decline",
+  authenticate,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const userId = req.userId!;
+      const { id, messageId } = req.params;
+
+      const result = await declineBookingProposal(id, messageId, userId);
+      if (!result.success) {
+        return next(toApiError(result));
+      }
+
+      const { message } = result.data!;
+      await publishConversationEvent([message.senderId, userId], {
+        type: "message_updated",
+        conversationId: id,
+        message,
+      }).catch((err) => {
+        logger.warn("Failed to publish proposal update", { error: err, conversationId: id });
+      });
+
+      return res.json({
+        message: { ...message, isOwn: false },
+      });
+    } catch (error) {
+      logger.error("Error declining booking proposal", { error });
+      return next(createError("INTERNAL_ERROR"));
+    }
+  }
+);
+
+// ============================================================================
+// POST /api/v1/conversations/:id/typing
+// Tell the other participant the user started or stopped typing
+// ============================================================================
+
+router.post(
+  "/:id/typing",
+  authenticate,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const userId = req.userId!;
+      const { id } = req.params;
+      const input = typingSchema.parse(req.body);
+
+      const conversation = await prisma.conversation.findUnique({
+        where: { id },
+      });
+
+      if (!conversation) {
+        return next(createError("NOT_FOUND", { message: "Conversation not found" }));
+      }
+
+      const otherUserId = getOtherParticipantId(conversation, userId);
+      if (!otherUserId) {
+        return next(
+          createError("FORBIDDEN", { message: "You are not part of this conversation" })
+        );
+      }
+
+      await publishConversationEvent([otherUserId], {
+        type: "typing",
+        conversationId: id,
+        userId,
+        isTyping: input.isTyping,
+        expiresInMs: TYPING_TIMEOUT_MS,
+      });
+
+      return res.json({ success: true });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return next(createError("VALIDATION_ERROR", { details: error.errors }));
+      }
+      logger.error("Error sending typing indicator", { error });
       return next(createError("INTERNAL_ERROR"));
     }
   }
@@ -614,32 +1097,15 @@ router.post(
         );
       }
 
-      // Mark all unread messages from other user as read
-      const result = await prisma.message.updateMany({
-        where: {
-          conversationId: id,
-          senderId: { not: userId },
-          readAt: null,
-        },
-        data: { readAt: new Date() },
-      });
-
-      // Reset unread count
-      await prisma.conversation.update({
-        where: { id },
-        data:
-          position === 1
-            ? { participant1UnreadCount: 0 }
-            : { participant2UnreadCount: 0 },
-      });
+      const markedCount = await markConversationRead(conversation, userId);
 
       logger.info("Messages marked as read", {
         conversationId: id,
         userId,
-        count: result.count,
+        count: markedCount,
       });
 
-      return res.json({ success: true, markedCount: result.count });
+      return res.json({ success: true, markedCount });
     } catch (error) {
       logger.error("Error marking messages as read", { error });
       return next(createError("INTERNAL_ERROR"));
@@ -739,48 +1205,4 @@ router.delete(
   }
 );
 
-// ============================================================================
-// GET /api/v1/conversations/unread-count
-// Get total unread message count across all conversations
-// ============================================================================
-
-router.get(
-  "/unread-count",
-  authenticate,
-  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
-    try {
-      const userId = req.userId!;
-
-      // Sum unread counts where user is participant1
-      const asParticipant1 = await prisma.conversation.aggregate({
-        where: {
-          participant1Id: userId,
-          isActive: true,
-          participant1ArchivedAt: null,
-        },
-        _sum: { participant1UnreadCount: true },
-      });
-
-      // Sum unread counts where user is participant2
-      const asParticipant2 = await prisma.conversation.aggregate({
-        where: {
-          participant2Id: userId,
-          isActive: true,
-          participant2ArchivedAt: null,
-        },
-        _sum: { participant2UnreadCount: true },
-      });
-
-      const totalUnread =
-        (asParticipant1._sum.participant1UnreadCount || 0) +
-        (asParticipant2._sum.participant2UnreadCount || 0);
-
-      return res.json({ unreadCount: totalUnread });
-    } catch (error) {
-      logger.error("Error fetching unread count", { error });
-      return next(createError("INTERNAL_ERROR"));
-    }
-  }
-);
-
 export default router;
@@ -0,0 +1,254 @@
+/**
+ * Disputes Route Tests
+ *
+ * Filing, participant-only access to the thread, and evidence upload checks.
+ * The dispute service, Cloudinary and auth are mocked - the caller is taken
+ * from an x-user-id header.
+ */
+
+import type { NextFunction, Request, Response } from 'express';
+
+const mockPrisma = {
+  booking: { findUnique: jest.fn() },
+  dispute: { findFirst: jest.fn(), findUnique: jest.fn() },
+};
+
+jest.mock('../lib/prisma', () => ({
+  __esModule: true,
+  prisma: mockPrisma,
+  default: mockPrisma,
+}));
+
+jest.mock('../middleware/auth', () => ({
+  authenticate: (req: Request & { userId?: string }, _res: Response, next: NextFunction) => {
+    req.userId = req.header('x-user-id');
+    next();
+  },
+}));
+
+jest.mock('../lib/cloudinary', () => ({
+  uploadImage: jest.fn(),
+  validateImageFile: jest.fn(() => ({ valid: true })),
+}));
+
+jest.mock('../lib/disputes', () => {
+  class DisputeClaimError extends Error {
+    constructor(readonly code: string) {
+      super(code);
+    }
+  }
+
+  return {
+    DisputeClaimError,
+    createDispute: jest.fn(),
+    addDisputeMessage: jest.fn(),
+    listUserDisputes: jest.fn(),
+    getDisputeForParticipant: jest.fn(),
+    addDisputeEvidence: jest.fn(),
+    isDisputeParticipant: (dispute: { filedById: string; filedAgainstId: string }, userId: string) =>
+      dispute.filedById === userId || dispute.filedAgainstId === userId,
+  };
+});
+
+import express from 'express';
+import request from 'supertest';
+import { errorHandler } from '../middleware/error-handler';
+import { uploadImage, validateImageFile } from '../lib/cloudinary';
+import {
+  addDisputeEvidence,
+  addDisputeMessage,
+  createDispute,
+  DisputeClaimError,
+  getDisputeForParticipant,
+} from '../lib/disputes';
+import disputesRouter from './disputes';
+
+const app = express();
+app.use(express.json());
+app.use('/api/v1/disputes', disputesRouter);
+app.use(errorHandler);
+
+const BOOKING_ID = '6f0c7f9e-2a61-4b8e-9d55-3c2b1a0f9e11';
+
+const asUser = (userId: string) => ({ 'x-user-id': userId });
+
+const openDispute = {
+  status: 'OPEN',
+  filedById: 'customer-1',
+  filedAgainstId: 'stylist-1',
+  evidenceUrls: ['https://res.cloudinary.com/vlossom/disputes/dispute-1/photo.jpg'],
+};
+
+const filing = {
+  bookingId: BOOKING_ID,
+  type: 'POOR_QUALITY',
+  title: 'Service not as described',
+  description: 'The colour was nothing like the reference photo',
+};
+
+describe('Disputes Routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPrisma.booking.findUnique.mockResolvedValue({
+      id: BOOKING_ID,
+      status: 'AWAITING_CUSTOMER_CONFIRMATION',
+      customerId: 'customer-1',
+      stylistId: 'stylist-1',
+    });
+    mockPrisma.dispute.findFirst.mockResolvedValue(null);
+    mockPrisma.dispute.findUnique.mockResolvedValue(openDispute);
+    (createDispute as jest.Mock).mockResolvedValue({ id: 'dispute-1' });
+  });
+
+  describe('POST /api/v1/disputes', () => {
+    it('should file against the other booking party', async () => {
+      const res = await request(app).post('/api/v1/disputes').set(asUser('customer-1')).send(filing);
+
+      expect(res.status).toBe(201);
+      expect(createDispute).toHaveBeenCalledWith(
+        expect.objectContaining({ bookingId: BOOKING_ID, filedById: 'customer-1', filedAgainstId: 'stylist-1' })
+      );
+    });
+
+    it('should not take evidence links with the filing', async () => {
+      await request(app)
+        .post('/api/v1/disputes')
+        .set(asUser('customer-1'))
+        .send({ ...filing, evidenceUrls: ['https://attacker.example/tracker.png'] });
+
+      expect(createDispute).toHaveBeenCalledWith(expect.not.objectContaining({ evidenceUrls: expect.anything() }));
+    });
+
+    it('should refuse someone outside the booking', async () => {
+      const res = await request(app).post('/api/v1/disputes').set(asUser('someone-else')).send(filing);
+
+      expect(res.status).toBe(403);
+      expect(createDispute).not.toHaveBeenCalled();
+    });
+
+    it('should answer 409 when a concurrent filing claimed the booking first', async () => {
+      (createDispute as jest.Mock).mockRejectedValue(new DisputeClaimError('DISPUTE_ALREADY_EXISTS'));
+
+      const res = await request(app).post('/api/v1/disputes').set(asUser('stylist-1')).send(filing);
+
+      expect(res.status).toBe(409);
+    });
+  });
+
+  describe('GET /api/v1/disputes/:id', () => {
+    it('should hide a dispute from anyone but its parties', async () => {
+      (getDisputeForParticipant as jest.Mock).mockResolvedValue(null);
+
+      const detail = await request(app).get('/api/v1/disputes/dispute-1').set(asUser('someone-else'));
+      const messages = await request(app).get('/api/v1/disputes/dispute-1/messages').set(asUser('someone-else'));
+
+      expect(detail.status).toBe(404);
+      expect(messages.status).toBe(404);
+      expect(getDisputeForParticipant).toHaveBeenCalledWith('dispute-1', 'someone-else');
+    });
+  });
+
+  describe('POST /api/v1/disputes/:id/messages', () => {
+    it('should refuse replies from anyone but the parties', async () => {
+      const res = await request(app)
+        .post('/api/v1/disputes/dispute-1/messages')
+        .set(asUser('someone-else'))
+        .send({ content: 'Hello' });
+
+      expect(res.status).toBe(404);
+      expect(addDisputeMessage).not.toHaveBeenCalled();
+    });
+
+    it('should only attach evidence uploaded to the dispute', async () => {
+      const res = await request(app)
+        .post('/api/v1/disputes/dispute-1/messages')
+        .set(asUser('stylist-1'))
+        .send({ content: 'See this', attachmentUrls: ['https://attacker.example/tracker.png'] });
+
+      expect(res.status).toBe(400);
+      expect(addDisputeMessage).not.toHaveBeenCalled();
+    });
+
+    it('should post a reply with uploaded evidence attached', async () => {
+      const res = await request(app)
+        .post('/api/v1/disputes/dispute-1/messages')
+        .set(asUser('stylist-1'))
+        .send({ content: 'See this', attachmentUrls: openDispute.evidenceUrls });
+
+      expect(res.status).toBe(201);
+      expect(addDisputeMessage).toHaveBeenCalledWith(
+        expect.objectContaining({ authorId: 'stylist-1', attachmentUrls: openDispute.evidenceUrls })
+      );
+    });
+  });
+
+  describe('POST /api/v1/disputes/:id/evidence', () => {
+    const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+    const upload = (userId: string, body: Buffer, contentType = 'image/png') =>
+      request(app)
+        .post('/api/v1/disputes/dispute-1/evidence')
+        .set(asUser(userId))
+        .set('Content-Type', contentType)
+        .send(body);
+
+    it('should refuse uploads from anyone but the parties', async () => {
+      const res = await upload('someone-else', png);
+
+      expect(res.status).toBe(404);
+      expect(uploadImage).not.toHaveBeenCalled();
+    });
+
+    it('should refuse uploads to a resolved dispute', async () => {
+      mockPrisma.dispute.findUnique.mockResolvedValue({ ...openDispute, status: 'RESOLVED' });
+
+      const res = await upload('customer-1', png);
+
+      expect(res.status).toBe(400);
+      expect(res.body.error.code).toBe('DISPUTE_CLOSED');
+    });
+
+    it('should refuse uploads past the evidence limit', async () => {
+      mockPrisma.dispute.findUnique.mockResolvedValue({ ...openDispute, evidenceUrls: new Array(10).fill('url') });
+
+      const res = await upload('customer-1', png);
+
+      expect(res.status).toBe(400);
+      expect(uploadImage).not.toHaveBeenCalled();
+    });
+
+    it('should refuse bodies that are not images', async () => {
+      const res = await upload('customer-1', Buffer.from('{"a":1}'), 'application/json');
+
+      expect(res.status).toBe(400);
+      expect(res.body.error.code).toBe('INVALID_CONTENT_TYPE');
+    });
+
+    it('should refuse files that fail image validation', async () => {
+      (validateImageFile as jest.Mock).mockReturnValueOnce({ valid: false, error: 'File too large' });
+
+      const res = await upload('customer-1', png);
+
+      expect(res.status).toBe(400);
+      expect(res.body.error.code).toBe('INVALID_FILE');
+      expect(uploadImage).not.toHaveBeenCalled();
+    });
+
+    it('should store an accepted upload as evidence', async () => {
+      (uploadImage as jest.Mock).mockResolvedValue({
+        success: true,
+        url: 'https://res.cloudinary.com/vlossom/disputes/dispute-1/new.png',
+        publicId: 'new',
+      });
+      (addDisputeEvidence as jest.Mock).mockResolvedValue([...openDispute.evidenceUrls, 'new']);
+
+      const res = await upload('customer-1', png);
+
+      expect(res.status).toBe(201);
+      expect(addDisputeEvidence).toHaveBeenCalledWith(
+        'dispute-1',
+        'https://res.cloudinary.com/vlossom/disputes/dispute-1/new.png'
+      );
+    });
+  });
+});
@@ -0,0 +1,332 @@
+/**
+ * Disputes API Routes
+ * Customer and stylist endpoints for filing disputes and replying on the thread.
+ * Admin handling lives in routes/admin/disputes.ts.
+ * Reference: docs/vlossom/22-admin-control-panel.md
+ */
+
+import { Router, type Response, type NextFunction } from "express";
+import { BookingStatus } from "@prisma/client";
+import { authenticate, type AuthenticatedRequest } from "../middleware/auth";
+import { z } from "zod";
+import { createError } from "../middleware/error-handler";
+import { logger } from "../lib/logger";
+import prisma from "../lib/prisma";
+import { canTransitionTo } from "../lib/booking-state-machine";
+import { uploadImage, validateImageFile } from "../lib/cloudinary";
+import {
+  createDispute,
+  addDisputeMessage,
+  listUserDisputes,
+  getDisputeForParticipant,
+  addDisputeEvidence,
+  isDisputeParticipant,
+  DisputeClaimError,
+  DisputeType,
+} from "../lib/disputes";
+
+const router: ReturnType<typeof Router> = Router();
+
+// All dispute routes require authentication
+router.use(authenticate);
+
+// Max evidence files per dispute
+const MAX_EVIDENCE_FILES = 10;
+
+// Validation schemas
+const fileDisputeSchema = z.object({
+  bookingId: z.string().uuid(),
+  type: z.enum([
+    "SERVICE_NOT_DELIVERED",
+    "POOR_QUALITY",
+    "LATE_ARRIVAL",
+    "NO_SHOW",
+    "PROPERTY_DAMAGE",
+    "PAYMENT_ISSUE",
+    "COMMUNICATION_ISSUE",
+    "SAFETY_CONCERN",
+    "OTHER",
+  ] as const),
+  title: z.string().min(5).max(200),
+  description: z.string().min(20).max(5000),
+});
+
+const listDisputesSchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+const addMessageSchema = z.object({
+  content: z.string().min(1).max(5000),
+  attachmentUrls: z.array(z.string().url()).max(MAX_EVIDENCE_FILES).optional(),
+});
+
+/**
+ * POST /api/v1/disputes
+ * File a dispute against a completed booking. Evidence is uploaded
+ * afterwards through POST /:id/evidence.
+ */
+router.post("/", async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.userId!;
+    const input = fileDisputeSchema.parse(req.body);
+
+    const booking = await prisma.booking.findUnique({
+      where: { id: input.bookingId },
+      select: { id: true, status: true, customerId: true, stylistId: true },
+    });
+
+    if (!booking) {
+      return next(createError("BOOKING_NOT_FOUND"));
+    }
+
+    // Only the booking's customer or stylist may file
+    if (booking.customerId !== userId && booking.stylistId !== userId) {
+      return next(createError("FORBIDDEN"));
+    }
+
+    if (!canTransitionTo(booking.status, BookingStatus.DISPUTED)) {
+      return next(createError("BOOKING_NOT_DISPUTABLE", { status: booking.status }));
+    }
+
+    const existing = await prisma.dispute.findFirst({
+      where: {
+        bookingId: booking.id,
+        status: { notIn: ["RESOLVED", "CLOSED"] },
+      },
+      select: { id: true },
+    });
+
+    if (existing) {
+      return next(createError("DISPUTE_ALREADY_EXISTS", { disputeId: existing.id }));
+    }
+
+    const filedAgainstId = booking.customerId === userId ? booking.stylistId : booking.customerId;
+
+    const dispute = await createDispute({
+      bookingId: booking.id,
+      filedById: userId,
+      filedAgainstId,
+      type: input.type as DisputeType,
+      title: input.title,
+      description: input.description,
+    });
+
+    res.status(201).json({ dispute });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError("VALIDATION_ERROR", { details: error.errors }));
+    }
+    if (error instanceof DisputeClaimError) {
+      return next(createError(error.code));
+    }
+    logger.error("Failed to file dispute", { error });
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
+/**
+ * GET /api/v1/disputes
+ * List disputes the user filed or was named in
+ */
+router.get("/", async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { page, pageSize } = listDisputesSchema.parse(req.query);
+
+    const { disputes, total } = await listUserDisputes(req.userId!, page, pageSize);
+
+    res.json({
+      disputes,
+      pagination: {
+        page,
+        pageSize,
+        total,
+        totalPages: Math.ceil(total / pageSize),
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError("VALIDATION_ERROR", { details: error.errors }));
+    }
+    logger.error("Failed to list disputes", { error });
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
+/**
+ * GET /api/v1/disputes/:id
+ * Get dispute details with the non-internal message thread
+ */
+router.get("/:id", async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const dispute = await getDisputeForParticipant(req.params.id, req.userId!);
+
+    if (!dispute) {
+      return next(createError("DISPUTE_NOT_FOUND"));
+    }
+
+    res.json({ dispute });
+  } catch (error) {
+    logger.error("Failed to get dispute", { error });
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
+/**
+ * GET /api/v1/disputes/:id/messages
+ * Get non-internal dispute messages
+ */
+router.get("/:id/messages", async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const dispute = await getDisputeForParticipant(req.params.id, req.userId!);
+
+    if (!dispute) {
+      return next(createError("DISPUTE_NOT_FOUND"));
+    }
+
+    res.json({ messages: dispute.messages || [] });
+  } catch (error) {
+    logger.error("Failed to get dispute messages", { error });
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
+/**
+ * POST /api/v1/disputes/:id/messages
+ * Reply on the dispute thread
+ */
+router.post("/:id/messages", async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const userId = req.userId!;
+    const { content, attachmentUrls } = addMessageSchema.parse(req.body);
+
+    const dispute = await prisma.dispute.findUnique({
+      where: { id },
+      select: { status: true, filedById: true, filedAgainstId: true, evidenceUrls: true },
+    });
+
+    if (!dispute || !isDisputeParticipant(dispute, userId)) {
+      return next(createError("DISPUTE_NOT_FOUND"));
+    }
+
+    if (dispute.status === "CLOSED") {
+      return next(createError("DISPUTE_CLOSED"));
+    }
+
+    // Attachments point at evidence uploaded through POST /:id/evidence
+    const evidenceUrls = dispute.evidenceUrls as string[];
+    if (attachmentUrls?.some((url) => !evidenceUrls.includes(url))) {
+      return next(createError("VALIDATION_ERROR", { message: "Attachments must be evidence uploaded to this dispute" }));
+    }
+
+    await addDisputeMessage({
+      disputeId: id,
+      authorId: userId,
+      content,
+      isInternal: false,
+      attachmentUrls,
+    });
+
+    const updated = await getDisputeForParticipant(id, userId);
+
+    res.status(201).json({ dispute: updated });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError("VALIDATION_ERROR", { details: error.errors }));
+    }
+    logger.error("Failed to add dispute message", { error });
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
+/**
+ * POST /api/v1/disputes/:id/evidence
+ * Upload an evidence image (raw image body) to Cloudinary and attach it
+ */
+router.post("/:id/evidence", async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const userId = req.userId!;
+
+    const dispute = await prisma.dispute.findUnique({
+      where: { id },
+      select: { status: true, filedById: true, filedAgainstId: true, evidenceUrls: true },
+    });
+
+    if (!dispute || !isDisputeParticipant(dispute, userId)) {
+      return next(createError("DISPUTE_NOT_FOUND"));
+    }
+
+    if (dispute.status === "RESOLVED" || dispute.status === "CLOSED") {
+      return next(createError("DISPUTE_CLOSED"));
+    }
+
+    if ((dispute.evidenceUrls as string[]).length >= MAX_EVIDENCE_FILES) {
+      return next(createError("VALIDATION_ERROR", { message: `Maximum of ${MAX_EVIDENCE_FILES} evidence files` }));
+    }
+
+    const contentType = req.headers["content-type"] || "";
+
+    if (!contentType.includes("application/octet-stream") &&
+        !contentType.includes("image/")) {
+      return next(createError("INVALID_CONTENT_TYPE"));
+    }
+
+    // Parse the body as Buffer
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+    }
+    const buffer = Buffer.concat(chunks);
+
+    if (buffer.length === 0) {
+      return next(createError("NO_FILE"));
+    }
+
+    // Determine mimetype from content-type or magic bytes
+    let mimetype = contentType.split(";")[0].trim();
+    if (mimetype === "application/octet-stream") {
+      if (buffer[0] === 0xff && buffer[1] === 0xd8) {
+        mimetype = "image/jpeg";
+      } else if (buffer[0] === 0x89 && buffer[1] === 0x50) {
+        mimetype = "image/png";
+      } else if (buffer[0] === 0x47 && buffer[1] === 0x49) {
+        mimetype = "image/gif";
+      } else if (buffer[0] === 0x52 && buffer[1] === 0x49) {
+        mimetype = "image/webp";
+      }
+    }
+
+    const validation = validateImageFile(buffer, mimetype);
+    if (!validation.valid) {
+      return next(createError("INVALID_FILE", { reason: validation.error }));
+    }
+
+    const result = await uploadImage(buffer, {
+      userId,
+      folder: `vlossom/disputes/${id}`,
+    });
+
+    if (!result.success) {
+      return next(createError("UPLOAD_FAILED", { reason: result.error }));
+    }
+
+    const evidenceUrls = await addDisputeEvidence(id, result.url!);
+
+    res.status(201).json({
+      success: true,
+      evidence: {
+        publicId: result.publicId,
+        url: result.url,
+        thumbnailUrl: result.thumbnailUrl,
+      },
+      evidenceUrls,
+    });
+  } catch (error) {
+    logger.error("Failed to upload dispute evidence", { error });
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
+export default router;
@@ -9,6 +9,7 @@ import { logger } from "../lib/logger";
 import { prisma } from "../lib/prisma";
 import { authenticate, AuthenticatedRequest } from "../middleware/auth";
 import { rateLimiters } from "../middleware/rate-limiter";
+import { requireStepUp } from "../middleware/step-up";
 import {
   initiateOnramp,
   initiateOfframp,
@@ -202,6 +203,7 @@ router.post(
   "/offramp/initiate",
   authenticate,
   rateLimiters.login,
+  requireStepUp("WITHDRAWAL"),
   async (req: Request, res: Response) => {
     try {
       const userId = (req as AuthenticatedRequest).userId!;
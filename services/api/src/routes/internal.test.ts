@@ -0,0 +1,194 @@
+/**
+ * Internal Route Tests
+ *
+ * Scheduler-driven escrow releases pay the treasury the fee stored on the
+ * booking, so a reward tier discount reaches the stylist. Releases run through
+ * the real escrow client with the chain mocked.
+ */
+
+// Mock clients - MUST be defined before jest.mock() calls reference them
+const mockPublicClient = {
+  readContract: jest.fn(),
+  waitForTransactionReceipt: jest.fn(),
+};
+
+const mockWalletClient = {
+  writeContract: jest.fn(),
+};
+
+const mockTx = {
+  booking: { update: jest.fn() },
+  bookingStatusHistory: { create: jest.fn() },
+};
+
+const mockPrisma = {
+  booking: { findUnique: jest.fn() },
+  escrowFailure: { create: jest.fn() },
+  $transaction: jest.fn((fn: (tx: typeof mockTx) => Promise<unknown>) => fn(mockTx)),
+};
+
+jest.mock('viem', () => ({
+  createPublicClient: jest.fn(() => mockPublicClient),
+  createWalletClient: jest.fn(() => mockWalletClient),
+  http: jest.fn(),
+  fallback: jest.fn(() => 'mock-transport'),
+  keccak256: jest.fn((bytes) => `0x${Buffer.from(bytes).toString('hex').padStart(64, '0')}`),
+  toBytes: jest.fn((str) => Buffer.from(str)),
+}));
+
+jest.mock('viem/accounts', () => ({
+  privateKeyToAccount: jest.fn(() => ({ address: '0xRelayerAddress' })),
+}));
+
+jest.mock('../lib/wallet/chain-client', () => ({
+  CHAIN: { id: 1337, name: 'hardhat' },
+  RPC_URL: 'http://localhost:8545',
+  publicClient: mockPublicClient,
+  getRelayerWalletClient: jest.fn(() => mockWalletClient),
+}));
+
+jest.mock('../lib/escrow-rate-limiter', () => ({
+  escrowRateLimiter: {
+    canProceed: jest.fn(() => ({ canProceed: true })),
+    recordOperation: jest.fn(),
+  },
+}));
+
+jest.mock('@sentry/node', () => ({
+  captureException: jest.fn(),
+}));
+
+jest.mock('../lib/prisma', () => ({
+  __esModule: true,
+  prisma: mockPrisma,
+  default: mockPrisma,
+}));
+
+jest.mock('../lib/notifications', () => ({
+  notifyBookingEvent: jest.fn(() => Promise.resolve()),
+}));
+
+jest.mock('../lib/smoothing-buffer', () => ({
+  completeInstantPayoutRelease: jest.fn(),
+  reconcileOutstandingPayouts: jest.fn(),
+  resolveStylistPayee: jest.fn((_booking, address) => Promise.resolve({ address, instantPaid: false })),
+}));
+
+// Jobs this suite does not run
+jest.mock('../lib/reputation', () => ({ recalculateAllScores: jest.fn() }));
+jest.mock('../lib/reputation-sync', () => ({ syncReputationEvents: jest.fn() }));
+jest.mock('../lib/recurring-bookings', () => ({
+  expireUnpaidOccurrence: jest.fn(),
+  notifyOccurrencePaymentDue: jest.fn(),
+  refreshSeriesStatus: jest.fn(),
+}));
+jest.mock('../lib/waitlist', () => ({ expireWaitlistOffer: jest.fn() }));
+jest.mock('../lib/property-registry', () => ({ syncPropertyRegistry: jest.fn() }));
+jest.mock('../lib/liquidity', () => ({ reconcilePendingOperations: jest.fn() }));
+jest.mock('../lib/wallet-recovery', () => ({ syncWalletRecoveries: jest.fn() }));
+
+import express from 'express';
+import request from 'supertest';
+import { errorHandler } from '../middleware/error-handler';
+import { EscrowStatus, PLATFORM_TREASURY_ADDRESS } from '../lib/escrow-client';
+import internalRouter from './internal';
+
+const STYLIST = '0x00000000000000000000000000000000000000aa';
+
+const app = express();
+app.use(express.json());
+app.use('/internal', internalRouter);
+app.use(errorHandler);
+
+// A $100 deposit booking for a GOLD customer: 10% off the $10 platform fee
+function makeBooking(overrides: Record<string, unknown> = {}) {
+  return {
+    id: 'booking-1',
+    customerId: 'customer-1',
+    stylistId: 'stylist-1',
+    status: 'SETTLED',
+    escrowId: 'escrow-1',
+    serviceType: 'Braids',
+    quoteAmountCents: 10_000n,
+    platformFeeCents: 900n,
+    stylistPayoutCents: 9_100n,
+    propertyPayoutCents: null,
+    depositAmountCents: 3_000n,
+    balanceAmountCents: 7_000n,
+    balanceStatus: 'PAID',
+    balanceDueAt: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000),
+    instantPayoutStatus: null,
+    customer: { displayName: 'Customer' },
+    stylist: { displayName: 'Stylist', walletAddress: STYLIST },
+    ...overrides,
+  };
+}
+
+function releaseCalls() {
+  return mockWalletClient.writeContract.mock.calls
+    .map(([args]) => args)
+    .filter((args) => args.functionName === 'releaseFunds');
+}
+
+describe('Internal escrow releases', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPublicClient.waitForTransactionReceipt.mockResolvedValue({});
+    mockWalletClient.writeContract.mockResolvedValue('0xEscrowTxHash');
+  });
+
+  describe('POST /internal/bookings/:id/release-escrow', () => {
+    it('should release each leg with its share of the discounted fee', async () => {
+      mockPrisma.booking.findUnique.mockResolvedValue(makeBooking());
+      mockPublicClient.readContract
+        .mockResolvedValueOnce(['0xCustomerAddress', 30_000_000n, EscrowStatus.Locked])
+        .mockResolvedValueOnce(['0xCustomerAddress', 70_000_000n, EscrowStatus.Locked]);
+
+      const res = await request(app)
+        .post('/internal/bookings/booking-1/release-escrow')
+        .set('x-internal-auth', 'internal-dev-secret');
+
+      expect(res.status).toBe(200);
+      // $9 fee split 30/70 over the deposit and balance, not 10% of each
+      expect(releaseCalls().map((call) => call.args.slice(1))).toEqual([
+        [STYLIST, 27_300_000n, PLATFORM_TREASURY_ADDRESS, 2_700_000n],
+        [STYLIST, 63_700_000n, PLATFORM_TREASURY_ADDRESS, 6_300_000n],
+      ]);
+    });
+
+    it('should not release a leg whose escrow holds a different amount', async () => {
+      mockPrisma.booking.findUnique.mockResolvedValue(makeBooking());
+      mockPublicClient.readContract.mockResolvedValue(['0xCustomerAddress', 100_000_000n, EscrowStatus.Locked]);
+
+      const res = await request(app)
+        .post('/internal/bookings/booking-1/release-escrow')
+        .set('x-internal-auth', 'internal-dev-secret');
+
+      expect(res.status).toBe(500);
+      expect(mockWalletClient.writeContract).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /internal/bookings/:id/forfeit-balance', () => {
+    it("should pay the forfeited deposit less only the deposit's share of the stored fee", async () => {
+      mockPrisma.booking.findUnique.mockResolvedValue(
+        makeBooking({ status: 'IN_PROGRESS', balanceStatus: 'DUE' })
+      );
+      mockPublicClient.readContract.mockResolvedValue(['0xCustomerAddress', 30_000_000n, EscrowStatus.Locked]);
+
+      const res = await request(app)
+        .post('/internal/bookings/booking-1/forfeit-balance')
+        .set('x-internal-auth', 'internal-dev-secret');
+
+      expect(res.status).toBe(200);
+      expect(mockTx.booking.update).toHaveBeenCalledWith({
+        where: { id: 'booking-1' },
+        data: expect.objectContaining({ status: 'CANCELLED', balanceStatus: 'FORFEITED' }),
+      });
+      expect(releaseCalls().map((call) => call.args.slice(1))).toEqual([
+        [STYLIST, 27_300_000n, PLATFORM_TREASURY_ADDRESS, 2_700_000n],
+      ]);
+      expect(mockPrisma.escrowFailure.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -6,10 +6,29 @@
 import { Router, type Response, type NextFunction } from "express";
 import { internalAuth, type InternalRequest } from "../middleware/internal-auth";
 import { prisma } from "../lib/prisma";
-import { BookingStatus } from "@prisma/client";
+import { BalanceStatus, BookingStatus } from "@prisma/client";
 import { releaseFundsFromEscrow, PLATFORM_TREASURY_ADDRESS, PLATFORM_FEE_PERCENTAGE } from "../lib/escrow-client";
+import { allocatePropertyPayout, getPropertyPayeeAddress, releaseEscrowLeg } from "../lib/chair-reservations";
+import { getBalanceDeadline, getLockedEscrowLegs } from "../lib/booking-deposit";
+import { canTransitionWithBalance } from "../lib/booking-state-machine";
 import { notifyBookingEvent } from "../lib/notifications";
 import { recalculateAllScores } from "../lib/reputation";
+import { syncReputationEvents } from "../lib/reputation-sync";
+import {
+  expireUnpaidOccurrence,
+  notifyOccurrencePaymentDue,
+  refreshSeriesStatus,
+} from "../lib/recurring-bookings";
+import { expireWaitlistOffer } from "../lib/waitlist";
+import { releaseRentalPayment, toEscrowUnits } from "../lib/chair-rentals";
+import {
+  completeInstantPayoutRelease,
+  reconcileOutstandingPayouts,
+  resolveStylistPayee,
+} from "../lib/smoothing-buffer";
+import { syncPropertyRegistry } from "../lib/property-registry";
+import { reconcilePendingOperations } from "../lib/liquidity";
+import { syncWalletRecoveries } from "../lib/wallet-recovery";
 import { createError } from "../middleware/error-handler";
 
 const router: ReturnType<typeof Router> = Router();
@@ -55,32 +74,57 @@ router.post("/bookings/:id/release-escrow", async (req: InternalRequest, res: Re
       return next(createError("ESCROW_RELEASE_FAILED", { details: "Stylist wallet not configured" }));
     }
 
-    const result = await releaseFundsFromEscrow({
-      bookingId: id,
-      stylistAddress: booking.stylist.walletAddress as `0x${string}`,
-      totalAmount: BigInt(booking.quoteAmountCents),
-      platformFeePercentage: PLATFORM_FEE_PERCENTAGE,
-      treasuryAddress: PLATFORM_TREASURY_ADDRESS,
-    });
+    // Deposit bookings hold the deposit and balance in separate escrow legs.
+    // Salon chair bookings also pay the property owner from them.
+    const txHashes: string[] = [];
+    const propertyOwnerAddress =
+      (booking.propertyPayoutCents ?? 0n) > 0n ? await getPropertyPayeeAddress(id) : null;
+    const escrowLegs = allocatePropertyPayout(getLockedEscrowLegs(booking), booking);
 
-    if (!result.success) {
-      console.error(`[Internal] Failed to release escrow for booking ${id}:`, result.error);
-      return next(createError("ESCROW_RELEASE_FAILED", { details: result.error }));
+    // Stylists already paid from the smoothing buffer have their share
+    // released to the relayer, which repays the buffer
+    const stylistPayee = await resolveStylistPayee(booking, booking.stylist.walletAddress as `0x${string}`);
+
+    for (const leg of escrowLegs) {
+      const result = await releaseEscrowLeg({
+        escrowKey: leg.escrowKey,
+        amountCents: leg.amountCents,
+        platformFeeCents: leg.platformFeeCents,
+        propertyAmountCents: leg.propertyAmountCents,
+        stylistAddress: stylistPayee.address,
+        propertyOwnerAddress,
+      });
+
+      if (!result.success) {
+        console.error(`[Internal] Failed to release ${leg.leg} escrow for booking ${id}:`, result.error);
+        return next(createError("ESCROW_RELEASE_FAILED", { details: result.error, leg: leg.leg }));
+      }
+
+      if (result.txHash) txHashes.push(result.txHash);
     }
 
-    console.log(`[Internal] Escrow released for booking ${id}, txHash: ${result.txHash}`);
+    console.log(`[Internal] Escrow released for booking ${id}, txHashes: ${txHashes.join(", ")}`);
 
-    // Notify stylist that funds have been released
-    notifyBookingEvent(booking.stylistId, "SERVICE_COMPLETED", {
-      bookingId: id,
-      customerName: booking.customer.displayName,
-      serviceName: booking.serviceType,
-      amount: Number(booking.stylistPayoutCents) / 100,
-    }).catch((err) => console.error("Failed to send escrow release notification:", err));
+    if (stylistPayee.instantPaid) {
+      // The stylist was paid at completion; failures are retried by reconcile-payouts
+      const reconciled = await completeInstantPayoutRelease(id);
+      if (!reconciled.success) {
+        console.error(`[Internal] Instant payout for booking ${id} not reconciled yet:`, reconciled.details);
+      }
+    } else {
+      // Notify stylist that funds have been released
+      notifyBookingEvent(booking.stylistId, "SERVICE_COMPLETED", {
+        bookingId: id,
+        customerName: booking.customer.displayName,
+        serviceName: booking.serviceType,
+        amount: Number(booking.stylistPayoutCents) / 100,
+      }).catch((err) => console.error("Failed to send escrow release notification:", err));
+    }
 
     return res.json({
       success: true,
-      txHash: result.txHash,
+      txHash: txHashes[0],
+      txHashes,
     });
   } catch (error) {
     console.error("[Internal] Error releasing escrow:", error);
@@ -116,6 +160,11 @@ router.post("/bookings/:id/auto-confirm", async (req: InternalRequest, res: Resp
       }));
     }
 
+    // An unpaid balance is forfeited instead (see forfeit-balance)
+    if (!canTransitionWithBalance(BookingStatus.SETTLED, booking.balanceStatus)) {
+      return next(createError("BALANCE_PAYMENT_REQUIRED"));
+    }
+
     // Update booking status in a transaction
     const updatedBooking = await prisma.$transaction(async (tx) => {
       const updated = await tx.booking.update({
@@ -148,6 +197,12 @@ router.post("/bookings/:id/auto-confirm", async (req: InternalRequest, res: Resp
       autoConfirmed: true,
     }).catch((err) => console.error("Failed to send auto-confirm notification:", err));
 
+    if (booking.seriesId) {
+      refreshSeriesStatus(booking.seriesId).catch((err) =>
+        console.error("Failed to refresh booking series status:", err)
+      );
+    }
+
     return res.json({
       success: true,
       booking: updatedBooking,
@@ -158,6 +213,231 @@ router.post("/bookings/:id/auto-confirm", async (req: InternalRequest, res: Resp
   }
 });
 
+/**
+ * POST /api/internal/bookings/:id/forfeit-balance
+ * Called by scheduler service when a due balance was never paid.
+ * Cancels the booking and releases the non-refundable deposit to the stylist.
+ */
+router.post("/bookings/:id/forfeit-balance", async (req: InternalRequest, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+
+    const booking = await prisma.booking.findUnique({
+      where: { id },
+      include: {
+        customer: true,
+        stylist: true,
+      },
+    });
+
+    if (!booking) {
+      return next(createError("BOOKING_NOT_FOUND"));
+    }
+
+    if (booking.balanceStatus !== BalanceStatus.DUE || !booking.balanceDueAt) {
+      return next(createError("INVALID_STATUS", {
+        message: `Booking has no balance due, current: ${booking.balanceStatus ?? "full payment"}`,
+      }));
+    }
+
+    if (getBalanceDeadline(booking.balanceDueAt) > new Date()) {
+      return next(createError("INVALID_STATUS", { message: "Balance payment window has not closed yet" }));
+    }
+
+    const forfeitable: BookingStatus[] = [BookingStatus.IN_PROGRESS, BookingStatus.AWAITING_CUSTOMER_CONFIRMATION];
+    if (!forfeitable.includes(booking.status)) {
+      return next(createError("INVALID_STATUS_TRANSITION", {
+        message: `Cannot forfeit booking in status: ${booking.status}`,
+        currentStatus: booking.status,
+      }));
+    }
+
+    const reason = "Balance not paid - deposit forfeited";
+
+    const updatedBooking = await prisma.$transaction(async (tx) => {
+      const updated = await tx.booking.update({
+        where: { id },
+        data: {
+          status: BookingStatus.CANCELLED,
+          balanceStatus: BalanceStatus.FORFEITED,
+          cancelledAt: new Date(),
+          cancelledBy: "SYSTEM",
+          cancellationReason: reason,
+        },
+      });
+
+      await tx.bookingStatusHistory.create({
+        data: {
+          bookingId: id,
+          fromStatus: booking.status,
+          toStatus: BookingStatus.CANCELLED,
+          changedBy: "SYSTEM",
+          reason,
+        },
+      });
+
+      return updated;
+    });
+
+    // Only the deposit leg is locked - pay it out to the stylist, less its
+    // share of the booking's platform fee
+    let txHash: string | undefined;
+    const [depositLeg] = allocatePropertyPayout(getLockedEscrowLegs(booking), {
+      ...booking,
+      propertyPayoutCents: 0n,
+    });
+
+    if (!booking.stylist.walletAddress) {
+      console.error(`[Internal] Stylist wallet not configured, deposit for ${id} left in escrow`);
+    } else {
+      const result = await releaseFundsFromEscrow({
+        bookingId: depositLeg.escrowKey,
+        stylistAddress: booking.stylist.walletAddress as `0x${string}`,
+        // Escrow holds USDC units, not cents
+        totalAmount: toEscrowUnits(depositLeg.amountCents),
+        platformFeePercentage: PLATFORM_FEE_PERCENTAGE,
+        platformFeeAmount: toEscrowUnits(depositLeg.platformFeeCents),
+        treasuryAddress: PLATFORM_TREASURY_ADDRESS,
+      });
+
+      if (!result.success) {
+        console.error(`[Internal] Failed to release forfeited deposit for booking ${id}:`, result.error);
+
+        // M-1: Record escrow failure for manual review
+        await prisma.escrowFailure.create({
+          data: {
+            bookingId: id,
+            operation: "RELEASE",
+            errorMessage: result.error || "Unknown error",
+            txHash: result.txHash,
+            amount: depositLeg.amountCents,
+            metadata: {
+              leg: depositLeg.leg,
+              reason: "BALANCE_FORFEITED",
+              stylistAddress: booking.stylist.walletAddress,
+            },
+          },
+        });
+      } else {
+        txHash = result.txHash;
+      }
+    }
+
+    console.log(`[Internal] Forfeited unpaid balance for booking ${id}`);
+
+    notifyBookingEvent(booking.customerId, "BOOKING_CANCELLED", {
+      bookingId: id,
+      stylistName: booking.stylist.displayName,
+      serviceType: booking.serviceType,
+      cancellationReason: reason,
+    }).catch((err) => console.error("Failed to send forfeit notification to customer:", err));
+
+    notifyBookingEvent(booking.stylistId, "BOOKING_CANCELLED", {
+      bookingId: id,
+      customerName: booking.customer.displayName,
+      serviceType: booking.serviceType,
+      cancellationReason: reason,
+    }).catch((err) => console.error("Failed to send forfeit notification to stylist:", err));
+
+    return res.json({
+      success: true,
+      booking: updatedBooking,
+      txHash,
+    });
+  } catch (error) {
+    console.error("[Internal] Error forfeiting balance:", error);
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
+/**
+ * POST /api/internal/bookings/:id/occurrence-payment-due
+ * Called by scheduler when payment opens for a recurring booking occurrence.
+ * Notifies the customer once.
+ */
+router.post("/bookings/:id/occurrence-payment-due", async (req: InternalRequest, res: Response, next: NextFunction) => {
+  try {
+    const result = await notifyOccurrencePaymentDue(req.params.id);
+
+    if (!result.success) {
+      return next(createError(result.error || "INTERNAL_ERROR", result.details));
+    }
+
+    console.log(`[Internal] Payment due notification sent for occurrence ${req.params.id}`);
+
+    return res.json({ success: true, ...result.data });
+  } catch (error) {
+    console.error("[Internal] Error notifying occurrence payment due:", error);
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
+/**
+ * POST /api/internal/bookings/:id/expire-occurrence
+ * Called by scheduler when a recurring booking occurrence is still unpaid at
+ * the payment cutoff. Cancels the occurrence so the slot can be rebooked.
+ */
+router.post("/bookings/:id/expire-occurrence", async (req: InternalRequest, res: Response, next: NextFunction) => {
+  try {
+    const result = await expireUnpaidOccurrence(req.params.id);
+
+    if (!result.success) {
+      return next(createError(result.error || "INTERNAL_ERROR", result.details));
+    }
+
+    console.log(`[Internal] Expired unpaid occurrence ${req.params.id}`);
+
+    return res.json({ success: true, ...result.data });
+  } catch (error) {
+    console.error("[Internal] Error expiring unpaid occurrence:", error);
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
+/**
+ * POST /api/internal/waitlist/offers/:id/expire
+ * Called by scheduler when a waitlist offer passes its deadline.
+ * Expires it and offers the slot to the next entries once the round is over.
+ */
+router.post("/waitlist/offers/:id/expire", async (req: InternalRequest, res: Response, next: NextFunction) => {
+  try {
+    const result = await expireWaitlistOffer(req.params.id);
+
+    if (!result.success) {
+      return next(createError(result.error || "INTERNAL_ERROR", result.details));
+    }
+
+    console.log(`[Internal] Waitlist offer ${req.params.id} processed (${result.data?.offersSent ?? 0} new offers)`);
+
+    return res.json({ success: true, ...result.data });
+  } catch (error) {
+    console.error("[Internal] Error expiring waitlist offer:", error);
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
+/**
+ * POST /api/internal/chair-rentals/:id/release
+ * Called by scheduler once a rental period has ended.
+ * Releases the escrowed rental payment to the owner and treasury.
+ */
+router.post("/chair-rentals/:id/release", async (req: InternalRequest, res: Response, next: NextFunction) => {
+  try {
+    const result = await releaseRentalPayment(req.params.id);
+
+    if (!result.success) {
+      return next(createError(result.error || "INTERNAL_ERROR", result.details));
+    }
+
+    console.log(`[Internal] Chair rental ${req.params.id} payment released, txHash: ${result.data?.settlementTxHash}`);
+
+    return res.json({ success: true, txHash: result.data?.settlementTxHash });
+  } catch (error) {
+    console.error("[Internal] Error releasing chair rental payment:", error);
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
 /**
  * POST /api/internal/reputation/recalculate
  * Recalculate all reputation scores (maintenance job)
@@ -181,6 +461,132 @@ router.post("/reputation/recalculate", async (_req: InternalRequest, res: Respon
   }
 });
 
+/**
+ * POST /api/internal/reputation/sync
+ * Anchor new reputation events in the on-chain ReputationRegistry
+ * Called by scheduler every few minutes; batches and retries are handled here
+ */
+router.post("/reputation/sync", async (_req: InternalRequest, res: Response, next: NextFunction) => {
+  try {
+    const result = await syncReputationEvents();
+
+    if (!result.success || !result.data) {
+      return next(createError(result.error || "INTERNAL_ERROR", result.details));
+    }
+
+    const { batches, confirmed, failed, skipped, reconciled, txHashes } = result.data;
+    if (batches > 0 || reconciled > 0) {
+      console.log(`[Internal] Reputation sync: ${confirmed} anchored in ${batches} batches, ${failed} failed, ${reconciled} reconciled`);
+    }
+
+    return res.json({ success: true, batches, confirmed, failed, skipped, reconciled, txHashes });
+  } catch (error) {
+    console.error("[Internal] Error syncing reputation to chain:", error);
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
+/**
+ * POST /api/internal/smoothing-buffer/reconcile
+ * Return released instant payouts to the smoothing buffer and settle
+ * payouts whose receipt was never seen
+ * Called by scheduler every few minutes
+ */
+router.post("/smoothing-buffer/reconcile", async (_req: InternalRequest, res: Response, next: NextFunction) => {
+  try {
+    const result = await reconcileOutstandingPayouts();
+
+    if (!result.success || !result.data) {
+      return next(createError(result.error || "INTERNAL_ERROR", result.details));
+    }
+
+    const { checked, reconciled, failed, txHashes } = result.data;
+    if (checked > 0) {
+      console.log(`[Internal] Smoothing buffer: ${reconciled} payouts reconciled, ${failed} failed of ${checked} checked`);
+    }
+
+    return res.json({ success: true, checked, reconciled, failed, txHashes });
+  } catch (error) {
+    console.error("[Internal] Error reconciling instant payouts:", error);
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
+/**
+ * POST /api/internal/properties/registry-sync
+ * Mirror properties from PropertyRegistry, execute suspensions whose dispute
+ * window ended and retry failed registrations
+ * Called by scheduler every 15 minutes
+ */
+router.post("/properties/registry-sync", async (_req: InternalRequest, res: Response, next: NextFunction) => {
+  try {
+    const result = await syncPropertyRegistry();
+
+    if (!result.success || !result.data) {
+      return next(createError(result.error || "INTERNAL_ERROR", result.details));
+    }
+
+    const { checked, corrected, registered, suspensionsExecuted, failed } = result.data;
+    if (corrected + registered + suspensionsExecuted + failed > 0) {
+      console.log(
+        `[Internal] Property registry: ${corrected} corrected, ${registered} registered, ${suspensionsExecuted} suspended, ${failed} failed of ${checked} checked`
+      );
+    }
+
+    return res.json({ success: true, ...result.data });
+  } catch (error) {
+    console.error("[Internal] Error syncing property registry:", error);
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
+/**
+ * POST /api/internal/wallet/recovery-sync
+ * Pick up guardian approvals sent outside the app, execute recoveries whose
+ * time-lock has ended and expire requests no guardian started
+ * Called by scheduler every 15 minutes
+ */
+router.post("/wallet/recovery-sync", async (_req: InternalRequest, res: Response, next: NextFunction) => {
+  try {
+    const result = await syncWalletRecoveries();
+
+    const { checked, approvalsFound, executed, cancelled, expired, failed } = result;
+    if (approvalsFound + executed + cancelled + expired + failed > 0) {
+      console.log(
+        `[Internal] Wallet recovery: ${approvalsFound} approvals found, ${executed} executed, ${cancelled} cancelled, ${expired} expired, ${failed} failed of ${checked} checked`
+      );
+    }
+
+    return res.json({ success: true, ...result });
+  } catch (error) {
+    console.error("[Internal] Error syncing wallet recoveries:", error);
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
+/**
+ * POST /api/internal/liquidity/reconcile-operations
+ * Apply pool operations mined after their request returned and fail those
+ * that can no longer be mined
+ * Called by scheduler every 2 minutes
+ */
+router.post("/liquidity/reconcile-operations", async (_req: InternalRequest, res: Response, next: NextFunction) => {
+  try {
+    const result = await reconcilePendingOperations();
+
+    if (result.checked > 0) {
+      console.log(
+        `[Internal] Liquidity operations: ${result.confirmed} confirmed, ${result.failed} failed, ${result.pending} pending of ${result.checked} checked`
+      );
+    }
+
+    return res.json({ success: true, ...result });
+  } catch (error) {
+    console.error("[Internal] Error reconciling liquidity operations:", error);
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
 /**
  * GET /api/internal/health
  * Health check for internal services
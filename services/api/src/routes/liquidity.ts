@@ -12,15 +12,20 @@
  * GET    /deposits          - User's deposits
  * POST   /deposit           - Deposit to pool
  * POST   /withdraw          - Withdraw from pool
+ * GET    /operations        - User's on-chain pool actions (?status=PENDING)
+ * GET    /operations/:id    - One action, for polling while PENDING
  * GET    /yield             - User's yield summary
  * POST   /yield/claim       - Claim yield
  * POST   /yield/claim-all   - Claim all yield
  * GET    /tier              - User's referral tier
  * GET    /stats             - Global DeFi stats
+ *
+ * Create, deposit, withdraw and claims are sent from the user's wallet and
+ * answer 202 while the UserOperation is still PENDING.
  */
 
 import { Router, Request, Response, NextFunction, IRouter } from 'express';
-import { PoolTier } from '@prisma/client';
+import { PoolTier, TransactionStatus } from '@prisma/client';
 import {
   listPools,
   getPoolById,
@@ -29,6 +34,8 @@ import {
   getUserDeposits,
   deposit,
   withdraw,
+  listOperations,
+  getOperation,
   getYieldSummary,
   claimYield,
   claimAllYield,
@@ -162,16 +169,17 @@ router.post(
 
       const result = await createPool(userId, { name, tier });
 
-      if (!result.success) {
+      if (!('operationId' in result)) {
         return res.status(403).json({
           success: false,
           error: result.error,
         });
       }
 
-      res.status(201).json({
-        success: true,
-        data: { pool: result.pool },
+      res.status(operationStatusCode(result.status, 201)).json({
+        success: result.success,
+        data: result,
+        ...(!result.success && { error: result.error }),
       });
     } catch (error) {
       next(error);
@@ -244,9 +252,10 @@ router.post(
 
       const result = await deposit(userId, { poolId, amount });
 
-      res.json({
-        success: true,
+      res.status(operationStatusCode(result.status)).json({
+        success: result.success,
         data: result,
+        ...(!result.success && { error: result.error }),
       });
     } catch (error) {
       next(error);
@@ -284,9 +293,71 @@ router.post(
 
       const result = await withdraw(userId, { poolId, shares });
 
+      res.status(operationStatusCode(result.status)).json({
+        success: result.success,
+        data: result,
+        ...(!result.success && { error: result.error }),
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /operations
+ * User's recent on-chain pool actions
+ */
+router.get(
+  '/operations',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const userId = (req as AuthenticatedRequest).userId!;
+      const status = req.query.status as TransactionStatus | undefined;
+
+      if (status && !Object.values(TransactionStatus).includes(status)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid status. Must be PENDING, CONFIRMED, or FAILED',
+        });
+      }
+
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+      const operations = await listOperations(userId, { status, limit });
+
       res.json({
         success: true,
-        data: result,
+        data: { operations },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * GET /operations/:id
+ * One on-chain pool action
+ */
+router.get(
+  '/operations/:id',
+  requireAuth,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const userId = (req as AuthenticatedRequest).userId!;
+      const operation = await getOperation(userId, req.params.id);
+
+      if (!operation) {
+        return res.status(404).json({
+          success: false,
+          error: 'Operation not found',
+        });
+      }
+
+      res.json({
+        success: true,
+        data: { operation },
       });
     } catch (error) {
       next(error);
@@ -342,9 +413,10 @@ router.post(
 
       const result = await claimYield(userId, poolId);
 
-      res.json({
-        success: true,
+      res.status(operationStatusCode(result.status)).json({
+        success: result.success,
         data: result,
+        ...(!result.success && { error: result.error }),
       });
     } catch (error) {
       next(error);
@@ -365,12 +437,15 @@ router.post(
       const userId = (req as AuthenticatedRequest).userId!;
       const results = await claimAllYield(userId);
 
-      const totalClaimed = results.reduce((sum, r) => {
-        const amount = parseFloat(r.amount);
-        return sum + (isNaN(amount) ? 0 : amount);
-      }, 0);
+      const totalClaimed = results
+        .filter((r) => r.success)
+        .reduce((sum, r) => {
+          const amount = parseFloat(r.amount);
+          return sum + (isNaN(amount) ? 0 : amount);
+        }, 0);
 
-      res.json({
+      // All claims share one UserOperation, so they share a status
+      res.status(operationStatusCode(results[0]?.status ?? 'CONFIRMED')).json({
         success: true,
         data: {
           claims: results,
@@ -430,4 +505,22 @@ router.get('/stats', async (_req: Request, res: Response, next: NextFunction) =>
   }
 });
 
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * 202 while the UserOperation is still being mined
+ */
+function operationStatusCode(status: TransactionStatus, confirmedCode = 200): number {
+  switch (status) {
+    case 'PENDING':
+      return 202;
+    case 'FAILED':
+      return 422;
+    default:
+      return confirmedCode;
+  }
+}
+
 export default router;
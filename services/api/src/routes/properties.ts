@@ -7,6 +7,30 @@ import { authenticate, AuthenticatedRequest } from "../middleware/auth";
 import { z } from "zod";
 import { ChairType } from "@prisma/client";
 import { createError } from "../middleware/error-handler";
+import {
+  approveRentalWithPayment,
+  cancelRental,
+  getRentalRefundQuote,
+  RENTAL_PLATFORM_FEE_PERCENTAGE,
+  type RentalPaymentResult,
+} from "../lib/chair-rentals";
+import {
+  AVAILABILITY_MODES,
+  MAX_AVAILABILITY_RANGE_DAYS,
+  getChairAvailability,
+  getPropertyAvailability,
+  getPropertyUtilisation,
+  meetsVerificationRequirement,
+  type ChairAvailability,
+  type ChairReservationResult,
+  type ChairUtilisation,
+} from "../lib/chair-reservations";
+import {
+  getPropertyRegistryView,
+  raisePropertyDispute,
+  registerProperty,
+  type PropertyRegistryResult,
+} from "../lib/property-registry";
 import {
   searchPropertiesSchema,
   rentalFilterSchema,
@@ -38,6 +62,8 @@ const createPropertySchema = z.object({
   coverImage: z.string().optional(),
   minStylistRating: z.number().min(0).max(5).optional(),
   minTpsScore: z.number().min(0).max(100).optional(),
+  requireVerifiedStylists: z.boolean().optional(),
+  rentalCancellationWindowHours: z.number().int().min(0).max(720).optional(),
 });
 
 const updatePropertySchema = createPropertySchema.partial();
@@ -79,6 +105,107 @@ const rentalDecisionSchema = z.object({
   rejectionReason: z.string().max(500).optional(),
 });
 
+const dateRangeSchema = z
+  .object({
+    from: z.string().datetime(),
+    to: z.string().datetime(),
+  })
+  .refine((range) => new Date(range.to) > new Date(range.from), {
+    message: "to must be after from",
+    path: ["to"],
+  })
+  .refine((range) => new Date(range.to).getTime() - new Date(range.from).getTime() <= 366 * 24 * 60 * 60 * 1000, {
+    message: "Range can be at most 366 days",
+    path: ["to"],
+  });
+
+const availabilityQuerySchema = z
+  .object({
+    from: z.string().datetime(),
+    to: z.string().datetime(),
+    mode: z.enum(AVAILABILITY_MODES).default("PER_HOUR"),
+  })
+  .refine((query) => new Date(query.to) > new Date(query.from), {
+    message: "to must be after from",
+    path: ["to"],
+  })
+  .refine(
+    (query) =>
+      new Date(query.to).getTime() - new Date(query.from).getTime() <=
+      MAX_AVAILABILITY_RANGE_DAYS[query.mode] * 24 * 60 * 60 * 1000,
+    (query) => ({
+      message: `Range can be at most ${MAX_AVAILABILITY_RANGE_DAYS[query.mode]} days for ${query.mode}`,
+      path: ["to"],
+    })
+  );
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Map a failed rental payment result to an API error
+ */
+function toRentalError(result: RentalPaymentResult<unknown>) {
+  return createError(result.error || "INTERNAL_ERROR", result.details);
+}
+
+/**
+ * Map a failed property registry result to an API error
+ */
+function toRegistryError(result: PropertyRegistryResult<unknown>) {
+  return createError(result.error || "INTERNAL_ERROR", result.details);
+}
+
+/**
+ * Serialize BigInt amounts on a rental request
+ */
+function serializeRental<T extends {
+  totalAmountCents: bigint;
+  platformFeeCents: bigint;
+  ownerPayoutCents: bigint;
+  refundAmountCents: bigint | null;
+}>(rental: T) {
+  return {
+    ...rental,
+    totalAmountCents: Number(rental.totalAmountCents),
+    platformFeeCents: Number(rental.platformFeeCents),
+    ownerPayoutCents: Number(rental.ownerPayoutCents),
+    refundAmountCents: rental.refundAmountCents !== null ? Number(rental.refundAmountCents) : null,
+  };
+}
+
+/**
+ * Map a failed chair calendar result to an API error
+ */
+function toChairError(result: ChairReservationResult<unknown>) {
+  return createError(result.error || "INTERNAL_ERROR", result.details);
+}
+
+/**
+ * Serialize BigInt rates on a chair calendar
+ */
+function serializeChairAvailability(chair: ChairAvailability) {
+  return {
+    ...chair,
+    rateCents: chair.rateCents !== null ? Number(chair.rateCents) : null,
+  };
+}
+
+/**
+ * Serialize BigInt revenue on a utilisation row
+ */
+function serializeUtilisation<T extends Pick<ChairUtilisation, "rentalRevenueCents" | "bookingFeeRevenueCents">>(
+  row: T
+) {
+  return {
+    ...row,
+    rentalRevenueCents: Number(row.rentalRevenueCents),
+    bookingFeeRevenueCents: Number(row.bookingFeeRevenueCents),
+    totalRevenueCents: Number(row.rentalRevenueCents + row.bookingFeeRevenueCents),
+  };
+}
+
 // ============================================================================
 // PROPERTY CRUD ENDPOINTS
 // ============================================================================
@@ -258,10 +385,25 @@ router.post("/", authenticate, async (req: AuthenticatedRequest, res: Response,
         coverImage: input.coverImage,
         minStylistRating: input.minStylistRating,
         minTpsScore: input.minTpsScore,
+        requireVerifiedStylists: input.requireVerifiedStylists,
+        rentalCancellationWindowHours: input.rentalCancellationWindowHours,
       },
     });
 
-    res.status(201).json({ property });
+    // Registered from the owner's wallet; failures don't block the listing and
+    // the registry sync job retries them
+    const registration = await registerProperty(property.id);
+    if (!registration.success && registration.error !== "PROPERTY_REGISTRY_NOT_CONFIGURED") {
+      console.error("Failed to register property on-chain:", registration.error, registration.details);
+    }
+
+    res.status(201).json({
+      property: registration.data ?? property,
+      registry: {
+        registered: registration.success,
+        error: registration.success ? null : registration.error,
+      },
+    });
   } catch (error) {
     if (error instanceof z.ZodError) {
       return next(createError("VALIDATION_ERROR", { details: error.errors }));
@@ -346,6 +488,92 @@ router.delete("/:id", authenticate, async (req: AuthenticatedRequest, res: Respo
   }
 });
 
+/**
+ * GET /api/properties/:id/registry
+ * On-chain registry state of the property (owner only)
+ */
+router.get("/:id/registry", authenticate, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.user!.sub;
+    const { id } = req.params;
+
+    const property = await prisma.property.findUnique({
+      where: { id },
+      select: { ownerId: true },
+    });
+
+    if (!property) {
+      return next(createError("PROPERTY_NOT_FOUND"));
+    }
+
+    if (property.ownerId !== userId) {
+      return next(createError("FORBIDDEN"));
+    }
+
+    const result = await getPropertyRegistryView(id);
+    if (!result.success || !result.data) {
+      return next(toRegistryError(result));
+    }
+
+    res.json({ registry: result.data });
+  } catch (error) {
+    console.error("Failed to get property registry state:", error);
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
+/**
+ * POST /api/properties/:id/registry/register
+ * Retry on-chain registration from the owner's wallet (owner only)
+ */
+router.post("/:id/registry/register", authenticate, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.user!.sub;
+    const { id } = req.params;
+
+    const property = await prisma.property.findUnique({
+      where: { id },
+      select: { ownerId: true },
+    });
+
+    if (!property) {
+      return next(createError("PROPERTY_NOT_FOUND"));
+    }
+
+    if (property.ownerId !== userId) {
+      return next(createError("FORBIDDEN"));
+    }
+
+    const result = await registerProperty(id);
+    if (!result.success || !result.data) {
+      return next(toRegistryError(result));
+    }
+
+    res.json({ property: result.data });
+  } catch (error) {
+    console.error("Failed to register property:", error);
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
+/**
+ * POST /api/properties/:id/registry/dispute
+ * Dispute a pending suspension before its 24h window ends (owner only)
+ */
+router.post("/:id/registry/dispute", authenticate, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const result = await raisePropertyDispute(req.params.id, req.user!.sub);
+    if (!result.success || !result.data) {
+      return next(toRegistryError(result));
+    }
+
+    res.json(result.data);
+  } catch (error) {
+    console.error("Failed to dispute property suspension:", error);
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
 // ============================================================================
 // PROPERTY OWNER DASHBOARD ENDPOINTS
 // ============================================================================
@@ -599,6 +827,131 @@ router.delete("/:propertyId/chairs/:chairId", authenticate, async (req: Authenti
   }
 });
 
+// ============================================================================
+// AVAILABILITY ENDPOINTS
+// ============================================================================
+
+/**
+ * GET /api/properties/:id/availability
+ * Free / busy calendar for every chair (public)
+ * Query: from, to (ISO datetimes, UTC) and mode (PER_HOUR | PER_DAY | PER_WEEK | PER_MONTH)
+ */
+router.get("/:id/availability", async (req, res: Response, next: NextFunction) => {
+  try {
+    const { id } = req.params;
+    const query = availabilityQuerySchema.parse(req.query);
+
+    const result = await getPropertyAvailability({
+      propertyId: id,
+      mode: query.mode,
+      from: new Date(query.from),
+      to: new Date(query.to),
+    });
+
+    if (!result.success || !result.data) {
+      return next(toChairError(result));
+    }
+
+    res.json({
+      availability: {
+        ...result.data,
+        chairs: result.data.chairs.map(serializeChairAvailability),
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError("VALIDATION_ERROR", { details: error.errors }));
+    }
+    console.error("Failed to fetch property availability:", error);
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
+/**
+ * GET /api/properties/:propertyId/chairs/:chairId/availability
+ * Free / busy calendar for one chair (public)
+ */
+router.get("/:propertyId/chairs/:chairId/availability", async (req, res: Response, next: NextFunction) => {
+  try {
+    const { propertyId, chairId } = req.params;
+    const query = availabilityQuerySchema.parse(req.query);
+
+    const result = await getChairAvailability({
+      propertyId,
+      chairId,
+      mode: query.mode,
+      from: new Date(query.from),
+      to: new Date(query.to),
+    });
+
+    if (!result.success || !result.data) {
+      return next(toChairError(result));
+    }
+
+    res.json({
+      mode: query.mode,
+      from: query.from,
+      to: query.to,
+      availability: serializeChairAvailability(result.data),
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError("VALIDATION_ERROR", { details: error.errors }));
+    }
+    console.error("Failed to fetch chair availability:", error);
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
+/**
+ * GET /api/properties/:propertyId/utilisation
+ * Utilisation and revenue per chair over a range (owner only)
+ */
+router.get("/:propertyId/utilisation", authenticate, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const userId = req.user!.sub;
+    const { propertyId } = req.params;
+    const range = dateRangeSchema.parse(req.query);
+
+    const property = await prisma.property.findUnique({
+      where: { id: propertyId },
+      select: { ownerId: true },
+    });
+
+    if (!property) {
+      return next(createError("PROPERTY_NOT_FOUND"));
+    }
+
+    if (property.ownerId !== userId) {
+      return next(createError("FORBIDDEN"));
+    }
+
+    const result = await getPropertyUtilisation({
+      propertyId,
+      from: new Date(range.from),
+      to: new Date(range.to),
+    });
+
+    if (!result.success || !result.data) {
+      return next(toChairError(result));
+    }
+
+    res.json({
+      utilisation: {
+        ...result.data,
+        chairs: result.data.chairs.map(serializeUtilisation),
+        totals: serializeUtilisation(result.data.totals),
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError("VALIDATION_ERROR", { details: error.errors }));
+    }
+    console.error("Failed to fetch property utilisation:", error);
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
 // ============================================================================
 // CHAIR RENTAL REQUEST ENDPOINTS
 // ============================================================================
@@ -639,12 +992,6 @@ router.post("/rentals/request", authenticate, async (req: AuthenticatedRequest,
       return next(createError("CHAIR_UNAVAILABLE"));
     }
 
-    // Determine initial status based on property approval mode
-    let initialStatus: "PENDING_APPROVAL" | "APPROVED" = "PENDING_APPROVAL";
-    if (chair.property.approvalMode === "NO_APPROVAL") {
-      initialStatus = "APPROVED";
-    }
-
     // Calculate pricing based on rental mode and duration
     const startTime = new Date(input.startTime);
     const endTime = new Date(input.endTime);
@@ -671,8 +1018,8 @@ router.post("/rentals/request", authenticate, async (req: AuthenticatedRequest,
         break;
     }
 
-    // Platform fee (10%)
-    const platformFeeCents = totalAmountCents / 10n;
+    // Platform fee, taken from the escrow on release to the owner
+    const platformFeeCents = (totalAmountCents * BigInt(RENTAL_PLATFORM_FEE_PERCENTAGE)) / 100n;
     const ownerPayoutCents = totalAmountCents - platformFeeCents;
 
     const rentalRequest = await prisma.chairRentalRequest.create({
@@ -681,25 +1028,39 @@ router.post("/rentals/request", authenticate, async (req: AuthenticatedRequest,
         propertyId: chair.propertyId,
         stylistId: userId,
         rentalMode: input.rentalMode,
-        status: initialStatus,
         startTime,
         endTime,
         totalAmountCents,
         platformFeeCents,
         ownerPayoutCents,
-        approvedAt: initialStatus === "APPROVED" ? new Date() : null,
       },
     });
 
-    // Serialize BigInt
-    const serialized = {
-      ...rentalRequest,
-      totalAmountCents: Number(rentalRequest.totalAmountCents),
-      platformFeeCents: Number(rentalRequest.platformFeeCents),
-      ownerPayoutCents: Number(rentalRequest.ownerPayoutCents),
-    };
+    // Properties without approval approve straight away, which collects payment.
+    // If the stylist's wallet can't pay, the request is cancelled rather than
+    // left waiting for an approval that will never come. Unverified stylists
+    // wait for the owner when the property only trusts verified ones.
+    const stylist = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { verificationStatus: true },
+    });
+    const stylistVerified = stylist?.verificationStatus === "VERIFIED";
+
+    if (chair.property.approvalMode === "NO_APPROVAL" && meetsVerificationRequirement(chair.property, stylistVerified)) {
+      const approval = await approveRentalWithPayment(rentalRequest.id, chair.property.ownerId);
 
-    res.status(201).json({ rentalRequest: serialized });
+      if (!approval.success || !approval.data) {
+        await prisma.chairRentalRequest.update({
+          where: { id: rentalRequest.id },
+          data: { status: "CANCELLED", cancelledAt: new Date(), cancelledBy: userId },
+        });
+        return next(toRentalError(approval));
+      }
+
+      return res.status(201).json({ rentalRequest: serializeRental(approval.data) });
+    }
+
+    res.status(201).json({ rentalRequest: serializeRental(rentalRequest) });
   } catch (error) {
     if (error instanceof z.ZodError) {
       return next(createError("VALIDATION_ERROR", { details: error.errors }));
@@ -771,10 +1132,7 @@ router.get("/:propertyId/rentals", authenticate, async (req: AuthenticatedReques
 
     // Serialize BigInt
     const serialized = rentals.map((r) => ({
-      ...r,
-      totalAmountCents: Number(r.totalAmountCents),
-      platformFeeCents: Number(r.platformFeeCents),
-      ownerPayoutCents: Number(r.ownerPayoutCents),
+      ...serializeRental(r),
       stylist: stylistMap.get(r.stylistId) || null,
     }));
 
@@ -819,32 +1177,27 @@ router.post("/rentals/:rentalId/decision", authenticate, async (req: Authenticat
       return next(createError("RENTAL_ALREADY_PROCESSED"));
     }
 
-    const updateData: Record<string, unknown> = {};
-
+    // Approval collects payment from the stylist's wallet into escrow
     if (input.decision === "APPROVE") {
-      updateData.status = "APPROVED";
-      updateData.approvedAt = new Date();
-      updateData.approvedBy = userId;
-    } else {
-      updateData.status = "REJECTED";
-      updateData.rejectedAt = new Date();
-      updateData.rejectionReason = input.rejectionReason;
+      const approval = await approveRentalWithPayment(rentalId, userId);
+
+      if (!approval.success || !approval.data) {
+        return next(toRentalError(approval));
+      }
+
+      return res.json({ rentalRequest: serializeRental(approval.data) });
     }
 
     const updated = await prisma.chairRentalRequest.update({
       where: { id: rentalId },
-      data: updateData,
+      data: {
+        status: "REJECTED",
+        rejectedAt: new Date(),
+        rejectionReason: input.rejectionReason,
+      },
     });
 
-    // Serialize BigInt
-    const serialized = {
-      ...updated,
-      totalAmountCents: Number(updated.totalAmountCents),
-      platformFeeCents: Number(updated.platformFeeCents),
-      ownerPayoutCents: Number(updated.ownerPayoutCents),
-    };
-
-    res.json({ rentalRequest: serialized });
+    res.json({ rentalRequest: serializeRental(updated) });
   } catch (error) {
     if (error instanceof z.ZodError) {
       return next(createError("VALIDATION_ERROR", { details: error.errors }));
@@ -854,6 +1207,56 @@ router.post("/rentals/:rentalId/decision", authenticate, async (req: Authenticat
   }
 });
 
+/**
+ * GET /api/properties/rentals/:rentalId/refund-quote
+ * Preview the refund if the rental were cancelled now (stylist or owner)
+ */
+router.get("/rentals/:rentalId/refund-quote", authenticate, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const result = await getRentalRefundQuote(req.params.rentalId, req.user!.sub);
+
+    if (!result.success || !result.data) {
+      return next(toRentalError(result));
+    }
+
+    res.json({
+      refund: {
+        ...result.data,
+        refundCents: Number(result.data.refundCents),
+      },
+    });
+  } catch (error) {
+    console.error("Failed to quote rental refund:", error);
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
+/**
+ * POST /api/properties/rentals/:rentalId/cancel
+ * Cancel a rental before it starts (stylist or owner)
+ * Refunds follow the property's cancellation window
+ */
+router.post("/rentals/:rentalId/cancel", authenticate, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const result = await cancelRental(req.params.rentalId, req.user!.sub);
+
+    if (!result.success || !result.data) {
+      return next(toRentalError(result));
+    }
+
+    res.json({
+      rentalRequest: serializeRental(result.data.rental),
+      refund: {
+        ...result.data.refund,
+        refundCents: Number(result.data.refund.refundCents),
+      },
+    });
+  } catch (error) {
+    console.error("Failed to cancel rental:", error);
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
 /**
  * GET /api/properties/rentals/my
  * Get stylist's own rental requests
@@ -880,10 +1283,7 @@ router.get("/rentals/my", authenticate, async (req: AuthenticatedRequest, res: R
 
     // Serialize BigInt
     const serialized = rentals.map((r) => ({
-      ...r,
-      totalAmountCents: Number(r.totalAmountCents),
-      platformFeeCents: Number(r.platformFeeCents),
-      ownerPayoutCents: Number(r.ownerPayoutCents),
+      ...serializeRental(r),
       chair: {
         ...r.chair,
         hourlyRateCents: r.chair.hourlyRateCents ? Number(r.chair.hourlyRateCents) : null,
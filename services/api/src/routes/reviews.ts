@@ -7,6 +7,7 @@ import { authenticate, AuthenticatedRequest } from "../middleware/auth";
 import { z } from "zod";
 import { ReviewType } from "@prisma/client";
 import { createError } from "../middleware/error-handler";
+import { verifyReputationScore } from "../lib/reputation-sync";
 
 const router: ReturnType<typeof Router> = Router();
 
@@ -379,6 +380,8 @@ router.get("/reputation/:userId", async (req, res: Response, next: NextFunction)
         averageRating: null,
         isVerified: false,
         verifiedAt: null,
+        onChainScore: null,
+        onChainSyncedAt: null,
         lastCalculatedAt: new Date(),
         createdAt: new Date(),
         updatedAt: new Date(),
@@ -406,6 +409,27 @@ router.get("/reputation/:userId", async (req, res: Response, next: NextFunction)
   }
 });
 
+/**
+ * GET /api/reviews/reputation/:userId/verify
+ * Compare a user's score with the on-chain ReputationRegistry (public)
+ * Lets third parties check our scores against getReputationScore
+ */
+router.get("/reputation/:userId/verify", async (req, res: Response, next: NextFunction) => {
+  try {
+    const { userId } = req.params;
+
+    const result = await verifyReputationScore(userId);
+    if (!result.success || !result.data) {
+      return next(createError(result.error || "INTERNAL_ERROR", result.details));
+    }
+
+    res.json({ verification: result.data });
+  } catch (error) {
+    console.error("Failed to verify reputation:", error);
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
 /**
  * GET /api/reviews/reputation/:userId/events
  * Get reputation events for a user
@@ -1,31 +1,344 @@
-// Special Events Routes
-// Placeholder for special events booking functionality
+/**
+ * Special Events API Routes (V7.2)
+ *
+ * Quoting marketplace for bridal, photoshoot and other special events.
+ * Customers post a request, invited stylists quote, and the accepted
+ * quote becomes bookings funded through the standard escrow flow.
+ * Reference: docs/vlossom/travel-and-special-events.md
+ */
 
-import { Router } from "express";
+import { Router, Response, NextFunction } from "express";
+import { authenticate, type AuthenticatedRequest } from "../middleware/auth";
+import { createError } from "../middleware/error-handler";
+import { logger } from "../lib/logger";
+import { z } from "zod";
+import {
+  createSpecialEventRequest,
+  listCustomerRequests,
+  listOpenRequestsForStylist,
+  getRequestForUser,
+  submitQuote,
+  acceptQuote,
+  declineQuote,
+  cancelSpecialEventRequest,
+  parseEventStart,
+  type SpecialEventResult,
+} from "../lib/special-events";
 
-const router = Router();
+const router: ReturnType<typeof Router> = Router();
+
+// ============================================================================
+// Validation Schemas
+// ============================================================================
+
+const categorySchema = z.enum(["BRIDAL", "PHOTOSHOOT", "CORPORATE", "PARTY", "MATRIC_DANCE", "OTHER"]);
+
+const createRequestSchema = z.object({
+  category: categorySchema,
+  title: z.string().min(3).max(120),
+  description: z.string().max(2000).optional(),
+  // Local start with the customer's UTC offset, e.g. 2026-12-05T09:00:00+02:00
+  startsAt: z.string().datetime({ offset: true }),
+  durationHours: z.number().int().min(1).max(24),
+  guestCount: z.number().int().min(1).max(100).optional(),
+  locationType: z.enum(["STYLIST_BASE", "CUSTOMER_HOME"]),
+  address: z.string().max(500).optional(),
+  locationLat: z.number().min(-90).max(90).optional(),
+  locationLng: z.number().min(-180).max(180).optional(),
+  propertyId: z.string().uuid().optional(),
+  serviceIds: z.array(z.string().uuid()).max(20).optional(),
+  serviceNotes: z.string().max(2000).optional(),
+});
+
+const quoteBreakdownSchema = z.object({
+  services: z
+    .array(
+      z.object({
+        serviceId: z.string().uuid().optional(),
+        name: z.string().min(1).max(120),
+        amountCents: z.number().int().min(0),
+        quantity: z.number().int().min(1).max(100).optional(),
+      })
+    )
+    .min(1),
+  travel: z.number().int().min(0).default(0),
+  surcharge: z.number().int().min(0).default(0),
+  sessions: z
+    .array(
+      z.object({
+        label: z.string().max(80).optional(),
+        startTime: z.string().datetime(),
+        durationMinutes: z.number().int().min(15).max(24 * 60),
+        amountCents: z.number().int().min(1),
+      })
+    )
+    .max(10)
+    .optional(),
+});
+
+const submitQuoteSchema = z.object({
+  breakdown: quoteBreakdownSchema,
+  notes: z.string().max(2000).optional(),
+  validUntil: z.string().datetime(),
+});
+
+const cancelRequestSchema = z.object({
+  reason: z.string().min(1).max(500),
+});
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Map a failed service result to an API error
+ */
+function toApiError(result: SpecialEventResult<unknown>) {
+  return createError(result.error || "INTERNAL_ERROR", result.details);
+}
+
+// ============================================================================
+// GET /api/v1/special-events
+// List special event categories
+// ============================================================================
 
-// GET /api/v1/special-events - List special event types
 router.get("/", (_req, res) => {
   res.json({
     success: true,
     data: {
       eventTypes: [
-        { id: "wedding", name: "Wedding", description: "Bridal party styling" },
-        { id: "photoshoot", name: "Photoshoot", description: "Professional photography styling" },
-        { id: "gala", name: "Gala/Event", description: "Formal event styling" },
-        { id: "graduation", name: "Graduation", description: "Graduation ceremony styling" },
+        { id: "BRIDAL", name: "Wedding", description: "Bridal party styling" },
+        { id: "PHOTOSHOOT", name: "Photoshoot", description: "Professional photography styling" },
+        { id: "CORPORATE", name: "Corporate", description: "Corporate and gala event styling" },
+        { id: "PARTY", name: "Party", description: "Birthday and celebration styling" },
+        { id: "MATRIC_DANCE", name: "Matric Dance", description: "Matric dance and graduation styling" },
+        { id: "OTHER", name: "Other", description: "Any other special occasion" },
       ],
     },
   });
 });
 
-// POST /api/v1/special-events/request - Submit special event request
-router.post("/request", (_req, res) => {
-  res.status(501).json({
-    success: false,
-    error: "Special events booking coming soon",
-  });
-});
+// ============================================================================
+// POST /api/v1/special-events/request
+// Customer creates a special event request; matching stylists are invited
+// ============================================================================
+
+router.post(
+  "/request",
+  authenticate,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { startsAt, ...input } = createRequestSchema.parse(req.body);
+      const { eventDate, startTime } = parseEventStart(startsAt);
+
+      if (eventDate <= new Date()) {
+        return next(createError("VALIDATION_ERROR", { message: "startsAt must be in the future" }));
+      }
+
+      if (input.locationType === "CUSTOMER_HOME" && (input.locationLat === undefined || input.locationLng === undefined)) {
+        return next(createError("VALIDATION_ERROR", { message: "Location coordinates are required for CUSTOMER_HOME events" }));
+      }
+
+      const result = await createSpecialEventRequest({
+        ...input,
+        customerId: req.userId!,
+        eventDate,
+        startTime,
+      });
+
+      if (!result.success) {
+        return next(toApiError(result));
+      }
+
+      return res.status(201).json({ success: true, data: result.data });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return next(createError("VALIDATION_ERROR", { details: error.errors }));
+      }
+      logger.error("Error creating special event request", { error });
+      return next(createError("INTERNAL_ERROR"));
+    }
+  }
+);
+
+// ============================================================================
+// GET /api/v1/special-events/requests
+// Customer's own special event requests
+// ============================================================================
+
+router.get(
+  "/requests",
+  authenticate,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const requests = await listCustomerRequests(req.userId!);
+      return res.json({ success: true, data: { requests } });
+    } catch (error) {
+      logger.error("Error listing special event requests", { error });
+      return next(createError("INTERNAL_ERROR"));
+    }
+  }
+);
+
+// ============================================================================
+// GET /api/v1/special-events/requests/open
+// Open requests the authenticated stylist has been invited to quote on
+// ============================================================================
+
+router.get(
+  "/requests/open",
+  authenticate,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const requests = await listOpenRequestsForStylist(req.userId!);
+      return res.json({ success: true, data: { requests } });
+    } catch (error) {
+      logger.error("Error listing open special event requests", { error });
+      return next(createError("INTERNAL_ERROR"));
+    }
+  }
+);
+
+// ============================================================================
+// GET /api/v1/special-events/requests/:id
+// Request detail (customer sees all quotes, stylist sees own quote)
+// ============================================================================
+
+router.get(
+  "/requests/:id",
+  authenticate,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const request = await getRequestForUser(req.params.id, req.userId!);
+
+      if (!request) {
+        return next(createError("SPECIAL_EVENT_NOT_FOUND"));
+      }
+
+      return res.json({ success: true, data: request });
+    } catch (error) {
+      logger.error("Error fetching special event request", { error });
+      return next(createError("INTERNAL_ERROR"));
+    }
+  }
+);
+
+// ============================================================================
+// POST /api/v1/special-events/requests/:id/quotes
+// Invited stylist submits or revises a quote
+// ============================================================================
+
+router.post(
+  "/requests/:id/quotes",
+  authenticate,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const input = submitQuoteSchema.parse(req.body);
+
+      const result = await submitQuote({
+        requestId: req.params.id,
+        stylistId: req.userId!,
+        breakdown: input.breakdown,
+        notes: input.notes,
+        validUntil: new Date(input.validUntil),
+      });
+
+      if (!result.success) {
+        return next(toApiError(result));
+      }
+
+      return res.status(201).json({ success: true, data: result.data });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return next(createError("VALIDATION_ERROR", { details: error.errors }));
+      }
+      logger.error("Error submitting special event quote", { error });
+      return next(createError("INTERNAL_ERROR"));
+    }
+  }
+);
+
+// ============================================================================
+// POST /api/v1/special-events/requests/:id/quotes/:quoteId/accept
+// Customer accepts a quote - creates bookings awaiting payment
+// ============================================================================
+
+router.post(
+  "/requests/:id/quotes/:quoteId/accept",
+  authenticate,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const result = await acceptQuote(req.params.id, req.params.quoteId, req.userId!);
+
+      if (!result.success) {
+        return next(toApiError(result));
+      }
+
+      return res.json({
+        success: true,
+        data: {
+          ...result.data,
+          message: "Quote accepted. Pay for each booking to confirm your event.",
+        },
+      });
+    } catch (error) {
+      logger.error("Error accepting special event quote", { error });
+      return next(createError("INTERNAL_ERROR"));
+    }
+  }
+);
+
+// ============================================================================
+// POST /api/v1/special-events/requests/:id/quotes/:quoteId/decline
+// Customer declines a quote
+// ============================================================================
+
+router.post(
+  "/requests/:id/quotes/:quoteId/decline",
+  authenticate,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const result = await declineQuote(req.params.id, req.params.quoteId, req.userId!);
+
+      if (!result.success) {
+        return next(toApiError(result));
+      }
+
+      return res.json({ success: true, data: result.data });
+    } catch (error) {
+      logger.error("Error declining special event quote", { error });
+      return next(createError("INTERNAL_ERROR"));
+    }
+  }
+);
+
+// ============================================================================
+// POST /api/v1/special-events/requests/:id/cancel
+// Customer cancels a request before its bookings are paid
+// ============================================================================
+
+router.post(
+  "/requests/:id/cancel",
+  authenticate,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const input = cancelRequestSchema.parse(req.body);
+
+      const result = await cancelSpecialEventRequest(req.params.id, req.userId!, input.reason);
+
+      if (!result.success) {
+        return next(toApiError(result));
+      }
+
+      return res.json({ success: true, data: result.data });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return next(createError("VALIDATION_ERROR", { details: error.errors }));
+      }
+      logger.error("Error cancelling special event request", { error });
+      return next(createError("INTERNAL_ERROR"));
+    }
+  }
+);
 
 export default router;
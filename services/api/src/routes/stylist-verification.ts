@@ -0,0 +1,159 @@
+/**
+ * Stylist Verification API Routes
+ * Stylists build and submit an identity/credential packet for admin review.
+ * The review queue lives in routes/admin/users.ts.
+ *
+ * Mounted on /api/v1/stylists/verification, ahead of the stylist routes:
+ * GET    /                       - Verification status and latest packet
+ * POST   /documents/:type        - Upload a document (raw image or PDF body)
+ * DELETE /documents/:documentId  - Remove a document from the open packet
+ * POST   /submit                 - Send the packet for review
+ */
+
+import { Router, type Response, type NextFunction } from "express";
+import { VerificationDocumentType } from "@prisma/client";
+import { z } from "zod";
+import { authenticate, type AuthenticatedRequest } from "../middleware/auth";
+import { createError } from "../middleware/error-handler";
+import { logger } from "../lib/logger";
+import { validateDocumentFile } from "../lib/cloudinary";
+import {
+  addVerificationDocument,
+  getStylistVerification,
+  removeVerificationDocument,
+  submitVerificationPacket,
+  type VerificationResult,
+} from "../lib/stylist-verification";
+
+const router: ReturnType<typeof Router> = Router();
+
+// All verification routes require authentication
+router.use(authenticate);
+
+const documentTypeSchema = z.nativeEnum(VerificationDocumentType);
+
+/**
+ * Map a failed verification result to an API error
+ */
+function toVerificationError(result: VerificationResult<unknown>) {
+  return createError(result.error || "INTERNAL_ERROR", result.details);
+}
+
+/**
+ * GET /api/v1/stylists/verification
+ */
+router.get("/", async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const result = await getStylistVerification(req.userId!);
+    if (!result.success || !result.data) {
+      return next(toVerificationError(result));
+    }
+
+    return res.json(result.data);
+  } catch (error) {
+    logger.error("Error getting stylist verification", { error });
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
+/**
+ * POST /api/v1/stylists/verification/documents/:type
+ * Upload a document (raw image or PDF body) into the open packet. Documents
+ * are stored privately and only admins see them, through signed URLs.
+ */
+router.post("/documents/:type", async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const type = documentTypeSchema.parse(req.params.type);
+    const contentType = req.headers["content-type"] || "";
+
+    if (!contentType.includes("application/octet-stream") &&
+        !contentType.includes("application/pdf") &&
+        !contentType.includes("image/")) {
+      return next(createError("INVALID_CONTENT_TYPE"));
+    }
+
+    // Parse the body as Buffer
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+    }
+    const buffer = Buffer.concat(chunks);
+
+    if (buffer.length === 0) {
+      return next(createError("NO_FILE"));
+    }
+
+    // Determine mimetype from content-type or magic bytes
+    let mimetype = contentType.split(";")[0].trim();
+    if (mimetype === "application/octet-stream") {
+      if (buffer[0] === 0xff && buffer[1] === 0xd8) {
+        mimetype = "image/jpeg";
+      } else if (buffer[0] === 0x89 && buffer[1] === 0x50) {
+        mimetype = "image/png";
+      } else if (buffer[0] === 0x52 && buffer[1] === 0x49) {
+        mimetype = "image/webp";
+      } else if (buffer[0] === 0x25 && buffer[1] === 0x50 && buffer[2] === 0x44 && buffer[3] === 0x46) {
+        mimetype = "application/pdf";
+      }
+    }
+
+    const validation = validateDocumentFile(buffer, mimetype);
+    if (!validation.valid) {
+      return next(createError("INVALID_FILE", { reason: validation.error }));
+    }
+
+    const result = await addVerificationDocument(req.userId!, type, buffer);
+    if (!result.success || !result.data) {
+      return next(toVerificationError(result));
+    }
+
+    return res.status(201).json({ packet: result.data });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError("VALIDATION_ERROR", { details: error.errors }));
+    }
+    logger.error("Error uploading verification document", { error });
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
+/**
+ * DELETE /api/v1/stylists/verification/documents/:documentId
+ */
+router.delete("/documents/:documentId", async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const result = await removeVerificationDocument(req.userId!, req.params.documentId);
+    if (!result.success || !result.data) {
+      return next(toVerificationError(result));
+    }
+
+    return res.json({ packet: result.data });
+  } catch (error) {
+    logger.error("Error removing verification document", { error });
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
+/**
+ * POST /api/v1/stylists/verification/submit
+ * Lock the packet and put the stylist in the review queue
+ */
+router.post("/submit", async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const result = await submitVerificationPacket({
+      userId: req.userId!,
+      ipAddress: req.ip,
+      userAgent: req.headers["user-agent"],
+    });
+    if (!result.success || !result.data) {
+      return next(toVerificationError(result));
+    }
+
+    return res.json({ packet: result.data });
+  } catch (error) {
+    logger.error("Error submitting verification packet", { error });
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
+export default router;
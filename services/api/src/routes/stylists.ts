@@ -3,39 +3,33 @@
 // Reference: docs/specs/stylist-dashboard/MILESTONE-3-PLAN.md
 
 import { Router, Request, Response, NextFunction } from "express";
-import type { Prisma } from "@prisma/client";
+import { Prisma, BalanceDueTrigger, CancellationPolicyPreset } from "@prisma/client";
 import prisma from "../lib/prisma";
-import { searchStylistsSchema, ServiceCategory, OperatingMode } from "../lib/validation";
+import { searchStylistsSchema } from "../lib/validation";
 import { authenticate, AuthenticatedRequest } from "../middleware/auth";
 import { createError } from "../middleware/error-handler";
 import { logger } from "../lib/logger";
+import {
+  buildCancellationPolicy,
+  resolveCancellationPolicy,
+  summarizeCancellationPolicy,
+  validateCancellationTiers,
+  type CancellationTier,
+} from "../lib/cancellation-policy";
+import { DEPOSIT_LIMITS } from "../lib/booking-deposit";
+import {
+  decodeSearchCursor,
+  resolveAvailabilityWindow,
+  searchStylists,
+  DEFAULT_SEARCH_RADIUS_KM,
+  type StylistSearchParams,
+} from "../lib/stylist-search";
 import { z } from "zod";
 
 // ============================================================================
 // TYPE DEFINITIONS FOR QUERY FILTERS (H-3: Replace 'any' types)
 // ============================================================================
 
-/**
- * Typed filter interface for stylist search
- * H-3: Replaces 'any' type with explicit Prisma-compatible types
- */
-interface StylistSearchFilters {
-  isAcceptingBookings: boolean;
-  operatingMode?: OperatingMode;
-  services?: {
-    some: ServiceFilterConditions;
-  };
-}
-
-interface ServiceFilterConditions {
-  isActive: boolean;
-  category?: ServiceCategory;
-  priceAmountCents?: {
-    gte?: bigint;
-    lte?: bigint;
-  };
-}
-
 /**
  * Availability exception interface
  * L-2: Replaces 'any' type for availability exceptions
@@ -46,18 +40,15 @@ interface AvailabilityException {
   note?: string;
 }
 
-/**
- * Weekly schedule structure
- * Maps day names to time slot arrays
- */
-interface WeeklySchedule {
-  [dayOfWeek: string]: Array<{ start: string; end: string }>;
-}
-
 // ============================================================================
 // VALIDATION SCHEMAS FOR M3 ENDPOINTS
 // ============================================================================
 
+const cancellationTierSchema = z.object({
+  minHoursBefore: z.number().min(0),
+  refundPercentage: z.number().int().min(0).max(100),
+});
+
 const createServiceSchema = z.object({
   name: z.string().min(2).max(100),
   category: z.enum(["Hair", "Nails", "Makeup", "Lashes", "Facials"]),
@@ -65,6 +56,18 @@ const createServiceSchema = z.object({
   priceAmountCents: z.number().int().min(1000).max(5000000), // R10 - R50,000
   estimatedDurationMin: z.number().int().min(15).max(480), // 15 min - 8 hours
   isActive: z.boolean().default(true),
+  // null = inherit the stylist's profile policy
+  cancellationPolicy: z.nativeEnum(CancellationPolicyPreset).nullable().optional(),
+  cancellationTiers: z.array(cancellationTierSchema).optional(),
+  // null = full payment at confirmation
+  depositPercentage: z
+    .number()
+    .int()
+    .min(DEPOSIT_LIMITS.MIN_PERCENTAGE)
+    .max(DEPOSIT_LIMITS.MAX_PERCENTAGE)
+    .nullable()
+    .optional(),
+  balanceDueOn: z.nativeEnum(BalanceDueTrigger).optional(),
 });
 
 const updateServiceSchema = createServiceSchema.partial();
@@ -96,80 +99,102 @@ const updateProfileSchema = z.object({
   serviceRadius: z.number().int().min(5).max(100).optional(),
   specialties: z.array(z.string()).max(10).optional(),
   isAcceptingBookings: z.boolean().optional(),
+  cancellationPolicy: z.nativeEnum(CancellationPolicyPreset).optional(),
+  cancellationTiers: z.array(cancellationTierSchema).optional(),
 });
 
 const router: ReturnType<typeof Router> = Router();
 
 /**
- * Calculate distance between two coordinates (Haversine formula)
- * Returns distance in kilometers
+ * Check a cancellation policy update: CUSTOM needs valid tiers, and tiers
+ * are only accepted with CUSTOM. Returns an error message, or null when valid.
+ */
+function checkCancellationPolicyInput(input: {
+  cancellationPolicy?: CancellationPolicyPreset | null;
+  cancellationTiers?: CancellationTier[];
+}): string | null {
+  if (input.cancellationTiers !== undefined && input.cancellationPolicy !== CancellationPolicyPreset.CUSTOM) {
+    return "cancellationTiers can only be set with the CUSTOM policy";
+  }
+  if (input.cancellationPolicy === CancellationPolicyPreset.CUSTOM) {
+    if (!input.cancellationTiers) {
+      return "CUSTOM policy requires cancellationTiers";
+    }
+    return validateCancellationTiers(input.cancellationTiers);
+  }
+  return null;
+}
+
+/**
+ * Prisma data for a cancellation policy update. Tiers are cleared when
+ * switching away from CUSTOM.
  */
-function calculateDistance(
-  lat1: number,
-  lon1: number,
-  lat2: number,
-  lon2: number
-): number {
-  const R = 6371; // Earth's radius in km
-  const dLat = ((lat2 - lat1) * Math.PI) / 180;
-  const dLon = ((lon2 - lon1) * Math.PI) / 180;
-
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos((lat1 * Math.PI) / 180) *
-      Math.cos((lat2 * Math.PI) / 180) *
-      Math.sin(dLon / 2) *
-      Math.sin(dLon / 2);
-
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return R * c;
+function cancellationPolicyData<P extends CancellationPolicyPreset | null>(input: {
+  cancellationPolicy?: P;
+  cancellationTiers?: CancellationTier[];
+}) {
+  if (input.cancellationPolicy === undefined) return {};
+
+  return {
+    cancellationPolicy: input.cancellationPolicy,
+    cancellationTiers:
+      input.cancellationPolicy === CancellationPolicyPreset.CUSTOM
+        ? (input.cancellationTiers as unknown as Prisma.InputJsonValue)
+        : Prisma.DbNull,
+  };
 }
 
 /**
  * GET /api/stylists
- * Search stylists with location, service, and advanced filters (F4.4)
+ * Search stylists with location, service, availability and reputation filters (F4.4)
+ *
+ * Filtering, ranking and paging all happen in Postgres (lib/stylist-search).
+ * Pass pagination.nextCursor back as `cursor` for the next page; `page`
+ * still works for jumping ahead.
  */
 router.get("/", async (req: Request, res: Response, next: NextFunction) => {
   try {
     const input = searchStylistsSchema.parse(req.query);
 
-    // H-3: Build where clause with typed interface (no 'any')
-    const where: StylistSearchFilters = {
-      isAcceptingBookings: true,
-    };
-
-    // Filter by operating mode if provided (validated by Zod enum)
-    if (input.operatingMode) {
-      where.operatingMode = input.operatingMode;
+    const cursor = input.cursor ? decodeSearchCursor(input.cursor) : undefined;
+    if (cursor === null) {
+      return next(createError("VALIDATION_ERROR", { details: [{ path: ["cursor"], message: "Invalid cursor" }] }));
     }
 
-    // H-3: Build service filter conditions with typed interface
-    const serviceWhere: ServiceFilterConditions = { isActive: true };
-
-    // Filter by service category if provided (validated by Zod enum)
-    if (input.serviceCategory) {
-      serviceWhere.category = input.serviceCategory;
+    const availability = input.availability
+      ? resolveAvailabilityWindow(input.availability, input.availableFrom, input.availableTo)
+      : undefined;
+    if (availability === null) {
+      return next(
+        createError("VALIDATION_ERROR", {
+          details: [{ path: ["availableTo"], message: "availableTo must be after availableFrom" }],
+        })
+      );
     }
 
-    // Filter by price range if provided
-    if (input.minPrice !== undefined || input.maxPrice !== undefined) {
-      serviceWhere.priceAmountCents = {};
-      if (input.minPrice !== undefined) {
-        serviceWhere.priceAmountCents.gte = BigInt(input.minPrice);
-      }
-      if (input.maxPrice !== undefined) {
-        serviceWhere.priceAmountCents.lte = BigInt(input.maxPrice);
-      }
-    }
+    const params: StylistSearchParams = {
+      query: input.query?.trim() || undefined,
+      serviceCategory: input.serviceCategory,
+      operatingMode: input.operatingMode,
+      minPrice: input.minPrice,
+      maxPrice: input.maxPrice,
+      minReputation: input.minReputation,
+      location:
+        input.lat !== undefined && input.lng !== undefined
+          ? { lat: input.lat, lng: input.lng, radiusKm: input.radius || DEFAULT_SEARCH_RADIUS_KM }
+          : undefined,
+      availability,
+      sortBy: input.sortBy,
+      limit: input.pageSize,
+      offset: (input.page - 1) * input.pageSize,
+      cursor,
+    };
 
-    // Apply service filters if any (check if more than just isActive)
-    if (serviceWhere.category || serviceWhere.priceAmountCents) {
-      where.services = { some: serviceWhere };
-    }
+    const { hits, total, nextCursor } = await searchStylists(params);
 
-    // Fetch stylists with availability for date filtering
-    const allStylists = await prisma.stylistProfile.findMany({
-      where,
+    // Load the ranked profiles, keeping the search order
+    const profiles = await prisma.stylistProfile.findMany({
+      where: { id: { in: hits.map((hit) => hit.stylistId) } },
       include: {
         user: {
           select: {
@@ -184,205 +209,74 @@ router.get("/", async (req: Request, res: Response, next: NextFunction) => {
           where: { isActive: true },
           orderBy: { priceAmountCents: "asc" },
         },
-        availability: true,
       },
     });
-
-    // Apply post-fetch filters
-    let filteredStylists = allStylists;
-
-    // F4.4: Filter by text query (name/bio)
-    if (input.query) {
-      const queryLower = input.query.toLowerCase();
-      filteredStylists = filteredStylists.filter((stylist) => {
-        const nameMatch = stylist.user.displayName.toLowerCase().includes(queryLower);
-        const bioMatch = stylist.bio?.toLowerCase().includes(queryLower) || false;
-        const specialtiesMatch = (stylist.specialties as string[])?.some(
-          (s) => s.toLowerCase().includes(queryLower)
-        ) || false;
-        return nameMatch || bioMatch || specialtiesMatch;
-      });
-    }
-
-    // F4.4: Filter by price range (ensure services match)
-    if (input.minPrice !== undefined || input.maxPrice !== undefined) {
-      filteredStylists = filteredStylists.filter((stylist) => {
-        return stylist.services.some((service) => {
-          const price = Number(service.priceAmountCents);
-          const meetsMin = input.minPrice === undefined || price >= input.minPrice;
-          const meetsMax = input.maxPrice === undefined || price <= input.maxPrice;
-          return meetsMin && meetsMax;
-        });
-      });
-    }
-
-    // F4.4: Filter by availability on specific date
-    if (input.availability) {
-      const targetDate = new Date(input.availability);
-      const dayOfWeek = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"][targetDate.getDay()];
-
-      filteredStylists = filteredStylists.filter((stylist) => {
-        if (!stylist.availability) return true; // No availability set = always available
-
-        // Check if date is blocked in exceptions
-        const exceptions = (stylist.availability.exceptions as unknown as AvailabilityException[]) || [];
-        const isBlocked = exceptions.some(
-          (ex: AvailabilityException) => ex.date === input.availability && ex.blocked
-        );
-        if (isBlocked) return false;
-
-        // Check if day of week has schedule
-        const schedule = (stylist.availability.schedule as unknown as WeeklySchedule) || {};
-        const daySchedule = schedule[dayOfWeek];
-        if (!daySchedule || daySchedule.length === 0) return false;
-
-        return true;
-      });
-    }
-
-    // Calculate distances for location-aware filtering and sorting
-    type StylistWithDistance = (typeof allStylists)[0] & { distance?: number };
-    let stylistsWithDistance: StylistWithDistance[] = filteredStylists;
-
-    // Filter by location if coordinates provided
-    if (input.lat && input.lng) {
-      const radius = input.radius || 50; // Default 50km radius
-
-      stylistsWithDistance = filteredStylists
-        .map((stylist) => {
-          let distance: number | undefined;
-
-          // Calculate distance for fixed/hybrid stylists with base location
-          if (
-            stylist.baseLocationLat &&
-            stylist.baseLocationLng &&
-            (stylist.operatingMode === "FIXED" || stylist.operatingMode === "HYBRID")
-          ) {
-            distance = calculateDistance(
-              input.lat!,
-              input.lng!,
-              stylist.baseLocationLat,
-              stylist.baseLocationLng
-            );
-          }
-
-          // Calculate distance for mobile stylists
-          if (
-            stylist.operatingMode === "MOBILE" &&
-            stylist.baseLocationLat &&
-            stylist.baseLocationLng
-          ) {
-            distance = calculateDistance(
-              input.lat!,
-              input.lng!,
-              stylist.baseLocationLat,
-              stylist.baseLocationLng
-            );
-          }
-
-          return { ...stylist, distance };
-        })
-        .filter((stylist) => {
-          if (stylist.distance === undefined) return false;
-
-          // For fixed/hybrid, check within search radius
-          if (stylist.operatingMode === "FIXED" || stylist.operatingMode === "HYBRID") {
-            return stylist.distance <= radius;
-          }
-
-          // For mobile, check within their service radius
-          if (stylist.operatingMode === "MOBILE" && stylist.serviceRadius) {
-            return stylist.distance <= stylist.serviceRadius;
-          }
-
-          return false;
-        });
-    }
-
-    // F4.4: Apply sorting
-    if (input.sortBy) {
-      stylistsWithDistance.sort((a, b) => {
-        switch (input.sortBy) {
-          case "price_asc": {
-            const aMinPrice = Math.min(...a.services.map((s) => Number(s.priceAmountCents)));
-            const bMinPrice = Math.min(...b.services.map((s) => Number(s.priceAmountCents)));
-            return aMinPrice - bMinPrice;
-          }
-          case "price_desc": {
-            const aMaxPrice = Math.max(...a.services.map((s) => Number(s.priceAmountCents)));
-            const bMaxPrice = Math.max(...b.services.map((s) => Number(s.priceAmountCents)));
-            return bMaxPrice - aMaxPrice;
-          }
-          case "distance": {
-            const aDist = a.distance ?? Infinity;
-            const bDist = b.distance ?? Infinity;
-            return aDist - bDist;
-          }
-          case "newest": {
-            return b.user.createdAt.getTime() - a.user.createdAt.getTime();
-          }
-          default:
-            return 0;
-        }
-      });
-    }
-
-    // Pagination
-    const total = stylistsWithDistance.length;
-    const skip = (input.page - 1) * input.pageSize;
-    const paginatedStylists = stylistsWithDistance.slice(skip, skip + input.pageSize);
+    const profilesById = new Map(profiles.map((profile) => [profile.id, profile]));
 
     // Transform response
-    const items = paginatedStylists.map((stylist) => ({
-      id: stylist.id,
-      userId: stylist.userId,
-      displayName: stylist.user.displayName,
-      avatarUrl: stylist.user.avatarUrl,
-      verificationStatus: stylist.user.verificationStatus,
-      bio: stylist.bio,
-      specialties: stylist.specialties,
-      operatingMode: stylist.operatingMode,
-      baseLocation: stylist.baseLocationLat
-        ? {
-            lat: stylist.baseLocationLat,
-            lng: stylist.baseLocationLng,
-            address: stylist.baseLocationAddress,
-          }
-        : null,
-      serviceRadius: stylist.serviceRadius,
-      distance: stylist.distance !== undefined ? Math.round(stylist.distance * 10) / 10 : null,
-      services: stylist.services.map((service) => ({
-        id: service.id,
-        name: service.name,
-        category: service.category,
-        description: service.description,
-        priceAmountCents: service.priceAmountCents.toString(),
-        estimatedDurationMin: service.estimatedDurationMin,
-      })),
-      // Include min/max price for easy display
-      priceRange: {
-        min: Math.min(...stylist.services.map((s) => Number(s.priceAmountCents))),
-        max: Math.max(...stylist.services.map((s) => Number(s.priceAmountCents))),
-      },
-    }));
+    const items = hits
+      .filter((hit) => profilesById.has(hit.stylistId))
+      .map((hit) => {
+        const stylist = profilesById.get(hit.stylistId)!;
+        const prices = stylist.services.map((s) => Number(s.priceAmountCents));
+
+        return {
+          id: stylist.id,
+          userId: stylist.userId,
+          displayName: stylist.user.displayName,
+          avatarUrl: stylist.user.avatarUrl,
+          verificationStatus: stylist.user.verificationStatus,
+          bio: stylist.bio,
+          specialties: stylist.specialties,
+          operatingMode: stylist.operatingMode,
+          baseLocation: stylist.baseLocationLat
+            ? {
+                lat: stylist.baseLocationLat,
+                lng: stylist.baseLocationLng,
+                address: stylist.baseLocationAddress,
+              }
+            : null,
+          serviceRadius: stylist.serviceRadius,
+          distance: hit.distanceKm !== null ? Math.round(hit.distanceKm * 10) / 10 : null,
+          reputationScore: Math.round(hit.reputationScore) / 100,
+          services: stylist.services.map((service) => ({
+            id: service.id,
+            name: service.name,
+            category: service.category,
+            description: service.description,
+            priceAmountCents: service.priceAmountCents.toString(),
+            estimatedDurationMin: service.estimatedDurationMin,
+          })),
+          // Include min/max price for easy display
+          priceRange: {
+            min: prices.length > 0 ? Math.min(...prices) : null,
+            max: prices.length > 0 ? Math.max(...prices) : null,
+          },
+        };
+      });
 
     return res.json({
       items,
       pagination: {
-        page: input.page,
+        page: input.cursor ? null : input.page,
         pageSize: input.pageSize,
         total,
         totalPages: Math.ceil(total / input.pageSize),
+        nextCursor,
+        hasMore: nextCursor !== null,
       },
       filters: {
-        query: input.query || null,
+        query: params.query || null,
         serviceCategory: input.serviceCategory || null,
         operatingMode: input.operatingMode || null,
         priceRange: input.minPrice !== undefined || input.maxPrice !== undefined
-          ? { min: input.minPrice || null, max: input.maxPrice || null }
+          ? { min: input.minPrice ?? null, max: input.maxPrice ?? null }
+          : null,
+        minReputation: input.minReputation ?? null,
+        availability: availability
+          ? { date: availability.date, from: availability.from, to: availability.to }
           : null,
-        availability: input.availability || null,
-        sortBy: input.sortBy || null,
+        sortBy: input.sortBy,
       },
     });
   } catch (error) {
@@ -454,6 +348,9 @@ router.get("/:id", async (req: Request, res: Response, next: NextFunction) => {
         description: service.description,
         priceAmountCents: service.priceAmountCents.toString(),
         estimatedDurationMin: service.estimatedDurationMin,
+        cancellationPolicy: summarizeCancellationPolicy(resolveCancellationPolicy(service, stylist)),
+        depositPercentage: service.depositPercentage,
+        balanceDueOn: service.depositPercentage ? service.balanceDueOn : null,
       })),
     };
 
@@ -614,6 +511,10 @@ router.get("/services", authenticate, async (req: AuthenticatedRequest, res: Res
         priceAmountCents: Number(s.priceAmountCents),
         estimatedDurationMin: s.estimatedDurationMin,
         isActive: s.isActive,
+        cancellationPolicy: s.cancellationPolicy,
+        cancellationTiers: s.cancellationTiers,
+        depositPercentage: s.depositPercentage,
+        balanceDueOn: s.balanceDueOn,
         createdAt: s.createdAt.toISOString(),
       })),
       total: profile.services.length,
@@ -633,6 +534,11 @@ router.post("/services", authenticate, async (req: AuthenticatedRequest, res: Re
     const userId = req.userId!;
     const input = createServiceSchema.parse(req.body);
 
+    const policyError = checkCancellationPolicyInput(input);
+    if (policyError) {
+      return next(createError("VALIDATION_ERROR", { message: policyError }));
+    }
+
     const profile = await prisma.stylistProfile.findFirst({
       where: { userId },
     });
@@ -650,6 +556,9 @@ router.post("/services", authenticate, async (req: AuthenticatedRequest, res: Re
         priceAmountCents: BigInt(input.priceAmountCents),
         estimatedDurationMin: input.estimatedDurationMin,
         isActive: input.isActive,
+        ...cancellationPolicyData(input),
+        depositPercentage: input.depositPercentage ?? null,
+        ...(input.balanceDueOn && { balanceDueOn: input.balanceDueOn }),
       },
     });
 
@@ -661,6 +570,10 @@ router.post("/services", authenticate, async (req: AuthenticatedRequest, res: Re
       priceAmountCents: Number(service.priceAmountCents),
       estimatedDurationMin: service.estimatedDurationMin,
       isActive: service.isActive,
+      cancellationPolicy: service.cancellationPolicy,
+      cancellationTiers: service.cancellationTiers,
+      depositPercentage: service.depositPercentage,
+      balanceDueOn: service.balanceDueOn,
       createdAt: service.createdAt.toISOString(),
     });
   } catch (error) {
@@ -682,6 +595,11 @@ router.put("/services/:id", authenticate, async (req: AuthenticatedRequest, res:
     const { id } = req.params;
     const input = updateServiceSchema.parse(req.body);
 
+    const policyError = checkCancellationPolicyInput(input);
+    if (policyError) {
+      return next(createError("VALIDATION_ERROR", { message: policyError }));
+    }
+
     // Verify ownership
     const profile = await prisma.stylistProfile.findFirst({
       where: { userId },
@@ -701,6 +619,9 @@ router.put("/services/:id", authenticate, async (req: AuthenticatedRequest, res:
         ...(input.priceAmountCents && { priceAmountCents: BigInt(input.priceAmountCents) }),
         ...(input.estimatedDurationMin && { estimatedDurationMin: input.estimatedDurationMin }),
         ...(input.isActive !== undefined && { isActive: input.isActive }),
+        ...cancellationPolicyData(input),
+        ...(input.depositPercentage !== undefined && { depositPercentage: input.depositPercentage }),
+        ...(input.balanceDueOn && { balanceDueOn: input.balanceDueOn }),
       },
     });
 
@@ -712,6 +633,10 @@ router.put("/services/:id", authenticate, async (req: AuthenticatedRequest, res:
       priceAmountCents: Number(service.priceAmountCents),
       estimatedDurationMin: service.estimatedDurationMin,
       isActive: service.isActive,
+      cancellationPolicy: service.cancellationPolicy,
+      cancellationTiers: service.cancellationTiers,
+      depositPercentage: service.depositPercentage,
+      balanceDueOn: service.balanceDueOn,
       updatedAt: service.updatedAt.toISOString(),
     });
   } catch (error) {
@@ -977,6 +902,9 @@ router.get("/profile", authenticate, async (req: AuthenticatedRequest, res: Resp
       specialties: profile.specialties,
       portfolioImages: profile.portfolioImages,
       isAcceptingBookings: profile.isAcceptingBookings,
+      cancellationPolicy: summarizeCancellationPolicy(
+        buildCancellationPolicy(profile.cancellationPolicy, profile.cancellationTiers)
+      ),
     });
   } catch (error) {
     logger.error("Error fetching profile", { error });
@@ -993,6 +921,11 @@ router.put("/profile", authenticate, async (req: AuthenticatedRequest, res: Resp
     const userId = req.userId!;
     const input = updateProfileSchema.parse(req.body);
 
+    const policyError = checkCancellationPolicyInput(input);
+    if (policyError) {
+      return next(createError("VALIDATION_ERROR", { message: policyError }));
+    }
+
     const profile = await prisma.stylistProfile.findFirst({
       where: { userId },
     });
@@ -1012,6 +945,7 @@ router.put("/profile", authenticate, async (req: AuthenticatedRequest, res: Resp
         ...(input.serviceRadius !== undefined && { serviceRadius: input.serviceRadius }),
         ...(input.specialties !== undefined && { specialties: input.specialties }),
         ...(input.isAcceptingBookings !== undefined && { isAcceptingBookings: input.isAcceptingBookings }),
+        ...cancellationPolicyData(input),
       },
       include: {
         user: {
@@ -1036,6 +970,9 @@ router.put("/profile", authenticate, async (req: AuthenticatedRequest, res: Resp
       specialties: updated.specialties,
       portfolioImages: updated.portfolioImages,
       isAcceptingBookings: updated.isAcceptingBookings,
+      cancellationPolicy: summarizeCancellationPolicy(
+        buildCancellationPolicy(updated.cancellationPolicy, updated.cancellationTiers)
+      ),
     });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -1065,7 +1002,7 @@ router.get("/earnings", authenticate, async (req: AuthenticatedRequest, res: Res
         stylistId: userId,
         status: "SETTLED",
       },
-      _sum: { stylistPayoutCents: true },
+      _sum: { stylistPayoutCents: true, feeDiscountCents: true },
       _count: true,
     });
 
@@ -1109,6 +1046,8 @@ router.get("/earnings", authenticate, async (req: AuthenticatedRequest, res: Res
       pendingEarnings: Number(pendingEarnings._sum.stylistPayoutCents || 0),
       pendingBookingsCount: pendingEarnings._count,
       completedBookingsCount: totalEarnings._count,
+      // Reward tier discounts come out of the platform fee, not the payout
+      customerRewardDiscounts: Number(totalEarnings._sum.feeDiscountCents || 0),
     });
   } catch (error) {
     logger.error("Error fetching earnings", { error });
@@ -1218,6 +1157,8 @@ router.get("/earnings/history", authenticate, async (req: AuthenticatedRequest,
         serviceName: p.serviceType,
         customerName: p.customer.displayName,
         amount: Number(p.stylistPayoutCents),
+        customerPaid: Number(p.quoteAmountCents),
+        rewardDiscount: Number(p.feeDiscountCents),
         status: p.status,
       })),
       pagination: {
@@ -0,0 +1,321 @@
+/**
+ * Two-Factor & Step-Up API Routes
+ * Optional TOTP / SMS two-factor enrollment and step-up re-verification
+ *
+ * Mounted on /api/v1/auth alongside the auth routes:
+ * GET    /2fa                  - 2FA status for the caller
+ * POST   /2fa/totp             - Start authenticator app enrollment
+ * POST   /2fa/sms              - Start SMS enrollment (texts a code)
+ * POST   /2fa/confirm          - Confirm enrollment with a code, returns recovery codes
+ * POST   /2fa/disable          - Turn 2FA off (not allowed for admins)
+ * POST   /2fa/recovery-codes   - Replace recovery codes
+ * PATCH  /2fa/threshold        - Set the transfer amount that needs step-up
+ * POST   /step-up/start        - Begin re-verification (texts a code to SMS users)
+ * POST   /step-up/verify       - Re-verify and get a single-use step-up token
+ *
+ * Sign-in with a second factor is POST /2fa/login in the auth routes.
+ */
+
+import { Router, type Response, type NextFunction } from "express";
+import { z } from "zod";
+import { authenticate, type AuthenticatedRequest } from "../middleware/auth";
+import { createError } from "../middleware/error-handler";
+import { rateLimiters } from "../middleware/rate-limiter";
+import { logger } from "../lib/logger";
+import {
+  STEP_UP_HEADER,
+  confirmEnrollment,
+  disableTwoFactor,
+  getTwoFactorStatus,
+  regenerateRecoveryCodes,
+  startSmsEnrollment,
+  startStepUp,
+  startTotpEnrollment,
+  updateTransferThreshold,
+  verifyStepUp,
+  type TwoFactorContext,
+  type TwoFactorResult,
+} from "../lib/two-factor";
+
+const router: ReturnType<typeof Router> = Router();
+
+const stepUpActionSchema = z.enum(["TRANSFER", "WITHDRAWAL", "LINKED_ACCOUNT", "GUARDIAN", "PASSWORD_CHANGE"]);
+
+const codeInputSchema = z
+  .object({
+    code: z.string().trim().regex(/^\d{6}$/, "Code must be 6 digits").optional(),
+    recoveryCode: z.string().trim().min(1).optional(),
+  })
+  .refine((input) => Boolean(input.code || input.recoveryCode), {
+    message: "Provide a code or a recovery code",
+  });
+
+const smsEnrollmentSchema = z.object({
+  phone: z.string().regex(/^\+[1-9]\d{7,14}$/, "Phone must be in E.164 format"),
+});
+
+const confirmSchema = z.object({
+  code: z.string().trim().regex(/^\d{6}$/, "Code must be 6 digits"),
+});
+
+const thresholdSchema = z.object({
+  // USDC in 6-decimal units, as a string
+  transferStepUpThreshold: z.string().regex(/^\d+$/, "Threshold must be a whole number of units"),
+});
+
+const startStepUpSchema = z.object({
+  action: stepUpActionSchema.optional(),
+});
+
+const verifyStepUpSchema = z
+  .object({
+    action: stepUpActionSchema,
+    code: z.string().trim().regex(/^\d{6}$/, "Code must be 6 digits").optional(),
+    recoveryCode: z.string().trim().min(1).optional(),
+    password: z.string().min(1).optional(),
+  })
+  .refine((input) => Boolean(input.code || input.recoveryCode || input.password), {
+    message: "Provide a code, a recovery code or your password",
+  });
+
+function getContext(req: AuthenticatedRequest): TwoFactorContext {
+  return {
+    ipAddress: req.ip,
+    userAgent: req.headers["user-agent"],
+  };
+}
+
+/**
+ * Map a failed two-factor result to an API error
+ */
+function toTwoFactorError(result: TwoFactorResult<unknown>) {
+  return createError(result.error || "INTERNAL_ERROR", result.details);
+}
+
+/**
+ * GET /api/v1/auth/2fa
+ */
+router.get("/2fa", authenticate, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const status = await getTwoFactorStatus(req.userId!);
+    return res.json(status);
+  } catch (error) {
+    logger.error("Error getting two-factor status", { error });
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
+/**
+ * POST /api/v1/auth/2fa/totp
+ * Returns the secret and otpauth:// URL for the authenticator app. Nothing
+ * is enabled until POST /2fa/confirm.
+ */
+router.post("/2fa/totp", authenticate, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const result = await startTotpEnrollment(req.userId!);
+    if (!result.success || !result.data) {
+      return next(toTwoFactorError(result));
+    }
+
+    return res.json(result.data);
+  } catch (error) {
+    logger.error("Error starting TOTP enrollment", { error });
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
+/**
+ * POST /api/v1/auth/2fa/sms
+ */
+router.post(
+  "/2fa/sms",
+  authenticate,
+  rateLimiters.twoFactor,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { phone } = smsEnrollmentSchema.parse(req.body);
+
+      const result = await startSmsEnrollment(req.userId!, phone, getContext(req));
+      if (!result.success || !result.data) {
+        return next(toTwoFactorError(result));
+      }
+
+      return res.json(result.data);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return next(createError("VALIDATION_ERROR", { details: error.errors }));
+      }
+      logger.error("Error starting SMS enrollment", { error });
+      return next(createError("INTERNAL_ERROR"));
+    }
+  }
+);
+
+/**
+ * POST /api/v1/auth/2fa/confirm
+ * Recovery codes are only ever returned here and from /2fa/recovery-codes.
+ * The current session isn't upgraded - admins sign in again with the code.
+ */
+router.post(
+  "/2fa/confirm",
+  authenticate,
+  rateLimiters.twoFactor,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { code } = confirmSchema.parse(req.body);
+
+      const result = await confirmEnrollment(req.userId!, code, getContext(req));
+      if (!result.success || !result.data) {
+        return next(toTwoFactorError(result));
+      }
+
+      return res.json(result.data);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return next(createError("VALIDATION_ERROR", { details: error.errors }));
+      }
+      logger.error("Error confirming two-factor enrollment", { error });
+      return next(createError("INTERNAL_ERROR"));
+    }
+  }
+);
+
+/**
+ * POST /api/v1/auth/2fa/disable
+ * SMS users call POST /step-up/start without an action first for a code
+ */
+router.post(
+  "/2fa/disable",
+  authenticate,
+  rateLimiters.twoFactor,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const input = codeInputSchema.parse(req.body);
+
+      const result = await disableTwoFactor(req.userId!, input, getContext(req));
+      if (!result.success || !result.data) {
+        return next(toTwoFactorError(result));
+      }
+
+      return res.json({ success: true });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return next(createError("VALIDATION_ERROR", { details: error.errors }));
+      }
+      logger.error("Error disabling two-factor", { error });
+      return next(createError("INTERNAL_ERROR"));
+    }
+  }
+);
+
+/**
+ * POST /api/v1/auth/2fa/recovery-codes
+ */
+router.post(
+  "/2fa/recovery-codes",
+  authenticate,
+  rateLimiters.twoFactor,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const input = codeInputSchema.parse(req.body);
+
+      const result = await regenerateRecoveryCodes(req.userId!, input, getContext(req));
+      if (!result.success || !result.data) {
+        return next(toTwoFactorError(result));
+      }
+
+      return res.json(result.data);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return next(createError("VALIDATION_ERROR", { details: error.errors }));
+      }
+      logger.error("Error regenerating recovery codes", { error });
+      return next(createError("INTERNAL_ERROR"));
+    }
+  }
+);
+
+/**
+ * PATCH /api/v1/auth/2fa/threshold
+ * Lowering is free; raising needs a TRANSFER step-up token
+ */
+router.patch("/2fa/threshold", authenticate, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const { transferStepUpThreshold } = thresholdSchema.parse(req.body);
+
+    const result = await updateTransferThreshold(
+      req.userId!,
+      BigInt(transferStepUpThreshold),
+      req.get(STEP_UP_HEADER)
+    );
+    if (!result.success || !result.data) {
+      return next(toTwoFactorError(result));
+    }
+
+    return res.json(result.data);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError("VALIDATION_ERROR", { details: error.errors }));
+    }
+    logger.error("Error updating transfer step-up threshold", { error });
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
+/**
+ * POST /api/v1/auth/step-up/start
+ */
+router.post(
+  "/step-up/start",
+  authenticate,
+  rateLimiters.twoFactor,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { action } = startStepUpSchema.parse(req.body);
+
+      const result = await startStepUp(req.userId!, action ?? null, getContext(req));
+      if (!result.success || !result.data) {
+        return next(toTwoFactorError(result));
+      }
+
+      return res.json(result.data);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return next(createError("VALIDATION_ERROR", { details: error.errors }));
+      }
+      logger.error("Error starting step-up", { error });
+      return next(createError("INTERNAL_ERROR"));
+    }
+  }
+);
+
+/**
+ * POST /api/v1/auth/step-up/verify
+ * The returned token goes in the X-Step-Up-Token header of the one request
+ * it was issued for
+ */
+router.post(
+  "/step-up/verify",
+  authenticate,
+  rateLimiters.twoFactor,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { action, ...input } = verifyStepUpSchema.parse(req.body);
+
+      const result = await verifyStepUp(req.userId!, action, input, getContext(req));
+      if (!result.success || !result.data) {
+        return next(toTwoFactorError(result));
+      }
+
+      return res.json(result.data);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return next(createError("VALIDATION_ERROR", { details: error.errors }));
+      }
+      logger.error("Error verifying step-up", { error });
+      return next(createError("INTERNAL_ERROR"));
+    }
+  }
+);
+
+export default router;
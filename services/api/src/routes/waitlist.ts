@@ -0,0 +1,166 @@
+/**
+ * Waitlist API Routes
+ *
+ * Customers join a stylist's waitlist for a service and date range. Slots
+ * freed by cancellations and declines are offered to them in order with a
+ * time limit; the first to accept gets a booking.
+ * Reference: docs/vlossom/07-booking-and-approval-flow.md
+ */
+
+import { Router, Response, NextFunction } from "express";
+import { authenticate, type AuthenticatedRequest } from "../middleware/auth";
+import { createError } from "../middleware/error-handler";
+import { logger } from "../lib/logger";
+import { z } from "zod";
+import {
+  joinWaitlist,
+  listWaitlistForUser,
+  leaveWaitlist,
+  acceptWaitlistOffer,
+  declineWaitlistOffer,
+  type WaitlistResult,
+} from "../lib/waitlist";
+
+const router: ReturnType<typeof Router> = Router();
+
+// ============================================================================
+// Validation Schemas
+// ============================================================================
+
+const joinWaitlistSchema = z.object({
+  stylistId: z.string().uuid(),
+  serviceId: z.string().uuid(),
+  earliestDate: z.string().datetime(),
+  latestDate: z.string().datetime(),
+  locationType: z.enum(["STYLIST_BASE", "CUSTOMER_HOME"]),
+  locationAddress: z.string().min(1).max(500),
+  locationLat: z.number().min(-90).max(90).optional(),
+  locationLng: z.number().min(-180).max(180).optional(),
+  notes: z.string().max(1000).optional(),
+});
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Map a failed service result to an API error
+ */
+function toApiError(result: WaitlistResult<unknown>) {
+  return createError(result.error || "INTERNAL_ERROR", result.details);
+}
+
+// ============================================================================
+// POST /api/v1/waitlist
+// Customer joins a stylist's waitlist
+// ============================================================================
+
+router.post("/", authenticate, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const input = joinWaitlistSchema.parse(req.body);
+    // customerId derived from JWT, not from request body
+    const result = await joinWaitlist({
+      ...input,
+      customerId: req.userId!,
+      earliestDate: new Date(input.earliestDate),
+      latestDate: new Date(input.latestDate),
+    });
+
+    if (!result.success) {
+      return next(toApiError(result));
+    }
+
+    return res.status(201).json({ success: true, data: result.data });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError("VALIDATION_ERROR", { details: error.errors }));
+    }
+    logger.error("Error joining waitlist", { error });
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
+// ============================================================================
+// GET /api/v1/waitlist
+// Active entries the user is part of (as customer or stylist), with live offers
+// ============================================================================
+
+router.get("/", authenticate, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const entries = await listWaitlistForUser(req.userId!);
+    return res.json({ success: true, data: { entries } });
+  } catch (error) {
+    logger.error("Error listing waitlist entries", { error });
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
+// ============================================================================
+// DELETE /api/v1/waitlist/:id
+// Customer leaves the waitlist
+// ============================================================================
+
+router.delete("/:id", authenticate, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const result = await leaveWaitlist(req.params.id, req.userId!);
+
+    if (!result.success) {
+      return next(toApiError(result));
+    }
+
+    return res.json({ success: true, data: result.data });
+  } catch (error) {
+    logger.error("Error leaving waitlist", { error });
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
+// ============================================================================
+// POST /api/v1/waitlist/offers/:offerId/accept
+// Customer takes an offered slot - the first to accept gets it
+// ============================================================================
+
+router.post(
+  "/offers/:offerId/accept",
+  authenticate,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const result = await acceptWaitlistOffer(req.params.offerId, req.userId!);
+
+      if (!result.success) {
+        return next(toApiError(result));
+      }
+
+      return res.status(201).json({ success: true, data: result.data });
+    } catch (error) {
+      logger.error("Error accepting waitlist offer", { error });
+      return next(createError("INTERNAL_ERROR"));
+    }
+  }
+);
+
+// ============================================================================
+// POST /api/v1/waitlist/offers/:offerId/decline
+// Customer passes on an offered slot and stays on the waitlist
+// ============================================================================
+
+router.post(
+  "/offers/:offerId/decline",
+  authenticate,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const result = await declineWaitlistOffer(req.params.offerId, req.userId!);
+
+      if (!result.success) {
+        return next(toApiError(result));
+      }
+
+      return res.json({ success: true, data: result.data });
+    } catch (error) {
+      logger.error("Error declining waitlist offer", { error });
+      return next(createError("INTERNAL_ERROR"));
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,256 @@
+/**
+ * Wallet Recovery API Routes
+ * Guardians and guardian-approved social recovery of smart wallets
+ *
+ * Mounted on /api/v1/wallet alongside the wallet routes:
+ * GET    /guardians                 - The caller's guardians
+ * POST   /guardians                 - Nominate a Vlossom user or an address (step-up)
+ * DELETE /guardians/:id             - Remove a guardian (step-up)
+ * GET    /recovery                  - Recoveries the caller requested, owns or guards
+ * POST   /recovery                  - Ask a lost wallet's guardians to rotate its owner
+ * GET    /recovery/:id              - One recovery
+ * POST   /recovery/:id/approve      - Guardian approval (sponsored UserOp)
+ * POST   /recovery/:id/execute      - Rotate the owner once the time-lock ends
+ * POST   /recovery/:id/cancel       - Owner cancels / requester withdraws / guardian declines
+ */
+
+import { Router, type Response, type NextFunction } from "express";
+import { z } from "zod";
+import { authenticate, type AuthenticatedRequest } from "../middleware/auth";
+import { createError } from "../middleware/error-handler";
+import { requireStepUp } from "../middleware/step-up";
+import { logger } from "../lib/logger";
+import {
+  addGuardian,
+  approveRecovery,
+  cancelRecovery,
+  executeRecovery,
+  getGuardians,
+  getRecovery,
+  listRecoveries,
+  removeGuardian,
+  requestRecovery,
+  type RecoveryActor,
+  type WalletRecoveryResult,
+} from "../lib/wallet-recovery";
+
+const router: ReturnType<typeof Router> = Router();
+
+const addGuardianSchema = z
+  .object({
+    guardianUserId: z.string().uuid().optional(),
+    address: z.string().regex(/^0x[a-fA-F0-9]{40}$/, "Invalid address").optional(),
+    label: z.string().trim().min(1).max(50).optional(),
+  })
+  .refine((input) => Boolean(input.guardianUserId) !== Boolean(input.address), {
+    message: "Provide either guardianUserId or address",
+  });
+
+const requestRecoverySchema = z.object({
+  walletAddress: z.string().regex(/^0x[a-fA-F0-9]{40}$/, "Invalid address"),
+  newOwner: z.string().regex(/^0x[a-fA-F0-9]{40}$/, "Invalid address").optional(),
+});
+
+/**
+ * Map a failed guardian or recovery result to an API error
+ */
+function toRecoveryError(result: WalletRecoveryResult<unknown>) {
+  return createError(result.error || "INTERNAL_ERROR", result.details);
+}
+
+function getActor(req: AuthenticatedRequest): RecoveryActor {
+  return {
+    userId: req.userId!,
+    ipAddress: req.ip,
+    userAgent: req.headers["user-agent"],
+  };
+}
+
+/**
+ * GET /api/wallet/guardians
+ */
+router.get("/guardians", authenticate, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const result = await getGuardians(req.userId!);
+    if (!result.success || !result.data) {
+      return next(toRecoveryError(result));
+    }
+
+    return res.json(result.data);
+  } catch (error) {
+    logger.error("Error getting wallet guardians", { error });
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
+/**
+ * POST /api/wallet/guardians
+ * Adds the guardian on chain from the caller's wallet. Needs a GUARDIAN
+ * step-up token, as does removing one.
+ */
+router.post(
+  "/guardians",
+  authenticate,
+  requireStepUp("GUARDIAN"),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const input = addGuardianSchema.parse(req.body);
+
+      const result = await addGuardian(req.userId!, input, getActor(req));
+      if (!result.success || !result.data) {
+        return next(toRecoveryError(result));
+      }
+
+      return res.status(201).json({ guardian: result.data });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return next(createError("VALIDATION_ERROR", { details: error.errors }));
+      }
+      logger.error("Error adding wallet guardian", { error });
+      return next(createError("INTERNAL_ERROR"));
+    }
+  }
+);
+
+/**
+ * DELETE /api/wallet/guardians/:id
+ */
+router.delete(
+  "/guardians/:id",
+  authenticate,
+  requireStepUp("GUARDIAN"),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const result = await removeGuardian(req.userId!, req.params.id, getActor(req));
+      if (!result.success || !result.data) {
+        return next(toRecoveryError(result));
+      }
+
+      return res.json({ success: true, txHash: result.data.txHash });
+    } catch (error) {
+      logger.error("Error removing wallet guardian", { error });
+      return next(createError("INTERNAL_ERROR"));
+    }
+  }
+);
+
+/**
+ * GET /api/wallet/recovery
+ */
+router.get("/recovery", authenticate, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const recoveries = await listRecoveries(req.userId!);
+    return res.json({ recoveries });
+  } catch (error) {
+    logger.error("Error listing wallet recoveries", { error });
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
+/**
+ * POST /api/wallet/recovery
+ * The caller (signed in with a new login) asks for a lost wallet back.
+ * newOwner defaults to the caller's own wallet.
+ */
+router.post("/recovery", authenticate, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const input = requestRecoverySchema.parse(req.body);
+
+    const result = await requestRecovery(req.userId!, input, getActor(req));
+    if (!result.success || !result.data) {
+      return next(toRecoveryError(result));
+    }
+
+    return res.status(201).json({ recovery: result.data });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return next(createError("VALIDATION_ERROR", { details: error.errors }));
+    }
+    logger.error("Error requesting wallet recovery", { error });
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
+/**
+ * GET /api/wallet/recovery/:id
+ */
+router.get("/recovery/:id", authenticate, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+  try {
+    const result = await getRecovery(req.params.id, req.userId!);
+    if (!result.success || !result.data) {
+      return next(toRecoveryError(result));
+    }
+
+    return res.json({ recovery: result.data });
+  } catch (error) {
+    logger.error("Error getting wallet recovery", { error });
+    return next(createError("INTERNAL_ERROR"));
+  }
+});
+
+/**
+ * POST /api/wallet/recovery/:id/approve
+ * Guardian approval, sent from the guardian's wallet
+ */
+router.post(
+  "/recovery/:id/approve",
+  authenticate,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const result = await approveRecovery(req.params.id, req.userId!, getActor(req));
+      if (!result.success || !result.data) {
+        return next(toRecoveryError(result));
+      }
+
+      return res.json(result.data);
+    } catch (error) {
+      logger.error("Error approving wallet recovery", { error });
+      return next(createError("INTERNAL_ERROR"));
+    }
+  }
+);
+
+/**
+ * POST /api/wallet/recovery/:id/execute
+ * The scheduler also executes ready recoveries - this is for not waiting on it
+ */
+router.post(
+  "/recovery/:id/execute",
+  authenticate,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const result = await executeRecovery(req.params.id, getActor(req));
+      if (!result.success || !result.data) {
+        return next(toRecoveryError(result));
+      }
+
+      return res.json(result.data);
+    } catch (error) {
+      logger.error("Error executing wallet recovery", { error });
+      return next(createError("INTERNAL_ERROR"));
+    }
+  }
+);
+
+/**
+ * POST /api/wallet/recovery/:id/cancel
+ */
+router.post(
+  "/recovery/:id/cancel",
+  authenticate,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const result = await cancelRecovery(req.params.id, req.userId!, getActor(req));
+      if (!result.success || !result.data) {
+        return next(toRecoveryError(result));
+      }
+
+      return res.json(result.data);
+    } catch (error) {
+      logger.error("Error cancelling wallet recovery", { error });
+      return next(createError("INTERNAL_ERROR"));
+    }
+  }
+);
+
+export default router;
@@ -9,6 +9,7 @@ import {
   type AuthenticatedRequest,
 } from "../middleware/auth";
 import { internalAuth } from "../middleware/internal-auth";
+import { checkStepUp, requireStepUp } from "../middleware/step-up";
 import { prisma } from "../lib/prisma";
 import { createError } from "../middleware/error-handler";
 import { logger } from "../lib/logger";
@@ -197,7 +198,8 @@ router.get("/transactions", authenticate, async (req: AuthenticatedRequest, res:
 
 /**
  * POST /api/wallet/transfer
- * Send a P2P USDC transfer
+ * Send a P2P USDC transfer. Amounts at or above the user's threshold need a
+ * TRANSFER step-up token.
  */
 router.post("/transfer", authenticate, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   try {
@@ -210,9 +212,15 @@ router.post("/transfer", authenticate, async (req: AuthenticatedRequest, res: Re
       return next(createError("WALLET_NOT_FOUND"));
     }
 
+    const amount = BigInt(input.amount);
+
+    const stepUpError = await checkStepUp(req, "TRANSFER", amount);
+    if (stepUpError) {
+      return next(stepUpError);
+    }
+
     // Check balance
     const balance = await getBalance(wallet.address);
-    const amount = BigInt(input.amount);
 
     if (balance.usdc < amount) {
       return next(createError("INSUFFICIENT_BALANCE", {
@@ -309,7 +317,7 @@ router.get("/request/:id", async (req: Request, res: Response, next: NextFunctio
 
 /**
  * POST /api/wallet/request/:id/pay
- * Fulfill a payment request
+ * Fulfill a payment request - step-up applies as for transfers
  */
 router.post("/request/:id/pay", authenticate, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   try {
@@ -329,6 +337,11 @@ router.post("/request/:id/pay", authenticate, async (req: AuthenticatedRequest,
       }));
     }
 
+    const stepUpError = await checkStepUp(req, "TRANSFER", request.amount);
+    if (stepUpError) {
+      return next(stepUpError);
+    }
+
     // Check payer has sufficient balance
     const wallet = await getWallet(userId);
 
@@ -500,7 +513,7 @@ router.post("/moonpay/deposit", authenticate, async (req: AuthenticatedRequest,
  * POST /api/wallet/moonpay/withdraw
  * Create a MoonPay withdrawal session (offramp)
  */
-router.post("/moonpay/withdraw", authenticate, async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+router.post("/moonpay/withdraw", authenticate, requireStepUp("WITHDRAWAL"), async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
   try {
     const userId = req.userId!;
     const { amount, fiatCurrency } = req.body;
@@ -0,0 +1,14 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  testMatch: ['**/?(*.)+(spec|test).ts'],
+  testPathIgnorePatterns: [
+    '/node_modules/',
+    // Needs a local Hardhat node (run separately with test:integration)
+    '\\.integration\\.test\\.ts$',
+  ],
+  moduleFileExtensions: ['ts', 'js', 'json', 'node'],
+  verbose: true,
+};
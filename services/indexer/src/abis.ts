@@ -0,0 +1,268 @@
+// Event ABIs for indexed contracts
+// Mirrors the Solidity definitions in contracts/contracts (events + the view calls the indexer needs)
+
+/**
+ * Escrow (contracts/core/Escrow.sol via IEscrow)
+ */
+export const ESCROW_ABI = [
+  {
+    type: "event",
+    name: "FundsLocked",
+    inputs: [
+      { name: "bookingId", type: "bytes32", indexed: true },
+      { name: "customer", type: "address", indexed: true },
+      { name: "amount", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    type: "event",
+    name: "FundsReleased",
+    inputs: [
+      { name: "bookingId", type: "bytes32", indexed: true },
+      { name: "stylist", type: "address", indexed: true },
+      { name: "stylistAmount", type: "uint256", indexed: false },
+      { name: "platformFeeAmount", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    type: "event",
+    name: "FundsRefunded",
+    inputs: [
+      { name: "bookingId", type: "bytes32", indexed: true },
+      { name: "recipient", type: "address", indexed: true },
+      { name: "amount", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    type: "event",
+    name: "FundsSettled",
+    inputs: [
+      { name: "bookingId", type: "bytes32", indexed: true },
+      { name: "customer", type: "address", indexed: true },
+      { name: "stylist", type: "address", indexed: true },
+      { name: "customerRefund", type: "uint256", indexed: false },
+      { name: "stylistAmount", type: "uint256", indexed: false },
+      { name: "propertyAmount", type: "uint256", indexed: false },
+      { name: "treasuryFee", type: "uint256", indexed: false },
+    ],
+  },
+] as const;
+
+/**
+ * ERC-4337 EntryPoint v0.7
+ * VlossomPaymaster emits no per-operation event; sponsorship is read from the
+ * EntryPoint's UserOperationEvent filtered by the paymaster address.
+ */
+export const ENTRY_POINT_ABI = [
+  {
+    type: "event",
+    name: "UserOperationEvent",
+    inputs: [
+      { name: "userOpHash", type: "bytes32", indexed: true },
+      { name: "sender", type: "address", indexed: true },
+      { name: "paymaster", type: "address", indexed: true },
+      { name: "nonce", type: "uint256", indexed: false },
+      { name: "success", type: "bool", indexed: false },
+      { name: "actualGasCost", type: "uint256", indexed: false },
+      { name: "actualGasUsed", type: "uint256", indexed: false },
+    ],
+  },
+] as const;
+
+/**
+ * ReputationRegistry (contracts/reputation/ReputationRegistry.sol)
+ */
+export const REPUTATION_REGISTRY_ABI = [
+  {
+    type: "event",
+    name: "ActorRegistered",
+    inputs: [
+      { name: "actor", type: "address", indexed: true },
+      { name: "actorType", type: "uint8", indexed: true },
+      { name: "timestamp", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    type: "event",
+    name: "ReputationEventRecorded",
+    inputs: [
+      { name: "actor", type: "address", indexed: true },
+      { name: "bookingId", type: "bytes32", indexed: true },
+      { name: "eventType", type: "uint8", indexed: true },
+      { name: "scoreImpact", type: "int256", indexed: false },
+      { name: "timestamp", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    type: "event",
+    name: "ScoreUpdated",
+    inputs: [
+      { name: "actor", type: "address", indexed: true },
+      { name: "newTotalScore", type: "uint256", indexed: false },
+      { name: "newTpsScore", type: "uint256", indexed: false },
+      { name: "newReliabilityScore", type: "uint256", indexed: false },
+      { name: "newFeedbackScore", type: "uint256", indexed: false },
+      { name: "timestamp", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    type: "event",
+    name: "VerificationStatusChanged",
+    inputs: [
+      { name: "actor", type: "address", indexed: true },
+      { name: "isVerified", type: "bool", indexed: false },
+      { name: "timestamp", type: "uint256", indexed: false },
+    ],
+  },
+] as const;
+
+/**
+ * PropertyRegistry (contracts/property/PropertyRegistry.sol)
+ * Status enum: 0 Pending, 1 Verified, 2 Suspended, 3 Revoked
+ */
+export const PROPERTY_REGISTRY_ABI = [
+  {
+    type: "event",
+    name: "PropertyRegistered",
+    inputs: [
+      { name: "propertyId", type: "bytes32", indexed: true },
+      { name: "owner", type: "address", indexed: true },
+      { name: "metadataHash", type: "bytes32", indexed: false },
+      { name: "timestamp", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    type: "event",
+    name: "PropertyTransferred",
+    inputs: [
+      { name: "propertyId", type: "bytes32", indexed: true },
+      { name: "previousOwner", type: "address", indexed: true },
+      { name: "newOwner", type: "address", indexed: true },
+      { name: "timestamp", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    type: "event",
+    name: "PropertyStatusChanged",
+    inputs: [
+      { name: "propertyId", type: "bytes32", indexed: true },
+      { name: "previousStatus", type: "uint8", indexed: true },
+      { name: "newStatus", type: "uint8", indexed: true },
+      { name: "timestamp", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    type: "event",
+    name: "SuspensionRequested",
+    inputs: [
+      { name: "propertyId", type: "bytes32", indexed: true },
+      { name: "reason", type: "string", indexed: false },
+      { name: "executeAfter", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    type: "event",
+    name: "SuspensionExecuted",
+    inputs: [
+      { name: "propertyId", type: "bytes32", indexed: true },
+      { name: "timestamp", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    type: "event",
+    name: "SuspensionCancelled",
+    inputs: [{ name: "propertyId", type: "bytes32", indexed: true }],
+  },
+  {
+    type: "event",
+    name: "DisputeRaised",
+    inputs: [
+      { name: "propertyId", type: "bytes32", indexed: true },
+      { name: "propertyOwner", type: "address", indexed: true },
+    ],
+  },
+  {
+    type: "event",
+    name: "DisputeResolved",
+    inputs: [
+      { name: "propertyId", type: "bytes32", indexed: true },
+      { name: "upheld", type: "bool", indexed: false },
+    ],
+  },
+] as const;
+
+/**
+ * VlossomGenesisPool / VlossomCommunityPool (contracts/defi/interfaces/IVlossomPool.sol)
+ */
+export const POOL_ABI = [
+  {
+    type: "event",
+    name: "Deposited",
+    inputs: [
+      { name: "user", type: "address", indexed: true },
+      { name: "amount", type: "uint256", indexed: false },
+      { name: "shares", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    type: "event",
+    name: "Withdrawn",
+    inputs: [
+      { name: "user", type: "address", indexed: true },
+      { name: "shares", type: "uint256", indexed: false },
+      { name: "amount", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    type: "event",
+    name: "YieldClaimed",
+    inputs: [
+      { name: "user", type: "address", indexed: true },
+      { name: "amount", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    type: "event",
+    name: "YieldDistributed",
+    inputs: [
+      { name: "amount", type: "uint256", indexed: false },
+      { name: "newSupplyIndex", type: "uint256", indexed: false },
+    ],
+  },
+  {
+    type: "function",
+    name: "getPoolInfo",
+    inputs: [],
+    outputs: [
+      {
+        name: "info",
+        type: "tuple",
+        components: [
+          { name: "totalDeposits", type: "uint256" },
+          { name: "totalShares", type: "uint256" },
+          { name: "supplyIndex", type: "uint256" },
+          { name: "lastUpdateTime", type: "uint256" },
+          { name: "isPaused", type: "bool" },
+        ],
+      },
+    ],
+    stateMutability: "view",
+  },
+  {
+    type: "function",
+    name: "getUserDeposit",
+    inputs: [{ name: "user", type: "address" }],
+    outputs: [
+      {
+        name: "deposit",
+        type: "tuple",
+        components: [
+          { name: "shares", type: "uint256" },
+          { name: "depositIndex", type: "uint256" },
+          { name: "pendingYield", type: "uint256" },
+        ],
+      },
+    ],
+    stateMutability: "view",
+  },
+] as const;
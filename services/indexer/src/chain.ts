@@ -0,0 +1,31 @@
+// Chain client for the indexer
+
+import { createPublicClient, http } from "viem";
+import { hardhat, baseSepolia } from "viem/chains";
+import { CHAIN_ID, RPC_URL } from "./config";
+
+/**
+ * Get the appropriate chain config
+ */
+function getChain() {
+  switch (CHAIN_ID) {
+    case 31337:
+      return hardhat;
+    case 84532:
+      return baseSepolia;
+    default:
+      return hardhat;
+  }
+}
+
+/**
+ * Create the viem client
+ */
+export function createClient() {
+  return createPublicClient({
+    chain: getChain(),
+    transport: http(RPC_URL),
+  });
+}
+
+export type ChainClient = ReturnType<typeof createClient>;
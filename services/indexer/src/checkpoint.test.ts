@@ -0,0 +1,131 @@
+/**
+ * Checkpoint and Re-org Tests
+ */
+
+const mockTx = {
+  indexedEvent: { findMany: jest.fn(), deleteMany: jest.fn() },
+  indexerBlock: { deleteMany: jest.fn() },
+  indexerDeadLetter: { updateMany: jest.fn() },
+  indexerCheckpoint: { update: jest.fn(), deleteMany: jest.fn() },
+  booking: { updateMany: jest.fn() },
+  yieldClaim: { deleteMany: jest.fn() },
+};
+
+jest.mock("./db", () => ({
+  prisma: {
+    indexerBlock: { findMany: jest.fn() },
+    $transaction: jest.fn((fn: (tx: typeof mockTx) => Promise<unknown>) => fn(mockTx)),
+  },
+}));
+
+import { prisma } from "./db";
+import type { ChainClient } from "./chain";
+import { findReorgAncestor, rewindTo } from "./checkpoint";
+
+/**
+ * Chain client whose blocks have the given hashes; missing blocks throw
+ * like a restarted Hardhat node
+ */
+function makeClient(hashes: Record<number, string>): ChainClient {
+  return {
+    getBlock: jest.fn(async ({ blockNumber }: { blockNumber: bigint }) => {
+      const hash = hashes[Number(blockNumber)];
+      if (!hash) throw new Error("Block not found");
+      return { hash };
+    }),
+  } as unknown as ChainClient;
+}
+
+describe("findReorgAncestor", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  it("should return null when the checkpoint is still canonical", async () => {
+    const client = makeClient({ 10: "0xa10" });
+
+    const ancestor = await findReorgAncestor(client, { blockNumber: 10n, blockHash: "0xa10" });
+
+    expect(ancestor).toBeNull();
+    expect(prisma.indexerBlock.findMany).not.toHaveBeenCalled();
+  });
+
+  it("should return the newest stored block that still matches", async () => {
+    const client = makeClient({ 8: "0xa8", 9: "0xb9", 10: "0xb10" });
+    (prisma.indexerBlock.findMany as jest.Mock).mockResolvedValue([
+      { number: 9n, hash: "0xa9" },
+      { number: 8n, hash: "0xa8" },
+      { number: 7n, hash: "0xa7" },
+    ]);
+
+    const ancestor = await findReorgAncestor(client, { blockNumber: 10n, blockHash: "0xa10" });
+
+    expect(ancestor).toEqual({ blockNumber: 8n, blockHash: "0xa8" });
+  });
+
+  it("should fall back to before START_BLOCK when no stored block matches", async () => {
+    // Hardhat node restarted - none of the old blocks exist
+    const client = makeClient({});
+    (prisma.indexerBlock.findMany as jest.Mock).mockResolvedValue([{ number: 9n, hash: "0xa9" }]);
+
+    const ancestor = await findReorgAncestor(client, { blockNumber: 10n, blockHash: "0xa10" });
+
+    expect(ancestor).toEqual({ blockNumber: -1n, blockHash: null });
+  });
+});
+
+describe("rewindTo", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  it("should undo orphaned events newest first before removing their markers", async () => {
+    const calls: string[] = [];
+    mockTx.indexedEvent.findMany.mockResolvedValue([
+      {
+        undo: [
+          { model: "booking", id: "booking-1", action: "restore", data: { escrowStatus: "LOCKED" } },
+          { model: "yieldClaim", id: "claim-1", action: "delete" },
+        ],
+      },
+      { undo: [{ model: "booking", id: "booking-1", action: "restore", data: { escrowStatus: "PENDING" } }] },
+    ]);
+    mockTx.booking.updateMany.mockImplementation(({ data }) => {
+      calls.push(`booking ${data.escrowStatus}`);
+    });
+    mockTx.yieldClaim.deleteMany.mockImplementation(({ where }) => {
+      calls.push(`delete ${where.id}`);
+    });
+    mockTx.indexedEvent.deleteMany.mockImplementation(() => {
+      calls.push("markers");
+    });
+
+    await rewindTo({ blockNumber: 8n, blockHash: "0xa8" });
+
+    expect(mockTx.indexedEvent.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { chainId: 31337, blockNumber: { gt: 8n } } })
+    );
+    expect(calls).toEqual(["delete claim-1", "booking LOCKED", "booking PENDING", "markers"]);
+    expect(mockTx.indexerBlock.deleteMany).toHaveBeenCalledWith({
+      where: { chainId: 31337, number: { gt: 8n } },
+    });
+    expect(mockTx.indexerDeadLetter.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({ data: { status: "ORPHANED", nextRetryAt: null } })
+    );
+    expect(mockTx.indexerCheckpoint.update).toHaveBeenCalledWith({
+      where: { chainId: 31337 },
+      data: { blockNumber: 8n, blockHash: "0xa8" },
+    });
+  });
+
+  it("should drop the checkpoint when rewinding past every stored block", async () => {
+    mockTx.indexedEvent.findMany.mockResolvedValue([]);
+
+    await rewindTo({ blockNumber: -1n, blockHash: null });
+
+    expect(mockTx.indexerCheckpoint.deleteMany).toHaveBeenCalledWith({ where: { chainId: 31337 } });
+    expect(mockTx.indexerCheckpoint.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,164 @@
+// Block checkpoint persistence and re-org detection
+
+import type { Hash } from "viem";
+import { IndexerDeadLetterStatus } from "@prisma/client";
+import { CHAIN_ID, REORG_DEPTH, START_BLOCK } from "./config";
+import { prisma } from "./db";
+import type { ChainClient } from "./chain";
+import { applyUndo, type UndoOp } from "./undo";
+
+// Interactive transaction timeout - a deep re-org can undo many events
+const REWIND_TX_TIMEOUT_MS = 60_000;
+
+export interface Checkpoint {
+  blockNumber: bigint;
+  blockHash: string;
+}
+
+/**
+ * Block to rewind to after a re-org. blockHash is null when no stored block
+ * matched and indexing restarts from START_BLOCK.
+ */
+export interface ReorgAncestor {
+  blockNumber: bigint;
+  blockHash: string | null;
+}
+
+/**
+ * Load the last processed block for this chain
+ */
+export async function getCheckpoint(): Promise<Checkpoint | null> {
+  return prisma.indexerCheckpoint.findUnique({
+    where: { chainId: CHAIN_ID },
+    select: { blockNumber: true, blockHash: true },
+  });
+}
+
+/**
+ * Persist progress after a block range has been processed.
+ * The block hash is kept for re-org detection; hashes older than
+ * REORG_DEPTH blocks are pruned.
+ */
+export async function saveCheckpoint(blockNumber: bigint, blockHash: Hash): Promise<void> {
+  await prisma.$transaction([
+    prisma.indexerCheckpoint.upsert({
+      where: { chainId: CHAIN_ID },
+      create: { chainId: CHAIN_ID, blockNumber, blockHash },
+      update: { blockNumber, blockHash },
+    }),
+    prisma.indexerBlock.upsert({
+      where: { chainId_number: { chainId: CHAIN_ID, number: blockNumber } },
+      create: { chainId: CHAIN_ID, number: blockNumber, hash: blockHash },
+      update: { hash: blockHash },
+    }),
+    prisma.indexerBlock.deleteMany({
+      where: { chainId: CHAIN_ID, number: { lt: blockNumber - REORG_DEPTH } },
+    }),
+  ]);
+}
+
+/**
+ * Fetch a block hash, or null if the chain no longer has that block
+ * (e.g. the local Hardhat node was restarted)
+ */
+async function getChainBlockHash(client: ChainClient, blockNumber: bigint): Promise<Hash | null> {
+  try {
+    const block = await client.getBlock({ blockNumber });
+    return block.hash;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Compare the checkpoint hash with the chain.
+ *
+ * Returns null when the checkpoint is still canonical. Otherwise walks back
+ * through the stored block hashes and returns the newest block that still
+ * matches - the common ancestor to rewind to. If none match, returns
+ * START_BLOCK - 1 so the whole range is indexed again.
+ */
+export async function findReorgAncestor(
+  client: ChainClient,
+  checkpoint: Checkpoint
+): Promise<ReorgAncestor | null> {
+  const currentHash = await getChainBlockHash(client, checkpoint.blockNumber);
+
+  if (currentHash === checkpoint.blockHash) {
+    return null;
+  }
+
+  console.warn(
+    `[Indexer] Re-org detected at block ${checkpoint.blockNumber}: ` +
+      `stored ${checkpoint.blockHash}, chain ${currentHash ?? "missing"}`
+  );
+
+  const storedBlocks = await prisma.indexerBlock.findMany({
+    where: { chainId: CHAIN_ID, number: { lt: checkpoint.blockNumber } },
+    orderBy: { number: "desc" },
+  });
+
+  for (const stored of storedBlocks) {
+    const hash = await getChainBlockHash(client, stored.number);
+    if (hash === stored.hash) {
+      return { blockNumber: stored.number, blockHash: stored.hash };
+    }
+  }
+
+  return { blockNumber: START_BLOCK - 1n, blockHash: null };
+}
+
+/**
+ * Roll indexer state back to the common ancestor.
+ *
+ * Events above the ancestor are undone newest first from their stored undo
+ * journals, then their markers are removed so those blocks are handled again
+ * from the canonical chain. Pending dead letters from the orphaned blocks are
+ * retired.
+ */
+export async function rewindTo(ancestor: ReorgAncestor): Promise<void> {
+  const { blockNumber, blockHash } = ancestor;
+
+  const undone = await prisma.$transaction(
+    async (tx) => {
+      const orphaned = await tx.indexedEvent.findMany({
+        where: { chainId: CHAIN_ID, blockNumber: { gt: blockNumber } },
+        select: { undo: true },
+        orderBy: [{ createdAt: "desc" }, { blockNumber: "desc" }, { logIndex: "desc" }],
+      });
+
+      for (const event of orphaned) {
+        await applyUndo(tx, event.undo as unknown as UndoOp[]);
+      }
+
+      await tx.indexedEvent.deleteMany({
+        where: { chainId: CHAIN_ID, blockNumber: { gt: blockNumber } },
+      });
+      await tx.indexerBlock.deleteMany({
+        where: { chainId: CHAIN_ID, number: { gt: blockNumber } },
+      });
+      await tx.indexerDeadLetter.updateMany({
+        where: {
+          chainId: CHAIN_ID,
+          blockNumber: { gt: blockNumber },
+          status: IndexerDeadLetterStatus.PENDING,
+        },
+        data: { status: IndexerDeadLetterStatus.ORPHANED, nextRetryAt: null },
+      });
+
+      if (blockHash) {
+        await tx.indexerCheckpoint.update({
+          where: { chainId: CHAIN_ID },
+          data: { blockNumber, blockHash },
+        });
+      } else {
+        await tx.indexerCheckpoint.deleteMany({ where: { chainId: CHAIN_ID } });
+      }
+
+      return orphaned.length;
+    },
+    { timeout: REWIND_TX_TIMEOUT_MS }
+  );
+
+  console.log(`[Indexer] Rewound to block ${blockNumber}, undid ${undone} events`);
+}
@@ -0,0 +1,51 @@
+// Indexer configuration from environment
+
+import { type Address } from "viem";
+
+/**
+ * Parse an optional contract address from the environment
+ */
+function optionalAddress(value: string | undefined): Address | undefined {
+  return value ? (value as Address) : undefined;
+}
+
+/**
+ * Parse a comma-separated address list from the environment
+ */
+function addressList(value: string | undefined): Address[] {
+  if (!value) return [];
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean) as Address[];
+}
+
+export const RPC_URL = process.env.RPC_URL || "http://127.0.0.1:8545";
+export const CHAIN_ID = parseInt(process.env.CHAIN_ID || "31337", 10);
+export const POLL_INTERVAL_MS = parseInt(process.env.POLL_INTERVAL_MS || "3000", 10);
+
+// Contract addresses - sources without an address are skipped
+export const ESCROW_ADDRESS = optionalAddress(process.env.ESCROW_ADDRESS);
+export const PAYMASTER_ADDRESS = optionalAddress(process.env.PAYMASTER_ADDRESS);
+export const ENTRY_POINT_ADDRESS = optionalAddress(process.env.ENTRY_POINT_ADDRESS);
+export const REPUTATION_REGISTRY_ADDRESS = optionalAddress(process.env.REPUTATION_REGISTRY_ADDRESS);
+export const PROPERTY_REGISTRY_ADDRESS = optionalAddress(process.env.PROPERTY_REGISTRY_ADDRESS);
+
+// Extra pool addresses to index on top of the LiquidityPool rows in the database
+export const POOL_ADDRESSES = addressList(process.env.POOL_ADDRESSES);
+
+// Backfill starts here when no checkpoint exists yet
+export const START_BLOCK = BigInt(process.env.START_BLOCK || "0");
+
+// Blocks behind head before a block is indexed (0 on the local Hardhat node)
+export const CONFIRMATIONS = BigInt(process.env.CONFIRMATIONS || (CHAIN_ID === 31337 ? "0" : "3"));
+
+// Max block range per eth_getLogs call
+export const BATCH_SIZE = BigInt(process.env.BATCH_SIZE || "2000");
+
+// How many recent block hashes are kept for re-org detection
+export const REORG_DEPTH = BigInt(process.env.REORG_DEPTH || "64");
+
+// Dead-letter retry policy
+export const DEAD_LETTER_MAX_ATTEMPTS = parseInt(process.env.DEAD_LETTER_MAX_ATTEMPTS || "5", 10);
+export const DEAD_LETTER_BASE_DELAY_MS = parseInt(process.env.DEAD_LETTER_BASE_DELAY_MS || "30000", 10);
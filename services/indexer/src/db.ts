@@ -0,0 +1,5 @@
+// Shared Prisma client for the indexer
+
+import { PrismaClient } from "@prisma/client";
+
+export const prisma = new PrismaClient();
@@ -0,0 +1,126 @@
+// Dead-letter table for events whose handler failed
+
+import { IndexerDeadLetterStatus } from "@prisma/client";
+import type { Address, Hash, Hex } from "viem";
+import { CHAIN_ID, DEAD_LETTER_BASE_DELAY_MS, DEAD_LETTER_MAX_ATTEMPTS } from "./config";
+import { prisma } from "./db";
+import { processLog } from "./processor";
+import { findSourceForAddress } from "./handlers";
+import type { ChainClient } from "./chain";
+import type { EventSource, IndexedLog } from "./types";
+
+// Max dead letters retried per poll
+const RETRY_BATCH_SIZE = 50;
+
+/**
+ * Exponential backoff: base, 2x base, 4x base, ...
+ */
+function nextRetryAt(attempts: number): Date {
+  return new Date(Date.now() + DEAD_LETTER_BASE_DELAY_MS * 2 ** (attempts - 1));
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Store a failed event. Re-recording the same log (e.g. replayed after a
+ * re-org) resets it to PENDING.
+ */
+export async function recordDeadLetter(log: IndexedLog, eventName: string, error: unknown): Promise<void> {
+  const fields = {
+    blockNumber: log.blockNumber,
+    blockHash: log.blockHash,
+    contract: log.address,
+    eventName,
+    topics: log.topics,
+    data: log.data,
+    errorMessage: errorMessage(error),
+    attempts: 1,
+    nextRetryAt: nextRetryAt(1),
+    status: IndexerDeadLetterStatus.PENDING,
+    resolvedAt: null,
+  };
+
+  await prisma.indexerDeadLetter.upsert({
+    where: {
+      chainId_txHash_logIndex: { chainId: CHAIN_ID, txHash: log.transactionHash, logIndex: log.logIndex },
+    },
+    create: { chainId: CHAIN_ID, txHash: log.transactionHash, logIndex: log.logIndex, ...fields },
+    update: fields,
+  });
+}
+
+/**
+ * Retry dead letters that are due. Each success is marked RESOLVED; after
+ * DEAD_LETTER_MAX_ATTEMPTS failures a letter is ABANDONED for manual review.
+ */
+export async function retryDeadLetters(
+  client: ChainClient,
+  sources: EventSource[]
+): Promise<{ resolved: number; abandoned: number }> {
+  const due = await prisma.indexerDeadLetter.findMany({
+    where: {
+      chainId: CHAIN_ID,
+      status: IndexerDeadLetterStatus.PENDING,
+      nextRetryAt: { lte: new Date() },
+    },
+    orderBy: [{ blockNumber: "asc" }, { logIndex: "asc" }],
+    take: RETRY_BATCH_SIZE,
+  });
+
+  let resolved = 0;
+  let abandoned = 0;
+
+  for (const letter of due) {
+    const source = findSourceForAddress(sources, letter.contract);
+
+    const log: IndexedLog = {
+      address: letter.contract as Address,
+      topics: letter.topics as Hex[],
+      data: letter.data as Hex,
+      blockNumber: letter.blockNumber,
+      blockHash: letter.blockHash as Hash,
+      transactionHash: letter.txHash as Hash,
+      logIndex: letter.logIndex,
+    };
+
+    try {
+      if (!source) {
+        throw new Error(`No event source configured for ${letter.contract}`);
+      }
+
+      await processLog(client, source, log);
+
+      await prisma.indexerDeadLetter.update({
+        where: { id: letter.id },
+        data: { status: IndexerDeadLetterStatus.RESOLVED, resolvedAt: new Date(), nextRetryAt: null },
+      });
+      resolved++;
+      console.log(`[Indexer] Dead letter ${letter.id} (${letter.eventName}) resolved on retry`);
+    } catch (error) {
+      const attempts = letter.attempts + 1;
+      const exhausted = attempts >= DEAD_LETTER_MAX_ATTEMPTS;
+
+      await prisma.indexerDeadLetter.update({
+        where: { id: letter.id },
+        data: {
+          attempts,
+          errorMessage: errorMessage(error),
+          status: exhausted ? IndexerDeadLetterStatus.ABANDONED : IndexerDeadLetterStatus.PENDING,
+          nextRetryAt: exhausted ? null : nextRetryAt(attempts),
+        },
+      });
+
+      if (exhausted) {
+        abandoned++;
+        console.error(
+          `[Indexer] Dead letter ${letter.id} (${letter.eventName}) abandoned after ${attempts} attempts:`,
+          errorMessage(error)
+        );
+      }
+    }
+  }
+
+  return { resolved, abandoned };
+}
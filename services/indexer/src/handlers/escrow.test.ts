@@ -0,0 +1,167 @@
+/**
+ * Escrow Handler Tests
+ */
+
+import { keccak256, toBytes, type Hash, type Hex } from "viem";
+import type { Prisma } from "@prisma/client";
+import type { ChainClient } from "../chain";
+import type { HandlerContext, IndexedLog } from "../types";
+import { UndoJournal } from "../undo";
+import { escrowHandlers } from "./escrow";
+
+const CUSTOMER = "0x00000000000000000000000000000000000000cc";
+const OWNER = "0x00000000000000000000000000000000000000dd";
+
+function makeDb() {
+  return {
+    booking: {
+      findFirst: jest.fn(),
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    chairRentalRequest: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    wallet: { findFirst: jest.fn() },
+    user: { findFirst: jest.fn() },
+  };
+}
+
+function makeContext(db: ReturnType<typeof makeDb>): HandlerContext {
+  const tx = db as unknown as Prisma.TransactionClient;
+  return {
+    db: tx,
+    client: {} as ChainClient,
+    log: { blockNumber: 5n, transactionHash: `0x${"c".repeat(64)}` as Hash } as IndexedLog,
+    undo: new UndoJournal(tx),
+  };
+}
+
+describe("escrowHandlers", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  it("should set the status of a linked booking and journal the old one", async () => {
+    const db = makeDb();
+    const escrowId = keccak256(toBytes("booking-1"));
+    db.booking.findFirst.mockResolvedValue({ id: "booking-1", escrowId });
+    db.booking.findUnique.mockResolvedValue({ escrowStatus: "LOCKED" });
+    const ctx = makeContext(db);
+
+    await escrowHandlers.FundsReleased({ eventName: "FundsReleased", args: { bookingId: escrowId } }, ctx);
+
+    expect(db.booking.update).toHaveBeenCalledWith({
+      where: { id: "booking-1" },
+      data: { escrowStatus: "RELEASED" },
+    });
+    expect(ctx.undo.ops).toEqual([
+      { model: "booking", id: "booking-1", action: "restore", data: { escrowStatus: "LOCKED" } },
+    ]);
+  });
+
+  it("should set the balance leg status when the key is the balance escrow", async () => {
+    const db = makeDb();
+    const balanceEscrowId = keccak256(toBytes("booking-1:balance"));
+    db.booking.findFirst.mockResolvedValue({ id: "booking-1", escrowId: keccak256(toBytes("booking-1")) });
+    db.booking.findUnique.mockResolvedValue({ balanceEscrowStatus: null });
+    const ctx = makeContext(db);
+
+    await escrowHandlers.FundsRefunded({ eventName: "FundsRefunded", args: { bookingId: balanceEscrowId } }, ctx);
+
+    expect(db.booking.update).toHaveBeenCalledWith({
+      where: { id: "booking-1" },
+      data: { balanceEscrowStatus: "REFUNDED" },
+    });
+    expect(ctx.undo.ops[0]).toMatchObject({ action: "restore", data: { balanceEscrowStatus: null } });
+  });
+
+  it("should link an unlinked booking by hashing its id on FundsLocked", async () => {
+    const db = makeDb();
+    const escrowId = keccak256(toBytes("booking-2"));
+    db.booking.findFirst.mockResolvedValue(null);
+    db.wallet.findFirst.mockResolvedValue({ userId: "customer-1" });
+    db.booking.findMany.mockResolvedValueOnce([{ id: "booking-1" }, { id: "booking-2" }]);
+    db.booking.findUnique.mockResolvedValue({ escrowStatus: null });
+    const ctx = makeContext(db);
+
+    await escrowHandlers.FundsLocked(
+      { eventName: "FundsLocked", args: { bookingId: escrowId, customer: CUSTOMER } },
+      ctx
+    );
+
+    expect(db.booking.update).toHaveBeenNthCalledWith(1, { where: { id: "booking-2" }, data: { escrowId } });
+    expect(db.booking.update).toHaveBeenNthCalledWith(2, {
+      where: { id: "booking-2" },
+      data: { escrowStatus: "LOCKED" },
+    });
+  });
+
+  it("should set a chair rental's status when the key is a rental escrow", async () => {
+    const db = makeDb();
+    const escrowId = keccak256(toBytes("rental:rental-1"));
+    db.booking.findFirst.mockResolvedValue(null);
+    db.booking.findMany.mockResolvedValue([]);
+    db.wallet.findFirst.mockResolvedValue({ userId: "stylist-1" });
+    db.chairRentalRequest.findMany.mockResolvedValue([{ id: "rental-2" }, { id: "rental-1" }]);
+    db.chairRentalRequest.findUnique.mockResolvedValue({ escrowStatus: null });
+    const ctx = makeContext(db);
+
+    await escrowHandlers.FundsLocked(
+      { eventName: "FundsLocked", args: { bookingId: escrowId, customer: CUSTOMER } },
+      ctx
+    );
+
+    expect(db.booking.update).not.toHaveBeenCalled();
+    expect(db.chairRentalRequest.update).toHaveBeenCalledWith({
+      where: { id: "rental-1" },
+      data: { escrowStatus: "LOCKED" },
+    });
+    expect(ctx.undo.ops).toEqual([
+      { model: "chairRentalRequest", id: "rental-1", action: "restore", data: { escrowStatus: null } },
+    ]);
+  });
+
+  it("should find a released rental through the property owner it paid", async () => {
+    const db = makeDb();
+    const escrowId = keccak256(toBytes("rental:rental-1"));
+    db.booking.findFirst.mockResolvedValue(null);
+    db.wallet.findFirst.mockResolvedValue({ userId: "owner-1" });
+    db.chairRentalRequest.findMany.mockResolvedValue([{ id: "rental-1" }]);
+    db.chairRentalRequest.findUnique.mockResolvedValue({ escrowStatus: "LOCKED" });
+    const ctx = makeContext(db);
+
+    await escrowHandlers.FundsReleased(
+      { eventName: "FundsReleased", args: { bookingId: escrowId, stylist: OWNER } },
+      ctx
+    );
+
+    expect(db.chairRentalRequest.findMany).toHaveBeenCalledWith({
+      where: {
+        totalAmountCents: { gt: 0 },
+        OR: [{ stylistId: "owner-1" }, { property: { ownerId: "owner-1" } }],
+      },
+      select: { id: true },
+    });
+    expect(db.chairRentalRequest.update).toHaveBeenCalledWith({
+      where: { id: "rental-1" },
+      data: { escrowStatus: "RELEASED" },
+    });
+  });
+
+  it("should throw when no booking matches so the event is dead-lettered", async () => {
+    const db = makeDb();
+    db.booking.findFirst.mockResolvedValue(null);
+    const ctx = makeContext(db);
+    const escrowId: Hex = `0x${"1".repeat(64)}`;
+
+    await expect(
+      escrowHandlers.FundsSettled({ eventName: "FundsSettled", args: { bookingId: escrowId, customer: CUSTOMER } }, ctx)
+    ).rejects.toThrow(`No booking found for escrow id ${escrowId}`);
+    expect(db.booking.update).not.toHaveBeenCalled();
+    expect(db.chairRentalRequest.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,90 @@
+// Escrow event handlers - mirror escrow state onto bookings and chair rentals
+
+import { EscrowStatus } from "@prisma/client";
+import type { Address, Hex } from "viem";
+import type { DecodedEvent, EventHandler, HandlerContext } from "../types";
+import { findBookingByEscrowId, findRentalByEscrowId } from "./lookup";
+
+/**
+ * Set the booking's escrowStatus (or balanceEscrowStatus for the balance
+ * leg of a deposit booking), falling back to a chair rental paid by or to
+ * `rentalParty`. Throws when neither can be found so the event is
+ * dead-lettered and retried once the API has linked it.
+ */
+async function setEscrowStatus(
+  ctx: HandlerContext,
+  escrowId: Hex,
+  status: EscrowStatus,
+  rentalParty: Address,
+  customerAddress?: Address
+): Promise<void> {
+  const match = await findBookingByEscrowId(ctx.db, escrowId, customerAddress);
+
+  if (!match) {
+    const rentalId = await findRentalByEscrowId(ctx.db, escrowId, rentalParty);
+    if (!rentalId) {
+      throw new Error(`No booking found for escrow id ${escrowId}`);
+    }
+
+    await ctx.undo.before("chairRentalRequest", rentalId, ["escrowStatus"]);
+    await ctx.db.chairRentalRequest.update({
+      where: { id: rentalId },
+      data: { escrowStatus: status },
+    });
+
+    console.log(`[Indexer] Chair rental ${rentalId} escrow ${status} (block ${ctx.log.blockNumber})`);
+    return;
+  }
+
+  const field = match.isBalanceLeg ? "balanceEscrowStatus" : "escrowStatus";
+  await ctx.undo.before("booking", match.bookingId, [field]);
+
+  await ctx.db.booking.update({
+    where: { id: match.bookingId },
+    data: match.isBalanceLeg ? { balanceEscrowStatus: status } : { escrowStatus: status },
+  });
+
+  console.log(
+    `[Indexer] Booking ${match.bookingId} ${match.isBalanceLeg ? "balance escrow" : "escrow"} ${status} (block ${ctx.log.blockNumber})`
+  );
+}
+
+/**
+ * FundsLocked - customer locked payment for a booking
+ */
+const handleFundsLocked: EventHandler = async (event: DecodedEvent, ctx) => {
+  const { bookingId, customer } = event.args as { bookingId: Hex; customer: Address };
+  await setEscrowStatus(ctx, bookingId, EscrowStatus.LOCKED, customer, customer);
+};
+
+/**
+ * FundsReleased - stylist and treasury paid after completion (the property
+ * owner takes the stylist slot for a chair rental)
+ */
+const handleFundsReleased: EventHandler = async (event, ctx) => {
+  const { bookingId, stylist } = event.args as { bookingId: Hex; stylist: Address };
+  await setEscrowStatus(ctx, bookingId, EscrowStatus.RELEASED, stylist);
+};
+
+/**
+ * FundsRefunded - full refund to customer
+ */
+const handleFundsRefunded: EventHandler = async (event, ctx) => {
+  const { bookingId, recipient } = event.args as { bookingId: Hex; recipient: Address };
+  await setEscrowStatus(ctx, bookingId, EscrowStatus.REFUNDED, recipient);
+};
+
+/**
+ * FundsSettled - split across customer refund, stylist, property and treasury
+ */
+const handleFundsSettled: EventHandler = async (event, ctx) => {
+  const { bookingId, customer } = event.args as { bookingId: Hex; customer: Address };
+  await setEscrowStatus(ctx, bookingId, EscrowStatus.SETTLED, customer, customer);
+};
+
+export const escrowHandlers: Record<string, EventHandler> = {
+  FundsLocked: handleFundsLocked,
+  FundsReleased: handleFundsReleased,
+  FundsRefunded: handleFundsRefunded,
+  FundsSettled: handleFundsSettled,
+};
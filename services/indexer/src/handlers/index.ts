@@ -0,0 +1,100 @@
+// Event sources: which contracts are indexed and how their events are handled
+
+import type { Abi, Address } from "viem";
+import {
+  ENTRY_POINT_ADDRESS,
+  ESCROW_ADDRESS,
+  PAYMASTER_ADDRESS,
+  POOL_ADDRESSES,
+  PROPERTY_REGISTRY_ADDRESS,
+  REPUTATION_REGISTRY_ADDRESS,
+} from "../config";
+import {
+  ENTRY_POINT_ABI,
+  ESCROW_ABI,
+  POOL_ABI,
+  PROPERTY_REGISTRY_ABI,
+  REPUTATION_REGISTRY_ABI,
+} from "../abis";
+import { prisma } from "../db";
+import type { EventSource } from "../types";
+import { escrowHandlers } from "./escrow";
+import { paymasterHandlers } from "./paymaster";
+import { reputationHandlers } from "./reputation";
+import { propertyHandlers } from "./property";
+import { poolHandlers } from "./pools";
+
+/**
+ * Build the list of sources for this poll.
+ * Pool addresses come from LiquidityPool rows so newly created community
+ * pools are picked up without a restart.
+ */
+export async function buildSources(): Promise<EventSource[]> {
+  const sources: EventSource[] = [];
+
+  if (ESCROW_ADDRESS) {
+    sources.push({
+      name: "Escrow",
+      abi: ESCROW_ABI as Abi,
+      addresses: [ESCROW_ADDRESS],
+      handlers: escrowHandlers,
+    });
+  }
+
+  if (ENTRY_POINT_ADDRESS && PAYMASTER_ADDRESS) {
+    sources.push({
+      name: "Paymaster",
+      abi: ENTRY_POINT_ABI as Abi,
+      addresses: [ENTRY_POINT_ADDRESS],
+      handlers: paymasterHandlers,
+      filter: { eventName: "UserOperationEvent", args: { paymaster: PAYMASTER_ADDRESS } },
+    });
+  }
+
+  if (REPUTATION_REGISTRY_ADDRESS) {
+    sources.push({
+      name: "ReputationRegistry",
+      abi: REPUTATION_REGISTRY_ABI as Abi,
+      addresses: [REPUTATION_REGISTRY_ADDRESS],
+      handlers: reputationHandlers,
+    });
+  }
+
+  if (PROPERTY_REGISTRY_ADDRESS) {
+    sources.push({
+      name: "PropertyRegistry",
+      abi: PROPERTY_REGISTRY_ABI as Abi,
+      addresses: [PROPERTY_REGISTRY_ADDRESS],
+      handlers: propertyHandlers,
+    });
+  }
+
+  const pools = await prisma.liquidityPool.findMany({ select: { address: true } });
+  const poolAddresses = new Set<string>(POOL_ADDRESSES.map((address) => address.toLowerCase()));
+  for (const pool of pools) {
+    if (/^0x[0-9a-fA-F]{40}$/.test(pool.address)) {
+      poolAddresses.add(pool.address.toLowerCase());
+    }
+  }
+
+  if (poolAddresses.size > 0) {
+    sources.push({
+      name: "Pools",
+      abi: POOL_ABI as Abi,
+      addresses: [...poolAddresses] as Address[],
+      handlers: poolHandlers,
+    });
+  }
+
+  return sources;
+}
+
+/**
+ * Find the source that owns a contract address (used by dead-letter retries)
+ */
+export function findSourceForAddress(sources: EventSource[], address: string): EventSource | undefined {
+  const normalized = address.toLowerCase();
+  return sources.find((source) =>
+    source.addresses.some((candidate) => candidate.toLowerCase() === normalized)
+  );
+}
@@ -0,0 +1,138 @@
+// Address -> database record lookups shared by handlers
+
+import { keccak256, toBytes, type Address, type Hex } from "viem";
+import { BalanceStatus, BookingStatus, type Prisma } from "@prisma/client";
+
+/**
+ * Resolve a user by wallet address (AA wallet or User.walletAddress).
+ * Addresses are compared case-insensitively since checksummed and
+ * lowercase forms both exist in the database.
+ */
+export async function findUserIdByAddress(
+  db: Prisma.TransactionClient,
+  address: Address
+): Promise<string | null> {
+  const wallet = await db.wallet.findFirst({
+    where: { address: { equals: address, mode: "insensitive" } },
+    select: { userId: true },
+  });
+  if (wallet) return wallet.userId;
+
+  const user = await db.user.findFirst({
+    where: { walletAddress: { equals: address, mode: "insensitive" } },
+    select: { id: true },
+  });
+  return user?.id ?? null;
+}
+
+/**
+ * Booking matched to an escrow key. Deposit bookings have a second escrow
+ * leg for the balance, keyed by keccak256("<booking id>:balance").
+ */
+export interface EscrowMatch {
+  bookingId: string;
+  isBalanceLeg: boolean;
+}
+
+/**
+ * Resolve a booking from its on-chain escrow key.
+ *
+ * The API stores escrowId / balanceEscrowId when payment is confirmed, but
+ * FundsLocked is usually mined before that call. In that case the customer's
+ * unlinked bookings are hashed the same way the API does (keccak256 of the
+ * booking id, or of "<id>:balance" for a due balance) and the match is linked.
+ */
+export async function findBookingByEscrowId(
+  db: Prisma.TransactionClient,
+  escrowId: Hex,
+  customerAddress?: Address
+): Promise<EscrowMatch | null> {
+  const linked = await db.booking.findFirst({
+    where: {
+      OR: [
+        { escrowId: { equals: escrowId, mode: "insensitive" } },
+        { balanceEscrowId: { equals: escrowId, mode: "insensitive" } },
+      ],
+    },
+    select: { id: true, escrowId: true },
+  });
+  if (linked) {
+    return { bookingId: linked.id, isBalanceLeg: linked.escrowId?.toLowerCase() !== escrowId.toLowerCase() };
+  }
+
+  if (!customerAddress) return null;
+
+  const customerId = await findUserIdByAddress(db, customerAddress);
+  if (!customerId) return null;
+
+  const key = escrowId.toLowerCase();
+
+  const candidates = await db.booking.findMany({
+    where: {
+      customerId,
+      escrowId: null,
+      status: { in: [BookingStatus.PENDING_CUSTOMER_PAYMENT, BookingStatus.CONFIRMED] },
+    },
+    select: { id: true },
+  });
+
+  const match = candidates.find((booking) => keccak256(toBytes(booking.id)).toLowerCase() === key);
+  if (match) {
+    await db.booking.update({
+      where: { id: match.id },
+      data: { escrowId },
+    });
+    return { bookingId: match.id, isBalanceLeg: false };
+  }
+
+  const balanceCandidates = await db.booking.findMany({
+    where: {
+      customerId,
+      balanceEscrowId: null,
+      balanceStatus: BalanceStatus.DUE,
+    },
+    select: { id: true },
+  });
+
+  const balanceMatch = balanceCandidates.find(
+    (booking) => keccak256(toBytes(`${booking.id}:balance`)).toLowerCase() === key
+  );
+  if (!balanceMatch) return null;
+
+  await db.booking.update({
+    where: { id: balanceMatch.id },
+    data: { balanceEscrowId: escrowId },
+  });
+
+  return { bookingId: balanceMatch.id, isBalanceLeg: true };
+}
+
+/**
+ * Resolve a chair rental from its on-chain escrow key.
+ *
+ * Rentals are locked under keccak256("rental:<rental id>") and the API stores
+ * the unhashed key, so the paid rentals of the wallet on the event - the
+ * renting stylist, or the property owner paid on release - are hashed and
+ * compared.
+ */
+export async function findRentalByEscrowId(
+  db: Prisma.TransactionClient,
+  escrowId: Hex,
+  partyAddress: Address
+): Promise<string | null> {
+  const userId = await findUserIdByAddress(db, partyAddress);
+  if (!userId) return null;
+
+  const candidates = await db.chairRentalRequest.findMany({
+    where: {
+      totalAmountCents: { gt: 0 },
+      OR: [{ stylistId: userId }, { property: { ownerId: userId } }],
+    },
+    select: { id: true },
+  });
+
+  const key = escrowId.toLowerCase();
+  const match = candidates.find((rental) => keccak256(toBytes(`rental:${rental.id}`)).toLowerCase() === key);
+
+  return match?.id ?? null;
+}
@@ -0,0 +1,54 @@
+// Paymaster handlers - record sponsored UserOperations
+// PaymasterDailyStats is aggregated from these rows by the API's PaymasterMonitor.
+
+import { PaymasterTxStatus } from "@prisma/client";
+import type { Address, Hex } from "viem";
+import type { EventHandler } from "../types";
+
+/**
+ * UserOperationEvent (EntryPoint, filtered to our paymaster)
+ */
+const handleUserOperationEvent: EventHandler = async (event, ctx) => {
+  const { userOpHash, sender, success, actualGasCost, actualGasUsed } = event.args as {
+    userOpHash: Hex;
+    sender: Address;
+    success: boolean;
+    actualGasCost: bigint;
+    actualGasUsed: bigint;
+  };
+
+  const gasPrice = actualGasUsed > 0n ? actualGasCost / actualGasUsed : 0n;
+  const status = success ? PaymasterTxStatus.SUCCESS : PaymasterTxStatus.FAILED;
+  const block = await ctx.client.getBlock({ blockNumber: ctx.log.blockNumber });
+  const confirmedAt = new Date(Number(block.timestamp) * 1000);
+
+  const fields = {
+    sender,
+    gasUsed: actualGasUsed,
+    gasPrice,
+    totalCost: actualGasCost,
+    txHash: ctx.log.transactionHash,
+    status,
+    error: success ? null : "UserOperation reverted",
+    confirmedAt,
+  };
+
+  const existing = await ctx.db.paymasterTransaction.findUnique({
+    where: { userOpHash },
+    select: { id: true },
+  });
+
+  if (existing) {
+    await ctx.undo.before("paymasterTransaction", existing.id, Object.keys(fields));
+    await ctx.db.paymasterTransaction.update({ where: { id: existing.id }, data: fields });
+  } else {
+    const created = await ctx.db.paymasterTransaction.create({ data: { userOpHash, ...fields } });
+    ctx.undo.created("paymasterTransaction", created.id);
+  }
+
+  console.log(`[Indexer] Sponsored UserOp ${userOpHash} ${status} (${actualGasCost} wei)`);
+};
+
+export const paymasterHandlers: Record<string, EventHandler> = {
+  UserOperationEvent: handleUserOperationEvent,
+};
@@ -0,0 +1,233 @@
+/**
+ * Liquidity Pool Handler Tests
+ */
+
+import { Prisma } from "@prisma/client";
+import { encodeAbiParameters, encodeEventTopics, type Address, type Hash } from "viem";
+import { ENTRY_POINT_ABI } from "../abis";
+import type { ChainClient } from "../chain";
+import type { HandlerContext, IndexedLog } from "../types";
+import { UndoJournal } from "../undo";
+import { poolHandlers } from "./pools";
+
+const POOL: Address = "0x00000000000000000000000000000000000000a1";
+const USER: Address = "0x00000000000000000000000000000000000000b2";
+const TX_HASH = `0x${"c".repeat(64)}` as Hash;
+const USER_OP_HASH = `0x${"d".repeat(64)}` as Hash;
+
+const USDC = 1_000_000n;
+const ONE = 10n ** 18n;
+
+function makeDb() {
+  return {
+    liquidityPool: {
+      findFirst: jest.fn(() => Promise.resolve({ id: "pool-1" })),
+      findUnique: jest.fn(() => Promise.resolve({ depositorCount: 2 })),
+      update: jest.fn(),
+    },
+    liquidityDeposit: {
+      findUnique: jest.fn(),
+      create: jest.fn(() => Promise.resolve({ id: "deposit-1" })),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    liquidityOperation: {
+      findFirst: jest.fn(),
+      findUnique: jest.fn(() => Promise.resolve({ status: "SUBMITTED" })),
+      updateMany: jest.fn(),
+    },
+    yieldClaim: { create: jest.fn(() => Promise.resolve({ id: "claim-1" })) },
+    wallet: { findFirst: jest.fn(() => Promise.resolve({ userId: "user-1" })) },
+    user: { findFirst: jest.fn() },
+  };
+}
+
+/**
+ * Chain client with the user's position and pool totals at the event's block
+ */
+function makeClient(position: { shares: bigint; depositIndex: bigint }, receiptLogs: unknown[] = []) {
+  return {
+    getTransactionReceipt: jest.fn(() => Promise.resolve({ logs: receiptLogs })),
+    getBlock: jest.fn(() => Promise.resolve({ timestamp: 1_767_225_600n })),
+    readContract: jest.fn(({ functionName }: { functionName: string }) =>
+      Promise.resolve(
+        functionName === "getUserDeposit"
+          ? { ...position, pendingYield: 0n }
+          : { totalDeposits: 150n * USDC, totalShares: 150n * ONE, supplyIndex: ONE, lastUpdateTime: 0n, isPaused: false }
+      )
+    ),
+  };
+}
+
+function makeContext(db: ReturnType<typeof makeDb>, client: ReturnType<typeof makeClient>): HandlerContext {
+  const tx = db as unknown as Prisma.TransactionClient;
+  return {
+    db: tx,
+    client: client as unknown as ChainClient,
+    log: { address: POOL, blockNumber: 40n, transactionHash: TX_HASH } as IndexedLog,
+    undo: new UndoJournal(tx),
+  };
+}
+
+/**
+ * The EntryPoint log for a UserOperation sent by the user's wallet
+ */
+function userOperationLog() {
+  return {
+    address: "0x0000000000000000000000000000000000000e00",
+    topics: encodeEventTopics({
+      abi: ENTRY_POINT_ABI,
+      eventName: "UserOperationEvent",
+      args: { userOpHash: USER_OP_HASH, sender: USER, paymaster: "0x0000000000000000000000000000000000000f00" },
+    }),
+    data: encodeAbiParameters(
+      [{ type: "uint256" }, { type: "bool" }, { type: "uint256" }, { type: "uint256" }],
+      [0n, true, 1n, 1n]
+    ),
+    blockNumber: 40n,
+    blockHash: `0x${"b".repeat(64)}`,
+    transactionHash: TX_HASH,
+    logIndex: 0,
+    transactionIndex: 0,
+    removed: false,
+  };
+}
+
+describe("poolHandlers", () => {
+  beforeEach(() => {
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  describe("Deposited", () => {
+    it("should create a new position, count the depositor and journal both", async () => {
+      const db = makeDb();
+      db.liquidityDeposit.findUnique.mockResolvedValue(null);
+      const ctx = makeContext(db, makeClient({ shares: 50n * ONE, depositIndex: ONE }));
+
+      await poolHandlers.Deposited(
+        { eventName: "Deposited", args: { user: USER, amount: 50n * USDC, shares: 50n * ONE } },
+        ctx
+      );
+
+      expect(db.liquidityDeposit.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ userId: "user-1", poolId: "pool-1", shares: "50", depositAmount: "50" }),
+      });
+      expect(db.liquidityPool.update).toHaveBeenCalledWith({
+        where: { id: "pool-1" },
+        data: { depositorCount: { increment: 1 } },
+      });
+      expect(db.liquidityPool.update).toHaveBeenCalledWith({
+        where: { id: "pool-1" },
+        data: expect.objectContaining({ totalDeposits: "150", totalShares: "150", supplyIndex: "1" }),
+      });
+      expect(ctx.undo.ops.map((op) => [op.model, op.action])).toEqual([
+        ["liquidityDeposit", "delete"],
+        ["liquidityPool", "restore"],
+        ["liquidityPool", "restore"],
+      ]);
+    });
+
+    it("should only resync totals when the API already applied the operation", async () => {
+      const db = makeDb();
+      db.liquidityOperation.findFirst.mockResolvedValue({ id: "operation-1" });
+      db.liquidityOperation.updateMany.mockResolvedValue({ count: 0 });
+      const ctx = makeContext(db, makeClient({ shares: 50n * ONE, depositIndex: ONE }, [userOperationLog()]));
+
+      await poolHandlers.Deposited(
+        { eventName: "Deposited", args: { user: USER, amount: 50n * USDC, shares: 50n * ONE } },
+        ctx
+      );
+
+      expect(db.liquidityOperation.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { userOpHash: { in: [USER_OP_HASH] }, poolId: "pool-1", type: "DEPOSIT" } })
+      );
+      expect(db.liquidityDeposit.create).not.toHaveBeenCalled();
+      expect(db.liquidityDeposit.update).not.toHaveBeenCalled();
+      expect(db.liquidityPool.update).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("Withdrawn", () => {
+    const existing = {
+      id: "deposit-1",
+      userId: "user-1",
+      poolId: "pool-1",
+      shares: new Prisma.Decimal(100),
+      depositAmount: new Prisma.Decimal(100),
+    };
+
+    it("should shrink the deposited amount pro rata", async () => {
+      const db = makeDb();
+      db.liquidityDeposit.findUnique.mockResolvedValue(existing);
+      const ctx = makeContext(db, makeClient({ shares: 40n * ONE, depositIndex: ONE }));
+
+      await poolHandlers.Withdrawn(
+        { eventName: "Withdrawn", args: { user: USER, amount: 60n * USDC, shares: 60n * ONE } },
+        ctx
+      );
+
+      const { data } = db.liquidityDeposit.update.mock.calls[0][0];
+      expect(data.shares.toString()).toBe("40");
+      expect(data.depositAmount.toString()).toBe("40");
+      expect(ctx.undo.ops[0]).toMatchObject({ model: "liquidityDeposit", id: "deposit-1", action: "restore" });
+    });
+
+    it("should remove a fully exited position and keep it for undo", async () => {
+      const db = makeDb();
+      db.liquidityDeposit.findUnique.mockResolvedValue(existing);
+      const ctx = makeContext(db, makeClient({ shares: 0n, depositIndex: ONE }));
+
+      await poolHandlers.Withdrawn(
+        { eventName: "Withdrawn", args: { user: USER, amount: 100n * USDC, shares: 100n * ONE } },
+        ctx
+      );
+
+      expect(db.liquidityDeposit.delete).toHaveBeenCalledWith({ where: { id: "deposit-1" } });
+      expect(db.liquidityPool.update).toHaveBeenCalledWith({
+        where: { id: "pool-1" },
+        data: { depositorCount: { decrement: 1 } },
+      });
+      expect(ctx.undo.ops[0]).toEqual({
+        model: "liquidityDeposit",
+        id: "deposit-1",
+        action: "create",
+        data: { id: "deposit-1", userId: "user-1", poolId: "pool-1", shares: "100", depositAmount: "100" },
+      });
+    });
+
+    it("should fail the event when the position is unknown", async () => {
+      const db = makeDb();
+      db.liquidityDeposit.findUnique.mockResolvedValue(null);
+      const ctx = makeContext(db, makeClient({ shares: 0n, depositIndex: ONE }));
+
+      await expect(
+        poolHandlers.Withdrawn(
+          { eventName: "Withdrawn", args: { user: USER, amount: 1n * USDC, shares: ONE } },
+          ctx
+        )
+      ).rejects.toThrow(`No deposit row for ${USER} in pool pool-1`);
+    });
+  });
+
+  describe("YieldClaimed", () => {
+    it("should record the claim and move the position index", async () => {
+      const db = makeDb();
+      db.liquidityDeposit.findUnique.mockResolvedValue({ id: "deposit-1", depositIndex: "1", lastClaimAt: null });
+      const ctx = makeContext(db, makeClient({ shares: 50n * ONE, depositIndex: 2n * ONE }));
+
+      await poolHandlers.YieldClaimed({ eventName: "YieldClaimed", args: { user: USER, amount: 3n * USDC } }, ctx);
+
+      expect(db.yieldClaim.create).toHaveBeenCalledWith({
+        data: { userId: "user-1", poolId: "pool-1", amount: "3", txHash: TX_HASH },
+      });
+      expect(db.liquidityDeposit.update).toHaveBeenCalledWith({
+        where: { id: "deposit-1" },
+        data: { depositIndex: "2", lastClaimAt: new Date(1_767_225_600_000) },
+      });
+      expect(ctx.undo.ops.map((op) => [op.model, op.action])).toEqual([
+        ["yieldClaim", "delete"],
+        ["liquidityDeposit", "restore"],
+      ]);
+    });
+  });
+});
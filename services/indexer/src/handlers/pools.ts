@@ -0,0 +1,331 @@
+// Liquidity pool handlers - keep LiquidityDeposit / LiquidityPool in step with the chain
+//
+// Shares, index and pool totals are read back from the pool at the event's
+// block and written as absolute values. depositAmount (original USDC in),
+// depositorCount and totalYieldDistributed are accumulated, so every write is
+// journaled for rewindTo to undo after a re-org.
+//
+// The API applies the pool actions it sends itself once their receipt is seen
+// (LiquidityOperation). Whichever side moves the operation to CONFIRMED first
+// applies the event; the other only resyncs pool totals.
+
+import { LiquidityOperationType, Prisma, TransactionStatus } from "@prisma/client";
+import { formatUnits, parseEventLogs, type Address } from "viem";
+import { ENTRY_POINT_ABI, POOL_ABI } from "../abis";
+import { ENTRY_POINT_ADDRESS } from "../config";
+import type { EventHandler, HandlerContext } from "../types";
+import { findUserIdByAddress } from "./lookup";
+
+const USDC_DECIMALS = 6;
+const SHARE_DECIMALS = 18; // Shares and supplyIndex are 1e18 scaled
+
+/**
+ * Find the pool row for the emitting contract
+ */
+async function loadPool(ctx: HandlerContext) {
+  const pool = await ctx.db.liquidityPool.findFirst({
+    where: { address: { equals: ctx.log.address, mode: "insensitive" } },
+    select: { id: true },
+  });
+
+  if (!pool) {
+    throw new Error(`No LiquidityPool row for ${ctx.log.address}`);
+  }
+
+  return pool;
+}
+
+/**
+ * Resolve the depositor, failing the event if the wallet is unknown
+ */
+async function requireUserId(ctx: HandlerContext, address: Address): Promise<string> {
+  const userId = await findUserIdByAddress(ctx.db, address);
+
+  if (!userId) {
+    throw new Error(`No user for wallet ${address}`);
+  }
+
+  return userId;
+}
+
+/**
+ * Read a user's position at the event's block
+ */
+async function readUserDeposit(ctx: HandlerContext, user: Address) {
+  return ctx.client.readContract({
+    address: ctx.log.address,
+    abi: POOL_ABI,
+    functionName: "getUserDeposit",
+    args: [user],
+    blockNumber: ctx.log.blockNumber,
+  });
+}
+
+/**
+ * Claim the API operation this event belongs to, if any. It is found through
+ * the EntryPoint's UserOperationEvent for the user's wallet in the same
+ * transaction.
+ *
+ * @returns false when the API has already applied it
+ */
+async function claimApiOperation(
+  ctx: HandlerContext,
+  user: Address,
+  poolId: string,
+  type: LiquidityOperationType,
+  data: { amount: string; shares?: string }
+): Promise<boolean> {
+  const receipt = await ctx.client.getTransactionReceipt({ hash: ctx.log.transactionHash });
+
+  const userOpHashes = parseEventLogs({ abi: ENTRY_POINT_ABI, logs: receipt.logs, eventName: "UserOperationEvent" })
+    .filter(
+      (log) =>
+        log.args.sender.toLowerCase() === user.toLowerCase() &&
+        (!ENTRY_POINT_ADDRESS || log.address.toLowerCase() === ENTRY_POINT_ADDRESS.toLowerCase())
+    )
+    .map((log) => log.args.userOpHash);
+
+  if (userOpHashes.length === 0) return true;
+
+  const operation = await ctx.db.liquidityOperation.findFirst({
+    where: { userOpHash: { in: userOpHashes }, poolId, type },
+    select: { id: true },
+  });
+
+  if (!operation) return true;
+
+  await ctx.undo.before("liquidityOperation", operation.id, [
+    ...Object.keys(data),
+    "status",
+    "txHash",
+    "error",
+    "confirmedAt",
+  ]);
+
+  const { count } = await ctx.db.liquidityOperation.updateMany({
+    where: { id: operation.id, status: { not: TransactionStatus.CONFIRMED } },
+    data: {
+      ...data,
+      status: TransactionStatus.CONFIRMED,
+      txHash: ctx.log.transactionHash,
+      error: null,
+      confirmedAt: new Date(),
+    },
+  });
+
+  return count === 1;
+}
+
+/**
+ * Copy pool totals and supply index from the chain
+ */
+async function syncPoolTotals(ctx: HandlerContext, poolId: string): Promise<void> {
+  const info = await ctx.client.readContract({
+    address: ctx.log.address,
+    abi: POOL_ABI,
+    functionName: "getPoolInfo",
+    blockNumber: ctx.log.blockNumber,
+  });
+
+  await ctx.undo.before("liquidityPool", poolId, ["totalDeposits", "totalShares", "supplyIndex", "lastSyncAt"]);
+
+  await ctx.db.liquidityPool.update({
+    where: { id: poolId },
+    data: {
+      totalDeposits: formatUnits(info.totalDeposits, USDC_DECIMALS),
+      totalShares: formatUnits(info.totalShares, SHARE_DECIMALS),
+      supplyIndex: formatUnits(info.supplyIndex, SHARE_DECIMALS),
+      lastSyncAt: new Date(),
+    },
+  });
+}
+
+/**
+ * Deposited - create or top up the user's position
+ */
+const handleDeposited: EventHandler = async (event, ctx) => {
+  const { user, amount, shares: minted } = event.args as { user: Address; amount: bigint; shares: bigint };
+
+  const pool = await loadPool(ctx);
+  const userId = await requireUserId(ctx, user);
+
+  const apply = await claimApiOperation(ctx, user, pool.id, LiquidityOperationType.DEPOSIT, {
+    amount: formatUnits(amount, USDC_DECIMALS),
+    shares: formatUnits(minted, SHARE_DECIMALS),
+  });
+  if (!apply) {
+    await syncPoolTotals(ctx, pool.id);
+    return;
+  }
+
+  const position = await readUserDeposit(ctx, user);
+
+  const existing = await ctx.db.liquidityDeposit.findUnique({
+    where: { userId_poolId: { userId, poolId: pool.id } },
+    select: { id: true },
+  });
+
+  const shares = formatUnits(position.shares, SHARE_DECIMALS);
+  const depositIndex = formatUnits(position.depositIndex, SHARE_DECIMALS);
+  const depositAmount = formatUnits(amount, USDC_DECIMALS);
+
+  if (existing) {
+    await ctx.undo.before("liquidityDeposit", existing.id, ["shares", "depositIndex", "depositAmount", "depositTxHash"]);
+    await ctx.db.liquidityDeposit.update({
+      where: { id: existing.id },
+      data: {
+        shares,
+        depositIndex,
+        depositAmount: { increment: depositAmount },
+        depositTxHash: ctx.log.transactionHash,
+      },
+    });
+  } else {
+    const created = await ctx.db.liquidityDeposit.create({
+      data: {
+        userId,
+        poolId: pool.id,
+        shares,
+        depositIndex,
+        depositAmount,
+        depositTxHash: ctx.log.transactionHash,
+      },
+    });
+    ctx.undo.created("liquidityDeposit", created.id);
+
+    await ctx.undo.before("liquidityPool", pool.id, ["depositorCount"]);
+    await ctx.db.liquidityPool.update({
+      where: { id: pool.id },
+      data: { depositorCount: { increment: 1 } },
+    });
+  }
+
+  await syncPoolTotals(ctx, pool.id);
+
+  console.log(`[Indexer] Deposit ${depositAmount} USDC by ${user} into pool ${pool.id}`);
+};
+
+/**
+ * Withdrawn - shrink the position pro rata, or remove it when fully exited
+ */
+const handleWithdrawn: EventHandler = async (event, ctx) => {
+  const { user, amount, shares: burned } = event.args as { user: Address; amount: bigint; shares: bigint };
+
+  const pool = await loadPool(ctx);
+  const userId = await requireUserId(ctx, user);
+
+  const apply = await claimApiOperation(ctx, user, pool.id, LiquidityOperationType.WITHDRAW, {
+    amount: formatUnits(amount, USDC_DECIMALS),
+    shares: formatUnits(burned, SHARE_DECIMALS),
+  });
+  if (!apply) {
+    await syncPoolTotals(ctx, pool.id);
+    return;
+  }
+
+  const position = await readUserDeposit(ctx, user);
+
+  const existing = await ctx.db.liquidityDeposit.findUnique({
+    where: { userId_poolId: { userId, poolId: pool.id } },
+  });
+
+  if (!existing) {
+    throw new Error(`No deposit row for ${user} in pool ${pool.id}`);
+  }
+
+  if (position.shares === 0n) {
+    await ctx.undo.beforeDelete("liquidityDeposit", existing.id);
+    await ctx.db.liquidityDeposit.delete({ where: { id: existing.id } });
+    await ctx.undo.before("liquidityPool", pool.id, ["depositorCount"]);
+    await ctx.db.liquidityPool.update({
+      where: { id: pool.id },
+      data: { depositorCount: { decrement: 1 } },
+    });
+  } else {
+    const remainingShares = new Prisma.Decimal(formatUnits(position.shares, SHARE_DECIMALS));
+    const depositAmount = existing.shares.isZero()
+      ? existing.depositAmount
+      : existing.depositAmount.mul(remainingShares).div(existing.shares);
+
+    await ctx.undo.before("liquidityDeposit", existing.id, ["shares", "depositIndex", "depositAmount"]);
+    await ctx.db.liquidityDeposit.update({
+      where: { id: existing.id },
+      data: {
+        shares: remainingShares,
+        depositIndex: formatUnits(position.depositIndex, SHARE_DECIMALS),
+        depositAmount: depositAmount.toDecimalPlaces(USDC_DECIMALS),
+      },
+    });
+  }
+
+  await syncPoolTotals(ctx, pool.id);
+
+  console.log(`[Indexer] Withdrawal ${formatUnits(amount, USDC_DECIMALS)} USDC by ${user} from pool ${pool.id}`);
+};
+
+/**
+ * YieldClaimed - record the claim and move the user's index forward
+ */
+const handleYieldClaimed: EventHandler = async (event, ctx) => {
+  const { user, amount } = event.args as { user: Address; amount: bigint };
+
+  const pool = await loadPool(ctx);
+  const userId = await requireUserId(ctx, user);
+
+  const apply = await claimApiOperation(ctx, user, pool.id, LiquidityOperationType.CLAIM_YIELD, {
+    amount: formatUnits(amount, USDC_DECIMALS),
+  });
+  if (!apply) return;
+
+  const position = await readUserDeposit(ctx, user);
+  const block = await ctx.client.getBlock({ blockNumber: ctx.log.blockNumber });
+
+  const claim = await ctx.db.yieldClaim.create({
+    data: {
+      userId,
+      poolId: pool.id,
+      amount: formatUnits(amount, USDC_DECIMALS),
+      txHash: ctx.log.transactionHash,
+    },
+  });
+  ctx.undo.created("yieldClaim", claim.id);
+
+  const deposit = await ctx.db.liquidityDeposit.findUnique({
+    where: { userId_poolId: { userId, poolId: pool.id } },
+    select: { id: true },
+  });
+  if (!deposit) return;
+
+  await ctx.undo.before("liquidityDeposit", deposit.id, ["depositIndex", "lastClaimAt"]);
+  await ctx.db.liquidityDeposit.update({
+    where: { id: deposit.id },
+    data: {
+      depositIndex: formatUnits(position.depositIndex, SHARE_DECIMALS),
+      lastClaimAt: new Date(Number(block.timestamp) * 1000),
+    },
+  });
+};
+
+/**
+ * YieldDistributed - yield engine pushed yield into the pool
+ */
+const handleYieldDistributed: EventHandler = async (event, ctx) => {
+  const { amount } = event.args as { amount: bigint };
+
+  const pool = await loadPool(ctx);
+
+  await ctx.undo.before("liquidityPool", pool.id, ["totalYieldDistributed"]);
+  await ctx.db.liquidityPool.update({
+    where: { id: pool.id },
+    data: { totalYieldDistributed: { increment: formatUnits(amount, USDC_DECIMALS) } },
+  });
+
+  await syncPoolTotals(ctx, pool.id);
+};
+
+export const poolHandlers: Record<string, EventHandler> = {
+  Deposited: handleDeposited,
+  Withdrawn: handleWithdrawn,
+  YieldClaimed: handleYieldClaimed,
+  YieldDistributed: handleYieldDistributed,
+};
@@ -0,0 +1,235 @@
+// PropertyRegistry handlers - mirror registry status and suspensions onto properties
+// Must stay in line with getRegistryMirror in services/api/src/lib/property-registry
+
+import { keccak256, toBytes, type Address, type Hex } from "viem";
+import type { Prisma, PropertyRegistryStatus } from "@prisma/client";
+import type { EventHandler, HandlerContext } from "../types";
+import { findUserIdByAddress } from "./lookup";
+
+// PropertyRegistry.PropertyStatus
+const PropertyStatus = {
+  Pending: 0,
+  Verified: 1,
+  Suspended: 2,
+  Revoked: 3,
+} as const;
+
+const DB_STATUS: Record<number, PropertyRegistryStatus> = {
+  [PropertyStatus.Pending]: "PENDING",
+  [PropertyStatus.Verified]: "VERIFIED",
+  [PropertyStatus.Suspended]: "SUSPENDED",
+  [PropertyStatus.Revoked]: "REVOKED",
+};
+
+// PropertyRegistry.SUSPENSION_DELAY
+const SUSPENSION_DELAY_SECONDS = 24 * 60 * 60;
+
+const NO_SUSPENSION = {
+  suspensionRequestedAt: null,
+  suspensionReason: null,
+  suspensionExecuteAfter: null,
+  suspensionDisputedAt: null,
+};
+
+/**
+ * Journal and update the properties matching `where`. Returns how many
+ * were updated.
+ */
+async function updateProperties(
+  ctx: HandlerContext,
+  where: Prisma.PropertyWhereInput,
+  data: Prisma.PropertyUpdateManyMutationInput
+): Promise<number> {
+  const properties = await ctx.db.property.findMany({ where, select: { id: true } });
+
+  for (const property of properties) {
+    await ctx.undo.before("property", property.id, Object.keys(data));
+  }
+
+  if (properties.length > 0) {
+    await ctx.db.property.updateMany({
+      where: { id: { in: properties.map((property) => property.id) } },
+      data,
+    });
+  }
+  return properties.length;
+}
+
+/**
+ * Update the property linked to a registry id, warning when none is
+ */
+async function updateByRegistryId(
+  ctx: HandlerContext,
+  propertyId: Hex,
+  data: Prisma.PropertyUpdateManyMutationInput
+): Promise<boolean> {
+  const count = await updateProperties(
+    ctx,
+    { registryId: { equals: propertyId, mode: "insensitive" } },
+    data
+  );
+
+  if (count === 0) {
+    console.warn(`[Indexer] No property linked to registry id ${propertyId} - skipping`);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * PropertyStatusChanged - mirror the status. Verified sets isVerified,
+ * Suspended/Revoked deactivate, and only unsuspending reactivates so a
+ * listing the owner deleted stays deleted when it is verified.
+ */
+const handlePropertyStatusChanged: EventHandler = async (event, ctx) => {
+  const { propertyId, previousStatus, newStatus, timestamp } = event.args as {
+    propertyId: Hex;
+    previousStatus: number;
+    newStatus: number;
+    timestamp: bigint;
+  };
+
+  const registryStatus = DB_STATUS[newStatus];
+  if (!registryStatus) {
+    console.warn(`[Indexer] Unknown property status ${newStatus} for ${propertyId} - skipping`);
+    return;
+  }
+
+  const deactivated = newStatus === PropertyStatus.Suspended || newStatus === PropertyStatus.Revoked;
+  const reactivated = newStatus === PropertyStatus.Verified && previousStatus === PropertyStatus.Suspended;
+
+  const updated = await updateByRegistryId(ctx, propertyId, {
+    registryStatus,
+    isVerified: newStatus === PropertyStatus.Verified,
+    ...(deactivated && { isActive: false }),
+    ...(reactivated && { isActive: true }),
+    registrySyncedAt: new Date(Number(timestamp) * 1000),
+  });
+
+  if (updated) {
+    console.log(`[Indexer] Property ${propertyId} status ${previousStatus} -> ${newStatus}`);
+  }
+};
+
+/**
+ * PropertyRegistered - usually mined before the API links registryId, so
+ * the owner's unlinked properties are hashed the same way the API does
+ * (keccak256 of the property id) and the match is linked.
+ */
+const handlePropertyRegistered: EventHandler = async (event, ctx) => {
+  const { propertyId, owner, timestamp } = event.args as {
+    propertyId: Hex;
+    owner: Address;
+    timestamp: bigint;
+  };
+
+  const registration = {
+    registryStatus: "PENDING" as const,
+    registryOwner: owner,
+    registeredAt: new Date(Number(timestamp) * 1000),
+  };
+
+  const linked = await updateProperties(
+    ctx,
+    { registryId: { equals: propertyId, mode: "insensitive" }, registryStatus: null },
+    registration
+  );
+  if (linked > 0) {
+    return;
+  }
+
+  const ownerId = await findUserIdByAddress(ctx.db, owner);
+  if (!ownerId) {
+    console.log(`[Indexer] Property registered ${propertyId} by unknown owner ${owner} - skipping`);
+    return;
+  }
+
+  const candidates = await ctx.db.property.findMany({
+    where: { ownerId, registryId: null },
+    select: { id: true },
+  });
+
+  const key = propertyId.toLowerCase();
+  const match = candidates.find((property) => keccak256(toBytes(property.id)).toLowerCase() === key);
+  if (!match) {
+    console.log(`[Indexer] Property registered ${propertyId} (block ${ctx.log.blockNumber})`);
+    return;
+  }
+
+  const data = { ...registration, registryId: propertyId };
+  await ctx.undo.before("property", match.id, Object.keys(data));
+  await ctx.db.property.update({ where: { id: match.id }, data });
+
+  console.log(`[Indexer] Linked property ${match.id} to registry id ${propertyId}`);
+};
+
+/**
+ * PropertyTransferred - the new owner's account takes the listing over when
+ * the wallet belongs to a known user
+ */
+const handlePropertyTransferred: EventHandler = async (event, ctx) => {
+  const { propertyId, newOwner } = event.args as { propertyId: Hex; newOwner: Address };
+
+  const ownerId = await findUserIdByAddress(ctx.db, newOwner);
+  if (!ownerId) {
+    console.warn(`[Indexer] Property ${propertyId} transferred to unknown wallet ${newOwner} - owner unchanged`);
+  }
+
+  await updateByRegistryId(ctx, propertyId, {
+    registryOwner: newOwner,
+    ...(ownerId && { ownerId }),
+  });
+};
+
+/**
+ * SuspensionRequested - record the pending suspension and its dispute window
+ */
+const handleSuspensionRequested: EventHandler = async (event, ctx) => {
+  const { propertyId, reason, executeAfter } = event.args as {
+    propertyId: Hex;
+    reason: string;
+    executeAfter: bigint;
+  };
+
+  await updateByRegistryId(ctx, propertyId, {
+    suspensionRequestedAt: new Date((Number(executeAfter) - SUSPENSION_DELAY_SECONDS) * 1000),
+    suspensionReason: reason,
+    suspensionExecuteAfter: new Date(Number(executeAfter) * 1000),
+    suspensionDisputedAt: null,
+  });
+};
+
+/**
+ * DisputeRaised - the event has no timestamp, so the indexing time is used
+ * unless the API already recorded one
+ */
+const handleDisputeRaised: EventHandler = async (event, ctx) => {
+  const { propertyId } = event.args as { propertyId: Hex };
+
+  await updateProperties(
+    ctx,
+    { registryId: { equals: propertyId, mode: "insensitive" }, suspensionDisputedAt: null },
+    { suspensionDisputedAt: new Date() }
+  );
+};
+
+/**
+ * SuspensionExecuted / SuspensionCancelled / DisputeResolved - the request is
+ * gone either way; the status change (if any) arrives as PropertyStatusChanged
+ */
+const handleSuspensionClosed: EventHandler = async (event, ctx) => {
+  const { propertyId } = event.args as { propertyId: Hex };
+
+  await updateByRegistryId(ctx, propertyId, NO_SUSPENSION);
+};
+
+export const propertyHandlers: Record<string, EventHandler> = {
+  PropertyRegistered: handlePropertyRegistered,
+  PropertyTransferred: handlePropertyTransferred,
+  PropertyStatusChanged: handlePropertyStatusChanged,
+  SuspensionRequested: handleSuspensionRequested,
+  SuspensionExecuted: handleSuspensionClosed,
+  SuspensionCancelled: handleSuspensionClosed,
+  DisputeRaised: handleDisputeRaised,
+  DisputeResolved: handleSuspensionClosed,
+};
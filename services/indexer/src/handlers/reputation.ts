@@ -0,0 +1,57 @@
+// ReputationRegistry handlers - mirror on-chain scores next to the DB scores
+
+import type { Address } from "viem";
+import type { EventHandler } from "../types";
+import { findUserIdByAddress } from "./lookup";
+
+/**
+ * ScoreUpdated - store the registry's total score for drift checks.
+ * The DB score stays the source of truth; only the onChain* fields are written.
+ */
+const handleScoreUpdated: EventHandler = async (event, ctx) => {
+  const { actor, newTotalScore, timestamp } = event.args as {
+    actor: Address;
+    newTotalScore: bigint;
+    timestamp: bigint;
+  };
+
+  const userId = await findUserIdByAddress(ctx.db, actor);
+  if (!userId) {
+    console.warn(`[Indexer] ScoreUpdated for unknown actor ${actor} - skipping`);
+    return;
+  }
+
+  const score = await ctx.db.reputationScore.findUnique({
+    where: { userId },
+    select: { id: true },
+  });
+
+  if (!score) {
+    console.warn(`[Indexer] No reputation score row for user ${userId} - skipping`);
+    return;
+  }
+
+  await ctx.undo.before("reputationScore", score.id, ["onChainScore", "onChainSyncedAt"]);
+  await ctx.db.reputationScore.update({
+    where: { id: score.id },
+    data: {
+      onChainScore: Number(newTotalScore),
+      onChainSyncedAt: new Date(Number(timestamp) * 1000),
+    },
+  });
+};
+
+/**
+ * ActorRegistered / ReputationEventRecorded / VerificationStatusChanged
+ * are written by the API itself; they are decoded and marked as indexed only.
+ */
+const handleAcknowledged: EventHandler = async (event, ctx) => {
+  console.log(`[Indexer] ${event.eventName} (block ${ctx.log.blockNumber})`);
+};
+
+export const reputationHandlers: Record<string, EventHandler> = {
+  ScoreUpdated: handleScoreUpdated,
+  ActorRegistered: handleAcknowledged,
+  ReputationEventRecorded: handleAcknowledged,
+  VerificationStatusChanged: handleAcknowledged,
+};
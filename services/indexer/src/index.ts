@@ -1,193 +1,124 @@
 // @vlossom/indexer - Chain Event Indexer Service
 // Reference: docs/vlossom/05-system-architecture-blueprint.md (Section 5 - Indexing)
 
-import { createPublicClient, http, type Address, type Log } from "viem";
-import { hardhat, baseSepolia } from "viem/chains";
+import {
+  BATCH_SIZE,
+  CHAIN_ID,
+  CONFIRMATIONS,
+  ENTRY_POINT_ADDRESS,
+  ESCROW_ADDRESS,
+  PAYMASTER_ADDRESS,
+  POLL_INTERVAL_MS,
+  PROPERTY_REGISTRY_ADDRESS,
+  REPUTATION_REGISTRY_ADDRESS,
+  RPC_URL,
+  START_BLOCK,
+} from "./config";
+import { createClient, type ChainClient } from "./chain";
+import { prisma } from "./db";
+import { findReorgAncestor, getCheckpoint, rewindTo, saveCheckpoint } from "./checkpoint";
+import { fetchLogs, decodeLog, processLog } from "./processor";
+import { recordDeadLetter, retryDeadLetters } from "./dead-letter";
+import { buildSources } from "./handlers";
+import type { EventSource } from "./types";
 
 /**
  * Vlossom Indexer Service
  *
- * Subscribes to on-chain events and indexes them for use by the API.
+ * Reads on-chain events and mirrors them into the API database.
  * Responsibilities:
- * - Escrow events (FundsLocked, FundsReleased, FundsRefunded)
- * - Paymaster events (GasSponsored)
- * - Future: Reputation events, Property registry events
+ * - Escrow events (FundsLocked, FundsReleased, FundsRefunded, FundsSettled) -> Booking.escrowStatus
+ * - Sponsored UserOperations (EntryPoint UserOperationEvent for our paymaster) -> PaymasterTransaction
+ * - ReputationRegistry ScoreUpdated -> ReputationScore.onChainScore
+ * - PropertyRegistry status changes -> Property.isVerified / isActive
+ * - Liquidity pool events -> LiquidityDeposit, LiquidityPool, YieldClaim
  *
  * Features:
- * - Block re-org detection
- * - Automatic gap-fill on startup
- * - Graceful error handling with poison queue
+ * - Persistent block checkpoint (IndexerCheckpoint) with backfill from START_BLOCK
+ * - Block re-org detection by comparing stored block hashes with the chain
+ * - Idempotent handlers (IndexedEvent marker written in the handler's transaction)
+ * - Dead-letter table with backoff retries for events that fail to process
+ *
+ * Run `pnpm backfill` to index up to the current head once and exit.
  */
 
-// Configuration from environment
-const RPC_URL = process.env.RPC_URL || "http://127.0.0.1:8545";
-const CHAIN_ID = parseInt(process.env.CHAIN_ID || "31337", 10);
-const ESCROW_ADDRESS = process.env.ESCROW_ADDRESS as Address;
-const PAYMASTER_ADDRESS = process.env.PAYMASTER_ADDRESS as Address;
-const POLL_INTERVAL_MS = parseInt(process.env.POLL_INTERVAL_MS || "3000", 10);
-
-// Escrow event signatures (keccak256 hashes of event signatures)
-const ESCROW_EVENT_SIGNATURES = {
-  FundsLocked: "0x9f5c4937a6f4c5df93f71b4b7a67c6b9cd6a4f4e21a7f9e4c8a5b3d2e1f0a9b8",
-  FundsReleased: "0x8e4b3f2c6d5a4e3f2b1c0d9e8f7a6b5c4d3e2f1a0b9c8d7e6f5a4b3c2d1e0f9",
-  FundsRefunded: "0x7d3a2e1f0c9b8a7d6e5f4c3b2a1d0e9f8c7b6a5d4e3f2c1b0a9d8c7b6a5e4f3",
-};
-
-// Paymaster event signatures
-const PAYMASTER_EVENT_SIGNATURES = {
-  GasSponsored: "0x6c2b1d0e9f8a7b6c5d4e3f2a1b0c9d8e7f6a5b4c3d2e1f0a9b8c7d6e5f4a3b2",
-};
-
-// State tracking
-let lastProcessedBlock = 0n;
+const RUN_ONCE = process.argv.includes("--once");
+
 let isRunning = false;
 
 /**
- * Get the appropriate chain config
+ * Process a range and dead-letter any event whose handler throws,
+ * so one bad event never blocks the checkpoint
  */
-function getChain() {
-  switch (CHAIN_ID) {
-    case 31337:
-      return hardhat;
-    case 84532:
-      return baseSepolia;
-    default:
-      return hardhat;
+async function indexRange(
+  client: ChainClient,
+  sources: EventSource[],
+  fromBlock: bigint,
+  toBlock: bigint
+): Promise<{ processed: number; failed: number }> {
+  const logs = await fetchLogs(client, sources, fromBlock, toBlock);
+  let processed = 0;
+  let failed = 0;
+
+  for (const { source, log } of logs) {
+    try {
+      const result = await processLog(client, source, log);
+      if (result === "processed") processed++;
+    } catch (error) {
+      failed++;
+      const eventName = decodeLog(source, log)?.eventName ?? "unknown";
+      console.error(
+        `[Indexer] ${source.name}.${eventName} failed at ${log.transactionHash}:${log.logIndex}:`,
+        error
+      );
+      await recordDeadLetter(log, eventName, error);
+    }
   }
-}
 
-/**
- * Create the viem client
- */
-function createClient() {
-  return createPublicClient({
-    chain: getChain(),
-    transport: http(RPC_URL),
-  });
-}
-
-/**
- * Process Escrow FundsLocked event
- */
-async function handleFundsLocked(log: Log): Promise<void> {
-  console.log("[Indexer] FundsLocked event:", {
-    blockNumber: log.blockNumber,
-    transactionHash: log.transactionHash,
-    data: log.data,
-    topics: log.topics,
-  });
-
-  // In production, this would:
-  // 1. Decode the event data
-  // 2. Update the booking's escrow status in database
-  // 3. Trigger notifications
-}
-
-/**
- * Process Escrow FundsReleased event
- */
-async function handleFundsReleased(log: Log): Promise<void> {
-  console.log("[Indexer] FundsReleased event:", {
-    blockNumber: log.blockNumber,
-    transactionHash: log.transactionHash,
-  });
-
-  // In production, this would:
-  // 1. Decode the event data
-  // 2. Update booking escrow status to RELEASED
-  // 3. Update stylist earnings
-  // 4. Trigger payout notification
-}
-
-/**
- * Process Escrow FundsRefunded event
- */
-async function handleFundsRefunded(log: Log): Promise<void> {
-  console.log("[Indexer] FundsRefunded event:", {
-    blockNumber: log.blockNumber,
-    transactionHash: log.transactionHash,
-  });
-
-  // In production, this would:
-  // 1. Decode the event data
-  // 2. Update booking escrow status to REFUNDED
-  // 3. Trigger refund notification to customer
+  return { processed, failed };
 }
 
 /**
- * Process Paymaster GasSponsored event
+ * Run one indexing step: re-org check, one batch of blocks, dead-letter retries.
+ * Returns true once the checkpoint has reached the confirmed head.
  */
-async function handleGasSponsored(log: Log): Promise<void> {
-  console.log("[Indexer] GasSponsored event:", {
-    blockNumber: log.blockNumber,
-    transactionHash: log.transactionHash,
-  });
-
-  // In production, this would:
-  // 1. Decode the event data
-  // 2. Record paymaster transaction in database
-  // 3. Update daily stats aggregation
-  // 4. Check if alerts should be triggered
-}
+async function pollEvents(client: ChainClient): Promise<boolean> {
+  const head = await client.getBlockNumber();
+  if (head < CONFIRMATIONS) return true;
+  const safeHead = head - CONFIRMATIONS;
+
+  let checkpoint = await getCheckpoint();
+
+  if (checkpoint) {
+    const ancestor = await findReorgAncestor(client, checkpoint);
+    if (ancestor) {
+      await rewindTo(ancestor);
+      checkpoint = await getCheckpoint();
+    }
+  }
 
-/**
- * Poll for new events
- */
-async function pollEvents(client: ReturnType<typeof createPublicClient>): Promise<void> {
-  try {
-    const currentBlock = await client.getBlockNumber();
+  const sources = await buildSources();
+  const fromBlock = checkpoint ? checkpoint.blockNumber + 1n : START_BLOCK;
 
-    // Skip if no new blocks
-    if (currentBlock <= lastProcessedBlock) {
-      return;
-    }
+  if (fromBlock <= safeHead) {
+    const toBlock = fromBlock + BATCH_SIZE - 1n < safeHead ? fromBlock + BATCH_SIZE - 1n : safeHead;
 
-    const fromBlock = lastProcessedBlock === 0n ? currentBlock - 100n : lastProcessedBlock + 1n;
-    const toBlock = currentBlock;
-
-    console.log(`[Indexer] Processing blocks ${fromBlock} to ${toBlock}`);
-
-    // Fetch Escrow events if address is configured
-    if (ESCROW_ADDRESS) {
-      const escrowLogs = await client.getLogs({
-        address: ESCROW_ADDRESS,
-        fromBlock,
-        toBlock,
-      });
-
-      for (const log of escrowLogs) {
-        // Route to appropriate handler based on event signature
-        const eventSig = log.topics[0];
-        if (eventSig === ESCROW_EVENT_SIGNATURES.FundsLocked) {
-          await handleFundsLocked(log);
-        } else if (eventSig === ESCROW_EVENT_SIGNATURES.FundsReleased) {
-          await handleFundsReleased(log);
-        } else if (eventSig === ESCROW_EVENT_SIGNATURES.FundsRefunded) {
-          await handleFundsRefunded(log);
-        }
-      }
-    }
+    const { processed, failed } = await indexRange(client, sources, fromBlock, toBlock);
+    const block = await client.getBlock({ blockNumber: toBlock });
+    await saveCheckpoint(toBlock, block.hash);
 
-    // Fetch Paymaster events if address is configured
-    if (PAYMASTER_ADDRESS) {
-      const paymasterLogs = await client.getLogs({
-        address: PAYMASTER_ADDRESS,
-        fromBlock,
-        toBlock,
-      });
-
-      for (const log of paymasterLogs) {
-        if (log.topics[0] === PAYMASTER_EVENT_SIGNATURES.GasSponsored) {
-          await handleGasSponsored(log);
-        }
-      }
+    if (processed > 0 || failed > 0 || toBlock - fromBlock > 0n) {
+      console.log(
+        `[Indexer] Blocks ${fromBlock}-${toBlock}: ${processed} events processed, ${failed} dead-lettered`
+      );
     }
 
-    lastProcessedBlock = toBlock;
-  } catch (error) {
-    console.error("[Indexer] Error polling events:", error);
-    // In production, implement retry logic with exponential backoff
+    await retryDeadLetters(client, sources);
+    return toBlock >= safeHead;
   }
+
+  await retryDeadLetters(client, sources);
+  return true;
 }
 
 /**
@@ -199,37 +130,64 @@ async function runIndexer(): Promise<void> {
   console.log(`[Indexer] RPC URL: ${RPC_URL}`);
   console.log(`[Indexer] Escrow Address: ${ESCROW_ADDRESS || "Not configured"}`);
   console.log(`[Indexer] Paymaster Address: ${PAYMASTER_ADDRESS || "Not configured"}`);
+  console.log(`[Indexer] EntryPoint Address: ${ENTRY_POINT_ADDRESS || "Not configured"}`);
+  console.log(`[Indexer] Reputation Registry: ${REPUTATION_REGISTRY_ADDRESS || "Not configured"}`);
+  console.log(`[Indexer] Property Registry: ${PROPERTY_REGISTRY_ADDRESS || "Not configured"}`);
+  console.log(`[Indexer] Start block: ${START_BLOCK}, confirmations: ${CONFIRMATIONS}`);
   console.log(`[Indexer] Poll interval: ${POLL_INTERVAL_MS}ms`);
 
   const client = createClient();
   isRunning = true;
 
-  // Initial poll to catch up
-  await pollEvents(client);
+  if (RUN_ONCE) {
+    // Backfill to head and exit
+    while (!(await pollEvents(client))) {
+      // keep going until caught up
+    }
+    console.log("[Indexer] Backfill complete");
+    await prisma.$disconnect();
+    return;
+  }
+
+  let pollTimer: NodeJS.Timeout | undefined;
+
+  // Poll back-to-back while catching up, then on the interval.
+  // Chained timeouts so a slow batch never overlaps the next one.
+  const loop = async () => {
+    if (!isRunning) return;
+
+    let caughtUp = true;
+    try {
+      caughtUp = await pollEvents(client);
+    } catch (error) {
+      console.error("[Indexer] Error polling events:", error);
+    }
 
-  // Set up polling interval
-  const pollInterval = setInterval(async () => {
     if (isRunning) {
-      await pollEvents(client);
+      pollTimer = setTimeout(loop, caughtUp ? POLL_INTERVAL_MS : 0);
     }
-  }, POLL_INTERVAL_MS);
+  };
 
   // Handle shutdown
   const shutdown = async () => {
     console.log("[Indexer] Shutting down...");
     isRunning = false;
-    clearInterval(pollInterval);
+    if (pollTimer) clearTimeout(pollTimer);
+    await prisma.$disconnect();
     process.exit(0);
   };
 
   process.on("SIGINT", shutdown);
   process.on("SIGTERM", shutdown);
 
+  await loop();
+
   console.log("[Indexer] Indexer running. Press Ctrl+C to stop.");
 }
 
 // Start indexer
-runIndexer().catch((error) => {
+runIndexer().catch(async (error) => {
   console.error("[Indexer] Fatal error:", error);
+  await prisma.$disconnect();
   process.exit(1);
 });
@@ -0,0 +1,97 @@
+/**
+ * Processor Tests
+ */
+
+const mockTx = {
+  indexedEvent: { findUnique: jest.fn(), create: jest.fn() },
+  booking: { findUnique: jest.fn() },
+};
+
+jest.mock("./db", () => ({
+  prisma: {
+    $transaction: jest.fn((fn: (tx: typeof mockTx) => Promise<unknown>) => fn(mockTx)),
+  },
+}));
+
+import { encodeAbiParameters, encodeEventTopics, parseAbi, type Hash } from "viem";
+import type { ChainClient } from "./chain";
+import { processLog } from "./processor";
+import type { EventHandler, EventSource, IndexedLog } from "./types";
+
+const abi = parseAbi(["event Ping(uint256 value)"]);
+const client = {} as ChainClient;
+
+function makeLog(overrides: Partial<IndexedLog> = {}): IndexedLog {
+  return {
+    address: "0x00000000000000000000000000000000000000ee",
+    topics: encodeEventTopics({ abi, eventName: "Ping" }) as IndexedLog["topics"],
+    data: encodeAbiParameters([{ type: "uint256" }], [7n]),
+    blockNumber: 12n,
+    blockHash: `0x${"b".repeat(64)}` as Hash,
+    transactionHash: `0x${"c".repeat(64)}` as Hash,
+    logIndex: 3,
+    ...overrides,
+  };
+}
+
+function makeSource(handler: EventHandler): EventSource {
+  return { name: "test", abi, addresses: [], handlers: { Ping: handler } };
+}
+
+describe("processLog", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockTx.indexedEvent.findUnique.mockResolvedValue(null);
+    mockTx.booking.findUnique.mockResolvedValue({ escrowStatus: "PENDING" });
+  });
+
+  it("should run the handler and store its undo journal on the marker", async () => {
+    const handler = jest.fn<ReturnType<EventHandler>, Parameters<EventHandler>>(async (event, ctx) => {
+      expect(event.args).toEqual({ value: 7n });
+      await ctx.undo.before("booking", "booking-1", ["escrowStatus"]);
+    });
+
+    const result = await processLog(client, makeSource(handler), makeLog());
+
+    expect(result).toBe("processed");
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(mockTx.indexedEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        chainId: 31337,
+        blockNumber: 12n,
+        logIndex: 3,
+        eventName: "Ping",
+        undo: [{ model: "booking", id: "booking-1", action: "restore", data: { escrowStatus: "PENDING" } }],
+      }),
+    });
+  });
+
+  it("should skip an event that was already processed", async () => {
+    const handler = jest.fn();
+    mockTx.indexedEvent.findUnique.mockResolvedValue({ id: "event-1" });
+
+    const result = await processLog(client, makeSource(handler), makeLog());
+
+    expect(result).toBe("duplicate");
+    expect(handler).not.toHaveBeenCalled();
+    expect(mockTx.indexedEvent.create).not.toHaveBeenCalled();
+  });
+
+  it("should ignore logs the source ABI does not decode", async () => {
+    const handler = jest.fn();
+
+    const result = await processLog(client, makeSource(handler), makeLog({ topics: [`0x${"0".repeat(64)}`] }));
+
+    expect(result).toBe("ignored");
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("should not write a marker when the handler fails", async () => {
+    const handler = jest.fn(async () => {
+      throw new Error("No booking found");
+    });
+
+    await expect(processLog(client, makeSource(handler), makeLog())).rejects.toThrow("No booking found");
+    expect(mockTx.indexedEvent.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,161 @@
+// Log fetching, decoding and idempotent dispatch to handlers
+
+import type { Prisma } from "@prisma/client";
+import { decodeEventLog, type AbiEvent, type Log } from "viem";
+import { CHAIN_ID } from "./config";
+import { prisma } from "./db";
+import type { ChainClient } from "./chain";
+import type { DecodedEvent, EventSource, IndexedLog } from "./types";
+import { UndoJournal } from "./undo";
+
+// Interactive transaction timeout - pool handlers read chain state inside it
+const HANDLER_TX_TIMEOUT_MS = 15_000;
+
+export type ProcessResult = "processed" | "duplicate" | "ignored";
+
+export interface SourcedLog {
+  source: EventSource;
+  log: IndexedLog;
+}
+
+/**
+ * Narrow a viem log to a mined log
+ */
+function toIndexedLog(log: Log): IndexedLog | null {
+  if (log.blockNumber === null || log.blockHash === null || log.transactionHash === null || log.logIndex === null) {
+    return null;
+  }
+
+  return {
+    address: log.address,
+    topics: log.topics as IndexedLog["topics"],
+    data: log.data,
+    blockNumber: log.blockNumber,
+    blockHash: log.blockHash,
+    transactionHash: log.transactionHash,
+    logIndex: log.logIndex,
+  };
+}
+
+/**
+ * Fetch logs for every source in a block range, ordered as they were mined
+ */
+export async function fetchLogs(
+  client: ChainClient,
+  sources: EventSource[],
+  fromBlock: bigint,
+  toBlock: bigint
+): Promise<SourcedLog[]> {
+  const collected: SourcedLog[] = [];
+
+  for (const source of sources) {
+    let logs: Log[];
+
+    if (source.filter) {
+      const event = source.abi.find(
+        (item): item is AbiEvent => item.type === "event" && item.name === source.filter!.eventName
+      );
+      logs = await client.getLogs({
+        address: source.addresses,
+        event,
+        args: source.filter.args,
+        fromBlock,
+        toBlock,
+      } as Parameters<ChainClient["getLogs"]>[0]);
+    } else {
+      logs = await client.getLogs({ address: source.addresses, fromBlock, toBlock });
+    }
+
+    for (const log of logs) {
+      const indexed = toIndexedLog(log);
+      if (indexed) {
+        collected.push({ source, log: indexed });
+      }
+    }
+  }
+
+  return collected.sort((a, b) =>
+    a.log.blockNumber === b.log.blockNumber
+      ? a.log.logIndex - b.log.logIndex
+      : a.log.blockNumber < b.log.blockNumber ? -1 : 1
+  );
+}
+
+/**
+ * Decode a log against its source ABI. Returns null for events the source
+ * does not handle (admin events, events from other ABIs at the same address).
+ */
+export function decodeLog(source: EventSource, log: IndexedLog): DecodedEvent | null {
+  try {
+    const decoded = decodeEventLog({
+      abi: source.abi,
+      data: log.data,
+      topics: log.topics as [signature: `0x${string}`, ...args: `0x${string}`[]],
+    });
+
+    if (!decoded.eventName || !source.handlers[decoded.eventName]) {
+      return null;
+    }
+
+    return {
+      eventName: decoded.eventName,
+      args: (decoded.args ?? {}) as Record<string, unknown>,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Apply one log exactly once.
+ *
+ * The IndexedEvent marker and the handler's writes share a transaction, so a
+ * restart mid-batch never double-applies an event. The marker keeps the
+ * handler's undo journal for rewindTo. Handler errors propagate to the caller.
+ */
+export async function processLog(
+  client: ChainClient,
+  source: EventSource,
+  log: IndexedLog
+): Promise<ProcessResult> {
+  const event = decodeLog(source, log);
+  if (!event) return "ignored";
+
+  const handler = source.handlers[event.eventName];
+
+  return prisma.$transaction(
+    async (tx) => {
+      const existing = await tx.indexedEvent.findUnique({
+        where: {
+          chainId_txHash_logIndex: {
+            chainId: CHAIN_ID,
+            txHash: log.transactionHash,
+            logIndex: log.logIndex,
+          },
+        },
+        select: { id: true },
+      });
+
+      if (existing) return "duplicate" as const;
+
+      const undo = new UndoJournal(tx);
+      await handler(event, { db: tx, client, log, undo });
+
+      await tx.indexedEvent.create({
+        data: {
+          chainId: CHAIN_ID,
+          blockNumber: log.blockNumber,
+          blockHash: log.blockHash,
+          txHash: log.transactionHash,
+          logIndex: log.logIndex,
+          contract: log.address,
+          eventName: event.eventName,
+          undo: undo.ops as unknown as Prisma.InputJsonValue,
+        },
+      });
+
+      return "processed" as const;
+    },
+    { timeout: HANDLER_TX_TIMEOUT_MS }
+  );
+}
@@ -0,0 +1,73 @@
+/**
+ * Re-org Detection Integration Tests
+ *
+ * Needs a local Hardhat node (`pnpm --filter @vlossom/contracts node`):
+ *   HARDHAT_RPC_URL=http://127.0.0.1:8545 pnpm test:integration
+ *
+ * A real re-org is made by snapshotting the node, mining, reverting and
+ * mining a different branch. Stored block hashes are kept in memory.
+ */
+
+const storedBlocks: { number: bigint; hash: string }[] = [];
+
+jest.mock("./db", () => ({
+  prisma: {
+    indexerBlock: {
+      findMany: jest.fn(async ({ where }: { where: { number: { lt: bigint } } }) =>
+        storedBlocks.filter((block) => block.number < where.number.lt).sort((a, b) => Number(b.number - a.number))
+      ),
+    },
+  },
+}));
+
+import { createPublicClient, createTestClient, http } from "viem";
+import { hardhat } from "viem/chains";
+import type { ChainClient } from "./chain";
+import { findReorgAncestor } from "./checkpoint";
+
+const RPC_URL = process.env.HARDHAT_RPC_URL;
+const describeHardhat = RPC_URL ? describe : describe.skip;
+
+describeHardhat("findReorgAncestor against a Hardhat node", () => {
+  const client = createPublicClient({ chain: hardhat, transport: http(RPC_URL) }) as ChainClient;
+  const testClient = createTestClient({ chain: hardhat, mode: "hardhat", transport: http(RPC_URL) });
+
+  /**
+   * Mine blocks and store their hashes the way saveCheckpoint does
+   */
+  async function mineAndStore(blocks: number, interval: number) {
+    await testClient.mine({ blocks, interval });
+    const head = await client.getBlock();
+    for (let number = head.number - BigInt(blocks) + 1n; number <= head.number; number++) {
+      const block = await client.getBlock({ blockNumber: number });
+      storedBlocks.push({ number, hash: block.hash });
+    }
+    return { blockNumber: head.number, blockHash: head.hash };
+  }
+
+  beforeEach(() => {
+    storedBlocks.length = 0;
+    jest.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  it("should not report a re-org on a canonical checkpoint", async () => {
+    const checkpoint = await mineAndStore(3, 1);
+
+    await expect(findReorgAncestor(client, checkpoint)).resolves.toBeNull();
+  });
+
+  it("should find the fork point after a branch is replaced", async () => {
+    const fork = await mineAndStore(2, 1);
+    const snapshot = await testClient.snapshot();
+    const checkpoint = await mineAndStore(3, 1);
+
+    // Same height, later timestamps - a competing branch
+    await testClient.revert({ id: snapshot });
+    await testClient.increaseTime({ seconds: 3600 });
+    await testClient.mine({ blocks: 3, interval: 1 });
+
+    const ancestor = await findReorgAncestor(client, checkpoint);
+
+    expect(ancestor).toEqual({ blockNumber: fork.blockNumber, blockHash: fork.blockHash });
+  });
+});
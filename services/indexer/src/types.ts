@@ -0,0 +1,55 @@
+// Shared indexer types
+
+import type { Abi, Address, Hash, Hex } from "viem";
+import type { Prisma } from "@prisma/client";
+import type { ChainClient } from "./chain";
+import type { UndoJournal } from "./undo";
+
+/**
+ * A mined log with all block fields present.
+ * Dead letters store enough to rebuild one of these for a retry.
+ */
+export interface IndexedLog {
+  address: Address;
+  topics: Hex[];
+  data: Hex;
+  blockNumber: bigint;
+  blockHash: Hash;
+  transactionHash: Hash;
+  logIndex: number;
+}
+
+/**
+ * Event decoded against its source ABI
+ */
+export interface DecodedEvent {
+  eventName: string;
+  args: Record<string, unknown>;
+}
+
+/**
+ * Everything a handler needs. `db` is the transaction that also records the
+ * IndexedEvent marker, so a handler either fully applies or not at all.
+ * Handlers record every row they change in `undo` so a re-org can roll the
+ * event back.
+ */
+export interface HandlerContext {
+  db: Prisma.TransactionClient;
+  client: ChainClient;
+  log: IndexedLog;
+  undo: UndoJournal;
+}
+
+export type EventHandler = (event: DecodedEvent, ctx: HandlerContext) => Promise<void>;
+
+/**
+ * A group of contracts sharing an ABI and handlers
+ */
+export interface EventSource {
+  name: string;
+  abi: Abi;
+  addresses: Address[];
+  handlers: Record<string, EventHandler>;
+  /** Optional indexed-argument filter applied in eth_getLogs */
+  filter?: { eventName: string; args: Record<string, unknown> };
+}
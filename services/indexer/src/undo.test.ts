@@ -0,0 +1,156 @@
+/**
+ * Undo Journal Tests
+ *
+ * Runs the journal against an in-memory table so a handler's writes can be
+ * applied and then rolled back the way rewindTo does it.
+ */
+
+import { Prisma } from "@prisma/client";
+import { UndoJournal, applyUndo } from "./undo";
+
+type Row = Record<string, unknown>;
+
+/**
+ * Minimal model delegate over a Map, matching rows by id
+ */
+function makeTable(rows: Row[] = []) {
+  const table = new Map<string, Row>(rows.map((row) => [row.id as string, { ...row }]));
+
+  return {
+    table,
+    findUnique: jest.fn(async ({ where, select }: { where: { id: string }; select?: Record<string, true> }) => {
+      const row = table.get(where.id);
+      if (!row) return null;
+      return select ? Object.fromEntries(Object.keys(select).map((key) => [key, row[key]])) : { ...row };
+    }),
+    create: jest.fn(async ({ data }: { data: Row }) => {
+      table.set(data.id as string, { ...data });
+      return data;
+    }),
+    update: jest.fn(async ({ where, data }: { where: { id: string }; data: Row }) => {
+      table.set(where.id, { ...table.get(where.id), ...data });
+    }),
+    updateMany: jest.fn(async ({ where, data }: { where: { id: string }; data: Row }) => {
+      if (!table.has(where.id)) return { count: 0 };
+      table.set(where.id, { ...table.get(where.id), ...data });
+      return { count: 1 };
+    }),
+    delete: jest.fn(async ({ where }: { where: { id: string } }) => {
+      table.delete(where.id);
+    }),
+    deleteMany: jest.fn(async ({ where }: { where: { id: string } }) => ({
+      count: table.delete(where.id) ? 1 : 0,
+    })),
+  };
+}
+
+function makeDb() {
+  const db = {
+    booking: makeTable([{ id: "booking-1", escrowStatus: "PENDING", balanceEscrowStatus: null }]),
+    liquidityPool: makeTable([
+      { id: "pool-1", depositorCount: 3, totalYieldDistributed: new Prisma.Decimal("12.5"), lastSyncAt: null },
+    ]),
+    liquidityDeposit: makeTable([
+      {
+        id: "deposit-1",
+        userId: "user-1",
+        poolId: "pool-1",
+        shares: new Prisma.Decimal("100"),
+        depositAmount: new Prisma.Decimal("100"),
+        depositedAt: new Date("2026-01-01T00:00:00Z"),
+      },
+    ]),
+    paymasterTransaction: makeTable([{ id: "op-1", gasUsed: 21_000n, status: "PENDING" }]),
+    yieldClaim: makeTable(),
+  };
+  return db;
+}
+
+function asTx(db: ReturnType<typeof makeDb>): Prisma.TransactionClient {
+  return db as unknown as Prisma.TransactionClient;
+}
+
+describe("UndoJournal", () => {
+  it("should record only the fields a handler changes", async () => {
+    const db = makeDb();
+    const journal = new UndoJournal(asTx(db));
+
+    await journal.before("booking", "booking-1", ["escrowStatus"]);
+
+    expect(journal.ops).toEqual([
+      { model: "booking", id: "booking-1", action: "restore", data: { escrowStatus: "PENDING" } },
+    ]);
+  });
+
+  it("should skip rows that do not exist", async () => {
+    const db = makeDb();
+    const journal = new UndoJournal(asTx(db));
+
+    await journal.before("booking", "missing", ["escrowStatus"]);
+    await journal.beforeDelete("liquidityDeposit", "missing");
+
+    expect(journal.ops).toEqual([]);
+  });
+
+  it("should store values that survive a JSON round trip", async () => {
+    const db = makeDb();
+    const journal = new UndoJournal(asTx(db));
+
+    await journal.before("paymasterTransaction", "op-1", ["gasUsed"]);
+    await journal.before("liquidityPool", "pool-1", ["totalYieldDistributed"]);
+    await journal.beforeDelete("liquidityDeposit", "deposit-1");
+
+    const stored = JSON.parse(JSON.stringify(journal.ops));
+
+    expect(stored).toEqual(journal.ops);
+    expect(stored[0].data).toEqual({ gasUsed: { $bigint: "21000" } });
+    expect(stored[1].data).toEqual({ totalYieldDistributed: "12.5" });
+    expect(stored[2].data.depositedAt).toBe("2026-01-01T00:00:00.000Z");
+  });
+});
+
+describe("applyUndo", () => {
+  it("should restore changed fields and bigints", async () => {
+    const db = makeDb();
+    const journal = new UndoJournal(asTx(db));
+
+    await journal.before("booking", "booking-1", ["escrowStatus"]);
+    await db.booking.update({ where: { id: "booking-1" }, data: { escrowStatus: "LOCKED" } });
+    await journal.before("paymasterTransaction", "op-1", ["gasUsed", "status"]);
+    await db.paymasterTransaction.update({ where: { id: "op-1" }, data: { gasUsed: 50_000n, status: "SUCCESS" } });
+
+    await applyUndo(asTx(db), JSON.parse(JSON.stringify(journal.ops)));
+
+    expect(db.booking.table.get("booking-1")?.escrowStatus).toBe("PENDING");
+    expect(db.paymasterTransaction.table.get("op-1")).toMatchObject({ gasUsed: 21_000n, status: "PENDING" });
+  });
+
+  it("should delete created rows and recreate deleted ones", async () => {
+    const db = makeDb();
+    const journal = new UndoJournal(asTx(db));
+
+    await db.yieldClaim.create({ data: { id: "claim-1", amount: "5" } });
+    journal.created("yieldClaim", "claim-1");
+    await journal.beforeDelete("liquidityDeposit", "deposit-1");
+    await db.liquidityDeposit.delete({ where: { id: "deposit-1" } });
+
+    await applyUndo(asTx(db), journal.ops);
+
+    expect(db.yieldClaim.table.has("claim-1")).toBe(false);
+    expect(db.liquidityDeposit.table.get("deposit-1")).toMatchObject({ userId: "user-1", shares: "100" });
+  });
+
+  it("should undo repeated writes to the same row back to the first value", async () => {
+    const db = makeDb();
+    const journal = new UndoJournal(asTx(db));
+
+    for (const count of [4, 5]) {
+      await journal.before("liquidityPool", "pool-1", ["depositorCount"]);
+      await db.liquidityPool.update({ where: { id: "pool-1" }, data: { depositorCount: count } });
+    }
+
+    await applyUndo(asTx(db), journal.ops);
+
+    expect(db.liquidityPool.table.get("pool-1")?.depositorCount).toBe(3);
+  });
+});
@@ -0,0 +1,129 @@
+// Undo journal - lets a re-org roll back what orphaned events wrote
+
+import type { Prisma } from "@prisma/client";
+
+/**
+ * Models handlers write to
+ */
+export type JournaledModel =
+  | "booking"
+  | "chairRentalRequest"
+  | "liquidityDeposit"
+  | "liquidityOperation"
+  | "liquidityPool"
+  | "paymasterTransaction"
+  | "property"
+  | "reputationScore"
+  | "yieldClaim";
+
+/**
+ * One step back for a row an event touched: restore the fields it changed,
+ * delete the row it created, or recreate the row it deleted.
+ * Values are JSON-safe (see encodeRow).
+ */
+export type UndoOp =
+  | { model: JournaledModel; id: string; action: "restore"; data: Record<string, unknown> }
+  | { model: JournaledModel; id: string; action: "delete" }
+  | { model: JournaledModel; id: string; action: "create"; data: Record<string, unknown> };
+
+// The delegate methods the journal needs, shared by every journaled model
+interface RowDelegate {
+  findUnique(args: { where: { id: string }; select?: Record<string, true> }): Promise<Record<string, unknown> | null>;
+  create(args: { data: Record<string, unknown> }): Promise<unknown>;
+  updateMany(args: { where: { id: string }; data: Record<string, unknown> }): Promise<unknown>;
+  deleteMany(args: { where: { id: string } }): Promise<unknown>;
+}
+
+function rows(db: Prisma.TransactionClient, model: JournaledModel): RowDelegate {
+  return db[model] as unknown as RowDelegate;
+}
+
+/**
+ * BigInts are tagged so they survive the Json column; dates and decimals
+ * become strings, which Prisma accepts back for those fields.
+ */
+function encodeRow(row: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(row).map(([key, value]) => [
+      key,
+      typeof value === "bigint"
+        ? { $bigint: value.toString() }
+        : value instanceof Date
+          ? value.toISOString()
+          : value !== null && typeof value === "object" && "toFixed" in value
+            ? String(value)
+            : value,
+    ])
+  );
+}
+
+function decodeRow(data: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(data).map(([key, value]) => [
+      key,
+      value !== null && typeof value === "object" && "$bigint" in value
+        ? BigInt((value as { $bigint: string }).$bigint)
+        : value,
+    ])
+  );
+}
+
+/**
+ * Collects the undo steps for one event while its handler runs. Handlers
+ * record a row before changing it; processLog stores the steps with the
+ * event's IndexedEvent marker.
+ */
+export class UndoJournal {
+  readonly ops: UndoOp[] = [];
+
+  constructor(private readonly db: Prisma.TransactionClient) {}
+
+  /**
+   * Remember fields of a row before the handler overwrites them
+   */
+  async before(model: JournaledModel, id: string, fields: string[]): Promise<void> {
+    const select = Object.fromEntries(fields.map((field) => [field, true as const]));
+    const row = await rows(this.db, model).findUnique({ where: { id }, select });
+    if (row) {
+      this.ops.push({ model, id, action: "restore", data: encodeRow(row) });
+    }
+  }
+
+  /**
+   * Remember a row the handler created
+   */
+  created(model: JournaledModel, id: string): void {
+    this.ops.push({ model, id, action: "delete" });
+  }
+
+  /**
+   * Remember a whole row before the handler deletes it
+   */
+  async beforeDelete(model: JournaledModel, id: string): Promise<void> {
+    const row = await rows(this.db, model).findUnique({ where: { id } });
+    if (row) {
+      this.ops.push({ model, id, action: "create", data: encodeRow(row) });
+    }
+  }
+}
+
+/**
+ * Apply an event's undo steps, newest first. Rows removed since are skipped.
+ */
+export async function applyUndo(db: Prisma.TransactionClient, ops: UndoOp[]): Promise<void> {
+  for (const op of [...ops].reverse()) {
+    const delegate = rows(db, op.model);
+
+    switch (op.action) {
+      case "restore":
+        await delegate.updateMany({ where: { id: op.id }, data: decodeRow(op.data) });
+        break;
+      case "delete":
+        await delegate.deleteMany({ where: { id: op.id } });
+        break;
+      case "create":
+        await delegate.create({ data: decodeRow(op.data) });
+        break;
+    }
+  }
+}
@@ -1,17 +1,21 @@
 // @vlossom/scheduler - Background Job Scheduler Service
 // Reference: docs/vlossom/18-stylist-schedule-simulation.md
 
-import { PrismaClient, BookingStatus } from "@prisma/client";
+import { PrismaClient, BalanceStatus, BookingStatus } from "@prisma/client";
 
 /**
  * Vlossom Scheduler Service
  *
  * Handles background jobs for the Vlossom platform:
  * - Auto-confirm bookings after 24h timeout
+ * - Forfeit deposit bookings whose balance was never paid
+ * - Just-in-time payment for recurring booking occurrences
+ * - Waitlist offer expiry and stale waitlist entries
  * - Booking reminder notifications
  * - Expired payment request cleanup
  * - SIWE nonce cleanup (V8.0.0)
  * - Refresh token cleanup (V8.0.0)
+ * - Anchoring reputation events in the on-chain ReputationRegistry
  * - Daily stats aggregation
  */
 
@@ -20,11 +24,25 @@ const prisma = new PrismaClient();
 // Configuration
 const AUTO_CONFIRM_TIMEOUT_HOURS = 24;
 const REMINDER_HOURS_BEFORE = 24;
+const BALANCE_PAYMENT_GRACE_HOURS = 24; // Matches services/api/src/lib/booking-deposit.ts
+// Match services/api/src/lib/recurring-bookings/types.ts
+const OCCURRENCE_PAYMENT_WINDOW_HOURS = 72;
+const OCCURRENCE_PAYMENT_CUTOFF_HOURS = 24;
 const CHECK_INTERVAL_MS = 60 * 1000; // Check every minute
 const REPUTATION_RECALC_INTERVAL_MS = 6 * 60 * 60 * 1000; // Recalculate reputation every 6 hours
+const REPUTATION_SYNC_INTERVAL_MS = 10 * 60 * 1000; // Anchor new reputation events every 10 minutes
+const BUFFER_RECONCILE_INTERVAL_MS = 5 * 60 * 1000; // Repay the smoothing buffer every 5 minutes
+const PROPERTY_REGISTRY_SYNC_INTERVAL_MS = 15 * 60 * 1000; // Mirror PropertyRegistry every 15 minutes
+const LIQUIDITY_RECONCILE_INTERVAL_MS = 2 * 60 * 1000; // Confirm pending pool operations every 2 minutes
+const WALLET_RECOVERY_SYNC_INTERVAL_MS = 15 * 60 * 1000; // Advance guardian recoveries every 15 minutes
 
 // Track last reputation recalculation
 let lastReputationRecalc = 0;
+let lastReputationSync = 0;
+let lastBufferReconcile = 0;
+let lastPropertyRegistrySync = 0;
+let lastLiquidityReconcile = 0;
+let lastWalletRecoverySync = 0;
 
 /**
  * Auto-confirm bookings that have been in AWAITING_CUSTOMER_CONFIRMATION
@@ -44,6 +62,8 @@ async function processAutoConfirmJobs(): Promise<void> {
         actualEndTime: {
           lte: cutoffTime,
         },
+        // Unpaid balances are forfeited by processUnpaidBalances instead
+        OR: [{ balanceStatus: null }, { balanceStatus: { not: BalanceStatus.DUE } }],
       },
       include: {
         customer: true,
@@ -95,6 +115,147 @@ async function processAutoConfirmJobs(): Promise<void> {
   }
 }
 
+/**
+ * Cancel deposit bookings whose balance fell due more than
+ * BALANCE_PAYMENT_GRACE_HOURS ago without being paid.
+ *
+ * Business Rule: the deposit is non-refundable, so it is released to the
+ * stylist and the booking is cancelled. The API does the escrow work.
+ */
+async function processUnpaidBalances(): Promise<void> {
+  const cutoffTime = new Date(Date.now() - BALANCE_PAYMENT_GRACE_HOURS * 60 * 60 * 1000);
+
+  try {
+    const overdueBookings = await prisma.booking.findMany({
+      where: {
+        status: {
+          in: [BookingStatus.IN_PROGRESS, BookingStatus.AWAITING_CUSTOMER_CONFIRMATION],
+        },
+        balanceStatus: BalanceStatus.DUE,
+        balanceDueAt: {
+          lte: cutoffTime,
+        },
+      },
+      select: { id: true },
+    });
+
+    if (overdueBookings.length === 0) {
+      return;
+    }
+
+    console.log(`[Scheduler] Found ${overdueBookings.length} bookings with unpaid balances`);
+
+    for (const booking of overdueBookings) {
+      await triggerBalanceForfeit(booking.id);
+    }
+  } catch (error) {
+    console.error("[Scheduler] Error processing unpaid balances:", error);
+  }
+}
+
+/**
+ * Recurring booking occurrences are paid one at a time.
+ * - Payment opens OCCURRENCE_PAYMENT_WINDOW_HOURS before the appointment:
+ *   the customer is told once
+ * - Still unpaid OCCURRENCE_PAYMENT_CUTOFF_HOURS before: the occurrence is
+ *   cancelled so the stylist can rebook the slot
+ */
+async function processSeriesOccurrencePayments(): Promise<void> {
+  const now = Date.now();
+  const windowOpen = new Date(now + OCCURRENCE_PAYMENT_WINDOW_HOURS * 60 * 60 * 1000);
+  const cutoff = new Date(now + OCCURRENCE_PAYMENT_CUTOFF_HOURS * 60 * 60 * 1000);
+
+  try {
+    const unpaidOccurrences = await prisma.booking.findMany({
+      where: {
+        seriesId: { not: null },
+        status: BookingStatus.PENDING_CUSTOMER_PAYMENT,
+        scheduledStartTime: {
+          lte: windowOpen,
+        },
+      },
+      select: { id: true, scheduledStartTime: true, paymentDueNotifiedAt: true },
+    });
+
+    for (const occurrence of unpaidOccurrences) {
+      if (occurrence.scheduledStartTime <= cutoff) {
+        await triggerSeriesOccurrenceJob(occurrence.id, "expire-occurrence");
+      } else if (!occurrence.paymentDueNotifiedAt) {
+        await triggerSeriesOccurrenceJob(occurrence.id, "occurrence-payment-due");
+      }
+    }
+  } catch (error) {
+    console.error("[Scheduler] Error processing series occurrence payments:", error);
+  }
+}
+
+/**
+ * Expire waitlist offers past their deadline so the slot moves on to the
+ * next customers, and retire entries whose date range has passed.
+ * The API sends the next round of offers.
+ */
+async function processWaitlistOffers(): Promise<void> {
+  try {
+    const expiredOffers = await prisma.waitlistOffer.findMany({
+      where: {
+        status: "PENDING",
+        expiresAt: {
+          lte: new Date(),
+        },
+      },
+      select: { id: true },
+    });
+
+    for (const offer of expiredOffers) {
+      await triggerWaitlistOfferExpiry(offer.id);
+    }
+
+    const result = await prisma.waitlistEntry.updateMany({
+      where: {
+        status: "ACTIVE",
+        latestDate: {
+          lt: new Date(),
+        },
+      },
+      data: {
+        status: "EXPIRED",
+      },
+    });
+
+    if (result.count > 0) {
+      console.log(`[Scheduler] Expired ${result.count} waitlist entries`);
+    }
+  } catch (error) {
+    console.error("[Scheduler] Error processing waitlist offers:", error);
+  }
+}
+
+/**
+ * Release chair rental payments once the rental period has ended.
+ * Disputed payments stay in escrow until an admin resolves them.
+ */
+async function processChairRentalReleases(): Promise<void> {
+  try {
+    const endedRentals = await prisma.chairRentalRequest.findMany({
+      where: {
+        status: { in: ["APPROVED", "ACTIVE"] },
+        escrowStatus: "LOCKED",
+        endTime: {
+          lte: new Date(),
+        },
+        OR: [{ disputedAt: null }, { disputeResolvedAt: { not: null } }],
+      },
+      select: { id: true },
+    });
+
+    for (const rental of endedRentals) {
+      await triggerChairRentalRelease(rental.id);
+    }
+  } catch (error) {
+    console.error("[Scheduler] Error processing chair rental releases:", error);
+  }
+}
+
 /**
  * Send reminder notifications for upcoming bookings
  */
@@ -119,15 +280,16 @@ async function processBookingReminders(): Promise<void> {
     });
 
     for (const booking of upcomingBookings) {
-      // Check if reminder was already sent (via notification table)
+      // Check if reminder was already sent (via notification table).
+      // Matching the time too means a rescheduled booking gets a new reminder.
       const existingReminder = await prisma.notification.findFirst({
         where: {
           userId: booking.customerId,
           type: "BOOKING_REMINDER",
-          metadata: {
-            path: ["bookingId"],
-            equals: booking.id,
-          },
+          AND: [
+            { metadata: { path: ["bookingId"], equals: booking.id } },
+            { metadata: { path: ["scheduledTime"], equals: booking.scheduledStartTime.toISOString() } },
+          ],
         },
       });
 
@@ -282,6 +444,240 @@ async function triggerReputationRecalculation(): Promise<void> {
   }
 }
 
+/**
+ * Trigger reputation sync to the on-chain registry via internal API call
+ * The API batches and retries; this only sets the pace
+ */
+async function triggerReputationSync(): Promise<void> {
+  const now = Date.now();
+
+  if (now - lastReputationSync < REPUTATION_SYNC_INTERVAL_MS) {
+    return;
+  }
+
+  const apiUrl = process.env.API_URL || "http://localhost:3002";
+  const internalSecret = process.env.INTERNAL_AUTH_SECRET;
+
+  if (!internalSecret) {
+    console.error("[Scheduler] INTERNAL_AUTH_SECRET not configured");
+    return;
+  }
+
+  // Counted as a run even on failure so an unconfigured registry isn't hit every minute
+  lastReputationSync = now;
+
+  try {
+    const response = await fetch(`${apiUrl}/api/v1/internal/reputation/sync`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Internal-Auth": internalSecret,
+      },
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      console.error("[Scheduler] Failed to sync reputation to chain:", error);
+    } else {
+      const result = await response.json();
+      if (result.batches > 0 || result.reconciled > 0) {
+        console.log(
+          `[Scheduler] Reputation sync: ${result.confirmed} anchored in ${result.batches} batches, ${result.failed} failed`
+        );
+      }
+    }
+  } catch (error) {
+    console.error("[Scheduler] Error calling reputation sync API:", error);
+  }
+}
+
+/**
+ * Trigger smoothing buffer reconciliation via internal API call
+ * Retries instant payouts whose escrow share hasn't been returned to the buffer
+ */
+async function triggerBufferReconcile(): Promise<void> {
+  const now = Date.now();
+
+  if (now - lastBufferReconcile < BUFFER_RECONCILE_INTERVAL_MS) {
+    return;
+  }
+
+  const apiUrl = process.env.API_URL || "http://localhost:3002";
+  const internalSecret = process.env.INTERNAL_AUTH_SECRET;
+
+  if (!internalSecret) {
+    console.error("[Scheduler] INTERNAL_AUTH_SECRET not configured");
+    return;
+  }
+
+  // Counted as a run even on failure so an unconfigured buffer isn't hit every minute
+  lastBufferReconcile = now;
+
+  try {
+    const response = await fetch(`${apiUrl}/api/v1/internal/smoothing-buffer/reconcile`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Internal-Auth": internalSecret,
+      },
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      console.error("[Scheduler] Failed to reconcile smoothing buffer:", error);
+    } else {
+      const result = await response.json();
+      if (result.checked > 0) {
+        console.log(
+          `[Scheduler] Smoothing buffer: ${result.reconciled} payouts reconciled, ${result.failed} failed`
+        );
+      }
+    }
+  } catch (error) {
+    console.error("[Scheduler] Error calling smoothing buffer reconcile API:", error);
+  }
+}
+
+/**
+ * Trigger PropertyRegistry sync via internal API call
+ * Corrects property drift from the chain, executes undisputed suspensions
+ * and retries failed registrations
+ */
+async function triggerPropertyRegistrySync(): Promise<void> {
+  const now = Date.now();
+
+  if (now - lastPropertyRegistrySync < PROPERTY_REGISTRY_SYNC_INTERVAL_MS) {
+    return;
+  }
+
+  const apiUrl = process.env.API_URL || "http://localhost:3002";
+  const internalSecret = process.env.INTERNAL_AUTH_SECRET;
+
+  if (!internalSecret) {
+    console.error("[Scheduler] INTERNAL_AUTH_SECRET not configured");
+    return;
+  }
+
+  // Counted as a run even on failure so an unconfigured registry isn't hit every minute
+  lastPropertyRegistrySync = now;
+
+  try {
+    const response = await fetch(`${apiUrl}/api/v1/internal/properties/registry-sync`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Internal-Auth": internalSecret,
+      },
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      console.error("[Scheduler] Failed to sync property registry:", error);
+    } else {
+      const result = await response.json();
+      if (result.corrected + result.registered + result.suspensionsExecuted + result.failed > 0) {
+        console.log(
+          `[Scheduler] Property registry: ${result.corrected} corrected, ${result.registered} registered, ${result.suspensionsExecuted} suspended, ${result.failed} failed`
+        );
+      }
+    }
+  } catch (error) {
+    console.error("[Scheduler] Error calling property registry sync API:", error);
+  }
+}
+
+/**
+ * Trigger liquidity operation reconciliation via internal API call
+ * Applies deposits, withdrawals and claims mined after their request returned
+ */
+async function triggerLiquidityReconcile(): Promise<void> {
+  const now = Date.now();
+
+  if (now - lastLiquidityReconcile < LIQUIDITY_RECONCILE_INTERVAL_MS) {
+    return;
+  }
+
+  const apiUrl = process.env.API_URL || "http://localhost:3002";
+  const internalSecret = process.env.INTERNAL_AUTH_SECRET;
+
+  if (!internalSecret) {
+    console.error("[Scheduler] INTERNAL_AUTH_SECRET not configured");
+    return;
+  }
+
+  lastLiquidityReconcile = now;
+
+  try {
+    const response = await fetch(`${apiUrl}/api/v1/internal/liquidity/reconcile-operations`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Internal-Auth": internalSecret,
+      },
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      console.error("[Scheduler] Failed to reconcile liquidity operations:", error);
+    } else {
+      const result = await response.json();
+      if (result.checked > 0) {
+        console.log(
+          `[Scheduler] Liquidity operations: ${result.confirmed} confirmed, ${result.failed} failed, ${result.pending} pending`
+        );
+      }
+    }
+  } catch (error) {
+    console.error("[Scheduler] Error calling liquidity reconcile API:", error);
+  }
+}
+
+/**
+ * Trigger wallet recovery sync via internal API call
+ * Picks up external guardian approvals and executes recoveries whose time-lock ended
+ */
+async function triggerWalletRecoverySync(): Promise<void> {
+  const now = Date.now();
+
+  if (now - lastWalletRecoverySync < WALLET_RECOVERY_SYNC_INTERVAL_MS) {
+    return;
+  }
+
+  const apiUrl = process.env.API_URL || "http://localhost:3002";
+  const internalSecret = process.env.INTERNAL_AUTH_SECRET;
+
+  if (!internalSecret) {
+    console.error("[Scheduler] INTERNAL_AUTH_SECRET not configured");
+    return;
+  }
+
+  lastWalletRecoverySync = now;
+
+  try {
+    const response = await fetch(`${apiUrl}/api/v1/internal/wallet/recovery-sync`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Internal-Auth": internalSecret,
+      },
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      console.error("[Scheduler] Failed to sync wallet recoveries:", error);
+    } else {
+      const result = await response.json();
+      if (result.executed + result.cancelled + result.expired > 0) {
+        console.log(
+          `[Scheduler] Wallet recovery: ${result.executed} executed, ${result.cancelled} cancelled, ${result.expired} expired`
+        );
+      }
+    }
+  } catch (error) {
+    console.error("[Scheduler] Error calling wallet recovery sync API:", error);
+  }
+}
+
 /**
  * Trigger escrow release via internal API call
  */
@@ -314,6 +710,137 @@ async function triggerEscrowRelease(bookingId: string): Promise<void> {
   }
 }
 
+/**
+ * Trigger balance forfeiture via internal API call
+ */
+async function triggerBalanceForfeit(bookingId: string): Promise<void> {
+  const apiUrl = process.env.API_URL || "http://localhost:3002";
+  const internalSecret = process.env.INTERNAL_AUTH_SECRET;
+
+  if (!internalSecret) {
+    console.error("[Scheduler] INTERNAL_AUTH_SECRET not configured");
+    return;
+  }
+
+  try {
+    const response = await fetch(`${apiUrl}/api/v1/internal/bookings/${bookingId}/forfeit-balance`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Internal-Auth": internalSecret,
+      },
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      console.error(`[Scheduler] Failed to forfeit balance for ${bookingId}:`, error);
+    } else {
+      console.log(`[Scheduler] Balance forfeited for booking ${bookingId}`);
+    }
+  } catch (error) {
+    console.error(`[Scheduler] Error calling balance forfeit API:`, error);
+  }
+}
+
+/**
+ * Notify or expire a recurring booking occurrence via internal API call
+ */
+async function triggerSeriesOccurrenceJob(
+  bookingId: string,
+  action: "occurrence-payment-due" | "expire-occurrence"
+): Promise<void> {
+  const apiUrl = process.env.API_URL || "http://localhost:3002";
+  const internalSecret = process.env.INTERNAL_AUTH_SECRET;
+
+  if (!internalSecret) {
+    console.error("[Scheduler] INTERNAL_AUTH_SECRET not configured");
+    return;
+  }
+
+  try {
+    const response = await fetch(`${apiUrl}/api/v1/internal/bookings/${bookingId}/${action}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Internal-Auth": internalSecret,
+      },
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      console.error(`[Scheduler] ${action} failed for ${bookingId}:`, error);
+    } else {
+      console.log(`[Scheduler] ${action} done for booking ${bookingId}`);
+    }
+  } catch (error) {
+    console.error(`[Scheduler] Error calling ${action} API:`, error);
+  }
+}
+
+/**
+ * Expire a waitlist offer via internal API call
+ */
+async function triggerWaitlistOfferExpiry(offerId: string): Promise<void> {
+  const apiUrl = process.env.API_URL || "http://localhost:3002";
+  const internalSecret = process.env.INTERNAL_AUTH_SECRET;
+
+  if (!internalSecret) {
+    console.error("[Scheduler] INTERNAL_AUTH_SECRET not configured");
+    return;
+  }
+
+  try {
+    const response = await fetch(`${apiUrl}/api/v1/internal/waitlist/offers/${offerId}/expire`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Internal-Auth": internalSecret,
+      },
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      console.error(`[Scheduler] Failed to expire waitlist offer ${offerId}:`, error);
+    } else {
+      console.log(`[Scheduler] Waitlist offer ${offerId} expired`);
+    }
+  } catch (error) {
+    console.error(`[Scheduler] Error calling waitlist offer expiry API:`, error);
+  }
+}
+
+/**
+ * Release a finished chair rental's escrow via internal API call
+ */
+async function triggerChairRentalRelease(rentalId: string): Promise<void> {
+  const apiUrl = process.env.API_URL || "http://localhost:3002";
+  const internalSecret = process.env.INTERNAL_AUTH_SECRET;
+
+  if (!internalSecret) {
+    console.error("[Scheduler] INTERNAL_AUTH_SECRET not configured");
+    return;
+  }
+
+  try {
+    const response = await fetch(`${apiUrl}/api/v1/internal/chair-rentals/${rentalId}/release`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Internal-Auth": internalSecret,
+      },
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      console.error(`[Scheduler] Failed to release chair rental ${rentalId}:`, error);
+    } else {
+      console.log(`[Scheduler] Chair rental ${rentalId} payment released`);
+    }
+  } catch (error) {
+    console.error(`[Scheduler] Error calling chair rental release API:`, error);
+  }
+}
+
 /**
  * Main scheduler loop
  */
@@ -337,11 +864,20 @@ async function runScheduler(): Promise<void> {
 async function runAllJobs(): Promise<void> {
   try {
     await processAutoConfirmJobs();
+    await processUnpaidBalances();
+    await processSeriesOccurrencePayments();
+    await processWaitlistOffers();
+    await processChairRentalReleases();
     await processBookingReminders();
     await cleanupExpiredPaymentRequests();
     await cleanupExpiredSiweNonces(); // V8.0.0: Clean up expired SIWE nonces
     await cleanupExpiredRefreshTokens(); // V8.0.0: Clean up expired refresh tokens
     await triggerReputationRecalculation();
+    await triggerReputationSync();
+    await triggerBufferReconcile();
+    await triggerPropertyRegistrySync();
+    await triggerLiquidityReconcile();
+    await triggerWalletRecoverySync();
   } catch (error) {
     console.error("[Scheduler] Error running jobs:", error);
   }